@@ -0,0 +1,371 @@
+import { LevelConfig } from './LevelManager';
+import { LevelRegistry } from './LevelRegistry';
+
+/** Tile layer exported from a draft. */
+export const DRAFT_TILE_LAYER = 'ground';
+
+/** Object layers exported from a draft, in order. */
+export const DRAFT_OBJECT_LAYERS = [
+  'platforms',
+  'enemies',
+  'items',
+  'hazards',
+  'checkpoints',
+  'powerups',
+  'player',
+  'exit',
+];
+
+/** The tileset a draft is painted with (gid 1 is a solid tile). */
+const DRAFT_TILESET = {
+  name: 'platform',
+  /** Relative to `assets/tilemaps/`. */
+  image: '../sprites/platform.svg',
+};
+
+export type DraftPropertyValue = string | number | boolean;
+
+/**
+ * An object placed in a draft, in world coordinates. Rectangles are
+ * measured from their top-left corner, as in Tiled.
+ */
+export interface DraftObject {
+  id: number;
+  /** Object layer, e.g. 'enemies'. */
+  layer: string;
+  /** Object type, e.g. 'slime'. */
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: Record<string, DraftPropertyValue>;
+}
+
+/**
+ * `LevelConfig` fields set in the editor.
+ */
+export interface LevelDraftConfig {
+  targetScore?: number;
+  /** Time limit in seconds. */
+  timeLimit?: number;
+  requiredItems: string[];
+  /** Id of one of the level manifest's themes. */
+  theme: string;
+}
+
+/**
+ * A level being built in the editor.
+ */
+export interface LevelDraft {
+  /** Tilemap key, also the exported file name. */
+  key: string;
+  /** Width in tiles. */
+  width: number;
+  /** Height in tiles. */
+  height: number;
+  /** Tile size in pixels. */
+  tileSize: number;
+  /** Tile layer gids, row by row (0 is empty). */
+  tiles: number[];
+  objects: DraftObject[];
+  nextObjectId: number;
+  config: LevelDraftConfig;
+}
+
+/**
+ * A Tiled map property.
+ */
+export interface TiledProperty {
+  name: string;
+  type: 'bool' | 'int' | 'float' | 'string';
+  value: DraftPropertyValue;
+}
+
+/**
+ * The subset of the Tiled JSON map format a draft exports.
+ */
+export interface TiledMap {
+  type: 'map';
+  version: string;
+  tiledversion: string;
+  orientation: 'orthogonal';
+  renderorder: 'right-down';
+  infinite: false;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  nextlayerid: number;
+  nextobjectid: number;
+  layers: Array<Record<string, unknown>>;
+  tilesets: Array<Record<string, unknown>>;
+}
+
+/**
+ * Create an empty draft with a floor along the bottom row.
+ * @param key Tilemap key.
+ * @param width Width in tiles.
+ * @param height Height in tiles.
+ * @param tileSize Tile size in pixels.
+ */
+export function createLevelDraft(
+  key: string,
+  width: number = 40,
+  height: number = 20,
+  tileSize: number = 32,
+): LevelDraft {
+  const tiles = new Array<number>(width * height).fill(0);
+  tiles.fill(1, (height - 1) * width);
+  return {
+    key,
+    width,
+    height,
+    tileSize,
+    tiles,
+    objects: [],
+    nextObjectId: 1,
+    config: { requiredItems: [], theme: 'forest' },
+  };
+}
+
+/**
+ * Get the tile at a cell, or undefined outside the map.
+ */
+export function getTile(
+  draft: LevelDraft,
+  col: number,
+  row: number,
+): number | undefined {
+  if (!inBounds(draft, col, row)) return undefined;
+  return draft.tiles[row * draft.width + col];
+}
+
+/**
+ * Paint a tile (0 erases).
+ * @returns Whether the cell is on the map.
+ */
+export function setTile(
+  draft: LevelDraft,
+  col: number,
+  row: number,
+  gid: number,
+): boolean {
+  if (!inBounds(draft, col, row)) return false;
+  draft.tiles[row * draft.width + col] = gid;
+  return true;
+}
+
+/**
+ * Place an object. A level has one player spawn and one exit, so placing
+ * another replaces it.
+ * @returns The placed object.
+ */
+export function addObject(
+  draft: LevelDraft,
+  object: Omit<DraftObject, 'id'>,
+): DraftObject {
+  if (object.layer === 'player' || object.layer === 'exit') {
+    draft.objects = draft.objects.filter((o) => o.layer !== object.layer);
+  }
+  const placed = { ...object, id: draft.nextObjectId++ };
+  draft.objects.push(placed);
+  return placed;
+}
+
+/**
+ * Remove the most recently placed object under a point.
+ * @returns The removed object, if any.
+ */
+export function removeObjectAt(
+  draft: LevelDraft,
+  x: number,
+  y: number,
+): DraftObject | undefined {
+  for (let i = draft.objects.length - 1; i >= 0; i--) {
+    const object = draft.objects[i]!;
+    if (
+      x >= object.x &&
+      x < object.x + object.width &&
+      y >= object.y &&
+      y < object.y + object.height
+    ) {
+      draft.objects.splice(i, 1);
+      return object;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the `LevelConfig` for a draft.
+ * @param draft The draft.
+ * @param levels The campaign whose themes give the background colour.
+ * @param tilemap Path of the tilemap file.
+ */
+export function toLevelConfig(
+  draft: LevelDraft,
+  levels: LevelRegistry = new LevelRegistry(),
+  tilemap: string = `assets/tilemaps/${draft.key}.json`,
+): LevelConfig {
+  const { targetScore, timeLimit, requiredItems, theme } = draft.config;
+  const spawn = draft.objects.find((o) => o.layer === 'player');
+  const backgroundColor = levels.getTheme(theme)?.backgroundColor;
+  return {
+    key: draft.key,
+    tilemap,
+    ...(spawn
+      ? {
+        playerStart: {
+          x: spawn.x + spawn.width / 2,
+          y: spawn.y + spawn.height / 2,
+        },
+      }
+      : {}),
+    ...(targetScore ? { targetScore } : {}),
+    ...(timeLimit ? { timeLimit } : {}),
+    ...(requiredItems.length > 0 ? { requiredItems: [...requiredItems] } : {}),
+    ...(backgroundColor !== undefined ? { backgroundColor } : {}),
+    theme,
+  };
+}
+
+/**
+ * Write a draft's entry for a world's `levels` list in
+ * `assets/data/levels.json`.
+ * @param draft The draft.
+ * @param levelNumber Level number to file it under.
+ * @param requires Levels to complete before it unlocks.
+ */
+export function formatManifestEntry(
+  draft: LevelDraft,
+  levelNumber: number,
+  requires: number[] = [],
+): string {
+  const config = toLevelConfig(draft);
+  // The theme gives the background colour
+  const entry: Record<string, unknown> = {
+    number: levelNumber,
+    key: config.key,
+    name: config.key,
+    tilemap: config.tilemap,
+    theme: config.theme,
+  };
+  for (const field of [
+    'playerStart',
+    'targetScore',
+    'timeLimit',
+    'requiredItems',
+  ] as const) {
+    if (config[field] !== undefined) entry[field] = config[field];
+  }
+  if (requires.length > 0) entry.requires = requires;
+  return JSON.stringify(entry, null, 2);
+}
+
+/**
+ * Export a draft as a Tiled JSON map, with the tileset embedded so Phaser
+ * can load it directly.
+ */
+export function toTiledMap(draft: LevelDraft): TiledMap {
+  const layers: Array<Record<string, unknown>> = [
+    {
+      id: 1,
+      name: DRAFT_TILE_LAYER,
+      type: 'tilelayer',
+      x: 0,
+      y: 0,
+      width: draft.width,
+      height: draft.height,
+      opacity: 1,
+      visible: true,
+      data: [...draft.tiles],
+    },
+  ];
+
+  DRAFT_OBJECT_LAYERS.forEach((name) => {
+    const objects = draft.objects.filter((o) => o.layer === name);
+    if (objects.length === 0) return;
+    layers.push({
+      id: layers.length + 1,
+      name,
+      type: 'objectgroup',
+      draworder: 'topdown',
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: true,
+      objects: objects.map(toTiledObject),
+    });
+  });
+
+  return {
+    type: 'map',
+    version: '1.10',
+    tiledversion: '1.10.2',
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    infinite: false,
+    width: draft.width,
+    height: draft.height,
+    tilewidth: draft.tileSize,
+    tileheight: draft.tileSize,
+    nextlayerid: layers.length + 1,
+    nextobjectid: draft.nextObjectId,
+    layers,
+    tilesets: [
+      {
+        firstgid: 1,
+        name: DRAFT_TILESET.name,
+        image: DRAFT_TILESET.image,
+        imagewidth: draft.tileSize,
+        imageheight: draft.tileSize,
+        tilewidth: draft.tileSize,
+        tileheight: draft.tileSize,
+        tilecount: 1,
+        columns: 1,
+        margin: 0,
+        spacing: 0,
+        tiles: [
+          {
+            id: 0,
+            properties: [{ name: 'collides', type: 'bool', value: true }],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toTiledObject(object: DraftObject): Record<string, unknown> {
+  const properties = Object.entries(object.properties).map(([name, value]) =>
+    toTiledProperty(name, value),
+  );
+  return {
+    id: object.id,
+    name: '',
+    type: object.type,
+    x: object.x,
+    y: object.y,
+    width: object.width,
+    height: object.height,
+    rotation: 0,
+    visible: true,
+    ...(properties.length > 0 ? { properties } : {}),
+  };
+}
+
+function toTiledProperty(
+  name: string,
+  value: DraftPropertyValue,
+): TiledProperty {
+  if (typeof value === 'boolean') return { name, type: 'bool', value };
+  if (typeof value === 'number') {
+    return { name, type: Number.isInteger(value) ? 'int' : 'float', value };
+  }
+  return { name, type: 'string', value };
+}
+
+function inBounds(draft: LevelDraft, col: number, row: number): boolean {
+  return col >= 0 && col < draft.width && row >= 0 && row < draft.height;
+}
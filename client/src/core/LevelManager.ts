@@ -1,5 +1,6 @@
 import { logger } from '../utils/logger';
-import { Scene } from 'phaser';
+import { Scene, Tilemaps } from 'phaser';
+import { LevelRegistry } from './LevelRegistry';
 
 export interface LevelConfig {
   key: string;
@@ -10,7 +11,8 @@ export interface LevelConfig {
   requiredItems?: string[];
   requiredEnemies?: number;
   backgroundColor?: number;
-  theme?: 'forest' | 'cave' | 'sky';
+  /** Theme id from the level manifest. */
+  theme?: string;
 }
 
 export interface LevelState {
@@ -22,47 +24,28 @@ export interface LevelState {
   isComplete: boolean;
 }
 
-// Predefined level configurations
-export const LEVEL_CONFIGS: Record<number, LevelConfig> = {
-  1: {
-    key: 'level1',
-    tilemap: 'assets/tilemaps/level1.json',
-    playerStart: { x: 100, y: 300 },
-    targetScore: 100,
-    backgroundColor: 0x1a1a2e,
-    theme: 'forest',
-  },
-  2: {
-    key: 'level2',
-    tilemap: 'assets/tilemaps/level2.json',
-    playerStart: { x: 400, y: 2050 },
-    targetScore: 200,
-    timeLimit: 180,
-    backgroundColor: 0x0d0d1a,
-    theme: 'cave',
-  },
-  3: {
-    key: 'level3',
-    tilemap: 'assets/tilemaps/level3.json',
-    playerStart: { x: 100, y: 500 },
-    targetScore: 300,
-    timeLimit: 240,
-    backgroundColor: 0x87ceeb,
-    theme: 'sky',
-  },
-};
-
 export class LevelManager {
   private scene: Scene;
+  private levels: LevelRegistry;
   private currentLevel?: LevelConfig;
   private currentLevelNumber: number = 1;
+  /** Whether the current level isn't one of the manifest's. */
+  private customLevel: boolean = false;
   private levelState: LevelState;
   private onScoreChange?: (score: number) => void;
   private onLevelComplete?: () => void;
   private onGameOver?: () => void;
 
-  constructor(scene: Scene) {
+  /**
+   * @param levels The campaign; read from the scene's JSON cache if not
+   * given.
+   */
+  constructor(
+    scene: Scene,
+    levels: LevelRegistry = LevelRegistry.fromCache(scene),
+  ) {
     this.scene = scene;
+    this.levels = levels;
     this.levelState = this.createInitialState();
   }
 
@@ -77,13 +60,30 @@ export class LevelManager {
     };
   }
 
-  public loadLevel(config: LevelConfig): void {
+  /**
+   * Load a level. Levels that aren't in the level manifest, like community
+   * levels and editor drafts, pass their Tiled map, which goes in the
+   * tilemap cache under the config's key in place of any earlier map.
+   * @param map Tiled JSON map of the level, if not already loaded.
+   */
+  public loadLevel(config: LevelConfig, map?: object): void {
+    if (map) {
+      const tilemaps = this.scene.cache.tilemap;
+      if (tilemaps.exists(config.key)) {
+        tilemaps.remove(config.key);
+      }
+      tilemaps.add(config.key, {
+        format: Tilemaps.Formats.TILED_JSON,
+        data: map,
+      });
+    }
     this.currentLevel = config;
+    this.customLevel = !this.levels.hasLevelKey(config.key);
     this.levelState = this.createInitialState();
   }
 
   public loadLevelByNumber(levelNumber: number): boolean {
-    const config = LEVEL_CONFIGS[levelNumber];
+    const config = this.levels.getLevel(levelNumber);
     if (!config) {
       logger.warn(`Level ${levelNumber} not found`);
       return false;
@@ -93,18 +93,31 @@ export class LevelManager {
     return true;
   }
 
+  /**
+   * Whether the current level was loaded from outside the manifest, so
+   * has no level number to save progress or unlock levels against.
+   */
+  public isCustomLevel(): boolean {
+    return this.customLevel;
+  }
+
   public getCurrentLevelNumber(): number {
     return this.currentLevelNumber;
   }
 
   public getTotalLevels(): number {
-    return Object.keys(LEVEL_CONFIGS).length;
-  }
-
-  public canAccessLevel(levelNumber: number): boolean {
-    // For now, all levels are accessible
-    // In the future, this could check if previous levels are completed
-    return levelNumber >= 1 && levelNumber <= this.getTotalLevels();
+    return this.levels.getTotalLevels();
+  }
+
+  /**
+   * Whether a level exists and the levels it requires are completed.
+   * @param completed Numbers of the levels the player has completed.
+   */
+  public canAccessLevel(
+    levelNumber: number,
+    completed: readonly number[] = [],
+  ): boolean {
+    return this.levels.isUnlocked(levelNumber, completed);
   }
 
   public addScore(points: number): void {
@@ -0,0 +1,517 @@
+import { Scene } from 'phaser';
+import type { LevelConfig } from './LevelManager';
+import { EntryChecker, isRecord } from '../utils/EntryChecker';
+import { logger } from '../utils/logger';
+
+/**
+ * JSON cache key of the level manifest, loaded at boot from
+ * `assets/data/levels.json`.
+ */
+export const LEVEL_MANIFEST_KEY = 'level_manifest';
+
+/**
+ * How a level looks.
+ */
+export interface ThemeDefinition {
+  name: string;
+  /** Colour behind the level's tiles. */
+  backgroundColor: number;
+}
+
+/**
+ * A campaign level: its config plus where it sits in the campaign.
+ */
+export interface LevelDefinition extends LevelConfig {
+  /** Number saves, checkpoints and leaderboards know the level by. */
+  number: number;
+  name: string;
+  /** Id of the world the level is in. */
+  world: string;
+  theme: string;
+  /** The theme's colour unless the level sets its own. */
+  backgroundColor: number;
+  /** Seconds a good run takes. */
+  parTime?: number;
+  /** Seconds a perfect run takes; the server refuses faster results. */
+  minTime?: number;
+  /** Most points the level holds; the server refuses higher scores. */
+  maxScore?: number;
+  /** Size of the level in pixels; the size of its map if not given. */
+  bounds?: { width: number; height: number };
+  /**
+   * Levels to complete before this one unlocks, its world's requirements
+   * included. A level with none is open from the start.
+   */
+  requires: number[];
+}
+
+/**
+ * A group of levels played in order.
+ */
+export interface WorldDefinition {
+  id: string;
+  name: string;
+  /** Numbers of the world's levels, in play order. */
+  levels: number[];
+}
+
+/**
+ * Everything the campaign is built from.
+ */
+export interface LevelManifest {
+  themes: Record<string, ThemeDefinition>;
+  worlds: WorldDefinition[];
+  /** Every level, in play order. */
+  levels: LevelDefinition[];
+}
+
+/**
+ * The campaign used when the manifest is missing or has no playable
+ * levels: just the first level, so the game still starts. Its themes are
+ * always available to the manifest.
+ */
+export const DEFAULT_LEVEL_MANIFEST: LevelManifest = {
+  themes: {
+    forest: { name: 'Forest', backgroundColor: 0x1a1a2e },
+    cave: { name: 'Cave', backgroundColor: 0x0d0d1a },
+    sky: { name: 'Sky', backgroundColor: 0x87ceeb },
+  },
+  worlds: [{ id: 'overworld', name: 'Overworld', levels: [1] }],
+  levels: [
+    {
+      number: 1,
+      key: 'level1',
+      name: 'Forest Trail',
+      world: 'overworld',
+      tilemap: 'assets/tilemaps/level1.json',
+      playerStart: { x: 100, y: 300 },
+      backgroundColor: 0x1a1a2e,
+      theme: 'forest',
+      requires: [],
+    },
+  ],
+};
+
+/**
+ * Outcome of reading a level manifest.
+ */
+export interface ParsedLevelManifest {
+  manifest: LevelManifest;
+  /** Why entries were skipped, one message per problem. */
+  errors: string[];
+}
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+function parseColor(value: string): number {
+  return parseInt(value.slice(1), 16);
+}
+
+function checkColor(
+  check: EntryChecker,
+  entry: Record<string, any>,
+  field: string,
+  required = false,
+): void {
+  const value = entry[field];
+  if (value === undefined) {
+    if (required) check.fail(field, 'is required');
+  } else if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+    check.fail(field, 'must be a colour like "#1a1a2e"');
+  }
+}
+
+function checkLevelNumbers(
+  check: EntryChecker,
+  entry: Record<string, any>,
+  field: string,
+): void {
+  const value = entry[field];
+  if (value === undefined) return;
+  if (
+    !Array.isArray(value) ||
+    !value.every((n) => Number.isInteger(n) && n >= 1)
+  ) {
+    check.fail(field, 'must be a list of level numbers');
+  }
+}
+
+/**
+ * Check one theme.
+ * @param value The entry as read from JSON.
+ * @param path Where the entry is in the file, for messages.
+ * @returns Problems found; empty if valid.
+ */
+export function validateThemeDefinition(
+  value: unknown,
+  path: string,
+): string[] {
+  const check = new EntryChecker(path);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+  check.string(value, 'name', true);
+  checkColor(check, value, 'backgroundColor', true);
+  return check.errors;
+}
+
+/**
+ * Check one world, but not the levels in it.
+ * @param value The entry as read from JSON.
+ * @param path Where the entry is in the file, for messages.
+ * @returns Problems found; empty if valid.
+ */
+export function validateWorldDefinition(
+  value: unknown,
+  path: string,
+): string[] {
+  const check = new EntryChecker(path);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+  check.string(value, 'id', true);
+  check.string(value, 'name', true);
+  checkLevelNumbers(check, value, 'requires');
+  if (!Array.isArray(value.levels)) {
+    check.fail('levels', 'must be a list');
+  }
+  return check.errors;
+}
+
+/**
+ * Check one level.
+ * @param value The entry as read from JSON.
+ * @param path Where the entry is in the file, for messages.
+ * @param themes Ids of the themes the level may use.
+ * @returns Problems found; empty if valid.
+ */
+export function validateLevelDefinition(
+  value: unknown,
+  path: string,
+  themes: readonly string[],
+): string[] {
+  const check = new EntryChecker(path);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+  check.number(value, 'number', { required: true, min: 1, integer: true });
+  check.string(value, 'key', true);
+  check.string(value, 'name', true);
+  check.string(value, 'tilemap', true);
+  check.oneOf(value, 'theme', themes, true);
+  checkColor(check, value, 'backgroundColor');
+  check.number(value, 'targetScore');
+  check.number(value, 'timeLimit', { min: 1 });
+  check.number(value, 'requiredEnemies', { integer: true });
+  check.number(value, 'parTime', { min: 1 });
+  check.number(value, 'minTime', { min: 1 });
+  check.number(value, 'maxScore', { min: 1 });
+  checkLevelNumbers(check, value, 'requires');
+
+  const items = value.requiredItems;
+  if (
+    items !== undefined &&
+    !(
+      Array.isArray(items) &&
+      items.every((item) => typeof item === 'string' && item !== '')
+    )
+  ) {
+    check.fail('requiredItems', 'must be a list of item ids');
+  }
+
+  if (value.playerStart !== undefined) {
+    if (!isRecord(value.playerStart)) {
+      check.fail('playerStart', 'must be an object');
+    } else {
+      const start = check.at('playerStart');
+      start.number(value.playerStart, 'x', { required: true });
+      start.number(value.playerStart, 'y', { required: true });
+    }
+  }
+
+  if (value.bounds !== undefined) {
+    if (!isRecord(value.bounds)) {
+      check.fail('bounds', 'must be an object');
+    } else {
+      const bounds = check.at('bounds');
+      bounds.number(value.bounds, 'width', { required: true, min: 1 });
+      bounds.number(value.bounds, 'height', { required: true, min: 1 });
+    }
+  }
+  return check.errors;
+}
+
+function toLevelDefinition(
+  entry: Record<string, any>,
+  world: Record<string, any>,
+  themes: Record<string, ThemeDefinition>,
+): LevelDefinition {
+  const { backgroundColor, requires, ...config } = entry;
+  return {
+    ...(config as Omit<LevelDefinition, 'world' | 'requires'>),
+    world: world.id,
+    backgroundColor: backgroundColor
+      ? parseColor(backgroundColor)
+      : themes[entry.theme]!.backgroundColor,
+    requires: [
+      ...new Set<number>([...(world.requires ?? []), ...(requires ?? [])]),
+    ],
+  };
+}
+
+/**
+ * Levels that completing other levels can open: those with no
+ * requirements, then those whose requirements are among them, and so on.
+ * Levels requiring a missing level, or each other, never get in.
+ */
+function findUnlockableLevels(levels: LevelDefinition[]): Set<number> {
+  const unlockable = new Set<number>();
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const level of levels) {
+      if (
+        !unlockable.has(level.number) &&
+        level.requires.every((number) => unlockable.has(number))
+      ) {
+        unlockable.add(level.number);
+        grew = true;
+      }
+    }
+  }
+  return unlockable;
+}
+
+/**
+ * Read a level manifest. Its themes are laid over the default themes and
+ * its worlds replace the default campaign. Invalid entries, and levels
+ * that could never be unlocked, are skipped so one typo does not take the
+ * rest of the campaign down with it.
+ * @param value The parsed JSON, or undefined if there is no file.
+ * @returns The manifest to use and the problems found.
+ */
+export function parseLevelManifest(value: unknown): ParsedLevelManifest {
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { manifest: DEFAULT_LEVEL_MANIFEST, errors };
+  }
+  if (!isRecord(value)) {
+    return {
+      manifest: DEFAULT_LEVEL_MANIFEST,
+      errors: ['Level manifest must be an object'],
+    };
+  }
+
+  const themes = { ...DEFAULT_LEVEL_MANIFEST.themes };
+  if (value.themes !== undefined) {
+    if (!isRecord(value.themes)) {
+      errors.push('themes must be an object');
+    } else {
+      for (const [id, entry] of Object.entries(value.themes)) {
+        const problems = validateThemeDefinition(entry, `themes.${id}`);
+        if (problems.length > 0) {
+          errors.push(...problems);
+        } else {
+          themes[id] = {
+            name: entry.name,
+            backgroundColor: parseColor(entry.backgroundColor),
+          };
+        }
+      }
+    }
+  }
+
+  if (!Array.isArray(value.worlds)) {
+    errors.push('worlds must be a list');
+    return { manifest: { ...DEFAULT_LEVEL_MANIFEST, themes }, errors };
+  }
+
+  let levels: LevelDefinition[] = [];
+  const worlds: WorldDefinition[] = [];
+  const worldIds = new Set<string>();
+  const levelKeys = new Set<string>();
+  value.worlds.forEach((world: unknown, index: number) => {
+    const path = `worlds.${index}`;
+    const problems = validateWorldDefinition(world, path);
+    if (problems.length > 0) {
+      errors.push(...problems);
+      return;
+    }
+    const entry = world as Record<string, any>;
+    if (worldIds.has(entry.id)) {
+      errors.push(`${path}.id "${entry.id}" is already used`);
+      return;
+    }
+    worldIds.add(entry.id);
+
+    const numbers: number[] = [];
+    entry.levels.forEach((level: unknown, levelIndex: number) => {
+      const levelPath = `${path}.levels.${levelIndex}`;
+      const levelProblems = validateLevelDefinition(
+        level,
+        levelPath,
+        Object.keys(themes),
+      );
+      if (levelProblems.length > 0) {
+        errors.push(...levelProblems);
+        return;
+      }
+      const definition = toLevelDefinition(
+        level as Record<string, any>,
+        entry,
+        themes,
+      );
+      if (levels.some((other) => other.number === definition.number)) {
+        errors.push(`${levelPath}.number ${definition.number} is already used`);
+        return;
+      }
+      if (levelKeys.has(definition.key)) {
+        errors.push(`${levelPath}.key "${definition.key}" is already used`);
+        return;
+      }
+      levelKeys.add(definition.key);
+      levels.push(definition);
+      numbers.push(definition.number);
+    });
+    worlds.push({ id: entry.id, name: entry.name, levels: numbers });
+  });
+
+  const unlockable = findUnlockableLevels(levels);
+  for (const level of levels) {
+    if (!unlockable.has(level.number)) {
+      errors.push(
+        `Level ${level.number} can never be unlocked; it requires ${level.requires.join(', ')}`,
+      );
+    }
+  }
+  levels = levels.filter((level) => unlockable.has(level.number));
+  if (levels.length === 0) {
+    errors.push('Level manifest has no playable levels');
+    return { manifest: { ...DEFAULT_LEVEL_MANIFEST, themes }, errors };
+  }
+
+  return {
+    manifest: {
+      themes,
+      worlds: worlds
+        .map((world) => ({
+          ...world,
+          levels: world.levels.filter((number) => unlockable.has(number)),
+        }))
+        .filter((world) => world.levels.length > 0),
+      levels,
+    },
+    errors,
+  };
+}
+
+/**
+ * Format seconds as minutes and seconds, like `2:05`.
+ */
+export function formatLevelTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.floor(seconds % 60);
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+}
+
+/**
+ * The campaign's worlds and levels, and which of them a player has opened.
+ */
+export class LevelRegistry {
+  constructor(private manifest: LevelManifest = DEFAULT_LEVEL_MANIFEST) {}
+
+  /**
+   * Read the manifest from the JSON cache, skipping invalid entries.
+   */
+  public static fromCache(scene: Scene): LevelRegistry {
+    const { manifest, errors } = parseLevelManifest(
+      scene.cache?.json?.get(LEVEL_MANIFEST_KEY),
+    );
+    if (errors.length > 0) {
+      logger.warn(
+        `Skipped invalid level manifest entries:\n${errors.join('\n')}`,
+      );
+    }
+    return new LevelRegistry(manifest);
+  }
+
+  /** Every level, in play order. */
+  public getLevels(): LevelDefinition[] {
+    return this.manifest.levels;
+  }
+
+  public getLevel(levelNumber: number): LevelDefinition | undefined {
+    return this.manifest.levels.find((level) => level.number === levelNumber);
+  }
+
+  /** Whether a level key is one of the campaign's. */
+  public hasLevelKey(key: string): boolean {
+    return this.manifest.levels.some((level) => level.key === key);
+  }
+
+  public getWorlds(): WorldDefinition[] {
+    return this.manifest.worlds;
+  }
+
+  public getWorld(id: string): WorldDefinition | undefined {
+    return this.manifest.worlds.find((world) => world.id === id);
+  }
+
+  public getTheme(id: string): ThemeDefinition | undefined {
+    return this.manifest.themes[id];
+  }
+
+  /** Ids of the themes levels can use, in manifest order. */
+  public getThemeIds(): string[] {
+    return Object.keys(this.manifest.themes);
+  }
+
+  public getTotalLevels(): number {
+    return this.manifest.levels.length;
+  }
+
+  /**
+   * Whether a level is open to a player.
+   * @param completed Numbers of the levels the player has completed.
+   */
+  public isUnlocked(
+    levelNumber: number,
+    completed: readonly number[],
+  ): boolean {
+    const level = this.getLevel(levelNumber);
+    return (
+      level !== undefined &&
+      level.requires.every((number) => completed.includes(number))
+    );
+  }
+
+  /**
+   * Numbers of the levels open to a player, in play order.
+   * @param completed Numbers of the levels the player has completed.
+   */
+  public getUnlockedLevels(completed: readonly number[]): number[] {
+    return this.manifest.levels
+      .filter((level) => this.isUnlocked(level.number, completed))
+      .map((level) => level.number);
+  }
+
+  /**
+   * The level played after another, or undefined after the last.
+   */
+  public getNextLevel(levelNumber: number): LevelDefinition | undefined {
+    const index = this.manifest.levels.findIndex(
+      (level) => level.number === levelNumber,
+    );
+    return index === -1 ? undefined : this.manifest.levels[index + 1];
+  }
+
+  /** The lowest number above every level's, for a new level. */
+  public getNewLevelNumber(): number {
+    return (
+      Math.max(0, ...this.manifest.levels.map((level) => level.number)) + 1
+    );
+  }
+}
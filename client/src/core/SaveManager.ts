@@ -1,4 +1,21 @@
 import { logger } from '../utils/logger';
+import { eventBus } from './EventBus';
+import { CURRENT_SAVE_VERSION, migrateSave } from './SaveMigrations';
+import { validateSaveData } from './SaveSchema';
+
+/**
+ * Event emitted on the event bus whenever a save slot is written or deleted,
+ * with the slot index (-1 for the auto-save).
+ */
+export const SAVE_CHANGED_EVENT = 'save:changed';
+
+/**
+ * Payload of `SAVE_CHANGED_EVENT`.
+ */
+export interface SaveChangedEvent {
+  slotIndex: number;
+}
+
 /**
  * Save data structure for comprehensive game state persistence.
  */
@@ -63,6 +80,16 @@ export interface SaveData {
   };
 }
 
+/**
+ * The copy of a save kept from before it was last migrated or repaired.
+ */
+export interface SaveBackupInfo {
+  /** Save format version of the backed up copy. */
+  version: string;
+  /** When the backup was taken. */
+  createdAt: number;
+}
+
 /**
  * Save slot information for save game UI.
  */
@@ -88,7 +115,7 @@ export class SaveManager {
   private static readonly MAX_SLOTS = 5;
 
   /** Current save version for migration. */
-  private static readonly CURRENT_VERSION = '1.0.0';
+  private static readonly CURRENT_VERSION = CURRENT_SAVE_VERSION;
 
   /** Key prefix for LocalStorage keys. */
   private static readonly STORAGE_PREFIX = 'phaser_platformer_';
@@ -178,6 +205,15 @@ export class SaveManager {
     return `${SaveManager.STORAGE_PREFIX}autosave`;
   }
 
+  /**
+   * Get the LocalStorage key for a slot's pre-migration backup.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   */
+  private getBackupKey(slotIndex: number): string {
+    const slot = slotIndex === -1 ? 'autosave' : slotIndex;
+    return `${SaveManager.STORAGE_PREFIX}backup_${slot}`;
+  }
+
   /**
    * Create a new empty save data structure.
    */
@@ -256,6 +292,7 @@ export class SaveManager {
       const encrypted = SaveManager.encryptData(JSON.stringify(saveData));
       localStorage.setItem(key, encrypted);
       logger.info(`Game saved to slot ${slotIndex} (encrypted)`);
+      this.emitChanged(slotIndex);
       return true;
     } catch (error) {
       logger.error(`Failed to save game to slot ${slotIndex}:`, error);
@@ -283,6 +320,7 @@ export class SaveManager {
       const encrypted = SaveManager.encryptData(JSON.stringify(saveData));
       localStorage.setItem(key, encrypted);
       logger.info('Auto-save completed (encrypted)');
+      this.emitChanged(-1);
       return true;
     } catch (error) {
       logger.error('Failed to create auto-save:', error);
@@ -310,26 +348,7 @@ export class SaveManager {
       return undefined;
     }
 
-    const key = this.getSlotKey(slotIndex);
-    const data = localStorage.getItem(key);
-
-    if (!data) {
-      return undefined;
-    }
-
-    try {
-      const decrypted = SaveManager.decryptData(data);
-      if (!decrypted) {
-        logger.error(`Failed to decrypt game data from slot ${slotIndex}`);
-        return undefined;
-      }
-      const saveData: SaveData = JSON.parse(decrypted);
-      // Migrate save data if needed (version check)
-      return this.migrateSaveData(saveData);
-    } catch (error) {
-      logger.error(`Failed to load game from slot ${slotIndex}:`, error);
-      return undefined;
-    }
+    return this.readSave(slotIndex);
   }
 
   /**
@@ -345,25 +364,110 @@ export class SaveManager {
    * @returns The save data, or undefined if no auto-save exists.
    */
   loadAutoGame(): SaveData | undefined {
-    const key = this.getAutoSaveKey();
-    const data = localStorage.getItem(key);
+    return this.readSave(-1);
+  }
 
-    if (!data) {
+  /**
+   * Read a slot, bringing it up to the current version and repairing it
+   * where needed. A save that was changed on the way is written back, with
+   * the stored copy kept as a backup for `rollbackSave`. A save that cannot
+   * be read is left in storage untouched.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @returns The save data, or undefined if the slot is empty or unusable.
+   */
+  private readSave(slotIndex: number): SaveData | undefined {
+    const key =
+      slotIndex === -1 ? this.getAutoSaveKey() : this.getSlotKey(slotIndex);
+    const slotName = slotIndex === -1 ? 'auto-save' : `slot ${slotIndex}`;
+    const stored = localStorage.getItem(key);
+
+    if (!stored) {
       return undefined;
     }
 
+    let raw: unknown;
     try {
-      const decrypted = SaveManager.decryptData(data);
+      const decrypted = SaveManager.decryptData(stored);
       if (!decrypted) {
-        logger.error('Failed to decrypt auto-save data');
+        logger.error(`Failed to decrypt game data from ${slotName}`);
         return undefined;
       }
-      const saveData: SaveData = JSON.parse(decrypted);
-      return this.migrateSaveData(saveData);
+      raw = JSON.parse(decrypted);
     } catch (error) {
-      logger.error('Failed to load auto-save:', error);
+      logger.error(`Failed to load game from ${slotName}:`, error);
       return undefined;
     }
+
+    const prepared = this.prepareSave(raw, slotName);
+    if (!prepared) {
+      return undefined;
+    }
+
+    if (prepared.changed) {
+      try {
+        localStorage.setItem(
+          this.getBackupKey(slotIndex),
+          JSON.stringify({
+            version: prepared.fromVersion,
+            createdAt: Date.now(),
+            data: stored,
+          }),
+        );
+        localStorage.setItem(
+          key,
+          SaveManager.encryptData(JSON.stringify(prepared.data)),
+        );
+      } catch (error) {
+        // Still usable; migrated again on the next load
+        logger.warn(`Failed to store migrated ${slotName}:`, error);
+      }
+    }
+    return prepared.data;
+  }
+
+  /**
+   * Migrate a save to the current version and check it against the schema.
+   * @param raw The save as parsed from storage or received from the cloud.
+   * @param slotName Slot description for the logs.
+   * @returns The usable save and whether it differs from `raw`, or undefined
+   * if it was rejected.
+   */
+  private prepareSave(
+    raw: unknown,
+    slotName: string,
+  ): { data: SaveData; fromVersion: string; changed: boolean } | undefined {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      logger.error(`Rejected ${slotName}: save is not an object`);
+      return undefined;
+    }
+
+    let migrated;
+    try {
+      migrated = migrateSave(raw as Record<string, any>);
+    } catch (error) {
+      logger.error(`Rejected ${slotName}:`, error);
+      return undefined;
+    }
+    if (migrated.applied.length > 0) {
+      logger.info(
+        `Migrated ${slotName} from ${migrated.fromVersion}: ${migrated.applied.join(', ')}`,
+      );
+    }
+
+    const result = validateSaveData(migrated.save);
+    if (!result.valid) {
+      logger.error(`Rejected ${slotName}: ${result.errors.join('; ')}`);
+      return undefined;
+    }
+    if (result.repairs.length > 0) {
+      logger.warn(`Repaired ${slotName}: ${result.repairs.join('; ')}`);
+    }
+
+    return {
+      data: result.data,
+      fromVersion: migrated.fromVersion,
+      changed: migrated.applied.length > 0 || result.repairs.length > 0,
+    };
   }
 
   /**
@@ -380,7 +484,9 @@ export class SaveManager {
     const key = this.getSlotKey(slotIndex);
     try {
       localStorage.removeItem(key);
+      localStorage.removeItem(this.getBackupKey(slotIndex));
       logger.info(`Save deleted from slot ${slotIndex}`);
+      this.emitChanged(slotIndex);
       return true;
     } catch (error) {
       logger.error(`Failed to delete save from slot ${slotIndex}:`, error);
@@ -440,6 +546,128 @@ export class SaveManager {
     };
   }
 
+  /**
+   * Load a slot by index, -1 being the auto-save.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @returns The save data, or undefined if the slot is empty or invalid.
+   */
+  loadSlot(slotIndex: number): SaveData | undefined {
+    return slotIndex === -1 ? this.loadAutoGame() : this.loadGame(slotIndex);
+  }
+
+  /**
+   * Put save data into a slot as given, keeping its timestamp. The data is
+   * migrated and checked like a loaded save, and refused if unusable.
+   * Used for saves pulled from the cloud, so it does not emit
+   * `SAVE_CHANGED_EVENT`.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @param data The save data, or null to empty the slot.
+   * @returns True if the slot was written.
+   */
+  restoreSave(slotIndex: number, data: SaveData | null): boolean {
+    if (slotIndex < -1 || slotIndex >= SaveManager.MAX_SLOTS) {
+      logger.error(`Invalid save slot index: ${slotIndex}`);
+      return false;
+    }
+
+    const key =
+      slotIndex === -1 ? this.getAutoSaveKey() : this.getSlotKey(slotIndex);
+    try {
+      if (data) {
+        const prepared = this.prepareSave(data, `restored slot ${slotIndex}`);
+        if (!prepared) {
+          return false;
+        }
+        localStorage.setItem(
+          key,
+          SaveManager.encryptData(JSON.stringify(prepared.data)),
+        );
+      } else {
+        localStorage.removeItem(key);
+      }
+      return true;
+    } catch (error) {
+      logger.error(`Failed to restore save slot ${slotIndex}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Check if a slot has a copy kept from before it was migrated or repaired.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   */
+  hasBackup(slotIndex: number): boolean {
+    return this.getBackupInfo(slotIndex) !== null;
+  }
+
+  /**
+   * Describe a slot's pre-migration backup.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @returns The backup's version and age, or null if there is none.
+   */
+  getBackupInfo(slotIndex: number): SaveBackupInfo | null {
+    const backup = this.readBackup(slotIndex);
+    return backup
+      ? { version: backup.version, createdAt: backup.createdAt }
+      : null;
+  }
+
+  /**
+   * Put back the copy of a slot kept from before it was last migrated or
+   * repaired, undoing a bad migration. The backup is used up; the restored
+   * copy is migrated again the next time it is loaded.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @returns True if a backup was restored.
+   */
+  rollbackSave(slotIndex: number): boolean {
+    const backup = this.readBackup(slotIndex);
+    if (!backup) {
+      return false;
+    }
+
+    const key =
+      slotIndex === -1 ? this.getAutoSaveKey() : this.getSlotKey(slotIndex);
+    try {
+      localStorage.setItem(key, backup.data);
+      localStorage.removeItem(this.getBackupKey(slotIndex));
+      logger.info(
+        `Rolled back save slot ${slotIndex} to version ${backup.version}`,
+      );
+      this.emitChanged(slotIndex);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to roll back save slot ${slotIndex}:`, error);
+      return false;
+    }
+  }
+
+  private readBackup(
+    slotIndex: number,
+  ): (SaveBackupInfo & { data: string }) | null {
+    if (slotIndex < -1 || slotIndex >= SaveManager.MAX_SLOTS) {
+      return null;
+    }
+
+    const stored = localStorage.getItem(this.getBackupKey(slotIndex));
+    if (!stored) {
+      return null;
+    }
+    try {
+      const backup = JSON.parse(stored);
+      return typeof backup?.data === 'string' ? backup : null;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable backup of slot ${slotIndex}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Tell listeners such as cloud sync that a slot changed.
+   */
+  private emitChanged(slotIndex: number): void {
+    eventBus.emit<SaveChangedEvent>(SAVE_CHANGED_EVENT, { slotIndex });
+  }
+
   /**
    * Start auto-save timer.
    */
@@ -494,34 +722,6 @@ export class SaveManager {
     return this.autoSaveEnabled;
   }
 
-  /**
-   * Migrate save data from older versions.
-   * @param data The save data to migrate.
-   * @returns The migrated save data.
-   */
-  private migrateSaveData(data: SaveData): SaveData {
-    // Handle version migrations here
-    // For now, just ensure required fields exist
-    const migrated = { ...data };
-
-    // Ensure settings exists
-    if (!migrated.settings) {
-      migrated.settings = {
-        musicVolume: 100,
-        sfxVolume: 100,
-        musicEnabled: true,
-        sfxEnabled: true,
-      };
-    }
-
-    // Ensure levels object exists
-    if (!migrated.levels) {
-      migrated.levels = {};
-    }
-
-    return migrated;
-  }
-
   /**
    * Create a quick save capture from current game state.
    * Call this before level transitions, death, checkpoints, etc.
@@ -592,8 +792,10 @@ export class SaveManager {
     for (let i = 0; i < SaveManager.MAX_SLOTS; i++) {
       const key = this.getSlotKey(i);
       localStorage.removeItem(key);
+      localStorage.removeItem(this.getBackupKey(i));
     }
     localStorage.removeItem(this.getAutoSaveKey());
+    localStorage.removeItem(this.getBackupKey(-1));
     logger.info('All save data cleared');
   }
 
@@ -0,0 +1,128 @@
+/**
+ * Versioned save migrations: each step turns a save written by one version
+ * of the game into the next version's format. Loading a save runs every
+ * step from its version up to `CURRENT_SAVE_VERSION`, in order.
+ *
+ * To change the save format, bump `CURRENT_SAVE_VERSION` and append a step
+ * from the previous version. Never edit a step that has shipped; players'
+ * saves have already been through it.
+ */
+
+/**
+ * Version new saves are written at.
+ */
+export const CURRENT_SAVE_VERSION = '1.0.0';
+
+/**
+ * Version assumed for saves written before saves carried one.
+ */
+export const LEGACY_SAVE_VERSION = '0.0.0';
+
+/**
+ * One step of the migration chain.
+ */
+export interface SaveMigration {
+  /** Version the step reads. */
+  from: string;
+  /** Version the step writes. */
+  to: string;
+  /** What the step changes, for the logs. */
+  description: string;
+  /** Turn a save at `from` into one at `to`. Must not modify its input. */
+  migrate: (save: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Every migration step, oldest first.
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: LEGACY_SAVE_VERSION,
+    to: '1.0.0',
+    description: 'add default settings and level records',
+    migrate: (save) => ({
+      ...save,
+      levels: save.levels ?? {},
+      settings: save.settings ?? {
+        musicVolume: 100,
+        sfxVolume: 100,
+        musicEnabled: true,
+        sfxEnabled: true,
+      },
+    }),
+  },
+];
+
+/**
+ * A save that cannot be brought up to the current version.
+ */
+export class SaveMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveMigrationError';
+  }
+}
+
+/**
+ * Outcome of migrating a save.
+ */
+export interface MigrationResult {
+  save: Record<string, any>;
+  /** Version the save was at before migrating. */
+  fromVersion: string;
+  /** Steps run, as `from->to`; empty if the save was already current. */
+  applied: string[];
+}
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+/**
+ * Compare two `major.minor.patch` versions.
+ * @returns Negative if `a` is older, positive if newer, 0 if equal.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return 0;
+}
+
+/**
+ * Bring a save up to the target version.
+ * @param save The save as stored.
+ * @param migrations The migration chain (defaults to `SAVE_MIGRATIONS`).
+ * @param target Version to migrate to (defaults to `CURRENT_SAVE_VERSION`).
+ * @throws SaveMigrationError if the save is newer than the target or no
+ * step leads on from one of its versions.
+ */
+export function migrateSave(
+  save: Record<string, any>,
+  migrations: SaveMigration[] = SAVE_MIGRATIONS,
+  target: string = CURRENT_SAVE_VERSION,
+): MigrationResult {
+  const fromVersion =
+    typeof save.version === 'string' && VERSION_PATTERN.test(save.version)
+      ? save.version
+      : LEGACY_SAVE_VERSION;
+  if (compareVersions(fromVersion, target) > 0) {
+    throw new SaveMigrationError(
+      `Save version ${fromVersion} is newer than this game's ${target}`,
+    );
+  }
+
+  let migrated = save;
+  let version = fromVersion;
+  const applied: string[] = [];
+  while (version !== target) {
+    const step = migrations.find((m) => m.from === version);
+    if (!step || compareVersions(step.to, target) > 0) {
+      throw new SaveMigrationError(`No migration from save version ${version}`);
+    }
+    migrated = { ...step.migrate(migrated), version: step.to };
+    applied.push(`${step.from}->${step.to}`);
+    version = step.to;
+  }
+  return { save: migrated, fromVersion, applied };
+}
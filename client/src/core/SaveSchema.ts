@@ -0,0 +1,187 @@
+import type { SaveData } from './SaveManager';
+
+/**
+ * Outcome of checking a save against the `SaveData` shape.
+ *
+ * A save missing its player record cannot be told apart from junk and is
+ * rejected. Anything else that is out of shape is repaired to the nearest
+ * sensible value, and each repair is described in `repairs`.
+ */
+export type SaveValidationResult =
+  | { valid: true; data: SaveData; repairs: string[] }
+  | { valid: false; errors: string[] };
+
+const DEFAULT_MAX_HEALTH = 20;
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isLevelNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Check a save read from storage and repair what can be repaired.
+ * @param value The parsed save, already migrated to the current version.
+ * @returns The repaired save, or the reasons it was rejected.
+ */
+export function validateSaveData(value: unknown): SaveValidationResult {
+  if (!isRecord(value)) {
+    return { valid: false, errors: ['Save is not an object'] };
+  }
+  if (!isRecord(value.player)) {
+    return { valid: false, errors: ['Save has no player record'] };
+  }
+
+  const repairs: string[] = [];
+  const repair = <T>(field: string, fallback: T): T => {
+    repairs.push(`Reset invalid ${field}`);
+    return fallback;
+  };
+
+  const player = value.player;
+  const maxHealth =
+    typeof player.maxHealth === 'number' && player.maxHealth > 0
+      ? player.maxHealth
+      : repair('player.maxHealth', DEFAULT_MAX_HEALTH);
+  let health = isCount(player.health)
+    ? player.health
+    : repair('player.health', maxHealth);
+  if (health > maxHealth) {
+    health = repair('player.health', maxHealth);
+  }
+
+  let unlockedLevels: number[] = Array.isArray(player.unlockedLevels)
+    ? player.unlockedLevels
+    : repair('player.unlockedLevels', [1]);
+  const validUnlocks = [...new Set(unlockedLevels.filter(isLevelNumber))];
+  if (!validUnlocks.includes(1)) validUnlocks.unshift(1);
+  if (validUnlocks.length !== unlockedLevels.length) {
+    unlockedLevels = repair('player.unlockedLevels', validUnlocks);
+  }
+
+  const data: SaveData = {
+    ...value,
+    version: value.version,
+    timestamp: isCount(value.timestamp)
+      ? value.timestamp
+      : repair('timestamp', Date.now()),
+    player: {
+      health,
+      maxHealth,
+      currentLevel: isLevelNumber(player.currentLevel)
+        ? player.currentLevel
+        : repair('player.currentLevel', 1),
+      unlockedLevels,
+      totalScore: isCount(player.totalScore)
+        ? player.totalScore
+        : repair('player.totalScore', 0),
+      totalCoins: isCount(player.totalCoins)
+        ? player.totalCoins
+        : repair('player.totalCoins', 0),
+      totalEnemiesDefeated: isCount(player.totalEnemiesDefeated)
+        ? player.totalEnemiesDefeated
+        : repair('player.totalEnemiesDefeated', 0),
+    },
+    levels: validateLevels(value.levels, repairs),
+    settings: validateSettings(value.settings, repairs),
+  };
+
+  if (value.lastPosition !== undefined) {
+    const position = value.lastPosition;
+    if (
+      !isRecord(position) ||
+      !isLevelNumber(position.level) ||
+      !Number.isFinite(position.x) ||
+      !Number.isFinite(position.y)
+    ) {
+      delete data.lastPosition;
+      repairs.push('Dropped invalid lastPosition');
+    }
+  }
+
+  return { valid: true, data, repairs };
+}
+
+function validateLevels(value: unknown, repairs: string[]): SaveData['levels'] {
+  if (!isRecord(value)) {
+    repairs.push('Reset invalid levels');
+    return {};
+  }
+
+  const levels: SaveData['levels'] = {};
+  for (const [key, record] of Object.entries(value)) {
+    const level = Number(key);
+    if (!isLevelNumber(level) || !isRecord(record)) {
+      repairs.push(`Dropped invalid record for level ${key}`);
+      continue;
+    }
+
+    const fixed: SaveData['levels'][number] = {
+      ...record,
+      highScore: isCount(record.highScore) ? record.highScore : 0,
+      completed:
+        typeof record.completed === 'boolean' ? record.completed : false,
+      lastCheckpoint:
+        Number.isInteger(record.lastCheckpoint) && record.lastCheckpoint >= 0
+          ? record.lastCheckpoint
+          : 0,
+    };
+    if (record.bestTime !== undefined && !isCount(record.bestTime)) {
+      delete fixed.bestTime;
+    }
+    if (
+      fixed.highScore !== record.highScore ||
+      fixed.completed !== record.completed ||
+      fixed.lastCheckpoint !== record.lastCheckpoint ||
+      fixed.bestTime !== record.bestTime
+    ) {
+      repairs.push(`Repaired record for level ${key}`);
+    }
+    levels[level] = fixed;
+  }
+  return levels;
+}
+
+function validateSettings(
+  value: unknown,
+  repairs: string[],
+): NonNullable<SaveData['settings']> {
+  const settings: Record<string, any> = isRecord(value) ? value : {};
+  if (!isRecord(value)) {
+    repairs.push('Reset invalid settings');
+  }
+
+  const volume = (field: 'musicVolume' | 'sfxVolume') => {
+    const raw = settings[field];
+    if (typeof raw !== 'number' || !Number.isFinite(raw)) {
+      if (isRecord(value)) repairs.push(`Reset invalid settings.${field}`);
+      return 100;
+    }
+    if (raw < 0 || raw > 100) repairs.push(`Clamped settings.${field}`);
+    return clamp(raw, 0, 100);
+  };
+  const flag = (field: 'musicEnabled' | 'sfxEnabled') => {
+    const raw = settings[field];
+    if (typeof raw === 'boolean') return raw;
+    if (isRecord(value)) repairs.push(`Reset invalid settings.${field}`);
+    return true;
+  };
+
+  return {
+    ...settings,
+    musicVolume: volume('musicVolume'),
+    sfxVolume: volume('sfxVolume'),
+    musicEnabled: flag('musicEnabled'),
+    sfxEnabled: flag('sfxEnabled'),
+  };
+}
@@ -2,6 +2,28 @@ import { logger } from '../utils/logger';
 import { Scene } from 'phaser';
 import { LevelConfig } from './LevelManager';
 
+/**
+ * An object from a Tiled object layer, with its custom properties read into
+ * a plain record and polyline or polygon points made absolute.
+ */
+export interface TilemapObject {
+  id: number;
+  name: string;
+  /** Object type (the "class" field in newer Tiled versions). */
+  type: string;
+  /** Name of the object layer, lowercased. */
+  layer: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: Record<string, unknown>;
+  /** Polyline or polygon points in world coordinates. */
+  points?: Array<{ x: number; y: number }>;
+  /** Whether the points form a closed polygon. */
+  closed?: boolean;
+}
+
 export interface LoadedTilemapData {
   layers: {
     ground?: Phaser.Tilemaps.TilemapLayer;
@@ -21,9 +43,67 @@ export interface LoadedTilemapData {
     enemies: Array<{ x: number; y: number; type: string }>;
     items: Array<{ x: number; y: number; type: string }>;
     playerSpawn?: { x: number; y: number };
+    /** Every object from every object layer, in layer order. */
+    all: TilemapObject[];
   };
 }
 
+/**
+ * Read Tiled custom properties, given either as Tiled's list of
+ * `{ name, value }` pairs or as a plain record.
+ */
+export function readTiledProperties(
+  properties: unknown,
+): Record<string, unknown> {
+  if (Array.isArray(properties)) {
+    const result: Record<string, unknown> = {};
+    properties.forEach((property) => {
+      if (property && typeof property.name === 'string') {
+        result[property.name] = property.value;
+      }
+    });
+    return result;
+  }
+  if (properties && typeof properties === 'object') {
+    return { ...(properties as Record<string, unknown>) };
+  }
+  return {};
+}
+
+/**
+ * Convert a Tiled object into a `TilemapObject`.
+ * @param obj The object as parsed from the map.
+ * @param layer Name of its object layer.
+ */
+export function toTilemapObject(
+  obj: Phaser.Types.Tilemaps.TiledObject,
+  layer: string,
+): TilemapObject {
+  const x = obj.x ?? 0;
+  const y = obj.y ?? 0;
+  const result: TilemapObject = {
+    id: obj.id,
+    name: obj.name ?? '',
+    type: obj.type || (obj as { class?: string }).class || '',
+    layer: layer.toLowerCase(),
+    x,
+    y,
+    width: obj.width ?? 0,
+    height: obj.height ?? 0,
+    properties: readTiledProperties(obj.properties),
+  };
+
+  const points = obj.polygon ?? obj.polyline;
+  if (points) {
+    result.points = points.map((point) => ({
+      x: x + point.x,
+      y: y + point.y,
+    }));
+    result.closed = Boolean(obj.polygon);
+  }
+  return result;
+}
+
 export class TilemapLoader {
   private scene: Scene;
 
@@ -48,6 +128,7 @@ export class TilemapLoader {
         platforms: [],
         enemies: [],
         items: [],
+        all: [],
       },
     };
 
@@ -69,18 +150,19 @@ export class TilemapLoader {
 
     // Process layers
     map.layers.forEach((layerData) => {
-      if (layerData.tilemapLayer) {
-        const layer = map.createLayer(layerData.name, tilesets, 0, 0);
-        if (layer) {
-          layer.setCollisionByProperty({ collides: true });
-          result.layers.ground = layer;
-        }
+      const layer = map.createLayer(layerData.name, tilesets, 0, 0);
+      if (layer) {
+        layer.setCollisionByProperty({ collides: true });
+        result.layers.ground = layer;
       }
     });
 
     // Process object layers
     map.objects.forEach((objectLayer) => {
       const layerName = objectLayer.name.toLowerCase();
+      objectLayer.objects.forEach((obj) => {
+        result.objects.all.push(toTilemapObject(obj, layerName));
+      });
 
       if (layerName === 'platforms') {
         objectLayer.objects.forEach((obj) => {
@@ -185,6 +185,20 @@ export abstract class Enemy extends Character {
     this.attackManager?.addAttack('melee', meleeAttack);
   }
 
+  /**
+   * Change one of this enemy's attacks, or add a new one.
+   * @param name Attack name.
+   * @param overrides Settings laid over the existing attack; must be a
+   * complete config if there is no attack by that name yet.
+   */
+  public configureAttack(name: string, overrides: Partial<AttackConfig>): void {
+    const existing = this.attackManager?.getAttack(name);
+    this.attackManager?.addAttack(name, {
+      ...existing,
+      ...overrides,
+    } as AttackConfig);
+  }
+
   /**
    * Find a target (player) within detection range.
    */
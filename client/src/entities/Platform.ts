@@ -10,6 +10,15 @@ export enum PlatformMovement {
   Vertical = 'vertical',
   Circular = 'circular',
   Patrolling = 'patrolling',
+  Path = 'path',
+}
+
+/**
+ * A point on a platform path, in world coordinates.
+ */
+export interface PlatformWaypoint {
+  x: number;
+  y: number;
 }
 
 /**
@@ -30,6 +39,13 @@ export interface PlatformConfig {
   tileHeight?: number;
   /** Tile size (pixels). */
   tileSize?: number;
+  /** Waypoints to follow (for path movement). */
+  path?: PlatformWaypoint[];
+  /**
+   * Whether a path loops back to its first waypoint; otherwise the platform
+   * reverses at each end.
+   */
+  loop?: boolean;
 }
 
 /**
@@ -52,6 +68,9 @@ export class Platform extends GameObject {
   /** Timer for circular movement. */
   private _moveTimer: number;
 
+  /** Index of the waypoint the platform is heading to (path movement). */
+  private _pathIndex: number;
+
   /**
    * Creates an instance of Platform.
    * @param scene The scene this platform belongs to.
@@ -84,6 +103,7 @@ export class Platform extends GameObject {
     this._originX = x;
     this._originY = y;
     this._moveTimer = 0;
+    this._pathIndex = 0;
 
     // Enable physics as a static body by default
     this.enablePhysics(true);
@@ -144,6 +164,9 @@ export class Platform extends GameObject {
         this._moveDirection *= -1;
       }
       break;
+    case PlatformMovement.Path:
+      this.followPath(speed * (delta / 1000));
+      break;
     }
 
     // Update physics body position
@@ -153,6 +176,53 @@ export class Platform extends GameObject {
     }
   }
 
+  /**
+   * Move along the configured path, carrying leftover distance past each
+   * waypoint reached.
+   * @param distance Distance to travel this frame.
+   */
+  private followPath(distance: number): void {
+    const path = this.config.path ?? [];
+    if (path.length < 2) {
+      return;
+    }
+
+    let remaining = distance;
+    while (remaining > 0) {
+      const target = path[this._pathIndex]!;
+      const dx = target.x - this.x;
+      const dy = target.y - this.y;
+      const gap = Math.sqrt(dx * dx + dy * dy);
+
+      if (gap > remaining) {
+        this.x += (dx / gap) * remaining;
+        this.y += (dy / gap) * remaining;
+        return;
+      }
+
+      this.x = target.x;
+      this.y = target.y;
+      remaining -= gap;
+      this.advanceWaypoint(path.length);
+    }
+  }
+
+  /**
+   * Pick the next waypoint, wrapping for loops and reversing otherwise.
+   * @param count Number of waypoints.
+   */
+  private advanceWaypoint(count: number): void {
+    if (this.config.loop) {
+      this._pathIndex = (this._pathIndex + 1) % count;
+      return;
+    }
+    const next = this._pathIndex + this._moveDirection;
+    if (next < 0 || next >= count) {
+      this._moveDirection *= -1;
+    }
+    this._pathIndex += this._moveDirection;
+  }
+
   /**
    * Configure the platform as a one‑way platform (can be jumped through from below).
    */
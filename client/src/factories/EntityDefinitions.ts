@@ -0,0 +1,426 @@
+import type { EnemyAIConfig } from '../entities/Enemy';
+import type { GemType, ItemConfig } from '../entities/Item';
+import {
+  AttackConfig,
+  AttackPatternType,
+} from '../entities/AttackPatternManager';
+import type { SkillConfig, SkillTarget } from '../entities/Skill';
+import { EntryChecker, isRecord } from '../utils/EntryChecker';
+
+/**
+ * JSON cache key of the entity definitions file, loaded at boot from
+ * `assets/data/entities.json`.
+ */
+export const ENTITY_DEFINITIONS_KEY = 'entity_definitions';
+
+/** Enemy classes a definition can build on. */
+export const ENEMY_BASES = ['slime', 'flying', 'archer'] as const;
+export type EnemyBase = (typeof ENEMY_BASES)[number];
+
+/** Item classes a definition can build on. */
+export const ITEM_BASES = [
+  'healthPotion',
+  'coin',
+  'speedBoost',
+  'key',
+  'gem',
+] as const;
+export type ItemBase = (typeof ITEM_BASES)[number];
+
+/** Skill classes a definition can build on. */
+export const SKILL_KINDS = ['dash', 'fireball', 'heal'] as const;
+export type SkillKind = (typeof SKILL_KINDS)[number];
+
+const GEM_TYPES: GemType[] = ['red', 'blue', 'green', 'purple', 'yellow'];
+
+/** `SkillTarget` values, spelled out to keep the entity classes unloaded. */
+const SKILL_TARGETS = [
+  'self',
+  'directional',
+  'target',
+  'area',
+  'projectile',
+] as SkillTarget[];
+
+/**
+ * Attacks each enemy class sets up itself. A definition may tweak these
+ * with a partial config; any other attack it lists must be complete.
+ */
+const BASE_ATTACKS: Record<EnemyBase, string[]> = {
+  slime: ['melee'],
+  flying: ['melee'],
+  archer: ['shoot'],
+};
+
+/**
+ * An attack as written in JSON: an `AttackConfig` without the callback.
+ */
+export type AttackDefinition = Omit<AttackConfig, 'customAttack'>;
+
+/**
+ * An enemy variant: a base class plus stat and attack overrides.
+ */
+export interface EnemyDefinition {
+  base: EnemyBase;
+  /** Texture key; defaults to the base class's. */
+  texture?: string;
+  /** Starting and maximum health. */
+  health?: number;
+  ai?: EnemyAIConfig;
+  /** Attacks by name, added or merged over the base class's. */
+  attacks?: Record<string, Partial<AttackDefinition>>;
+}
+
+/**
+ * An item variant: a base class plus its effect settings.
+ */
+export interface ItemDefinition {
+  base: ItemBase;
+  /** Gem colour, required for the `gem` base. */
+  gemType?: GemType;
+  /** Texture key; defaults to the factory's texture for the base. */
+  texture?: string;
+  config?: Partial<Omit<ItemConfig, 'type'>>;
+}
+
+/**
+ * A skill: the class that carries out its effect plus its config. The id
+ * is the key it is registered under.
+ */
+export type SkillDefinition = Omit<SkillConfig, 'id'> & { kind: SkillKind };
+
+/**
+ * Strength and duration of each power-up, in milliseconds.
+ */
+export interface PowerUpDefinitions {
+  doubleJump: { duration: number };
+  shield: { duration: number };
+  speedBoost: { duration: number; multiplier: number };
+  healthBoost: { healAmount: number };
+  damageBoost: { duration: number; multiplier: number };
+}
+
+/**
+ * Everything `EntityFactory` builds from data.
+ */
+export interface EntityDefinitions {
+  enemies: Record<string, EnemyDefinition>;
+  items: Record<string, ItemDefinition>;
+  skills: Record<string, SkillDefinition>;
+  powerUps: PowerUpDefinitions;
+}
+
+/**
+ * Definitions used when the file is missing, and that the file's entries
+ * are laid over.
+ */
+export const DEFAULT_ENTITY_DEFINITIONS: EntityDefinitions = {
+  enemies: {
+    slime: { base: 'slime' },
+    flying: { base: 'flying' },
+    archer: { base: 'archer' },
+  },
+  items: {
+    health_potion: { base: 'healthPotion' },
+    coin: { base: 'coin' },
+    speed_boost: { base: 'speedBoost' },
+    key: { base: 'key' },
+    gem_red: { base: 'gem', gemType: 'red' },
+    gem_blue: { base: 'gem', gemType: 'blue' },
+    gem_green: { base: 'gem', gemType: 'green' },
+    gem_purple: { base: 'gem', gemType: 'purple' },
+    gem_yellow: { base: 'gem', gemType: 'yellow' },
+  },
+  skills: {
+    dash: {
+      kind: 'dash',
+      name: 'Dash',
+      cooldown: 2000,
+      cost: 10,
+      target: 'directional' as SkillTarget,
+    },
+    fireball: {
+      kind: 'fireball',
+      name: 'Fireball',
+      cooldown: 3000,
+      cost: 20,
+      target: 'projectile' as SkillTarget,
+    },
+    heal: {
+      kind: 'heal',
+      name: 'Heal',
+      cooldown: 5000,
+      cost: 30,
+      target: 'target' as SkillTarget,
+    },
+  },
+  powerUps: {
+    doubleJump: { duration: 10000 },
+    shield: { duration: 8000 },
+    speedBoost: { duration: 6000, multiplier: 1.5 },
+    healthBoost: { healAmount: 5 },
+    damageBoost: { duration: 10000, multiplier: 2 },
+  },
+};
+
+/**
+ * Outcome of reading an entity definitions file.
+ */
+export interface ParsedEntityDefinitions {
+  /** The defaults with every valid entry of the file laid over them. */
+  definitions: EntityDefinitions;
+  /** Why entries were skipped, one message per problem. */
+  errors: string[];
+}
+
+function checkAttack(
+  check: EntryChecker,
+  attack: unknown,
+  complete: boolean,
+): void {
+  if (!isRecord(attack)) {
+    check.fail('', 'must be an object');
+    return;
+  }
+  check.oneOf(attack, 'type', Object.values(AttackPatternType), complete);
+  for (const stat of [
+    'damage',
+    'range',
+    'telegraphTime',
+    'attackDuration',
+    'cooldown',
+  ]) {
+    check.number(attack, stat, { required: complete });
+  }
+  check.number(attack, 'priority');
+  check.boolean(attack, 'needsFaceTarget');
+  if (attack.customAttack !== undefined) {
+    check.fail('customAttack', 'cannot be set from data');
+  }
+}
+
+/**
+ * Check one enemy definition.
+ * @param value The entry as read from JSON.
+ * @param path Where the entry is in the file, for messages.
+ * @returns Problems found; empty if valid.
+ */
+export function validateEnemyDefinition(
+  value: unknown,
+  path = 'enemy',
+): string[] {
+  const check = new EntryChecker(path);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+
+  check.oneOf(value, 'base', ENEMY_BASES, true);
+  check.string(value, 'texture');
+  check.number(value, 'health', { min: 1 });
+
+  if (value.ai !== undefined) {
+    const ai = value.ai;
+    const aiCheck = check.at('ai');
+    if (!isRecord(ai)) {
+      check.fail('ai', 'must be an object');
+    } else {
+      for (const stat of [
+        'detectionRange',
+        'attackRange',
+        'chaseSpeed',
+        'patrolChangeTime',
+      ]) {
+        aiCheck.number(ai, stat);
+      }
+      // -1 keeps flying enemies off the ground patrol
+      aiCheck.number(ai, 'patrolSpeed', { min: -1 });
+      aiCheck.boolean(ai, 'flying');
+      aiCheck.boolean(ai, 'dropsLoot');
+      if (
+        ai.lootTable !== undefined &&
+        (!Array.isArray(ai.lootTable) ||
+          !ai.lootTable.every((item: unknown) => typeof item === 'string'))
+      ) {
+        aiCheck.fail('lootTable', 'must be a list of item ids');
+      }
+    }
+  }
+
+  if (value.attacks !== undefined) {
+    if (!isRecord(value.attacks)) {
+      check.fail('attacks', 'must be an object');
+    } else {
+      const builtIn = BASE_ATTACKS[value.base as EnemyBase] ?? [];
+      for (const [name, attack] of Object.entries(value.attacks)) {
+        checkAttack(
+          check.at(`attacks.${name}`),
+          attack,
+          !builtIn.includes(name),
+        );
+      }
+    }
+  }
+  return check.errors;
+}
+
+/**
+ * Check one item definition.
+ * @param value The entry as read from JSON.
+ * @param path Where the entry is in the file, for messages.
+ * @returns Problems found; empty if valid.
+ */
+export function validateItemDefinition(
+  value: unknown,
+  path = 'item',
+): string[] {
+  const check = new EntryChecker(path);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+
+  check.oneOf(value, 'base', ITEM_BASES, true);
+  check.oneOf(value, 'gemType', GEM_TYPES, value.base === 'gem');
+  check.string(value, 'texture');
+
+  if (value.config !== undefined) {
+    const config = value.config;
+    const configCheck = check.at('config');
+    if (!isRecord(config)) {
+      check.fail('config', 'must be an object');
+    } else {
+      configCheck.string(config, 'name');
+      configCheck.string(config, 'description');
+      configCheck.number(config, 'value');
+      configCheck.number(config, 'duration');
+      configCheck.number(config, 'respawnTime');
+      configCheck.boolean(config, 'respawns');
+      configCheck.string(config, 'collectSound');
+      configCheck.string(config, 'collectEffect');
+      if (config.type !== undefined) {
+        configCheck.fail('type', 'is set by the base class');
+      }
+    }
+  }
+  return check.errors;
+}
+
+/**
+ * Check one skill definition.
+ * @param value The entry as read from JSON.
+ * @param path Where the entry is in the file, for messages.
+ * @returns Problems found; empty if valid.
+ */
+export function validateSkillDefinition(
+  value: unknown,
+  path = 'skill',
+): string[] {
+  const check = new EntryChecker(path);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+
+  check.oneOf(value, 'kind', SKILL_KINDS, true);
+  check.string(value, 'name', true);
+  check.number(value, 'cooldown', { required: true });
+  check.oneOf(value, 'target', SKILL_TARGETS, true);
+  for (const stat of ['cost', 'castTime', 'range', 'damage', 'heal']) {
+    check.number(value, stat);
+  }
+  for (const text of [
+    'description',
+    'icon',
+    'castEffect',
+    'castSound',
+    'effect',
+  ]) {
+    check.string(value, text);
+  }
+  return check.errors;
+}
+
+function validatePowerUp(
+  name: keyof PowerUpDefinitions,
+  value: unknown,
+): string[] {
+  const check = new EntryChecker(`powerUps.${name}`);
+  if (!isRecord(value)) {
+    check.fail('', 'must be an object');
+    return check.errors;
+  }
+  for (const field of Object.keys(DEFAULT_ENTITY_DEFINITIONS.powerUps[name])) {
+    check.number(value, field, { required: true, min: 0.01 });
+  }
+  return check.errors;
+}
+
+/**
+ * Read an entity definitions file. Every valid entry replaces or adds to
+ * the defaults; invalid entries are skipped so one typo does not take the
+ * rest of the file down with it.
+ * @param value The parsed JSON, or undefined if there is no file.
+ * @returns The definitions to use and the problems found.
+ */
+export function parseEntityDefinitions(
+  value: unknown,
+): ParsedEntityDefinitions {
+  const definitions: EntityDefinitions = {
+    enemies: { ...DEFAULT_ENTITY_DEFINITIONS.enemies },
+    items: { ...DEFAULT_ENTITY_DEFINITIONS.items },
+    skills: { ...DEFAULT_ENTITY_DEFINITIONS.skills },
+    powerUps: { ...DEFAULT_ENTITY_DEFINITIONS.powerUps },
+  };
+  const errors: string[] = [];
+  if (value === undefined || value === null) {
+    return { definitions, errors };
+  }
+  if (!isRecord(value)) {
+    return { definitions, errors: ['Entity definitions must be an object'] };
+  }
+
+  const sections = [
+    ['enemies', validateEnemyDefinition],
+    ['items', validateItemDefinition],
+    ['skills', validateSkillDefinition],
+  ] as const;
+  for (const [section, validate] of sections) {
+    const entries = value[section];
+    if (entries === undefined) continue;
+    if (!isRecord(entries)) {
+      errors.push(`${section} must be an object`);
+      continue;
+    }
+    for (const [id, entry] of Object.entries(entries)) {
+      const problems = validate(entry, `${section}.${id}`);
+      if (problems.length > 0) {
+        errors.push(...problems);
+      } else {
+        (definitions[section] as Record<string, unknown>)[id] = entry;
+      }
+    }
+  }
+
+  if (value.powerUps !== undefined) {
+    if (!isRecord(value.powerUps)) {
+      errors.push('powerUps must be an object');
+    } else {
+      for (const [name, entry] of Object.entries(value.powerUps)) {
+        if (!(name in DEFAULT_ENTITY_DEFINITIONS.powerUps)) {
+          errors.push(`powerUps.${name} is not a known power-up`);
+          continue;
+        }
+        const key = name as keyof PowerUpDefinitions;
+        const problems = validatePowerUp(key, entry);
+        if (problems.length > 0) {
+          errors.push(...problems);
+        } else {
+          definitions.powerUps = { ...definitions.powerUps, [key]: entry };
+        }
+      }
+    }
+  }
+
+  return { definitions, errors };
+}
@@ -1,4 +1,5 @@
 import 'phaser';
+import { logger } from '../utils/logger';
 import { GameObject } from '../entities/GameObject';
 import { Player, PlayerConfig } from '../entities/Player';
 import {
@@ -9,6 +10,7 @@ import {
   Archer,
 } from '../entities/Enemy';
 import {
+  Item,
   ItemConfig,
   HealthPotion,
   Coin,
@@ -35,13 +37,33 @@ import {
   PlatformMovement,
 } from '../entities/Platform';
 import {
+  Hazard,
+  HazardType,
+  Spike,
+  Lava,
+  SawBlade,
+  Fire,
+  Acid,
+} from '../entities/Hazard';
+import { Checkpoint } from '../entities/Checkpoint';
+import { Boss } from '../entities/Boss';
+import {
+  PowerUp,
   PowerUpManager,
+  PowerUpType,
   DoubleJumpPowerUp,
   ShieldPowerUp,
   SpeedBoostPowerUp,
   HealthBoostPowerUp,
   DamageBoostPowerUp,
 } from '../entities/PowerUp';
+import {
+  ENTITY_DEFINITIONS_KEY,
+  EntityDefinitions,
+  ItemDefinition,
+  SkillKind,
+  parseEntityDefinitions,
+} from './EntityDefinitions';
 
 /**
  * Factory configuration for creating game entities.
@@ -58,18 +80,59 @@ export interface EntityFactoryConfig {
     speedBoost?: string;
     key?: string;
     platform?: string;
+    boss?: string;
   };
   /** Default physics manager (optional). */
   physicsManager?: any;
+  /**
+   * Enemy, item, skill and power-up definitions. Defaults to the
+   * definitions file loaded at boot.
+   */
+  definitions?: EntityDefinitions;
+}
+
+/**
+ * Options for a hazard. Fields a hazard type does not use are ignored.
+ */
+export interface HazardOptions {
+  /** Damage per hit (defaults to the hazard type's). */
+  damage?: number;
+  /** Display width for lava and acid pools. */
+  width?: number;
+  /** Display height for lava and acid pools. */
+  height?: number;
+  /** Whether a saw blade moves back and forth. */
+  moving?: boolean;
+  /** Saw blade speed in pixels per second. */
+  moveSpeed?: number;
+  /** Saw blade travel distance in pixels. */
+  moveRange?: number;
+}
+
+/**
+ * Options for a power-up. Unset fields default to the definitions.
+ */
+export interface PowerUpOptions {
+  /** Effect duration in milliseconds. */
+  duration?: number;
+  /** Speed or damage multiplier. */
+  multiplier?: number;
+  /** Health restored by a health boost. */
+  healAmount?: number;
 }
 
 /**
  * Centralized factory for creating game entities.
  * Simplifies instantiation and configuration.
+ *
+ * Enemies, items, skills and power-ups are built from data (see
+ * `EntityDefinitions`), so a new variant or a balance change only needs an
+ * edit to `assets/data/entities.json`.
  */
 export class EntityFactory {
   private scene: Phaser.Scene;
   private config: EntityFactoryConfig;
+  private definitions: EntityDefinitions;
 
   /**
    * Creates an instance of EntityFactory.
@@ -89,9 +152,32 @@ export class EntityFactory {
         speedBoost: 'speed_boost',
         key: 'key',
         platform: 'platform',
+        boss: 'boss',
       },
       ...config,
     };
+    this.definitions =
+      config.definitions ?? EntityFactory.loadDefinitions(scene);
+  }
+
+  /**
+   * Read the definitions file from the JSON cache, skipping invalid entries.
+   */
+  private static loadDefinitions(scene: Phaser.Scene): EntityDefinitions {
+    const { definitions, errors } = parseEntityDefinitions(
+      scene.cache?.json?.get(ENTITY_DEFINITIONS_KEY),
+    );
+    if (errors.length > 0) {
+      logger.warn(`Skipped invalid entity definitions:\n${errors.join('\n')}`);
+    }
+    return definitions;
+  }
+
+  /**
+   * Get the definitions this factory builds from.
+   */
+  public getDefinitions(): EntityDefinitions {
+    return this.definitions;
   }
 
   /**
@@ -120,9 +206,7 @@ export class EntityFactory {
    * @returns The created slime instance.
    */
   public createSlime(x: number, y: number, config?: EnemyAIConfig): Slime {
-    const slime = new Slime(this.scene, x, y, config);
-    this.scene.add.existing(slime);
-    return slime;
+    return this.createEnemy('slime', x, y, config) as Slime;
   }
 
   /**
@@ -137,9 +221,7 @@ export class EntityFactory {
     y: number,
     config?: EnemyAIConfig,
   ): FlyingEnemy {
-    const enemy = new FlyingEnemy(this.scene, x, y, config);
-    this.scene.add.existing(enemy);
-    return enemy;
+    return this.createEnemy('flying', x, y, config) as FlyingEnemy;
   }
 
   /**
@@ -150,34 +232,83 @@ export class EntityFactory {
    * @returns The created archer instance.
    */
   public createArcher(x: number, y: number, config?: EnemyAIConfig): Archer {
-    const archer = new Archer(this.scene, x, y, config);
-    this.scene.add.existing(archer);
-    return archer;
+    return this.createEnemy('archer', x, y, config) as Archer;
   }
 
   /**
-   * Create a generic enemy (defaults to slime).
-   * @param type Enemy type ('slime' | 'flying' | 'archer').
+   * Create an enemy from its definition (defaults to slime).
+   * @param type Enemy definition id, e.g. 'slime', 'flying' or 'archer'.
    * @param x X position.
    * @param y Y position.
-   * @param config Enemy AI configuration.
+   * @param config Enemy AI configuration, laid over the definition's.
    */
   public createEnemy(
-    type: 'slime' | 'flying' | 'archer',
+    type: string,
     x: number,
     y: number,
     config?: EnemyAIConfig,
   ): Enemy {
-    switch (type) {
-    case 'slime':
-      return this.createSlime(x, y, config);
+    let definition = this.definitions.enemies[type];
+    if (!definition) {
+      logger.warn(`Unknown enemy type: ${type}, using slime`);
+      definition = this.definitions.enemies.slime ?? { base: 'slime' };
+    }
+
+    const aiConfig = { ...definition.ai, ...config };
+    let enemy: Enemy;
+    switch (definition.base) {
     case 'flying':
-      return this.createFlyingEnemy(x, y, config);
+      enemy = new FlyingEnemy(this.scene, x, y, aiConfig);
+      break;
     case 'archer':
-      return this.createArcher(x, y, config);
+      enemy = new Archer(this.scene, x, y, aiConfig);
+      break;
     default:
-      return this.createSlime(x, y, config);
+      enemy = new Slime(this.scene, x, y, aiConfig);
+    }
+
+    if (definition.texture) {
+      enemy.setTexture(definition.texture);
+    }
+    if (definition.health !== undefined) {
+      enemy.health = definition.health;
+      enemy.maxHealth = definition.health;
     }
+    for (const [name, attack] of Object.entries(definition.attacks ?? {})) {
+      enemy.configureAttack(name, attack);
+    }
+
+    this.scene.add.existing(enemy);
+    return enemy;
+  }
+
+  /**
+   * Create a boss.
+   * @param x X position.
+   * @param y Y position.
+   * @param config Enemy AI configuration, laid over the boss defaults.
+   * @param health Boss health (defaults to the boss's own).
+   * @returns The created boss.
+   */
+  public createBoss(
+    x: number,
+    y: number,
+    config?: EnemyAIConfig,
+    health?: number,
+  ): Boss {
+    const boss = new Boss(
+      this.scene,
+      x,
+      y,
+      this.config.textures!.boss!,
+      config,
+    );
+    if (health !== undefined) {
+      boss.health = health;
+      boss.maxHealth = health;
+    }
+    this.scene.add.existing(boss);
+    return boss;
   }
 
   /**
@@ -192,13 +323,7 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig>,
   ): HealthPotion {
-    const texture = this.config.textures!.healthPotion!;
-    const potion = new HealthPotion(this.scene, x, y, {
-      ...config,
-    });
-    potion.setTexture(texture);
-    this.scene.add.existing(potion);
-    return potion;
+    return this.createItem('health_potion', x, y, config) as HealthPotion;
   }
 
   /**
@@ -209,13 +334,7 @@ export class EntityFactory {
    * @returns The created coin.
    */
   public createCoin(x: number, y: number, config?: Partial<ItemConfig>): Coin {
-    const texture = this.config.textures!.coin!;
-    const coin = new Coin(this.scene, x, y, {
-      ...config,
-    });
-    coin.setTexture(texture);
-    this.scene.add.existing(coin);
-    return coin;
+    return this.createItem('coin', x, y, config) as Coin;
   }
 
   /**
@@ -230,13 +349,7 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig>,
   ): SpeedBoost {
-    const texture = this.config.textures!.speedBoost!;
-    const boost = new SpeedBoost(this.scene, x, y, {
-      ...config,
-    });
-    boost.setTexture(texture);
-    this.scene.add.existing(boost);
-    return boost;
+    return this.createItem('speed_boost', x, y, config) as SpeedBoost;
   }
 
   /**
@@ -247,13 +360,65 @@ export class EntityFactory {
    * @returns The created key.
    */
   public createKey(x: number, y: number, config?: Partial<ItemConfig>): Key {
-    const texture = this.config.textures!.key!;
-    const key = new Key(this.scene, x, y, {
-      ...config,
-    });
-    key.setTexture(texture);
-    this.scene.add.existing(key);
-    return key;
+    return this.createItem('key', x, y, config) as Key;
+  }
+
+  /**
+   * Create an item from its definition.
+   * @param itemId Item definition id, e.g. 'coin' or 'gem_red'.
+   * @param x X position.
+   * @param y Y position.
+   * @param config Item configuration, laid over the definition's.
+   * @returns The created item.
+   * @throws Error if there is no item with that id.
+   */
+  public createItem(
+    itemId: string,
+    x: number,
+    y: number,
+    config?: Partial<ItemConfig> & { isSecret?: boolean },
+  ): Item {
+    const definition = this.definitions.items[itemId];
+    if (!definition) {
+      throw new Error(`Unknown item ID: ${itemId}`);
+    }
+    return this.buildItem(definition, x, y, config);
+  }
+
+  private buildItem(
+    definition: ItemDefinition,
+    x: number,
+    y: number,
+    overrides?: Partial<ItemConfig> & { isSecret?: boolean },
+  ): Item {
+    const config = { ...definition.config, ...overrides };
+    if (definition.base === 'gem') {
+      const gem = this.newGem(definition.gemType!, x, y, config);
+      if (definition.texture) {
+        gem.setTexture(definition.texture);
+      }
+      return gem;
+    }
+
+    let item: Item;
+    switch (definition.base) {
+    case 'healthPotion':
+      item = new HealthPotion(this.scene, x, y, config);
+      break;
+    case 'coin':
+      item = new Coin(this.scene, x, y, config);
+      break;
+    case 'speedBoost':
+      item = new SpeedBoost(this.scene, x, y, config);
+      break;
+    default:
+      item = new Key(this.scene, x, y, config);
+    }
+    item.setTexture(
+      definition.texture ?? this.config.textures![definition.base]!,
+    );
+    this.scene.add.existing(item);
+    return item;
   }
 
   /**
@@ -320,66 +485,91 @@ export class EntityFactory {
     });
   }
 
+  /**
+   * Create a hazard. Hazards add themselves to the scene and physics world.
+   * @param type Hazard type.
+   * @param x X position.
+   * @param y Y position.
+   * @param options Damage, size and movement overrides.
+   * @returns The created hazard.
+   */
+  public createHazard(
+    type: HazardType,
+    x: number,
+    y: number,
+    options: HazardOptions = {},
+  ): Hazard {
+    const { damage, width, height } = options;
+    switch (type) {
+    case 'lava':
+      return new Lava(this.scene, x, y, width, height, damage);
+    case 'saw_blade':
+      return new SawBlade(
+        this.scene,
+        x,
+        y,
+        damage,
+        options.moving,
+        options.moveSpeed,
+        options.moveRange,
+      );
+    case 'fire':
+      return new Fire(this.scene, x, y, damage);
+    case 'acid':
+      return new Acid(this.scene, x, y, width, height, damage);
+    default:
+      return new Spike(this.scene, x, y, damage);
+    }
+  }
+
+  /**
+   * Create a checkpoint.
+   * @param id Unique checkpoint id.
+   * @param x X position.
+   * @param y Y position.
+   * @param checkpointNumber Checkpoint number in the level.
+   * @returns The created checkpoint.
+   */
+  public createCheckpoint(
+    id: string,
+    x: number,
+    y: number,
+    checkpointNumber: number,
+  ): Checkpoint {
+    return new Checkpoint(this.scene, id, x, y, checkpointNumber);
+  }
+
   /**
    * Create a skill instance.
-   * @param skillId Predefined skill ID ('dash', 'fireball', 'heal') or custom config.
+   * @param skillId Skill definition id (e.g. 'dash', 'fireball', 'heal') or
+   * a full config whose id names a definition.
    * @param config Override configuration.
+   * @throws Error if there is no skill with that id.
    */
   public createSkill(
-    skillId: 'dash' | 'fireball' | 'heal' | SkillConfig,
+    skillId: string | SkillConfig,
     config?: Partial<SkillConfig>,
   ): Skill {
-    let skillConfig: SkillConfig;
-    if (typeof skillId === 'string') {
-      const base = this.getBaseSkillConfig(skillId);
-      skillConfig = { ...base, ...config };
-    } else {
-      skillConfig = skillId;
-    }
-    switch (skillConfig.id) {
-    case 'dash':
-      return new DashSkill(skillConfig);
-    case 'fireball':
-      return new FireballSkill(skillConfig);
-    case 'heal':
-      return new HealSkill(skillConfig);
-    default:
-      throw new Error(`Unknown skill ID: ${skillConfig.id}`);
+    const id = typeof skillId === 'string' ? skillId : skillId.id;
+    const definition = this.definitions.skills[id];
+    if (!definition) {
+      throw new Error(`Unknown skill ID: ${id}`);
     }
+
+    const { kind, ...base } = definition;
+    const skillConfig: SkillConfig =
+      typeof skillId === 'string' ? { id, ...base, ...config } : skillId;
+    return EntityFactory.newSkill(kind, skillConfig);
   }
 
-  /**
-   * Get base configuration for a predefined skill.
-   * @param skillId Skill identifier.
-   */
-  private getBaseSkillConfig(skillId: string): SkillConfig {
-    switch (skillId) {
+  private static newSkill(kind: SkillKind, config: SkillConfig): Skill {
+    switch (kind) {
     case 'dash':
-      return {
-        id: 'dash',
-        name: 'Dash',
-        cooldown: 2000,
-        cost: 10,
-        target: 'directional' as any,
-      };
+      return new DashSkill(config);
     case 'fireball':
-      return {
-        id: 'fireball',
-        name: 'Fireball',
-        cooldown: 3000,
-        cost: 20,
-        target: 'projectile' as any,
-      };
-    case 'heal':
-      return {
-        id: 'heal',
-        name: 'Heal',
-        cooldown: 5000,
-        cost: 30,
-        target: 'target' as any,
-      };
+      return new FireballSkill(config);
     default:
-      throw new Error(`Unknown skill ID: ${skillId}`);
+      return new HealSkill(config);
     }
   }
 
@@ -400,19 +590,62 @@ export class EntityFactory {
     return group;
   }
 
+  /**
+   * Create a power-up by type.
+   * @param type Power-up type.
+   * @param powerUpManager PowerUpManager instance.
+   * @param x X position.
+   * @param y Y position.
+   * @param options Effect overrides (default to the definitions).
+   * @returns The created power-up.
+   */
+  public createPowerUp(
+    type: PowerUpType,
+    powerUpManager: PowerUpManager,
+    x: number,
+    y: number,
+    options: PowerUpOptions = {},
+  ): PowerUp {
+    const { duration, multiplier, healAmount } = options;
+    switch (type) {
+    case 'double_jump':
+      return this.createDoubleJumpPowerUp(powerUpManager, x, y, duration);
+    case 'shield':
+      return this.createShieldPowerUp(powerUpManager, x, y, duration);
+    case 'speed_boost':
+      return this.createSpeedBoostPowerUp(
+        powerUpManager,
+        x,
+        y,
+        duration,
+        multiplier,
+      );
+    case 'health_boost':
+      return this.createHealthBoostPowerUp(powerUpManager, x, y, healAmount);
+    default:
+      return this.createDamageBoostPowerUp(
+        powerUpManager,
+        x,
+        y,
+        duration,
+        multiplier,
+      );
+    }
+  }
+
   /**
    * Create a double jump power-up.
    * @param powerUpManager PowerUpManager instance.
    * @param x X position.
    * @param y Y position.
-   * @param duration Effect duration in milliseconds.
+   * @param duration Effect duration in milliseconds (defaults to the definition's).
    * @returns The created power-up.
    */
   public createDoubleJumpPowerUp(
     powerUpManager: PowerUpManager,
     x: number,
     y: number,
-    duration: number = 10000,
+    duration: number = this.definitions.powerUps.doubleJump.duration,
   ): DoubleJumpPowerUp {
     const powerUp = new DoubleJumpPowerUp(
       this.scene,
@@ -429,14 +662,14 @@ export class EntityFactory {
    * @param powerUpManager PowerUpManager instance.
    * @param x X position.
    * @param y Y position.
-   * @param duration Effect duration in milliseconds.
+   * @param duration Effect duration in milliseconds (defaults to the definition's).
    * @returns The created power-up.
    */
   public createShieldPowerUp(
     powerUpManager: PowerUpManager,
     x: number,
     y: number,
-    duration: number = 8000,
+    duration: number = this.definitions.powerUps.shield.duration,
   ): ShieldPowerUp {
     const powerUp = new ShieldPowerUp(
       this.scene,
@@ -453,16 +686,16 @@ export class EntityFactory {
    * @param powerUpManager PowerUpManager instance.
    * @param x X position.
    * @param y Y position.
-   * @param duration Effect duration in milliseconds.
-   * @param multiplier Speed multiplier.
+   * @param duration Effect duration in milliseconds (defaults to the definition's).
+   * @param multiplier Speed multiplier (defaults to the definition's).
    * @returns The created power-up.
    */
   public createSpeedBoostPowerUp(
     powerUpManager: PowerUpManager,
     x: number,
     y: number,
-    duration: number = 6000,
-    multiplier: number = 1.5,
+    duration: number = this.definitions.powerUps.speedBoost.duration,
+    multiplier: number = this.definitions.powerUps.speedBoost.multiplier,
   ): SpeedBoostPowerUp {
     const powerUp = new SpeedBoostPowerUp(
       this.scene,
@@ -480,14 +713,14 @@ export class EntityFactory {
    * @param powerUpManager PowerUpManager instance.
    * @param x X position.
    * @param y Y position.
-   * @param healAmount Amount of health to restore.
+   * @param healAmount Amount of health to restore (defaults to the definition's).
    * @returns The created power-up.
    */
   public createHealthBoostPowerUp(
     powerUpManager: PowerUpManager,
     x: number,
     y: number,
-    healAmount: number = 5,
+    healAmount: number = this.definitions.powerUps.healthBoost.healAmount,
   ): HealthBoostPowerUp {
     const powerUp = new HealthBoostPowerUp(
       this.scene,
@@ -504,16 +737,16 @@ export class EntityFactory {
    * @param powerUpManager PowerUpManager instance.
    * @param x X position.
    * @param y Y position.
-   * @param duration Effect duration in milliseconds.
-   * @param multiplier Damage multiplier.
+   * @param duration Effect duration in milliseconds (defaults to the definition's).
+   * @param multiplier Damage multiplier (defaults to the definition's).
    * @returns The created power-up.
    */
   public createDamageBoostPowerUp(
     powerUpManager: PowerUpManager,
     x: number,
     y: number,
-    duration: number = 10000,
-    multiplier: number = 2,
+    duration: number = this.definitions.powerUps.damageBoost.duration,
+    multiplier: number = this.definitions.powerUps.damageBoost.multiplier,
   ): DamageBoostPowerUp {
     const powerUp = new DamageBoostPowerUp(
       this.scene,
@@ -539,6 +772,19 @@ export class EntityFactory {
     x: number,
     y: number,
     config?: Partial<ItemConfig> & { isSecret?: boolean },
+  ): Gem {
+    const definition = this.definitions.items[`gem_${gemType}`];
+    if (definition?.base === 'gem') {
+      return this.buildItem(definition, x, y, config) as Gem;
+    }
+    return this.newGem(gemType, x, y, config);
+  }
+
+  private newGem(
+    gemType: GemType,
+    x: number,
+    y: number,
+    config?: Partial<ItemConfig> & { isSecret?: boolean },
   ): Gem {
     switch (gemType) {
     case 'red':
@@ -564,7 +810,7 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig> & { isSecret?: boolean },
   ): RedGem {
-    return new RedGem(this.scene, x, y, config);
+    return this.createGem('red', x, y, config) as RedGem;
   }
 
   /**
@@ -575,7 +821,7 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig> & { isSecret?: boolean },
   ): BlueGem {
-    return new BlueGem(this.scene, x, y, config);
+    return this.createGem('blue', x, y, config) as BlueGem;
   }
 
   /**
@@ -586,7 +832,7 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig> & { isSecret?: boolean },
   ): GreenGem {
-    return new GreenGem(this.scene, x, y, config);
+    return this.createGem('green', x, y, config) as GreenGem;
   }
 
   /**
@@ -597,7 +843,7 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig> & { isSecret?: boolean },
   ): PurpleGem {
-    return new PurpleGem(this.scene, x, y, config);
+    return this.createGem('purple', x, y, config) as PurpleGem;
   }
 
   /**
@@ -608,6 +854,6 @@ export class EntityFactory {
     y: number,
     config?: Partial<ItemConfig> & { isSecret?: boolean },
   ): YellowGem {
-    return new YellowGem(this.scene, x, y, config);
+    return this.createGem('yellow', x, y, config) as YellowGem;
   }
 }
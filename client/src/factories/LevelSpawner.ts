@@ -0,0 +1,393 @@
+import { logger } from '../utils/logger';
+import type { TilemapObject } from '../core/TilemapLoader';
+import type { Enemy, EnemyAIConfig } from '../entities/Enemy';
+import type { Item } from '../entities/Item';
+import type { Hazard, HazardType } from '../entities/Hazard';
+import type { Checkpoint } from '../entities/Checkpoint';
+import type { PowerUp, PowerUpManager, PowerUpType } from '../entities/PowerUp';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformMovement,
+} from '../entities/Platform';
+import type { EntityFactory } from './EntityFactory';
+import type { EntityDefinitions } from './EntityDefinitions';
+
+export const HAZARD_TYPES: readonly HazardType[] = [
+  'spike',
+  'lava',
+  'saw_blade',
+  'fire',
+  'acid',
+];
+
+export const POWER_UP_TYPES: readonly PowerUpType[] = [
+  'double_jump',
+  'shield',
+  'speed_boost',
+  'health_boost',
+  'damage_boost',
+];
+
+/** Platform object types and the movement they map to. */
+const PLATFORM_MOVEMENTS: Record<string, PlatformMovement> = {
+  static: PlatformMovement.Static,
+  moving: PlatformMovement.Horizontal,
+  moving_horizontal: PlatformMovement.Horizontal,
+  horizontal: PlatformMovement.Horizontal,
+  moving_vertical: PlatformMovement.Vertical,
+  vertical: PlatformMovement.Vertical,
+  circular: PlatformMovement.Circular,
+  patrolling: PlatformMovement.Patrolling,
+};
+
+const AI_NUMBER_PROPERTIES = [
+  'detectionRange',
+  'attackRange',
+  'patrolSpeed',
+  'chaseSpeed',
+  'patrolChangeTime',
+] as const;
+
+const AI_BOOLEAN_PROPERTIES = ['flying', 'dropsLoot'] as const;
+
+/**
+ * Something a level designer can place, with its default size in pixels.
+ */
+export interface SpawnCatalogueEntry {
+  layer: string;
+  type: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * The level exit area.
+ */
+export interface LevelExit {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Key of the level the exit leads to, if set. */
+  nextLevel?: string;
+}
+
+/**
+ * Everything spawned from a level's object layers.
+ */
+export interface SpawnedLevel {
+  playerSpawn?: { x: number; y: number };
+  exit?: LevelExit;
+  platforms: Platform[];
+  enemies: Enemy[];
+  items: Item[];
+  hazards: Hazard[];
+  checkpoints: Checkpoint[];
+  powerUps: PowerUp[];
+  /** Objects that could not be spawned, with the reason. */
+  skipped: string[];
+}
+
+/**
+ * Level spawner configuration.
+ */
+export interface LevelSpawnerConfig {
+  /** Manager that collected power-ups activate. Power-ups are skipped without one. */
+  powerUpManager?: PowerUpManager;
+}
+
+/**
+ * Spawns a level from Tiled object layers.
+ *
+ * The layer an object sits on decides what it is, and its type and custom
+ * properties decide which variant is built:
+ *
+ * - `platforms`: `static`, `moving` / `moving_horizontal`, `moving_vertical`,
+ *   `circular`, `patrolling`, or any polyline/polygon to follow as a path.
+ * - `enemies`: an enemy definition id, or `boss`.
+ * - `items`: an item definition id.
+ * - `hazards`: a `HazardType`.
+ * - `checkpoints`: numbered by a `number` property or by their order.
+ * - `powerups`: a `PowerUpType`.
+ * - `player`: the `spawn` point.
+ * - `exit`: the `level_exit` area.
+ *
+ * Entities are placed at the centre of their object.
+ */
+export class LevelSpawner {
+  private factory: EntityFactory;
+  private config: LevelSpawnerConfig;
+
+  /**
+   * Creates an instance of LevelSpawner.
+   * @param factory Factory that builds the entities.
+   * @param config Spawner configuration.
+   */
+  constructor(factory: EntityFactory, config: LevelSpawnerConfig = {}) {
+    this.factory = factory;
+    this.config = config;
+  }
+
+  /**
+   * Spawn every object. Objects that cannot be spawned are skipped and
+   * reported in `skipped`.
+   * @param objects Objects read by `TilemapLoader`.
+   */
+  public spawn(objects: TilemapObject[]): SpawnedLevel {
+    const level: SpawnedLevel = {
+      platforms: [],
+      enemies: [],
+      items: [],
+      hazards: [],
+      checkpoints: [],
+      powerUps: [],
+      skipped: [],
+    };
+
+    objects.forEach((obj) => {
+      try {
+        this.spawnObject(obj, level);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        level.skipped.push(`${label(obj)}: ${reason}`);
+      }
+    });
+
+    if (level.skipped.length > 0) {
+      logger.warn(
+        `Skipped level objects that could not be spawned:\n${level.skipped.join('\n')}`,
+      );
+    }
+    return level;
+  }
+
+  private spawnObject(obj: TilemapObject, level: SpawnedLevel): void {
+    const { x, y } = centre(obj);
+
+    switch (obj.layer.replace(/[\s_-]/g, '')) {
+    case 'platforms':
+      level.platforms.push(this.spawnPlatform(obj));
+      break;
+    case 'enemies':
+      level.enemies.push(this.spawnEnemy(obj, x, y));
+      break;
+    case 'items':
+      level.items.push(
+        this.factory.createItem(obj.type, x, y, {
+          ...pickNumber(obj.properties, 'value'),
+          ...pickBoolean(obj.properties, 'isSecret'),
+        }),
+      );
+      break;
+    case 'hazards':
+      level.hazards.push(this.spawnHazard(obj, x, y));
+      break;
+    case 'checkpoints': {
+      const checkpointNumber =
+          numberProperty(obj.properties, 'number') ??
+          level.checkpoints.length + 1;
+      level.checkpoints.push(
+        this.factory.createCheckpoint(
+          obj.name || `checkpoint_${checkpointNumber}`,
+          x,
+          y,
+          checkpointNumber,
+        ),
+      );
+      break;
+    }
+    case 'powerups':
+      level.powerUps.push(this.spawnPowerUp(obj, x, y));
+      break;
+    case 'player':
+      if (obj.type !== 'spawn') {
+        throw new Error('player objects must be of type spawn');
+      }
+      level.playerSpawn = { x, y };
+      break;
+    case 'exit': {
+      const nextLevel = obj.properties.nextLevel;
+      level.exit = {
+        x,
+        y,
+        width: obj.width,
+        height: obj.height,
+        ...(typeof nextLevel === 'string' ? { nextLevel } : {}),
+      };
+      break;
+    }
+    default:
+      throw new Error(`unknown object layer ${obj.layer}`);
+    }
+  }
+
+  private spawnPlatform(obj: TilemapObject): Platform {
+    const props = obj.properties;
+    const tileSize = numberProperty(props, 'tileSize') ?? 32;
+    const config: PlatformConfig = {
+      tileSize,
+      tileWidth:
+        numberProperty(props, 'tileWidth') ??
+        Math.max(1, Math.round(obj.width / tileSize)),
+      tileHeight:
+        numberProperty(props, 'tileHeight') ??
+        Math.max(1, Math.round(obj.height / tileSize)),
+      ...pickNumber(props, 'speed'),
+      ...pickBoolean(props, 'oneWay'),
+    };
+    const distance = numberProperty(props, 'moveDistance');
+    if (distance !== undefined) {
+      config.travelDistance = distance;
+    }
+
+    if (obj.points && obj.points.length > 1) {
+      const start = obj.points[0]!;
+      return this.factory.createPlatform(start.x, start.y, {
+        ...config,
+        movement: PlatformMovement.Path,
+        path: obj.points,
+        loop: obj.closed || props.loop === true,
+      });
+    }
+
+    const movement = PLATFORM_MOVEMENTS[obj.type || 'static'];
+    if (!movement) {
+      throw new Error(`unknown platform type ${obj.type}`);
+    }
+    const { x, y } = centre(obj);
+    return this.factory.createPlatform(x, y, { ...config, movement });
+  }
+
+  private spawnEnemy(obj: TilemapObject, x: number, y: number): Enemy {
+    const props = obj.properties;
+    const aiConfig: EnemyAIConfig = {};
+    AI_NUMBER_PROPERTIES.forEach((key) => {
+      Object.assign(aiConfig, pickNumber(props, key));
+    });
+    AI_BOOLEAN_PROPERTIES.forEach((key) => {
+      Object.assign(aiConfig, pickBoolean(props, key));
+    });
+    if (typeof props.lootTable === 'string') {
+      aiConfig.lootTable = props.lootTable
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean);
+    }
+    const health = numberProperty(props, 'health');
+
+    if (obj.type === 'boss') {
+      return this.factory.createBoss(x, y, aiConfig, health);
+    }
+
+    const enemy = this.factory.createEnemy(obj.type, x, y, aiConfig);
+    if (health !== undefined) {
+      enemy.health = health;
+      enemy.maxHealth = health;
+    }
+    return enemy;
+  }
+
+  private spawnHazard(obj: TilemapObject, x: number, y: number): Hazard {
+    const type = obj.type as HazardType;
+    if (!HAZARD_TYPES.includes(type)) {
+      throw new Error(`unknown hazard type ${obj.type}`);
+    }
+    const props = obj.properties;
+    return this.factory.createHazard(type, x, y, {
+      ...(obj.width > 0 ? { width: obj.width } : {}),
+      ...(obj.height > 0 ? { height: obj.height } : {}),
+      ...pickNumber(props, 'damage'),
+      ...pickBoolean(props, 'moving'),
+      ...pickNumber(props, 'moveSpeed'),
+      ...pickNumber(props, 'moveRange'),
+    });
+  }
+
+  private spawnPowerUp(obj: TilemapObject, x: number, y: number): PowerUp {
+    const type = obj.type as PowerUpType;
+    if (!POWER_UP_TYPES.includes(type)) {
+      throw new Error(`unknown power-up type ${obj.type}`);
+    }
+    if (!this.config.powerUpManager) {
+      throw new Error('no power-up manager');
+    }
+    const props = obj.properties;
+    return this.factory.createPowerUp(type, this.config.powerUpManager, x, y, {
+      ...pickNumber(props, 'duration'),
+      ...pickNumber(props, 'multiplier'),
+      ...pickNumber(props, 'healAmount'),
+    });
+  }
+}
+
+/**
+ * List everything `LevelSpawner` can spawn, with enemies and items taken
+ * from the entity definitions.
+ */
+export function buildSpawnCatalogue(
+  definitions: EntityDefinitions,
+): SpawnCatalogueEntry[] {
+  const entry = (
+    layer: string,
+    type: string,
+    width: number = 32,
+    height: number = 32,
+  ): SpawnCatalogueEntry => ({ layer, type, width, height });
+
+  return [
+    ...[
+      'static',
+      'moving_horizontal',
+      'moving_vertical',
+      'circular',
+      'patrolling',
+    ].map((type) => entry('platforms', type, 96)),
+    ...Object.keys(definitions.enemies).map((type) => entry('enemies', type)),
+    entry('enemies', 'boss', 64, 64),
+    ...Object.keys(definitions.items).map((type) => entry('items', type)),
+    ...HAZARD_TYPES.map((type) =>
+      type === 'lava' || type === 'acid'
+        ? entry('hazards', type, 64)
+        : entry('hazards', type),
+    ),
+    entry('checkpoints', 'checkpoint', 32, 64),
+    ...POWER_UP_TYPES.map((type) => entry('powerups', type)),
+    entry('player', 'spawn'),
+    entry('exit', 'level_exit', 64, 64),
+  ];
+}
+
+function centre(obj: TilemapObject): { x: number; y: number } {
+  return { x: obj.x + obj.width / 2, y: obj.y + obj.height / 2 };
+}
+
+function label(obj: TilemapObject): string {
+  return `${obj.layer} object ${obj.id}${obj.type ? ` (${obj.type})` : ''}`;
+}
+
+function numberProperty(
+  props: Record<string, unknown>,
+  key: string,
+): number | undefined {
+  const value = props[key];
+  return typeof value === 'number' ? value : undefined;
+}
+
+function pickNumber<K extends string>(
+  props: Record<string, unknown>,
+  key: K,
+): Partial<Record<K, number>> {
+  const value = numberProperty(props, key);
+  return value === undefined ? {} : ({ [key]: value } as Record<K, number>);
+}
+
+function pickBoolean<K extends string>(
+  props: Record<string, unknown>,
+  key: K,
+): Partial<Record<K, boolean>> {
+  const value = props[key];
+  return typeof value === 'boolean'
+    ? ({ [key]: value } as Record<K, boolean>)
+    : {};
+}
@@ -7,6 +7,8 @@ import { LevelSelectScene } from './scenes/LevelSelectScene';
 import { GameScene } from './scenes/GameScene';
 import { PauseScene } from './scenes/PauseScene';
 import { GameOverScene } from './scenes/GameOverScene';
+import { SaveConflictScene } from './scenes/SaveConflictScene';
+import { LevelEditorScene } from './scenes/LevelEditorScene';
 
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -23,6 +25,8 @@ const config: Phaser.Types.Core.GameConfig = {
     GameScene,
     PauseScene,
     GameOverScene,
+    SaveConflictScene,
+    LevelEditorScene,
   ],
   physics: {
     default: 'arcade',
@@ -1,4 +1,9 @@
 import { Scene } from 'phaser';
+import {
+  SaveSyncService,
+  setGlobalSaveSync,
+} from '../services/SaveSyncService';
+import { logger } from '../utils/logger';
 
 export class BootScene extends Scene {
   constructor() {
@@ -10,6 +15,15 @@ export class BootScene extends Scene {
   }
 
   create() {
+    // Keep save slots in sync with the cloud when there is a server
+    try {
+      const saveSync = new SaveSyncService();
+      setGlobalSaveSync(saveSync);
+      saveSync.start();
+    } catch (error) {
+      logger.warn('Cloud saves unavailable:', error);
+    }
+
     this.scene.start('PreloadScene');
   }
 }
@@ -2,6 +2,7 @@ import { Scene } from 'phaser';
 import { InputManager, InputConfig } from '../core/InputManager';
 import { SceneService } from '../core/SceneManager';
 import { eventBus } from '../core/EventBus';
+import { formatLevelTime } from '../core/LevelRegistry';
 
 export interface GameOverSceneData {
   score: number;
@@ -10,6 +11,10 @@ export interface GameOverSceneData {
   coins?: number;
   enemiesDefeated?: number;
   timeElapsed?: number;
+  /** Seconds a good run of the level takes. */
+  parTime?: number;
+  /** Level to offer after a win; none after the last unlocked level. */
+  nextLevel?: number;
 }
 
 export class GameOverScene extends Scene {
@@ -124,12 +129,11 @@ export class GameOverScene extends Scene {
     }
 
     if (data.timeElapsed !== undefined) {
-      const minutes = Math.floor(data.timeElapsed / 60);
-      const seconds = Math.floor(data.timeElapsed % 60);
-      stats.push({
-        label: 'Time',
-        value: `${minutes}:${seconds.toString().padStart(2, '0')}`,
-      });
+      stats.push({ label: 'Time', value: formatLevelTime(data.timeElapsed) });
+    }
+
+    if (data.parTime !== undefined) {
+      stats.push({ label: 'Par Time', value: formatLevelTime(data.parTime) });
     }
 
     const startY = height / 2 - 40;
@@ -164,7 +168,7 @@ export class GameOverScene extends Scene {
 
     const menuOptions = [];
 
-    if (won) {
+    if (won && this.gameOverData?.nextLevel !== undefined) {
       menuOptions.push({ label: 'Next Level', action: () => this.nextLevel() });
     }
 
@@ -239,8 +243,9 @@ export class GameOverScene extends Scene {
   }
 
   private nextLevel(): void {
+    const nextLevel = this.gameOverData?.nextLevel;
+    if (nextLevel === undefined) return;
     eventBus.emit('game:next-level');
-    const nextLevel = (this.gameOverData?.level ?? 1) + 1;
     if (this.sceneService) {
       this.sceneService.startScene({
         target: 'GameScene',
@@ -35,21 +35,50 @@ import {
   setGlobalProjectilePool,
 } from '../core/ProjectilePool';
 import { EntityFactory } from '../factories/EntityFactory';
+import {
+  LevelExit,
+  LevelSpawner,
+  SpawnedLevel,
+} from '../factories/LevelSpawner';
 import { Player } from '../entities/Player';
 import { Enemy } from '../entities/Enemy';
 import { Item } from '../entities/Item';
 import { Platform } from '../entities/Platform';
-import { LevelManager } from '../core/LevelManager';
+import { Hazard } from '../entities/Hazard';
+import { Checkpoint } from '../entities/Checkpoint';
+import { PowerUp, PowerUpManager } from '../entities/PowerUp';
+import { LevelManager, LevelConfig } from '../core/LevelManager';
+import { LevelRegistry } from '../core/LevelRegistry';
 import { TilemapLoader } from '../core/TilemapLoader';
+import { LevelDraft, toLevelConfig, toTiledMap } from '../core/LevelDraft';
 import { SceneService } from '../core/SceneManager';
 import { PauseSceneData } from './PauseScene';
 import { GameOverSceneData } from './GameOverScene';
-import { NetworkService } from '../services/NetworkService';
+import { NetworkService, SERVER_TICK_RATE } from '../services/NetworkService';
+import { PredictionService, InputEntry } from '../services/PredictionService';
+import { LevelLeaderboardService } from '../services/LevelLeaderboardService';
+import {
+  CommunityLevelDownload,
+  toCommunityLevelConfig,
+} from '../services/CommunityLevelService';
+
+/** How often to ping the server so it can measure our latency, in ms. */
+const PING_INTERVAL_MS = 2000;
+
+/**
+ * Frame time covered by one input, in ms. The server runs one fixed step
+ * per simulation tick, so inputs go out at that rate, not once per frame.
+ */
+const INPUT_STEP_MS = 1000 / SERVER_TICK_RATE;
 
 export interface GameSceneData {
   level?: number;
   restart?: boolean;
   roomId?: string;
+  /** Level from the editor to playtest instead of a built-in level. */
+  draft?: LevelDraft;
+  /** Downloaded community level to play instead of a built-in level. */
+  communityLevel?: CommunityLevelDownload;
 }
 
 interface RemotePlayerData {
@@ -77,14 +106,25 @@ export class GameScene extends Scene {
   private particleManager?: ParticleManager;
   private saveManager?: SaveManager;
   private networkService?: NetworkService;
+  private predictionService?: PredictionService;
+  private levelLeaderboardService?: LevelLeaderboardService;
   private roomId?: string;
   private enemies: Enemy[] = [];
   private items: Item[] = [];
   private platforms: Platform[] = [];
+  private hazards: Hazard[] = [];
+  private checkpoints: Checkpoint[] = [];
+  private powerUps: PowerUp[] = [];
+  private powerUpManager?: PowerUpManager;
+  private levelExit?: LevelExit;
+  private draft?: LevelDraft;
+  private communityLevel?: CommunityLevelDownload;
+  private groundLayer?: Phaser.Tilemaps.TilemapLayer;
   private projectiles: PooledProjectile[] = [];
   private projectilePool?: ProjectilePool;
   private remotePlayers: Map<string, RemotePlayerData> = new Map();
   private inputSequence: number = 0;
+  private inputAccumulator: number = 0; // frame time not yet sent as input, in ms
   private scoreText?: Phaser.GameObjects.Text;
   private healthText?: Phaser.GameObjects.Text;
   private healthBar?: Phaser.GameObjects.Graphics;
@@ -96,11 +136,14 @@ export class GameScene extends Scene {
   private currentComboCount: number = 0;
   private currentComboMultiplier: number = 1.0;
   private currentLevel: number = 1;
+  /** The campaign, read from the level manifest on each start. */
+  private levelRegistry: LevelRegistry = new LevelRegistry();
   private isPaused: boolean = false;
   private lastHealth: number = 0;
   private currentScore: number = 0;
   private displayedScore: number = 0;
   private isMultiplayer: boolean = false;
+  private lastPingTime: number = 0;
   private minimap?: Minimap;
   private timeAttackTimer?: Phaser.GameObjects.Text;
   private isTimeAttackMode: boolean = false;
@@ -132,8 +175,11 @@ export class GameScene extends Scene {
 
   init(data: GameSceneData) {
     this.currentLevel = data.level ?? 1;
+    this.levelRegistry = LevelRegistry.fromCache(this);
     this.isPaused = false;
     this.roomId = data.roomId;
+    this.draft = data.draft;
+    this.communityLevel = data.communityLevel;
     if (this.roomId) {
       this.isMultiplayer = true;
     }
@@ -187,10 +233,10 @@ export class GameScene extends Scene {
       height: 32,
     });
 
-    // Load all level tilemaps
-    this.load.tilemapTiledJSON('level1', 'assets/tilemaps/level1.json');
-    this.load.tilemapTiledJSON('level2', 'assets/tilemaps/level2.json');
-    this.load.tilemapTiledJSON('level3', 'assets/tilemaps/level3.json');
+    // Load all level tilemaps, as loading a save can switch levels
+    for (const level of this.levelRegistry.getLevels()) {
+      this.load.tilemapTiledJSON(level.key, level.tilemap);
+    }
   }
 
   create() {
@@ -203,9 +249,8 @@ export class GameScene extends Scene {
     }
 
     // Initialize LevelManager
-    this.levelManager = new LevelManager(this);
-    const loaded = this.levelManager.loadLevelByNumber(this.currentLevel);
-    if (!loaded) {
+    this.levelManager = new LevelManager(this, this.levelRegistry);
+    if (!this.loadLevel()) {
       logger.error(`Failed to load level ${this.currentLevel}`);
       return;
     }
@@ -250,6 +295,13 @@ export class GameScene extends Scene {
     // Initialize SaveManager
     this.saveManager = new SaveManager(this, true, 60000); // Auto-save every 60 seconds
 
+    // Level leaderboards need a server; play on without one
+    try {
+      this.levelLeaderboardService = new LevelLeaderboardService();
+    } catch (error) {
+      logger.warn('Level leaderboards unavailable:', error);
+    }
+
     // Initialize Performance Monitoring
     startPerformanceMonitoring(30); // Monitor with 30fps threshold
     enableMemoryTracking();
@@ -290,9 +342,14 @@ export class GameScene extends Scene {
 
     // Initialize EntityFactory
     this.entityFactory = new EntityFactory(this);
+    this.powerUpManager = new PowerUpManager(this);
+
+    // Spawn the level from its Tiled object layers, if it has any
+    const spawned = this.spawnLevel(levelConfig);
+    const spawn = spawned?.playerSpawn ?? { x: 100, y: 300 };
 
     // Create player using factory with animation manager
-    this.player = this.entityFactory.createPlayer(100, 300, {
+    this.player = this.entityFactory.createPlayer(spawn.x, spawn.y, {
       sessionId: 'test',
       name: 'Hero',
       health: 20,
@@ -309,167 +366,11 @@ export class GameScene extends Scene {
     this.player.initializeAnimations();
     this.lastHealth = this.player.health;
 
-    // Create platforms
-    const ground = this.entityFactory.createPlatform(400, 500, {
-      tileWidth: 10,
-      tileHeight: 1,
-      tileSize: 32,
-    });
-    this.platforms.push(ground);
-
-    const movingPlatform = this.entityFactory.createMovingHorizontalPlatform(
-      200,
-      400,
-      200,
-      100,
-    );
-    this.platforms.push(movingPlatform);
-
-    // Create enemies
-    const slime = this.entityFactory.createSlime(300, 400);
-    this.enemies.push(slime);
-
-    const flyingEnemy = this.entityFactory.createFlyingEnemy(500, 200);
-    this.enemies.push(flyingEnemy);
-
-    // Create items with callbacks and particle effects
-    const healthPotion = this.entityFactory.createHealthPotion(150, 350);
-    healthPotion.onCollide = (_player) => {
-      this.levelManager?.collectItem('health_potion');
-      // Health pickup particles
-      this.particleManager?.createHealthPickupEffect(
-        healthPotion.x,
-        healthPotion.y,
-      );
-      // Play sound
-      this.audioService?.playSFX('health_pickup');
-      healthPotion.destroy();
-    };
-    this.items.push(healthPotion);
-
-    const coin = this.entityFactory.createCoin(250, 350);
-    coin.onCollide = (_player) => {
-      this.levelManager?.collectCoin();
-      // Coin collection particles
-      this.particleManager?.createCoinSparkles(coin.x, coin.y);
-      // Play sound
-      this.audioService?.playSFX('coin');
-      coin.destroy();
-    };
-    this.items.push(coin);
-
-    // Add more coins for scoring
-    const coin2 = this.entityFactory.createCoin(400, 250);
-    coin2.onCollide = (_player) => {
-      this.levelManager?.collectCoin();
-      this.particleManager?.createCoinSparkles(coin2.x, coin2.y);
-      this.audioService?.playSFX('coin');
-      coin2.destroy();
-    };
-    this.items.push(coin2);
-
-    const coin3 = this.entityFactory.createCoin(600, 300);
-    coin3.onCollide = (_player) => {
-      this.levelManager?.collectCoin();
-      this.particleManager?.createCoinSparkles(coin3.x, coin3.y);
-      this.audioService?.playSFX('coin');
-      coin3.destroy();
-    };
-    this.items.push(coin3);
-
-    // Add item animations (coin spin and potion glow)
-    this.items.forEach((item) => {
-      if (item.texture.key === 'coin') {
-        // Coin spin animation
-        this.tweens.add({
-          targets: item,
-          scaleX: 0,
-          duration: 300,
-          yoyo: true,
-          repeat: -1,
-          ease: 'Sine.easeInOut',
-        });
-        // Floating animation
-        this.tweens.add({
-          targets: item,
-          y: item.y - 5,
-          duration: 800,
-          yoyo: true,
-          repeat: -1,
-          ease: 'Sine.easeInOut',
-        });
-      } else if (item.texture.key === 'health_potion') {
-        // Potion glow animation
-        this.tweens.add({
-          targets: item,
-          alpha: 0.7,
-          duration: 500,
-          yoyo: true,
-          repeat: -1,
-          ease: 'Sine.easeInOut',
-        });
-        // Gentle float
-        this.tweens.add({
-          targets: item,
-          y: item.y - 3,
-          duration: 1000,
-          yoyo: true,
-          repeat: -1,
-          ease: 'Sine.easeInOut',
-        });
-      }
-    });
-
-    // Set up collisions
-    this.physicsManager.setCollision(this.player, ground);
-    this.physicsManager.setOverlap(
-      this.player,
-      healthPotion,
-      (playerObj, itemObj) => {
-        const item = itemObj as Item;
-        const player = playerObj as Player;
-        item.onCollide(player);
-      },
-    );
-    this.physicsManager.setOverlap(this.player, coin, (playerObj, itemObj) => {
-      const item = itemObj as Item;
-      const player = playerObj as Player;
-      item.onCollide(player);
-    });
-    this.physicsManager.setCollision(
-      this.player,
-      slime,
-      (playerObj, _enemyObj) => {
-        // Player takes damage when colliding with enemy
-        const player = playerObj as Player;
-
-        if (player.takeDamage(1)) {
-          // Screen shake
-          this.cameras.main.shake(200, 0.01);
-          // Damage particles
-          this.particleManager?.createDamageEffect(player.x, player.y, 1);
-          // Play sound
-          this.audioService?.playSFX('player_hit');
-        }
-      },
-    );
-    this.physicsManager.setCollision(
-      this.player,
-      flyingEnemy,
-      (playerObj, _enemyObj) => {
-        // Player takes damage when colliding with enemy
-        const player = playerObj as Player;
-
-        if (player.takeDamage(1)) {
-          // Screen shake
-          this.cameras.main.shake(200, 0.01);
-          // Damage particles
-          this.particleManager?.createDamageEffect(player.x, player.y, 1);
-          // Play sound
-          this.audioService?.playSFX('player_hit');
-        }
-      },
-    );
+    if (spawned) {
+      this.setupSpawnedLevel(spawned);
+    } else {
+      this.createDefaultLevel();
+    }
 
     // Set up projectile collisions
     this.setupProjectileCollisions();
@@ -716,7 +617,7 @@ export class GameScene extends Scene {
     }
   }
 
-  private handleInput(_delta: number): void {
+  private handleInput(delta: number): void {
     // Input handling is now delegated to Player via InputManager binding
     // Additional global input (e.g., pause) can be handled here
 
@@ -752,7 +653,18 @@ export class GameScene extends Scene {
         input.attack = true;
       }
 
-      this.sendPlayerInput(input);
+      this.inputAccumulator += delta;
+      while (this.inputAccumulator >= INPUT_STEP_MS) {
+        this.inputAccumulator -= INPUT_STEP_MS;
+        this.sendPlayerInput(input, INPUT_STEP_MS);
+      }
+
+      // Keep the server's RTT estimate fresh for lag-compensated hits
+      const now = Date.now();
+      if (now - this.lastPingTime >= PING_INTERVAL_MS) {
+        this.lastPingTime = now;
+        this.networkService.ping();
+      }
     }
   }
 
@@ -803,6 +715,16 @@ export class GameScene extends Scene {
       }
     });
 
+    // Update hazards within view
+    this.hazards.forEach((hazard) => {
+      if (isInView(hazard)) {
+        hazard.update(delta);
+      }
+    });
+
+    // Expire power-up effects
+    this.powerUpManager?.update(delta);
+
     // Update projectiles via pool
     this.projectilePool?.update(delta);
 
@@ -874,6 +796,355 @@ export class GameScene extends Scene {
     }
   }
 
+  /**
+   * Load the editor draft or community level the scene was started with,
+   * or else the built-in level by number.
+   */
+  private loadLevel(): boolean {
+    if (this.draft) {
+      this.levelManager!.loadLevel(
+        toLevelConfig(this.draft, this.levelRegistry),
+        toTiledMap(this.draft),
+      );
+      return true;
+    }
+    if (this.communityLevel) {
+      this.levelManager!.loadLevel(
+        toCommunityLevelConfig(this.communityLevel),
+        this.communityLevel.map,
+      );
+      return true;
+    }
+    return this.levelManager!.loadLevelByNumber(this.currentLevel);
+  }
+
+  /**
+   * Whether this is a playtest or a community level. Neither saves,
+   * unlocks levels or goes on the leaderboards.
+   */
+  private isCustomLevel(): boolean {
+    return Boolean(this.draft || this.communityLevel);
+  }
+
+  /**
+   * Leave a playtest for the editor, or a community level for the
+   * Community tab it was picked from.
+   */
+  private leaveCustomLevel(): void {
+    if (this.draft) {
+      this.scene.start('LevelEditorScene', { draft: this.draft });
+    } else {
+      this.scene.start('LevelSelectScene', { tab: 'community' });
+    }
+  }
+
+  /**
+   * Spawn the level's entities from its tilemap object layers.
+   * @returns The spawned level, or undefined if the tilemap has no objects.
+   */
+  private spawnLevel(levelConfig: LevelConfig): SpawnedLevel | undefined {
+    this.tilemapLoader = new TilemapLoader(this);
+    const tilemap = this.tilemapLoader.loadLevelFromJSON(levelConfig);
+    if (!tilemap || tilemap.objects.all.length === 0) {
+      logger.warn(
+        `Level ${levelConfig.key} has no object layers, using the default layout`,
+      );
+      return undefined;
+    }
+
+    this.groundLayer = tilemap.layers.ground;
+    const spawner = new LevelSpawner(this.entityFactory!, {
+      powerUpManager: this.powerUpManager,
+    });
+    return spawner.spawn(tilemap.objects.all);
+  }
+
+  /**
+   * Track the spawned entities and set up their collisions with the player.
+   */
+  private setupSpawnedLevel(level: SpawnedLevel): void {
+    if (!this.physicsManager) return;
+
+    this.platforms.push(...level.platforms);
+    this.enemies.push(...level.enemies);
+    this.items.push(...level.items);
+    this.hazards.push(...level.hazards);
+    this.checkpoints.push(...level.checkpoints);
+    this.powerUps.push(...level.powerUps);
+    this.levelExit = level.exit;
+
+    if (this.groundLayer) {
+      this.physicsManager.setCollision(this.player, this.groundLayer);
+    }
+    level.platforms.forEach((platform) => {
+      this.physicsManager!.setCollision(this.player, platform);
+    });
+    level.enemies.forEach((enemy) => {
+      this.physicsManager!.setCollision(this.player, enemy, (playerObj) =>
+        this.hurtPlayer(playerObj as Player, 1),
+      );
+    });
+    level.items.forEach((item) => {
+      this.bindItemPickup(item);
+      this.animateItem(item);
+      this.physicsManager!.setOverlap(this.player, item, (playerObj) =>
+        item.onCollide(playerObj as Player),
+      );
+    });
+    level.hazards.forEach((hazard) => {
+      this.physicsManager!.setOverlap(this.player, hazard, (playerObj) => {
+        if (hazard.canDamage()) {
+          this.hurtPlayer(playerObj as Player, hazard.dealDamage());
+        }
+      });
+    });
+    level.checkpoints.forEach((checkpoint) =>
+      checkpoint.setLevel(this.currentLevel),
+    );
+    level.powerUps.forEach((powerUp) => {
+      this.physicsManager!.setOverlap(this.player, powerUp, (playerObj) =>
+        powerUp.collect(playerObj as Player),
+      );
+    });
+  }
+
+  /**
+   * Add the level's scoring, particles and sound to an item's pickup.
+   */
+  private bindItemPickup(item: Item): void {
+    const pickUp = item.onCollide.bind(item);
+    const itemId = item.texture.key;
+    item.onCollide = (character) => {
+      if (!item.isCollectible()) return;
+      pickUp(character);
+
+      if (itemId === 'coin') {
+        this.levelManager?.collectCoin();
+        this.particleManager?.createCoinSparkles(item.x, item.y);
+        this.audioService?.playSFX('coin');
+      } else {
+        this.levelManager?.collectItem(itemId);
+        if (itemId === 'health_potion') {
+          this.particleManager?.createHealthPickupEffect(item.x, item.y);
+          this.audioService?.playSFX('health_pickup');
+        }
+      }
+    };
+  }
+
+  /**
+   * Damage the player with the usual shake, particles and sound.
+   */
+  private hurtPlayer(player: Player, damage: number): void {
+    if (player.takeDamage(damage)) {
+      this.cameras.main.shake(200, 0.01);
+      this.particleManager?.createDamageEffect(player.x, player.y, damage);
+      this.audioService?.playSFX('player_hit');
+    }
+  }
+
+  /**
+   * Activate and save any checkpoint the player has reached, and finish the
+   * level once the player is inside the exit.
+   */
+  private checkLevelObjects(): void {
+    this.checkpoints.forEach((checkpoint) => {
+      if (checkpoint.isActive()) return;
+      const { x, y, checkpointNumber } = checkpoint.getData();
+      if (
+        Math.abs(this.player.x - x) < 32 &&
+        Math.abs(this.player.y - y) < 48
+      ) {
+        checkpoint.setPlayerHealth(this.player.health);
+        checkpoint.activate();
+        this.saveCheckpoint(checkpointNumber);
+      }
+    });
+
+    const exit = this.levelExit;
+    if (
+      exit &&
+      Math.abs(this.player.x - exit.x) <= exit.width / 2 &&
+      Math.abs(this.player.y - exit.y) <= exit.height / 2
+    ) {
+      this.handleLevelComplete();
+    }
+  }
+
+  /**
+   * Build the built-in layout used when a level has no object layers.
+   */
+  private createDefaultLevel(): void {
+    if (!this.entityFactory || !this.physicsManager) return;
+
+    // Create platforms
+    const ground = this.entityFactory.createPlatform(400, 500, {
+      tileWidth: 10,
+      tileHeight: 1,
+      tileSize: 32,
+    });
+    this.platforms.push(ground);
+
+    const movingPlatform = this.entityFactory.createMovingHorizontalPlatform(
+      200,
+      400,
+      200,
+      100,
+    );
+    this.platforms.push(movingPlatform);
+
+    // Create enemies
+    const slime = this.entityFactory.createSlime(300, 400);
+    this.enemies.push(slime);
+
+    const flyingEnemy = this.entityFactory.createFlyingEnemy(500, 200);
+    this.enemies.push(flyingEnemy);
+
+    // Create items with callbacks and particle effects
+    const healthPotion = this.entityFactory.createHealthPotion(150, 350);
+    healthPotion.onCollide = (_player) => {
+      this.levelManager?.collectItem('health_potion');
+      // Health pickup particles
+      this.particleManager?.createHealthPickupEffect(
+        healthPotion.x,
+        healthPotion.y,
+      );
+      // Play sound
+      this.audioService?.playSFX('health_pickup');
+      healthPotion.destroy();
+    };
+    this.items.push(healthPotion);
+
+    const coin = this.entityFactory.createCoin(250, 350);
+    coin.onCollide = (_player) => {
+      this.levelManager?.collectCoin();
+      // Coin collection particles
+      this.particleManager?.createCoinSparkles(coin.x, coin.y);
+      // Play sound
+      this.audioService?.playSFX('coin');
+      coin.destroy();
+    };
+    this.items.push(coin);
+
+    // Add more coins for scoring
+    const coin2 = this.entityFactory.createCoin(400, 250);
+    coin2.onCollide = (_player) => {
+      this.levelManager?.collectCoin();
+      this.particleManager?.createCoinSparkles(coin2.x, coin2.y);
+      this.audioService?.playSFX('coin');
+      coin2.destroy();
+    };
+    this.items.push(coin2);
+
+    const coin3 = this.entityFactory.createCoin(600, 300);
+    coin3.onCollide = (_player) => {
+      this.levelManager?.collectCoin();
+      this.particleManager?.createCoinSparkles(coin3.x, coin3.y);
+      this.audioService?.playSFX('coin');
+      coin3.destroy();
+    };
+    this.items.push(coin3);
+
+    // Add item animations (coin spin and potion glow)
+    this.items.forEach((item) => this.animateItem(item));
+
+    // Set up collisions
+    this.physicsManager.setCollision(this.player, ground);
+    this.physicsManager.setOverlap(
+      this.player,
+      healthPotion,
+      (playerObj, itemObj) => {
+        const item = itemObj as Item;
+        const player = playerObj as Player;
+        item.onCollide(player);
+      },
+    );
+    this.physicsManager.setOverlap(this.player, coin, (playerObj, itemObj) => {
+      const item = itemObj as Item;
+      const player = playerObj as Player;
+      item.onCollide(player);
+    });
+    this.physicsManager.setCollision(
+      this.player,
+      slime,
+      (playerObj, _enemyObj) => {
+        // Player takes damage when colliding with enemy
+        const player = playerObj as Player;
+
+        if (player.takeDamage(1)) {
+          // Screen shake
+          this.cameras.main.shake(200, 0.01);
+          // Damage particles
+          this.particleManager?.createDamageEffect(player.x, player.y, 1);
+          // Play sound
+          this.audioService?.playSFX('player_hit');
+        }
+      },
+    );
+    this.physicsManager.setCollision(
+      this.player,
+      flyingEnemy,
+      (playerObj, _enemyObj) => {
+        // Player takes damage when colliding with enemy
+        const player = playerObj as Player;
+
+        if (player.takeDamage(1)) {
+          // Screen shake
+          this.cameras.main.shake(200, 0.01);
+          // Damage particles
+          this.particleManager?.createDamageEffect(player.x, player.y, 1);
+          // Play sound
+          this.audioService?.playSFX('player_hit');
+        }
+      },
+    );
+  }
+
+  /**
+   * Spin and float coins, and make potions glow.
+   */
+  private animateItem(item: Item): void {
+    if (item.texture.key === 'coin') {
+      // Coin spin animation
+      this.tweens.add({
+        targets: item,
+        scaleX: 0,
+        duration: 300,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+      // Floating animation
+      this.tweens.add({
+        targets: item,
+        y: item.y - 5,
+        duration: 800,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+    } else if (item.texture.key === 'health_potion') {
+      // Potion glow animation
+      this.tweens.add({
+        targets: item,
+        alpha: 0.7,
+        duration: 500,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+      // Gentle float
+      this.tweens.add({
+        targets: item,
+        y: item.y - 3,
+        duration: 1000,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+    }
+  }
+
   private checkGameConditions(): void {
     if (!this.player || !this.levelManager) return;
 
@@ -884,10 +1155,13 @@ export class GameScene extends Scene {
     this.lastHealth = this.player.health;
 
     // Check if player fell off the world
-    if (this.player.y > 800) {
+    if (this.player.y > this.getLevelBounds(this.currentLevel).height + 200) {
       this.handleGameOver(false);
     }
 
+    // Check checkpoints and the level exit
+    this.checkLevelObjects();
+
     // Check time limit
     if (!this.levelManager.checkTimeLimit()) {
       this.handleGameOver(false);
@@ -898,8 +1172,18 @@ export class GameScene extends Scene {
     if (this.isPaused) return;
     this.isPaused = true;
 
-    // Unlock next level
-    this.unlockLevel(this.currentLevel + 1);
+    // Playtests and community levels don't unlock or record anything
+    if (this.isCustomLevel()) {
+      logger.info(`${this.levelManager?.getCurrentLevel()?.key} completed`);
+      this.leaveCustomLevel();
+      return;
+    }
+
+    // Unlock every level whose requirements are now met
+    const completedLevels = this.recordCompletedLevel(this.currentLevel);
+    this.levelRegistry
+      .getUnlockedLevels(completedLevels)
+      .forEach((level) => this.unlockLevel(level));
 
     // Save progress
     if (this.saveManager) {
@@ -917,6 +1201,13 @@ export class GameScene extends Scene {
     this.gameLoop?.stop();
 
     const state = this.levelManager?.getState();
+    this.submitLevelResult(
+      this.levelManager?.getTimeElapsed() ?? 0,
+      state?.score ?? 0,
+      state?.coins ?? 0,
+      state?.enemiesDefeated ?? 0,
+    );
+    const nextLevel = this.levelRegistry.getNextLevel(this.currentLevel);
     const gameOverData: GameOverSceneData = {
       score: state?.score ?? 0,
       level: this.currentLevel,
@@ -924,16 +1215,57 @@ export class GameScene extends Scene {
       coins: state?.coins ?? 0,
       enemiesDefeated: state?.enemiesDefeated ?? 0,
       timeElapsed: this.levelManager?.getTimeElapsed() ?? 0,
+      parTime: this.levelRegistry.getLevel(this.currentLevel)?.parTime,
+      nextLevel:
+        nextLevel && this.isLevelUnlocked(nextLevel.number)
+          ? nextLevel.number
+          : undefined,
     };
 
     this.scene.launch('GameOverScene', gameOverData);
     this.scene.pause();
   }
 
+  /**
+   * Submit a single-player completion to the level leaderboards. Failures
+   * are only logged; the local save already has the run.
+   * @param timeElapsed Seconds the run took.
+   */
+  private submitLevelResult(
+    timeElapsed: number,
+    score: number,
+    coins: number,
+    enemiesDefeated: number,
+  ): void {
+    if (!this.levelLeaderboardService || this.isMultiplayer) return;
+    const level = this.currentLevel;
+    this.levelLeaderboardService
+      .submitResult(level, {
+        timeMs: Math.max(1, Math.round(timeElapsed * 1000)),
+        score,
+        metadata: { coins, enemiesDefeated, timeAttack: this.isTimeAttackMode },
+      })
+      .then((outcome) => {
+        if (outcome.newBestTime || outcome.newHighScore) {
+          logger.info(
+            `New level ${level} record: time rank ${outcome.standing.timeRank}, score rank ${outcome.standing.scoreRank}`,
+          );
+        }
+      })
+      .catch((error) => {
+        logger.warn(`Failed to submit level ${level} result:`, error);
+      });
+  }
+
   private handleGameOver(won: boolean): void {
     if (this.isPaused) return;
     this.isPaused = true;
 
+    if (this.isCustomLevel()) {
+      this.leaveCustomLevel();
+      return;
+    }
+
     // Save progress before game over
     if (!won && this.saveManager) {
       const saveData = this.createSaveData();
@@ -961,6 +1293,13 @@ export class GameScene extends Scene {
     if (this.isPaused) return;
     this.isPaused = true;
 
+    // The pause menu's restart and save only know built-in levels, so
+    // pausing a playtest or community level leaves it instead
+    if (this.isCustomLevel()) {
+      this.leaveCustomLevel();
+      return;
+    }
+
     this.physicsManager?.pause();
     this.gameLoop?.stop();
 
@@ -1033,6 +1372,15 @@ export class GameScene extends Scene {
         attackDamage: number;
       }) => {
         this.handlePlayerAttack(data.player, data.attackDamage);
+
+        // In multiplayer the server validates hits on other players
+        if (this.isMultiplayer && this.networkService?.isConnected()) {
+          this.networkService.sendAttack({
+            kind: 'melee',
+            facing: data.player.facing < 0 ? -1 : 1,
+            timestamp: Date.now(),
+          });
+        }
       },
     );
 
@@ -1156,21 +1504,26 @@ export class GameScene extends Scene {
     width: number;
     height: number;
   } {
-    // Define level dimensions based on level number
-    switch (levelNumber) {
-    case 1:
-      return { width: 2000, height: 600 };
-    case 2:
-      return { width: 1280, height: 2560 };
-    case 3:
-      return { width: 3000, height: 800 };
-    default:
-      return { width: 2000, height: 600 };
+    const bounds = this.levelRegistry.getLevel(levelNumber)?.bounds;
+    if (bounds && !this.levelManager?.isCustomLevel()) {
+      return bounds;
+    }
+
+    // Otherwise the size of the level's map
+    const level = this.levelManager?.getCurrentLevel();
+    const map = level && this.cache.tilemap.get(level.key)?.data;
+    if (map?.tilewidth && map?.tileheight) {
+      return {
+        width: map.width * map.tilewidth,
+        height: map.height * map.tileheight,
+      };
     }
+    return { width: 2000, height: 600 };
   }
 
   private setupNetwork(): void {
     this.networkService = new NetworkService();
+    this.predictionService = new PredictionService();
 
     this.networkService.on('connected', (data: { playerId: string }) => {
       logger.info('Connected to server with ID:', data.playerId);
@@ -1216,9 +1569,31 @@ export class GameScene extends Scene {
       this.showPlayerName(data.playerId, 'disconnected');
     });
 
+    // Dropped players keep their slot for a while and may come back
+    this.networkService.on(
+      'player_disconnected',
+      (data: { playerId: string }) => {
+        this.showPlayerName(data.playerId, 'disconnected');
+      },
+    );
+
+    this.networkService.on(
+      'player_reconnected',
+      (data: { playerId: string }) => {
+        if (data.playerId !== this.networkService?.getPlayerId()) {
+          this.showPlayerName(data.playerId, 'connected');
+        }
+      },
+    );
+
     this.networkService.on(
       'game_state_update',
-      (state: { entities: any; full: boolean }) => {
+      (state: {
+        entities: any;
+        full: boolean;
+        events?: any[];
+        lastProcessedInputs?: Record<string, number>;
+      }) => {
         this.handleGameStateUpdate(state);
       },
     );
@@ -1258,8 +1633,19 @@ export class GameScene extends Scene {
         data.attemptNumber,
         'attempts',
       );
-      // Sync game state after reconnection
-      this.syncGameStateAfterReconnect();
+    });
+
+    // Our own connection came back and the server has put us back in the match
+    this.networkService.on(
+      'session_resumed',
+      (data: { playerId: string; roomId: string | null }) => {
+        this.syncGameStateAfterReconnect(data);
+      },
+    );
+
+    this.networkService.on('session_resume_failed', () => {
+      logger.warn('Could not resume the match after reconnecting');
+      this.returnToMainMenu();
     });
 
     this.networkService.on('reconnect_failed', () => {
@@ -1313,10 +1699,18 @@ export class GameScene extends Scene {
     }
   }
 
-  private handleGameStateUpdate(state: { entities: any; full: boolean }): void {
+  private handleGameStateUpdate(state: {
+    entities: any;
+    full: boolean;
+    events?: any[];
+    lastProcessedInputs?: Record<string, number>;
+  }): void {
     const now = Date.now();
     const entities = state.entities;
 
+    this.reconcileLocalPlayer(state);
+    this.handleInterestEvents(state.events ?? [], entities);
+
     for (const [entityId, entity] of Object.entries(entities) as [
       string,
       any,
@@ -1346,6 +1740,25 @@ export class GameScene extends Scene {
     }
   }
 
+  /**
+   * The server only sends entities near us; show remote players as they come
+   * into range and hide them when they leave it.
+   */
+  private handleInterestEvents(events: any[], entities: any): void {
+    const myPlayerId = this.networkService?.getPlayerId();
+    for (const event of events) {
+      if (event?.entityId === myPlayerId) continue;
+      if (event?.type === 'entity_left') {
+        this.removeRemotePlayer(event.entityId);
+      } else if (event?.type === 'entity_entered') {
+        const entity = entities[event.entityId];
+        if (entity?.type === 'player' && entity.position) {
+          this.createRemotePlayer(event.entityId, entity.position);
+        }
+      }
+    }
+  }
+
   private handleRemotePlayerInput(playerId: string, input: any): void {
     const remotePlayer = this.remotePlayers.get(playerId);
     if (remotePlayer) {
@@ -1362,22 +1775,29 @@ export class GameScene extends Scene {
     for (const [, playerData] of this.remotePlayers.entries()) {
       const { sprite, nameText, targetPosition, lastUpdateTime } = playerData;
 
-      if (targetPosition) {
-        const dx = targetPosition.x - sprite.x;
-        const dy = targetPosition.y - sprite.y;
-
-        sprite.x += dx * lerpFactor;
-        sprite.y += dy * lerpFactor;
+      // Binary snapshots are interpolated by server tick; servers that only
+      // send JSON fall back to easing towards the latest position
+      const interpolated = this.networkService?.getInterpolatedEntity(
+        playerData.id,
+        now,
+      );
+      if (interpolated) {
+        sprite.x = interpolated.x;
+        sprite.y = interpolated.y;
+        playerData.currentVelocity = { x: interpolated.vx, y: interpolated.vy };
+      } else {
+        sprite.x += (targetPosition.x - sprite.x) * lerpFactor;
+        sprite.y += (targetPosition.y - sprite.y) * lerpFactor;
+      }
 
-        nameText.x = sprite.x;
-        nameText.y = sprite.y - 25;
+      nameText.x = sprite.x;
+      nameText.y = sprite.y - 25;
 
-        if (Math.abs(playerData.currentVelocity?.x || 0) > 10) {
-          sprite.anims.play('walk', true);
-          sprite.flipX = playerData.currentVelocity.x < 0;
-        } else {
-          sprite.anims.play('idle', true);
-        }
+      if (Math.abs(playerData.currentVelocity?.x || 0) > 10) {
+        sprite.anims.play('walk', true);
+        sprite.flipX = playerData.currentVelocity.x < 0;
+      } else {
+        sprite.anims.play('idle', true);
       }
 
       const timeSinceUpdate = now - lastUpdateTime;
@@ -1389,7 +1809,7 @@ export class GameScene extends Scene {
     }
   }
 
-  private sendPlayerInput(input: any): void {
+  private sendPlayerInput(input: any, delta: number): void {
     if (!this.networkService?.isConnected() || !this.isMultiplayer) return;
 
     this.inputSequence++;
@@ -1398,6 +1818,83 @@ export class GameScene extends Scene {
       input,
       timestamp: Date.now(),
     });
+
+    // Remember what we predicted so the server's answer can be checked
+    this.predictionService?.recordInput(
+      this.inputSequence,
+      { ...input, delta },
+      { x: this.player.x, y: this.player.y },
+    );
+  }
+
+  /**
+   * Reconcile the local player with the authoritative server state.
+   * Snaps to the server position when our prediction diverged, then
+   * replays the inputs the server has not processed yet.
+   */
+  private reconcileLocalPlayer(state: {
+    entities: any;
+    lastProcessedInputs?: Record<string, number>;
+  }): void {
+    const myPlayerId = this.networkService?.getPlayerId();
+    if (!this.predictionService || !myPlayerId || !this.player) return;
+
+    const lastProcessedInput = state.lastProcessedInputs?.[myPlayerId];
+    if (lastProcessedInput === undefined) return;
+
+    const serverEntity = state.entities[myPlayerId];
+    if (!serverEntity?.position) {
+      // Entity unchanged in this delta; just drop acknowledged inputs
+      this.predictionService.acknowledge(lastProcessedInput);
+      return;
+    }
+
+    this.predictionService.reconcile(
+      { ...serverEntity, lastProcessedInput },
+      myPlayerId,
+      (corrected) => this.applyServerCorrection(corrected),
+      (entry) => this.replayInput(entry),
+    );
+  }
+
+  /**
+   * Move the local player to the server's authoritative position.
+   */
+  private applyServerCorrection(serverState: {
+    position: { x: number; y: number };
+    velocity?: { x: number; y: number };
+    isOnGround?: boolean;
+  }): void {
+    const { x, y } = serverState.position;
+    const body = this.player.body as Phaser.Physics.Arcade.Body | null;
+    if (body) {
+      body.reset(x, y);
+    } else {
+      this.player.setPosition(x, y);
+    }
+
+    if (serverState.velocity) {
+      this.player.velocity.set(serverState.velocity.x, serverState.velocity.y);
+    }
+    if (serverState.isOnGround !== undefined) {
+      this.player.isOnGround = serverState.isOnGround;
+    }
+  }
+
+  /**
+   * Re-apply an unacknowledged input's horizontal movement. Vertical motion
+   * is left to arcade physics starting from the corrected velocity.
+   */
+  private replayInput(entry: InputEntry): void {
+    const moveX = entry.input.moveX ?? 0;
+    const deltaSeconds = (entry.input.delta ?? INPUT_STEP_MS) / 1000;
+    const dx = moveX * this.player.moveSpeed * deltaSeconds;
+    const body = this.player.body as Phaser.Physics.Arcade.Body | null;
+    if (body) {
+      body.reset(this.player.x + dx, this.player.y);
+    } else {
+      this.player.x += dx;
+    }
   }
 
   private showPlayerName(playerId: string, action: string): void {
@@ -1559,7 +2056,7 @@ export class GameScene extends Scene {
    * Auto-save the game (uses separate slot).
    */
   private autoSaveGame(): void {
-    if (this.saveManager && this.levelManager) {
+    if (this.saveManager && this.levelManager && !this.isCustomLevel()) {
       const saveData = this.createSaveData();
       this.saveManager.saveAutoGame(saveData);
       logger.info('Auto-saved game');
@@ -1604,7 +2101,7 @@ export class GameScene extends Scene {
     }
 
     if (!saveData) {
-      logger.error('Failed to load game: no save data found');
+      logger.error('Failed to load game: no usable save data found');
       return false;
     }
 
@@ -1699,17 +2196,52 @@ export class GameScene extends Scene {
     const data = localStorage.getItem(key);
 
     if (!data) {
-      return [1]; // Default: only level 1 is unlocked
+      // Default: only levels without requirements are unlocked
+      return this.levelRegistry.getUnlockedLevels([]);
     }
 
     try {
       return JSON.parse(data);
     } catch (error) {
       logger.error('Failed to parse unlocked levels:', error);
-      return [1];
+      return this.levelRegistry.getUnlockedLevels([]);
     }
   }
 
+  /**
+   * Get completed levels from LocalStorage.
+   * @returns Array of completed level numbers.
+   */
+  private getCompletedLevels(): number[] {
+    const key = SaveManager['STORAGE_PREFIX'] + 'completed_levels';
+    const data = localStorage.getItem(key);
+    if (!data) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      logger.error('Failed to parse completed levels:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a completed level in LocalStorage.
+   * @param levelNumber The level number completed.
+   * @returns Every level completed so far.
+   */
+  private recordCompletedLevel(levelNumber: number): number[] {
+    const completedLevels = this.getCompletedLevels();
+    if (!completedLevels.includes(levelNumber)) {
+      completedLevels.push(levelNumber);
+      const key = SaveManager['STORAGE_PREFIX'] + 'completed_levels';
+      localStorage.setItem(key, JSON.stringify(completedLevels));
+    }
+    return completedLevels;
+  }
+
   /**
    * Check if a specific level is unlocked.
    * @param levelNumber The level number to check.
@@ -1771,7 +2303,7 @@ export class GameScene extends Scene {
    * @param checkpointNumber Checkpoint number.
    */
   public saveCheckpoint(checkpointNumber: number): void {
-    if (this.saveManager) {
+    if (this.saveManager && !this.isCustomLevel()) {
       const checkpointData = this.createCheckpointData(checkpointNumber);
       this.saveManager.saveAutoGame(checkpointData);
       logger.info(`Saved checkpoint ${checkpointNumber}`);
@@ -1899,19 +2431,21 @@ export class GameScene extends Scene {
 
   /**
    * Sync game state after reconnection.
-   * Called when the client successfully reconnects to the server.
+   * Called once the server has resumed our session; it follows up with a
+   * full snapshot, which replaces whatever we were showing.
    */
-  private syncGameStateAfterReconnect(): void {
-    logger.info('Syncing game state after reconnection');
-
-    // Re-send player state to server
-    if (this.player && this.networkService?.isConnected()) {
-      const syncData = this.player.getSyncData();
-      this.networkService['socket']?.emit('player_sync', syncData);
+  private syncGameStateAfterReconnect(data: {
+    playerId: string;
+    roomId: string | null;
+  }): void {
+    if (!data.roomId) {
+      logger.warn('Match ended while disconnected');
+      this.returnToMainMenu();
+      return;
     }
 
-    // Request full game state from server
-    this.networkService?.['socket']?.emit('request_full_state');
+    logger.info('Resumed match in room', data.roomId);
+    this.roomId = data.roomId;
 
     // Show reconnection success message
     if (this.errorHandler) {
@@ -1981,6 +2515,8 @@ export class GameScene extends Scene {
     if (this.networkService) {
       this.networkService.removeAllListeners();
     }
+    this.predictionService?.clear();
+    this.inputAccumulator = 0;
 
     // Clean up remote players
     this.remotePlayers.forEach((playerData) => {
@@ -1999,6 +2535,18 @@ export class GameScene extends Scene {
     this.platforms.forEach((platform) => platform.destroy());
     this.platforms = [];
 
+    this.hazards.forEach((hazard) => hazard.destroy());
+    this.hazards = [];
+
+    this.checkpoints.forEach((checkpoint) => checkpoint.destroy());
+    this.checkpoints = [];
+
+    this.powerUps.forEach((powerUp) => powerUp.destroy());
+    this.powerUps = [];
+    this.powerUpManager?.clear();
+    this.levelExit = undefined;
+    this.groundLayer = undefined;
+
     this.projectiles.forEach((proj) => proj.destroy());
     this.projectiles = [];
 
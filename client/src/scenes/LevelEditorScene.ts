@@ -0,0 +1,446 @@
+import { Scene } from 'phaser';
+import { InputManager, InputConfig } from '../core/InputManager';
+import { LevelRegistry } from '../core/LevelRegistry';
+import {
+  LevelDraft,
+  addObject,
+  createLevelDraft,
+  formatManifestEntry,
+  getTile,
+  removeObjectAt,
+  setTile,
+  toTiledMap,
+} from '../core/LevelDraft';
+import { EntityFactory } from '../factories/EntityFactory';
+import {
+  SpawnCatalogueEntry,
+  buildSpawnCatalogue,
+} from '../factories/LevelSpawner';
+import { logger } from '../utils/logger';
+
+/** Registry key keeping the draft between playtests. */
+export const LEVEL_DRAFT_REGISTRY_KEY = 'levelEditor:draft';
+
+/** Camera scroll speed in pixels per second. */
+const SCROLL_SPEED = 400;
+
+/** Height of the toolbar along the top of the screen. */
+const TOOLBAR_HEIGHT = 96;
+
+const TARGET_SCORE_STEP = 50;
+const TIME_LIMIT_STEP = 30;
+
+/** Marker colour of each object layer. */
+const LAYER_COLOURS: Record<string, number> = {
+  platforms: 0x8e44ad,
+  enemies: 0xe74c3c,
+  items: 0xf1c40f,
+  hazards: 0xe67e22,
+  checkpoints: 0x1abc9c,
+  powerups: 0x3498db,
+  player: 0x2ecc71,
+  exit: 0xffffff,
+};
+
+export interface LevelEditorSceneData {
+  /** Draft to edit; defaults to the last one edited. */
+  draft?: LevelDraft;
+}
+
+/** Paint tiles, or place something from the spawn catalogue. */
+type EditorTool =
+  | { kind: 'tile' }
+  | { kind: 'object'; entry: SpawnCatalogueEntry };
+
+/**
+ * Level editor: paint ground tiles, place anything `LevelSpawner` can
+ * spawn, set the level's goals and theme, playtest it in `GameScene`, and
+ * export it as a Tiled map plus its level manifest entry.
+ */
+export class LevelEditorScene extends Scene {
+  private inputManager?: InputManager;
+  private draft!: LevelDraft;
+  /** The campaign, for the themes a level can use. */
+  private levels: LevelRegistry = new LevelRegistry();
+  private tools: EditorTool[] = [];
+  private toolIndex = 0;
+  /** Tile gid being painted while the pointer is held down. */
+  private paintGid?: number;
+  private mapGraphics?: Phaser.GameObjects.Graphics;
+  private objectLabels: Phaser.GameObjects.Text[] = [];
+  private toolText?: Phaser.GameObjects.Text;
+  private configText?: Phaser.GameObjects.Text;
+  private statusText?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'LevelEditorScene' });
+  }
+
+  init(data: LevelEditorSceneData) {
+    this.levels = LevelRegistry.fromCache(this);
+    this.draft =
+      data.draft ??
+      this.registry.get(LEVEL_DRAFT_REGISTRY_KEY) ??
+      createLevelDraft(`level${this.levels.getNewLevelNumber()}`);
+    this.toolIndex = 0;
+    this.paintGid = undefined;
+    this.objectLabels = [];
+  }
+
+  create() {
+    const { width } = this.cameras.main;
+    const { tileSize } = this.draft;
+
+    this.cameras.main.setBounds(
+      0,
+      -TOOLBAR_HEIGHT,
+      this.draft.width * tileSize,
+      this.draft.height * tileSize + TOOLBAR_HEIGHT,
+    );
+    this.cameras.main.scrollY = -TOOLBAR_HEIGHT;
+
+    const definitions = new EntityFactory(this).getDefinitions();
+    this.tools = [
+      { kind: 'tile' },
+      ...buildSpawnCatalogue(definitions).map(
+        (entry): EditorTool => ({ kind: 'object', entry }),
+      ),
+    ];
+
+    this.mapGraphics = this.add.graphics();
+    this.createToolbar(width);
+
+    this.input.mouse?.disableContextMenu();
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) =>
+      this.handlePointerDown(pointer),
+    );
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) =>
+      this.handlePointerMove(pointer),
+    );
+    this.input.on('pointerup', () => {
+      this.paintGid = undefined;
+    });
+
+    const inputConfig: InputConfig = {
+      actions: [
+        { id: 'left', keys: ['Left', 'A'], description: 'Scroll left' },
+        { id: 'right', keys: ['Right', 'D'], description: 'Scroll right' },
+        { id: 'up', keys: ['Up', 'W'], description: 'Scroll up' },
+        { id: 'down', keys: ['Down', 'S'], description: 'Scroll down' },
+        { id: 'prevTool', keys: ['Q'], description: 'Previous tool' },
+        { id: 'nextTool', keys: ['E'], description: 'Next tool' },
+        { id: 'playtest', keys: ['P'], description: 'Playtest level' },
+        { id: 'export', keys: ['X'], description: 'Export level' },
+        { id: 'quit', keys: ['Escape'], description: 'Back to menu' },
+      ],
+    };
+    this.inputManager = new InputManager(this, inputConfig);
+    this.inputManager.onInputEvent((event) => {
+      if (!event.active) return;
+      switch (event.action) {
+      case 'prevTool':
+        this.selectTool(this.toolIndex - 1);
+        break;
+      case 'nextTool':
+        this.selectTool(this.toolIndex + 1);
+        break;
+      case 'playtest':
+        this.playtest();
+        break;
+      case 'export':
+        this.exportLevel();
+        break;
+      case 'quit':
+        this.quit();
+        break;
+      }
+    });
+
+    this.redraw();
+    this.updateToolbar();
+  }
+
+  update(_time: number, delta: number) {
+    if (!this.inputManager) return;
+    this.inputManager.update();
+
+    const step = SCROLL_SPEED * (delta / 1000);
+    const camera = this.cameras.main;
+    if (this.inputManager.isActionActive('left')) camera.scrollX -= step;
+    if (this.inputManager.isActionActive('right')) camera.scrollX += step;
+    if (this.inputManager.isActionActive('up')) camera.scrollY -= step;
+    if (this.inputManager.isActionActive('down')) camera.scrollY += step;
+  }
+
+  private createToolbar(width: number): void {
+    this.add
+      .rectangle(0, 0, width, TOOLBAR_HEIGHT, 0x000000, 0.8)
+      .setOrigin(0)
+      .setScrollFactor(0)
+      .setDepth(10);
+
+    this.toolText = this.createLabel(16, 12, '');
+    this.configText = this.createLabel(16, 40, '');
+    this.statusText = this.createLabel(width - 16, 12, '').setOrigin(1, 0);
+
+    const buttons: Array<[string, () => void]> = [
+      ['Score -', () => this.adjustTargetScore(-TARGET_SCORE_STEP)],
+      ['Score +', () => this.adjustTargetScore(TARGET_SCORE_STEP)],
+      ['Time -', () => this.adjustTimeLimit(-TIME_LIMIT_STEP)],
+      ['Time +', () => this.adjustTimeLimit(TIME_LIMIT_STEP)],
+      ['Theme', () => this.cycleTheme()],
+      ['Require', () => this.toggleRequiredItem()],
+      ['Playtest', () => this.playtest()],
+      ['Export', () => this.exportLevel()],
+      ['Menu', () => this.quit()],
+    ];
+    buttons.forEach(([label, action], index) => {
+      const button = this.createLabel(16 + index * 100, 68, label);
+      button.setInteractive();
+      button.on('pointerdown', action);
+      button.on('pointerover', () => button.setColor('#f1c40f'));
+      button.on('pointerout', () => button.setColor('#fff'));
+    });
+  }
+
+  private createLabel(
+    x: number,
+    y: number,
+    text: string,
+  ): Phaser.GameObjects.Text {
+    return this.add
+      .text(x, y, text, {
+        fontSize: '16px',
+        color: '#fff',
+        fontFamily: 'Arial',
+      })
+      .setScrollFactor(0)
+      .setDepth(11);
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    // Clicks on the toolbar are for its buttons
+    if (pointer.y < TOOLBAR_HEIGHT) return;
+
+    const col = Math.floor(pointer.worldX / this.draft.tileSize);
+    const row = Math.floor(pointer.worldY / this.draft.tileSize);
+    const tool = this.tools[this.toolIndex]!;
+
+    if (pointer.rightButtonDown()) {
+      if (!removeObjectAt(this.draft, pointer.worldX, pointer.worldY)) {
+        setTile(this.draft, col, row, 0);
+        this.paintGid = 0;
+      }
+    } else if (tool.kind === 'tile') {
+      this.paintGid = getTile(this.draft, col, row) ? 0 : 1;
+      setTile(this.draft, col, row, this.paintGid);
+    } else {
+      this.placeObject(tool.entry, col, row);
+    }
+    this.redraw();
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (this.paintGid === undefined || !pointer.isDown) return;
+    const col = Math.floor(pointer.worldX / this.draft.tileSize);
+    const row = Math.floor(pointer.worldY / this.draft.tileSize);
+    if (getTile(this.draft, col, row) !== this.paintGid) {
+      setTile(this.draft, col, row, this.paintGid);
+      this.redraw();
+    }
+  }
+
+  private placeObject(
+    entry: SpawnCatalogueEntry,
+    col: number,
+    row: number,
+  ): void {
+    const { tileSize, width, height } = this.draft;
+    if (col < 0 || col >= width || row < 0 || row >= height) return;
+    addObject(this.draft, {
+      layer: entry.layer,
+      type: entry.type,
+      x: col * tileSize,
+      y: row * tileSize,
+      width: entry.width,
+      height: entry.height,
+      properties: {},
+    });
+  }
+
+  private selectTool(index: number): void {
+    const count = this.tools.length;
+    this.toolIndex = ((index % count) + count) % count;
+    this.updateToolbar();
+  }
+
+  private adjustTargetScore(change: number): void {
+    const score = Math.max(0, (this.draft.config.targetScore ?? 0) + change);
+    this.draft.config.targetScore = score || undefined;
+    this.updateToolbar();
+  }
+
+  private adjustTimeLimit(change: number): void {
+    const limit = Math.max(0, (this.draft.config.timeLimit ?? 0) + change);
+    this.draft.config.timeLimit = limit || undefined;
+    this.updateToolbar();
+  }
+
+  private cycleTheme(): void {
+    const themes = this.levels.getThemeIds();
+    const index = themes.indexOf(this.draft.config.theme);
+    this.draft.config.theme = themes[(index + 1) % themes.length]!;
+    this.redraw();
+    this.updateToolbar();
+  }
+
+  /**
+   * Add the selected item to the items needed to finish the level, or
+   * take it off.
+   */
+  private toggleRequiredItem(): void {
+    const tool = this.tools[this.toolIndex]!;
+    if (tool.kind !== 'object' || tool.entry.layer !== 'items') {
+      this.setStatus('Select an item to require it');
+      return;
+    }
+    const required = this.draft.config.requiredItems;
+    const index = required.indexOf(tool.entry.type);
+    if (index === -1) {
+      required.push(tool.entry.type);
+    } else {
+      required.splice(index, 1);
+    }
+    this.updateToolbar();
+  }
+
+  private playtest(): void {
+    if (!this.draft.objects.some((object) => object.layer === 'player')) {
+      this.setStatus('Place a player spawn before playtesting');
+      return;
+    }
+    this.registry.set(LEVEL_DRAFT_REGISTRY_KEY, this.draft);
+    this.scene.start('GameScene', { draft: this.draft });
+  }
+
+  /**
+   * Download the Tiled map and copy the level manifest entry to the
+   * clipboard. The entry comes after the campaign's last level and
+   * requires it.
+   */
+  private exportLevel(): void {
+    const levels = LevelRegistry.fromCache(this);
+    const lastLevel = levels.getLevels()[levels.getTotalLevels() - 1];
+    const map = JSON.stringify(toTiledMap(this.draft), null, 2);
+    const entry = formatManifestEntry(
+      this.draft,
+      levels.getNewLevelNumber(),
+      lastLevel ? [lastLevel.number] : [],
+    );
+
+    const url = URL.createObjectURL(
+      new Blob([map], { type: 'application/json' }),
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.draft.key}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    logger.info(`Level manifest entry for ${this.draft.key}:\n${entry}`);
+    navigator.clipboard
+      ?.writeText(entry)
+      .then(() =>
+        this.setStatus(
+          `Exported ${this.draft.key}.json; manifest entry copied`,
+        ),
+      )
+      .catch((error) => {
+        logger.warn('Failed to copy the level manifest entry:', error);
+        this.setStatus(
+          `Exported ${this.draft.key}.json; manifest entry in the console`,
+        );
+      });
+  }
+
+  private quit(): void {
+    this.registry.set(LEVEL_DRAFT_REGISTRY_KEY, this.draft);
+    this.scene.start('MainMenuScene');
+  }
+
+  private setStatus(message: string): void {
+    this.statusText?.setText(message);
+  }
+
+  private updateToolbar(): void {
+    const tool = this.tools[this.toolIndex]!;
+    const toolName =
+      tool.kind === 'tile'
+        ? 'Ground tile'
+        : `${tool.entry.type} (${tool.entry.layer})`;
+    this.toolText?.setText(
+      `Tool: ${toolName}   [Q/E] change   [right click] erase`,
+    );
+
+    const { targetScore, timeLimit, requiredItems, theme } = this.draft.config;
+    this.configText?.setText(
+      [
+        `Target score: ${targetScore ?? 'none'}`,
+        `Time limit: ${timeLimit ? `${timeLimit}s` : 'none'}`,
+        `Theme: ${theme}`,
+        `Required: ${requiredItems.length > 0 ? requiredItems.join(', ') : 'none'}`,
+      ].join('   '),
+    );
+  }
+
+  /**
+   * Draw the grid, painted tiles and object markers.
+   */
+  private redraw(): void {
+    const graphics = this.mapGraphics;
+    if (!graphics) return;
+    const { tileSize, width, height } = this.draft;
+
+    graphics.clear();
+    this.cameras.main.setBackgroundColor(
+      this.levels.getTheme(this.draft.config.theme)?.backgroundColor ??
+        0x1a1a2e,
+    );
+
+    graphics.fillStyle(0x95a5a6, 1);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        if (getTile(this.draft, col, row)) {
+          graphics.fillRect(col * tileSize, row * tileSize, tileSize, tileSize);
+        }
+      }
+    }
+
+    graphics.lineStyle(1, 0xffffff, 0.15);
+    for (let col = 0; col <= width; col++) {
+      graphics.lineBetween(
+        col * tileSize,
+        0,
+        col * tileSize,
+        height * tileSize,
+      );
+    }
+    for (let row = 0; row <= height; row++) {
+      graphics.lineBetween(0, row * tileSize, width * tileSize, row * tileSize);
+    }
+
+    this.objectLabels.forEach((label) => label.destroy());
+    this.objectLabels = this.draft.objects.map((object) => {
+      const colour = LAYER_COLOURS[object.layer] ?? 0xffffff;
+      graphics.fillStyle(colour, 0.5);
+      graphics.fillRect(object.x, object.y, object.width, object.height);
+      graphics.lineStyle(2, colour, 1);
+      graphics.strokeRect(object.x, object.y, object.width, object.height);
+      return this.add.text(object.x + 2, object.y + 2, object.type, {
+        fontSize: '10px',
+        color: '#fff',
+        fontFamily: 'Arial',
+      });
+    });
+  }
+}
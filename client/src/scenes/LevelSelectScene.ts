@@ -1,10 +1,43 @@
 import { Scene } from 'phaser';
 import { InputManager, InputConfig } from '../core/InputManager';
 import { SceneService } from '../core/SceneManager';
-import { LEVEL_CONFIGS } from '../core/LevelManager';
+import { LevelRegistry, formatLevelTime } from '../core/LevelRegistry';
+import {
+  LevelLeaderboardService,
+  formatRunTime,
+} from '../services/LevelLeaderboardService';
+import {
+  COMMUNITY_LEVEL_ORDERS,
+  CommunityLevelOrder,
+  CommunityLevelService,
+  CommunityLevelSummary,
+  formatRating,
+} from '../services/CommunityLevelService';
+import { ApiError } from '../services/ApiClient';
+import { logger } from '../utils/logger';
+
+/** Players shown on the selected level's leaderboard. */
+const LEADERBOARD_SIZE = 5;
+
+/** Community levels listed per page. */
+const COMMUNITY_PAGE_SIZE = 8;
+
+const ORDER_LABELS: Record<CommunityLevelOrder, string> = {
+  newest: 'Newest',
+  top_rated: 'Top rated',
+  popular: 'Most played',
+};
+
+const COMMUNITY_HINTS =
+  'Up/Down: choose  Enter: play  1-5: rate\nO: sort  F: search  Left/Right: page  Tab: campaign';
+
+export type LevelSelectTab = 'campaign' | 'community';
 
 export interface LevelSelectSceneData {
+  /** Levels the player may start; those without requirements if not given. */
   unlockedLevels?: number[];
+  /** Tab to open on; the campaign unless given. */
+  tab?: LevelSelectTab;
 }
 
 export class LevelSelectScene extends Scene {
@@ -13,14 +46,44 @@ export class LevelSelectScene extends Scene {
   private selectedLevel: number = 1;
   private levelButtons: Map<number, Phaser.GameObjects.Container> = new Map();
   private unlockedLevels: number[] = [1];
+  private levelRegistry: LevelRegistry = new LevelRegistry();
   private levelCards: Phaser.GameObjects.Container[] = [];
+  private worldText?: Phaser.GameObjects.Text;
+  private leaderboardService?: LevelLeaderboardService;
+  private leaderboardText?: Phaser.GameObjects.Text;
+  /** Rendered leaderboards by level, so switching back is instant. */
+  private leaderboardCache: Map<number, string> = new Map();
+  /** Bumped per fetch so a slow answer for another level is dropped. */
+  private leaderboardRequest: number = 0;
+  private tab: LevelSelectTab = 'campaign';
+  private tabTexts: Map<LevelSelectTab, Phaser.GameObjects.Text> = new Map();
+  private communityService?: CommunityLevelService;
+  private communityStatusText?: Phaser.GameObjects.Text;
+  private communityListText?: Phaser.GameObjects.Text;
+  private communityInfoText?: Phaser.GameObjects.Text;
+  private communityLevels: CommunityLevelSummary[] = [];
+  private communityTotal: number = 0;
+  private communitySelected: number = 0;
+  private communityPage: number = 0;
+  private communityOrder: CommunityLevelOrder = 'newest';
+  private communityQuery: string = '';
+  /** Bumped per fetch so a slow answer for an old search is dropped. */
+  private communityRequest: number = 0;
 
   constructor() {
     super({ key: 'LevelSelectScene' });
   }
 
   init(data: LevelSelectSceneData) {
-    this.unlockedLevels = data.unlockedLevels || [1];
+    this.levelRegistry = LevelRegistry.fromCache(this);
+    this.unlockedLevels =
+      data.unlockedLevels ?? this.levelRegistry.getUnlockedLevels([]);
+    this.selectedLevel =
+      this.levelRegistry
+        .getLevels()
+        .find((level) => this.unlockedLevels.includes(level.number))?.number ??
+      1;
+    this.tab = data.tab ?? 'campaign';
   }
 
   create() {
@@ -41,9 +104,18 @@ export class LevelSelectScene extends Scene {
       })
       .setOrigin(0.5);
 
+    // Campaign and Community tabs
+    this.createTabs(width);
+
     // Create level cards
     this.createLevelCards(width, height);
 
+    // Leaderboard of the selected level
+    this.createLeaderboardPanel(width, height);
+
+    // Levels other players made
+    this.createCommunityPanel(width, height);
+
     // Back button
     const backButton = this.add
       .text(width / 2, height - 60, 'Back to Menu', {
@@ -95,10 +167,35 @@ export class LevelSelectScene extends Scene {
           id: 'down',
           keys: ['Down', 'S'],
         },
+        {
+          id: 'tab',
+          keys: ['Tab'],
+        },
+        {
+          id: 'sort',
+          keys: ['O'],
+        },
+        {
+          id: 'search',
+          keys: ['F'],
+        },
+        ...['One', 'Two', 'Three', 'Four', 'Five'].map((key, index) => ({
+          id: `rate${index + 1}`,
+          keys: [key],
+        })),
       ],
     };
     this.inputManager = new InputManager(this, inputConfig);
     this.inputManager.onInputEvent((event) => {
+      if (!event.active) return;
+      if (event.action === 'tab') {
+        this.showTab(this.tab === 'campaign' ? 'community' : 'campaign');
+        return;
+      }
+      if (this.tab === 'community') {
+        this.handleCommunityInput(event.action);
+        return;
+      }
       if (event.action === 'select' && event.active) {
         this.startLevel(this.selectedLevel);
       }
@@ -114,105 +211,215 @@ export class LevelSelectScene extends Scene {
     });
 
     this.updateSelection();
+    this.showTab(this.tab);
+    this.showLeaderboard(this.selectedLevel);
   }
 
+  private createTabs(width: number): void {
+    const tabs: Array<[LevelSelectTab, string]> = [
+      ['campaign', 'CAMPAIGN'],
+      ['community', 'COMMUNITY'],
+    ];
+    tabs.forEach(([tab, label], index) => {
+      const text = this.add
+        .text(width / 2 + (index === 0 ? -90 : 90), 20, label, {
+          fontSize: '18px',
+          color: '#fff',
+          fontFamily: 'Arial',
+          fontStyle: 'bold',
+        })
+        .setOrigin(0.5)
+        .setInteractive();
+      text.on('pointerdown', () => {
+        this.showTab(tab);
+      });
+      this.tabTexts.set(tab, text);
+    });
+  }
+
+  /**
+   * Switch between the campaign's level cards and the community levels,
+   * fetching the community levels afresh each time their tab opens.
+   */
+  private showTab(tab: LevelSelectTab): void {
+    this.tab = tab;
+    const campaign = tab === 'campaign';
+    this.showSelectedWorld();
+    this.leaderboardText?.setVisible(campaign);
+    this.communityStatusText?.setVisible(!campaign);
+    this.communityListText?.setVisible(!campaign);
+    this.communityInfoText?.setVisible(!campaign);
+    this.tabTexts.forEach((text, key) => {
+      text.setColor(key === tab ? '#f1c40f' : '#fff');
+    });
+    if (!campaign) {
+      this.loadCommunityLevels();
+    }
+  }
+
+  /**
+   * Create a card per level, laid out world by world. Only the selected
+   * level's world is shown at a time.
+   */
   private createLevelCards(width: number, _height: number): void {
-    const totalLevels = Object.keys(LEVEL_CONFIGS).length;
     const levelsPerRow = 3;
     const cardWidth = 120;
     const cardHeight = 160;
     const gap = 30;
     const startY = 140;
-    const startX =
-      (width -
-        (Math.min(totalLevels, levelsPerRow) * (cardWidth + gap) - gap)) /
-      2;
 
-    Object.entries(LEVEL_CONFIGS).forEach(([levelNum, config], index) => {
-      const level = parseInt(levelNum);
-      const isUnlocked = this.unlockedLevels.includes(level);
-
-      // Calculate position
-      const row = Math.floor(index / levelsPerRow);
-      const col = index % levelsPerRow;
-      const x = startX + col * (cardWidth + gap);
-      const y = startY + row * (cardHeight + gap);
-
-      // Create container for the card
-      const card = this.add.container(x, y);
-
-      // Card background
-      const bgColor = isUnlocked ? 0x2ecc71 : 0x7f8c8d;
-      const bg = this.add.rectangle(0, 0, cardWidth, cardHeight, bgColor, 0.8);
-      card.add(bg);
-
-      // Level number
-      const levelText = this.add
-        .text(-50, -70, `Level ${level}`, {
-          fontSize: '20px',
-          color: '#fff',
-          fontFamily: 'Arial',
-          fontStyle: 'bold',
-        })
-        .setOrigin(0.5);
-      card.add(levelText);
-
-      // Level theme name
-      const themeText = this.add
-        .text(0, 0, config.theme?.toUpperCase() || '', {
-          fontSize: '14px',
-          color: '#fff',
-          fontFamily: 'Arial',
-        })
-        .setOrigin(0.5);
-      card.add(themeText);
-
-      // Status indicator
-      const statusText = this.add
-        .text(0, 70, isUnlocked ? 'UNLOCKED' : 'LOCKED', {
-          fontSize: '12px',
-          color: isUnlocked ? '#fff' : '#95a5a6',
-          fontFamily: 'Arial',
-          fontStyle: 'bold',
-        })
-        .setOrigin(0.5);
-      card.add(statusText);
-
-      // Lock icon for locked levels
-      if (!isUnlocked) {
-        const lock = this.add
-          .text(0, 30, '🔒', {
-            fontSize: '30px',
+    this.levelRegistry.getWorlds().forEach((world) => {
+      const startX =
+        (width -
+          (Math.min(world.levels.length, levelsPerRow) * (cardWidth + gap) -
+            gap)) /
+        2;
+
+      world.levels.forEach((level, index) => {
+        const definition = this.levelRegistry.getLevel(level)!;
+        const isUnlocked = this.unlockedLevels.includes(level);
+
+        // Calculate position
+        const row = Math.floor(index / levelsPerRow);
+        const col = index % levelsPerRow;
+        const x = startX + col * (cardWidth + gap);
+        const y = startY + row * (cardHeight + gap);
+
+        // Create container for the card
+        const card = this.add.container(x, y);
+
+        // Card background
+        const bgColor = isUnlocked ? 0x2ecc71 : 0x7f8c8d;
+        const bg = this.add.rectangle(
+          0,
+          0,
+          cardWidth,
+          cardHeight,
+          bgColor,
+          0.8,
+        );
+        card.add(bg);
+
+        // Level number
+        const levelText = this.add
+          .text(-50, -70, `Level ${level}`, {
+            fontSize: '20px',
+            color: '#fff',
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
           })
           .setOrigin(0.5);
-        card.add(lock);
-      }
+        card.add(levelText);
+
+        // Level name
+        const nameText = this.add
+          .text(0, -35, definition.name, {
+            fontSize: '12px',
+            color: '#fff',
+            fontFamily: 'Arial',
+            align: 'center',
+            wordWrap: { width: cardWidth - 10 },
+          })
+          .setOrigin(0.5);
+        card.add(nameText);
+
+        // Level theme name
+        const theme = this.levelRegistry.getTheme(definition.theme);
+        const themeText = this.add
+          .text(0, 0, theme?.name.toUpperCase() ?? '', {
+            fontSize: '14px',
+            color: '#fff',
+            fontFamily: 'Arial',
+          })
+          .setOrigin(0.5);
+        card.add(themeText);
+
+        // Par time
+        if (definition.parTime) {
+          const parText = this.add
+            .text(0, 52, `PAR ${formatLevelTime(definition.parTime)}`, {
+              fontSize: '12px',
+              color: '#fff',
+              fontFamily: 'Arial',
+            })
+            .setOrigin(0.5);
+          card.add(parText);
+        }
+
+        // Status indicator
+        const statusText = this.add
+          .text(0, 70, isUnlocked ? 'UNLOCKED' : 'LOCKED', {
+            fontSize: '12px',
+            color: isUnlocked ? '#fff' : '#95a5a6',
+            fontFamily: 'Arial',
+            fontStyle: 'bold',
+          })
+          .setOrigin(0.5);
+        card.add(statusText);
+
+        // Lock icon for locked levels
+        if (!isUnlocked) {
+          const lock = this.add
+            .text(0, 30, '🔒', {
+              fontSize: '30px',
+            })
+            .setOrigin(0.5);
+          card.add(lock);
+        }
+
+        // Make card interactive
+        if (isUnlocked) {
+          card.setSize(cardWidth, cardHeight);
+          card.setInteractive({ useHandCursor: true });
+
+          card.on('pointerdown', () => {
+            this.selectLevel(level);
+          });
+
+          card.on('pointerover', () => {
+            if (this.unlockedLevels.includes(level)) {
+              bg.setFillStyle(0xf1c40f);
+              levelText.setColor('#000');
+            }
+          });
+
+          card.on('pointerout', () => {
+            bg.setFillStyle(isUnlocked ? 0x2ecc71 : 0x7f8c8d);
+            levelText.setColor('#fff');
+          });
+        }
+
+        this.levelButtons.set(level, card);
+        this.levelCards.push(card);
+      });
+    });
 
-      // Make card interactive
-      if (isUnlocked) {
-        card.setSize(cardWidth, cardHeight);
-        card.setInteractive({ useHandCursor: true });
-
-        card.on('pointerdown', () => {
-          this.selectLevel(level);
-        });
-
-        card.on('pointerover', () => {
-          if (this.unlockedLevels.includes(level)) {
-            bg.setFillStyle(0xf1c40f);
-            levelText.setColor('#000');
-          }
-        });
-
-        card.on('pointerout', () => {
-          bg.setFillStyle(isUnlocked ? 0x2ecc71 : 0x7f8c8d);
-          levelText.setColor('#fff');
-        });
-      }
+    // Name of the world shown
+    this.worldText = this.add
+      .text(width / 2, startY + cardHeight / 2 + 25, '', {
+        fontSize: '18px',
+        color: '#f1c40f',
+        fontFamily: 'Arial',
+        fontStyle: 'bold',
+      })
+      .setOrigin(0.5);
+  }
 
-      this.levelButtons.set(level, card);
-      this.levelCards.push(card);
+  /**
+   * Show the cards of the selected level's world, or none outside the
+   * campaign tab.
+   */
+  private showSelectedWorld(): void {
+    const campaign = this.tab === 'campaign';
+    const world = this.levelRegistry.getLevel(this.selectedLevel)?.world;
+    this.levelButtons.forEach((card, level) => {
+      card.setVisible(
+        campaign && this.levelRegistry.getLevel(level)?.world === world,
+      );
     });
+    const name = world ? this.levelRegistry.getWorld(world)?.name : undefined;
+    this.worldText?.setText(name?.toUpperCase() ?? '');
+    this.worldText?.setVisible(campaign);
   }
 
   private selectLevel(level: number): void {
@@ -220,6 +427,8 @@ export class LevelSelectScene extends Scene {
 
     this.selectedLevel = level;
     this.updateSelection();
+    this.showSelectedWorld();
+    this.showLeaderboard(level);
 
     // Add selection feedback
     this.playSelectSound();
@@ -240,17 +449,306 @@ export class LevelSelectScene extends Scene {
     });
   }
 
+  private createLeaderboardPanel(width: number, height: number): void {
+    this.leaderboardText = this.add
+      .text(width / 2, height - 230, '', {
+        fontSize: '16px',
+        color: '#fff',
+        fontFamily: 'monospace',
+        align: 'left',
+      })
+      .setOrigin(0.5, 0);
+
+    // Leaderboards need a server; the scene works without one
+    try {
+      this.leaderboardService = new LevelLeaderboardService();
+    } catch (error) {
+      logger.warn('Level leaderboards unavailable:', error);
+    }
+  }
+
+  /**
+   * Show the fastest times on a level and the player's own best.
+   */
+  private async showLeaderboard(level: number): Promise<void> {
+    if (!this.leaderboardText) return;
+    if (!this.leaderboardService) {
+      this.leaderboardText.setText('Leaderboard unavailable');
+      return;
+    }
+
+    const cached = this.leaderboardCache.get(level);
+    if (cached) {
+      this.leaderboardText.setText(cached);
+      return;
+    }
+
+    const request = ++this.leaderboardRequest;
+    this.leaderboardText.setText('Loading leaderboard...');
+    let text: string;
+    try {
+      const [entries, standing] = await Promise.all([
+        this.leaderboardService.getLeaderboard(level, 'time', LEADERBOARD_SIZE),
+        this.leaderboardService.getMyStanding(level),
+      ]);
+      const lines = [`LEVEL ${level} BEST TIMES`];
+      if (entries.length === 0) {
+        lines.push('No times yet');
+      }
+      for (const entry of entries) {
+        lines.push(
+          `${String(entry.rank).padStart(2)}. ${entry.username.padEnd(16).slice(0, 16)} ${formatRunTime(entry.timeMs)}`,
+        );
+      }
+      if (standing) {
+        lines.push(
+          `You: #${standing.timeRank} ${formatRunTime(standing.bestTimeMs)}  High score: ${standing.highScore}`,
+        );
+      }
+      text = lines.join('\n');
+      this.leaderboardCache.set(level, text);
+    } catch (error) {
+      logger.warn(`Failed to load level ${level} leaderboard:`, error);
+      text = 'Leaderboard unavailable';
+    }
+
+    if (request === this.leaderboardRequest) {
+      this.leaderboardText?.setText(text);
+    }
+  }
+
+  private createCommunityPanel(width: number, height: number): void {
+    this.communityStatusText = this.add
+      .text(width / 2, 130, '', {
+        fontSize: '18px',
+        color: '#f1c40f',
+        fontFamily: 'Arial',
+      })
+      .setOrigin(0.5);
+    this.communityListText = this.add
+      .text(width / 2, 160, '', {
+        fontSize: '16px',
+        color: '#fff',
+        fontFamily: 'monospace',
+        align: 'left',
+      })
+      .setOrigin(0.5, 0);
+    this.communityInfoText = this.add
+      .text(width / 2, height - 200, '', {
+        fontSize: '14px',
+        color: '#fff',
+        fontFamily: 'Arial',
+        align: 'center',
+        wordWrap: { width: width - 80 },
+      })
+      .setOrigin(0.5, 0);
+
+    // Community levels need a server; the campaign works without one
+    try {
+      this.communityService = new CommunityLevelService();
+    } catch (error) {
+      logger.warn('Community levels unavailable:', error);
+    }
+  }
+
+  private handleCommunityInput(action: string): void {
+    switch (action) {
+    case 'select':
+      this.playCommunityLevel();
+      break;
+    case 'back':
+      this.goBack();
+      break;
+    case 'up':
+      this.moveCommunitySelection(-1);
+      break;
+    case 'down':
+      this.moveCommunitySelection(1);
+      break;
+    case 'left':
+      this.changeCommunityPage(-1);
+      break;
+    case 'right':
+      this.changeCommunityPage(1);
+      break;
+    case 'sort':
+      this.cycleCommunityOrder();
+      break;
+    case 'search':
+      this.searchCommunityLevels();
+      break;
+    default:
+      if (action.startsWith('rate')) {
+        this.rateCommunityLevel(parseInt(action.slice('rate'.length)));
+      }
+    }
+  }
+
+  /**
+   * Fetch the current page of community levels for the current search.
+   */
+  private async loadCommunityLevels(): Promise<void> {
+    if (!this.communityService) {
+      this.communityStatusText?.setText('Community levels unavailable');
+      this.communityListText?.setText('');
+      this.communityInfoText?.setText('');
+      return;
+    }
+
+    const request = ++this.communityRequest;
+    this.communityStatusText?.setText('Loading community levels...');
+    try {
+      const page = await this.communityService.searchLevels({
+        query: this.communityQuery || undefined,
+        order: this.communityOrder,
+        limit: COMMUNITY_PAGE_SIZE,
+        offset: this.communityPage * COMMUNITY_PAGE_SIZE,
+      });
+      if (request !== this.communityRequest) return;
+      this.communityLevels = page.levels;
+      this.communityTotal = page.total;
+      this.communitySelected = 0;
+      this.renderCommunityLevels();
+    } catch (error) {
+      if (request !== this.communityRequest) return;
+      logger.warn('Failed to load community levels:', error);
+      this.communityStatusText?.setText('Community levels unavailable');
+    }
+  }
+
+  private renderCommunityLevels(message?: string): void {
+    const pages = Math.max(
+      1,
+      Math.ceil(this.communityTotal / COMMUNITY_PAGE_SIZE),
+    );
+    const search = this.communityQuery
+      ? `  Search: "${this.communityQuery}"`
+      : '';
+    this.communityStatusText?.setText(
+      `${ORDER_LABELS[this.communityOrder]}${search}  Page ${this.communityPage + 1}/${pages}`,
+    );
+
+    const lines = this.communityLevels.map((level, index) => {
+      const cursor = index === this.communitySelected ? '>' : ' ';
+      return `${cursor} ${level.title.padEnd(24).slice(0, 24)} ${level.author.padEnd(12).slice(0, 12)} ${formatRating(level)}`;
+    });
+    this.communityListText?.setText(
+      lines.length > 0 ? lines.join('\n') : 'No levels found',
+    );
+
+    const selected = this.communityLevels[this.communitySelected];
+    const info = [
+      message ??
+        (selected
+          ? `${selected.description || selected.title}  (${selected.width}x${selected.height}, played ${selected.downloads} times)`
+          : ''),
+      COMMUNITY_HINTS,
+    ];
+    this.communityInfoText?.setText(info.join('\n\n'));
+  }
+
+  private moveCommunitySelection(direction: number): void {
+    if (this.communityLevels.length === 0) return;
+    this.communitySelected = Math.min(
+      Math.max(this.communitySelected + direction, 0),
+      this.communityLevels.length - 1,
+    );
+    this.renderCommunityLevels();
+    this.playSelectSound();
+  }
+
+  private changeCommunityPage(direction: number): void {
+    const page = this.communityPage + direction;
+    if (page < 0 || page * COMMUNITY_PAGE_SIZE >= this.communityTotal) return;
+    this.communityPage = page;
+    this.loadCommunityLevels();
+  }
+
+  private cycleCommunityOrder(): void {
+    const index = COMMUNITY_LEVEL_ORDERS.indexOf(this.communityOrder);
+    this.communityOrder =
+      COMMUNITY_LEVEL_ORDERS[(index + 1) % COMMUNITY_LEVEL_ORDERS.length]!;
+    this.communityPage = 0;
+    this.loadCommunityLevels();
+  }
+
+  /**
+   * Ask for text to search titles for; an empty search lists every level.
+   */
+  private searchCommunityLevels(): void {
+    const query = window.prompt(
+      'Search community levels by title',
+      this.communityQuery,
+    );
+    if (query === null) return;
+    this.communityQuery = query.trim().slice(0, 48);
+    this.communityPage = 0;
+    this.loadCommunityLevels();
+  }
+
+  /**
+   * Download the selected community level and play it.
+   */
+  private async playCommunityLevel(): Promise<void> {
+    const selected = this.communityLevels[this.communitySelected];
+    if (!selected || !this.communityService) return;
+
+    this.renderCommunityLevels(`Downloading "${selected.title}"...`);
+    try {
+      const communityLevel = await this.communityService.downloadLevel(
+        selected.id,
+      );
+      this.sceneService = new SceneService(this.game);
+      this.sceneService.startScene({
+        target: 'GameScene',
+        stopCurrent: true,
+        data: { communityLevel },
+      });
+    } catch (error) {
+      logger.warn(`Failed to download community level ${selected.id}:`, error);
+      this.renderCommunityLevels(`Could not download "${selected.title}"`);
+    }
+  }
+
+  /**
+   * Rate the selected community level, replacing any earlier rating.
+   */
+  private async rateCommunityLevel(stars: number): Promise<void> {
+    const selected = this.communityLevels[this.communitySelected];
+    if (!selected || !this.communityService) return;
+
+    try {
+      const outcome = await this.communityService.rateLevel(selected.id, stars);
+      selected.rating = outcome.rating;
+      selected.ratingCount = outcome.ratingCount;
+      this.renderCommunityLevels(
+        `You rated "${selected.title}" ${outcome.yourRating} of 5`,
+      );
+    } catch (error) {
+      logger.warn(`Failed to rate community level ${selected.id}:`, error);
+      this.renderCommunityLevels(
+        error instanceof ApiError && error.status === 403
+          ? error.message
+          : `Could not rate "${selected.title}"`,
+      );
+    }
+  }
+
+  /**
+   * Move to the nearest unlocked level in play order, crossing into the
+   * next or previous world at either end of one.
+   */
   private navigateLevel(direction: number): void {
-    const totalLevels = Object.keys(LEVEL_CONFIGS).length;
-    let newLevel = this.selectedLevel + direction;
+    const levels = this.levelRegistry.getLevels().map((level) => level.number);
+    let index = levels.indexOf(this.selectedLevel) + direction;
 
     // Find the next unlocked level
-    while (newLevel > 0 && newLevel <= totalLevels) {
-      if (this.unlockedLevels.includes(newLevel)) {
-        this.selectLevel(newLevel);
+    while (index >= 0 && index < levels.length) {
+      if (this.unlockedLevels.includes(levels[index]!)) {
+        this.selectLevel(levels[index]!);
         break;
       }
-      newLevel += direction;
+      index += direction;
     }
   }
 
@@ -13,6 +13,8 @@ export class LobbyScene extends Scene {
   private statusText?: Phaser.GameObjects.Text;
   private roomId: string = '';
   private inRoom: boolean = false;
+  /** Level the room plays, as chosen by matchmaking. */
+  private level: number = 1;
   private players: string[] = [];
 
   constructor() {
@@ -198,9 +200,10 @@ export class LobbyScene extends Scene {
 
     this.networkService.on(
       'room_joined',
-      (data: { roomId: string; players?: any[] }) => {
+      (data: { roomId: string; players?: any[]; level?: number }) => {
         this.roomId = data.roomId;
         this.inRoom = true;
+        this.level = data.level ?? 1;
         this.roomCodeText?.setText(data.roomId);
         this.statusText?.setText('Joined room. Waiting for players...');
 
@@ -348,7 +351,7 @@ export class LobbyScene extends Scene {
   private startGame(): void {
     if (this.inRoom) {
       this.scene.start('GameScene', {
-        level: 1,
+        level: this.level,
         roomId: this.roomId,
       });
     }
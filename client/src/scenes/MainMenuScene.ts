@@ -1,6 +1,12 @@
 import { Scene } from 'phaser';
 import { InputManager, InputConfig } from '../core/InputManager';
 import { SceneService } from '../core/SceneManager';
+import { eventBus } from '../core/EventBus';
+import {
+  SAVE_CONFLICT_EVENT,
+  SaveConflict,
+  getGlobalSaveSync,
+} from '../services/SaveSyncService';
 import { logger } from '../utils/logger';
 
 export class MainMenuScene extends Scene {
@@ -90,6 +96,28 @@ export class MainMenuScene extends Scene {
       multiplayerButton.setColor('#e91e63');
     });
 
+    // Level Editor button
+    const editorButton = this.add
+      .text(width / 2, height / 2 + 160, 'Level Editor', {
+        fontSize: '32px',
+        color: '#9b59b6',
+        fontFamily: 'Arial',
+      })
+      .setOrigin(0.5)
+      .setInteractive();
+
+    editorButton.on('pointerdown', () => {
+      this.openLevelEditor();
+    });
+
+    editorButton.on('pointerover', () => {
+      editorButton.setColor('#ff0');
+    });
+
+    editorButton.on('pointerout', () => {
+      editorButton.setColor('#9b59b6');
+    });
+
     // Initialize SceneService
     this.sceneService = new SceneService(this.game);
 
@@ -118,6 +146,9 @@ export class MainMenuScene extends Scene {
         logger.info('Quit pressed');
       }
     });
+
+    // Let the player settle save conflicts found by cloud sync
+    this.watchSaveConflicts();
   }
 
   update() {
@@ -144,4 +175,33 @@ export class MainMenuScene extends Scene {
   private openMultiplayer(): void {
     this.scene.start('LobbyScene');
   }
+
+  private openLevelEditor(): void {
+    this.scene.start('LevelEditorScene');
+  }
+
+  /**
+   * Ask about save conflicts already found, and any found while the menu
+   * is open. Conflicts found mid-game wait for the menu.
+   */
+  private watchSaveConflicts(): void {
+    const showConflict = (conflict: SaveConflict) => {
+      if (this.scene.isActive('SaveConflictScene')) return;
+      this.scene.launch('SaveConflictScene', {
+        conflict,
+        fromScene: 'MainMenuScene',
+      });
+      this.scene.pause();
+    };
+
+    const pending = getGlobalSaveSync()?.getConflicts()[0];
+    if (pending) {
+      showConflict(pending);
+    }
+    const unsubscribe = eventBus.on<SaveConflict>(
+      SAVE_CONFLICT_EVENT,
+      showConflict,
+    );
+    this.events.once('shutdown', unsubscribe);
+  }
 }
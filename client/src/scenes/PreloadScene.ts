@@ -1,6 +1,8 @@
 import { logger } from '../utils/logger';
 import { Scene } from 'phaser';
 import { AssetManager, AssetConfig } from '../core/AssetManager';
+import { ENTITY_DEFINITIONS_KEY } from '../factories/EntityDefinitions';
+import { LEVEL_MANIFEST_KEY } from '../core/LevelRegistry';
 
 export class PreloadScene extends Scene {
   private assetManager?: AssetManager;
@@ -17,6 +19,16 @@ export class PreloadScene extends Scene {
     const assets: AssetConfig[] = [
       { key: 'logo', type: 'image', url: 'assets/sprites/logo.png' },
       { key: 'bgm', type: 'audio', url: 'assets/audio/background.mp3' },
+      {
+        key: ENTITY_DEFINITIONS_KEY,
+        type: 'json',
+        url: 'assets/data/entities.json',
+      },
+      {
+        key: LEVEL_MANIFEST_KEY,
+        type: 'json',
+        url: 'assets/data/levels.json',
+      },
       // Add more assets as needed
     ];
 
@@ -0,0 +1,213 @@
+import { Scene } from 'phaser';
+import { InputManager, InputConfig } from '../core/InputManager';
+import { SaveData } from '../core/SaveManager';
+import {
+  ConflictChoice,
+  SaveConflict,
+  getGlobalSaveSync,
+} from '../services/SaveSyncService';
+import { logger } from '../utils/logger';
+
+export interface SaveConflictSceneData {
+  conflict: SaveConflict;
+  /** Scene paused underneath, resumed once every conflict is settled. */
+  fromScene?: string;
+}
+
+/**
+ * Overlay asking the player which copy of a save slot to keep when it
+ * changed both on this device and in the cloud.
+ */
+export class SaveConflictScene extends Scene {
+  private inputManager?: InputManager;
+  private conflict?: SaveConflict;
+  private fromScene?: string;
+  private options: Array<{
+    text: Phaser.GameObjects.Text;
+    choice: ConflictChoice;
+  }> = [];
+  private selectedIndex = 0;
+  private resolving = false;
+
+  constructor() {
+    super({ key: 'SaveConflictScene' });
+  }
+
+  init(data: SaveConflictSceneData) {
+    this.conflict = data.conflict;
+    this.fromScene = data.fromScene;
+    this.options = [];
+    this.selectedIndex = 0;
+    this.resolving = false;
+  }
+
+  create() {
+    const { width, height } = this.cameras.main;
+    const conflict = this.conflict!;
+
+    this.add
+      .rectangle(0, 0, width, height, 0x000000, 0.8)
+      .setOrigin(0)
+      .setScrollFactor(0);
+
+    this.add
+      .text(width / 2, height / 2 - 170, 'SAVE CONFLICT', {
+        fontSize: '48px',
+        color: '#fff',
+        fontFamily: 'Arial',
+        fontStyle: 'bold',
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0);
+
+    const slotName =
+      conflict.slotIndex === -1
+        ? 'Auto-save'
+        : `Slot ${conflict.slotIndex + 1}`;
+    this.add
+      .text(
+        width / 2,
+        height / 2 - 110,
+        `${slotName} changed on this device and in the cloud.\nWhich one do you want to keep?`,
+        {
+          fontSize: '20px',
+          color: '#ccc',
+          fontFamily: 'Arial',
+          align: 'center',
+        },
+      )
+      .setOrigin(0.5)
+      .setScrollFactor(0);
+
+    this.createOption(
+      width / 2 - 200,
+      height / 2,
+      'This device',
+      conflict.local,
+      'local',
+    );
+    this.createOption(
+      width / 2 + 200,
+      height / 2,
+      'Cloud',
+      conflict.cloud,
+      'cloud',
+    );
+
+    const inputConfig: InputConfig = {
+      actions: [
+        { id: 'left', keys: ['Left', 'A'], description: 'Previous choice' },
+        { id: 'right', keys: ['Right', 'D'], description: 'Next choice' },
+        { id: 'select', keys: ['Enter', 'Space'], description: 'Keep save' },
+      ],
+    };
+    this.inputManager = new InputManager(this, inputConfig);
+    this.inputManager.onInputEvent((event) => {
+      if (!event.active) return;
+      if (event.action === 'left' || event.action === 'right') {
+        this.selectedIndex = this.selectedIndex === 0 ? 1 : 0;
+        this.updateSelection();
+      } else if (event.action === 'select') {
+        this.choose(this.options[this.selectedIndex].choice);
+      }
+    });
+
+    this.updateSelection();
+  }
+
+  update() {
+    if (this.inputManager) {
+      this.inputManager.update();
+    }
+  }
+
+  private createOption(
+    x: number,
+    y: number,
+    label: string,
+    save: SaveData | undefined,
+    choice: ConflictChoice,
+  ): void {
+    this.add
+      .text(x, y, SaveConflictScene.describeSave(save), {
+        fontSize: '18px',
+        color: '#fff',
+        fontFamily: 'Arial',
+        align: 'center',
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0);
+
+    const index = this.options.length;
+    const text = this.add
+      .text(x, y + 100, `Keep ${label}`, {
+        fontSize: '28px',
+        color: '#fff',
+        fontFamily: 'Arial',
+      })
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setInteractive();
+
+    text.on('pointerover', () => {
+      this.selectedIndex = index;
+      this.updateSelection();
+    });
+
+    text.on('pointerdown', () => {
+      this.choose(choice);
+    });
+
+    this.options.push({ text, choice });
+  }
+
+  private updateSelection(): void {
+    this.options.forEach((option, index) => {
+      if (index === this.selectedIndex) {
+        option.text.setColor('#f1c40f');
+        option.text.setScale(1.1);
+      } else {
+        option.text.setColor('#fff');
+        option.text.setScale(1);
+      }
+    });
+  }
+
+  private async choose(choice: ConflictChoice): Promise<void> {
+    if (this.resolving) return;
+    this.resolving = true;
+
+    const sync = getGlobalSaveSync();
+    if (sync && this.conflict) {
+      try {
+        await sync.resolveConflict(this.conflict.slotIndex, choice);
+      } catch (error) {
+        logger.error('Failed to resolve save conflict:', error);
+      }
+    }
+
+    // Settle the next conflict, if any
+    const next = sync?.getConflicts()[0];
+    if (next) {
+      this.scene.restart({ conflict: next, fromScene: this.fromScene });
+      return;
+    }
+    if (this.fromScene) {
+      this.scene.resume(this.fromScene);
+    }
+    this.scene.stop();
+  }
+
+  /**
+   * Summarise a save for the player to compare.
+   */
+  private static describeSave(save: SaveData | undefined): string {
+    if (!save) return 'Deleted';
+    return [
+      `Level ${save.player.currentLevel}`,
+      `Score ${save.player.totalScore}`,
+      `Levels unlocked: ${save.player.unlockedLevels.length}`,
+      `Saved ${new Date(save.timestamp).toLocaleString()}`,
+    ].join('\n');
+  }
+}
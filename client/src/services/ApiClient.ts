@@ -0,0 +1,256 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Tokens the server hands out on sign-in or refresh.
+ */
+export interface AuthResult {
+  accessToken: string;
+  /** Access token lifetime in seconds. */
+  expiresIn: number;
+  refreshToken: string;
+  player: { id: string; username: string; isGuest: boolean };
+  /** Only on guest sign-ins: the guest's credential for next time. */
+  deviceToken?: string;
+}
+
+/**
+ * Session kept in LocalStorage between visits.
+ */
+interface StoredSession {
+  accessToken: string;
+  /** When the access token expires, in ms since the epoch. */
+  accessTokenExpiresAt: number;
+  refreshToken: string;
+  playerId: string;
+  deviceToken?: string;
+}
+
+/**
+ * A request the server refused or that never reached it.
+ */
+export class ApiError extends Error {
+  /**
+   * @param status HTTP status, or 0 when the server could not be reached.
+   * @param details Every problem the server listed, if any.
+   * @param body The parsed response body, if any.
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public details: string[] = [],
+    public body?: any,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Options for a single request.
+ */
+export interface RequestOptions {
+  /** Send the player's access token, signing in first if needed. */
+  auth?: boolean;
+}
+
+/**
+ * JSON client for the game server's REST API.
+ * Keeps the player signed in: the access token is refreshed before it
+ * expires, and players without an account are signed in as a guest.
+ */
+export class ApiClient {
+  /** LocalStorage key of the stored session. */
+  private static readonly SESSION_KEY = 'phaser_platformer_session';
+
+  /** Refresh access tokens this long before they expire. */
+  private static readonly EXPIRY_MARGIN_MS = 30 * 1000;
+
+  private serverUrl: string;
+  private session: StoredSession | null;
+  /** Sign-in in flight, shared by requests that need a token at once. */
+  private pendingSignIn: Promise<StoredSession> | null = null;
+
+  constructor(serverUrl?: string) {
+    if (!serverUrl && !process.env.SERVER_URL) {
+      throw new Error(
+        'Server URL is required. Pass serverUrl or set SERVER_URL environment variable.',
+      );
+    }
+    this.serverUrl = (serverUrl || process.env.SERVER_URL!).replace(/\/$/, '');
+    this.session = ApiClient.loadSession();
+  }
+
+  /**
+   * Id of the signed-in player, if any.
+   */
+  public getPlayerId(): string | null {
+    return this.session?.playerId ?? null;
+  }
+
+  /**
+   * Use the tokens from a sign-in made elsewhere, e.g. a login form.
+   */
+  public useSession(result: AuthResult): void {
+    this.storeSession(result);
+  }
+
+  /**
+   * Forget the stored session.
+   */
+  public clearSession(): void {
+    this.session = null;
+    localStorage.removeItem(ApiClient.SESSION_KEY);
+  }
+
+  public get<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>('GET', path, undefined, options);
+  }
+
+  public post<T>(
+    path: string,
+    body: unknown,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    return this.request<T>('POST', path, body, options);
+  }
+
+  public put<T>(
+    path: string,
+    body: unknown,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    return this.request<T>('PUT', path, body, options);
+  }
+
+  public delete<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>('DELETE', path, undefined, options);
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    options: RequestOptions,
+    isRetry: boolean = false,
+  ): Promise<T> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+    if (options.auth) {
+      headers.Authorization = `Bearer ${await this.getAccessToken()}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.serverUrl}${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new ApiError(`Could not reach server: ${error}`, 0);
+    }
+
+    // The token may have been revoked; sign in again once
+    if (response.status === 401 && options.auth && !isRetry) {
+      if (this.session) this.session.accessTokenExpiresAt = 0;
+      return this.request<T>(method, path, body, options, true);
+    }
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new ApiError(
+        data?.error ?? `Request failed with status ${response.status}`,
+        response.status,
+        data?.details ?? [],
+        data ?? undefined,
+      );
+    }
+    return data as T;
+  }
+
+  /**
+   * A valid access token, refreshing or signing in as a guest if needed.
+   */
+  public async getAccessToken(): Promise<string> {
+    if (this.hasFreshToken()) return this.session!.accessToken;
+    // Another client may have refreshed the shared session already
+    const stored = ApiClient.loadSession();
+    if (
+      stored &&
+      stored.accessToken !== this.session?.accessToken &&
+      stored.accessTokenExpiresAt > (this.session?.accessTokenExpiresAt ?? 0)
+    ) {
+      this.session = stored;
+      if (this.hasFreshToken()) return stored.accessToken;
+    }
+    if (!this.pendingSignIn) {
+      this.pendingSignIn = this.signIn().finally(() => {
+        this.pendingSignIn = null;
+      });
+    }
+    return (await this.pendingSignIn).accessToken;
+  }
+
+  private hasFreshToken(): boolean {
+    return (
+      !!this.session &&
+      this.session.accessTokenExpiresAt - ApiClient.EXPIRY_MARGIN_MS >
+        Date.now()
+    );
+  }
+
+  private async signIn(): Promise<StoredSession> {
+    const previous = this.session;
+    if (previous) {
+      try {
+        const result = await this.post<AuthResult>('/api/auth/refresh', {
+          refreshToken: previous.refreshToken,
+        });
+        return this.storeSession({
+          ...result,
+          deviceToken: previous.deviceToken,
+        });
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status !== 401) throw error;
+        logger.warn('Session expired');
+        // Only guests can sign back in without the player's password
+        if (!previous.deviceToken) {
+          this.clearSession();
+          throw new ApiError('Session expired, please sign in again', 401);
+        }
+      }
+    }
+
+    const result = await this.post<AuthResult>('/api/auth/guest', {
+      deviceToken: previous?.deviceToken,
+    });
+    logger.info(`Signed in as guest ${result.player.username}`);
+    return this.storeSession(result);
+  }
+
+  private storeSession(result: AuthResult): StoredSession {
+    this.session = {
+      accessToken: result.accessToken,
+      accessTokenExpiresAt: Date.now() + result.expiresIn * 1000,
+      refreshToken: result.refreshToken,
+      playerId: result.player.id,
+      deviceToken: result.deviceToken,
+    };
+    try {
+      localStorage.setItem(ApiClient.SESSION_KEY, JSON.stringify(this.session));
+    } catch (error) {
+      logger.warn('Failed to store session:', error);
+    }
+    return this.session;
+  }
+
+  private static loadSession(): StoredSession | null {
+    try {
+      const stored = localStorage.getItem(ApiClient.SESSION_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      logger.warn('Ignoring unreadable stored session:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { ApiClient, ApiError } from './ApiClient';
+import { SaveData } from '../core/SaveManager';
+
+/**
+ * Where a slot stands in the cloud, without its data.
+ */
+export interface CloudSaveSummary {
+  /** `auto` for the auto-save, `0`-`4` for the manual slots. */
+  slot: string;
+  revision: number;
+  /** When the save was made, in ms since the epoch. */
+  savedAt: number;
+  deleted: boolean;
+}
+
+/**
+ * A slot stored in the cloud, with its data.
+ */
+export interface CloudSave extends CloudSaveSummary {
+  data: SaveData;
+}
+
+/**
+ * A write refused because the slot changed in the cloud since the revision
+ * it was based on.
+ */
+export class CloudSaveConflictError extends Error {
+  /**
+   * @param current The slot as the cloud has it now.
+   */
+  constructor(public current: CloudSaveSummary) {
+    super(`Save slot ${current.slot} changed in the cloud`);
+    this.name = 'CloudSaveConflictError';
+  }
+}
+
+/**
+ * Cloud name of a save slot index, -1 being the auto-save.
+ */
+export function cloudSlotName(slotIndex: number): string {
+  return slotIndex === -1 ? 'auto' : String(slotIndex);
+}
+
+/**
+ * Stores the player's save slots on the server.
+ */
+export class CloudSaveService {
+  constructor(private api: ApiClient = new ApiClient()) {}
+
+  /**
+   * Lists the slots stored in the cloud, including deleted ones.
+   */
+  public listSaves(): Promise<CloudSaveSummary[]> {
+    return this.api.get<CloudSaveSummary[]>('/api/saves', { auth: true });
+  }
+
+  /**
+   * Gets a slot from the cloud, or null if it is empty there.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   */
+  public async getSave(slotIndex: number): Promise<CloudSave | null> {
+    try {
+      return await this.api.get<CloudSave>(
+        `/api/saves/${cloudSlotName(slotIndex)}`,
+        { auth: true },
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Stores a save in the cloud.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @param data The save data.
+   * @param baseRevision The cloud revision the save replaces; 0 for none.
+   * @throws CloudSaveConflictError if the cloud has moved past `baseRevision`.
+   */
+  public putSave(
+    slotIndex: number,
+    data: SaveData,
+    baseRevision: number,
+  ): Promise<CloudSaveSummary> {
+    return this.withConflicts(
+      this.api.put<CloudSaveSummary>(
+        `/api/saves/${cloudSlotName(slotIndex)}`,
+        { data, baseRevision },
+        { auth: true },
+      ),
+    );
+  }
+
+  /**
+   * Deletes a slot in the cloud.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @param baseRevision The cloud revision being deleted.
+   * @returns The slot's new summary, or null if the cloud has no such save.
+   * @throws CloudSaveConflictError if the cloud has moved past `baseRevision`.
+   */
+  public async deleteSave(
+    slotIndex: number,
+    baseRevision: number,
+  ): Promise<CloudSaveSummary | null> {
+    try {
+      return await this.withConflicts(
+        this.api.delete<CloudSaveSummary>(
+          `/api/saves/${cloudSlotName(slotIndex)}?baseRevision=${baseRevision}`,
+          { auth: true },
+        ),
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+
+  private async withConflicts<T>(request: Promise<T>): Promise<T> {
+    try {
+      return await request;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        throw new CloudSaveConflictError(error.body.current);
+      }
+      throw error;
+    }
+  }
+}
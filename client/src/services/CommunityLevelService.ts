@@ -0,0 +1,170 @@
+import { ApiClient } from './ApiClient';
+import { LevelConfig } from '../core/LevelManager';
+
+/**
+ * How to order community levels when browsing.
+ */
+export type CommunityLevelOrder = 'newest' | 'top_rated' | 'popular';
+
+export const COMMUNITY_LEVEL_ORDERS: CommunityLevelOrder[] = [
+  'newest',
+  'top_rated',
+  'popular',
+];
+
+/**
+ * `LevelConfig` fields a community level is shared with. The key and
+ * tilemap are picked when it is played.
+ */
+export type CommunityLevelConfig = Omit<LevelConfig, 'key' | 'tilemap'>;
+
+/**
+ * A community level as listed when browsing, without its map.
+ */
+export interface CommunityLevelSummary {
+  id: string;
+  title: string;
+  description: string;
+  authorId: string;
+  author: string;
+  /** Size in tiles. */
+  width: number;
+  height: number;
+  theme?: string;
+  /** Average rating out of 5; 0 until rated. */
+  rating: number;
+  ratingCount: number;
+  downloads: number;
+  /** Upload time in ms since the epoch. */
+  createdAt: number;
+}
+
+/**
+ * A community level with everything needed to play it.
+ */
+export interface CommunityLevelDownload extends CommunityLevelSummary {
+  config: CommunityLevelConfig;
+  /** Tiled JSON map. */
+  map: Record<string, any>;
+}
+
+/**
+ * A page of levels from a search.
+ */
+export interface CommunityLevelPage {
+  levels: CommunityLevelSummary[];
+  /** Levels matching the search, on every page. */
+  total: number;
+}
+
+/**
+ * What to search for when browsing.
+ */
+export interface CommunityLevelSearch {
+  /** Text the title must contain. */
+  query?: string;
+  order?: CommunityLevelOrder;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A level to publish.
+ */
+export interface CommunityLevelUpload {
+  title: string;
+  description?: string;
+  config: CommunityLevelConfig;
+  /** Tiled JSON map with embedded tilesets. */
+  map: Record<string, any>;
+}
+
+/**
+ * A level's rating after the player rates it.
+ */
+export interface LevelRatingOutcome {
+  rating: number;
+  ratingCount: number;
+  yourRating: number;
+}
+
+/**
+ * The config to play a downloaded community level with. Its key is unique
+ * to the level, so its map never replaces a built-in one in the cache.
+ */
+export function toCommunityLevelConfig(
+  level: CommunityLevelDownload,
+): LevelConfig {
+  return {
+    ...level.config,
+    key: `community_${level.id}`,
+    tilemap: `/api/community/levels/${level.id}`,
+  };
+}
+
+/**
+ * Formats a level's average rating as stars, e.g. `★★★★☆ (12)`.
+ */
+export function formatRating(level: CommunityLevelSummary): string {
+  const stars = Math.round(level.rating);
+  return `${'★'.repeat(stars)}${'☆'.repeat(5 - stars)} (${level.ratingCount})`;
+}
+
+/**
+ * Browses, downloads, rates and publishes levels players have made.
+ */
+export class CommunityLevelService {
+  constructor(private api: ApiClient = new ApiClient()) {}
+
+  /**
+   * Gets a page of levels, newest first unless another order is given.
+   */
+  public searchLevels(
+    search: CommunityLevelSearch = {},
+  ): Promise<CommunityLevelPage> {
+    const params = new URLSearchParams();
+    if (search.query) params.set('q', search.query);
+    params.set('sort', search.order ?? 'newest');
+    if (search.limit !== undefined) params.set('limit', String(search.limit));
+    if (search.offset) params.set('offset', String(search.offset));
+    return this.api.get<CommunityLevelPage>(
+      `/api/community/levels?${params.toString()}`,
+    );
+  }
+
+  /**
+   * Downloads a level to play. Counts as a download on the server.
+   */
+  public downloadLevel(id: string): Promise<CommunityLevelDownload> {
+    return this.api.get<CommunityLevelDownload>(
+      `/api/community/levels/${encodeURIComponent(id)}`,
+    );
+  }
+
+  /**
+   * Rates a level from 1 to 5 stars, replacing the player's earlier rating.
+   * @throws ApiError with status 403 if the player made the level.
+   */
+  public rateLevel(id: string, rating: number): Promise<LevelRatingOutcome> {
+    return this.api.put<LevelRatingOutcome>(
+      `/api/community/levels/${encodeURIComponent(id)}/rating`,
+      { rating },
+      { auth: true },
+    );
+  }
+
+  /**
+   * Publishes a level.
+   * @throws ApiError with the problems found if the server refuses it,
+   * e.g. because its exit cannot be reached.
+   */
+  public uploadLevel(
+    upload: CommunityLevelUpload,
+  ): Promise<CommunityLevelSummary> {
+    return this.api.post<CommunityLevelSummary>(
+      '/api/community/levels',
+      upload,
+      { auth: true },
+    );
+  }
+}
@@ -3,6 +3,8 @@
  */
 export interface EntitySnapshot {
   timestamp: number;
+  /** Server simulation tick, when the snapshot came from a tick-stamped update. */
+  tick?: number;
   entityId: string;
   state: any;
 }
@@ -70,14 +72,50 @@ export class InterpolationService {
 
     // Apply interpolation delay
     const renderTime = clientTime - this.config.delay!;
+    return this.sample(snapshots, renderTime, (snap) => snap.timestamp);
+  }
 
+  /**
+   * Get interpolated state for an entity at a given server tick.
+   * Unlike `getInterpolatedState` this is unaffected by jitter in arrival
+   * times; the caller chooses how many ticks behind the server to render.
+   * @param entityId Entity ID.
+   * @param renderTick Tick to render, may be fractional.
+   * @returns Interpolated state or null if no tick-stamped snapshots exist.
+   */
+  public getInterpolatedStateAtTick(
+    entityId: string,
+    renderTick: number,
+  ): any | null {
+    const snapshots = (this.snapshots.get(entityId) || []).filter(
+      (snap) => snap.tick !== undefined,
+    );
+    if (snapshots.length === 0) {
+      return null;
+    }
+    if (snapshots.length === 1) {
+      return snapshots[0].state;
+    }
+    return this.sample(snapshots, renderTick, (snap) => snap.tick!);
+  }
+
+  /**
+   * Interpolate between the two snapshots that bracket `at`, clamping to
+   * the closest snapshot outside the buffered range.
+   * @param key Reads the time axis (timestamp or tick) of a snapshot.
+   */
+  private sample(
+    snapshots: EntitySnapshot[],
+    at: number,
+    key: (snap: EntitySnapshot) => number,
+  ): any {
     // Find the two snapshots that bracket the render time
     let before = snapshots[0];
     let after = snapshots[snapshots.length - 1];
     for (let i = 0; i < snapshots.length - 1; i++) {
       const cur = snapshots[i];
       const next = snapshots[i + 1];
-      if (cur.timestamp <= renderTime && next.timestamp >= renderTime) {
+      if (key(cur) <= at && key(next) >= at) {
         before = cur;
         after = next;
         break;
@@ -85,16 +123,15 @@ export class InterpolationService {
     }
 
     // If render time is outside snapshot range, use closest
-    if (renderTime <= before.timestamp) {
+    if (at <= key(before)) {
       return before.state;
     }
-    if (renderTime >= after.timestamp) {
+    if (at >= key(after)) {
       return after.state;
     }
 
     // Linear interpolation factor
-    const t =
-      (renderTime - before.timestamp) / (after.timestamp - before.timestamp);
+    const t = (at - key(before)) / (key(after) - key(before));
     return this.interpolate(before.state, after.state, t);
   }
 
@@ -0,0 +1,110 @@
+import { ApiClient, ApiError } from './ApiClient';
+
+/**
+ * What a level leaderboard ranks by: fastest time or highest score.
+ */
+export type LevelBoard = 'time' | 'score';
+
+/**
+ * A completed run of a level.
+ */
+export interface LevelRunResult {
+  timeMs: number;
+  score: number;
+  /** Details of the run, e.g. coins collected. */
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * The player's place on a level's leaderboards.
+ */
+export interface LevelStanding {
+  levelNumber: number;
+  bestTimeMs: number;
+  timeRank: number;
+  highScore: number;
+  scoreRank: number;
+  runs: number;
+}
+
+/**
+ * Server's answer to a submitted run.
+ */
+export interface LevelResultOutcome {
+  standing: LevelStanding;
+  newBestTime: boolean;
+  newHighScore: boolean;
+}
+
+/**
+ * A row of a level leaderboard.
+ */
+export interface LevelBoardEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  timeMs: number;
+  score: number;
+}
+
+/**
+ * Formats a run time as `m:ss.cc`.
+ */
+export function formatRunTime(ms: number): string {
+  const centiseconds = Math.floor(ms / 10);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = Math.floor(centiseconds / 100) % 60;
+  const hundredths = centiseconds % 100;
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${String(hundredths).padStart(2, '0')}`;
+}
+
+/**
+ * Submits level runs and reads the per-level leaderboards.
+ */
+export class LevelLeaderboardService {
+  constructor(private api: ApiClient = new ApiClient()) {}
+
+  /**
+   * Submits a completed run of a level.
+   * @throws ApiError if the server refuses the run.
+   */
+  public submitResult(
+    level: number,
+    result: LevelRunResult,
+  ): Promise<LevelResultOutcome> {
+    return this.api.post<LevelResultOutcome>(
+      `/api/levels/${level}/results`,
+      result,
+      { auth: true },
+    );
+  }
+
+  /**
+   * Gets the top of a level's leaderboard.
+   */
+  public getLeaderboard(
+    level: number,
+    board: LevelBoard = 'time',
+    limit: number = 5,
+  ): Promise<LevelBoardEntry[]> {
+    return this.api.get<LevelBoardEntry[]>(
+      `/api/levels/${level}/leaderboard?board=${board}&limit=${limit}`,
+    );
+  }
+
+  /**
+   * Gets the player's standing on a level, or null if they have not
+   * completed it.
+   */
+  public async getMyStanding(level: number): Promise<LevelStanding | null> {
+    try {
+      return await this.api.get<LevelStanding>(
+        `/api/levels/${level}/leaderboard/me`,
+        { auth: true },
+      );
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) return null;
+      throw error;
+    }
+  }
+}
@@ -1,6 +1,37 @@
 import { io, Socket } from 'socket.io-client';
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { ApiClient } from './ApiClient';
+import {
+  MissingBaselineError,
+  SNAPSHOT_CODEC_VERSION,
+  decodeSnapshot,
+  isBinarySnapshot,
+} from '@shared/protocol/snapshotCodec';
+import { InterpolationService } from './InterpolationService';
+
+/** Most binary snapshots kept around as possible delta baselines. */
+const MAX_SNAPSHOT_HISTORY = 32;
+
+/** Simulation ticks per second of the server's `GameSync`. */
+export const SERVER_TICK_RATE = 60;
+
+/**
+ * How far behind the newest snapshot remote entities are drawn: two
+ * snapshot intervals at the default 20 Hz, so one late snapshot does not
+ * stall them.
+ */
+const INTERPOLATION_DELAY_TICKS = 6;
+
+/**
+ * Interpolated position and velocity of a remote entity.
+ */
+export interface RemoteEntityState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
 
 /**
  * Network service for handling Socket.IO communication with the game server.
@@ -10,9 +41,26 @@ export class NetworkService extends EventEmitter {
   private connected = false;
   private roomId: string | null = null;
   private playerId: string | null = null;
+  /** Token from `connection_ack` that lets us take our match back after a drop. */
+  private resumeToken: string | null = null;
   private serverUrl: string;
+  /** Reconstructed entity states of recent binary snapshots, by tick. */
+  private snapshotHistory = new Map<number, Record<string, any>>();
+  /** Whether we asked for a full snapshot and are still waiting for it. */
+  private resyncPending = false;
+  /** Entity positions of recent snapshots, by tick. */
+  private interpolation = new InterpolationService();
+  /** Newest snapshot tick and the client time it arrived. */
+  private latestTick: { tick: number; receivedAt: number } | null = null;
 
-  constructor(serverUrl?: string) {
+  /**
+   * @param serverUrl Game server URL; defaults to SERVER_URL.
+   * @param api Signs the socket in as the player, or their guest profile.
+   */
+  constructor(
+    serverUrl?: string,
+    private api: ApiClient = new ApiClient(serverUrl),
+  ) {
     super();
     if (!serverUrl && !process.env.SERVER_URL) {
       throw new Error(
@@ -24,17 +72,27 @@ export class NetworkService extends EventEmitter {
 
   /**
    * Connect to the game server.
-   * @param token Optional JWT token for authenticated user.
+   * @param token Optional JWT token; defaults to the player's session.
    */
   public connect(token?: string): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.socket) {
+        // Keep what the new connection needs to resume the match
+        const { roomId, resumeToken } = this;
         this.disconnect();
+        this.roomId = roomId;
+        this.resumeToken = resumeToken;
       }
 
       const options: any = {
         transports: ['websocket', 'polling'],
-        auth: token ? { token } : {},
+        // Read on every (re)connect, so an expired token is refreshed
+        auth: token
+          ? { token }
+          : (callback: (auth: { token?: string }) => void) =>
+            this.handshakeAuth(callback),
+        // Ask for binary snapshots; servers without the codec ignore this
+        query: { snapshotCodec: String(SNAPSHOT_CODEC_VERSION) },
         pingInterval: 5000,
         pingTimeout: 2000,
         reconnectionAttempts: 5,
@@ -44,10 +102,15 @@ export class NetworkService extends EventEmitter {
 
       this.socket = io(this.serverUrl, options);
 
+      // 'connect' fires again on every automatic reconnection
+      let listenersReady = false;
       this.socket.on('connect', () => {
         logger.info('Connected to server');
         this.connected = true;
-        this.setupEventListeners();
+        if (!listenersReady) {
+          this.setupEventListeners();
+          listenersReady = true;
+        }
         resolve();
       });
 
@@ -57,8 +120,15 @@ export class NetworkService extends EventEmitter {
       });
 
       this.socket.on('connection_ack', (data) => {
+        const previousToken = this.resumeToken;
         this.playerId = data.playerId;
+        this.resumeToken = data.resumeToken ?? null;
         this.emit('connected', data);
+
+        // A new connection while in a match: ask for our slot back
+        if (previousToken && this.roomId) {
+          this.resumeSession(previousToken);
+        }
       });
 
       this.socket.on('disconnect', (reason) => {
@@ -90,6 +160,21 @@ export class NetworkService extends EventEmitter {
     });
   }
 
+  /**
+   * Handshake credentials: the player's access token, signing in as a guest
+   * profile if they have no account, so progress made online is kept.
+   * Without a token the server hands out a throwaway guest ID instead.
+   */
+  private handshakeAuth(callback: (auth: { token?: string }) => void): void {
+    this.api.getAccessToken().then(
+      (token) => callback({ token }),
+      (error) => {
+        logger.warn('Connecting without a player profile:', error);
+        callback({});
+      },
+    );
+  }
+
   /**
    * Disconnect from the server.
    */
@@ -101,9 +186,21 @@ export class NetworkService extends EventEmitter {
     this.connected = false;
     this.roomId = null;
     this.playerId = null;
+    this.resumeToken = null;
+    this.clearSnapshots();
     logger.info('Disconnected from server');
   }
 
+  /**
+   * Take back the session of a previous connection. The server restores our
+   * player and room and follows up with a full snapshot, so deltas against
+   * older snapshots no longer apply.
+   */
+  private resumeSession(resumeToken: string): void {
+    this.clearSnapshots();
+    this.socket?.emit('resume_session', { resumeToken });
+  }
+
   /**
    * Set up event listeners for server events.
    */
@@ -140,10 +237,27 @@ export class NetworkService extends EventEmitter {
     this.socket.on('player_left_room', (data) =>
       this.emit('player_left', data),
     );
+    this.socket.on('player_disconnected', (data) =>
+      this.emit('player_disconnected', data),
+    );
+    this.socket.on('player_reconnected', (data) =>
+      this.emit('player_reconnected', data),
+    );
+
+    // Session events
+    this.socket.on('session_resumed', (data) => {
+      this.playerId = data.playerId;
+      this.roomId = data.roomId;
+      this.emit('session_resumed', data);
+    });
+    this.socket.on('session_resume_failed', (data) => {
+      this.roomId = null;
+      this.emit('session_resume_failed', data);
+    });
 
     // Gameplay events
     this.socket.on('game_state_update', (data) =>
-      this.emit('game_state_update', data),
+      this.handleGameStateUpdate(data),
     );
     this.socket.on('player_input', (data) => this.emit('player_input', data));
     this.socket.on('player_jump', (data) => this.emit('player_jump', data));
@@ -167,8 +281,11 @@ export class NetworkService extends EventEmitter {
     this.socket.on('error', (data) => this.emit('error', data));
     this.socket.on('warning', (data) => this.emit('warning', data));
 
-    // Ping/pong
-    this.socket.on('pong', (data) => this.emit('pong', data));
+    // Ping/pong; acknowledging lets the server measure our round-trip time
+    this.socket.on('pong', (data, ack?: () => void) => {
+      if (typeof ack === 'function') ack();
+      this.emit('pong', data);
+    });
   }
 
   // ========== Matchmaking ==========
@@ -181,6 +298,8 @@ export class NetworkService extends EventEmitter {
     region?: string;
     maxPlayers?: number;
     skillLevel?: number;
+    /** Level to play; only players asking for the same one are matched. */
+    level?: number;
   }): void {
     this.socket?.emit('matchmaking_request', preferences);
   }
@@ -194,6 +313,155 @@ export class NetworkService extends EventEmitter {
 
   // ========== Room ==========
 
+  /**
+   * Forward a state update, decoding binary snapshots so listeners always
+   * receive the same object shape as JSON updates, then acknowledge its tick
+   * so the server can encode the next delta against it.
+   */
+  private handleGameStateUpdate(data: any): void {
+    if (!isBinarySnapshot(data)) {
+      this.emit('game_state_update', data);
+      this.acknowledgeSnapshot(data?.tick);
+      return;
+    }
+
+    let snapshot;
+    try {
+      snapshot = decodeSnapshot(data, (tick) => this.snapshotHistory.get(tick));
+    } catch (error) {
+      if (error instanceof MissingBaselineError) {
+        // Acknowledging would have the server keep building on a state we
+        // never had, so start over from a full snapshot instead
+        this.requestFullSnapshot();
+      } else {
+        logger.error('Failed to decode game state update:', error);
+      }
+      return;
+    }
+
+    if (snapshot.full) this.resyncPending = false;
+    this.recordSnapshot(snapshot);
+    this.emit('game_state_update', snapshot);
+    this.acknowledgeSnapshot(snapshot.tick);
+  }
+
+  /**
+   * Store the full entity state a snapshot describes, dropping entries the
+   * server can no longer use as a baseline.
+   */
+  private recordSnapshot(snapshot: {
+    tick: number;
+    baselineTick?: number;
+    full: boolean;
+    entities: Record<string, any>;
+    deletedEntities: string[];
+  }): void {
+    const baseline =
+      snapshot.full || snapshot.baselineTick === undefined
+        ? undefined
+        : this.snapshotHistory.get(snapshot.baselineTick);
+    const entities: Record<string, any> = { ...baseline, ...snapshot.entities };
+    for (const entityId of snapshot.deletedEntities) {
+      delete entities[entityId];
+    }
+    this.bufferEntities(snapshot.tick, entities);
+    this.snapshotHistory.set(snapshot.tick, entities);
+
+    // Acks only move forward, so nothing older than this baseline is needed
+    const oldest = snapshot.full ? snapshot.tick : snapshot.baselineTick;
+    for (const tick of this.snapshotHistory.keys()) {
+      if (
+        (oldest !== undefined && tick < oldest) ||
+        this.snapshotHistory.size > MAX_SNAPSHOT_HISTORY
+      ) {
+        this.snapshotHistory.delete(tick);
+      }
+    }
+  }
+
+  /**
+   * Buffer the entity positions of a snapshot for interpolation by tick.
+   * Entities missing from it have left our view, so their old positions are
+   * dropped rather than slid from when they come back.
+   */
+  private bufferEntities(tick: number, entities: Record<string, any>): void {
+    const previous = this.latestTick
+      ? this.snapshotHistory.get(this.latestTick.tick)
+      : undefined;
+    for (const entityId of Object.keys(previous ?? {})) {
+      if (!(entityId in entities)) {
+        this.interpolation.clearEntity(entityId);
+      }
+    }
+
+    const now = Date.now();
+    for (const [entityId, entity] of Object.entries(entities)) {
+      if (!entity?.position) continue;
+      this.interpolation.addSnapshot(entityId, {
+        timestamp: now,
+        tick,
+        entityId,
+        state: {
+          x: entity.position.x,
+          y: entity.position.y,
+          vx: entity.velocity?.x ?? 0,
+          vy: entity.velocity?.y ?? 0,
+        },
+      });
+    }
+    this.latestTick = { tick, receivedAt: now };
+  }
+
+  /**
+   * Position and velocity of a remote entity, interpolated by server tick a
+   * little behind the newest snapshot. The render tick keeps advancing
+   * between snapshots so movement stays smooth.
+   * @param entityId Entity ID.
+   * @param now Current client time (e.g., Date.now()).
+   * @returns The state, or null until a binary snapshot has included the
+   * entity.
+   */
+  public getInterpolatedEntity(
+    entityId: string,
+    now: number = Date.now(),
+  ): RemoteEntityState | null {
+    if (!this.latestTick) return null;
+    const elapsedTicks =
+      ((now - this.latestTick.receivedAt) * SERVER_TICK_RATE) / 1000;
+    return this.interpolation.getInterpolatedStateAtTick(
+      entityId,
+      this.latestTick.tick + elapsedTicks - INTERPOLATION_DELAY_TICKS,
+    );
+  }
+
+  /**
+   * Forget received snapshots once they no longer describe our room.
+   */
+  private clearSnapshots(): void {
+    this.snapshotHistory.clear();
+    this.resyncPending = false;
+    this.interpolation.clear();
+    this.latestTick = null;
+  }
+
+  /**
+   * Tell the server which snapshot tick was received.
+   */
+  private acknowledgeSnapshot(tick: unknown): void {
+    if (typeof tick === 'number') {
+      this.socket?.emit('snapshot_ack', { tick });
+    }
+  }
+
+  /**
+   * Ask the server for a full snapshot, once per gap in the history.
+   */
+  private requestFullSnapshot(): void {
+    if (this.resyncPending) return;
+    this.resyncPending = true;
+    this.socket?.emit('snapshot_resync');
+  }
+
   /**
    * Join a specific room by ID.
    */
@@ -208,6 +476,7 @@ export class NetworkService extends EventEmitter {
     if (this.roomId) {
       this.socket?.emit('leave_room', this.roomId);
       this.roomId = null;
+      this.clearSnapshots();
     }
   }
 
@@ -231,6 +500,22 @@ export class NetworkService extends EventEmitter {
     this.socket?.emit('player_input', input);
   }
 
+  /**
+   * Send an attack. The server rewinds the other entities by our latency and
+   * decides what it hit.
+   */
+  public sendAttack(attack: {
+    kind: 'melee' | 'projectile';
+    facing?: 1 | -1;
+    targetId?: string;
+    origin?: { x: number; y: number };
+    velocity?: { x: number; y: number };
+    flightMs?: number;
+    timestamp: number;
+  }): void {
+    this.socket?.emit('player_attack', attack);
+  }
+
   /**
    * Send jump action.
    */
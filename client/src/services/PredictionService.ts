@@ -8,6 +8,8 @@ export interface InputEntry {
   input: any;
   timestamp: number;
   applied: boolean;
+  /** Locally predicted state after this input, used to detect mispredictions. */
+  predictedState?: { x: number; y: number; [key: string]: any };
 }
 
 /**
@@ -18,6 +20,8 @@ export interface PredictionConfig {
   historySize?: number;
   /** Whether to enable reconciliation. */
   enableReconciliation?: boolean;
+  /** Distance in pixels the server may differ from our prediction before we correct. */
+  correctionThreshold?: number;
 }
 
 /**
@@ -32,6 +36,7 @@ export class PredictionService {
     this.config = {
       historySize: 100,
       enableReconciliation: true,
+      correctionThreshold: 4,
       ...config,
     };
   }
@@ -40,14 +45,20 @@ export class PredictionService {
    * Record a new input from the player.
    * @param sequence Input sequence number.
    * @param input The input data.
+   * @param predictedState Optional locally predicted state after the input.
    * @returns The recorded entry.
    */
-  public recordInput(sequence: number, input: any): InputEntry {
+  public recordInput(
+    sequence: number,
+    input: any,
+    predictedState?: InputEntry['predictedState'],
+  ): InputEntry {
     const entry: InputEntry = {
       sequence,
       input,
       timestamp: Date.now(),
       applied: true, // assume applied locally
+      predictedState,
     };
     this.inputHistory.push(entry);
     // Trim history if exceeds size
@@ -59,30 +70,77 @@ export class PredictionService {
 
   /**
    * Apply server reconciliation by adjusting game state based on server snapshot.
+   * Acknowledged inputs are dropped; if the server disagrees with what we
+   * predicted for the acknowledged input, the correction is applied and the
+   * remaining unacknowledged inputs are replayed on top of it.
    * @param serverState The authoritative state from server.
    * @param entityId The entity ID to reconcile.
    * @param applyCorrection Callback to apply correction to the entity.
+   * @param replayInput Optional callback to re-apply an unacknowledged input.
+   * @returns True if a correction was applied.
    */
   public reconcile(
     serverState: any,
     entityId: string,
     applyCorrection: (correctedState: any) => void,
-  ): void {
-    if (!this.config.enableReconciliation) return;
+    replayInput?: (entry: InputEntry) => void,
+  ): boolean {
+    if (!this.config.enableReconciliation) return false;
 
     // Find the last server‑acknowledged input sequence
     const serverSequence = serverState.lastProcessedInput;
-    if (serverSequence === undefined) return;
+    if (serverSequence === undefined) return false;
 
-    // Remove inputs that have been acknowledged by server
-    this.inputHistory = this.inputHistory.filter(
-      (entry) => entry.sequence > serverSequence,
+    // Ignore snapshots older than one we've already reconciled against
+    if (serverSequence < this.lastProcessedSequence) return false;
+
+    const acknowledged = this.inputHistory.find(
+      (entry) => entry.sequence === serverSequence,
     );
+    this.acknowledge(serverSequence);
+
+    if (
+      acknowledged?.predictedState &&
+      this.getPredictionError(acknowledged.predictedState, serverState) <=
+        this.config.correctionThreshold!
+    ) {
+      return false;
+    }
 
-    // If the server state differs from our predicted state, we need to correct
-    // For simplicity, we just snap to server state (more advanced systems would re‑simulate)
     applyCorrection(serverState);
-    logger.debug(`Reconciled entity ${entityId} to server state`);
+    if (replayInput) {
+      this.inputHistory.forEach((entry) => replayInput(entry));
+    }
+    logger.debug(
+      `Reconciled entity ${entityId} to server state, replayed ${this.inputHistory.length} inputs`,
+    );
+    return true;
+  }
+
+  /**
+   * Drop inputs the server has processed without reconciling any state.
+   * Used when a snapshot acknowledges inputs but omits the unchanged entity.
+   * @param sequence Last processed sequence reported by the server.
+   */
+  public acknowledge(sequence: number): void {
+    this.lastProcessedSequence = Math.max(this.lastProcessedSequence, sequence);
+    this.inputHistory = this.inputHistory.filter(
+      (entry) => entry.sequence > sequence,
+    );
+  }
+
+  /**
+   * Distance between a predicted position and the server's position.
+   */
+  private getPredictionError(
+    predicted: { x: number; y: number },
+    serverState: any,
+  ): number {
+    const position = serverState.position ?? serverState;
+    if (typeof position.x !== 'number' || typeof position.y !== 'number') {
+      return Infinity;
+    }
+    return Math.hypot(position.x - predicted.x, position.y - predicted.y);
   }
 
   /**
@@ -106,4 +164,11 @@ export class PredictionService {
   public setLastProcessedSequence(sequence: number): void {
     this.lastProcessedSequence = sequence;
   }
+
+  /**
+   * Get the last input sequence acknowledged by the server.
+   */
+  public getLastProcessedSequence(): number {
+    return this.lastProcessedSequence;
+  }
 }
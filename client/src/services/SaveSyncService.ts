@@ -0,0 +1,352 @@
+import { logger } from '../utils/logger';
+import { eventBus } from '../core/EventBus';
+import {
+  SAVE_CHANGED_EVENT,
+  SaveChangedEvent,
+  SaveData,
+  SaveManager,
+} from '../core/SaveManager';
+import { ApiError } from './ApiClient';
+import {
+  CloudSaveConflictError,
+  CloudSaveService,
+  CloudSaveSummary,
+  cloudSlotName,
+} from './CloudSaveService';
+
+/**
+ * Event emitted on the event bus when a slot changed both on this device
+ * and in the cloud, with the `SaveConflict`.
+ */
+export const SAVE_CONFLICT_EVENT = 'save:conflict';
+
+/** Slots kept in sync: the auto-save (-1) and the manual slots. */
+const SYNCED_SLOTS = [-1, 0, 1, 2, 3, 4];
+
+/**
+ * A slot changed both here and in the cloud since they last agreed. The
+ * player picks which copy to keep.
+ */
+export interface SaveConflict {
+  slotIndex: number;
+  /** This device's copy; undefined if deleted here. */
+  local?: SaveData;
+  /** The cloud's copy; undefined if deleted there. */
+  cloud?: SaveData;
+  /** The cloud revision the conflict was found at. */
+  cloudRevision: number;
+}
+
+/**
+ * Which copy of a conflicting slot to keep.
+ */
+export type ConflictChoice = 'local' | 'cloud';
+
+/**
+ * What this device knows about a slot's cloud copy. Kept in LocalStorage so
+ * changes made offline are pushed after a reload.
+ */
+interface SlotSyncState {
+  /** Cloud revision this device last agreed with; 0 for none. */
+  revision: number;
+  /** Timestamp of the local save at that point; null if the slot was empty. */
+  syncedTimestamp: number | null;
+  /** Changed locally and not yet stored in the cloud. */
+  pending: boolean;
+}
+
+/**
+ * Keeps the save slots in LocalStorage in sync with the cloud.
+ *
+ * Local saves are pushed as they happen, or queued while offline and pushed
+ * once the connection is back. Changes made on other devices are pulled on
+ * `syncAll`. When a slot changed on both sides it is left alone and a
+ * `SaveConflict` is raised for the player to settle with `resolveConflict`.
+ */
+export class SaveSyncService {
+  /** LocalStorage key of the per-slot sync state. */
+  private static readonly STATE_KEY = 'phaser_platformer_sync';
+
+  private state: Record<number, SlotSyncState>;
+  private conflicts: Map<number, SaveConflict> = new Map();
+  /** Sync work runs one task at a time, in order. */
+  private queue: Promise<void> = Promise.resolve();
+  private unsubscribe?: () => void;
+  private readonly onOnline = () => {
+    this.syncAll();
+  };
+
+  constructor(
+    private saveManager: SaveManager = new SaveManager(),
+    private cloud: CloudSaveService = new CloudSaveService(),
+  ) {
+    this.state = SaveSyncService.loadState();
+  }
+
+  /**
+   * Start pushing local saves as they happen and sync everything now.
+   * @returns Promise resolving to the conflicts found.
+   */
+  public start(): Promise<SaveConflict[]> {
+    this.stop();
+    this.unsubscribe = eventBus.on<SaveChangedEvent>(
+      SAVE_CHANGED_EVENT,
+      ({ slotIndex }) => {
+        this.markPending(slotIndex);
+        this.flush();
+      },
+    );
+    window.addEventListener('online', this.onOnline);
+    return this.syncAll();
+  }
+
+  /**
+   * Stop syncing. Changes made meanwhile are still found by `syncAll`.
+   */
+  public stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    window.removeEventListener('online', this.onOnline);
+  }
+
+  /**
+   * Compare every slot with the cloud: push local changes, pull changes
+   * made elsewhere and raise conflicts where both changed.
+   * @returns Promise resolving to the conflicts not yet settled.
+   */
+  public syncAll(): Promise<SaveConflict[]> {
+    return this.enqueue(async () => {
+      let summaries: CloudSaveSummary[];
+      try {
+        summaries = await this.cloud.listSaves();
+      } catch (error) {
+        logger.warn('Cloud saves unavailable, will sync later:', error);
+        return this.getConflicts();
+      }
+
+      for (const slotIndex of SYNCED_SLOTS) {
+        if (this.conflicts.has(slotIndex)) continue;
+        const summary = summaries.find(
+          (s) => s.slot === cloudSlotName(slotIndex),
+        );
+        try {
+          await this.reconcile(slotIndex, summary);
+        } catch (error) {
+          logger.warn(`Failed to sync save slot ${slotIndex}:`, error);
+          if (SaveSyncService.isOffline(error)) break;
+        }
+      }
+      return this.getConflicts();
+    });
+  }
+
+  /**
+   * Push the slots changed locally since they were last stored.
+   */
+  public flush(): Promise<void> {
+    return this.enqueue(async () => {
+      for (const slotIndex of SYNCED_SLOTS) {
+        if (!this.getState(slotIndex).pending) continue;
+        if (this.conflicts.has(slotIndex)) continue;
+        try {
+          await this.push(slotIndex, this.getState(slotIndex).revision);
+        } catch (error) {
+          logger.warn(`Failed to push save slot ${slotIndex}:`, error);
+          if (SaveSyncService.isOffline(error)) break;
+        }
+      }
+    });
+  }
+
+  /**
+   * Settle a conflict by keeping one copy of the slot on both sides.
+   * @param slotIndex Save slot index (0-4), or -1 for auto-save.
+   * @param choice Keep this device's copy or the cloud's.
+   */
+  public resolveConflict(
+    slotIndex: number,
+    choice: ConflictChoice,
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      const conflict = this.conflicts.get(slotIndex);
+      if (!conflict) return;
+      this.conflicts.delete(slotIndex);
+
+      if (choice === 'cloud') {
+        this.pull(slotIndex, conflict.cloud, conflict.cloudRevision);
+        return;
+      }
+      this.markPending(slotIndex);
+      try {
+        await this.push(slotIndex, conflict.cloudRevision);
+      } catch (error) {
+        // Still pending; pushed on the next flush
+        logger.warn(`Failed to push save slot ${slotIndex}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Conflicts waiting for the player's choice.
+   */
+  public getConflicts(): SaveConflict[] {
+    return [...this.conflicts.values()];
+  }
+
+  /**
+   * Whether any local change has not reached the cloud yet.
+   */
+  public hasPendingChanges(): boolean {
+    return SYNCED_SLOTS.some((slotIndex) => this.getState(slotIndex).pending);
+  }
+
+  private async reconcile(
+    slotIndex: number,
+    summary: CloudSaveSummary | undefined,
+  ): Promise<void> {
+    const state = this.getState(slotIndex);
+    const local = this.saveManager.loadSlot(slotIndex);
+    // Saves made while sync was not running only show in the timestamp
+    const localChanged =
+      state.pending || (local?.timestamp ?? null) !== state.syncedTimestamp;
+    const cloudRevision = summary?.revision ?? 0;
+
+    if (cloudRevision === state.revision) {
+      if (localChanged) {
+        this.markPending(slotIndex);
+        await this.push(slotIndex, state.revision);
+      }
+      return;
+    }
+
+    const cloud =
+      summary && !summary.deleted
+        ? (await this.cloud.getSave(slotIndex))?.data
+        : undefined;
+    // The same save on both sides needs no choice
+    if (!localChanged || local?.timestamp === cloud?.timestamp) {
+      this.pull(slotIndex, cloud, cloudRevision);
+      return;
+    }
+    this.raiseConflict({ slotIndex, local, cloud, cloudRevision });
+  }
+
+  /**
+   * Store the local copy of a slot in the cloud.
+   * @param baseRevision The cloud revision it replaces.
+   */
+  private async push(slotIndex: number, baseRevision: number): Promise<void> {
+    const local = this.saveManager.loadSlot(slotIndex);
+    try {
+      let revision = baseRevision;
+      if (local) {
+        revision = (await this.cloud.putSave(slotIndex, local, baseRevision))
+          .revision;
+      } else if (baseRevision > 0) {
+        const summary = await this.cloud.deleteSave(slotIndex, baseRevision);
+        revision = summary?.revision ?? baseRevision;
+      }
+      this.setState(slotIndex, {
+        revision,
+        syncedTimestamp: local?.timestamp ?? null,
+        pending: false,
+      });
+    } catch (error) {
+      if (!(error instanceof CloudSaveConflictError)) throw error;
+      const { current } = error;
+      const cloud = current.deleted
+        ? undefined
+        : (await this.cloud.getSave(slotIndex))?.data;
+      this.raiseConflict({
+        slotIndex,
+        local,
+        cloud,
+        cloudRevision: current.revision,
+      });
+    }
+  }
+
+  /**
+   * Replace the local copy of a slot with the cloud's.
+   */
+  private pull(
+    slotIndex: number,
+    cloud: SaveData | undefined,
+    revision: number,
+  ): void {
+    if (!this.saveManager.restoreSave(slotIndex, cloud ?? null)) return;
+    this.setState(slotIndex, {
+      revision,
+      syncedTimestamp: cloud?.timestamp ?? null,
+      pending: false,
+    });
+    logger.info(`Pulled save slot ${slotIndex} from the cloud`);
+  }
+
+  private raiseConflict(conflict: SaveConflict): void {
+    this.conflicts.set(conflict.slotIndex, conflict);
+    logger.warn(
+      `Save slot ${conflict.slotIndex} changed here and in the cloud`,
+    );
+    eventBus.emit<SaveConflict>(SAVE_CONFLICT_EVENT, conflict);
+  }
+
+  private markPending(slotIndex: number): void {
+    this.setState(slotIndex, { ...this.getState(slotIndex), pending: true });
+  }
+
+  private getState(slotIndex: number): SlotSyncState {
+    return (
+      this.state[slotIndex] ?? {
+        revision: 0,
+        syncedTimestamp: null,
+        pending: false,
+      }
+    );
+  }
+
+  private setState(slotIndex: number, state: SlotSyncState): void {
+    this.state[slotIndex] = state;
+    try {
+      localStorage.setItem(
+        SaveSyncService.STATE_KEY,
+        JSON.stringify(this.state),
+      );
+    } catch (error) {
+      logger.warn('Failed to store save sync state:', error);
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    return run;
+  }
+
+  private static isOffline(error: unknown): boolean {
+    return error instanceof ApiError && error.status === 0;
+  }
+
+  private static loadState(): Record<number, SlotSyncState> {
+    try {
+      const stored = localStorage.getItem(SaveSyncService.STATE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      logger.warn('Ignoring unreadable save sync state:', error);
+      return {};
+    }
+  }
+}
+
+let globalSaveSync: SaveSyncService | null = null;
+
+export function setGlobalSaveSync(service: SaveSyncService | null): void {
+  globalSaveSync = service;
+}
+
+export function getGlobalSaveSync(): SaveSyncService | null {
+  return globalSaveSync;
+}
@@ -163,6 +163,11 @@ const Phaser = {
   Tweens: {
     Tween: jest.fn(),
   },
+  Tilemaps: {
+    Formats: {
+      TILED_JSON: 1,
+    },
+  },
   Cameras: {
     Scene2D: {
       Camera: jest.fn(),
@@ -0,0 +1,74 @@
+/** Whether a parsed JSON value is a plain object. */
+export function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects problems with one entry, each prefixed with its path in the file.
+ */
+export class EntryChecker {
+  constructor(
+    private path: string,
+    readonly errors: string[] = [],
+  ) {}
+
+  /** A checker for a nested object, reporting into the same list. */
+  at(field: string): EntryChecker {
+    return new EntryChecker(`${this.path}.${field}`, this.errors);
+  }
+
+  fail(field: string, problem: string): void {
+    this.errors.push(`${this.path}${field ? `.${field}` : ''} ${problem}`);
+  }
+
+  number(
+    entry: Record<string, any>,
+    field: string,
+    {
+      required = false,
+      min = 0,
+      integer = false,
+    }: { required?: boolean; min?: number; integer?: boolean } = {},
+  ): void {
+    const value = entry[field];
+    if (value === undefined) {
+      if (required) this.fail(field, 'is required');
+    } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(field, 'must be a number');
+    } else if (integer && !Number.isInteger(value)) {
+      this.fail(field, 'must be a whole number');
+    } else if (value < min) {
+      this.fail(field, `must be at least ${min}`);
+    }
+  }
+
+  string(entry: Record<string, any>, field: string, required = false): void {
+    const value = entry[field];
+    if (value === undefined) {
+      if (required) this.fail(field, 'is required');
+    } else if (typeof value !== 'string' || value === '') {
+      this.fail(field, 'must be a non-empty string');
+    }
+  }
+
+  boolean(entry: Record<string, any>, field: string): void {
+    const value = entry[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.fail(field, 'must be true or false');
+    }
+  }
+
+  oneOf(
+    entry: Record<string, any>,
+    field: string,
+    allowed: readonly string[],
+    required = false,
+  ): void {
+    const value = entry[field];
+    if (value === undefined) {
+      if (required) this.fail(field, 'is required');
+    } else if (!allowed.includes(value)) {
+      this.fail(field, `must be one of ${allowed.join(', ')}`);
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  addObject,
+  createLevelDraft,
+  formatManifestEntry,
+  getTile,
+  LevelDraft,
+  removeObjectAt,
+  setTile,
+  toLevelConfig,
+  toTiledMap,
+} from '../../../src/core/LevelDraft';
+import { readTiledProperties } from '../../../src/core/TilemapLoader';
+import {
+  LevelRegistry,
+  parseLevelManifest,
+  validateLevelDefinition,
+} from '../../../src/core/LevelRegistry';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('LevelDraft', () => {
+  let draft: LevelDraft;
+
+  const place = (layer: string, type: string, x = 64, y = 64) =>
+    addObject(draft, {
+      layer,
+      type,
+      x,
+      y,
+      width: 32,
+      height: 32,
+      properties: {},
+    });
+
+  beforeEach(() => {
+    draft = createLevelDraft('level4', 10, 5);
+  });
+
+  describe('tiles', () => {
+    it('should start with a floor along the bottom row', () => {
+      expect(draft.tiles).toHaveLength(50);
+      expect(getTile(draft, 0, 4)).toBe(1);
+      expect(getTile(draft, 9, 4)).toBe(1);
+      expect(getTile(draft, 0, 3)).toBe(0);
+    });
+
+    it('should paint tiles on the map only', () => {
+      expect(setTile(draft, 2, 1, 1)).toBe(true);
+      expect(getTile(draft, 2, 1)).toBe(1);
+
+      expect(setTile(draft, 10, 1, 1)).toBe(false);
+      expect(setTile(draft, 0, -1, 1)).toBe(false);
+      expect(getTile(draft, 10, 1)).toBeUndefined();
+    });
+  });
+
+  describe('objects', () => {
+    it('should give each object a new id', () => {
+      const first = place('enemies', 'slime');
+      const second = place('enemies', 'slime');
+
+      expect(first.id).toBe(1);
+      expect(second.id).toBe(2);
+      expect(draft.nextObjectId).toBe(3);
+    });
+
+    it('should keep a single player spawn and exit', () => {
+      place('player', 'spawn', 0, 0);
+      place('player', 'spawn', 96, 0);
+      place('exit', 'level_exit');
+      place('exit', 'level_exit', 128, 0);
+
+      expect(draft.objects).toHaveLength(2);
+      expect(draft.objects.map((o) => o.x)).toEqual([96, 128]);
+    });
+
+    it('should remove the topmost object under a point', () => {
+      place('items', 'coin');
+      const top = place('hazards', 'spike');
+
+      expect(removeObjectAt(draft, 70, 90)).toBe(top);
+      expect(draft.objects).toHaveLength(1);
+      expect(removeObjectAt(draft, 0, 0)).toBeUndefined();
+    });
+  });
+
+  describe('toLevelConfig', () => {
+    it('should build a config from the draft', () => {
+      place('player', 'spawn', 32, 96);
+      draft.config = {
+        targetScore: 500,
+        timeLimit: 90,
+        requiredItems: ['key'],
+        theme: 'cave',
+      };
+
+      expect(toLevelConfig(draft)).toEqual({
+        key: 'level4',
+        tilemap: 'assets/tilemaps/level4.json',
+        playerStart: { x: 48, y: 112 },
+        targetScore: 500,
+        timeLimit: 90,
+        requiredItems: ['key'],
+        backgroundColor: 0x0d0d1a,
+        theme: 'cave',
+      });
+    });
+
+    it('should leave out unset fields', () => {
+      expect(toLevelConfig(draft)).toEqual({
+        key: 'level4',
+        tilemap: 'assets/tilemaps/level4.json',
+        backgroundColor: 0x1a1a2e,
+        theme: 'forest',
+      });
+    });
+
+    it("should take the background from the manifest's theme", () => {
+      const levels = new LevelRegistry(
+        parseLevelManifest({
+          themes: { lava: { name: 'Lava', backgroundColor: '#ff4500' } },
+        }).manifest,
+      );
+      draft.config.theme = 'lava';
+
+      expect(toLevelConfig(draft, levels).backgroundColor).toBe(0xff4500);
+
+      draft.config.theme = 'unknown';
+      expect(toLevelConfig(draft, levels)).not.toHaveProperty(
+        'backgroundColor',
+      );
+    });
+  });
+
+  describe('formatManifestEntry', () => {
+    it('should write an entry the level manifest accepts', () => {
+      place('player', 'spawn', 32, 96);
+      draft.config = {
+        targetScore: 500,
+        requiredItems: ['key', 'gem_red'],
+        theme: 'sky',
+      };
+
+      const entry = JSON.parse(formatManifestEntry(draft, 4, [3]));
+
+      expect(entry).toEqual({
+        number: 4,
+        key: 'level4',
+        name: 'level4',
+        tilemap: 'assets/tilemaps/level4.json',
+        theme: 'sky',
+        playerStart: { x: 48, y: 112 },
+        targetScore: 500,
+        requiredItems: ['key', 'gem_red'],
+        requires: [3],
+      });
+      expect(
+        validateLevelDefinition(entry, 'levels.0', ['forest', 'cave', 'sky']),
+      ).toEqual([]);
+    });
+
+    it('should leave out requirements for a first level', () => {
+      expect(JSON.parse(formatManifestEntry(draft, 1))).not.toHaveProperty(
+        'requires',
+      );
+    });
+  });
+
+  describe('toTiledMap', () => {
+    it('should export the tiles and an embedded tileset', () => {
+      const map = toTiledMap(draft);
+
+      expect(map).toMatchObject({
+        orientation: 'orthogonal',
+        width: 10,
+        height: 5,
+        tilewidth: 32,
+        tileheight: 32,
+      });
+      expect(map.layers[0]).toMatchObject({
+        name: 'ground',
+        type: 'tilelayer',
+        data: draft.tiles,
+      });
+      expect(map.tilesets).toHaveLength(1);
+      expect(map.tilesets[0]).toMatchObject({ firstgid: 1, name: 'platform' });
+    });
+
+    it('should export non-empty object layers with typed properties', () => {
+      addObject(draft, {
+        layer: 'enemies',
+        type: 'slime',
+        x: 64,
+        y: 96,
+        width: 32,
+        height: 32,
+        properties: { health: 5, chaseSpeed: 1.5, flying: false },
+      });
+      addObject(draft, {
+        layer: 'items',
+        type: 'key',
+        x: 128,
+        y: 96,
+        width: 32,
+        height: 32,
+        properties: {},
+      });
+
+      const map = toTiledMap(draft);
+
+      expect(map.layers.map((layer) => layer.name)).toEqual([
+        'ground',
+        'enemies',
+        'items',
+      ]);
+      const [slime] = map.layers[1]!.objects as Array<Record<string, any>>;
+      expect(slime).toMatchObject({ id: 1, type: 'slime', x: 64, y: 96 });
+      expect(slime!.properties).toEqual([
+        { name: 'health', type: 'int', value: 5 },
+        { name: 'chaseSpeed', type: 'float', value: 1.5 },
+        { name: 'flying', type: 'bool', value: false },
+      ]);
+      expect(readTiledProperties(slime!.properties)).toEqual({
+        health: 5,
+        chaseSpeed: 1.5,
+        flying: false,
+      });
+      const [key] = map.layers[2]!.objects as Array<Record<string, any>>;
+      expect(key).not.toHaveProperty('properties');
+    });
+  });
+});
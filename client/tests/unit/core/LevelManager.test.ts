@@ -1,8 +1,10 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LevelManager, LevelConfig } from '../../../src/core/LevelManager';
 import {
-  LevelManager,
-  LevelConfig,
-  LEVEL_CONFIGS,
-} from '../../../src/core/LevelManager';
+  LevelRegistry,
+  parseLevelManifest,
+} from '../../../src/core/LevelRegistry';
 
 // Mock logger
 jest.mock('../../../src/utils/logger', () => ({
@@ -14,13 +16,26 @@ jest.mock('../../../src/utils/logger', () => ({
   },
 }));
 
+// The campaign the game ships with
+const shippedLevels = () =>
+  new LevelRegistry(
+    parseLevelManifest(
+      JSON.parse(
+        readFileSync(
+          join(__dirname, '../../../public/assets/data/levels.json'),
+          'utf8',
+        ),
+      ),
+    ).manifest,
+  );
+
 describe('LevelManager', () => {
   let levelManager: LevelManager;
   let mockScene: any;
 
   beforeEach(() => {
     mockScene = {};
-    levelManager = new LevelManager(mockScene as any);
+    levelManager = new LevelManager(mockScene as any, shippedLevels());
   });
 
   describe('constructor', () => {
@@ -47,6 +62,34 @@ describe('LevelManager', () => {
       const state = levelManager.getState();
       expect(state.score).toBe(0);
     });
+
+    it('should cache the map of a level outside the manifest', () => {
+      const tilemap = {
+        exists: jest.fn().mockReturnValue(true),
+        remove: jest.fn(),
+        add: jest.fn(),
+      };
+      mockScene.cache = { tilemap };
+      const map = { width: 20, height: 10, layers: [] };
+
+      levelManager.loadLevel(
+        { key: 'community_abc', tilemap: '/api/community/levels/abc' },
+        map,
+      );
+
+      expect(tilemap.remove).toHaveBeenCalledWith('community_abc');
+      expect(tilemap.add).toHaveBeenCalledWith('community_abc', {
+        format: 1,
+        data: map,
+      });
+      expect(levelManager.getCurrentLevel()?.key).toBe('community_abc');
+      expect(levelManager.isCustomLevel()).toBe(true);
+    });
+
+    it('should not count built-in levels as custom', () => {
+      levelManager.loadLevelByNumber(2);
+      expect(levelManager.isCustomLevel()).toBe(false);
+    });
   });
 
   describe('loadLevelByNumber', () => {
@@ -62,11 +105,50 @@ describe('LevelManager', () => {
     });
   });
 
-  describe('LEVEL_CONFIGS', () => {
-    it('should have predefined levels', () => {
-      expect(LEVEL_CONFIGS[1]).toBeDefined();
-      expect(LEVEL_CONFIGS[2]).toBeDefined();
-      expect(LEVEL_CONFIGS[3]).toBeDefined();
+  describe('level manifest', () => {
+    it('should fall back to the first level without a manifest', () => {
+      levelManager = new LevelManager(mockScene);
+
+      expect(levelManager.getTotalLevels()).toBe(1);
+      expect(levelManager.loadLevelByNumber(1)).toBe(true);
+      expect(levelManager.getCurrentLevel()?.key).toBe('level1');
+      expect(levelManager.loadLevelByNumber(2)).toBe(false);
+    });
+
+    it("should load levels from the scene's manifest", () => {
+      mockScene.cache = {
+        json: {
+          get: () => ({
+            worlds: [
+              {
+                id: 'ice',
+                name: 'Ice World',
+                levels: [
+                  {
+                    number: 7,
+                    key: 'glacier',
+                    name: 'Glacier',
+                    tilemap: 'assets/tilemaps/glacier.json',
+                    theme: 'sky',
+                  },
+                ],
+              },
+            ],
+          }),
+        },
+      };
+      levelManager = new LevelManager(mockScene);
+
+      expect(levelManager.getTotalLevels()).toBe(1);
+      expect(levelManager.loadLevelByNumber(1)).toBe(false);
+      expect(levelManager.loadLevelByNumber(7)).toBe(true);
+      expect(levelManager.getCurrentLevel()?.key).toBe('glacier');
+    });
+
+    it('should use the registry it is given', () => {
+      expect(levelManager.getTotalLevels()).toBe(3);
+      expect(levelManager.loadLevelByNumber(3)).toBe(true);
+      expect(levelManager.getCurrentLevel()?.key).toBe('level3');
     });
   });
 
@@ -84,10 +166,15 @@ describe('LevelManager', () => {
   });
 
   describe('canAccessLevel', () => {
-    it('should allow access to valid levels', () => {
+    it('should allow access to levels whose requirements are completed', () => {
       expect(levelManager.canAccessLevel(1)).toBe(true);
-      expect(levelManager.canAccessLevel(2)).toBe(true);
-      expect(levelManager.canAccessLevel(3)).toBe(true);
+      expect(levelManager.canAccessLevel(2, [1])).toBe(true);
+      expect(levelManager.canAccessLevel(3, [1, 2])).toBe(true);
+    });
+
+    it('should deny access until the required levels are completed', () => {
+      expect(levelManager.canAccessLevel(2)).toBe(false);
+      expect(levelManager.canAccessLevel(3, [1])).toBe(false);
     });
 
     it('should deny access to invalid levels', () => {
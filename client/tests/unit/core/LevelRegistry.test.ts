@@ -0,0 +1,291 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DEFAULT_LEVEL_MANIFEST,
+  LEVEL_MANIFEST_KEY,
+  LevelRegistry,
+  formatLevelTime,
+  parseLevelManifest,
+  validateLevelDefinition,
+} from '../../../src/core/LevelRegistry';
+import { logger } from '../../../src/utils/logger';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const level = (number: number, extra: Record<string, unknown> = {}) => ({
+  number,
+  key: `level${number}`,
+  name: `Level ${number}`,
+  tilemap: `assets/tilemaps/level${number}.json`,
+  theme: 'forest',
+  ...extra,
+});
+
+describe('LevelRegistry', () => {
+  describe('levels.json', () => {
+    it('should be valid', () => {
+      const file = JSON.parse(
+        readFileSync(
+          join(__dirname, '../../../public/assets/data/levels.json'),
+          'utf8',
+        ),
+      );
+
+      const { manifest, errors } = parseLevelManifest(file);
+
+      expect(errors).toEqual([]);
+      expect(manifest.levels.map((l) => l.number)).toEqual([1, 2, 3]);
+      // The built-in fallback is the manifest's first level
+      expect(manifest.levels[0]).toMatchObject(
+        DEFAULT_LEVEL_MANIFEST.levels[0]!,
+      );
+      expect(manifest.themes).toEqual(DEFAULT_LEVEL_MANIFEST.themes);
+    });
+  });
+
+  describe('validateLevelDefinition', () => {
+    it('should accept a level with every optional field', () => {
+      expect(
+        validateLevelDefinition(
+          level(4, {
+            backgroundColor: '#204060',
+            playerStart: { x: 10, y: 20 },
+            targetScore: 100,
+            timeLimit: 90,
+            requiredItems: ['key'],
+            requiredEnemies: 3,
+            parTime: 45,
+            minTime: 20,
+            maxScore: 2000,
+            bounds: { width: 640, height: 480 },
+            requires: [2, 3],
+          }),
+          'levels.0',
+          ['forest'],
+        ),
+      ).toEqual([]);
+    });
+
+    it('should report every problem with its path', () => {
+      expect(
+        validateLevelDefinition(
+          {
+            number: 1.5,
+            key: '',
+            tilemap: 'a.json',
+            theme: 'lava',
+            backgroundColor: 'red',
+            bounds: { width: 0 },
+            requires: ['1'],
+          },
+          'worlds.0.levels.2',
+          ['forest', 'cave'],
+        ),
+      ).toEqual([
+        'worlds.0.levels.2.number must be a whole number',
+        'worlds.0.levels.2.key must be a non-empty string',
+        'worlds.0.levels.2.name is required',
+        'worlds.0.levels.2.theme must be one of forest, cave',
+        'worlds.0.levels.2.backgroundColor must be a colour like "#1a1a2e"',
+        'worlds.0.levels.2.requires must be a list of level numbers',
+        'worlds.0.levels.2.bounds.width must be at least 1',
+        'worlds.0.levels.2.bounds.height is required',
+      ]);
+    });
+  });
+
+  describe('parseLevelManifest', () => {
+    it('should use the default campaign without a file', () => {
+      expect(parseLevelManifest(undefined)).toEqual({
+        manifest: DEFAULT_LEVEL_MANIFEST,
+        errors: [],
+      });
+    });
+
+    it('should replace the campaign with the worlds in the file', () => {
+      const { manifest, errors } = parseLevelManifest({
+        themes: { lava: { name: 'Lava', backgroundColor: '#ff4400' } },
+        worlds: [
+          { id: 'w1', name: 'Green Hills', levels: [level(1), level(2)] },
+          {
+            id: 'w2',
+            name: 'Volcano',
+            requires: [2],
+            levels: [
+              level(10, { theme: 'lava', requires: [1] }),
+              level(11, { theme: 'lava', backgroundColor: '#000000' }),
+            ],
+          },
+        ],
+      });
+
+      expect(errors).toEqual([]);
+      expect(manifest.worlds).toEqual([
+        { id: 'w1', name: 'Green Hills', levels: [1, 2] },
+        { id: 'w2', name: 'Volcano', levels: [10, 11] },
+      ]);
+      expect(manifest.levels.map((l) => l.number)).toEqual([1, 2, 10, 11]);
+      expect(manifest.themes.lava).toEqual({
+        name: 'Lava',
+        backgroundColor: 0xff4400,
+      });
+      expect(manifest.themes.forest).toEqual(
+        DEFAULT_LEVEL_MANIFEST.themes.forest,
+      );
+      expect(manifest.levels[2]).toMatchObject({
+        world: 'w2',
+        backgroundColor: 0xff4400,
+        requires: [2, 1],
+      });
+      expect(manifest.levels[3]!.backgroundColor).toBe(0);
+    });
+
+    it('should skip invalid and duplicate entries', () => {
+      const { manifest, errors } = parseLevelManifest({
+        themes: { lava: { name: 'Lava' } },
+        worlds: [
+          {
+            id: 'w1',
+            name: 'One',
+            levels: [level(1), level(1), { number: 2 }],
+          },
+          { id: 'w1', name: 'Copy', levels: [level(3)] },
+          { name: 'Nameless', levels: [] },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'themes.lava.backgroundColor is required',
+        'worlds.0.levels.1.number 1 is already used',
+        'worlds.0.levels.2.key is required',
+        'worlds.0.levels.2.name is required',
+        'worlds.0.levels.2.tilemap is required',
+        'worlds.0.levels.2.theme is required',
+        'worlds.1.id "w1" is already used',
+        'worlds.2.id is required',
+      ]);
+      expect(manifest.levels.map((l) => l.number)).toEqual([1]);
+    });
+
+    it('should drop levels that can never be unlocked', () => {
+      const { manifest, errors } = parseLevelManifest({
+        worlds: [
+          {
+            id: 'w1',
+            name: 'One',
+            levels: [
+              level(1),
+              level(2, { requires: [9] }),
+              level(3, { requires: [4] }),
+              level(4, { requires: [3] }),
+              level(5, { requires: [1] }),
+            ],
+          },
+          { id: 'w2', name: 'Two', requires: [2], levels: [level(6)] },
+        ],
+      });
+
+      expect(errors).toEqual([
+        'Level 2 can never be unlocked; it requires 9',
+        'Level 3 can never be unlocked; it requires 4',
+        'Level 4 can never be unlocked; it requires 3',
+        'Level 6 can never be unlocked; it requires 2',
+      ]);
+      expect(manifest.levels.map((l) => l.number)).toEqual([1, 5]);
+      expect(manifest.worlds).toEqual([
+        { id: 'w1', name: 'One', levels: [1, 5] },
+      ]);
+    });
+
+    it('should fall back to the default campaign without playable levels', () => {
+      const { manifest, errors } = parseLevelManifest({ worlds: [] });
+
+      expect(errors).toEqual(['Level manifest has no playable levels']);
+      expect(manifest.levels).toBe(DEFAULT_LEVEL_MANIFEST.levels);
+    });
+
+    it('should reject a manifest that is not an object', () => {
+      expect(parseLevelManifest([]).errors).toEqual([
+        'Level manifest must be an object',
+      ]);
+      expect(parseLevelManifest({}).errors).toEqual(['worlds must be a list']);
+    });
+  });
+
+  describe('registry', () => {
+    const registry = new LevelRegistry(
+      parseLevelManifest({
+        worlds: [
+          {
+            id: 'w1',
+            name: 'One',
+            levels: [level(1), level(2, { requires: [1] })],
+          },
+          {
+            id: 'w2',
+            name: 'Two',
+            requires: [2],
+            levels: [level(5), level(6, { requires: [5] })],
+          },
+          { id: 'bonus', name: 'Bonus', levels: [level(20)] },
+        ],
+      }).manifest,
+    );
+
+    it('should unlock levels whose requirements are completed', () => {
+      expect(registry.getUnlockedLevels([])).toEqual([1, 20]);
+      expect(registry.getUnlockedLevels([1])).toEqual([1, 2, 20]);
+      expect(registry.getUnlockedLevels([1, 2])).toEqual([1, 2, 5, 20]);
+      expect(registry.isUnlocked(6, [1, 2])).toBe(false);
+      expect(registry.isUnlocked(6, [2, 5])).toBe(true);
+      expect(registry.isUnlocked(99, [])).toBe(false);
+    });
+
+    it('should go through the levels in play order', () => {
+      expect(registry.getNextLevel(2)?.number).toBe(5);
+      expect(registry.getNextLevel(6)?.number).toBe(20);
+      expect(registry.getNextLevel(20)).toBeUndefined();
+    });
+
+    it('should number new levels after the highest', () => {
+      expect(registry.getNewLevelNumber()).toBe(21);
+    });
+
+    it('should look up levels, worlds and themes', () => {
+      expect(registry.getTotalLevels()).toBe(5);
+      expect(registry.getLevel(5)?.world).toBe('w2');
+      expect(registry.hasLevelKey('level6')).toBe(true);
+      expect(registry.hasLevelKey('community_abc')).toBe(false);
+      expect(registry.getWorld('bonus')?.levels).toEqual([20]);
+      expect(registry.getTheme('cave')?.name).toBe('Cave');
+    });
+
+    it('should read the manifest from the JSON cache', () => {
+      const get = jest.fn().mockReturnValue({ worlds: 'none' });
+
+      const fromCache = LevelRegistry.fromCache({
+        cache: { json: { get } },
+      } as any);
+
+      expect(get).toHaveBeenCalledWith(LEVEL_MANIFEST_KEY);
+      expect(fromCache.getTotalLevels()).toBe(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('worlds must be a list'),
+      );
+    });
+  });
+
+  describe('formatLevelTime', () => {
+    it('should format minutes and seconds', () => {
+      expect(formatLevelTime(65.7)).toBe('1:05');
+      expect(formatLevelTime(600)).toBe('10:00');
+    });
+  });
+});
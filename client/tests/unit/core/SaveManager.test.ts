@@ -1,5 +1,6 @@
-import { SaveManager } from '../../../src/core/SaveManager';
+import { SAVE_CHANGED_EVENT, SaveManager } from '../../../src/core/SaveManager';
 import { SaveData } from '../../../src/core/SaveManager';
+import { eventBus } from '../../../src/core/EventBus';
 
 describe('SaveManager', () => {
   let saveManager: SaveManager;
@@ -444,6 +445,209 @@ describe('SaveManager', () => {
     });
   });
 
+  describe('change events', () => {
+    let changed: number[];
+
+    beforeEach(() => {
+      changed = [];
+      eventBus.on<{ slotIndex: number }>(SAVE_CHANGED_EVENT, ({ slotIndex }) =>
+        changed.push(slotIndex),
+      );
+    });
+
+    afterEach(() => {
+      eventBus.clear(SAVE_CHANGED_EVENT);
+    });
+
+    it('should report saves, auto-saves and deletions', () => {
+      saveManager.saveGame(2, {});
+      saveManager.saveAutoGame({});
+      saveManager.deleteSave(2);
+
+      expect(changed).toEqual([2, -1, 2]);
+    });
+
+    it('should not report restored saves', () => {
+      saveManager.saveGame(0, {});
+      changed = [];
+
+      saveManager.restoreSave(0, saveManager.loadGame(0)!);
+      saveManager.restoreSave(0, null);
+
+      expect(changed).toEqual([]);
+    });
+  });
+
+  describe('loadSlot', () => {
+    it('should load the auto-save for slot -1', () => {
+      saveManager.saveAutoGame({ timestamp: 1 });
+      saveManager.saveGame(0, {});
+
+      expect(saveManager.loadSlot(-1)).toEqual(saveManager.loadAutoGame());
+      expect(saveManager.loadSlot(0)).toEqual(saveManager.loadGame(0));
+    });
+  });
+
+  describe('restoreSave', () => {
+    const restored: SaveData = {
+      version: '1.0.0',
+      timestamp: 1234,
+      player: {
+        health: 10,
+        maxHealth: 20,
+        currentLevel: 3,
+        unlockedLevels: [1, 2, 3],
+        totalScore: 900,
+        totalCoins: 40,
+        totalEnemiesDefeated: 12,
+      },
+      levels: {},
+    };
+
+    it('should store the data as given, timestamp included', () => {
+      expect(saveManager.restoreSave(4, restored)).toBe(true);
+
+      expect(saveManager.loadGame(4)).toEqual({
+        ...restored,
+        settings: expect.any(Object),
+      });
+    });
+
+    it('should restore the auto-save for slot -1', () => {
+      saveManager.restoreSave(-1, restored);
+
+      expect(saveManager.loadAutoGame()!.timestamp).toBe(1234);
+    });
+
+    it('should empty the slot for null', () => {
+      saveManager.saveGame(1, {});
+
+      saveManager.restoreSave(1, null);
+
+      expect(saveManager.hasSave(1)).toBe(false);
+    });
+
+    it('should refuse invalid slot indices', () => {
+      expect(saveManager.restoreSave(5, restored)).toBe(false);
+      expect(saveManager.restoreSave(-2, restored)).toBe(false);
+    });
+  });
+
+  describe('migrations and repairs', () => {
+    const store = (key: string, save: unknown) =>
+      localStorage.setItem(
+        `phaser_platformer_${key}`,
+        (SaveManager as any).encryptData(JSON.stringify(save)),
+      );
+    const stored = (key: string) =>
+      localStorage.getItem(`phaser_platformer_${key}`);
+
+    const legacySave = {
+      timestamp: 1000,
+      player: {
+        health: 20,
+        maxHealth: 20,
+        currentLevel: 2,
+        unlockedLevels: [1, 2],
+        totalScore: 100,
+        totalCoins: 5,
+        totalEnemiesDefeated: 1,
+      },
+    };
+
+    it('should migrate an old save and write it back', () => {
+      store('save_0', legacySave);
+
+      const loaded = saveManager.loadGame(0);
+
+      expect(loaded).toEqual({
+        ...legacySave,
+        version: '1.0.0',
+        levels: {},
+        settings: expect.any(Object),
+      });
+      const rewritten = JSON.parse(
+        (SaveManager as any).decryptData(stored('save_0')),
+      );
+      expect(rewritten.version).toBe('1.0.0');
+    });
+
+    it('should keep the save from before the migration as a backup', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(5000);
+      store('autosave', legacySave);
+      const original = stored('autosave');
+
+      saveManager.loadAutoGame();
+
+      expect(saveManager.getBackupInfo(-1)).toEqual({
+        version: '0.0.0',
+        createdAt: 5000,
+      });
+      expect(saveManager.hasBackup(0)).toBe(false);
+      jest.restoreAllMocks();
+
+      expect(saveManager.rollbackSave(-1)).toBe(true);
+      expect(stored('autosave')).toBe(original);
+      expect(saveManager.hasBackup(-1)).toBe(false);
+    });
+
+    it('should not back up a save that needed no changes', () => {
+      saveManager.saveGame(1, {});
+
+      saveManager.loadGame(1);
+
+      expect(saveManager.hasBackup(1)).toBe(false);
+      expect(saveManager.rollbackSave(1)).toBe(false);
+    });
+
+    it('should repair a save with invalid fields', () => {
+      store('save_2', {
+        ...legacySave,
+        version: '1.0.0',
+        player: { ...legacySave.player, health: 99, currentLevel: 'two' },
+      });
+
+      const loaded = saveManager.loadGame(2);
+
+      expect(loaded!.player.health).toBe(20);
+      expect(loaded!.player.currentLevel).toBe(1);
+      expect(saveManager.hasBackup(2)).toBe(true);
+    });
+
+    it('should reject a corrupted save and leave it in storage', () => {
+      store('save_3', { version: '1.0.0', player: null });
+      const corrupted = stored('save_3');
+
+      expect(saveManager.loadGame(3)).toBeUndefined();
+      expect(stored('save_3')).toBe(corrupted);
+      expect(saveManager.hasBackup(3)).toBe(false);
+    });
+
+    it('should reject a save from a newer version of the game', () => {
+      store('save_4', { ...legacySave, version: '9.0.0' });
+
+      expect(saveManager.loadGame(4)).toBeUndefined();
+    });
+
+    it('should refuse to restore a corrupted save', () => {
+      expect(saveManager.restoreSave(0, { player: 'x' } as any)).toBe(false);
+      expect(saveManager.hasSave(0)).toBe(false);
+    });
+
+    it('should remove backups along with their saves', () => {
+      store('save_0', legacySave);
+      store('autosave', legacySave);
+      saveManager.loadGame(0);
+      saveManager.loadAutoGame();
+
+      saveManager.deleteSave(0);
+      expect(saveManager.hasBackup(0)).toBe(false);
+
+      saveManager.clearAllSaves();
+      expect(saveManager.hasBackup(-1)).toBe(false);
+    });
+  });
+
   describe('destroy', () => {
     it('should clean up resources', () => {
       saveManager.destroy();
@@ -0,0 +1,114 @@
+import {
+  CURRENT_SAVE_VERSION,
+  SAVE_MIGRATIONS,
+  SaveMigration,
+  SaveMigrationError,
+  compareVersions,
+  migrateSave,
+} from '../../../src/core/SaveMigrations';
+
+describe('SaveMigrations', () => {
+  describe('compareVersions', () => {
+    it('should order versions by major, minor and patch', () => {
+      expect(compareVersions('1.0.0', '1.0.0')).toBe(0);
+      expect(compareVersions('1.2.0', '1.10.0')).toBeLessThan(0);
+      expect(compareVersions('2.0.0', '1.9.9')).toBeGreaterThan(0);
+      expect(compareVersions('1.0.1', '1.0.0')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('SAVE_MIGRATIONS', () => {
+    it('should form an unbroken chain up to the current version', () => {
+      for (let i = 1; i < SAVE_MIGRATIONS.length; i++) {
+        expect(SAVE_MIGRATIONS[i].from).toBe(SAVE_MIGRATIONS[i - 1].to);
+      }
+      expect(SAVE_MIGRATIONS[SAVE_MIGRATIONS.length - 1].to).toBe(
+        CURRENT_SAVE_VERSION,
+      );
+    });
+  });
+
+  describe('migrateSave', () => {
+    const chain: SaveMigration[] = [
+      {
+        from: '1.0.0',
+        to: '1.1.0',
+        description: 'rename coins',
+        migrate: ({ coins, ...save }) => ({ ...save, gems: coins }),
+      },
+      {
+        from: '1.1.0',
+        to: '2.0.0',
+        description: 'double gems',
+        migrate: (save) => ({ ...save, gems: save.gems * 2 }),
+      },
+    ];
+
+    it('should run every step from the save version in order', () => {
+      const result = migrateSave(
+        { version: '1.0.0', coins: 3 },
+        chain,
+        '2.0.0',
+      );
+
+      expect(result).toEqual({
+        save: { version: '2.0.0', gems: 6 },
+        fromVersion: '1.0.0',
+        applied: ['1.0.0->1.1.0', '1.1.0->2.0.0'],
+      });
+    });
+
+    it('should start part way along the chain', () => {
+      const result = migrateSave({ version: '1.1.0', gems: 1 }, chain, '2.0.0');
+
+      expect(result.applied).toEqual(['1.1.0->2.0.0']);
+      expect(result.save.gems).toBe(2);
+    });
+
+    it('should leave a current save alone', () => {
+      const save = { version: '2.0.0', gems: 1 };
+
+      const result = migrateSave(save, chain, '2.0.0');
+
+      expect(result.save).toBe(save);
+      expect(result.applied).toEqual([]);
+    });
+
+    it('should not modify the save it was given', () => {
+      const save = { version: '1.0.0', coins: 3 };
+
+      migrateSave(save, chain, '2.0.0');
+
+      expect(save).toEqual({ version: '1.0.0', coins: 3 });
+    });
+
+    it('should treat a save without a valid version as legacy', () => {
+      const result = migrateSave({ version: 'beta', player: {} });
+
+      expect(result.fromVersion).toBe('0.0.0');
+      expect(result.save).toEqual({
+        version: CURRENT_SAVE_VERSION,
+        player: {},
+        levels: {},
+        settings: {
+          musicVolume: 100,
+          sfxVolume: 100,
+          musicEnabled: true,
+          sfxEnabled: true,
+        },
+      });
+    });
+
+    it('should refuse a save from a newer version', () => {
+      expect(() => migrateSave({ version: '3.0.0' }, chain, '2.0.0')).toThrow(
+        SaveMigrationError,
+      );
+    });
+
+    it('should refuse a save no step leads on from', () => {
+      expect(() => migrateSave({ version: '1.0.5' }, chain, '2.0.0')).toThrow(
+        'No migration from save version 1.0.5',
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { validateSaveData } from '../../../src/core/SaveSchema';
+import { SaveData } from '../../../src/core/SaveManager';
+
+describe('validateSaveData', () => {
+  const validSave = (): SaveData => ({
+    version: '1.0.0',
+    timestamp: 1000,
+    player: {
+      health: 15,
+      maxHealth: 20,
+      currentLevel: 2,
+      unlockedLevels: [1, 2],
+      totalScore: 300,
+      totalCoins: 12,
+      totalEnemiesDefeated: 4,
+    },
+    levels: {
+      1: { highScore: 300, completed: true, bestTime: 42, lastCheckpoint: 0 },
+    },
+    lastPosition: { level: 2, x: 100, y: 200 },
+    settings: {
+      musicVolume: 80,
+      sfxVolume: 60,
+      musicEnabled: true,
+      sfxEnabled: false,
+    },
+  });
+
+  const repaired = (save: unknown) => {
+    const result = validateSaveData(save);
+    if (!result.valid) throw new Error(result.errors.join('; '));
+    return result;
+  };
+
+  it('should accept a valid save unchanged', () => {
+    expect(validateSaveData(validSave())).toEqual({
+      valid: true,
+      data: validSave(),
+      repairs: [],
+    });
+  });
+
+  it('should reject anything that is not a save', () => {
+    expect(validateSaveData(null)).toEqual({
+      valid: false,
+      errors: ['Save is not an object'],
+    });
+    expect(validateSaveData([])).toMatchObject({ valid: false });
+    expect(validateSaveData({ version: '1.0.0', player: 'x' })).toEqual({
+      valid: false,
+      errors: ['Save has no player record'],
+    });
+  });
+
+  it('should repair player fields', () => {
+    const save: any = validSave();
+    save.player = {
+      health: 50,
+      maxHealth: 'lots',
+      currentLevel: 0,
+      unlockedLevels: [2, 2, 'three', -1],
+      totalScore: -5,
+      totalCoins: NaN,
+    };
+
+    const result = repaired(save);
+
+    expect(result.data.player).toEqual({
+      health: 20,
+      maxHealth: 20,
+      currentLevel: 1,
+      unlockedLevels: [1, 2],
+      totalScore: 0,
+      totalCoins: 0,
+      totalEnemiesDefeated: 0,
+    });
+    expect(result.repairs).toEqual(
+      expect.arrayContaining([
+        'Reset invalid player.maxHealth',
+        'Reset invalid player.health',
+        'Reset invalid player.currentLevel',
+        'Reset invalid player.unlockedLevels',
+      ]),
+    );
+  });
+
+  it('should repair or drop level records', () => {
+    const save: any = validSave();
+    save.levels = {
+      1: { highScore: 'high', completed: 1, bestTime: -3, lastCheckpoint: 2 },
+      2: 'done',
+      zero: { highScore: 10 },
+    };
+
+    const result = repaired(save);
+
+    expect(result.data.levels).toEqual({
+      1: { highScore: 0, completed: false, lastCheckpoint: 2 },
+    });
+    expect(result.repairs).toEqual([
+      'Repaired record for level 1',
+      'Dropped invalid record for level 2',
+      'Dropped invalid record for level zero',
+    ]);
+  });
+
+  it('should clamp volumes and fill in missing settings', () => {
+    const save: any = validSave();
+    save.settings = { musicVolume: 150, sfxVolume: -10 };
+
+    expect(repaired(save).data.settings).toEqual({
+      musicVolume: 100,
+      sfxVolume: 0,
+      musicEnabled: true,
+      sfxEnabled: true,
+    });
+
+    delete save.settings;
+    expect(repaired(save).repairs).toEqual(['Reset invalid settings']);
+  });
+
+  it('should drop an invalid last position', () => {
+    const save: any = validSave();
+    save.lastPosition = { level: 2, x: 'left' };
+
+    const result = repaired(save);
+
+    expect(result.data.lastPosition).toBeUndefined();
+    expect(result.repairs).toEqual(['Dropped invalid lastPosition']);
+  });
+
+  it('should replace an invalid timestamp with the current time', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(5000);
+    const save: any = validSave();
+    save.timestamp = 'yesterday';
+
+    expect(repaired(save).data.timestamp).toBe(5000);
+    jest.restoreAllMocks();
+  });
+});
@@ -10,7 +10,11 @@ jest.mock('phaser', () => ({
   })),
 }));
 
-import { TilemapLoader } from '../../../src/core/TilemapLoader';
+import {
+  TilemapLoader,
+  readTiledProperties,
+  toTilemapObject,
+} from '../../../src/core/TilemapLoader';
 
 describe('TilemapLoader', () => {
   let mockScene: any;
@@ -51,4 +55,65 @@ describe('TilemapLoader', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('readTiledProperties', () => {
+    it('should read Tiled property lists', () => {
+      expect(
+        readTiledProperties([
+          { name: 'speed', type: 'int', value: 80 },
+          { name: 'oneWay', type: 'bool', value: true },
+        ]),
+      ).toEqual({ speed: 80, oneWay: true });
+    });
+
+    it('should accept a plain record or nothing', () => {
+      expect(readTiledProperties({ damage: 2 })).toEqual({ damage: 2 });
+      expect(readTiledProperties(undefined)).toEqual({});
+    });
+  });
+
+  describe('toTilemapObject', () => {
+    it('should make polyline points absolute', () => {
+      const obj = toTilemapObject(
+        {
+          id: 3,
+          name: 'lift',
+          type: '',
+          x: 100,
+          y: 50,
+          polyline: [
+            { x: 0, y: 0 },
+            { x: 0, y: -120 },
+          ],
+        } as any,
+        'Platforms',
+      );
+
+      expect(obj).toEqual({
+        id: 3,
+        name: 'lift',
+        type: '',
+        layer: 'platforms',
+        x: 100,
+        y: 50,
+        width: 0,
+        height: 0,
+        properties: {},
+        points: [
+          { x: 100, y: 50 },
+          { x: 100, y: -70 },
+        ],
+        closed: false,
+      });
+    });
+
+    it('should fall back to the Tiled class for the type', () => {
+      const obj = toTilemapObject(
+        { id: 1, class: 'spike', x: 0, y: 0 } as any,
+        'hazards',
+      );
+
+      expect(obj.type).toBe('spike');
+    });
+  });
 });
@@ -0,0 +1,175 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  DEFAULT_ENTITY_DEFINITIONS,
+  parseEntityDefinitions,
+  validateEnemyDefinition,
+  validateItemDefinition,
+  validateSkillDefinition,
+} from '../../../src/factories/EntityDefinitions';
+
+describe('EntityDefinitions', () => {
+  describe('entities.json', () => {
+    it('should be valid', () => {
+      const file = JSON.parse(
+        readFileSync(
+          join(__dirname, '../../../public/assets/data/entities.json'),
+          'utf8',
+        ),
+      );
+
+      expect(parseEntityDefinitions(file).errors).toEqual([]);
+    });
+  });
+
+  describe('validateEnemyDefinition', () => {
+    it('should accept a variant of a base enemy', () => {
+      expect(
+        validateEnemyDefinition({
+          base: 'slime',
+          texture: 'king_slime',
+          health: 10,
+          ai: { chaseSpeed: 120, lootTable: ['gem_red'] },
+          attacks: {
+            melee: { damage: 2 },
+            stomp: {
+              type: 'aoe',
+              damage: 3,
+              range: 80,
+              telegraphTime: 900,
+              attackDuration: 400,
+              cooldown: 5000,
+            },
+          },
+        }),
+      ).toEqual([]);
+    });
+
+    it('should report every problem with its path', () => {
+      expect(
+        validateEnemyDefinition(
+          {
+            base: 'dragon',
+            health: 0,
+            ai: { chaseSpeed: 'fast', lootTable: 'coin' },
+          },
+          'enemies.dragon',
+        ),
+      ).toEqual([
+        'enemies.dragon.base must be one of slime, flying, archer',
+        'enemies.dragon.health must be at least 1',
+        'enemies.dragon.ai.chaseSpeed must be a number',
+        'enemies.dragon.ai.lootTable must be a list of item ids',
+      ]);
+    });
+
+    it('should require new attacks to be complete', () => {
+      expect(
+        validateEnemyDefinition(
+          { base: 'archer', attacks: { melee: { damage: 1 } } },
+          'enemies.brawler',
+        ),
+      ).toEqual(
+        expect.arrayContaining([
+          'enemies.brawler.attacks.melee.type is required',
+          'enemies.brawler.attacks.melee.cooldown is required',
+        ]),
+      );
+    });
+  });
+
+  describe('validateItemDefinition', () => {
+    it('should require a gem type for gems', () => {
+      expect(validateItemDefinition({ base: 'gem' }, 'items.gem')).toEqual([
+        'items.gem.gemType is required',
+      ]);
+    });
+
+    it('should not let data change the item type', () => {
+      expect(
+        validateItemDefinition(
+          { base: 'coin', config: { type: 'key', value: -1 } },
+          'items.coin',
+        ),
+      ).toEqual([
+        'items.coin.config.value must be at least 0',
+        'items.coin.config.type is set by the base class',
+      ]);
+    });
+  });
+
+  describe('validateSkillDefinition', () => {
+    it('should require the core skill settings', () => {
+      expect(validateSkillDefinition({ kind: 'heal' }, 'skills.heal')).toEqual([
+        'skills.heal.name is required',
+        'skills.heal.cooldown is required',
+        'skills.heal.target is required',
+      ]);
+    });
+  });
+
+  describe('parseEntityDefinitions', () => {
+    it('should use the defaults when there is no file', () => {
+      expect(parseEntityDefinitions(undefined)).toEqual({
+        definitions: DEFAULT_ENTITY_DEFINITIONS,
+        errors: [],
+      });
+    });
+
+    it('should lay valid entries over the defaults', () => {
+      const { definitions, errors } = parseEntityDefinitions({
+        enemies: { king_slime: { base: 'slime', health: 10 } },
+        skills: {
+          blink: {
+            kind: 'dash',
+            name: 'Blink',
+            cooldown: 500,
+            target: 'directional',
+          },
+        },
+        powerUps: { shield: { duration: 12000 } },
+      });
+
+      expect(errors).toEqual([]);
+      expect(definitions.enemies.king_slime).toEqual({
+        base: 'slime',
+        health: 10,
+      });
+      expect(definitions.enemies.slime).toBeDefined();
+      expect(definitions.skills.blink.name).toBe('Blink');
+      expect(definitions.powerUps.shield).toEqual({ duration: 12000 });
+      expect(definitions.powerUps.doubleJump).toEqual({ duration: 10000 });
+    });
+
+    it('should skip invalid entries and keep the rest', () => {
+      const { definitions, errors } = parseEntityDefinitions({
+        enemies: {
+          slime: { base: 'slime', health: 'lots' },
+          bat: { base: 'flying', health: 1 },
+        },
+        powerUps: { shield: { duration: 0 }, invisibility: { duration: 1 } },
+      });
+
+      expect(errors).toEqual([
+        'enemies.slime.health must be a number',
+        'powerUps.shield.duration must be at least 0.01',
+        'powerUps.invisibility is not a known power-up',
+      ]);
+      expect(definitions.enemies.slime).toEqual({ base: 'slime' });
+      expect(definitions.enemies.bat).toEqual({ base: 'flying', health: 1 });
+      expect(definitions.powerUps.shield).toEqual({ duration: 8000 });
+    });
+
+    it('should not change the defaults', () => {
+      parseEntityDefinitions({ enemies: { bat: { base: 'flying' } } });
+
+      expect(DEFAULT_ENTITY_DEFINITIONS.enemies.bat).toBeUndefined();
+    });
+
+    it('should reject a file that is not an object', () => {
+      expect(parseEntityDefinitions([]).errors).toEqual([
+        'Entity definitions must be an object',
+      ]);
+    });
+  });
+});
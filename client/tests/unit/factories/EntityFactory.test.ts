@@ -0,0 +1,402 @@
+import { EntityFactory } from '../../../src/factories/EntityFactory';
+import {
+  ENTITY_DEFINITIONS_KEY,
+  parseEntityDefinitions,
+} from '../../../src/factories/EntityDefinitions';
+import { Archer, FlyingEnemy, Slime } from '../../../src/entities/Enemy';
+import { BlueGem, Coin } from '../../../src/entities/Item';
+import { DashSkill, HealSkill } from '../../../src/entities/Skill';
+import {
+  HealthBoostPowerUp,
+  ShieldPowerUp,
+  SpeedBoostPowerUp,
+} from '../../../src/entities/PowerUp';
+import { Lava, SawBlade, Spike } from '../../../src/entities/Hazard';
+import { Boss } from '../../../src/entities/Boss';
+import { logger } from '../../../src/utils/logger';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+// Entities stand-ins recording how they were built
+jest.mock('../../../src/entities/Enemy', () => {
+  const enemy = (health: number) =>
+    jest.fn().mockImplementation((_scene, x, y, config) => ({
+      x,
+      y,
+      config,
+      health,
+      maxHealth: health,
+      setTexture: jest.fn(),
+      configureAttack: jest.fn(),
+    }));
+  return { Slime: enemy(3), FlyingEnemy: enemy(2), Archer: enemy(5) };
+});
+
+jest.mock('../../../src/entities/Item', () => {
+  const item = () =>
+    jest.fn().mockImplementation((_scene, x, y, config) => ({
+      x,
+      y,
+      config,
+      setTexture: jest.fn(),
+    }));
+  return {
+    HealthPotion: item(),
+    Coin: item(),
+    SpeedBoost: item(),
+    Key: item(),
+    RedGem: item(),
+    BlueGem: item(),
+    GreenGem: item(),
+    PurpleGem: item(),
+    YellowGem: item(),
+  };
+});
+
+jest.mock('../../../src/entities/Skill', () => {
+  const skill = () => jest.fn().mockImplementation((config) => ({ config }));
+  return {
+    DashSkill: skill(),
+    FireballSkill: skill(),
+    HealSkill: skill(),
+    SkillTarget: {
+      Self: 'self',
+      Directional: 'directional',
+      Target: 'target',
+      Area: 'area',
+      Projectile: 'projectile',
+    },
+  };
+});
+
+jest.mock('../../../src/entities/PowerUp', () => ({
+  ShieldPowerUp: jest.fn(),
+  DoubleJumpPowerUp: jest.fn(),
+  SpeedBoostPowerUp: jest.fn(),
+  HealthBoostPowerUp: jest.fn(),
+  DamageBoostPowerUp: jest.fn(),
+}));
+
+jest.mock('../../../src/entities/Hazard', () => ({
+  Spike: jest.fn(),
+  Lava: jest.fn(),
+  SawBlade: jest.fn(),
+  Fire: jest.fn(),
+  Acid: jest.fn(),
+}));
+
+jest.mock('../../../src/entities/Boss', () => ({
+  Boss: jest.fn().mockImplementation((_scene, x, y, texture, config) => ({
+    x,
+    y,
+    texture,
+    config,
+    health: 100,
+    maxHealth: 100,
+  })),
+}));
+
+jest.mock('../../../src/entities/Checkpoint', () => ({
+  Checkpoint: jest.fn(),
+}));
+
+jest.mock('../../../src/entities/Player', () => ({ Player: jest.fn() }));
+jest.mock('../../../src/entities/Platform', () => ({
+  Platform: jest.fn(),
+  PlatformMovement: {},
+}));
+
+describe('EntityFactory', () => {
+  let scene: any;
+  let cachedFile: unknown;
+
+  const withFile = (file: unknown) => {
+    cachedFile = file;
+    return new EntityFactory(scene);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cachedFile = undefined;
+    scene = {
+      add: { existing: jest.fn() },
+      cache: {
+        json: {
+          get: jest.fn((key: string) =>
+            key === ENTITY_DEFINITIONS_KEY ? cachedFile : undefined,
+          ),
+        },
+      },
+    };
+  });
+
+  describe('definitions', () => {
+    it('should read the definitions file from the JSON cache', () => {
+      const factory = withFile({ enemies: { bat: { base: 'flying' } } });
+
+      expect(factory.getDefinitions().enemies.bat).toEqual({
+        base: 'flying',
+      });
+    });
+
+    it('should warn about invalid entries and use the defaults', () => {
+      const factory = withFile({ enemies: { slime: { health: 1 } } });
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('enemies.slime.base is required'),
+      );
+      expect(factory.getDefinitions().enemies.slime).toEqual({
+        base: 'slime',
+      });
+    });
+
+    it('should prefer definitions passed in', () => {
+      const { definitions } = parseEntityDefinitions({
+        enemies: { bat: { base: 'flying' } },
+      });
+
+      const factory = new EntityFactory(scene, { definitions });
+
+      expect(factory.getDefinitions()).toBe(definitions);
+      expect(scene.cache.json.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createEnemy', () => {
+    it('should build a variant from its definition', () => {
+      const factory = withFile({
+        enemies: {
+          king_slime: {
+            base: 'slime',
+            texture: 'king_slime',
+            health: 10,
+            ai: { chaseSpeed: 120, detectionRange: 250 },
+            attacks: { melee: { damage: 3 } },
+          },
+        },
+      });
+
+      const enemy: any = factory.createEnemy('king_slime', 10, 20, {
+        detectionRange: 500,
+      });
+
+      expect(Slime).toHaveBeenCalledWith(scene, 10, 20, {
+        chaseSpeed: 120,
+        detectionRange: 500,
+      });
+      expect(enemy.setTexture).toHaveBeenCalledWith('king_slime');
+      expect(enemy.health).toBe(10);
+      expect(enemy.maxHealth).toBe(10);
+      expect(enemy.configureAttack).toHaveBeenCalledWith('melee', {
+        damage: 3,
+      });
+      expect(scene.add.existing).toHaveBeenCalledWith(enemy);
+    });
+
+    it('should keep the class defaults without a definitions file', () => {
+      const factory = withFile(undefined);
+
+      const enemy: any = factory.createArcher(0, 0);
+
+      expect(Archer).toHaveBeenCalledWith(scene, 0, 0, {});
+      expect(enemy.health).toBe(5);
+      expect(enemy.setTexture).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a slime for an unknown type', () => {
+      const factory = withFile(undefined);
+
+      factory.createEnemy('dragon', 0, 0);
+
+      expect(Slime).toHaveBeenCalled();
+      expect(FlyingEnemy).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Unknown enemy type: dragon, using slime',
+      );
+    });
+  });
+
+  describe('createItem', () => {
+    it('should build an item with its definition config and texture', () => {
+      const factory = withFile({
+        items: {
+          coin: { base: 'coin', config: { value: 5 } },
+          big_coin: {
+            base: 'coin',
+            texture: 'big_coin',
+            config: { value: 25 },
+          },
+        },
+      });
+
+      const coin: any = factory.createCoin(1, 2);
+      const bigCoin: any = factory.createItem('big_coin', 3, 4);
+
+      expect(Coin).toHaveBeenCalledWith(scene, 1, 2, { value: 5 });
+      expect(coin.setTexture).toHaveBeenCalledWith('coin');
+      expect(bigCoin.config).toEqual({ value: 25 });
+      expect(bigCoin.setTexture).toHaveBeenCalledWith('big_coin');
+    });
+
+    it('should build gems from their definitions', () => {
+      const factory = withFile({
+        items: {
+          gem_blue: { base: 'gem', gemType: 'blue', config: { value: 150 } },
+        },
+      });
+
+      factory.createGem('blue', 0, 0, { isSecret: true });
+
+      expect(BlueGem).toHaveBeenCalledWith(scene, 0, 0, {
+        value: 150,
+        isSecret: true,
+      });
+    });
+
+    it('should refuse an unknown item', () => {
+      const factory = withFile(undefined);
+
+      expect(() => factory.createItem('sword', 0, 0)).toThrow(
+        'Unknown item ID: sword',
+      );
+    });
+  });
+
+  describe('createSkill', () => {
+    it('should build a skill from its definition', () => {
+      const factory = withFile({
+        skills: {
+          blink: {
+            kind: 'dash',
+            name: 'Blink',
+            cooldown: 500,
+            range: 300,
+            target: 'directional',
+          },
+        },
+      });
+
+      factory.createSkill('blink', { cost: 5 });
+
+      expect(DashSkill).toHaveBeenCalledWith({
+        id: 'blink',
+        name: 'Blink',
+        cooldown: 500,
+        range: 300,
+        target: 'directional',
+        cost: 5,
+      });
+    });
+
+    it('should keep the built-in skills', () => {
+      const factory = withFile(undefined);
+
+      factory.createSkill('heal');
+
+      expect(HealSkill).toHaveBeenCalledWith({
+        id: 'heal',
+        name: 'Heal',
+        cooldown: 5000,
+        cost: 30,
+        target: 'target',
+      });
+    });
+
+    it('should refuse an unknown skill', () => {
+      const factory = withFile(undefined);
+
+      expect(() => factory.createSkill('teleport')).toThrow(
+        'Unknown skill ID: teleport',
+      );
+    });
+  });
+
+  describe('power-ups', () => {
+    it('should default durations to the definitions', () => {
+      const factory = withFile({ powerUps: { shield: { duration: 12000 } } });
+      const manager: any = {};
+
+      factory.createShieldPowerUp(manager, 0, 0);
+      factory.createShieldPowerUp(manager, 0, 0, 3000);
+
+      expect(ShieldPowerUp).toHaveBeenNthCalledWith(
+        1,
+        scene,
+        0,
+        0,
+        manager,
+        12000,
+      );
+      expect(ShieldPowerUp).toHaveBeenNthCalledWith(
+        2,
+        scene,
+        0,
+        0,
+        manager,
+        3000,
+      );
+    });
+
+    it('should build a power-up by type with definition defaults', () => {
+      const factory = withFile(undefined);
+      const manager: any = {};
+
+      factory.createPowerUp('speed_boost', manager, 1, 2, { multiplier: 3 });
+      factory.createPowerUp('health_boost', manager, 3, 4);
+
+      expect(SpeedBoostPowerUp).toHaveBeenCalledWith(
+        scene,
+        1,
+        2,
+        manager,
+        6000,
+        3,
+      );
+      expect(HealthBoostPowerUp).toHaveBeenCalledWith(scene, 3, 4, manager, 5);
+    });
+  });
+
+  describe('createHazard', () => {
+    it('should build each hazard type with its options', () => {
+      const factory = withFile(undefined);
+
+      factory.createHazard('lava', 0, 0, { width: 128, damage: 4 });
+      factory.createHazard('saw_blade', 1, 1, { moving: true, moveRange: 50 });
+      factory.createHazard('spike', 2, 2);
+
+      expect(Lava).toHaveBeenCalledWith(scene, 0, 0, 128, undefined, 4);
+      expect(SawBlade).toHaveBeenCalledWith(
+        scene,
+        1,
+        1,
+        undefined,
+        true,
+        undefined,
+        50,
+      );
+      expect(Spike).toHaveBeenCalledWith(scene, 2, 2, undefined);
+    });
+  });
+
+  describe('createBoss', () => {
+    it('should build a boss with the boss texture and health', () => {
+      const factory = withFile(undefined);
+
+      const boss: any = factory.createBoss(5, 6, { chaseSpeed: 150 }, 250);
+
+      expect(Boss).toHaveBeenCalledWith(scene, 5, 6, 'boss', {
+        chaseSpeed: 150,
+      });
+      expect(boss.health).toBe(250);
+      expect(boss.maxHealth).toBe(250);
+      expect(scene.add.existing).toHaveBeenCalledWith(boss);
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import {
+  buildSpawnCatalogue,
+  LevelSpawner,
+} from '../../../src/factories/LevelSpawner';
+import { TilemapObject } from '../../../src/core/TilemapLoader';
+import { logger } from '../../../src/utils/logger';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/entities/Platform', () => ({
+  PlatformMovement: {
+    Static: 'static',
+    Horizontal: 'horizontal',
+    Vertical: 'vertical',
+    Circular: 'circular',
+    Patrolling: 'patrolling',
+    Path: 'path',
+  },
+}));
+
+describe('LevelSpawner', () => {
+  let factory: any;
+  let nextId: number;
+
+  const object = (
+    layer: string,
+    type: string,
+    fields: Partial<TilemapObject> = {},
+  ): TilemapObject => ({
+    id: nextId++,
+    name: '',
+    type,
+    layer,
+    x: 100,
+    y: 200,
+    width: 32,
+    height: 32,
+    properties: {},
+    ...fields,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    nextId = 1;
+    const entity =
+      (kind: string) =>
+        (...args: unknown[]) => ({ kind, args, health: 3, maxHealth: 3 });
+    factory = {
+      createPlatform: jest.fn(entity('platform')),
+      createEnemy: jest.fn(entity('enemy')),
+      createBoss: jest.fn(entity('boss')),
+      createItem: jest.fn((id: string, ...rest: unknown[]) => {
+        if (id === 'sword') {
+          throw new Error(`Unknown item ID: ${id}`);
+        }
+        return { kind: 'item', args: [id, ...rest] };
+      }),
+      createHazard: jest.fn(entity('hazard')),
+      createCheckpoint: jest.fn(entity('checkpoint')),
+      createPowerUp: jest.fn(entity('powerUp')),
+    };
+  });
+
+  describe('platforms', () => {
+    it('should size a static platform from its object', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('platforms', 'static', { width: 128, height: 32 }),
+      ]);
+
+      expect(factory.createPlatform).toHaveBeenCalledWith(164, 216, {
+        movement: 'static',
+        tileSize: 32,
+        tileWidth: 4,
+        tileHeight: 1,
+      });
+    });
+
+    it('should map moving platform types and properties', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('platforms', 'moving_vertical', {
+          properties: { moveDistance: 150, speed: 80, oneWay: true },
+        }),
+      ]);
+
+      expect(factory.createPlatform).toHaveBeenCalledWith(
+        116,
+        216,
+        expect.objectContaining({
+          movement: 'vertical',
+          travelDistance: 150,
+          speed: 80,
+          oneWay: true,
+        }),
+      );
+    });
+
+    it('should follow a polyline as a path', () => {
+      const spawner = new LevelSpawner(factory);
+      const points = [
+        { x: 100, y: 200 },
+        { x: 300, y: 200 },
+        { x: 300, y: 100 },
+      ];
+
+      spawner.spawn([
+        object('platforms', '', {
+          width: 0,
+          height: 0,
+          points,
+          closed: false,
+          properties: { tileWidth: 3 },
+        }),
+      ]);
+
+      expect(factory.createPlatform).toHaveBeenCalledWith(
+        100,
+        200,
+        expect.objectContaining({
+          movement: 'path',
+          path: points,
+          loop: false,
+          tileWidth: 3,
+        }),
+      );
+    });
+
+    it('should loop around a polygon', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('platforms', 'path', {
+          points: [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 },
+          ],
+          closed: true,
+        }),
+      ]);
+
+      expect(factory.createPlatform.mock.calls[0][2].loop).toBe(true);
+    });
+  });
+
+  describe('enemies', () => {
+    it('should pass AI and health properties to the definition', () => {
+      const spawner = new LevelSpawner(factory);
+
+      const { enemies } = spawner.spawn([
+        object('enemies', 'king_slime', {
+          properties: {
+            chaseSpeed: 120,
+            flying: false,
+            lootTable: 'coin, gem_red',
+            health: 12,
+            colour: 'green',
+          },
+        }),
+      ]);
+
+      expect(factory.createEnemy).toHaveBeenCalledWith('king_slime', 116, 216, {
+        chaseSpeed: 120,
+        flying: false,
+        lootTable: ['coin', 'gem_red'],
+      });
+      expect(enemies[0]!.health).toBe(12);
+      expect(enemies[0]!.maxHealth).toBe(12);
+    });
+
+    it('should spawn a boss', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('enemies', 'boss', { properties: { health: 300 } }),
+      ]);
+
+      expect(factory.createBoss).toHaveBeenCalledWith(116, 216, {}, 300);
+      expect(factory.createEnemy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('items, hazards, checkpoints and power-ups', () => {
+    it('should spawn items by id', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('items', 'gem_blue', { properties: { isSecret: true } }),
+      ]);
+
+      expect(factory.createItem).toHaveBeenCalledWith('gem_blue', 116, 216, {
+        isSecret: true,
+      });
+    });
+
+    it('should spawn hazards with their size and properties', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('hazards', 'lava', {
+          width: 192,
+          height: 48,
+          properties: { damage: 4 },
+        }),
+        object('hazards', 'saw_blade', {
+          width: 0,
+          height: 0,
+          properties: { moving: true, moveRange: 160 },
+        }),
+      ]);
+
+      expect(factory.createHazard).toHaveBeenCalledWith('lava', 196, 224, {
+        width: 192,
+        height: 48,
+        damage: 4,
+      });
+      expect(factory.createHazard).toHaveBeenCalledWith('saw_blade', 100, 200, {
+        moving: true,
+        moveRange: 160,
+      });
+    });
+
+    it('should number checkpoints by property or order', () => {
+      const spawner = new LevelSpawner(factory);
+
+      spawner.spawn([
+        object('checkpoints', 'checkpoint'),
+        object('checkpoints', 'checkpoint', {
+          name: 'summit',
+          properties: { number: 5 },
+        }),
+      ]);
+
+      expect(factory.createCheckpoint).toHaveBeenNthCalledWith(
+        1,
+        'checkpoint_1',
+        116,
+        216,
+        1,
+      );
+      expect(factory.createCheckpoint).toHaveBeenNthCalledWith(
+        2,
+        'summit',
+        116,
+        216,
+        5,
+      );
+    });
+
+    it('should spawn power-ups with the manager', () => {
+      const manager: any = {};
+      const spawner = new LevelSpawner(factory, { powerUpManager: manager });
+
+      spawner.spawn([
+        object('power_ups', 'shield', { properties: { duration: 4000 } }),
+      ]);
+
+      expect(factory.createPowerUp).toHaveBeenCalledWith(
+        'shield',
+        manager,
+        116,
+        216,
+        { duration: 4000 },
+      );
+    });
+  });
+
+  describe('player and exit', () => {
+    it('should read the spawn point and the exit', () => {
+      const spawner = new LevelSpawner(factory);
+
+      const level = spawner.spawn([
+        object('player', 'spawn'),
+        object('exit', 'level_exit', {
+          width: 64,
+          height: 64,
+          properties: { nextLevel: 'level3' },
+        }),
+      ]);
+
+      expect(level.playerSpawn).toEqual({ x: 116, y: 216 });
+      expect(level.exit).toEqual({
+        x: 132,
+        y: 232,
+        width: 64,
+        height: 64,
+        nextLevel: 'level3',
+      });
+    });
+  });
+
+  describe('skipped objects', () => {
+    it('should skip objects it cannot spawn and keep going', () => {
+      const spawner = new LevelSpawner(factory);
+
+      const level = spawner.spawn([
+        object('items', 'sword'),
+        object('hazards', 'quicksand'),
+        object('powerups', 'shield'),
+        object('decorations', 'tree'),
+        object('platforms', 'bouncy'),
+        object('items', 'coin'),
+      ]);
+
+      expect(level.items).toHaveLength(1);
+      expect(level.skipped).toEqual([
+        'items object 1 (sword): Unknown item ID: sword',
+        'hazards object 2 (quicksand): unknown hazard type quicksand',
+        'powerups object 3 (shield): no power-up manager',
+        'decorations object 4 (tree): unknown object layer decorations',
+        'platforms object 5 (bouncy): unknown platform type bouncy',
+      ]);
+      expect(logger.warn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('buildSpawnCatalogue', () => {
+    it('should list defined enemies and items alongside the fixed types', () => {
+      const catalogue = buildSpawnCatalogue({
+        enemies: { slime: {}, king_slime: {} },
+        items: { coin: {} },
+        skills: {},
+      } as any);
+      const types = (layer: string) =>
+        catalogue.filter((e) => e.layer === layer).map((e) => e.type);
+
+      expect(types('enemies')).toEqual(['slime', 'king_slime', 'boss']);
+      expect(types('items')).toEqual(['coin']);
+      expect(types('hazards')).toHaveLength(5);
+      expect(types('powerups')).toHaveLength(5);
+      expect(types('player')).toEqual(['spawn']);
+      expect(catalogue).toContainEqual({
+        layer: 'exit',
+        type: 'level_exit',
+        width: 64,
+        height: 64,
+      });
+    });
+  });
+});
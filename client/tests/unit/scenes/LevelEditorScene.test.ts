@@ -0,0 +1,283 @@
+import {
+  LEVEL_DRAFT_REGISTRY_KEY,
+  LevelEditorScene,
+} from '../../../src/scenes/LevelEditorScene';
+import { InputManager } from '../../../src/core/InputManager';
+import { createLevelDraft, getTile } from '../../../src/core/LevelDraft';
+
+// Declare mocks (using var to avoid TDZ with hoisted jest.mock)
+var mockAddText: jest.Mock;
+var mockGraphics: Record<string, jest.Mock>;
+
+jest.mock('../../../src/core/InputManager', () => ({
+  InputManager: jest.fn(),
+  InputConfig: {},
+}));
+
+jest.mock('../../../src/factories/EntityFactory', () => ({
+  EntityFactory: jest.fn().mockImplementation(() => ({
+    getDefinitions: () => ({
+      enemies: { slime: {} },
+      items: { coin: {}, key: {} },
+      skills: {},
+    }),
+  })),
+}));
+
+jest.mock('../../../src/entities/Platform', () => ({
+  PlatformMovement: {},
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+jest.mock('phaser', () => {
+  mockAddText = jest.fn().mockImplementation(() => ({
+    setOrigin: jest.fn().mockReturnThis(),
+    setScrollFactor: jest.fn().mockReturnThis(),
+    setDepth: jest.fn().mockReturnThis(),
+    setColor: jest.fn().mockReturnThis(),
+    setText: jest.fn().mockReturnThis(),
+    setInteractive: jest.fn().mockReturnThis(),
+    on: jest.fn().mockReturnThis(),
+    destroy: jest.fn(),
+  }));
+  mockGraphics = {
+    clear: jest.fn(),
+    fillStyle: jest.fn(),
+    fillRect: jest.fn(),
+    lineStyle: jest.fn(),
+    lineBetween: jest.fn(),
+    strokeRect: jest.fn(),
+  };
+
+  return {
+    Scene: jest.fn().mockImplementation(function (this: any) {
+      this.cameras = {
+        main: {
+          width: 800,
+          height: 600,
+          scrollX: 0,
+          scrollY: 0,
+          setBounds: jest.fn(),
+          setBackgroundColor: jest.fn(),
+        },
+      };
+      this.add = {
+        text: mockAddText,
+        graphics: () => mockGraphics,
+        rectangle: jest.fn().mockReturnValue({
+          setOrigin: jest.fn().mockReturnThis(),
+          setScrollFactor: jest.fn().mockReturnThis(),
+          setDepth: jest.fn().mockReturnThis(),
+        }),
+      };
+    }),
+  };
+});
+
+describe('LevelEditorScene', () => {
+  let scene: LevelEditorScene;
+  let inputHandler: (event: { action: string; active: boolean }) => void;
+  let pointerHandlers: Record<string, (pointer: any) => void>;
+  let registry: Map<string, unknown>;
+
+  const texts = () => mockAddText.mock.calls.map((call) => call[2]);
+  const click = (label: string) => {
+    const button = mockAddText.mock.results[texts().indexOf(label)]!.value;
+    const [, onClick] = button.on.mock.calls.find(
+      ([event]: [string]) => event === 'pointerdown',
+    );
+    onClick();
+  };
+  const pointer = (worldX: number, worldY: number, right = false) => ({
+    x: worldX,
+    y: worldY,
+    worldX,
+    worldY,
+    isDown: true,
+    rightButtonDown: () => right,
+  });
+  const draft = () => (scene as any).draft;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (InputManager as any).mockImplementation(() => ({
+      onInputEvent: (handler: any) => {
+        inputHandler = handler;
+      },
+      update: jest.fn(),
+      isActionActive: jest.fn().mockReturnValue(false),
+    }));
+    pointerHandlers = {};
+    registry = new Map();
+
+    scene = new LevelEditorScene();
+    (scene as any).scene = { start: jest.fn() };
+    (scene as any).registry = {
+      get: (key: string) => registry.get(key),
+      set: (key: string, value: unknown) => registry.set(key, value),
+    };
+    (scene as any).input = {
+      on: (event: string, handler: any) => {
+        pointerHandlers[event] = handler;
+      },
+    };
+    scene.init({});
+    scene.create();
+  });
+
+  it('should start a new draft after the built-in level', () => {
+    expect(draft().key).toBe('level2');
+  });
+
+  it("should number a new draft after the level manifest's levels", () => {
+    const manifest = {
+      worlds: [
+        {
+          id: 'w1',
+          name: 'World 1',
+          levels: [
+            {
+              number: 12,
+              key: 'frozen_peak',
+              name: 'Frozen Peak',
+              tilemap: 'assets/tilemaps/frozen_peak.json',
+              theme: 'sky',
+            },
+          ],
+        },
+      ],
+    };
+    (scene as any).cache = { json: { get: () => manifest } };
+    registry.clear();
+
+    scene.init({});
+
+    expect(draft().key).toBe('level13');
+  });
+
+  it('should resume the draft kept in the registry', () => {
+    const kept = createLevelDraft('level7');
+    registry.set(LEVEL_DRAFT_REGISTRY_KEY, kept);
+
+    scene.init({});
+
+    expect(draft()).toBe(kept);
+  });
+
+  it('should toggle tiles under the pointer', () => {
+    pointerHandlers.pointerdown!(pointer(40, 200));
+    expect(getTile(draft(), 1, 6)).toBe(1);
+
+    pointerHandlers.pointerdown!(pointer(40, 200));
+    expect(getTile(draft(), 1, 6)).toBe(0);
+  });
+
+  it('should place the selected object on the grid', () => {
+    inputHandler({ action: 'nextTool', active: true });
+
+    pointerHandlers.pointerdown!(pointer(150, 200));
+
+    expect(draft().objects).toEqual([
+      expect.objectContaining({
+        layer: 'platforms',
+        type: 'static',
+        x: 128,
+        y: 192,
+      }),
+    ]);
+  });
+
+  it('should erase objects with a right click', () => {
+    inputHandler({ action: 'nextTool', active: true });
+    pointerHandlers.pointerdown!(pointer(150, 200));
+
+    pointerHandlers.pointerdown!(pointer(150, 200, true));
+
+    expect(draft().objects).toHaveLength(0);
+  });
+
+  it('should set the level config from the toolbar', () => {
+    click('Score +');
+    click('Score +');
+    click('Time +');
+    click('Theme');
+
+    expect(draft().config).toMatchObject({
+      targetScore: 100,
+      timeLimit: 30,
+      theme: 'cave',
+    });
+  });
+
+  it("should cycle through the level manifest's themes", () => {
+    (scene as any).cache = {
+      json: {
+        get: () => ({
+          themes: { lava: { name: 'Lava', backgroundColor: '#ff4500' } },
+        }),
+      },
+    };
+    scene.init({});
+    draft().config.theme = 'sky';
+
+    click('Theme');
+
+    expect(draft().config.theme).toBe('lava');
+    expect(
+      (scene as any).cameras.main.setBackgroundColor,
+    ).toHaveBeenLastCalledWith(0xff4500);
+
+    click('Theme');
+    expect(draft().config.theme).toBe('forest');
+  });
+
+  it('should only require items', () => {
+    click('Require');
+    expect(draft().config.requiredItems).toEqual([]);
+
+    while (
+      (scene as any).tools[(scene as any).toolIndex].entry?.type !== 'coin'
+    ) {
+      inputHandler({ action: 'nextTool', active: true });
+    }
+    click('Require');
+    expect(draft().config.requiredItems).toEqual(['coin']);
+  });
+
+  it('should need a player spawn to playtest', () => {
+    inputHandler({ action: 'playtest', active: true });
+    expect((scene as any).scene.start).not.toHaveBeenCalled();
+
+    (scene as any).draft.objects.push({
+      id: 1,
+      layer: 'player',
+      type: 'spawn',
+      x: 0,
+      y: 0,
+      width: 32,
+      height: 32,
+      properties: {},
+    });
+    inputHandler({ action: 'playtest', active: true });
+
+    expect((scene as any).scene.start).toHaveBeenCalledWith('GameScene', {
+      draft: draft(),
+    });
+    expect(registry.get(LEVEL_DRAFT_REGISTRY_KEY)).toBe(draft());
+  });
+
+  it('should keep the draft when going back to the menu', () => {
+    inputHandler({ action: 'quit', active: true });
+
+    expect((scene as any).scene.start).toHaveBeenCalledWith('MainMenuScene');
+    expect(registry.get(LEVEL_DRAFT_REGISTRY_KEY)).toBe(draft());
+  });
+});
@@ -7,6 +7,9 @@ let mockAddContainer: jest.Mock;
 import { LevelSelectScene } from '../../../src/scenes/LevelSelectScene';
 import { InputManager } from '../../../src/core/InputManager';
 import { SceneService } from '../../../src/core/SceneManager';
+import { LevelLeaderboardService } from '../../../src/services/LevelLeaderboardService';
+import { CommunityLevelService } from '../../../src/services/CommunityLevelService';
+import { ApiError } from '../../../src/services/ApiClient';
 
 jest.mock('../../../src/core/InputManager', () => ({
   InputManager: jest
@@ -19,19 +22,14 @@ jest.mock('../../../src/core/SceneManager', () => ({
   SceneService: jest.fn().mockImplementation(() => ({ startScene: jest.fn() })),
 }));
 
-jest.mock('../../../src/core/LevelManager', () => ({
-  LEVEL_CONFIGS: {
-    '1': { theme: 'forest' },
-    '2': { theme: 'desert' },
-    '3': { theme: 'cave' },
-    '4': { theme: 'castle' },
-    '5': { theme: 'sky' },
-    '6': { theme: 'volcano' },
-    '7': { theme: 'ice' },
-    '8': { theme: 'space' },
-    '9': { theme: 'future' },
-    '10': { theme: 'final' },
-  },
+jest.mock('../../../src/services/LevelLeaderboardService', () => ({
+  LevelLeaderboardService: jest.fn(),
+  formatRunTime: (ms: number) => `${ms}ms`,
+}));
+
+jest.mock('../../../src/services/CommunityLevelService', () => ({
+  ...jest.requireActual('../../../src/services/CommunityLevelService'),
+  CommunityLevelService: jest.fn(),
 }));
 
 jest.mock('../../../src/utils/logger', () => ({
@@ -54,11 +52,14 @@ jest.mock('phaser', () => {
     setScrollFactor: jest.fn().mockReturnThis(),
     setColor: jest.fn().mockReturnThis(),
     setScale: jest.fn().mockReturnThis(),
+    setText: jest.fn().mockReturnThis(),
+    setVisible: jest.fn().mockReturnThis(),
     setInteractive: jest.fn().mockReturnThis(),
     on: jest.fn().mockReturnThis(),
   });
   mockAddContainer = jest.fn().mockReturnValue({
     add: jest.fn().mockReturnThis(),
+    setVisible: jest.fn().mockReturnThis(),
     setSize: jest.fn().mockReturnThis(),
     setInteractive: jest.fn().mockReturnThis(),
     on: jest.fn().mockReturnThis(),
@@ -84,10 +85,39 @@ jest.mock('phaser', () => {
   };
 });
 
+// Two worlds of five levels, each level requiring the one before
+const manifest = {
+  worlds: [
+    { id: 'meadow', name: 'Meadow', levels: [1, 2, 3, 4, 5] },
+    { id: 'peaks', name: 'Peaks', levels: [6, 7, 8, 9, 10] },
+  ].map(({ id, name, levels }) => ({
+    id,
+    name,
+    levels: levels.map((number) => ({
+      number,
+      key: `level${number}`,
+      name: `Stage ${number}`,
+      tilemap: `assets/tilemaps/level${number}.json`,
+      theme: number > 5 ? 'sky' : 'forest',
+      parTime: 30 * number,
+      ...(number > 1 ? { requires: [number - 1] } : {}),
+    })),
+  })),
+};
+
 describe('LevelSelectScene', () => {
   let scene: LevelSelectScene;
   let mockInputManager: jest.Mocked<InputManager>;
   let mockSceneService: jest.Mocked<SceneService>;
+  let mockLeaderboardService: {
+    getLeaderboard: jest.Mock;
+    getMyStanding: jest.Mock;
+  };
+  let mockCommunityService: {
+    searchLevels: jest.Mock;
+    downloadLevel: jest.Mock;
+    rateLevel: jest.Mock;
+  };
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -99,6 +129,21 @@ describe('LevelSelectScene', () => {
     mockSceneService = { startScene: jest.fn() } as any;
     (InputManager as any).mockImplementation(() => mockInputManager);
     (SceneService as any).mockImplementation(() => mockSceneService);
+    mockLeaderboardService = {
+      getLeaderboard: jest.fn().mockResolvedValue([]),
+      getMyStanding: jest.fn().mockResolvedValue(null),
+    };
+    (LevelLeaderboardService as any).mockImplementation(
+      () => mockLeaderboardService,
+    );
+    mockCommunityService = {
+      searchLevels: jest.fn().mockResolvedValue({ levels: [], total: 0 }),
+      downloadLevel: jest.fn(),
+      rateLevel: jest.fn(),
+    };
+    (CommunityLevelService as any).mockImplementation(
+      () => mockCommunityService,
+    );
     scene = new LevelSelectScene() as any;
     (scene as any).cameras = { main: { width: 800, height: 600 } };
     (scene as any).add = {
@@ -109,8 +154,10 @@ describe('LevelSelectScene', () => {
     (scene as any).scene = { start: mockSceneStart };
     (scene as any).cache = {
       audio: { exists: jest.fn().mockReturnValue(false) },
+      json: { get: jest.fn().mockReturnValue(manifest) },
     };
     (scene as any).sound = { play: jest.fn() };
+    scene.init({});
   });
 
   describe('create', () => {
@@ -155,6 +202,78 @@ describe('LevelSelectScene', () => {
     });
   });
 
+  describe('worlds', () => {
+    const container = () => ({
+      add: jest.fn().mockReturnThis(),
+      setVisible: jest.fn().mockReturnThis(),
+      setSize: jest.fn().mockReturnThis(),
+      setInteractive: jest.fn().mockReturnThis(),
+      on: jest.fn().mockReturnThis(),
+      first: { setStrokeStyle: jest.fn(), setScale: jest.fn() },
+    });
+    const visible = (level: number) =>
+      (scene as any).levelButtons.get(level).setVisible.mock.calls.at(-1)[0];
+
+    beforeEach(() => {
+      (scene as any).add.container = jest.fn(container);
+      // Separate texts, so the world name can be checked
+      (scene as any).add.text = jest.fn(() => ({
+        setOrigin: jest.fn().mockReturnThis(),
+        setColor: jest.fn().mockReturnThis(),
+        setText: jest.fn().mockReturnThis(),
+        setVisible: jest.fn().mockReturnThis(),
+        setInteractive: jest.fn().mockReturnThis(),
+        on: jest.fn().mockReturnThis(),
+      }));
+    });
+
+    it('should unlock the levels without requirements by default', () => {
+      expect((scene as any).unlockedLevels).toEqual([1]);
+
+      scene.init({ unlockedLevels: [6, 7] });
+
+      expect((scene as any).unlockedLevels).toEqual([6, 7]);
+      expect((scene as any).selectedLevel).toBe(6);
+    });
+
+    it('should show the name, theme and par time of each level', () => {
+      scene.create();
+
+      const texts = (scene as any).add.text.mock.calls.map(
+        (call: unknown[]) => call[2],
+      );
+      expect(texts).toEqual(
+        expect.arrayContaining(['Stage 2', 'FOREST', 'SKY', 'PAR 1:00']),
+      );
+    });
+
+    it("should only show the selected level's world", () => {
+      scene.create();
+
+      expect(visible(1)).toBe(true);
+      expect(visible(5)).toBe(true);
+      expect(visible(6)).toBe(false);
+      expect((scene as any).worldText.setText).toHaveBeenLastCalledWith(
+        'MEADOW',
+      );
+    });
+
+    it('should move into the next world', () => {
+      scene.init({ unlockedLevels: [1, 2, 3, 4, 5, 6] });
+      scene.create();
+      (scene as any).selectedLevel = 5;
+
+      (scene as any).navigateLevel(1);
+
+      expect((scene as any).selectedLevel).toBe(6);
+      expect(visible(5)).toBe(false);
+      expect(visible(6)).toBe(true);
+      expect((scene as any).worldText.setText).toHaveBeenLastCalledWith(
+        'PEAKS',
+      );
+    });
+  });
+
   describe('level navigation', () => {
     beforeEach(() => {
       scene.create();
@@ -246,4 +365,258 @@ describe('LevelSelectScene', () => {
       expect(() => (scene as any).startLevel(2)).not.toThrow();
     });
   });
+
+  describe('leaderboard', () => {
+    const leaderboardText = () => (scene as any).leaderboardText;
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    it('should show the best times and own standing of the selected level', async () => {
+      mockLeaderboardService.getLeaderboard.mockResolvedValue([
+        {
+          rank: 1,
+          playerId: 'p1',
+          username: 'speedy',
+          timeMs: 30000,
+          score: 900,
+        },
+      ]);
+      mockLeaderboardService.getMyStanding.mockResolvedValue({
+        levelNumber: 1,
+        bestTimeMs: 45000,
+        timeRank: 4,
+        highScore: 1200,
+        scoreRank: 2,
+        runs: 3,
+      });
+
+      scene.create();
+      await flush();
+
+      expect(mockLeaderboardService.getLeaderboard).toHaveBeenCalledWith(
+        1,
+        'time',
+        5,
+      );
+      const text = leaderboardText().setText.mock.calls.at(-1)[0];
+      expect(text).toContain('speedy');
+      expect(text).toContain('30000ms');
+      expect(text).toContain('You: #4 45000ms');
+    });
+
+    it('should reuse a level leaderboard it already loaded', async () => {
+      scene.create();
+      await flush();
+      (scene as any).unlockedLevels = [1, 2];
+      (scene as any).selectLevel(2);
+      await flush();
+      (scene as any).selectLevel(1);
+      await flush();
+
+      expect(mockLeaderboardService.getLeaderboard).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore a late answer for a level no longer selected', async () => {
+      let resolveFirst: (entries: any[]) => void = () => {};
+      mockLeaderboardService.getLeaderboard.mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveFirst = resolve;
+        }),
+      );
+      scene.create();
+      (scene as any).unlockedLevels = [1, 2];
+      (scene as any).selectLevel(2);
+      await flush();
+      resolveFirst([]);
+      await flush();
+
+      const text = leaderboardText().setText.mock.calls.at(-1)[0];
+      expect(text).toContain('LEVEL 2');
+    });
+
+    it('should say when the leaderboard cannot be loaded', async () => {
+      mockLeaderboardService.getLeaderboard.mockRejectedValue(
+        new Error('offline'),
+      );
+
+      scene.create();
+      await flush();
+
+      expect(leaderboardText().setText).toHaveBeenLastCalledWith(
+        'Leaderboard unavailable',
+      );
+    });
+
+    it('should work without a server', () => {
+      (LevelLeaderboardService as any).mockImplementation(() => {
+        throw new Error('Server URL is required');
+      });
+
+      expect(() => scene.create()).not.toThrow();
+      expect(leaderboardText().setText).toHaveBeenLastCalledWith(
+        'Leaderboard unavailable',
+      );
+    });
+  });
+
+  describe('community tab', () => {
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+    const level = (id: string, title: string) => ({
+      id,
+      title,
+      description: '',
+      authorId: 'player-2',
+      author: 'maker',
+      width: 20,
+      height: 10,
+      rating: 4,
+      ratingCount: 3,
+      downloads: 9,
+      createdAt: 1,
+    });
+    const input = (action: string) => {
+      const listener = mockInputManager.onInputEvent.mock.calls[0]![0];
+      listener({ action, active: true, source: 'keyboard' });
+    };
+    const lastText = (name: string) =>
+      (scene as any)[name].setText.mock.calls.at(-1)[0];
+
+    beforeEach(async () => {
+      // Separate texts, so each panel's last text can be checked
+      (scene as any).add.text = jest.fn(() => ({
+        setOrigin: jest.fn().mockReturnThis(),
+        setColor: jest.fn().mockReturnThis(),
+        setText: jest.fn().mockReturnThis(),
+        setVisible: jest.fn().mockReturnThis(),
+        setInteractive: jest.fn().mockReturnThis(),
+        on: jest.fn().mockReturnThis(),
+      }));
+      mockCommunityService.searchLevels.mockResolvedValue({
+        levels: [level('a', 'Spike Gauntlet'), level('b', 'Sky Hop')],
+        total: 20,
+      });
+      scene.create();
+      input('tab');
+      await flush();
+    });
+
+    it('should list the newest levels when the tab opens', () => {
+      expect(mockCommunityService.searchLevels).toHaveBeenCalledWith({
+        query: undefined,
+        order: 'newest',
+        limit: 8,
+        offset: 0,
+      });
+      expect(lastText('communityStatusText')).toBe('Newest  Page 1/3');
+      expect(lastText('communityListText')).toContain('> Spike Gauntlet');
+      expect((scene as any).levelCards[0].setVisible).toHaveBeenLastCalledWith(
+        false,
+      );
+    });
+
+    it('should open on the community tab when asked', async () => {
+      mockCommunityService.searchLevels.mockClear();
+      scene.init({ tab: 'community' });
+      scene.create();
+      await flush();
+
+      expect(mockCommunityService.searchLevels).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move the selection without starting campaign levels', () => {
+      input('down');
+      input('left');
+
+      expect((scene as any).communitySelected).toBe(1);
+      expect((scene as any).selectedLevel).toBe(1);
+      expect(lastText('communityListText')).toContain('> Sky Hop');
+    });
+
+    it('should page, sort and search', async () => {
+      window.prompt = jest.fn().mockReturnValue('  hop ');
+
+      input('right');
+      await flush();
+      input('sort');
+      await flush();
+      input('search');
+      await flush();
+
+      expect(mockCommunityService.searchLevels.mock.calls.slice(1)).toEqual([
+        [{ query: undefined, order: 'newest', limit: 8, offset: 8 }],
+        [{ query: undefined, order: 'top_rated', limit: 8, offset: 0 }],
+        [{ query: 'hop', order: 'top_rated', limit: 8, offset: 0 }],
+      ]);
+      expect(lastText('communityStatusText')).toBe(
+        'Top rated  Search: "hop"  Page 1/3',
+      );
+    });
+
+    it('should download the selected level and play it', async () => {
+      const download = { ...level('b', 'Sky Hop'), config: {}, map: {} };
+      mockCommunityService.downloadLevel.mockResolvedValue(download);
+
+      input('down');
+      input('select');
+      await flush();
+
+      expect(mockCommunityService.downloadLevel).toHaveBeenCalledWith('b');
+      expect(mockSceneService.startScene).toHaveBeenCalledWith({
+        target: 'GameScene',
+        stopCurrent: true,
+        data: { communityLevel: download },
+      });
+    });
+
+    it('should rate the selected level', async () => {
+      mockCommunityService.rateLevel.mockResolvedValue({
+        rating: 4.25,
+        ratingCount: 4,
+        yourRating: 5,
+      });
+
+      input('rate5');
+      await flush();
+
+      expect(mockCommunityService.rateLevel).toHaveBeenCalledWith('a', 5);
+      expect((scene as any).communityLevels[0].ratingCount).toBe(4);
+      expect(lastText('communityInfoText')).toContain(
+        'You rated "Spike Gauntlet" 5 of 5',
+      );
+    });
+
+    it("should say why the player's own level cannot be rated", async () => {
+      mockCommunityService.rateLevel.mockRejectedValue(
+        new ApiError('You cannot rate your own level', 403),
+      );
+
+      input('rate3');
+      await flush();
+
+      expect(lastText('communityInfoText')).toContain(
+        'You cannot rate your own level',
+      );
+    });
+
+    it('should go back to the campaign', () => {
+      input('tab');
+
+      expect((scene as any).tab).toBe('campaign');
+      expect(
+        (scene as any).leaderboardText.setVisible,
+      ).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should work without a server', () => {
+      (CommunityLevelService as any).mockImplementation(() => {
+        throw new Error('Server URL is required');
+      });
+      (scene as any).communityService = undefined;
+      scene.create();
+      input('tab');
+
+      expect(lastText('communityStatusText')).toBe(
+        'Community levels unavailable',
+      );
+    });
+  });
 });
@@ -490,6 +490,21 @@ describe('LobbyScene', () => {
       });
     });
 
+    it('should start the level matchmaking chose for the room', () => {
+      scene.create();
+      const roomJoinedCallback = mockNetworkService.on.mock.calls.find(
+        (call: any[]) => call[0] === 'room_joined',
+      )![1];
+      roomJoinedCallback({ roomId: 'ABC123', players: [], level: 3 });
+
+      (scene as any).startGame();
+
+      expect(mockSceneStart).toHaveBeenCalledWith('GameScene', {
+        level: 3,
+        roomId: 'ABC123',
+      });
+    });
+
     it('should not start game when not in room', () => {
       (scene as any).inRoom = false;
 
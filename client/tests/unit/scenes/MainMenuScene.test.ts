@@ -1,6 +1,11 @@
 import { MainMenuScene } from '../../../src/scenes/MainMenuScene';
 import { InputManager } from '../../../src/core/InputManager';
 import { SceneService } from '../../../src/core/SceneManager';
+import { eventBus } from '../../../src/core/EventBus';
+import {
+  SAVE_CONFLICT_EVENT,
+  getGlobalSaveSync,
+} from '../../../src/services/SaveSyncService';
 
 // Declare mocks (using var to avoid TDZ with hoisted jest.mock)
 var mockSceneStart: jest.Mock;
@@ -21,6 +26,11 @@ jest.mock('../../../src/core/SceneManager', () => ({
   })),
 }));
 
+jest.mock('../../../src/services/SaveSyncService', () => ({
+  SAVE_CONFLICT_EVENT: 'save:conflict',
+  getGlobalSaveSync: jest.fn().mockReturnValue(null),
+}));
+
 jest.mock('../../../src/utils/logger', () => ({
   logger: {
     info: jest.fn(),
@@ -74,7 +84,13 @@ describe('MainMenuScene', () => {
     scene = new MainMenuScene() as any;
     (scene as any).cameras = { main: { width: 800, height: 600 } };
     (scene as any).add = { text: mockAddText };
-    (scene as any).scene = { start: mockSceneStart };
+    (scene as any).scene = {
+      start: mockSceneStart,
+      launch: jest.fn(),
+      pause: jest.fn(),
+      isActive: jest.fn().mockReturnValue(false),
+    };
+    (scene as any).events = { once: jest.fn() };
   });
 
   describe('create', () => {
@@ -114,6 +130,30 @@ describe('MainMenuScene', () => {
       expect(levelSelectCalls.length).toBeGreaterThan(0);
     });
 
+    it('should open the level editor from its button', () => {
+      const buttons: Record<string, any> = {};
+      (scene as any).add.text = jest.fn(
+        (_x: number, _y: number, label: string) => {
+          const button: any = {
+            setOrigin: jest.fn().mockReturnThis(),
+            setInteractive: jest.fn().mockReturnThis(),
+            on: jest.fn().mockReturnThis(),
+            setColor: jest.fn().mockReturnThis(),
+          };
+          buttons[label] = button;
+          return button;
+        },
+      );
+      scene.create();
+
+      const onPointerDown = buttons['Level Editor'].on.mock.calls.find(
+        (call: any[]) => call[0] === 'pointerdown',
+      )[1];
+      onPointerDown();
+
+      expect(mockSceneStart).toHaveBeenCalledWith('LevelEditorScene');
+    });
+
     it('should register input callbacks', () => {
       scene.create();
 
@@ -185,4 +225,57 @@ describe('MainMenuScene', () => {
       expect(interactiveCalls.length).toBeGreaterThan(0);
     });
   });
+
+  describe('save conflicts', () => {
+    const conflict = { slotIndex: 0, cloudRevision: 2 };
+
+    afterEach(() => {
+      eventBus.clear(SAVE_CONFLICT_EVENT);
+      (getGlobalSaveSync as jest.Mock).mockReturnValue(null);
+    });
+
+    it('should ask about a conflict already found', () => {
+      (getGlobalSaveSync as jest.Mock).mockReturnValue({
+        getConflicts: () => [conflict],
+      });
+
+      scene.create();
+
+      expect((scene as any).scene.launch).toHaveBeenCalledWith(
+        'SaveConflictScene',
+        { conflict, fromScene: 'MainMenuScene' },
+      );
+      expect((scene as any).scene.pause).toHaveBeenCalled();
+    });
+
+    it('should ask about a conflict found while the menu is open', () => {
+      scene.create();
+      expect((scene as any).scene.launch).not.toHaveBeenCalled();
+
+      eventBus.emit(SAVE_CONFLICT_EVENT, conflict);
+
+      expect((scene as any).scene.launch).toHaveBeenCalledWith(
+        'SaveConflictScene',
+        { conflict, fromScene: 'MainMenuScene' },
+      );
+    });
+
+    it('should not open a second conflict overlay', () => {
+      scene.create();
+      (scene as any).scene.isActive.mockReturnValue(true);
+
+      eventBus.emit(SAVE_CONFLICT_EVENT, conflict);
+
+      expect((scene as any).scene.launch).not.toHaveBeenCalled();
+    });
+
+    it('should stop listening once the menu shuts down', () => {
+      scene.create();
+      const [event, unsubscribe] = (scene as any).events.once.mock.calls[0];
+
+      expect(event).toBe('shutdown');
+      unsubscribe();
+      expect(eventBus.hasListeners(SAVE_CONFLICT_EVENT)).toBe(false);
+    });
+  });
 });
@@ -74,6 +74,16 @@ describe('PreloadScene', () => {
         expect.arrayContaining([
           expect.objectContaining({ key: 'logo', type: 'image' }),
           expect.objectContaining({ key: 'bgm', type: 'audio' }),
+          expect.objectContaining({
+            key: 'entity_definitions',
+            type: 'json',
+            url: 'assets/data/entities.json',
+          }),
+          expect.objectContaining({
+            key: 'level_manifest',
+            type: 'json',
+            url: 'assets/data/levels.json',
+          }),
         ]),
       );
     });
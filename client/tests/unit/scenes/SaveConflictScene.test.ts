@@ -0,0 +1,164 @@
+import { SaveConflictScene } from '../../../src/scenes/SaveConflictScene';
+import { InputManager } from '../../../src/core/InputManager';
+import { getGlobalSaveSync } from '../../../src/services/SaveSyncService';
+
+// Declare mocks (using var to avoid TDZ with hoisted jest.mock)
+var mockAddRectangle: jest.Mock;
+var mockAddText: jest.Mock;
+
+// Mock dependencies
+jest.mock('../../../src/core/InputManager', () => ({
+  InputManager: jest.fn().mockImplementation(() => ({
+    onInputEvent: jest.fn(),
+    update: jest.fn(),
+  })),
+  InputConfig: {},
+}));
+
+jest.mock('../../../src/services/SaveSyncService', () => ({
+  getGlobalSaveSync: jest.fn(),
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+// Mock Phaser
+jest.mock('phaser', () => {
+  mockAddRectangle = jest.fn().mockReturnValue({
+    setOrigin: jest.fn().mockReturnThis(),
+    setScrollFactor: jest.fn().mockReturnThis(),
+  });
+  mockAddText = jest.fn().mockImplementation(() => ({
+    setOrigin: jest.fn().mockReturnThis(),
+    setScrollFactor: jest.fn().mockReturnThis(),
+    setColor: jest.fn().mockReturnThis(),
+    setScale: jest.fn().mockReturnThis(),
+    setInteractive: jest.fn().mockReturnThis(),
+    on: jest.fn().mockReturnThis(),
+  }));
+
+  return {
+    Scene: jest.fn().mockImplementation(function (this: any) {
+      this.cameras = { main: { width: 800, height: 600 } };
+      this.add = { rectangle: mockAddRectangle, text: mockAddText };
+    }),
+  };
+});
+
+describe('SaveConflictScene', () => {
+  let scene: SaveConflictScene;
+  let inputHandler: (event: { action: string; active: boolean }) => void;
+  let mockSync: { resolveConflict: jest.Mock; getConflicts: jest.Mock };
+
+  const save = (currentLevel: number, timestamp: number) =>
+    ({
+      version: '1.0.0',
+      timestamp,
+      player: { currentLevel, totalScore: 500, unlockedLevels: [1, 2] },
+      levels: {},
+    }) as any;
+  const conflict = {
+    slotIndex: 1,
+    local: save(2, 1000),
+    cloud: save(3, 2000),
+    cloudRevision: 4,
+  };
+
+  const texts = () => mockAddText.mock.calls.map((call) => call[2]);
+  const button = (label: string) =>
+    mockAddText.mock.results[texts().indexOf(label)].value;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (InputManager as any).mockImplementation(() => ({
+      onInputEvent: (handler: any) => {
+        inputHandler = handler;
+      },
+      update: jest.fn(),
+    }));
+    mockSync = {
+      resolveConflict: jest.fn().mockResolvedValue(undefined),
+      getConflicts: jest.fn().mockReturnValue([]),
+    };
+    (getGlobalSaveSync as jest.Mock).mockReturnValue(mockSync);
+
+    scene = new SaveConflictScene();
+    (scene as any).scene = {
+      stop: jest.fn(),
+      resume: jest.fn(),
+      restart: jest.fn(),
+    };
+    scene.init({ conflict, fromScene: 'MainMenuScene' });
+    scene.create();
+  });
+
+  it('should show both copies of the slot', () => {
+    expect(texts()).toContain(
+      'Slot 2 changed on this device and in the cloud.\nWhich one do you want to keep?',
+    );
+    expect(texts()).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining('Level 2'),
+        expect.stringContaining('Level 3'),
+        'Keep This device',
+        'Keep Cloud',
+      ]),
+    );
+  });
+
+  it('should show a deleted copy as deleted', () => {
+    mockAddText.mockClear();
+    scene.init({ conflict: { ...conflict, cloud: undefined } });
+    scene.create();
+
+    expect(texts()).toContain('Deleted');
+  });
+
+  it('should keep the clicked copy and resume the menu', async () => {
+    const [, onClick] = button('Keep Cloud').on.mock.calls.find(
+      ([event]: [string]) => event === 'pointerdown',
+    );
+
+    await onClick();
+
+    expect(mockSync.resolveConflict).toHaveBeenCalledWith(1, 'cloud');
+    expect((scene as any).scene.resume).toHaveBeenCalledWith('MainMenuScene');
+    expect((scene as any).scene.stop).toHaveBeenCalled();
+  });
+
+  it('should keep the selected copy on select', async () => {
+    inputHandler({ action: 'right', active: true });
+    inputHandler({ action: 'left', active: true });
+    inputHandler({ action: 'select', active: true });
+    await Promise.resolve();
+
+    expect(mockSync.resolveConflict).toHaveBeenCalledWith(1, 'local');
+  });
+
+  it('should move on to the next conflict', async () => {
+    const next = { ...conflict, slotIndex: -1 };
+    mockSync.getConflicts.mockReturnValue([next]);
+
+    inputHandler({ action: 'select', active: true });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect((scene as any).scene.restart).toHaveBeenCalledWith({
+      conflict: next,
+      fromScene: 'MainMenuScene',
+    });
+    expect((scene as any).scene.stop).not.toHaveBeenCalled();
+  });
+
+  it('should ignore a second choice while the first is settling', () => {
+    inputHandler({ action: 'select', active: true });
+    inputHandler({ action: 'select', active: true });
+
+    expect(mockSync.resolveConflict).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  CloudSaveConflictError,
+  CloudSaveService,
+} from '../../../src/services/CloudSaveService';
+import { ApiClient, ApiError } from '../../../src/services/ApiClient';
+
+describe('CloudSaveService', () => {
+  let api: jest.Mocked<Pick<ApiClient, 'get' | 'put' | 'delete'>>;
+  let service: CloudSaveService;
+
+  const data = { version: '1.0.0', timestamp: 1 } as any;
+  const current = { slot: 'auto', revision: 5, savedAt: 9, deleted: false };
+
+  beforeEach(() => {
+    api = { get: jest.fn(), put: jest.fn(), delete: jest.fn() };
+    service = new CloudSaveService(api as unknown as ApiClient);
+  });
+
+  it('should list the stored slots', async () => {
+    api.get.mockResolvedValue([current]);
+
+    await expect(service.listSaves()).resolves.toEqual([current]);
+    expect(api.get).toHaveBeenCalledWith('/api/saves', { auth: true });
+  });
+
+  it('should name the auto-save slot "auto"', async () => {
+    api.get.mockResolvedValue({ ...current, data });
+
+    await service.getSave(-1);
+
+    expect(api.get).toHaveBeenCalledWith('/api/saves/auto', { auth: true });
+  });
+
+  it('should treat an empty slot as null', async () => {
+    api.get.mockRejectedValue(new ApiError('Save slot 2 is empty', 404));
+
+    await expect(service.getSave(2)).resolves.toBeNull();
+  });
+
+  it('should store a save on top of its base revision', async () => {
+    api.put.mockResolvedValue({ ...current, slot: '3', revision: 2 });
+
+    await service.putSave(3, data, 1);
+
+    expect(api.put).toHaveBeenCalledWith(
+      '/api/saves/3',
+      { data, baseRevision: 1 },
+      { auth: true },
+    );
+  });
+
+  it('should turn a refused write into a conflict with the cloud slot', async () => {
+    api.put.mockRejectedValue(
+      new ApiError('Save conflict', 409, [], {
+        error: 'Save conflict',
+        current,
+      }),
+    );
+
+    const error = await service.putSave(-1, data, 3).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CloudSaveConflictError);
+    expect(error.current).toEqual(current);
+  });
+
+  it('should delete a slot at its base revision', async () => {
+    api.delete.mockResolvedValue({ ...current, deleted: true });
+
+    await service.deleteSave(0, 4);
+
+    expect(api.delete).toHaveBeenCalledWith('/api/saves/0?baseRevision=4', {
+      auth: true,
+    });
+  });
+
+  it('should treat deleting a slot the cloud does not have as done', async () => {
+    api.delete.mockRejectedValue(new ApiError('Save slot 0 is empty', 404));
+
+    await expect(service.deleteSave(0, 4)).resolves.toBeNull();
+  });
+
+  it('should pass other errors on', async () => {
+    api.get.mockRejectedValue(new ApiError('Could not reach server', 0));
+
+    await expect(service.getSave(0)).rejects.toMatchObject({ status: 0 });
+  });
+});
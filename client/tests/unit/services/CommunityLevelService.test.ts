@@ -0,0 +1,197 @@
+import {
+  CommunityLevelService,
+  formatRating,
+  toCommunityLevelConfig,
+} from '../../../src/services/CommunityLevelService';
+import { ApiClient, ApiError } from '../../../src/services/ApiClient';
+
+// Mock the logger
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const SESSION_KEY = 'phaser_platformer_session';
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: jest.fn().mockResolvedValue(body),
+});
+
+const summary = {
+  id: 'level-1',
+  title: 'Spike Gauntlet',
+  description: 'Mind the spikes',
+  authorId: 'player-2',
+  author: 'maker',
+  width: 20,
+  height: 10,
+  theme: 'cave',
+  rating: 3.6,
+  ratingCount: 12,
+  downloads: 40,
+  createdAt: 1760000000000,
+};
+
+describe('CommunityLevelService', () => {
+  let mockFetch: jest.Mock;
+  let service: CommunityLevelService;
+
+  const requestTo = (call: number) => {
+    const [url, init] = mockFetch.mock.calls[call];
+    return {
+      url,
+      method: init.method,
+      headers: init.headers,
+      body: init.body && JSON.parse(init.body),
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    localStorage.setItem(
+      SESSION_KEY,
+      JSON.stringify({
+        accessToken: 'stored',
+        accessTokenExpiresAt: Date.now() + 10 * 60 * 1000,
+        refreshToken: 'refresh-stored',
+        playerId: 'player-1',
+      }),
+    );
+    mockFetch = jest.fn();
+    (global as any).fetch = mockFetch;
+    service = new CommunityLevelService(new ApiClient('http://server'));
+  });
+
+  describe('searchLevels', () => {
+    it('should list the newest levels by default', async () => {
+      const page = { levels: [summary], total: 1 };
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, page));
+
+      const result = await service.searchLevels();
+
+      expect(result).toEqual(page);
+      expect(requestTo(0)).toMatchObject({
+        url: 'http://server/api/community/levels?sort=newest',
+        method: 'GET',
+      });
+    });
+
+    it('should pass on the search, order and page', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse(200, { levels: [], total: 0 }),
+      );
+
+      await service.searchLevels({
+        query: 'spike run',
+        order: 'top_rated',
+        limit: 8,
+        offset: 16,
+      });
+
+      expect(requestTo(0).url).toBe(
+        'http://server/api/community/levels?q=spike+run&sort=top_rated&limit=8&offset=16',
+      );
+    });
+  });
+
+  describe('downloadLevel', () => {
+    it('should get the level with its map', async () => {
+      const download = { ...summary, config: {}, map: { width: 20 } };
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, download));
+
+      const result = await service.downloadLevel('level-1');
+
+      expect(result).toEqual(download);
+      expect(requestTo(0).url).toBe(
+        'http://server/api/community/levels/level-1',
+      );
+    });
+  });
+
+  describe('rateLevel', () => {
+    it('should put the rating as the signed-in player', async () => {
+      const outcome = { rating: 3.7, ratingCount: 13, yourRating: 5 };
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, outcome));
+
+      const result = await service.rateLevel('level-1', 5);
+
+      expect(result).toEqual(outcome);
+      expect(requestTo(0)).toEqual({
+        url: 'http://server/api/community/levels/level-1/rating',
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer stored',
+        },
+        body: { rating: 5 },
+      });
+    });
+
+    it("should reject ratings of the player's own level", async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse(403, { error: 'You cannot rate your own level' }),
+      );
+
+      const error = await service.rateLevel('level-1', 5).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(403);
+    });
+  });
+
+  describe('uploadLevel', () => {
+    it('should post the level and reject it with the reasons it is unplayable', async () => {
+      mockFetch.mockResolvedValueOnce(
+        jsonResponse(422, {
+          error: 'Unplayable level',
+          details: ['the exit cannot be reached from the player spawn'],
+        }),
+      );
+      const upload = { title: 'Nowhere', config: {}, map: { width: 20 } };
+
+      const error = await service.uploadLevel(upload).catch((e) => e);
+
+      expect(requestTo(0)).toMatchObject({
+        url: 'http://server/api/community/levels',
+        method: 'POST',
+        body: upload,
+      });
+      expect(error.details).toEqual([
+        'the exit cannot be reached from the player spawn',
+      ]);
+    });
+  });
+
+  describe('toCommunityLevelConfig', () => {
+    it('should give the level a key of its own', () => {
+      const config = toCommunityLevelConfig({
+        ...summary,
+        config: { targetScore: 100, theme: 'cave' },
+        map: {},
+      });
+
+      expect(config).toEqual({
+        key: 'community_level-1',
+        tilemap: '/api/community/levels/level-1',
+        targetScore: 100,
+        theme: 'cave',
+      });
+    });
+  });
+
+  describe('formatRating', () => {
+    it('should show the rounded average as stars', () => {
+      expect(formatRating(summary)).toBe('★★★★☆ (12)');
+      expect(formatRating({ ...summary, rating: 0, ratingCount: 0 })).toBe(
+        '☆☆☆☆☆ (0)',
+      );
+    });
+  });
+});
@@ -138,6 +138,60 @@ describe('InterpolationService', () => {
     });
   });
 
+  describe('getInterpolatedStateAtTick', () => {
+    it('should return null when no snapshot carries a tick', () => {
+      interpolationService.addSnapshot('player-1', {
+        timestamp: 1000,
+        entityId: 'player-1',
+        state: { x: 10 },
+      });
+      expect(
+        interpolationService.getInterpolatedStateAtTick('player-1', 5),
+      ).toBeNull();
+    });
+
+    it('should interpolate between the ticks bracketing the render tick', () => {
+      interpolationService.addSnapshot('player-1', {
+        timestamp: 1000,
+        tick: 3,
+        entityId: 'player-1',
+        state: { x: 10 },
+      });
+      interpolationService.addSnapshot('player-1', {
+        // Arrived late: wall-clock time must not affect the result
+        timestamp: 1400,
+        tick: 6,
+        entityId: 'player-1',
+        state: { x: 40 },
+      });
+
+      const state = interpolationService.getInterpolatedStateAtTick(
+        'player-1',
+        4,
+      );
+      expect(state.x).toBeCloseTo(20);
+    });
+
+    it('should clamp to the newest snapshot past the buffered ticks', () => {
+      interpolationService.addSnapshot('player-1', {
+        timestamp: 1000,
+        tick: 3,
+        entityId: 'player-1',
+        state: { x: 10 },
+      });
+      interpolationService.addSnapshot('player-1', {
+        timestamp: 1050,
+        tick: 6,
+        entityId: 'player-1',
+        state: { x: 40 },
+      });
+
+      expect(
+        interpolationService.getInterpolatedStateAtTick('player-1', 9).x,
+      ).toBe(40);
+    });
+  });
+
   describe('pruneOlderThan', () => {
     it('should remove old snapshots', () => {
       interpolationService.addSnapshot('player-1', {
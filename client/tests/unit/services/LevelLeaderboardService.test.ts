@@ -0,0 +1,266 @@
+import {
+  LevelLeaderboardService,
+  formatRunTime,
+} from '../../../src/services/LevelLeaderboardService';
+import { ApiClient, ApiError } from '../../../src/services/ApiClient';
+
+// Mock the logger
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const SESSION_KEY = 'phaser_platformer_session';
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: jest.fn().mockResolvedValue(body),
+});
+
+const authResult = (accessToken: string, deviceToken?: string) => ({
+  accessToken,
+  expiresIn: 900,
+  refreshToken: `refresh-${accessToken}`,
+  player: { id: 'player-1', username: 'guest_1', isGuest: true },
+  ...(deviceToken && { deviceToken }),
+});
+
+describe('LevelLeaderboardService', () => {
+  let mockFetch: jest.Mock;
+  let service: LevelLeaderboardService;
+
+  const requestTo = (call: number) => {
+    const [url, init] = mockFetch.mock.calls[call];
+    return {
+      url,
+      method: init.method,
+      headers: init.headers,
+      body: init.body && JSON.parse(init.body),
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    mockFetch = jest.fn();
+    (global as any).fetch = mockFetch;
+    service = new LevelLeaderboardService(
+      new ApiClient('http://localhost:3000/'),
+    );
+  });
+
+  describe('submitResult', () => {
+    it('should sign in as a guest and post the run', async () => {
+      const outcome = { newBestTime: true, newHighScore: false };
+      mockFetch
+        .mockResolvedValueOnce(
+          jsonResponse(200, authResult('access-1', 'device-1')),
+        )
+        .mockResolvedValueOnce(jsonResponse(201, outcome));
+
+      const result = await service.submitResult(2, {
+        timeMs: 42000,
+        score: 900,
+        metadata: { coins: 12 },
+      });
+
+      expect(result).toEqual(outcome);
+      expect(requestTo(0)).toMatchObject({
+        url: 'http://localhost:3000/api/auth/guest',
+        method: 'POST',
+      });
+      expect(requestTo(1)).toEqual({
+        url: 'http://localhost:3000/api/levels/2/results',
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: 'Bearer access-1',
+        },
+        body: { timeMs: 42000, score: 900, metadata: { coins: 12 } },
+      });
+      expect(JSON.parse(localStorage.getItem(SESSION_KEY)!)).toMatchObject({
+        accessToken: 'access-1',
+        deviceToken: 'device-1',
+        playerId: 'player-1',
+      });
+    });
+
+    it('should reuse a stored session that has not expired', async () => {
+      localStorage.setItem(
+        SESSION_KEY,
+        JSON.stringify({
+          accessToken: 'stored',
+          accessTokenExpiresAt: Date.now() + 10 * 60 * 1000,
+          refreshToken: 'refresh-stored',
+          playerId: 'player-1',
+        }),
+      );
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, {}));
+      service = new LevelLeaderboardService(new ApiClient('http://server'));
+
+      await service.submitResult(1, { timeMs: 30000, score: 0 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(requestTo(0).headers.Authorization).toBe('Bearer stored');
+    });
+
+    it('should refresh an expired session', async () => {
+      localStorage.setItem(
+        SESSION_KEY,
+        JSON.stringify({
+          accessToken: 'old',
+          accessTokenExpiresAt: Date.now() - 1000,
+          refreshToken: 'refresh-old',
+          playerId: 'player-1',
+          deviceToken: 'device-1',
+        }),
+      );
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(200, authResult('new')))
+        .mockResolvedValueOnce(jsonResponse(201, {}));
+      service = new LevelLeaderboardService(new ApiClient('http://server'));
+
+      await service.submitResult(1, { timeMs: 30000, score: 0 });
+
+      expect(requestTo(0)).toMatchObject({
+        url: 'http://server/api/auth/refresh',
+        body: { refreshToken: 'refresh-old' },
+      });
+      expect(requestTo(1).headers.Authorization).toBe('Bearer new');
+      // The refresh does not return the device token, so it is kept
+      expect(JSON.parse(localStorage.getItem(SESSION_KEY)!).deviceToken).toBe(
+        'device-1',
+      );
+    });
+
+    it('should sign back in as the same guest when the refresh token is rejected', async () => {
+      localStorage.setItem(
+        SESSION_KEY,
+        JSON.stringify({
+          accessToken: 'old',
+          accessTokenExpiresAt: 0,
+          refreshToken: 'refresh-old',
+          playerId: 'player-1',
+          deviceToken: 'device-1',
+        }),
+      );
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Invalid token' }))
+        .mockResolvedValueOnce(
+          jsonResponse(200, authResult('fresh', 'device-1')),
+        )
+        .mockResolvedValueOnce(jsonResponse(201, {}));
+      service = new LevelLeaderboardService(new ApiClient('http://server'));
+
+      await service.submitResult(1, { timeMs: 30000, score: 0 });
+
+      expect(requestTo(1)).toMatchObject({
+        url: 'http://server/api/auth/guest',
+        body: { deviceToken: 'device-1' },
+      });
+      expect(requestTo(2).headers.Authorization).toBe('Bearer fresh');
+    });
+
+    it('should sign in again once when the token is refused', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(200, authResult('first', 'd')))
+        .mockResolvedValueOnce(jsonResponse(401, { error: 'Invalid token' }))
+        .mockResolvedValueOnce(jsonResponse(200, authResult('second')))
+        .mockResolvedValueOnce(jsonResponse(201, {}));
+
+      await service.submitResult(1, { timeMs: 30000, score: 0 });
+
+      expect(requestTo(2).url).toBe('http://localhost:3000/api/auth/refresh');
+      expect(requestTo(3).headers.Authorization).toBe('Bearer second');
+    });
+
+    it('should reject with the server error and its details', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(200, authResult('a', 'd')))
+        .mockResolvedValueOnce(
+          jsonResponse(422, {
+            error: 'Implausible result',
+            details: ['score was earned faster than the level allows'],
+          }),
+        );
+
+      const error = await service
+        .submitResult(1, { timeMs: 30000, score: 99999 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(422);
+      expect(error.message).toBe('Implausible result');
+      expect(error.details).toEqual([
+        'score was earned faster than the level allows',
+      ]);
+    });
+
+    it('should reject with status 0 when the server is unreachable', async () => {
+      mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const error = await service
+        .submitResult(1, { timeMs: 30000, score: 0 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(0);
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should fetch a board without signing in', async () => {
+      const entries = [
+        { rank: 1, playerId: 'p', username: 'u', timeMs: 1, score: 2 },
+      ];
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, entries));
+
+      const result = await service.getLeaderboard(3, 'score', 10);
+
+      expect(result).toEqual(entries);
+      expect(requestTo(0)).toEqual({
+        url: 'http://localhost:3000/api/levels/3/leaderboard?board=score&limit=10',
+        method: 'GET',
+        headers: {},
+        body: undefined,
+      });
+    });
+  });
+
+  describe('getMyStanding', () => {
+    it('should return the standing', async () => {
+      const standing = { levelNumber: 1, timeRank: 2 };
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(200, authResult('a', 'd')))
+        .mockResolvedValueOnce(jsonResponse(200, standing));
+
+      await expect(service.getMyStanding(1)).resolves.toEqual(standing);
+      expect(requestTo(1).url).toBe(
+        'http://localhost:3000/api/levels/1/leaderboard/me',
+      );
+    });
+
+    it('should return null for a level not completed', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(200, authResult('a', 'd')))
+        .mockResolvedValueOnce(
+          jsonResponse(404, { error: 'Level not completed' }),
+        );
+
+      await expect(service.getMyStanding(1)).resolves.toBeNull();
+    });
+  });
+
+  describe('formatRunTime', () => {
+    it('should format minutes, seconds and hundredths', () => {
+      expect(formatRunTime(0)).toBe('0:00.00');
+      expect(formatRunTime(65432)).toBe('1:05.43');
+      expect(formatRunTime(600000)).toBe('10:00.00');
+    });
+  });
+});
@@ -1,4 +1,8 @@
 import { NetworkService } from '../../../src/services/NetworkService';
+import {
+  SNAPSHOT_CODEC_VERSION,
+  encodeSnapshot,
+} from '@shared/protocol/snapshotCodec';
 
 // Mock socket.io-client
 jest.mock('socket.io-client', () => ({
@@ -112,6 +116,36 @@ describe('NetworkService', () => {
         }),
       );
     });
+
+    it("should sign the handshake in with the player's session", async () => {
+      const api = { getAccessToken: jest.fn().mockResolvedValue('guest-jwt') };
+      networkService = new NetworkService('http://localhost:3000', api as any);
+      mockSocket.on.mockImplementation((event: string, callback: Function) => {
+        if (event === 'connect') callback();
+      });
+
+      await networkService.connect();
+      const { auth } = (io as jest.Mock).mock.calls[0][1];
+      const credentials = await new Promise((resolve) => auth(resolve));
+
+      expect(credentials).toEqual({ token: 'guest-jwt' });
+    });
+
+    it('should connect as an anonymous guest when signing in fails', async () => {
+      const api = {
+        getAccessToken: jest.fn().mockRejectedValue(new Error('offline')),
+      };
+      networkService = new NetworkService('http://localhost:3000', api as any);
+      mockSocket.on.mockImplementation((event: string, callback: Function) => {
+        if (event === 'connect') callback();
+      });
+
+      await networkService.connect();
+      const { auth } = (io as jest.Mock).mock.calls[0][1];
+      const credentials = await new Promise((resolve) => auth(resolve));
+
+      expect(credentials).toEqual({});
+    });
   });
 
   describe('disconnect', () => {
@@ -240,6 +274,101 @@ describe('NetworkService', () => {
     });
   });
 
+  describe('session resume', () => {
+    const handlerFor = (event: string) =>
+      mockSocket.on.mock.calls.filter((c: any[]) => c[0] === event).pop()[1];
+
+    beforeEach(async () => {
+      mockSocket.on.mockImplementation((event: string, callback: Function) => {
+        if (event === 'connect') callback();
+      });
+      await networkService.connect();
+      handlerFor('connection_ack')({
+        playerId: 'player1',
+        resumeToken: 'token-1',
+      });
+      handlerFor('room_joined')({ roomId: 'room123' });
+    });
+
+    it('should ask to resume the match when the connection comes back', () => {
+      handlerFor('connection_ack')({
+        playerId: 'guest_new',
+        resumeToken: 'token-2',
+      });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('resume_session', {
+        resumeToken: 'token-1',
+      });
+    });
+
+    it('should keep the match across a manual reconnect', async () => {
+      await networkService.connect();
+      handlerFor('connection_ack')({
+        playerId: 'guest_new',
+        resumeToken: 'token-2',
+      });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('resume_session', {
+        resumeToken: 'token-1',
+      });
+    });
+
+    it('should not resume outside a match', () => {
+      networkService.leaveRoom();
+      mockSocket.emit.mockClear();
+
+      handlerFor('connection_ack')({
+        playerId: 'guest_new',
+        resumeToken: 'token-2',
+      });
+
+      expect(mockSocket.emit).not.toHaveBeenCalledWith(
+        'resume_session',
+        expect.anything(),
+      );
+    });
+
+    it('should restore player and room once resumed', () => {
+      const callback = jest.fn();
+      networkService.on('session_resumed', callback);
+      handlerFor('connection_ack')({
+        playerId: 'guest_new',
+        resumeToken: 'token-2',
+      });
+
+      handlerFor('session_resumed')({ playerId: 'player1', roomId: 'room123' });
+
+      expect(networkService.getPlayerId()).toBe('player1');
+      expect(networkService.getCurrentRoom()).toBe('room123');
+      expect(callback).toHaveBeenCalledWith({
+        playerId: 'player1',
+        roomId: 'room123',
+      });
+    });
+
+    it('should leave the room when the session cannot be resumed', () => {
+      const callback = jest.fn();
+      networkService.on('session_resume_failed', callback);
+
+      handlerFor('session_resume_failed')({ message: 'expired' });
+
+      expect(networkService.getCurrentRoom()).toBeNull();
+      expect(callback).toHaveBeenCalledWith({ message: 'expired' });
+    });
+
+    it('should not register listeners again on reconnection', () => {
+      const count = () =>
+        mockSocket.on.mock.calls.filter(
+          (c: any[]) => c[0] === 'game_state_update',
+        ).length;
+      const before = count();
+
+      handlerFor('connect')();
+
+      expect(count()).toBe(before);
+    });
+  });
+
   describe('connection state', () => {
     it('should report disconnected initially', () => {
       expect(networkService.isConnected()).toBe(false);
@@ -313,10 +442,34 @@ describe('NetworkService', () => {
       );
     });
 
+    it('should send attacks', () => {
+      networkService.sendAttack({ kind: 'melee', facing: -1, timestamp: 1000 });
+      expect(mockSocket.emit).toHaveBeenCalledWith('player_attack', {
+        kind: 'melee',
+        facing: -1,
+        timestamp: 1000,
+      });
+    });
+
     it('should send ping', () => {
       networkService.ping();
       expect(mockSocket.emit).toHaveBeenCalledWith('ping');
     });
+
+    it('should acknowledge pongs so the server can measure latency', () => {
+      const callback = jest.fn();
+      const ack = jest.fn();
+      networkService.on('pong', callback);
+      const handler = mockSocket.on.mock.calls.find(
+        (c: any[]) => c[0] === 'pong',
+      )[1];
+
+      handler({ serverTime: 1000 }, ack);
+      handler({ serverTime: 2000 });
+
+      expect(ack).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith({ serverTime: 2000 });
+    });
   });
 
   describe('chat', () => {
@@ -375,6 +528,248 @@ describe('NetworkService', () => {
       expect(callback).toHaveBeenCalledWith({ state: 'playing' });
     });
 
+    it('should decode binary game_state_update payloads', async () => {
+      const callback = jest.fn();
+      mockSocket.on.mockImplementation((event: string, cb: Function) => {
+        if (event === 'connect') cb();
+      });
+
+      await networkService.connect();
+      networkService.on('game_state_update', callback);
+      const handler = mockSocket.on.mock.calls.find(
+        (c: any[]) => c[0] === 'game_state_update',
+      )[1];
+
+      const player = {
+        type: 'player',
+        position: { x: 100, y: 300 },
+        velocity: { x: 0, y: 0 },
+      };
+      const snapshot = {
+        timestamp: 1000,
+        roomId: 'room-1',
+        tick: 3,
+        entities: { player1: player },
+        deletedEntities: [],
+        events: [],
+        lastProcessedInputs: { player1: 2 },
+        full: true,
+      };
+      handler(encodeSnapshot(snapshot).buffer);
+
+      const moved = { ...player, position: { x: 110, y: 300 } };
+      handler(
+        encodeSnapshot(
+          {
+            ...snapshot,
+            tick: 6,
+            baselineTick: 3,
+            entities: { player1: moved },
+            full: false,
+          },
+          { player1: player },
+        ),
+      );
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(callback.mock.calls[0][0]).toEqual(snapshot);
+      // The delta only carried the position; the rest comes from the baseline
+      expect(callback.mock.calls[1][0].entities.player1).toEqual(moved);
+      expect(callback.mock.calls[1][0].tick).toBe(6);
+    });
+
+    it('should interpolate remote entities by server tick', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+      mockSocket.on.mockImplementation((event: string, cb: Function) => {
+        if (event === 'connect') cb();
+      });
+
+      await networkService.connect();
+      const handler = mockSocket.on.mock.calls.find(
+        (c: any[]) => c[0] === 'game_state_update',
+      )[1];
+      expect(networkService.getInterpolatedEntity('player1')).toBeNull();
+
+      const player = {
+        type: 'player',
+        position: { x: 100, y: 300 },
+        velocity: { x: 0, y: 0 },
+      };
+      const snapshot = {
+        timestamp: 1000,
+        roomId: 'room-1',
+        tick: 3,
+        entities: { player1: player },
+        deletedEntities: [],
+        events: [],
+        lastProcessedInputs: {},
+        full: true,
+      };
+      handler(encodeSnapshot(snapshot));
+      const moved = {
+        ...player,
+        position: { x: 160, y: 300 },
+        velocity: { x: 600, y: 0 },
+      };
+      handler(
+        encodeSnapshot(
+          {
+            ...snapshot,
+            tick: 9,
+            baselineTick: 3,
+            entities: { player1: moved },
+            full: false,
+          },
+          { player1: player },
+        ),
+      );
+
+      // Drawn six ticks behind the newest snapshot, advancing with time
+      expect(networkService.getInterpolatedEntity('player1', 1000)).toEqual({
+        x: 100,
+        y: 300,
+        vx: 0,
+        vy: 0,
+      });
+      expect(networkService.getInterpolatedEntity('player1', 1050)).toEqual({
+        x: 130,
+        y: 300,
+        vx: 300,
+        vy: 0,
+      });
+      expect(networkService.getInterpolatedEntity('player1', 5000)?.x).toBe(
+        160,
+      );
+
+      networkService.disconnect();
+      expect(networkService.getInterpolatedEntity('player1')).toBeNull();
+      jest.restoreAllMocks();
+    });
+
+    it('should forget entities that left the view', async () => {
+      mockSocket.on.mockImplementation((event: string, cb: Function) => {
+        if (event === 'connect') cb();
+      });
+
+      await networkService.connect();
+      const handler = mockSocket.on.mock.calls.find(
+        (c: any[]) => c[0] === 'game_state_update',
+      )[1];
+
+      const snapshot = {
+        timestamp: 1000,
+        roomId: 'room-1',
+        tick: 3,
+        entities: {
+          player1: { type: 'player', position: { x: 100, y: 300 } },
+        },
+        deletedEntities: [],
+        events: [],
+        lastProcessedInputs: {},
+        full: true,
+      };
+      handler(encodeSnapshot(snapshot));
+      handler(encodeSnapshot({ ...snapshot, tick: 6, entities: {} }));
+
+      expect(networkService.getInterpolatedEntity('player1')).toBeNull();
+    });
+
+    it('should acknowledge each received snapshot tick', async () => {
+      mockSocket.on.mockImplementation((event: string, cb: Function) => {
+        if (event === 'connect') cb();
+      });
+
+      await networkService.connect();
+      const handler = mockSocket.on.mock.calls.find(
+        (c: any[]) => c[0] === 'game_state_update',
+      )[1];
+
+      handler({ tick: 9, entities: {} });
+      handler(
+        encodeSnapshot({
+          timestamp: 1000,
+          roomId: 'room-1',
+          tick: 12,
+          entities: {},
+          deletedEntities: [],
+          events: [],
+          lastProcessedInputs: {},
+          full: true,
+        }),
+      );
+      handler({ state: 'playing' });
+
+      const acks = mockSocket.emit.mock.calls.filter(
+        (c: any[]) => c[0] === 'snapshot_ack',
+      );
+      expect(acks).toEqual([
+        ['snapshot_ack', { tick: 9 }],
+        ['snapshot_ack', { tick: 12 }],
+      ]);
+    });
+
+    it('should ask for a full snapshot when a delta baseline is missing', async () => {
+      const callback = jest.fn();
+      mockSocket.on.mockImplementation((event: string, cb: Function) => {
+        if (event === 'connect') cb();
+      });
+
+      await networkService.connect();
+      networkService.on('game_state_update', callback);
+      const handler = mockSocket.on.mock.calls.find(
+        (c: any[]) => c[0] === 'game_state_update',
+      )[1];
+
+      const player = { type: 'player', position: { x: 100, y: 300 } };
+      const snapshot = {
+        timestamp: 1000,
+        roomId: 'room-1',
+        tick: 12,
+        entities: { player1: player },
+        deletedEntities: [],
+        events: [],
+        lastProcessedInputs: {},
+        full: true,
+      };
+      const delta = (tick: number) =>
+        encodeSnapshot(
+          { ...snapshot, tick, baselineTick: 9, full: false },
+          { player1: player },
+        );
+      handler(delta(12));
+      handler(delta(15));
+
+      const sent = () => mockSocket.emit.mock.calls.map((c: any[]) => c[0]);
+      // Nothing was applied or acknowledged, and one resync covers the gap
+      expect(callback).not.toHaveBeenCalled();
+      expect(sent()).not.toContain('snapshot_ack');
+      expect(
+        sent().filter((e: string) => e === 'snapshot_resync'),
+      ).toHaveLength(1);
+
+      handler(encodeSnapshot(snapshot));
+      handler(delta(18));
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(
+        sent().filter((e: string) => e === 'snapshot_resync'),
+      ).toHaveLength(2);
+    });
+
+    it('should request binary snapshots when connecting', async () => {
+      mockSocket.on.mockImplementation((event: string, cb: Function) => {
+        if (event === 'connect') cb();
+      });
+
+      await networkService.connect();
+
+      expect(io).toHaveBeenCalledWith(
+        'http://localhost:3000',
+        expect.objectContaining({
+          query: { snapshotCodec: String(SNAPSHOT_CODEC_VERSION) },
+        }),
+      );
+    });
+
     it('should forward player_damaged event', async () => {
       const callback = jest.fn();
       mockSocket.on.mockImplementation((event: string, cb: Function) => {
@@ -154,4 +154,93 @@ describe('PredictionService', () => {
       expect(history).toHaveLength(1);
     });
   });
+
+  describe('reconcile with predicted state', () => {
+    it('should skip correction when the prediction matches the server', () => {
+      predictionService.recordInput(1, { moveX: 1 }, { x: 100, y: 200 });
+      predictionService.recordInput(2, { moveX: 1 }, { x: 104, y: 200 });
+      const applyCorrection = jest.fn();
+
+      const corrected = predictionService.reconcile(
+        { lastProcessedInput: 1, position: { x: 102, y: 201 } },
+        'player-1',
+        applyCorrection,
+      );
+
+      expect(corrected).toBe(false);
+      expect(applyCorrection).not.toHaveBeenCalled();
+      expect(predictionService.getHistory()).toHaveLength(1);
+    });
+
+    it('should correct and replay unacknowledged inputs on misprediction', () => {
+      predictionService.recordInput(1, { moveX: 1 }, { x: 100, y: 200 });
+      predictionService.recordInput(2, { moveX: 1 }, { x: 104, y: 200 });
+      predictionService.recordInput(3, { moveX: -1 }, { x: 108, y: 200 });
+      const applyCorrection = jest.fn();
+      const replayed: number[] = [];
+
+      const corrected = predictionService.reconcile(
+        { lastProcessedInput: 1, position: { x: 60, y: 200 } },
+        'player-1',
+        applyCorrection,
+        (entry) => replayed.push(entry.sequence),
+      );
+
+      expect(corrected).toBe(true);
+      expect(applyCorrection).toHaveBeenCalledWith(
+        expect.objectContaining({ position: { x: 60, y: 200 } }),
+      );
+      expect(replayed).toEqual([2, 3]);
+    });
+
+    it('should respect a custom correction threshold', () => {
+      const service = new PredictionService({ correctionThreshold: 50 });
+      service.recordInput(1, {}, { x: 0, y: 0 });
+      const applyCorrection = jest.fn();
+
+      service.reconcile(
+        { lastProcessedInput: 1, position: { x: 30, y: 30 } },
+        'player-1',
+        applyCorrection,
+      );
+
+      expect(applyCorrection).not.toHaveBeenCalled();
+    });
+
+    it('should ignore snapshots older than the last reconciled one', () => {
+      predictionService.recordInput(5, {});
+      predictionService.setLastProcessedSequence(5);
+      const applyCorrection = jest.fn();
+
+      const corrected = predictionService.reconcile(
+        { lastProcessedInput: 3, position: { x: 0, y: 0 } },
+        'player-1',
+        applyCorrection,
+      );
+
+      expect(corrected).toBe(false);
+      expect(applyCorrection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acknowledge', () => {
+    it('should drop acknowledged inputs and track the sequence', () => {
+      predictionService.recordInput(1, {});
+      predictionService.recordInput(2, {});
+      predictionService.recordInput(3, {});
+
+      predictionService.acknowledge(2);
+
+      expect(predictionService.getHistory().map((e) => e.sequence)).toEqual([
+        3,
+      ]);
+      expect(predictionService.getLastProcessedSequence()).toBe(2);
+    });
+
+    it('should never move the acknowledged sequence backwards', () => {
+      predictionService.acknowledge(4);
+      predictionService.acknowledge(2);
+      expect(predictionService.getLastProcessedSequence()).toBe(4);
+    });
+  });
 });
@@ -0,0 +1,354 @@
+import {
+  SAVE_CONFLICT_EVENT,
+  SaveConflict,
+  SaveSyncService,
+} from '../../../src/services/SaveSyncService';
+import {
+  CloudSaveConflictError,
+  CloudSaveSummary,
+} from '../../../src/services/CloudSaveService';
+import { ApiError } from '../../../src/services/ApiClient';
+import { SaveData, SaveManager } from '../../../src/core/SaveManager';
+import { eventBus } from '../../../src/core/EventBus';
+
+// Mock the logger
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+interface CloudSlot {
+  revision: number;
+  data?: SaveData;
+}
+
+/**
+ * In-memory stand-in for the save storage API, refusing writes based on a
+ * stale revision like the server does.
+ */
+class FakeCloud {
+  slots = new Map<string, CloudSlot>();
+  offline = false;
+
+  static slotName(slotIndex: number): string {
+    return slotIndex === -1 ? 'auto' : String(slotIndex);
+  }
+
+  summary(slot: string): CloudSaveSummary {
+    const stored = this.slots.get(slot);
+    return {
+      slot,
+      revision: stored?.revision ?? 0,
+      savedAt: stored?.data?.timestamp ?? 0,
+      deleted: !stored?.data,
+    };
+  }
+
+  /** A change made on another device. */
+  storeElsewhere(slotIndex: number, data: SaveData | undefined): void {
+    const slot = FakeCloud.slotName(slotIndex);
+    const revision = (this.slots.get(slot)?.revision ?? 0) + 1;
+    this.slots.set(slot, { revision, data });
+  }
+
+  private checkOnline(): void {
+    if (this.offline) throw new ApiError('Could not reach server', 0);
+  }
+
+  private checkRevision(slot: string, baseRevision: number): void {
+    if ((this.slots.get(slot)?.revision ?? 0) !== baseRevision) {
+      throw new CloudSaveConflictError(this.summary(slot));
+    }
+  }
+
+  listSaves = jest.fn(async () => {
+    this.checkOnline();
+    return [...this.slots.keys()].map((slot) => this.summary(slot));
+  });
+
+  getSave = jest.fn(async (slotIndex: number) => {
+    this.checkOnline();
+    const slot = FakeCloud.slotName(slotIndex);
+    const stored = this.slots.get(slot);
+    return stored?.data ? { ...this.summary(slot), data: stored.data } : null;
+  });
+
+  putSave = jest.fn(
+    async (slotIndex: number, data: SaveData, baseRevision: number) => {
+      this.checkOnline();
+      const slot = FakeCloud.slotName(slotIndex);
+      this.checkRevision(slot, baseRevision);
+      this.slots.set(slot, { revision: baseRevision + 1, data });
+      return this.summary(slot);
+    },
+  );
+
+  deleteSave = jest.fn(async (slotIndex: number, baseRevision: number) => {
+    this.checkOnline();
+    const slot = FakeCloud.slotName(slotIndex);
+    if (!this.slots.get(slot)?.data) return null;
+    this.checkRevision(slot, baseRevision);
+    this.slots.set(slot, { revision: baseRevision + 1 });
+    return this.summary(slot);
+  });
+}
+
+describe('SaveSyncService', () => {
+  let cloud: FakeCloud;
+  let saveManager: SaveManager;
+  let sync: SaveSyncService;
+  let clock: number;
+
+  const progress = (currentLevel: number): Partial<SaveData> => ({
+    player: {
+      health: 20,
+      maxHealth: 20,
+      currentLevel,
+      unlockedLevels: [1, currentLevel],
+      totalScore: currentLevel * 100,
+      totalCoins: 0,
+      totalEnemiesDefeated: 0,
+    },
+  });
+
+  const cloudSave = (currentLevel: number): SaveData => ({
+    version: '1.0.0',
+    timestamp: (clock += 1000),
+    player: progress(currentLevel).player!,
+    levels: {},
+    settings: {
+      musicVolume: 100,
+      sfxVolume: 100,
+      musicEnabled: true,
+      sfxEnabled: true,
+    },
+  });
+
+  const newSync = () =>
+    new SaveSyncService(saveManager, cloud as unknown as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+    clock = 1000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => (clock += 1000));
+    cloud = new FakeCloud();
+    saveManager = new SaveManager(undefined, false);
+    sync = newSync();
+  });
+
+  afterEach(() => {
+    sync.stop();
+    eventBus.clear(SAVE_CONFLICT_EVENT);
+    jest.restoreAllMocks();
+  });
+
+  describe('syncAll', () => {
+    it('should push saves made before sync was set up', async () => {
+      saveManager.saveGame(0, progress(2));
+      saveManager.saveAutoGame(progress(3));
+
+      await expect(sync.start()).resolves.toEqual([]);
+
+      expect(cloud.slots.get('0')).toEqual({
+        revision: 1,
+        data: saveManager.loadGame(0),
+      });
+      expect(cloud.slots.get('auto')!.data!.player.currentLevel).toBe(3);
+      expect(sync.hasPendingChanges()).toBe(false);
+    });
+
+    it('should pull saves made on another device', async () => {
+      const remote = cloudSave(4);
+      cloud.storeElsewhere(1, remote);
+
+      await sync.syncAll();
+
+      // Kept as saved, timestamp included
+      expect(saveManager.loadGame(1)).toEqual(remote);
+      expect(cloud.putSave).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when both sides agree', async () => {
+      saveManager.saveGame(0, progress(2));
+      await sync.syncAll();
+      cloud.putSave.mockClear();
+
+      await sync.syncAll();
+
+      expect(cloud.putSave).not.toHaveBeenCalled();
+      expect(cloud.getSave).not.toHaveBeenCalled();
+    });
+
+    it('should delete in the cloud a slot deleted here', async () => {
+      saveManager.saveGame(2, progress(2));
+      await sync.syncAll();
+
+      saveManager.deleteSave(2);
+      await sync.syncAll();
+
+      expect(cloud.slots.get('2')).toEqual({ revision: 2 });
+    });
+
+    it('should delete here a slot deleted on another device', async () => {
+      saveManager.saveGame(2, progress(2));
+      await sync.syncAll();
+
+      cloud.storeElsewhere(2, undefined);
+      await sync.syncAll();
+
+      expect(saveManager.hasSave(2)).toBe(false);
+    });
+
+    it('should leave saves alone while offline', async () => {
+      saveManager.saveGame(0, progress(2));
+      cloud.offline = true;
+
+      await expect(sync.syncAll()).resolves.toEqual([]);
+
+      expect(saveManager.loadGame(0)!.player.currentLevel).toBe(2);
+    });
+  });
+
+  describe('pushing saves as they happen', () => {
+    beforeEach(async () => {
+      await sync.start();
+    });
+
+    it('should store a save in the cloud', async () => {
+      saveManager.saveGame(3, progress(5));
+      await sync.flush();
+
+      expect(cloud.slots.get('3')!.data).toEqual(saveManager.loadGame(3));
+    });
+
+    it('should queue saves made offline and push them once back online', async () => {
+      cloud.offline = true;
+      saveManager.saveAutoGame(progress(2));
+      await sync.flush();
+      expect(sync.hasPendingChanges()).toBe(true);
+
+      cloud.offline = false;
+      window.dispatchEvent(new Event('online'));
+      await sync.flush();
+
+      expect(cloud.slots.get('auto')!.data!.player.currentLevel).toBe(2);
+      expect(sync.hasPendingChanges()).toBe(false);
+    });
+
+    it('should keep the queue across reloads', async () => {
+      cloud.offline = true;
+      saveManager.saveGame(0, progress(4));
+      await sync.flush();
+      sync.stop();
+
+      cloud.offline = false;
+      sync = newSync();
+      await sync.start();
+
+      expect(cloud.slots.get('0')!.data!.player.currentLevel).toBe(4);
+    });
+  });
+
+  describe('conflicts', () => {
+    let raised: SaveConflict[];
+
+    beforeEach(async () => {
+      raised = [];
+      eventBus.on<SaveConflict>(SAVE_CONFLICT_EVENT, (conflict) =>
+        raised.push(conflict),
+      );
+      saveManager.saveGame(0, progress(2));
+      await sync.start();
+    });
+
+    it('should raise a conflict when a slot changed on both sides', async () => {
+      sync.stop();
+      saveManager.saveGame(0, progress(3));
+      const remote = cloudSave(7);
+      cloud.storeElsewhere(0, remote);
+
+      const conflicts = await sync.syncAll();
+
+      expect(conflicts).toEqual([
+        {
+          slotIndex: 0,
+          local: saveManager.loadGame(0),
+          cloud: remote,
+          cloudRevision: 2,
+        },
+      ]);
+      expect(raised).toEqual(conflicts);
+      // Neither side is touched until the player chooses
+      expect(saveManager.loadGame(0)!.player.currentLevel).toBe(3);
+      expect(cloud.slots.get('0')!.data).toBe(remote);
+    });
+
+    it('should raise a conflict when a push finds the cloud moved on', async () => {
+      cloud.storeElsewhere(0, cloudSave(7));
+
+      saveManager.saveGame(0, progress(3));
+      await sync.flush();
+
+      expect(sync.getConflicts()).toHaveLength(1);
+      expect(raised[0].cloudRevision).toBe(2);
+      expect(cloud.slots.get('0')!.data!.player.currentLevel).toBe(7);
+    });
+
+    it('should not call the same save on both sides a conflict', async () => {
+      sync.stop();
+      saveManager.saveGame(0, progress(3));
+      // Pushed by this device, but the answer was lost
+      cloud.storeElsewhere(0, saveManager.loadGame(0));
+
+      await expect(sync.syncAll()).resolves.toEqual([]);
+    });
+
+    it("should keep this device's copy when chosen", async () => {
+      sync.stop();
+      saveManager.saveGame(0, progress(3));
+      cloud.storeElsewhere(0, cloudSave(7));
+      await sync.syncAll();
+
+      await sync.resolveConflict(0, 'local');
+
+      expect(cloud.slots.get('0')).toEqual({
+        revision: 3,
+        data: saveManager.loadGame(0),
+      });
+      expect(sync.getConflicts()).toEqual([]);
+    });
+
+    it("should keep the cloud's copy when chosen", async () => {
+      sync.stop();
+      saveManager.saveGame(0, progress(3));
+      const remote = cloudSave(7);
+      cloud.storeElsewhere(0, remote);
+      await sync.syncAll();
+
+      await sync.resolveConflict(0, 'cloud');
+
+      expect(saveManager.loadGame(0)).toEqual(remote);
+      expect(sync.getConflicts()).toEqual([]);
+      // Now in agreement
+      await expect(sync.syncAll()).resolves.toEqual([]);
+      expect(cloud.slots.get('0')!.revision).toBe(2);
+    });
+
+    it('should hold back pushes of a slot in conflict', async () => {
+      cloud.storeElsewhere(0, cloudSave(7));
+      saveManager.saveGame(0, progress(3));
+      await sync.flush();
+      cloud.putSave.mockClear();
+
+      saveManager.saveGame(0, progress(4));
+      await sync.flush();
+
+      expect(cloud.putSave).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -56,6 +56,7 @@ module.exports = (env, argv) => {
       extensions: ['.ts', '.js'],
       alias: {
         '@': path.resolve(__dirname, 'src'),
+        '@shared': path.resolve(__dirname, '../shared'),
       },
     },
     plugins: [
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePlayerRatings1792368000000 implements MigrationInterface {
+  name = 'CreatePlayerRatings1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // player_ratings (Glicko-2, one row per player and game mode)
+    await queryRunner.query(`
+      CREATE TABLE player_ratings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        player_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        game_mode VARCHAR(50) NOT NULL,
+        rating DOUBLE PRECISION DEFAULT 1500,
+        deviation DOUBLE PRECISION DEFAULT 350,
+        volatility DOUBLE PRECISION DEFAULT 0.06,
+        games_played INTEGER DEFAULT 0,
+        wins INTEGER DEFAULT 0,
+        losses INTEGER DEFAULT 0,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(player_id, game_mode)
+      );
+      CREATE INDEX idx_player_ratings_mode_rating ON player_ratings (game_mode, rating DESC);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE player_ratings;');
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAuthTables1792454400000 implements MigrationInterface {
+  name = 'CreateAuthTables1792454400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // login lockout
+    await queryRunner.query(`
+      ALTER TABLE player_profiles
+        ADD COLUMN failed_login_attempts INTEGER DEFAULT 0,
+        ADD COLUMN locked_until TIMESTAMP;
+    `);
+
+    // refresh_tokens
+    await queryRunner.query(`
+      CREATE TABLE refresh_tokens (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        player_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        token_hash VARCHAR(64) UNIQUE NOT NULL,
+        family_id UUID NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_refresh_tokens_family ON refresh_tokens (family_id);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE refresh_tokens;');
+    await queryRunner.query(`
+      ALTER TABLE player_profiles
+        DROP COLUMN failed_login_attempts,
+        DROP COLUMN locked_until;
+    `);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddGuestProfiles1792540800000 implements MigrationInterface {
+  name = 'AddGuestProfiles1792540800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // anonymous profiles signed in with a device token
+    await queryRunner.query(`
+      ALTER TABLE player_profiles
+        ADD COLUMN is_guest BOOLEAN DEFAULT FALSE,
+        ADD COLUMN device_token_hash VARCHAR(64) UNIQUE;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE player_profiles
+        DROP COLUMN is_guest,
+        DROP COLUMN device_token_hash;
+    `);
+  }
+}
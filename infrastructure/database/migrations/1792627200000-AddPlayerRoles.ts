@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPlayerRoles1792627200000 implements MigrationInterface {
+  name = 'AddPlayerRoles1792627200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // API permissions ('player' or 'admin')
+    await queryRunner.query(`
+      ALTER TABLE player_profiles
+        ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'player';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE player_profiles DROP COLUMN role;');
+  }
+}
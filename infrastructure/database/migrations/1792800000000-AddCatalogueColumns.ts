@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCatalogueColumns1792800000000 implements MigrationInterface {
+  name = 'AddCatalogueColumns1792800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Stable codes let the catalogue file find the unlockables it defines
+    await queryRunner.query(`
+      ALTER TABLE unlockables
+        ADD COLUMN code VARCHAR(100) UNIQUE,
+        ADD COLUMN retired_at TIMESTAMP;
+    `);
+    // Retired entries stay for players who already earned them
+    await queryRunner.query(`
+      ALTER TABLE achievements
+        ADD COLUMN retired_at TIMESTAMP;
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE achievements DROP COLUMN retired_at;');
+    await queryRunner.query(`
+      ALTER TABLE unlockables
+        DROP COLUMN retired_at,
+        DROP COLUMN code;
+    `);
+  }
+}
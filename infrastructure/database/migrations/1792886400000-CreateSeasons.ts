@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSeasons1792886400000 implements MigrationInterface {
+  name = 'CreateSeasons1792886400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // seasons (the live one is the latest without archived_at)
+    await queryRunner.query(`
+      CREATE TABLE seasons (
+        id SERIAL PRIMARY KEY,
+        starts_at TIMESTAMP NOT NULL,
+        ends_at TIMESTAMP NOT NULL,
+        archived_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    // season_standings (final standings copied out of Redis at rollover)
+    await queryRunner.query(`
+      CREATE TABLE season_standings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        season_id INTEGER NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+        player_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        rank INTEGER NOT NULL,
+        score INTEGER NOT NULL,
+        UNIQUE(season_id, player_id)
+      );
+      CREATE INDEX idx_season_standings_season_rank ON season_standings (season_id, rank);
+      CREATE INDEX idx_season_standings_player ON season_standings (player_id);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE season_standings;');
+    await queryRunner.query('DROP TABLE seasons;');
+  }
+}
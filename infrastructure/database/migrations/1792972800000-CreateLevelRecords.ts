@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateLevelRecords1792972800000 implements MigrationInterface {
+  name = 'CreateLevelRecords1792972800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // level_records (a player's best time and high score on each level)
+    await queryRunner.query(`
+      CREATE TABLE level_records (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        player_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        level_number INTEGER NOT NULL,
+        best_time_ms INTEGER NOT NULL,
+        best_time_at TIMESTAMP NOT NULL,
+        high_score INTEGER NOT NULL,
+        high_score_at TIMESTAMP NOT NULL,
+        runs INTEGER DEFAULT 0,
+        last_run_at TIMESTAMP NOT NULL,
+        last_run_metadata JSONB DEFAULT '{}',
+        UNIQUE(player_id, level_number)
+      );
+      CREATE INDEX idx_level_records_time ON level_records (level_number, best_time_ms, best_time_at);
+      CREATE INDEX idx_level_records_score ON level_records (level_number, high_score DESC, high_score_at);
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE level_records;');
+  }
+}
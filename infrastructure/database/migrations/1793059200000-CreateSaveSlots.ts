@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateSaveSlots1793059200000 implements MigrationInterface {
+  name = 'CreateSaveSlots1793059200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // save_slots (cloud copies of the client's save slots and autosave)
+    await queryRunner.query(`
+      CREATE TABLE save_slots (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        player_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        slot VARCHAR(8) NOT NULL,
+        data JSONB,
+        revision INTEGER NOT NULL,
+        saved_at TIMESTAMP NOT NULL,
+        deleted BOOLEAN DEFAULT false,
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(player_id, slot)
+      );
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE save_slots;');
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCommunityLevels1793145600000 implements MigrationInterface {
+  name = 'CreateCommunityLevels1793145600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // community_levels (levels uploaded by players)
+    await queryRunner.query(`
+      CREATE TABLE community_levels (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        author_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        title VARCHAR(48) NOT NULL,
+        description VARCHAR(500) NOT NULL DEFAULT '',
+        map JSONB NOT NULL,
+        config JSONB NOT NULL DEFAULT '{}',
+        width INTEGER NOT NULL,
+        height INTEGER NOT NULL,
+        rating_total INTEGER DEFAULT 0,
+        rating_count INTEGER DEFAULT 0,
+        average_rating REAL DEFAULT 0,
+        downloads INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+      CREATE INDEX idx_community_levels_created ON community_levels (created_at);
+      CREATE INDEX idx_community_levels_downloads ON community_levels (downloads);
+      CREATE INDEX idx_community_levels_rating ON community_levels (average_rating);
+    `);
+
+    // community_level_ratings (one rating per player per level)
+    await queryRunner.query(`
+      CREATE TABLE community_level_ratings (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        level_id UUID NOT NULL REFERENCES community_levels(id) ON DELETE CASCADE,
+        player_id UUID NOT NULL REFERENCES player_profiles(id) ON DELETE CASCADE,
+        rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(level_id, player_id)
+      );
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE community_level_ratings;');
+    await queryRunner.query('DROP TABLE community_levels;');
+  }
+}
@@ -0,0 +1,189 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../../persistence/database';
+import { AchievementRepository } from '../../persistence/repositories/AchievementRepository';
+import { UnlockableRepository } from '../../persistence/repositories/UnlockableRepository';
+import {
+  CatalogueError,
+  CatalogueService,
+  getCataloguePath,
+  validateAchievementDefinition,
+  validateUnlockableDefinition,
+} from '../../services/CatalogueService';
+import {
+  authenticateHttp,
+  requireAdmin,
+} from '../../network/middleware/httpAuth';
+import { logger } from '../../utils/logger';
+
+const router: Router = Router();
+const dataSource = AppDataSource;
+
+// Input validation helpers
+const isValidCode = (code: string): boolean => {
+  return /^[A-Za-z0-9_.-]{1,100}$/.test(code);
+};
+
+// Middleware to validate the code param
+const validateCode = (req: any, res: any, next: any) => {
+  if (!isValidCode(req.params.code)) {
+    return res.status(400).json({ error: 'Invalid code' });
+  }
+  next();
+};
+
+const achievementRepo = new AchievementRepository(dataSource);
+const unlockableRepo = new UnlockableRepository(dataSource);
+const catalogueService = new CatalogueService(
+  dataSource,
+  achievementRepo,
+  unlockableRepo,
+);
+
+// Answer with a CatalogueError's status, anything else is a server error
+const handleError = (error: any, res: Response) => {
+  if (error instanceof CatalogueError) {
+    return res.status(error.status).json({
+      error: error.message,
+      ...(error.details.length > 0 && { details: error.details }),
+    });
+  }
+  logger.error(error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+// Everything here is for admins only
+router.use(authenticateHttp, requireAdmin);
+router.use('/achievements/:code', validateCode);
+router.use('/unlockables/:code', validateCode);
+
+// List all achievements, retired ones included
+router.get('/achievements', async (req, res) => {
+  try {
+    const achievements = await catalogueService.listAchievements();
+    res.json(achievements);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Add an achievement
+router.post('/achievements', async (req, res) => {
+  const errors = validateAchievementDefinition(req.body);
+  if (errors.length > 0) {
+    return res
+      .status(400)
+      .json({ error: 'Invalid achievement', details: errors });
+  }
+
+  try {
+    const achievement = await catalogueService.createAchievement(req.body);
+    res.status(201).json(achievement);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Change some fields of an achievement
+router.patch('/achievements/:code', async (req, res) => {
+  const errors = validateAchievementDefinition(req.body, true);
+  if (errors.length > 0) {
+    return res
+      .status(400)
+      .json({ error: 'Invalid achievement', details: errors });
+  }
+
+  try {
+    const achievement = await catalogueService.updateAchievement(
+      req.params.code,
+      req.body,
+    );
+    res.json(achievement);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Retire an achievement; players keep it but it stops counting progress
+router.delete('/achievements/:code', async (req, res) => {
+  try {
+    const achievement = await catalogueService.retireAchievement(
+      req.params.code,
+    );
+    res.json(achievement);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// List all unlockables, secret and retired ones included
+router.get('/unlockables', async (req, res) => {
+  try {
+    const unlockables = await catalogueService.listUnlockables();
+    res.json(unlockables);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Add an unlockable
+router.post('/unlockables', async (req, res) => {
+  const errors = validateUnlockableDefinition(req.body);
+  if (errors.length > 0) {
+    return res
+      .status(400)
+      .json({ error: 'Invalid unlockable', details: errors });
+  }
+
+  try {
+    const unlockable = await catalogueService.createUnlockable(req.body);
+    res.status(201).json(unlockable);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Change some fields of an unlockable
+router.patch('/unlockables/:code', async (req, res) => {
+  const errors = validateUnlockableDefinition(req.body, true);
+  if (errors.length > 0) {
+    return res
+      .status(400)
+      .json({ error: 'Invalid unlockable', details: errors });
+  }
+
+  try {
+    const unlockable = await catalogueService.updateUnlockable(
+      req.params.code,
+      req.body,
+    );
+    res.json(unlockable);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Retire an unlockable; players keep it but it is no longer handed out
+router.delete('/unlockables/:code', async (req, res) => {
+  try {
+    const unlockable = await catalogueService.retireUnlockable(req.params.code);
+    res.json(unlockable);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Sync the catalogue file again without restarting the server
+router.post('/catalogue/sync', async (req, res) => {
+  try {
+    const catalogue = await catalogueService.loadFile(getCataloguePath());
+    if (!catalogue) {
+      return res.status(404).json({ error: 'Catalogue file not found' });
+    }
+    const result = await catalogueService.sync(catalogue);
+    res.json(result);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
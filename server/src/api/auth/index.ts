@@ -0,0 +1,178 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../../persistence/database';
+import { PlayerProfileRepository } from '../../persistence/repositories/PlayerProfileRepository';
+import { RefreshTokenRepository } from '../../persistence/repositories/RefreshTokenRepository';
+import { AuthError, AuthService } from '../../services/AuthService';
+import { logger } from '../../utils/logger';
+
+const router: Router = Router();
+const dataSource = AppDataSource;
+
+// Input validation helpers
+// The guest_ prefix is reserved for anonymous profiles
+const isValidUsername = (username: unknown): boolean => {
+  return (
+    typeof username === 'string' &&
+    /^[a-zA-Z0-9_]{3,20}$/.test(username) &&
+    !username.toLowerCase().startsWith('guest_')
+  );
+};
+
+// bcrypt only looks at the first 72 bytes
+const isValidPassword = (password: unknown): boolean => {
+  return (
+    typeof password === 'string' &&
+    password.length >= 8 &&
+    Buffer.byteLength(password) <= 72
+  );
+};
+
+const isValidEmail = (email: unknown): boolean => {
+  return (
+    typeof email === 'string' &&
+    email.length <= 255 &&
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)
+  );
+};
+
+// Refresh and device tokens
+const isValidOpaqueToken = (token: unknown): boolean => {
+  return typeof token === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(token);
+};
+
+const profileRepo = new PlayerProfileRepository(dataSource);
+const refreshTokenRepo = new RefreshTokenRepository(dataSource);
+const authService = new AuthService(dataSource, profileRepo, refreshTokenRepo);
+
+// Answer with an AuthError's status, anything else is a server error
+const handleError = (error: any, res: Response) => {
+  if (error instanceof AuthError) {
+    if (error.retryAfterSeconds !== undefined) {
+      res.setHeader('Retry-After', error.retryAfterSeconds);
+    }
+    return res.status(error.status).json({ error: error.message });
+  }
+  logger.error(error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+// Check the fields of a new account, returning the first problem found
+const validateCredentials = (body: any): string | null => {
+  const { username, password, email } = body;
+  if (!isValidUsername(username)) {
+    return 'Username must be 3-20 letters, digits or underscores';
+  }
+  if (!isValidPassword(password)) {
+    return 'Password must be 8-72 characters long';
+  }
+  if (email !== undefined && email !== null && !isValidEmail(email)) {
+    return 'Invalid email address';
+  }
+  return null;
+};
+
+// Create an account
+router.post('/register', async (req, res) => {
+  const body = req.body ?? {};
+  const invalid = validateCredentials(body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  try {
+    const result = await authService.register(
+      body.username,
+      body.password,
+      body.email,
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Sign in as a guest, resuming the profile of a known device token
+router.post('/guest', async (req, res) => {
+  const { deviceToken } = req.body ?? {};
+  if (deviceToken !== undefined && !isValidOpaqueToken(deviceToken)) {
+    return res.status(400).json({ error: 'Invalid device token' });
+  }
+
+  try {
+    const result = await authService.signInGuest(deviceToken);
+    res.json(result);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Turn a guest profile into a registered account, keeping its progress
+router.post('/upgrade', async (req, res) => {
+  const body = req.body ?? {};
+  if (!isValidOpaqueToken(body.deviceToken)) {
+    return res.status(400).json({ error: 'Device token required' });
+  }
+  const invalid = validateCredentials(body);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+
+  try {
+    const result = await authService.upgradeGuest(
+      body.deviceToken,
+      body.username,
+      body.password,
+      body.email,
+    );
+    res.json(result);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Sign in with username and password
+router.post('/login', async (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Username and password required' });
+  }
+
+  try {
+    const result = await authService.login(username, password);
+    res.json(result);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Trade a refresh token for new tokens
+router.post('/refresh', async (req, res) => {
+  const { refreshToken } = req.body ?? {};
+  if (!isValidOpaqueToken(refreshToken)) {
+    return res.status(400).json({ error: 'Refresh token required' });
+  }
+
+  try {
+    const result = await authService.refresh(refreshToken);
+    res.json(result);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Revoke a refresh token (and all tokens rotated from it)
+router.post('/logout', async (req, res) => {
+  const { refreshToken } = req.body ?? {};
+  if (!isValidOpaqueToken(refreshToken)) {
+    return res.status(400).json({ error: 'Refresh token required' });
+  }
+
+  try {
+    await authService.logout(refreshToken);
+    res.status(204).end();
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../../persistence/database';
+import {
+  CommunityLevelOrder,
+  CommunityLevelRepository,
+} from '../../persistence/repositories/CommunityLevelRepository';
+import {
+  COMMUNITY_LEVEL_ORDERS,
+  CommunityLevelError,
+  CommunityLevelService,
+  validateLevelUpload,
+} from '../../services/CommunityLevelService';
+import {
+  AuthenticatedRequest,
+  authenticateHttp,
+} from '../../network/middleware/httpAuth';
+import { logger } from '../../utils/logger';
+
+const router: Router = Router();
+const dataSource = AppDataSource;
+
+// Input validation helpers
+const isValidId = (id: string): boolean => {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+    id,
+  );
+};
+
+const isValidLimit = (limit: unknown): boolean => {
+  const parsed = parseInt(limit as string);
+  return !isNaN(parsed) && parsed > 0 && parsed <= 50;
+};
+
+const isValidOffset = (offset: unknown): boolean => {
+  return typeof offset === 'string' && /^(0|[1-9][0-9]{0,5})$/.test(offset);
+};
+
+const isValidOrder = (order: unknown): order is CommunityLevelOrder => {
+  return COMMUNITY_LEVEL_ORDERS.includes(order as CommunityLevelOrder);
+};
+
+const isValidRating = (rating: any): rating is number => {
+  return Number.isInteger(rating) && rating >= 1 && rating <= 5;
+};
+
+// Middleware to validate the level id param
+const validateId = (req: any, res: any, next: any) => {
+  if (!isValidId(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid level id' });
+  }
+  next();
+};
+
+const levelRepo = new CommunityLevelRepository(dataSource);
+const communityLevelService = new CommunityLevelService(dataSource, levelRepo);
+
+// Answer with a CommunityLevelError's status, anything else is a server error
+const handleError = (error: any, res: Response) => {
+  if (error instanceof CommunityLevelError) {
+    return res.status(error.status).json({
+      error: error.message,
+      ...(error.details.length > 0 && { details: error.details }),
+    });
+  }
+  logger.error(error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+router.use('/levels/:id', validateId);
+
+// Browse and search levels
+router.get('/levels', async (req, res) => {
+  const { q, sort = 'newest', limit, offset = '0' } = req.query;
+  if (!isValidOrder(sort)) {
+    return res.status(400).json({ error: 'Invalid sort' });
+  }
+  if (q !== undefined && (typeof q !== 'string' || q.length > 48)) {
+    return res.status(400).json({ error: 'Invalid search' });
+  }
+  if (!isValidOffset(offset)) {
+    return res.status(400).json({ error: 'Invalid offset' });
+  }
+
+  try {
+    const page = await communityLevelService.searchLevels({
+      query: q as string | undefined,
+      order: sort,
+      limit: isValidLimit(limit) ? parseInt(limit as string) : 20,
+      offset: parseInt(offset as string),
+    });
+    res.json(page);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Publish a level
+router.post('/levels', authenticateHttp, async (req, res) => {
+  const errors = validateLevelUpload(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid level', details: errors });
+  }
+
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    const summary = await communityLevelService.uploadLevel(
+      auth.playerId,
+      req.body,
+    );
+    res.status(201).json(summary);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Download a level to play
+router.get('/levels/:id', async (req, res) => {
+  try {
+    res.json(await communityLevelService.downloadLevel(req.params.id));
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Rate a level from 1 to 5 stars, replacing any earlier rating
+router.put('/levels/:id/rating', authenticateHttp, async (req, res) => {
+  const rating = req.body?.rating;
+  if (!isValidRating(rating)) {
+    return res
+      .status(400)
+      .json({ error: 'rating must be a whole number from 1 to 5' });
+  }
+
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    res.json(
+      await communityLevelService.rateLevel(
+        auth.playerId,
+        req.params.id,
+        rating,
+      ),
+    );
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -1,12 +1,16 @@
 import { Router } from 'express';
-import { AppDataSource } from '../../persistence/database';
-import { PlayerStatsRepository } from '../../persistence/repositories/PlayerStatsRepository';
-import { PlayerProfileRepository } from '../../persistence/repositories/PlayerProfileRepository';
-import { LeaderboardService } from '../../services/LeaderboardService';
+import {
+  LEADERBOARD_PERIODS,
+  LeaderboardPeriod,
+  LeaderboardService,
+} from '../../services/LeaderboardService';
+import {
+  authenticateHttp,
+  requireAdmin,
+} from '../../network/middleware/httpAuth';
 import { logger } from '../../utils/logger';
 
 const router: Router = Router();
-const dataSource = AppDataSource;
 
 // Input validation helpers
 const isValidPlayerId = (id: string): boolean => {
@@ -18,6 +22,42 @@ const isValidLimit = (limit: unknown): boolean => {
   return !isNaN(parsed) && parsed > 0 && parsed <= 100;
 };
 
+const isValidGameMode = (mode: unknown): boolean => {
+  return typeof mode === 'string' && /^[a-z0-9_-]{1,32}$/i.test(mode);
+};
+
+const isValidPeriod = (period: unknown): period is LeaderboardPeriod => {
+  return LEADERBOARD_PERIODS.includes(period as LeaderboardPeriod);
+};
+
+const isValidSeasonId = (id: unknown): boolean => {
+  return typeof id === 'string' && /^[1-9][0-9]{0,8}$/.test(id);
+};
+
+const isValidCount = (count: unknown, max: number): boolean => {
+  const parsed = parseInt(count as string);
+  return !isNaN(parsed) && parsed >= 0 && parsed <= max;
+};
+
+// Middleware to read the board named by the period and season query params
+const validateBoard = (req: any, res: any, next: any) => {
+  const { period, season } = req.query;
+  if (period !== undefined && !isValidPeriod(period)) {
+    return res.status(400).json({ error: 'Invalid period' });
+  }
+  if (season !== undefined && !isValidSeasonId(season)) {
+    return res.status(400).json({ error: 'Invalid season' });
+  }
+  if (season !== undefined && period !== 'season') {
+    return res
+      .status(400)
+      .json({ error: 'A season can only be given for season boards' });
+  }
+  res.locals.period = period ?? 'alltime';
+  res.locals.seasonId = season === undefined ? undefined : parseInt(season);
+  next();
+};
+
 // Middleware to validate playerId param
 const validatePlayerId = (req: any, res: any, next: any) => {
   const { playerId } = req.params;
@@ -28,26 +68,32 @@ const validatePlayerId = (req: any, res: any, next: any) => {
   next();
 };
 
-// Apply playerId validation to rank route
+// Apply playerId validation to rank routes
 router.get('/rank/:playerId', validatePlayerId);
+router.get('/around/:playerId', validatePlayerId);
 
-const statsRepo = new PlayerStatsRepository(dataSource);
-const profileRepo = new PlayerProfileRepository(dataSource);
-const leaderboardService = new LeaderboardService(
-  dataSource,
-  statsRepo,
-  profileRepo,
-);
+let leaderboardService: LeaderboardService;
+
+/**
+ * Serves the routes from the server's leaderboard service, so they share
+ * its Redis connection. Call before the server starts listening.
+ */
+export function setLeaderboardService(service: LeaderboardService): void {
+  leaderboardService = service;
+}
 
-// Get top players by score
-router.get('/top/score', async (req, res) => {
+// Get top players on a daily, weekly, all-time or season score board
+router.get('/top/score', validateBoard, async (req, res) => {
   try {
     const limitParam = req.query.limit;
     const limit = isValidLimit(limitParam)
       ? parseInt(limitParam as string)
       : 10;
-    const useCache = req.query.cache !== 'false';
-    const top = await leaderboardService.getTopPlayersByScore(limit, useCache);
+    const top = await leaderboardService.getTopPlayersByScore(
+      res.locals.period,
+      limit,
+      res.locals.seasonId,
+    );
     res.json(top);
   } catch (error) {
     logger.error(error);
@@ -70,24 +116,136 @@ router.get('/top/level', async (req, res) => {
   }
 });
 
-// Get player rank by score
-router.get('/rank/:playerId', async (req, res) => {
+// Get top players by skill rating in a game mode
+router.get('/top/rating', async (req, res) => {
+  try {
+    const modeParam = req.query.mode;
+    if (modeParam !== undefined && !isValidGameMode(modeParam)) {
+      return res.status(400).json({ error: 'Invalid game mode' });
+    }
+    const gameMode = (modeParam as string | undefined) ?? 'platformer';
+    const limitParam = req.query.limit;
+    const limit = isValidLimit(limitParam)
+      ? parseInt(limitParam as string)
+      : 10;
+    const useCache = req.query.cache !== 'false';
+    const top = await leaderboardService.getTopPlayersByRating(
+      gameMode,
+      limit,
+      useCache,
+    );
+    res.json(top);
+  } catch (error) {
+    logger.error(error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get player rank and score on a score board
+router.get('/rank/:playerId', validateBoard, async (req, res) => {
   try {
     const rank = await leaderboardService.getPlayerRankByScore(
       req.params.playerId,
+      res.locals.period,
+      res.locals.seasonId,
     );
-    if (rank === -1) {
+    if (!rank) {
       return res.status(404).json({ error: 'Player not found' });
     }
-    res.json({ rank });
+    res.json(rank);
   } catch (error) {
     logger.error(error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Get the players ranked just above and below a player
+router.get('/around/:playerId', validateBoard, async (req, res) => {
+  try {
+    const radiusParam = req.query.radius;
+    const radius = isValidCount(radiusParam, 25)
+      ? parseInt(radiusParam as string)
+      : 5;
+    const entries = await leaderboardService.getPlayersAroundPlayer(
+      req.params.playerId,
+      res.locals.period,
+      radius,
+      res.locals.seasonId,
+    );
+    if (entries.length === 0) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    res.json(entries);
+  } catch (error) {
+    logger.error(error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List recent seasons, the current one first
+router.get('/seasons', async (req, res) => {
+  try {
+    const limitParam = req.query.limit;
+    const limit = isValidLimit(limitParam)
+      ? parseInt(limitParam as string)
+      : 10;
+    const seasons = await leaderboardService.getSeasons(limit);
+    res.json(seasons);
+  } catch (error) {
+    logger.error(error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the final standings of a finished season
+router.get('/seasons/:seasonId/standings', async (req, res) => {
+  if (!isValidSeasonId(req.params.seasonId)) {
+    return res.status(400).json({ error: 'Invalid season' });
+  }
+  try {
+    const limitParam = req.query.limit;
+    const limit = isValidLimit(limitParam)
+      ? parseInt(limitParam as string)
+      : 10;
+    const offsetParam = req.query.offset;
+    const offset = isValidCount(offsetParam, 1000000)
+      ? parseInt(offsetParam as string)
+      : 0;
+    const standings = await leaderboardService.getSeasonStandings(
+      parseInt(req.params.seasonId),
+      limit,
+      offset,
+    );
+    res.json(standings);
+  } catch (error) {
+    logger.error(error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// End the current season now (admin endpoint)
+router.post(
+  '/seasons/rollover',
+  authenticateHttp,
+  requireAdmin,
+  async (req, res) => {
+    try {
+      const season = await leaderboardService.rolloverSeason(new Date(), true);
+      if (!season) {
+        return res
+          .status(409)
+          .json({ error: 'Season rollover already in progress' });
+      }
+      res.json(season);
+    } catch (error) {
+      logger.error(error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  },
+);
+
 // Refresh leaderboard caches (admin endpoint)
-router.post('/refresh', async (req, res) => {
+router.post('/refresh', authenticateHttp, requireAdmin, async (req, res) => {
   try {
     await leaderboardService.refreshAllLeaderboards();
     res.json({ success: true });
@@ -0,0 +1,119 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../../persistence/database';
+import { LevelRecordRepository } from '../../persistence/repositories/LevelRecordRepository';
+import {
+  LEVEL_BOARDS,
+  LevelBoard,
+  LevelRecordError,
+  LevelRecordService,
+  validateLevelResult,
+} from '../../services/LevelRecordService';
+import {
+  AuthenticatedRequest,
+  authenticateHttp,
+} from '../../network/middleware/httpAuth';
+import { logger } from '../../utils/logger';
+
+const router: Router = Router();
+const dataSource = AppDataSource;
+
+// Input validation helpers
+const isValidLevelNumber = (level: string): boolean => {
+  return /^[1-9][0-9]{0,3}$/.test(level);
+};
+
+const isValidLimit = (limit: unknown): boolean => {
+  const parsed = parseInt(limit as string);
+  return !isNaN(parsed) && parsed > 0 && parsed <= 100;
+};
+
+const isValidBoard = (board: unknown): board is LevelBoard => {
+  return LEVEL_BOARDS.includes(board as LevelBoard);
+};
+
+// Middleware to validate the level param
+const validateLevel = (req: any, res: any, next: any) => {
+  if (!isValidLevelNumber(req.params.level)) {
+    return res.status(400).json({ error: 'Invalid level' });
+  }
+  next();
+};
+
+const recordRepo = new LevelRecordRepository(dataSource);
+const levelRecordService = new LevelRecordService(dataSource, recordRepo);
+
+// Answer with a LevelRecordError's status, anything else is a server error
+const handleError = (error: any, res: Response) => {
+  if (error instanceof LevelRecordError) {
+    return res.status(error.status).json({
+      error: error.message,
+      ...(error.details.length > 0 && { details: error.details }),
+    });
+  }
+  logger.error(error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+router.use('/:level', validateLevel);
+
+// Submit a completed run of a level
+router.post('/:level/results', authenticateHttp, async (req, res) => {
+  const errors = validateLevelResult(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid result', details: errors });
+  }
+
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    const outcome = await levelRecordService.submitResult(
+      auth.playerId,
+      parseInt(req.params.level),
+      req.body,
+    );
+    res.status(201).json(outcome);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Get the fastest times or highest scores on a level
+router.get('/:level/leaderboard', async (req, res) => {
+  const board = req.query.board ?? 'time';
+  if (!isValidBoard(board)) {
+    return res.status(400).json({ error: 'Invalid board' });
+  }
+
+  try {
+    const limitParam = req.query.limit;
+    const limit = isValidLimit(limitParam)
+      ? parseInt(limitParam as string)
+      : 10;
+    const entries = await levelRecordService.getLeaderboard(
+      parseInt(req.params.level),
+      board,
+      limit,
+    );
+    res.json(entries);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Get the signed-in player's best time and score on a level, with ranks
+router.get('/:level/leaderboard/me', authenticateHttp, async (req, res) => {
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    const standing = await levelRecordService.getStanding(
+      auth.playerId,
+      parseInt(req.params.level),
+    );
+    if (!standing) {
+      return res.status(404).json({ error: 'Level not completed' });
+    }
+    res.json(standing);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -7,6 +7,11 @@ import { InventoryRepository } from '../../persistence/repositories/InventoryRep
 import { AchievementProgressRepository } from '../../persistence/repositories/AchievementProgressRepository';
 import { ProgressionService } from '../../services/ProgressionService';
 import { InventoryService } from '../../services/InventoryService';
+import {
+  authenticateHttp,
+  requireAdmin,
+  requireOwnerOrAdmin,
+} from '../../network/middleware/httpAuth';
 import { logger } from '../../utils/logger';
 
 const router: Router = Router();
@@ -38,8 +43,14 @@ const validatePlayerId = (req: any, res: any, next: any) => {
   next();
 };
 
-// Apply playerId validation to all routes
-router.use('/:playerId', validatePlayerId);
+// Apply playerId validation to all routes, then only let the player
+// themselves (or an admin) through
+router.use(
+  '/:playerId',
+  validatePlayerId,
+  authenticateHttp,
+  requireOwnerOrAdmin,
+);
 
 const profileRepo = new PlayerProfileRepository(dataSource);
 const statsRepo = new PlayerStatsRepository(dataSource);
@@ -89,8 +100,8 @@ router.get('/:playerId/stats', async (req, res) => {
   }
 });
 
-// Update player stats (partial update)
-router.patch('/:playerId/stats', async (req, res) => {
+// Update player stats (partial update, server-side only)
+router.patch('/:playerId/stats', requireAdmin, async (req, res) => {
   try {
     await progressionService.updateStats(req.params.playerId, req.body);
     res.json({ success: true });
@@ -111,8 +122,8 @@ router.get('/:playerId/unlocks', async (req, res) => {
   }
 });
 
-// Grant unlock
-router.post('/:playerId/unlocks', async (req, res) => {
+// Grant unlock (server-side only)
+router.post('/:playerId/unlocks', requireAdmin, async (req, res) => {
   try {
     const { unlockableId } = req.body;
     if (unlockableId === undefined || unlockableId === null) {
@@ -147,8 +158,8 @@ router.get('/:playerId/inventory', async (req, res) => {
   }
 });
 
-// Add item to inventory
-router.post('/:playerId/inventory', async (req, res) => {
+// Add item to inventory (server-side only)
+router.post('/:playerId/inventory', requireAdmin, async (req, res) => {
   try {
     const { itemId, quantity, metadata } = req.body;
     if (!isValidItemId(itemId)) {
@@ -0,0 +1,122 @@
+import { Router, Response } from 'express';
+import { AppDataSource } from '../../persistence/database';
+import { SaveSlotRepository } from '../../persistence/repositories/SaveSlotRepository';
+import {
+  SAVE_SLOTS,
+  SaveConflictError,
+  SaveSlotName,
+  SaveStorageError,
+  SaveStorageService,
+  validateSaveWrite,
+} from '../../services/SaveStorageService';
+import {
+  AuthenticatedRequest,
+  authenticateHttp,
+} from '../../network/middleware/httpAuth';
+import { logger } from '../../utils/logger';
+
+const router: Router = Router();
+const dataSource = AppDataSource;
+
+// Input validation helpers
+const isValidSlot = (slot: string): slot is SaveSlotName => {
+  return SAVE_SLOTS.includes(slot as SaveSlotName);
+};
+
+const isValidRevision = (revision: unknown): boolean => {
+  return typeof revision === 'string' && /^(0|[1-9][0-9]{0,8})$/.test(revision);
+};
+
+// Middleware to validate the slot param
+const validateSlot = (req: any, res: any, next: any) => {
+  if (!isValidSlot(req.params.slot)) {
+    return res.status(400).json({ error: 'Invalid slot' });
+  }
+  next();
+};
+
+const saveSlotRepo = new SaveSlotRepository(dataSource);
+const saveStorageService = new SaveStorageService(dataSource, saveSlotRepo);
+
+// Answer with a SaveStorageError's status, anything else is a server error.
+// Conflicts include the slot as stored so the client can offer a choice.
+const handleError = (error: any, res: Response) => {
+  if (error instanceof SaveStorageError) {
+    return res.status(error.status).json({
+      error: error.message,
+      ...(error.details.length > 0 && { details: error.details }),
+      ...(error instanceof SaveConflictError && { current: error.current }),
+    });
+  }
+  logger.error(error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+router.use('/:slot', validateSlot);
+
+// List the player's stored slots, including deletions
+router.get('/', authenticateHttp, async (req, res) => {
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    res.json(await saveStorageService.listSaves(auth.playerId));
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Get a stored slot with its data
+router.get('/:slot', authenticateHttp, async (req, res) => {
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    res.json(
+      await saveStorageService.getSave(
+        auth.playerId,
+        req.params.slot as SaveSlotName,
+      ),
+    );
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Store a save, based on the revision the client last synced
+router.put('/:slot', authenticateHttp, async (req, res) => {
+  const errors = validateSaveWrite(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: 'Invalid save', details: errors });
+  }
+
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    const summary = await saveStorageService.putSave(
+      auth.playerId,
+      req.params.slot as SaveSlotName,
+      req.body,
+    );
+    res.json(summary);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Delete a stored slot, based on the revision the client last synced
+router.delete('/:slot', authenticateHttp, async (req, res) => {
+  const { baseRevision } = req.query;
+  if (!isValidRevision(baseRevision)) {
+    return res.status(400).json({ error: 'Invalid baseRevision' });
+  }
+
+  try {
+    const { auth } = req as AuthenticatedRequest;
+    const summary = await saveStorageService.deleteSave(
+      auth.playerId,
+      req.params.slot as SaveSlotName,
+      parseInt(baseRevision as string),
+    );
+    res.json(summary);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -14,6 +14,7 @@ import { EventHandler } from './network/events/EventHandler';
 import { authenticateSocket } from './network/middleware/authMiddleware';
 import {
   rateLimit,
+  throttleEvent,
   validatePlayerInput,
   requireRoom,
 } from './network/middleware/validationMiddleware';
@@ -25,13 +26,34 @@ import { metricsMiddleware } from './network/middleware/metricsMiddleware';
 import { logger } from './utils/logger';
 import { AppDataSource } from './persistence/database';
 import playersRouter from './api/players';
-import leaderboardRouter from './api/leaderboard';
+import leaderboardRouter, { setLeaderboardService } from './api/leaderboard';
+import authRouter from './api/auth';
+import adminRouter from './api/admin';
+import levelsRouter from './api/levels';
+import savesRouter from './api/saves';
+import communityRouter from './api/community';
 import { PlayerProfileRepository } from './persistence/repositories/PlayerProfileRepository';
 import { PlayerStatsRepository } from './persistence/repositories/PlayerStatsRepository';
 import { PlayerUnlockRepository } from './persistence/repositories/PlayerUnlockRepository';
 import { UnlockableRepository } from './persistence/repositories/UnlockableRepository';
 import { AchievementProgressRepository } from './persistence/repositories/AchievementProgressRepository';
-import { ProgressionService } from './services/ProgressionService';
+import { AchievementRepository } from './persistence/repositories/AchievementRepository';
+import { PlayerRatingRepository } from './persistence/repositories/PlayerRatingRepository';
+import { SeasonRepository } from './persistence/repositories/SeasonRepository';
+import { LevelRecordRepository } from './persistence/repositories/LevelRecordRepository';
+import {
+  ExperienceResult,
+  ProgressionService,
+} from './services/ProgressionService';
+import { RatingService } from './services/RatingService';
+import { LeaderboardService } from './services/LeaderboardService';
+import { AchievementService } from './services/AchievementService';
+import { LevelRecordService } from './services/LevelRecordService';
+import {
+  CatalogueService,
+  getCataloguePath,
+} from './services/CatalogueService';
+import { EventNames } from './network/events/eventTypes';
 
 dotenv.config();
 
@@ -63,6 +85,8 @@ AppDataSource.initialize()
     app.use(helmet());
     app.use(cors());
     app.use(compression()); // Enable gzip compression
+    // Level uploads carry a whole map, so they get a larger body limit
+    app.use('/api/community', express.json({ limit: '600kb' }));
     app.use(express.json());
     app.use(express.urlencoded({ extended: true }));
     app.use(metricsMiddleware); // Performance metrics
@@ -70,10 +94,20 @@ AppDataSource.initialize()
     // Apply HTTP rate limiting to API routes
     app.use('/api/players', httpRateLimit(100, 15 * 60 * 1000)); // 100 requests per 15 minutes
     app.use('/api/leaderboard', httpRateLimit(100, 15 * 60 * 1000));
+    app.use('/api/auth', httpRateLimit(100, 15 * 60 * 1000));
+    app.use('/api/admin', httpRateLimit(100, 15 * 60 * 1000));
+    app.use('/api/levels', httpRateLimit(100, 15 * 60 * 1000));
+    app.use('/api/saves', httpRateLimit(100, 15 * 60 * 1000));
+    app.use('/api/community', httpRateLimit(100, 15 * 60 * 1000));
 
     // API Routes
     app.use('/api/players', playersRouter);
     app.use('/api/leaderboard', leaderboardRouter);
+    app.use('/api/auth', authRouter);
+    app.use('/api/admin', adminRouter);
+    app.use('/api/levels', levelsRouter);
+    app.use('/api/saves', savesRouter);
+    app.use('/api/community', communityRouter);
 
     // Health check endpoint (no rate limiting)
     app.get('/health', (req, res) => {
@@ -103,6 +137,10 @@ AppDataSource.initialize()
     const achievementProgressRepo = new AchievementProgressRepository(
       AppDataSource,
     );
+    const ratingRepo = new PlayerRatingRepository(AppDataSource);
+    const achievementRepo = new AchievementRepository(AppDataSource);
+    const seasonRepo = new SeasonRepository(AppDataSource);
+    const levelRecordRepo = new LevelRecordRepository(AppDataSource);
 
     const progressionService = new ProgressionService(
       AppDataSource,
@@ -112,25 +150,183 @@ AppDataSource.initialize()
       achievementProgressRepo,
       unlockableRepo,
     );
+    const ratingService = new RatingService(AppDataSource, ratingRepo);
+    const leaderboardService = new LeaderboardService(
+      AppDataSource,
+      statsRepo,
+      profileRepo,
+      ratingRepo,
+      seasonRepo,
+    );
+    setLeaderboardService(leaderboardService);
+    const achievementService = new AchievementService(
+      achievementRepo,
+      progressionService,
+    );
+    const levelRecordService = new LevelRecordService(
+      AppDataSource,
+      levelRecordRepo,
+    );
+    const catalogueService = new CatalogueService(
+      AppDataSource,
+      achievementRepo,
+      unlockableRepo,
+    );
+
+    // Bring the achievement and unlockable tables in line with the
+    // catalogue file; an invalid catalogue stops the server
+    catalogueService
+      .loadFile(getCataloguePath())
+      .then((catalogue) => catalogue && catalogueService.sync(catalogue))
+      .then(() => achievementService.invalidateRules())
+      .catch((error) => {
+        logger.error(
+          `Catalogue sync failed: ${error.message}`,
+          error.details ?? error,
+        );
+        process.exit(1);
+      });
 
     // Initialize core modules
     const connectionManager = new ConnectionManager(io, progressionService);
     const roomManager = new RoomManager(io, connectionManager);
-    const matchmaker = new Matchmaker(io, connectionManager, roomManager);
-    const gameSync = new GameSync(io, roomManager, 20); // 20 Hz tick rate
+    const matchmaker = new Matchmaker(
+      io,
+      connectionManager,
+      roomManager,
+      ratingService,
+    );
+    const gameSync = new GameSync(io, roomManager, 20, 60); // 20 Hz snapshots, 60 Hz simulation
+    // Simulate each room from its creation and drop its state once it is gone
+    roomManager.setLifecycleHandlers({
+      onCreated: (room) => gameSync.addRoom(room),
+      onRemoved: (roomId) => gameSync.removeRoom(roomId),
+    });
+    // Hold a dropped player's slot and entity until they resume or time out
+    connectionManager.setLifecycleHandlers({
+      onSuspended: (session) => {
+        if (!session.roomId) return;
+        roomManager.markDisconnected(session.roomId, session.playerId);
+        gameSync.suspendPlayer(session.roomId, session.playerId);
+      },
+      onExpired: (session) => {
+        if (!session.roomId) return;
+        roomManager.removePlayer(session.roomId, session.playerId);
+        gameSync.removePlayerEntity(session.roomId, session.playerId);
+      },
+    });
+    // Push an event to a player's socket if they are still connected
+    const emitToPlayer = (
+      playerId: string,
+      event: string,
+      payload: unknown,
+    ) => {
+      const session = connectionManager.getSessionByPlayerId(playerId);
+      if (session) io.to(session.socketId).emit(event, payload);
+    };
+    // Award experience and tell the player if it took them up a level
+    const awardExperience = (
+      playerId: string,
+      award: Promise<ExperienceResult>,
+    ) => {
+      award
+        .then((result) => {
+          if (result.level > result.previousLevel) {
+            emitToPlayer(
+              playerId,
+              EventNames.LEVEL_UP,
+              progressionService.toLevelUpEvent(result),
+            );
+          }
+        })
+        .catch((error) =>
+          logger.error(`Failed to award experience to ${playerId}:`, error),
+        );
+    };
+    // Rate finished matches and count them towards registered players' stats
+    roomManager.setMatchEndHandler((result) => {
+      ratingService
+        .recordMatchResult(result)
+        .catch((error) =>
+          logger.error(`Failed to rate match in room ${result.roomId}:`, error),
+        );
+      for (const { playerId, rank, score } of result.standings) {
+        if (playerId.startsWith('guest_')) continue;
+        if (score) {
+          leaderboardService
+            .updatePlayerScore(playerId, score)
+            .catch((error) =>
+              logger.error(`Failed to record score for ${playerId}:`, error),
+            );
+        }
+        progressionService
+          .updateStats(playerId, {
+            gamesPlayed: 1,
+            gamesWon: rank === 1 ? 1 : 0,
+          })
+          .catch((error) =>
+            logger.error(`Failed to update stats for ${playerId}:`, error),
+          );
+        awardExperience(
+          playerId,
+          progressionService.awardMatchExperience(playerId, rank === 1),
+        );
+      }
+    });
+    // Count gameplay events towards achievements and tell players about
+    // the ones they complete
+    gameSync.setGameplayEventHandler((event) => {
+      achievementService
+        .handleEvent(event)
+        .then((completed) => {
+          for (const achievement of completed) {
+            emitToPlayer(
+              event.playerId,
+              EventNames.ACHIEVEMENT_UNLOCKED,
+              achievementService.toUnlockedEvent(achievement),
+            );
+          }
+        })
+        .catch((error) =>
+          logger.error(
+            `Failed to record ${event.type} for ${event.playerId}:`,
+            error,
+          ),
+        );
+      // Completions are only reported once per room, for runs on record
+      if (
+        event.type === 'level_complete' &&
+        !event.playerId.startsWith('guest_')
+      ) {
+        awardExperience(
+          event.playerId,
+          progressionService.awardLevelCompleteExperience(event.playerId),
+        );
+      }
+    });
     const eventHandler = new EventHandler(
       connectionManager,
       matchmaker,
       roomManager,
       gameSync,
+      levelRecordService,
     );
 
     // Start game synchronization
     gameSync.start();
 
+    // Refill the all-time board if Redis lost it, and end seasons on time
+    leaderboardService
+      .ensureAllTimeBoard()
+      .catch((error) =>
+        logger.error('Failed to rebuild all-time leaderboard:', error),
+      );
+    leaderboardService.startSeasonJob();
+
     // Socket.IO middleware
     io.use(authenticateSocket);
     io.use(rateLimit());
+    io.use(throttleEvent(EventNames.LEVEL_COMPLETE, 1, 5000)); // 1 per 5 seconds
     io.use(validatePlayerInput);
     io.use(requireRoom);
 
@@ -144,7 +340,8 @@ AppDataSource.initialize()
       // Handle disconnection
       socket.on('disconnect', () => {
         logger.info(`Client disconnected: ${socket.id}`);
-        // ConnectionManager already handles cleanup
+        // ConnectionManager already handles session cleanup
+        gameSync.removeClient(socket.id);
       });
     });
 
@@ -160,6 +357,7 @@ AppDataSource.initialize()
       logger.info('SIGTERM received, shutting down gracefully');
       gameSync.stop();
       matchmaker.stop();
+      leaderboardService.stopSeasonJob();
       server.close(() => {
         logger.info('Server closed');
         process.exit(0);
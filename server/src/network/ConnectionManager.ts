@@ -1,8 +1,40 @@
 import { Server, Socket } from 'socket.io';
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { PlayerSession } from '../persistence/models/PlayerSession';
 import { ProgressionService } from '../services/ProgressionService';
+import { AccessTokenClaims } from '../services/AuthService';
 import { logger } from '../utils/logger';
+import { SNAPSHOT_CODEC_VERSION } from '../../../shared/protocol/snapshotCodec';
+
+/**
+ * Socket.IO room joined by every socket that receives binary snapshots.
+ */
+export const BINARY_SNAPSHOT_ROOM = 'snapshot_format:binary';
+
+/** Weight of each new sample in the smoothed round-trip time. */
+const RTT_SMOOTHING = 0.2;
+
+/** How long a dropped player's room slot is held for them, in milliseconds. */
+export const DEFAULT_RESUME_GRACE_PERIOD_MS = 15000;
+
+/**
+ * Callbacks for sessions that drop out of a room and may come back.
+ */
+export interface SessionLifecycleHandlers {
+  /** A player in a room disconnected; their slot is now held. */
+  onSuspended?: (session: PlayerSession) => void;
+  /** The grace period ran out without the player resuming. */
+  onExpired?: (session: PlayerSession) => void;
+}
+
+/**
+ * A session taken over by a reconnecting socket.
+ */
+export interface ResumedSession {
+  session: PlayerSession;
+  previousSocketId: string;
+}
 
 /**
  * Manages socket connections, disconnections, and reconnections.
@@ -12,13 +44,35 @@ export class ConnectionManager {
   private io: Server;
   private sessions: Map<string, PlayerSession> = new Map(); // socketId -> PlayerSession
   private progressionService?: ProgressionService;
+  private gracePeriodMs: number;
+  private pendingResumes: Map<
+    string,
+    { session: PlayerSession; timer: NodeJS.Timeout }
+  > = new Map(); // resumeToken -> disconnected session
+  private lifecycleHandlers: SessionLifecycleHandlers = {};
 
-  constructor(io: Server, progressionService?: ProgressionService) {
+  /**
+   * @param gracePeriodMs How long a disconnected player can resume their match.
+   */
+  constructor(
+    io: Server,
+    progressionService?: ProgressionService,
+    gracePeriodMs: number = DEFAULT_RESUME_GRACE_PERIOD_MS,
+  ) {
     this.io = io;
     this.progressionService = progressionService;
+    this.gracePeriodMs = gracePeriodMs;
     this.setupEventHandlers();
   }
 
+  /**
+   * Register callbacks for suspended and expired sessions. Kept separate from
+   * the constructor because the room and simulation are built afterwards.
+   */
+  public setLifecycleHandlers(handlers: SessionLifecycleHandlers): void {
+    this.lifecycleHandlers = handlers;
+  }
+
   private setupEventHandlers(): void {
     this.io.on('connection', (socket: Socket) => this.handleConnection(socket));
   }
@@ -51,9 +105,14 @@ export class ConnectionManager {
       connectedAt: new Date(),
       lastActivity: new Date(),
       roomId: null,
+      snapshotFormat: this.negotiateSnapshotFormat(socket),
+      resumeToken: crypto.randomBytes(16).toString('hex'),
     };
 
     this.sessions.set(socket.id, session);
+    if (session.snapshotFormat === 'binary') {
+      socket.join(BINARY_SNAPSHOT_ROOM);
+    }
 
     // Update player progression (if authenticated)
     if (this.progressionService && !playerId.startsWith('guest_')) {
@@ -67,6 +126,8 @@ export class ConnectionManager {
       sessionId: socket.id,
       playerId,
       serverTime: Date.now(),
+      snapshotFormat: session.snapshotFormat,
+      resumeToken: session.resumeToken,
     });
 
     // Handle disconnection
@@ -89,7 +150,11 @@ export class ConnectionManager {
         return null;
       }
 
-      const decoded = jwt.verify(token, secret) as { playerId: string };
+      const decoded = jwt.verify(token, secret) as AccessTokenClaims;
+      if (!decoded.playerId) {
+        logger.warn('Token has no playerId claim');
+        return null;
+      }
       logger.debug(`Authenticated player: ${decoded.playerId}`);
       return decoded.playerId;
     } catch (error) {
@@ -99,21 +164,99 @@ export class ConnectionManager {
   }
 
   /**
-   * Handle socket disconnection.
+   * Pick the snapshot encoding for a socket. Clients opt into binary by
+   * sending the codec version they speak in the handshake (auth or query);
+   * older clients send nothing and keep receiving JSON.
+   */
+  private negotiateSnapshotFormat(socket: Socket): 'json' | 'binary' {
+    const requested =
+      socket.handshake.auth?.snapshotCodec ??
+      socket.handshake.query?.snapshotCodec;
+    return Number(requested) === SNAPSHOT_CODEC_VERSION ? 'binary' : 'json';
+  }
+
+  /**
+   * Handle socket disconnection. A player in a room keeps their slot for the
+   * grace period and can take it back with their resume token; the room is
+   * only told they left once it runs out.
    */
   private handleDisconnection(socket: Socket): void {
     logger.info(`Client disconnected: ${socket.id}`);
     const session = this.sessions.get(socket.id);
-    if (session) {
-      // Notify room that player left
-      if (session.roomId) {
-        this.io.to(session.roomId).emit('player_left', {
-          playerId: session.playerId,
-          socketId: socket.id,
-        });
-      }
-      this.sessions.delete(socket.id);
+    if (!session) return;
+    this.sessions.delete(socket.id);
+
+    if (!session.roomId) return;
+    if (!session.resumeToken) {
+      this.notifyPlayerLeft(session);
+      return;
+    }
+
+    session.disconnectedAt = new Date();
+    this.io.to(session.roomId).emit('player_disconnected', {
+      playerId: session.playerId,
+      socketId: socket.id,
+      gracePeriodMs: this.gracePeriodMs,
+    });
+
+    const token = session.resumeToken;
+    const timer = setTimeout(() => {
+      this.pendingResumes.delete(token);
+      logger.info(`Resume window expired for player ${session.playerId}`);
+      this.notifyPlayerLeft(session);
+      this.lifecycleHandlers.onExpired?.(session);
+    }, this.gracePeriodMs);
+    this.pendingResumes.set(token, { session, timer });
+    this.lifecycleHandlers.onSuspended?.(session);
+  }
+
+  /**
+   * Tell a room that a player is gone for good.
+   */
+  private notifyPlayerLeft(session: PlayerSession): void {
+    if (!session.roomId) return;
+    this.io.to(session.roomId).emit('player_left', {
+      playerId: session.playerId,
+      socketId: session.socketId,
+    });
+  }
+
+  /**
+   * Hand a disconnected player's session over to their new socket, restoring
+   * their player ID and room. Fails for unknown or expired tokens, and when
+   * the new socket authenticated as a different player.
+   */
+  public resumeSession(
+    socketId: string,
+    resumeToken: string,
+  ): ResumedSession | null {
+    const session = this.sessions.get(socketId);
+    const pending =
+      typeof resumeToken === 'string'
+        ? this.pendingResumes.get(resumeToken)
+        : undefined;
+    if (!session || !pending) return null;
+
+    const previous = pending.session;
+    if (
+      !session.playerId.startsWith('guest_') &&
+      session.playerId !== previous.playerId
+    ) {
+      logger.warn(
+        `Socket ${socketId} (${session.playerId}) tried to resume ${previous.playerId}`,
+      );
+      return null;
     }
+
+    clearTimeout(pending.timer);
+    this.pendingResumes.delete(resumeToken);
+    session.playerId = previous.playerId;
+    session.roomId = previous.roomId;
+    session.rtt = session.rtt ?? previous.rtt;
+    logger.info(
+      `Player ${session.playerId} resumed on ${socketId} (was ${previous.socketId})`,
+    );
+    return { session, previousSocketId: previous.socketId };
   }
 
   /**
@@ -121,20 +264,35 @@ export class ConnectionManager {
    */
   private handleReconnectAttempt(socket: Socket): void {
     logger.debug(`Reconnect attempt by ${socket.id}`);
-    // You could update session with new socket id if needed
+    // The new socket takes the old session back with `resumeSession`
   }
 
   /**
-   * Keep-alive ping.
+   * Keep-alive ping. The client acknowledges the pong, which gives the
+   * round-trip time used for lag compensation.
    */
   private handlePing(socket: Socket): void {
     const session = this.sessions.get(socket.id);
     if (session) {
       session.lastActivity = new Date();
-      socket.emit('pong', { serverTime: Date.now() });
+      const sentAt = Date.now();
+      socket.emit('pong', { serverTime: sentAt }, () =>
+        this.recordRtt(session, Date.now() - sentAt),
+      );
     }
   }
 
+  /**
+   * Fold a round-trip sample into the session's smoothed RTT.
+   */
+  private recordRtt(session: PlayerSession, sample: number): void {
+    if (!Number.isFinite(sample) || sample < 0) return;
+    session.rtt =
+      session.rtt === undefined
+        ? sample
+        : session.rtt + (sample - session.rtt) * RTT_SMOOTHING;
+  }
+
   /**
    * Get session by socket ID.
    */
@@ -1,6 +1,41 @@
 import { Server } from 'socket.io';
-import { RoomManager } from './RoomManager';
+import { BINARY_SNAPSHOT_ROOM } from './ConnectionManager';
+import { InterestManager } from './InterestManager';
+import { Room, RoomManager } from './RoomManager';
+import { HitValidator, ProjectileShot } from '../simulation/HitValidator';
+import { LevelGeometry } from '../simulation/LevelGeometry';
+import {
+  PhysicsEntity,
+  PlatformerPhysics,
+} from '../simulation/PlatformerPhysics';
+import { HitBox, StateHistory } from '../simulation/StateHistory';
+import {
+  DEFAULT_LEVEL,
+  getPlayerStart,
+  loadLevelGeometry,
+} from '../simulation/levels';
+import { GameplayEvent, GameplayEventHandler } from '../types/gameplay';
 import { logger } from '../utils/logger';
+import {
+  cloneEntity,
+  encodeSnapshot,
+  getDirtyMask,
+} from '../../../shared/protocol/snapshotCodec';
+
+/**
+ * Longest wall-clock gap fed into the accumulator, in milliseconds.
+ * Keeps a stalled process from running hundreds of catch-up ticks at once.
+ */
+const MAX_FRAME_MS = 250;
+
+/**
+ * Oldest acknowledged snapshot, in ticks, that deltas are still computed
+ * against. Clients further behind get a full snapshot instead.
+ */
+const MAX_BASELINE_AGE_TICKS = 60;
+
+/** Fallback kill plane for rooms without level geometry. */
+const DEFAULT_WORLD_BOTTOM = 1000;
 
 /**
  * Represents a game state snapshot.
@@ -8,8 +43,10 @@ import { logger } from '../utils/logger';
 export interface GameStateSnapshot {
   timestamp: number;
   roomId: string;
+  tick: number; // simulation ticks run for this room
   entities: Record<string, any>; // entityId -> state
   events: any[];
+  lastProcessedInputs: Record<string, number>; // playerId -> input sequence
 }
 
 /**
@@ -18,29 +55,87 @@ export interface GameStateSnapshot {
 export interface DeltaSnapshot {
   timestamp: number;
   roomId: string;
+  tick: number; // simulation tick the snapshot was taken at
+  baselineTick?: number; // tick the delta is relative to (absent when full)
   entities: Record<string, any>; // only changed entities
   deletedEntities: string[];
   events: any[];
+  lastProcessedInputs: Record<string, number>; // playerId -> input sequence
   full: boolean; // whether this is a full snapshot
 }
 
 /**
  * Manages game state synchronization across clients.
- * Broadcasts game state updates at a fixed tick rate.
+ * Simulates every room at a fixed tick rate and broadcasts snapshots at a
+ * separate, per-room configurable send rate.
  */
 export class GameSync {
   private io: Server;
   private roomManager: RoomManager;
-  private tickRate: number; // Hz
+  private snapshotRate: number; // Hz, default for rooms without their own
+  private simulationRate: number; // Hz
+  private fixedDelta: number; // ms per simulation tick
+  private accumulatedTime: number = 0;
+  private lastUpdateTime: number = 0;
   private tickInterval: NodeJS.Timeout | null = null;
   private roomStates: Map<string, GameStateSnapshot> = new Map();
-  private previousStates: Map<string, GameStateSnapshot> = new Map();
+  private sentSnapshots: Map<string, Map<number, Record<string, any>>> =
+    new Map(); // roomId -> tick -> entities as sent
+  private clientAcks: Map<string, { roomId: string; tick: number }> = new Map(); // socketId -> last acknowledged snapshot
+  private lastSentTicks: Map<string, number> = new Map();
+  private outgoingEvents: Map<string, any[]> = new Map();
+  private levelGeometries: Map<string, LevelGeometry | null> = new Map();
+  private roomLevels: Map<string, number> = new Map();
+  private physics: PlatformerPhysics = new PlatformerPhysics();
+  private stateHistories: Map<string, StateHistory> = new Map();
+  private hitValidator: HitValidator = new HitValidator();
+  private interest: InterestManager = new InterestManager();
+  private lastAttackTimes: Map<string, Map<string, number>> = new Map(); // roomId -> playerId -> time
+  private combos: Map<
+    string,
+    Map<string, { hits: number; lastHitAt: number }>
+  > = new Map(); // roomId -> playerId -> current combo
   private useDeltaCompression: boolean = true;
+  private gameplayEventHandler?: GameplayEventHandler;
 
-  constructor(io: Server, roomManager: RoomManager, tickRate: number = 20) {
+  /**
+   * @param snapshotRate Default snapshots per second sent to each room.
+   * @param simulationRate Fixed simulation ticks per second.
+   */
+  constructor(
+    io: Server,
+    roomManager: RoomManager,
+    snapshotRate: number = 20,
+    simulationRate: number = 60,
+  ) {
     this.io = io;
     this.roomManager = roomManager;
-    this.tickRate = tickRate;
+    this.simulationRate = simulationRate;
+    this.fixedDelta = 1000 / simulationRate;
+    this.snapshotRate = snapshotRate;
+  }
+
+  /**
+   * Set the callback told about kills, deaths and other gameplay events.
+   */
+  public setGameplayEventHandler(handler: GameplayEventHandler): void {
+    this.gameplayEventHandler = handler;
+  }
+
+  /**
+   * Pass a gameplay event on to the handler, if any. A failing handler never
+   * interrupts the simulation.
+   */
+  public reportGameplayEvent(event: GameplayEvent): void {
+    if (!this.gameplayEventHandler) return;
+    try {
+      this.gameplayEventHandler(event);
+    } catch (error) {
+      logger.error(
+        `Gameplay event handler failed for ${event.type} in room ${event.roomId}:`,
+        error,
+      );
+    }
   }
 
   /**
@@ -50,9 +145,12 @@ export class GameSync {
     if (this.tickInterval) {
       clearInterval(this.tickInterval);
     }
-    const tickMs = 1000 / this.tickRate;
-    this.tickInterval = setInterval(() => this.tick(), tickMs);
-    logger.info(`GameSync started with tick rate ${this.tickRate} Hz`);
+    this.accumulatedTime = 0;
+    this.lastUpdateTime = Date.now();
+    this.tickInterval = setInterval(() => this.update(), this.fixedDelta);
+    logger.info(
+      `GameSync started with tick rate ${this.simulationRate} Hz, snapshot rate ${this.snapshotRate} Hz`,
+    );
   }
 
   /**
@@ -67,75 +165,156 @@ export class GameSync {
   }
 
   /**
-   * Main tick function: update and broadcast state for each active room.
+   * Loop callback: run as many fixed ticks as the elapsed wall-clock time
+   * allows, carrying the remainder over to the next call.
+   */
+  private update(): void {
+    const now = Date.now();
+    const elapsed = Math.min(
+      Math.max(now - this.lastUpdateTime, 0),
+      MAX_FRAME_MS,
+    );
+    this.lastUpdateTime = now;
+    this.accumulatedTime += elapsed;
+
+    while (this.accumulatedTime >= this.fixedDelta) {
+      this.tick();
+      this.accumulatedTime -= this.fixedDelta;
+    }
+  }
+
+  /**
+   * Main tick function: advance each active room by one fixed step and
+   * broadcast to the rooms whose snapshot interval has elapsed.
    */
   private tick(): void {
     const activeRooms = this.roomManager.getActiveRooms();
     for (const room of activeRooms) {
-      this.updateRoomState(room.roomId);
-      this.broadcastState(room.roomId);
+      this.updateRoomState(room);
+      if (this.isSnapshotDue(room)) {
+        this.broadcastState(room.roomId);
+      }
     }
   }
 
   /**
-   * Update the authoritative game state for a room.
-   * This integrates player inputs, applies game logic, physics, etc.
+   * Whether enough ticks have passed since the room's last snapshot.
+   * Send intervals are counted in ticks so they never drift from the simulation.
    */
-  private updateRoomState(roomId: string): void {
+  private isSnapshotDue(room: Room): boolean {
+    const state = this.roomStates.get(room.roomId);
+    const lastSent = this.lastSentTicks.get(room.roomId);
+    if (!state || lastSent === undefined) return true;
+    return state.tick - lastSent >= this.getSnapshotInterval(room);
+  }
+
+  /**
+   * Number of simulation ticks between snapshots for a room.
+   */
+  private getSnapshotInterval(room: Room): number {
+    const rate = room.snapshotRate ?? this.snapshotRate;
+    if (!(rate > 0)) return 1;
+    return Math.max(1, Math.round(this.simulationRate / rate));
+  }
+
+  /**
+   * Update the authoritative game state for a room by one fixed step.
+   * Applies queued inputs, then steps physics against the room's level.
+   */
+  private updateRoomState(room: Room): void {
+    const roomId = room.roomId;
     const currentState =
       this.roomStates.get(roomId) || this.createEmptyState(roomId);
+    const geometry = this.getLevelGeometry(roomId, room.level);
     const now = Date.now();
-    const deltaTime = (now - currentState.timestamp) / 1000; // seconds
+    const deltaTime = this.fixedDelta / 1000;
     currentState.timestamp = now;
+    currentState.tick++;
+
+    // Process events (inputs, collisions, etc.)
+    const eventsToProcess = [...currentState.events];
+    currentState.events = [];
+
+    for (const event of eventsToProcess) {
+      this.processGameEvent(currentState, event);
+    }
+
+    geometry?.advancePlatforms(deltaTime);
+    const worldBottom = geometry ? geometry.heightPx : DEFAULT_WORLD_BOTTOM;
 
-    // Apply game logic to each entity
     for (const [entityId, entity] of Object.entries(currentState.entities)) {
       if (!entity) continue;
 
-      // Apply physics simulation
-      if (entity.velocity) {
-        // Update position based on velocity
-        if (entity.position) {
-          entity.position.x += (entity.velocity.x || 0) * deltaTime;
-          entity.position.y += (entity.velocity.y || 0) * deltaTime;
-        }
-
-        // Apply gravity for falling entities
-        if (entity.affectedByGravity && entity.velocity.y !== undefined) {
-          entity.velocity.y += 9.8 * deltaTime; // gravity acceleration
-        }
-      }
+      this.physics.step(
+        entity as PhysicsEntity,
+        geometry ?? undefined,
+        deltaTime,
+      );
 
       // Check for out of bounds
-      if (entity.position) {
-        if (entity.position.y > 1000) {
-          // Entity fell off the world
-          delete currentState.entities[entityId];
-          currentState.events.push({
-            type: 'entity_destroyed',
-            entityId,
-            reason: 'out_of_bounds',
-            timestamp: now,
-          });
-          continue;
-        }
+      if (entity.position && entity.position.y > worldBottom) {
+        // Entity fell off the world
+        delete currentState.entities[entityId];
+        currentState.events.push({
+          type: 'entity_destroyed',
+          entityId,
+          reason: 'out_of_bounds',
+          timestamp: now,
+        });
+        continue;
       }
 
       // Update last processed time
       entity.lastUpdated = now;
     }
 
-    // Process events (inputs, collisions, etc.)
-    const eventsToProcess = [...currentState.events];
-    currentState.events = [];
+    // Remember where everything was for lag-compensated hit checks
+    this.getStateHistory(roomId).record(
+      currentState.tick,
+      now,
+      currentState.entities,
+    );
 
-    for (const event of eventsToProcess) {
-      this.processGameEvent(currentState, event);
+    // Hold on to this tick's events until the next snapshot goes out
+    if (currentState.events.length > 0) {
+      const outgoing = this.outgoingEvents.get(roomId) || [];
+      outgoing.push(...currentState.events);
+      this.outgoingEvents.set(roomId, outgoing);
     }
 
     this.roomStates.set(roomId, currentState);
   }
 
+  /**
+   * Get (loading on first use) the collision geometry for a room.
+   * @param level The room's level, if known; a change reloads the geometry.
+   */
+  private getLevelGeometry(
+    roomId: string,
+    level?: number,
+  ): LevelGeometry | null {
+    if (level !== undefined && this.roomLevels.get(roomId) !== level) {
+      this.setRoomLevel(roomId, level);
+    }
+    if (!this.levelGeometries.has(roomId)) {
+      const roomLevel = this.roomLevels.get(roomId) ?? DEFAULT_LEVEL;
+      this.levelGeometries.set(roomId, loadLevelGeometry(roomLevel));
+    }
+    return this.levelGeometries.get(roomId) ?? null;
+  }
+
+  /**
+   * Get (creating on first use) the rolling state history for a room.
+   */
+  private getStateHistory(roomId: string): StateHistory {
+    let history = this.stateHistories.get(roomId);
+    if (!history) {
+      history = new StateHistory();
+      this.stateHistories.set(roomId, history);
+    }
+    return history;
+  }
+
   /**
    * Process a game event and update state accordingly.
    */
@@ -143,42 +322,41 @@ export class GameSync {
     switch (event.type) {
     case 'player_input': {
       const entity = state.entities[event.playerId];
-      if (entity) {
-        // Apply player movement
-        if (event.input.moveX !== undefined) {
-          entity.velocity = entity.velocity || { x: 0, y: 0 };
-          entity.velocity.x = event.input.moveX * 200; // movement speed
-        }
-        if (event.input.jump && entity.isOnGround) {
-          entity.velocity = entity.velocity || { x: 0, y: 0 };
-          entity.velocity.y = -400; // jump force
-          entity.isOnGround = false;
-        }
+      const input = PlatformerPhysics.normalizeInput(event.input);
+      if (entity && input) {
+        this.physics.applyInput(entity, input);
+      }
+      // Acknowledge the sequence so the client can reconcile its prediction
+      if (typeof event.sequence === 'number') {
+        state.lastProcessedInputs[event.playerId] = Math.max(
+          state.lastProcessedInputs[event.playerId] ?? -1,
+          event.sequence,
+        );
       }
       break;
     }
 
     case 'collision': {
-      // Handle collision between entities
+      // Collisions are only queued by the server itself; client-reported
+      // hits go through `applyPlayerAttack` and are validated first
       const entity1 = state.entities[event.entityId1];
       const entity2 = state.entities[event.entityId2];
-      if (entity1 && entity2) {
-        // Apply collision response
-        if (event.damage) {
-          entity2.health = (entity2.health || 100) - event.damage;
-          if (entity2.health <= 0) {
-            state.events.push({
-              type: 'entity_destroyed',
-              entityId: event.entityId2,
-              reason: 'destroyed',
-              timestamp: Date.now(),
-            });
-          }
-        }
+      if (entity1 && entity2 && event.damage) {
+        this.applyDamage(
+          state,
+          event.entityId2,
+          event.damage,
+          event.entityId1,
+        );
       }
       break;
     }
 
+    case 'player_attack': {
+      this.resolveAttack(state, event);
+      break;
+    }
+
     case 'entity_destroyed': {
       // Entity was destroyed, remove from state
       delete state.entities[event.entityId];
@@ -192,53 +370,235 @@ export class GameSync {
   }
 
   /**
-   * Compute delta between previous and current state.
+   * Check an attack against the room as the attacker saw it, rewound by
+   * their latency, and damage every entity it really hit.
+   */
+  private resolveAttack(state: GameStateSnapshot, event: any): void {
+    const attacker = state.entities[event.playerId];
+    if (!attacker?.position) return;
+
+    const history = this.getStateHistory(state.roomId);
+    const rewound = history.getStateAt(event.viewTime);
+    const { attack } = event;
+    const { meleeDamage, projectileDamage } = this.hitValidator.getConfig();
+    const hits: string[] = [];
+
+    if (attack.kind === 'melee') {
+      // The attacker acts on its own up-to-date position; only the targets
+      // are shown to it in the past
+      const attackerBox = this.toHitBox(attacker);
+      for (const [id, box] of Object.entries(rewound)) {
+        if (id === event.playerId || !state.entities[id]) continue;
+        if (this.hitValidator.isMeleeHit(attackerBox, attack.facing, box)) {
+          hits.push(id);
+        }
+      }
+      hits.forEach((id) =>
+        this.applyDamage(state, id, meleeDamage, event.playerId),
+      );
+    } else {
+      const shot: ProjectileShot = {
+        origin: attack.origin,
+        velocity: attack.velocity,
+        flightMs: attack.flightMs,
+      };
+      const shooter =
+        history.getStateAt(event.timestamp - shot.flightMs)[event.playerId] ??
+        this.toHitBox(attacker);
+      const target = rewound[attack.targetId];
+      if (
+        target &&
+        attack.targetId !== event.playerId &&
+        state.entities[attack.targetId] &&
+        this.hitValidator.isPlausibleShot(shot, shooter) &&
+        this.hitValidator.isProjectileHit(shot, target)
+      ) {
+        hits.push(attack.targetId);
+        this.applyDamage(
+          state,
+          attack.targetId,
+          projectileDamage,
+          event.playerId,
+        );
+      }
+    }
+
+    if (hits.length === 0) {
+      logger.debug(
+        `Rejected ${attack.kind} hit from player ${event.playerId} in room ${state.roomId}`,
+      );
+    } else {
+      this.extendCombo(
+        state.roomId,
+        event.playerId,
+        hits.length,
+        event.timestamp,
+      );
+    }
+  }
+
+  /**
+   * Count validated hits towards the attacker's combo, starting a new one
+   * when the last hit was too long ago, and report the combo's length once
+   * it is more than a single hit.
    */
-  private computeDelta(roomId: string): DeltaSnapshot {
+  private extendCombo(
+    roomId: string,
+    playerId: string,
+    hits: number,
+    time: number,
+  ): void {
+    const roomCombos = this.combos.get(roomId) || new Map();
+    const combo = roomCombos.get(playerId);
+    const { comboWindowMs } = this.hitValidator.getConfig();
+    const total =
+      combo && time - combo.lastHitAt <= comboWindowMs
+        ? combo.hits + hits
+        : hits;
+    roomCombos.set(playerId, { hits: total, lastHitAt: time });
+    this.combos.set(roomId, roomCombos);
+
+    if (total > 1) {
+      this.reportGameplayEvent({
+        roomId,
+        playerId,
+        type: 'combo',
+        amount: total,
+      });
+    }
+  }
+
+  /**
+   * Reduce an entity's health, announcing the hit and, when it runs out,
+   * queueing its destruction.
+   */
+  private applyDamage(
+    state: GameStateSnapshot,
+    entityId: string,
+    damage: number,
+    sourceId?: string,
+  ): void {
+    const entity = state.entities[entityId];
+    if (!entity) return;
+
+    const wasAlive = entity.health === undefined || entity.health > 0;
+    entity.health = (entity.health || 100) - damage;
+    state.events.push({
+      type: 'entity_damaged',
+      entityId,
+      sourceId,
+      damage,
+      health: entity.health,
+      timestamp: Date.now(),
+    });
+    if (entity.health <= 0) {
+      state.events.push({
+        type: 'entity_destroyed',
+        entityId,
+        reason: 'destroyed',
+        timestamp: Date.now(),
+      });
+      // Only the blow that takes the entity down counts as the kill
+      if (wasAlive) this.reportKill(state, entity, entityId, sourceId);
+    }
+  }
+
+  /**
+   * Report who died and, when a player dealt the final blow, who killed them.
+   */
+  private reportKill(
+    state: GameStateSnapshot,
+    entity: any,
+    entityId: string,
+    sourceId?: string,
+  ): void {
+    const { roomId } = state;
+    if (entity.type === 'player') {
+      this.reportGameplayEvent({
+        roomId,
+        playerId: entityId,
+        type: 'death',
+        amount: 1,
+      });
+    }
+    if (!sourceId || state.entities[sourceId]?.type !== 'player') return;
+    this.reportGameplayEvent({
+      roomId,
+      playerId: sourceId,
+      type: 'kill',
+      amount: 1,
+    });
+  }
+
+  /**
+   * Current collision box of a live entity.
+   */
+  private toHitBox(entity: PhysicsEntity): HitBox {
+    const { bodyWidth, bodyHeight } = this.physics.getConfig();
+    return {
+      x: entity.position?.x ?? 0,
+      y: entity.position?.y ?? 0,
+      width: entity.width ?? bodyWidth,
+      height: entity.height ?? bodyHeight,
+    };
+  }
+
+  /**
+   * Compute the update for a client whose last acknowledged snapshot is
+   * `baselineTick`. Falls back to a full snapshot when there is no usable
+   * baseline (never acknowledged, or older than the kept history).
+   * @param socketId The client, whose baseline only holds what it was sent.
+   * @param visible Entities in the client's area of interest (all if omitted).
+   */
+  private computeDelta(
+    roomId: string,
+    baselineTick?: number,
+    events: any[] = [],
+    socketId?: string,
+    visible?: Set<string>,
+  ): DeltaSnapshot {
     const current = this.roomStates.get(roomId);
-    const previous = this.previousStates.get(roomId);
     if (!current) {
       return {
         timestamp: Date.now(),
         roomId,
+        tick: 0,
         entities: {},
         deletedEntities: [],
         events: [],
+        lastProcessedInputs: {},
         full: true,
       };
     }
 
-    // If no previous state or delta compression disabled, send full snapshot
-    if (!previous || !this.useDeltaCompression) {
-      this.previousStates.set(roomId, { ...current });
-      return {
-        timestamp: current.timestamp,
-        roomId: current.roomId,
-        entities: current.entities,
-        deletedEntities: [],
-        events: current.events,
-        full: true,
-      };
+    const entities = visible
+      ? this.pickEntities(current.entities, visible)
+      : current.entities;
+    const baseline =
+      baselineTick !== undefined && this.useDeltaCompression
+        ? this.getClientBaseline(roomId, baselineTick, socketId)
+        : undefined;
+
+    // No baseline the client is known to hold, send full snapshot
+    if (!baseline) {
+      return this.createFullSnapshot(current, events, entities);
     }
 
     // Compute changed entities
     const changedEntities: Record<string, any> = {};
     const deletedEntities: string[] = [];
 
-    // Check for modifications or additions
-    for (const [id, entity] of Object.entries(current.entities)) {
-      const prevEntity = previous.entities[id];
-      if (
-        !prevEntity ||
-        JSON.stringify(prevEntity) !== JSON.stringify(entity)
-      ) {
+    // Check for modifications or additions, field by field at wire precision
+    for (const [id, entity] of Object.entries(entities)) {
+      const prevEntity = baseline[id];
+      if (!prevEntity || getDirtyMask(prevEntity, entity) !== 0) {
         changedEntities[id] = entity;
       }
     }
 
     // Check for deletions
-    for (const id of Object.keys(previous.entities)) {
-      if (!current.entities[id]) {
+    for (const id of Object.keys(baseline)) {
+      if (!entities[id]) {
         deletedEntities.push(id);
       }
     }
@@ -246,43 +606,279 @@ export class GameSync {
     // If delta is larger than a threshold, send full snapshot
     const deltaSize =
       Object.keys(changedEntities).length + deletedEntities.length;
-    const totalEntities = Object.keys(current.entities).length;
+    const totalEntities = Object.keys(entities).length;
     if (deltaSize > totalEntities * 0.5) {
-      // Delta is large, send full snapshot
-      this.previousStates.set(roomId, { ...current });
-      return {
-        timestamp: current.timestamp,
-        roomId: current.roomId,
-        entities: current.entities,
-        deletedEntities: [],
-        events: current.events,
-        full: true,
-      };
+      return this.createFullSnapshot(current, events, entities);
     }
 
-    // Store current as previous for next delta
-    this.previousStates.set(roomId, { ...current });
-
     return {
       timestamp: current.timestamp,
       roomId: current.roomId,
+      tick: current.tick,
+      baselineTick,
       entities: changedEntities,
       deletedEntities,
-      events: current.events,
+      events,
+      lastProcessedInputs: { ...current.lastProcessedInputs },
       full: false,
     };
   }
 
+  private createFullSnapshot(
+    current: GameStateSnapshot,
+    events: any[],
+    entities: Record<string, any> = current.entities,
+  ): DeltaSnapshot {
+    return {
+      timestamp: current.timestamp,
+      roomId: current.roomId,
+      tick: current.tick,
+      entities,
+      deletedEntities: [],
+      events,
+      lastProcessedInputs: { ...current.lastProcessedInputs },
+      full: true,
+    };
+  }
+
+  /**
+   * Entity states sent to a room at `tick`, if still within the history.
+   */
+  private getSentSnapshot(
+    roomId: string,
+    tick: number,
+  ): Record<string, any> | undefined {
+    const current = this.roomStates.get(roomId);
+    if (!current || current.tick - tick > MAX_BASELINE_AGE_TICKS) {
+      return undefined;
+    }
+    return this.sentSnapshots.get(roomId)?.get(tick);
+  }
+
+  /**
+   * Entity states a client holds for `tick`: the room's sent snapshot,
+   * narrowed to what that client was sent.
+   */
+  private getClientBaseline(
+    roomId: string,
+    tick: number,
+    socketId?: string,
+  ): Record<string, any> | undefined {
+    const sent = this.getSentSnapshot(roomId, tick);
+    if (!sent || socketId === undefined) return sent;
+    const visible = this.interest.getSentAt(socketId, tick);
+    return visible ? this.pickEntities(sent, visible) : undefined;
+  }
+
+  /**
+   * Subset of `entities` with the given IDs.
+   */
+  private pickEntities(
+    entities: Record<string, any>,
+    ids: Set<string>,
+  ): Record<string, any> {
+    const picked: Record<string, any> = {};
+    ids.forEach((id) => {
+      if (entities[id]) picked[id] = entities[id];
+    });
+    return picked;
+  }
+
+  /**
+   * Keep a copy of the state just sent so later deltas can be computed
+   * against it. Entities are live objects that the simulation keeps mutating,
+   * so they must not be shared with the history.
+   */
+  private recordSentSnapshot(roomId: string, state: GameStateSnapshot): void {
+    const entities: Record<string, any> = {};
+    for (const [id, entity] of Object.entries(state.entities)) {
+      entities[id] = cloneEntity(entity);
+    }
+
+    const history = this.sentSnapshots.get(roomId) || new Map();
+    history.set(state.tick, entities);
+    for (const tick of history.keys()) {
+      if (state.tick - tick > MAX_BASELINE_AGE_TICKS) {
+        history.delete(tick);
+      }
+    }
+    this.sentSnapshots.set(roomId, history);
+  }
+
   /**
    * Broadcast the current state to all clients in the room.
-   * Uses delta compression to send only changed entities.
+   * Each client only gets the entities in its area of interest, as a delta
+   * against the last snapshot it acknowledged, encoded in binary if it
+   * negotiated that and as JSON otherwise.
    */
   private broadcastState(roomId: string): void {
-    const delta = this.computeDelta(roomId);
-    this.io.to(roomId).emit('game_state_update', delta);
+    const state = this.roomStates.get(roomId);
+    const events = this.outgoingEvents.get(roomId) || [];
+    this.outgoingEvents.delete(roomId);
 
-    // Optional: log bandwidth usage
-    logger.debug(`Broadcast state for room ${roomId} (full: ${delta.full})`);
+    const entities = state?.entities ?? {};
+    const players = this.getSocketPlayers(roomId);
+    const binarySockets = this.getSocketIds(BINARY_SNAPSHOT_ROOM);
+    this.interest.updateRoom(roomId, entities);
+
+    let clients = 0;
+    for (const socketId of this.getSocketIds(roomId)) {
+      const ack = this.clientAcks.get(socketId);
+      const baselineTick = ack?.roomId === roomId ? ack.tick : undefined;
+      const visible = this.interest.getVisibleEntities(
+        roomId,
+        entities,
+        players.get(socketId),
+      );
+      const clientEvents = this.getClientEvents(
+        socketId,
+        roomId,
+        events,
+        visible,
+      );
+      const delta = this.computeDelta(
+        roomId,
+        baselineTick,
+        clientEvents,
+        socketId,
+        visible,
+      );
+
+      if (binarySockets.has(socketId)) {
+        const baseline =
+          baselineTick !== undefined
+            ? this.getClientBaseline(roomId, baselineTick, socketId)
+            : undefined;
+        this.io
+          .to(socketId)
+          .emit('game_state_update', encodeSnapshot(delta, baseline));
+      } else {
+        this.io.to(socketId).emit('game_state_update', delta);
+      }
+      clients++;
+    }
+    logger.debug(`Broadcast state for room ${roomId} to ${clients} clients`);
+
+    if (state) {
+      this.recordSentSnapshot(roomId, state);
+      this.lastSentTicks.set(roomId, state.tick);
+    }
+  }
+
+  /**
+   * Send one client a full snapshot of its area of interest, e.g. after it
+   * reconnected and has nothing to apply deltas to.
+   * @returns Whether the room has any state to send.
+   */
+  public sendFullSnapshot(roomId: string, socketId: string): boolean {
+    const state = this.roomStates.get(roomId);
+    if (!state) return false;
+
+    // Whatever the socket acknowledged before is no use now
+    this.clientAcks.delete(socketId);
+    this.interest.removeClient(socketId);
+    this.interest.updateRoom(roomId, state.entities);
+    const visible = this.interest.getVisibleEntities(
+      roomId,
+      state.entities,
+      this.getSocketPlayers(roomId).get(socketId),
+    );
+    const events = this.getClientEvents(socketId, roomId, [], visible);
+    const snapshot = this.createFullSnapshot(
+      state,
+      events,
+      this.pickEntities(state.entities, visible),
+    );
+
+    if (this.getSocketIds(BINARY_SNAPSHOT_ROOM).has(socketId)) {
+      this.io.to(socketId).emit('game_state_update', encodeSnapshot(snapshot));
+    } else {
+      this.io.to(socketId).emit('game_state_update', snapshot);
+    }
+    // Keep the snapshot so the client's acknowledgement can be a baseline
+    this.recordSentSnapshot(roomId, state);
+    return true;
+  }
+
+  /**
+   * Room events a client may see, plus notifications for entities entering
+   * and leaving its area of interest since its previous snapshot. Events
+   * about entities the client never knew about are withheld.
+   */
+  private getClientEvents(
+    socketId: string,
+    roomId: string,
+    events: any[],
+    visible: Set<string>,
+  ): any[] {
+    const state = this.roomStates.get(roomId);
+    if (!state) return events;
+
+    const previous = this.interest.getCurrent(socketId);
+    const change = this.interest.recordSent(
+      socketId,
+      roomId,
+      state.tick,
+      visible,
+      MAX_BASELINE_AGE_TICKS,
+    );
+    const clientEvents = events.filter(
+      (event) =>
+        typeof event?.entityId !== 'string' ||
+        visible.has(event.entityId) ||
+        !!previous?.has(event.entityId),
+    );
+
+    const timestamp = Date.now();
+    for (const entityId of change.entered) {
+      clientEvents.push({ type: 'entity_entered', entityId, timestamp });
+    }
+    // Destroyed entities are announced by their own event
+    for (const entityId of change.left) {
+      if (state.entities[entityId]) {
+        clientEvents.push({ type: 'entity_left', entityId, timestamp });
+      }
+    }
+    return clientEvents;
+  }
+
+  /**
+   * Record that a client has received the snapshot taken at `tick`.
+   * Later updates to that client are computed against it.
+   */
+  public acknowledgeSnapshot(
+    socketId: string,
+    roomId: string,
+    tick: number,
+  ): void {
+    if (typeof tick !== 'number' || !Number.isInteger(tick)) return;
+    const ack = this.clientAcks.get(socketId);
+    if (ack && ack.roomId === roomId && ack.tick >= tick) return;
+    this.clientAcks.set(socketId, { roomId, tick });
+  }
+
+  /**
+   * Forget a client's acknowledged baseline and what it was sent (e.g. on
+   * disconnect).
+   */
+  public removeClient(socketId: string): void {
+    this.clientAcks.delete(socketId);
+    this.interest.removeClient(socketId);
+  }
+
+  /**
+   * Player entity IDs of a room's sockets.
+   */
+  private getSocketPlayers(roomId: string): Map<string, string> {
+    const players = this.roomManager.getRoom(roomId)?.players ?? [];
+    return new Map(players.map((player) => [player.socketId, player.playerId]));
+  }
+
+  /**
+   * IDs of the sockets in a Socket.IO room.
+   */
+  private getSocketIds(room: string): Set<string> {
+    return this.io.sockets?.adapter?.rooms?.get(room) ?? new Set();
   }
 
   /**
@@ -292,14 +888,17 @@ export class GameSync {
     return {
       timestamp: Date.now(),
       roomId,
+      tick: 0,
       entities: {},
       events: [],
+      lastProcessedInputs: {},
     };
   }
 
   /**
    * Apply player input to the game state.
-   * Called when a 'player_input' event is received.
+   * Called when a 'player_input' event is received. Only the movement intent
+   * is taken from the client; positions are always simulated by the server.
    */
   public applyPlayerInput(roomId: string, playerId: string, input: any): void {
     const state = this.roomStates.get(roomId);
@@ -312,32 +911,166 @@ export class GameSync {
       return;
     }
 
-    // Update entity state (placeholder)
-    state.entities[playerId] = {
-      ...state.entities[playerId],
-      ...input,
-      lastUpdated: Date.now(),
-    };
+    // Drop duplicated or out-of-order inputs that were already processed
+    const sequence =
+      typeof input.sequence === 'number' ? input.sequence : undefined;
+    if (
+      sequence !== undefined &&
+      sequence <= (state.lastProcessedInputs[playerId] ?? -1)
+    ) {
+      logger.debug(`Stale input ${sequence} from player ${playerId}`);
+      return;
+    }
 
-    // You could also add to an event queue for processing in the next tick
+    if (!state.entities[playerId]) {
+      state.entities[playerId] = this.createPlayerEntity(roomId);
+    }
+
+    // Queue for processing in the next tick
     state.events.push({
       type: 'player_input',
       playerId,
-      input,
+      sequence,
+      input: PlatformerPhysics.normalizeInput(this.unwrapInput(input)),
       timestamp: Date.now(),
     });
 
     logger.debug(`Applied input from player ${playerId} in room ${roomId}`);
   }
 
+  /**
+   * Queue an attack for validation in the next tick.
+   * Targets are rewound by the attacker's round-trip time so hits are judged
+   * against what that player actually saw; the client only says what it did,
+   * never how much damage it dealt.
+   * @param rtt The attacker's measured round-trip time in milliseconds.
+   */
+  public applyPlayerAttack(
+    roomId: string,
+    playerId: string,
+    attack: any,
+    rtt?: number,
+  ): void {
+    const state = this.roomStates.get(roomId);
+    if (!state || !state.entities[playerId]) return;
+
+    if (!this.validateAttack(attack)) {
+      logger.warn(`Invalid attack from player ${playerId} in room ${roomId}`);
+      return;
+    }
+
+    const now = Date.now();
+    const attackTimes = this.lastAttackTimes.get(roomId) || new Map();
+    const lastAttack = attackTimes.get(playerId);
+    if (
+      lastAttack !== undefined &&
+      now - lastAttack < this.hitValidator.getConfig().attackCooldownMs
+    ) {
+      logger.debug(`Attack from player ${playerId} is on cooldown`);
+      return;
+    }
+    attackTimes.set(playerId, now);
+    this.lastAttackTimes.set(roomId, attackTimes);
+
+    state.events.push({
+      type: 'player_attack',
+      playerId,
+      attack,
+      viewTime: now - this.hitValidator.getRewindMs(rtt),
+      timestamp: now,
+    });
+  }
+
+  /**
+   * Stop a disconnected player's entity where it is while their slot is
+   * held, instead of letting it carry on with its last input.
+   */
+  public suspendPlayer(roomId: string, playerId: string): void {
+    const entity = this.roomStates.get(roomId)?.entities[playerId];
+    if (entity?.velocity) {
+      entity.velocity.x = 0;
+    }
+  }
+
+  /**
+   * Remove a player's entity for good (e.g. they never came back), telling
+   * the room's clients in the next snapshot.
+   */
+  public removePlayerEntity(roomId: string, playerId: string): void {
+    const state = this.roomStates.get(roomId);
+    if (!state) return;
+
+    delete state.lastProcessedInputs[playerId];
+    this.lastAttackTimes.get(roomId)?.delete(playerId);
+    this.combos.get(roomId)?.delete(playerId);
+    if (!state.entities[playerId]) return;
+
+    delete state.entities[playerId];
+    const outgoing = this.outgoingEvents.get(roomId) || [];
+    outgoing.push({
+      type: 'entity_destroyed',
+      entityId: playerId,
+      reason: 'disconnected',
+      timestamp: Date.now(),
+    });
+    this.outgoingEvents.set(roomId, outgoing);
+  }
+
+  /**
+   * Check the shape of an attack payload.
+   */
+  private validateAttack(attack: any): boolean {
+    if (!attack || typeof attack !== 'object') return false;
+    const isPoint = (value: any) =>
+      !!value && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+    if (attack.kind === 'melee') {
+      return attack.facing === 1 || attack.facing === -1;
+    }
+    if (attack.kind === 'projectile') {
+      return (
+        typeof attack.targetId === 'string' &&
+        isPoint(attack.origin) &&
+        isPoint(attack.velocity) &&
+        Number.isFinite(attack.flightMs)
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Create a new player entity at the level's spawn point.
+   */
+  private createPlayerEntity(roomId: string): PhysicsEntity {
+    const geometry = this.getLevelGeometry(roomId);
+    const level = this.roomLevels.get(roomId) ?? DEFAULT_LEVEL;
+    const { bodyWidth, bodyHeight } = this.physics.getConfig();
+    return {
+      type: 'player',
+      position: getPlayerStart(level, geometry),
+      velocity: { x: 0, y: 0 },
+      width: bodyWidth,
+      height: bodyHeight,
+      isOnGround: false,
+      affectedByGravity: true,
+      lastUpdated: Date.now(),
+    };
+  }
+
+  /**
+   * Input arrives either bare or wrapped in a `PlayerInputEvent`.
+   */
+  private unwrapInput(input: any): any {
+    return input.input && typeof input.input === 'object' ? input.input : input;
+  }
+
   /**
    * Validate player input (anti-cheat).
    */
   private validateInput(input: any): boolean {
     // Basic validation: ensure required fields, within bounds, etc.
     if (!input || typeof input !== 'object') return false;
-    // Add more checks as needed
-    return true;
+    return PlatformerPhysics.normalizeInput(this.unwrapInput(input)) !== null;
   }
 
   /**
@@ -347,11 +1080,55 @@ export class GameSync {
     return this.roomStates.get(roomId);
   }
 
+  /**
+   * Start simulating a newly created room, so input sent before its first
+   * tick is queued rather than dropped.
+   */
+  public addRoom(room: Room): void {
+    if (room.level !== undefined) {
+      this.setRoomLevel(room.roomId, room.level);
+    }
+    if (!this.roomStates.has(room.roomId)) {
+      this.roomStates.set(room.roomId, this.createEmptyState(room.roomId));
+    }
+  }
+
+  /**
+   * Forget everything kept for a room once it has ended or emptied.
+   */
+  public removeRoom(roomId: string): void {
+    this.resetRoomState(roomId);
+    this.roomStates.delete(roomId);
+    this.roomLevels.delete(roomId);
+  }
+
   /**
    * Reset game state for a room (e.g., new round).
    */
   public resetRoomState(roomId: string): void {
     this.roomStates.set(roomId, this.createEmptyState(roomId));
-    this.previousStates.delete(roomId);
+    this.sentSnapshots.delete(roomId);
+    this.stateHistories.delete(roomId);
+    this.lastAttackTimes.delete(roomId);
+    this.combos.delete(roomId);
+    this.interest.removeRoom(roomId);
+    // Ticks restart from zero, so old acknowledgements would point at the
+    // wrong snapshots
+    for (const [socketId, ack] of this.clientAcks) {
+      if (ack.roomId === roomId) this.clientAcks.delete(socketId);
+    }
+    this.lastSentTicks.delete(roomId);
+    this.outgoingEvents.delete(roomId);
+    this.levelGeometries.delete(roomId);
+  }
+
+  /**
+   * Choose the level simulated for a room. Takes effect immediately and
+   * discards the previous level's geometry.
+   */
+  public setRoomLevel(roomId: string, level: number): void {
+    if (this.roomLevels.get(roomId) === level) return;
+    this.roomLevels.set(roomId, level);
+    this.levelGeometries.delete(roomId);
   }
 }
@@ -0,0 +1,179 @@
+import { SpatialGrid } from '../simulation/SpatialGrid';
+
+/**
+ * Size of the region each client receives entities for.
+ */
+export interface InterestConfig {
+  /** Camera width in pixels (the client's game width). */
+  viewWidth: number;
+  /** Camera height in pixels (the client's game height). */
+  viewHeight: number;
+  /** Extra distance around the camera, so entities exist before they scroll in. */
+  margin: number;
+  /** Cell size of the spatial grid in pixels. */
+  cellSize: number;
+}
+
+/**
+ * Defaults matching the client's 1024x768 game config.
+ */
+export const DEFAULT_INTEREST_CONFIG: InterestConfig = {
+  viewWidth: 1024,
+  viewHeight: 768,
+  margin: 256,
+  cellSize: 256,
+};
+
+/**
+ * Entities that came into or went out of a client's area of interest.
+ */
+export interface InterestChange {
+  entered: string[];
+  left: string[];
+}
+
+/**
+ * Decides which entities each client is told about: those inside its camera
+ * region plus a margin, centred on its own player entity. Remembers what
+ * every client was sent so deltas and enter/leave notifications can be
+ * computed per client.
+ */
+export class InterestManager {
+  private config: InterestConfig;
+  private grids: Map<string, SpatialGrid> = new Map(); // roomId -> grid for the current broadcast
+  private current: Map<string, Set<string>> = new Map(); // socketId -> entities last sent
+  private history: Map<string, Map<number, Set<string>>> = new Map(); // socketId -> tick -> entities sent
+  private socketRooms: Map<string, string> = new Map(); // socketId -> roomId
+
+  constructor(config: Partial<InterestConfig> = {}) {
+    this.config = { ...DEFAULT_INTEREST_CONFIG, ...config };
+  }
+
+  /**
+   * Get the active interest configuration.
+   */
+  public getConfig(): InterestConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Index a room's entities before computing what each client can see.
+   */
+  public updateRoom(roomId: string, entities: Record<string, any>): void {
+    this.grids.set(
+      roomId,
+      SpatialGrid.fromEntities(entities, this.config.cellSize),
+    );
+  }
+
+  /**
+   * Entities a client should receive. A client without a positioned player
+   * entity (spectating, or not spawned yet) sees the whole room.
+   * @param playerId The client's own entity, which is always included.
+   */
+  public getVisibleEntities(
+    roomId: string,
+    entities: Record<string, any>,
+    playerId?: string,
+  ): Set<string> {
+    const center = playerId ? entities[playerId]?.position : undefined;
+    const grid = this.grids.get(roomId);
+    if (!center || !grid) {
+      return new Set(Object.keys(entities));
+    }
+
+    const halfWidth = this.config.viewWidth / 2 + this.config.margin;
+    const halfHeight = this.config.viewHeight / 2 + this.config.margin;
+    const visible = new Set<string>([playerId!]);
+    for (const id of grid.queryRect(
+      center.x - halfWidth,
+      center.y - halfHeight,
+      center.x + halfWidth,
+      center.y + halfHeight,
+    )) {
+      const position = entities[id]?.position;
+      if (
+        position &&
+        Math.abs(position.x - center.x) <= halfWidth &&
+        Math.abs(position.y - center.y) <= halfHeight
+      ) {
+        visible.add(id);
+      }
+    }
+    return visible;
+  }
+
+  /**
+   * Entities last sent to a client, if any.
+   */
+  public getCurrent(socketId: string): Set<string> | undefined {
+    return this.current.get(socketId);
+  }
+
+  /**
+   * Entities that were sent to a client in the snapshot at `tick`.
+   */
+  public getSentAt(socketId: string, tick: number): Set<string> | undefined {
+    return this.history.get(socketId)?.get(tick);
+  }
+
+  /**
+   * Record what a client was sent at `tick` and report what changed since
+   * the previous snapshot it was sent. Everything counts as entered in a
+   * client's first snapshot for a room.
+   * @param maxAge History older than this many ticks is discarded.
+   */
+  public recordSent(
+    socketId: string,
+    roomId: string,
+    tick: number,
+    visible: Set<string>,
+    maxAge: number,
+  ): InterestChange {
+    if (this.socketRooms.get(socketId) !== roomId) {
+      this.removeClient(socketId);
+      this.socketRooms.set(socketId, roomId);
+    }
+    const previous = this.current.get(socketId);
+    const change: InterestChange = { entered: [], left: [] };
+    if (previous) {
+      visible.forEach((id) => {
+        if (!previous.has(id)) change.entered.push(id);
+      });
+      previous.forEach((id) => {
+        if (!visible.has(id)) change.left.push(id);
+      });
+    } else {
+      change.entered.push(...visible);
+    }
+    this.current.set(socketId, visible);
+
+    const sent = this.history.get(socketId) || new Map();
+    sent.set(tick, visible);
+    for (const sentTick of sent.keys()) {
+      if (tick - sentTick > maxAge) sent.delete(sentTick);
+    }
+    this.history.set(socketId, sent);
+    return change;
+  }
+
+  /**
+   * Forget everything sent to a client (e.g. on disconnect).
+   */
+  public removeClient(socketId: string): void {
+    this.current.delete(socketId);
+    this.history.delete(socketId);
+    this.socketRooms.delete(socketId);
+  }
+
+  /**
+   * Forget a room's grid and what its clients were sent (e.g. on reset,
+   * since ticks start over).
+   */
+  public removeRoom(roomId: string): void {
+    this.grids.delete(roomId);
+    for (const [socketId, socketRoom] of this.socketRooms) {
+      if (socketRoom === roomId) this.removeClient(socketId);
+    }
+  }
+}
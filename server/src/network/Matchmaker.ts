@@ -7,9 +7,13 @@ import {
 } from '../types/matchmaking';
 import { logger } from '../utils/logger';
 import { MatchmakingWorker } from '../workers/MatchmakingWorker';
+import { SkillMatcher } from './SkillMatcher';
+import { WaitTimeEstimator } from './WaitTimeEstimator';
+import { RatingService } from '../services/RatingService';
+import { DEFAULT_LEVEL, getLevelConfig } from '../simulation/levels';
 
 /**
- * Simple matchmaking service that groups players into rooms.
+ * Matchmaking service that groups players of similar skill into rooms.
  */
 export class Matchmaker {
   private io: Server;
@@ -19,15 +23,20 @@ export class Matchmaker {
   private matchmakingInterval: NodeJS.Timeout | null = null;
   private readonly MATCHMAKING_TICK_MS = 5000; // Check every 5 seconds
   private worker: MatchmakingWorker;
+  private matcher: SkillMatcher = new SkillMatcher();
+  private waitTimes: WaitTimeEstimator = new WaitTimeEstimator();
+  private ratingService?: RatingService;
 
   constructor(
     io: Server,
     connectionManager: ConnectionManager,
     roomManager: RoomManager,
+    ratingService?: RatingService,
   ) {
     this.io = io;
     this.connectionManager = connectionManager;
     this.roomManager = roomManager;
+    this.ratingService = ratingService;
     this.worker = new MatchmakingWorker();
     this.startMatchmakingLoop();
   }
@@ -75,11 +84,25 @@ export class Matchmaker {
       requestId,
       playerId: session.playerId,
       socketId: socket.id,
-      preferences,
+      preferences: { ...preferences },
       queuedAt: new Date(),
     };
 
+    // Unknown levels fall back to the default rather than matching nobody
+    const { level } = request.preferences;
+    if (level !== undefined && !getLevelConfig(level)) {
+      delete request.preferences.level;
+    }
+
+    // Registered players are matched on their stored rating, never on
+    // whatever skill level the client claims
+    if (this.ratingService && !session.playerId.startsWith('guest_')) {
+      delete request.preferences.skillLevel;
+      this.loadRating(request, this.ratingService);
+    }
+
     this.queue.push(request);
+    this.waitTimes.recordArrival(this.matcher.getPoolKey(request));
     logger.debug(`Player ${session.playerId} enqueued for matchmaking`, {
       requestId,
       preferences,
@@ -87,12 +110,30 @@ export class Matchmaker {
 
     socket.emit('matchmaking_queued', {
       requestId,
-      estimatedWait: this.estimateWaitTime(),
+      estimatedWait: this.estimateWaitTime(request),
     });
 
     return requestId;
   }
 
+  /**
+   * Fill in a queued request's skill level from the player's rating. Until
+   * it arrives the request is matched on the default rating.
+   */
+  private loadRating(
+    request: MatchmakingRequest,
+    ratingService: RatingService,
+  ): void {
+    ratingService
+      .getRating(request.playerId, request.preferences.gameMode)
+      .then((rating) => {
+        request.preferences.skillLevel = rating.rating;
+      })
+      .catch((error) => {
+        logger.error(`Failed to load rating for ${request.playerId}:`, error);
+      });
+  }
+
   /**
    * Remove a player from the queue (e.g., if they cancel).
    */
@@ -134,38 +175,14 @@ export class Matchmaker {
    * Fallback synchronous processing if worker fails.
    */
   private fallbackProcessQueue(): void {
-    // Group by gameMode and region (simple implementation)
-    const groups = this.groupByGameMode(this.queue);
-
-    for (const [, requests] of groups) {
-      const maxPlayers = 4; // default
-      if (requests.length >= maxPlayers) {
-        // Create a room with the first maxPlayers
-        const matchedRequests = requests.slice(0, maxPlayers);
-        this.createMatch(matchedRequests);
-        // Remove matched requests from queue
-        matchedRequests.forEach((req) => this.dequeuePlayer(req.socketId));
-      }
+    const matches = this.matcher.findMatches(this.queue);
+    for (const match of matches) {
+      this.createMatch(match.matchedRequests);
+      // Remove matched requests from queue
+      match.matchedRequests.forEach((req) => this.dequeuePlayer(req.socketId));
     }
   }
 
-  /**
-   * Group requests by gameMode and region.
-   */
-  private groupByGameMode(
-    requests: MatchmakingRequest[],
-  ): Map<string, MatchmakingRequest[]> {
-    const map = new Map<string, MatchmakingRequest[]>();
-    for (const req of requests) {
-      const key = `${req.preferences.gameMode}_${req.preferences.region || 'any'}`;
-      if (!map.has(key)) {
-        map.set(key, []);
-      }
-      map.get(key)!.push(req);
-    }
-    return map;
-  }
-
   /**
    * Create a match (room) for the given requests.
    */
@@ -176,13 +193,23 @@ export class Matchmaker {
       socketId: req.socketId,
     }));
 
+    // Everyone in the match asked for the same level
+    const level = requests[0].preferences.level ?? DEFAULT_LEVEL;
+
     // Create room via RoomManager
     this.roomManager.createRoom(roomId, {
       gameMode: requests[0].preferences.gameMode,
-      maxPlayers: requests[0].preferences.maxPlayers || 4,
+      maxPlayers: this.matcher.getPlayerCount(requests[0]),
+      level,
       players: playerInfos,
     });
 
+    const now = Date.now();
+    this.waitTimes.recordMatch(
+      this.matcher.getPoolKey(requests[0]),
+      requests.map((req) => now - new Date(req.queuedAt).getTime()),
+    );
+
     // Assign each socket to the room
     requests.forEach((req) => {
       this.connectionManager.assignRoom(req.socketId, roomId);
@@ -191,6 +218,7 @@ export class Matchmaker {
         socket.join(roomId);
         socket.emit('matchmaking_success', {
           roomId,
+          level,
           players: playerInfos,
         });
       }
@@ -201,6 +229,7 @@ export class Matchmaker {
       roomId,
       players: playerInfos,
       gameMode: requests[0].preferences.gameMode,
+      level,
     });
 
     logger.info(
@@ -209,12 +238,18 @@ export class Matchmaker {
   }
 
   /**
-   * Estimate wait time in seconds (naive).
+   * Estimate wait time in seconds for a queued request, from the players
+   * already waiting who it could be matched with and how quickly more have
+   * been arriving for the same mode and region.
    */
-  private estimateWaitTime(): number {
-    const avgPlayersPerMinute = 10; // placeholder
-    const neededPlayers = 4;
-    return Math.max(30, (neededPlayers / avgPlayersPerMinute) * 60);
+  private estimateWaitTime(request: MatchmakingRequest): number {
+    const compatible = this.matcher.getCompatible(request, this.queue);
+    const missing = this.matcher.getPlayerCount(request) - compatible.length;
+    return this.waitTimes.estimate(
+      this.matcher.getPoolKey(request),
+      missing,
+      this.MATCHMAKING_TICK_MS,
+    );
   }
 
   /**
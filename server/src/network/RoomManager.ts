@@ -1,5 +1,6 @@
 import { Server } from 'socket.io';
 import { ConnectionManager } from './ConnectionManager';
+import { MatchResult, MatchStanding } from '../types/matchmaking';
 import { logger } from '../utils/logger';
 
 /**
@@ -35,13 +36,32 @@ export interface Room {
   roomId: string;
   gameMode: string;
   maxPlayers: number;
+  /** Level number played in this room (see `simulation/levels.ts`). */
+  level?: number;
+  /** Snapshots sent to this room per second (defaults to the GameSync rate). */
+  snapshotRate?: number;
   players: Array<{
     playerId: string;
     socketId: string;
+    /** Set while the player's slot is held for them to reconnect. */
+    disconnectedAt?: Date;
   }>;
   createdAt: Date;
   isActive: boolean;
   gameState?: GameState;
+  /** Players already rewarded for finishing a level here, as "playerId:level". */
+  completedLevels?: Set<string>;
+}
+
+/**
+ * Callbacks for rooms being created and removed, so state kept elsewhere for
+ * a room lives exactly as long as the room.
+ */
+export interface RoomLifecycleHandlers {
+  /** A room was created; its players may send input straight away. */
+  onCreated?: (room: Room) => void;
+  /** A room ended or emptied and is gone. */
+  onRemoved?: (roomId: string) => void;
 }
 
 /**
@@ -51,12 +71,29 @@ export class RoomManager {
   private io: Server;
   private connectionManager: ConnectionManager;
   private rooms: Map<string, Room> = new Map();
+  private matchEndHandler?: (result: MatchResult) => void;
+  private lifecycleHandlers: RoomLifecycleHandlers = {};
 
   constructor(io: Server, connectionManager: ConnectionManager) {
     this.io = io;
     this.connectionManager = connectionManager;
   }
 
+  /**
+   * Set the callback told about every match that ends with known standings.
+   */
+  public setMatchEndHandler(handler: (result: MatchResult) => void): void {
+    this.matchEndHandler = handler;
+  }
+
+  /**
+   * Set the callbacks told about rooms being created and removed. Separate
+   * from the constructor because the simulation is built afterwards.
+   */
+  public setLifecycleHandlers(handlers: RoomLifecycleHandlers): void {
+    this.lifecycleHandlers = handlers;
+  }
+
   /**
    * Create a new room.
    */
@@ -65,6 +102,8 @@ export class RoomManager {
     options: {
       gameMode: string;
       maxPlayers?: number;
+      level?: number;
+      snapshotRate?: number;
       players: Array<{ playerId: string; socketId: string }>;
     },
   ): Room {
@@ -72,6 +111,8 @@ export class RoomManager {
       roomId,
       gameMode: options.gameMode,
       maxPlayers: options.maxPlayers || 4,
+      level: options.level,
+      snapshotRate: options.snapshotRate,
       players: options.players,
       createdAt: new Date(),
       isActive: true,
@@ -79,6 +120,7 @@ export class RoomManager {
 
     this.rooms.set(roomId, room);
     logger.info(`Room created: ${roomId} (${options.players.length} players)`);
+    this.lifecycleHandlers.onCreated?.(room);
 
     // Notify all players in room
     this.io.to(roomId).emit('room_created', {
@@ -97,6 +139,27 @@ export class RoomManager {
     return this.rooms.get(roomId);
   }
 
+  /**
+   * Claim the reward for a player finishing a level in a room. Each player
+   * can claim each level once per room.
+   * @returns Whether the claim is new; false if already claimed or the
+   * player is not in the room.
+   */
+  public claimLevelCompletion(
+    roomId: string,
+    playerId: string,
+    level: number,
+  ): boolean {
+    const room = this.rooms.get(roomId);
+    if (!room?.players.some((p) => p.playerId === playerId)) return false;
+
+    const key = `${playerId}:${level}`;
+    if (!room.completedLevels) room.completedLevels = new Set();
+    if (room.completedLevels.has(key)) return false;
+    room.completedLevels.add(key);
+    return true;
+  }
+
   /**
    * Add a player to an existing room.
    */
@@ -166,6 +229,51 @@ export class RoomManager {
     return false;
   }
 
+  /**
+   * Hold a disconnected player's slot until they reconnect or are removed.
+   */
+  public markDisconnected(roomId: string, playerId: string): boolean {
+    const player = this.rooms
+      .get(roomId)
+      ?.players.find((p) => p.playerId === playerId);
+    if (!player) return false;
+
+    player.disconnectedAt = new Date();
+    logger.debug(`Holding slot in room ${roomId} for player ${playerId}`);
+    return true;
+  }
+
+  /**
+   * Give a player's held slot to their new socket.
+   */
+  public reconnectPlayer(
+    roomId: string,
+    playerId: string,
+    socketId: string,
+  ): boolean {
+    const player = this.rooms
+      .get(roomId)
+      ?.players.find((p) => p.playerId === playerId);
+    if (!player) {
+      logger.warn(`No slot in room ${roomId} for player ${playerId}`);
+      return false;
+    }
+
+    player.socketId = socketId;
+    delete player.disconnectedAt;
+    this.connectionManager.assignRoom(socketId, roomId);
+
+    // Notify room
+    this.io.to(roomId).emit('player_reconnected', {
+      playerId,
+      socketId,
+      roomId,
+    });
+
+    logger.debug(`Player ${playerId} reconnected to room ${roomId}`);
+    return true;
+  }
+
   /**
    * Pause a room (e.g., for maintenance).
    */
@@ -194,11 +302,25 @@ export class RoomManager {
 
   /**
    * End a room (game over) and clean up.
+   * @param standings Final places; derived from the room's scores if omitted.
    */
-  public endRoom(roomId: string): boolean {
+  public endRoom(roomId: string, standings?: MatchStanding[]): boolean {
     const room = this.rooms.get(roomId);
     if (!room) return false;
 
+    const finalStandings = standings ?? this.getStandingsFromScores(room);
+    if (this.matchEndHandler && finalStandings.length > 0) {
+      try {
+        this.matchEndHandler({
+          roomId,
+          gameMode: room.gameMode,
+          standings: finalStandings,
+        });
+      } catch (error) {
+        logger.error(`Match end handler failed for room ${roomId}:`, error);
+      }
+    }
+
     // Notify all players
     this.io.to(roomId).emit('room_ended', {
       roomId,
@@ -215,15 +337,31 @@ export class RoomManager {
     });
 
     this.rooms.delete(roomId);
+    this.lifecycleHandlers.onRemoved?.(roomId);
     logger.info(`Room ended and destroyed: ${roomId}`);
     return true;
   }
 
+  /**
+   * Rank the room's players by score, highest first; equal scores share a rank.
+   */
+  private getStandingsFromScores(room: Room): MatchStanding[] {
+    const players = [...(room.gameState?.players ?? [])].sort(
+      (a, b) => b.score - a.score,
+    );
+    return players.map((player) => ({
+      playerId: player.playerId,
+      rank: 1 + players.filter((other) => other.score > player.score).length,
+      score: player.score,
+    }));
+  }
+
   /**
    * Destroy room immediately (forceful).
    */
   private destroyRoom(roomId: string): void {
     this.rooms.delete(roomId);
+    this.lifecycleHandlers.onRemoved?.(roomId);
     logger.debug(`Room destroyed: ${roomId}`);
   }
 
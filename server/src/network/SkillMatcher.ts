@@ -0,0 +1,217 @@
+import { DEFAULT_LEVEL } from '../simulation/levels';
+import { MatchmakingRequest } from '../types/matchmaking';
+
+/**
+ * Tuning for skill-based matchmaking.
+ */
+export interface SkillMatchConfig {
+  /** Rating assumed for requests without a skill level. */
+  defaultRating: number;
+  /** Rating difference accepted as soon as a request is queued. */
+  initialWindow: number;
+  /** How much the accepted difference grows per second spent queued. */
+  windowGrowthPerSecond: number;
+  /** Largest rating difference ever accepted. */
+  maxWindow: number;
+  /** Players per match for each game mode. */
+  modePlayerCounts: Record<string, number>;
+  /** Players per match for modes without their own count. */
+  defaultPlayerCount: number;
+}
+
+/**
+ * Defaults: a fresh request only matches within 100 rating points, widening
+ * by 10 points a second up to 1000 (after 90 seconds).
+ */
+export const DEFAULT_SKILL_MATCH_CONFIG: SkillMatchConfig = {
+  defaultRating: 1500,
+  initialWindow: 100,
+  windowGrowthPerSecond: 10,
+  maxWindow: 1000,
+  modePlayerCounts: {
+    platformer: 4,
+    deathmatch: 4,
+    coop: 2,
+  },
+  defaultPlayerCount: 4,
+};
+
+/**
+ * Requests grouped into one match.
+ */
+export interface SkillMatch {
+  matchedRequests: MatchmakingRequest[];
+}
+
+/**
+ * Groups queued requests into matches of players with similar ratings.
+ * Only requests for the same game mode, region, player count and level can
+ * be matched, and every player in a match must be within both their own and the
+ * longest-waiting player's rating window. Windows widen the longer a request
+ * has been queued, so players with unusual ratings still get a game.
+ */
+export class SkillMatcher {
+  private config: SkillMatchConfig;
+
+  constructor(config: Partial<SkillMatchConfig> = {}) {
+    this.config = { ...DEFAULT_SKILL_MATCH_CONFIG, ...config };
+  }
+
+  /**
+   * Get the active configuration.
+   */
+  public getConfig(): SkillMatchConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Rating a request is matched on.
+   */
+  public getRating(request: MatchmakingRequest): number {
+    const skill = request.preferences.skillLevel;
+    return typeof skill === 'number' && Number.isFinite(skill)
+      ? skill
+      : this.config.defaultRating;
+  }
+
+  /**
+   * Players needed for a match in the request's game mode. Modes without a
+   * configured count use the requested `maxPlayers`, if sensible.
+   */
+  public getPlayerCount(request: MatchmakingRequest): number {
+    const { gameMode, maxPlayers } = request.preferences;
+    const modeCount = this.config.modePlayerCounts[gameMode];
+    if (modeCount !== undefined) return modeCount;
+    return Number.isInteger(maxPlayers) && maxPlayers! >= 2
+      ? maxPlayers!
+      : this.config.defaultPlayerCount;
+  }
+
+  /**
+   * Largest rating difference the request accepts after waiting until `now`.
+   */
+  public getSkillWindow(request: MatchmakingRequest, now: number): number {
+    const waitedSeconds = Math.max(0, (now - this.getQueuedAt(request)) / 1000);
+    return Math.min(
+      this.config.maxWindow,
+      this.config.initialWindow +
+        waitedSeconds * this.config.windowGrowthPerSecond,
+    );
+  }
+
+  /**
+   * Key of the pool a request can be matched within.
+   */
+  public getPoolKey(request: MatchmakingRequest): string {
+    const { gameMode, region, level } = request.preferences;
+    return `${gameMode}_${region || 'any'}_${this.getPlayerCount(request)}_${level ?? DEFAULT_LEVEL}`;
+  }
+
+  /**
+   * Queued requests (including `request` itself, if queued) that could end
+   * up in the same match as `request` right now.
+   */
+  public getCompatible(
+    request: MatchmakingRequest,
+    queue: MatchmakingRequest[],
+    now: number = Date.now(),
+  ): MatchmakingRequest[] {
+    const key = this.getPoolKey(request);
+    return queue.filter(
+      (other) =>
+        other === request ||
+        (this.getPoolKey(other) === key &&
+          this.accepts(request, other, now) &&
+          this.accepts(other, request, now)),
+    );
+  }
+
+  /**
+   * Form as many matches as the queue allows. Longest-waiting requests are
+   * served first, each with the closest-rated players that fit. Requests
+   * left over stay queued and are retried with wider windows later.
+   */
+  public findMatches(
+    queue: MatchmakingRequest[],
+    now: number = Date.now(),
+  ): SkillMatch[] {
+    const matches: SkillMatch[] = [];
+
+    for (const pool of this.groupByPool(queue).values()) {
+      const count = this.getPlayerCount(pool[0]);
+      const pending = [...pool].sort(
+        (a, b) => this.getQueuedAt(a) - this.getQueuedAt(b),
+      );
+
+      let index = 0;
+      while (index < pending.length && pending.length >= count) {
+        const anchor = pending[index];
+        const rating = this.getRating(anchor);
+        const candidates = pending
+          .filter(
+            (other) =>
+              other !== anchor &&
+              this.accepts(anchor, other, now) &&
+              this.accepts(other, anchor, now),
+          )
+          .sort(
+            (a, b) =>
+              Math.abs(this.getRating(a) - rating) -
+              Math.abs(this.getRating(b) - rating),
+          );
+
+        if (candidates.length < count - 1) {
+          index++;
+          continue;
+        }
+
+        const matchedRequests = [anchor, ...candidates.slice(0, count - 1)];
+        matches.push({ matchedRequests });
+        for (const matched of matchedRequests) {
+          pending.splice(pending.indexOf(matched), 1);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Whether `request`'s window covers `other`'s rating.
+   */
+  private accepts(
+    request: MatchmakingRequest,
+    other: MatchmakingRequest,
+    now: number,
+  ): boolean {
+    return (
+      Math.abs(this.getRating(request) - this.getRating(other)) <=
+      this.getSkillWindow(request, now)
+    );
+  }
+
+  /**
+   * When a request was queued, accepting serialized dates as well.
+   */
+  private getQueuedAt(request: MatchmakingRequest): number {
+    const time = new Date(request.queuedAt).getTime();
+    return Number.isFinite(time) ? time : Date.now();
+  }
+
+  /**
+   * Group requests by game mode, region and player count.
+   */
+  private groupByPool(
+    requests: MatchmakingRequest[],
+  ): Map<string, MatchmakingRequest[]> {
+    const map = new Map<string, MatchmakingRequest[]>();
+    for (const request of requests) {
+      const key = this.getPoolKey(request);
+      if (!map.has(key)) {
+        map.set(key, []);
+      }
+      map.get(key)!.push(request);
+    }
+    return map;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Estimates how long a new matchmaking request will wait, from how fast
+ * compatible players have been arriving and how long recent matches took.
+ */
+export class WaitTimeEstimator {
+  private arrivals: Map<string, number[]> = new Map(); // pool key -> enqueue times
+  private waits: Map<string, number[]> = new Map(); // pool key -> recent waits (ms)
+  private windowMs: number;
+  private maxSamples: number;
+  private fallbackSeconds: number;
+
+  /**
+   * @param windowMs How far back arrivals count towards the arrival rate.
+   * @param maxSamples Most recent match waits kept per pool.
+   * @param fallbackSeconds Estimate for pools with no history at all.
+   */
+  constructor(
+    windowMs: number = 5 * 60 * 1000,
+    maxSamples: number = 20,
+    fallbackSeconds: number = 30,
+  ) {
+    this.windowMs = windowMs;
+    this.maxSamples = maxSamples;
+    this.fallbackSeconds = fallbackSeconds;
+  }
+
+  /**
+   * Record a request joining a pool.
+   */
+  public recordArrival(key: string, now: number = Date.now()): void {
+    const arrivals = this.arrivals.get(key) || [];
+    arrivals.push(now);
+    this.arrivals.set(key, this.prune(arrivals, now));
+  }
+
+  /**
+   * Record how long the players of a new match waited, in milliseconds.
+   */
+  public recordMatch(key: string, waitsMs: number[]): void {
+    const waits = this.waits.get(key) || [];
+    waits.push(...waitsMs.filter((wait) => Number.isFinite(wait) && wait >= 0));
+    this.waits.set(key, waits.slice(-this.maxSamples));
+  }
+
+  /**
+   * Estimated wait in whole seconds for a request in pool `key`.
+   * @param missing Players still needed for a match.
+   * @param tickMs How often the queue is processed; no wait is shorter.
+   */
+  public estimate(
+    key: string,
+    missing: number,
+    tickMs: number,
+    now: number = Date.now(),
+  ): number {
+    const minimum = tickMs / 1000;
+    if (missing <= 0) return Math.ceil(minimum);
+
+    // Players needed divided by how fast they have been showing up
+    const arrivals = this.prune(this.arrivals.get(key) || [], now);
+    this.arrivals.set(key, arrivals);
+    if (arrivals.length > 1) {
+      const observedMs = Math.max(now - arrivals[0], tickMs);
+      const perSecond = arrivals.length / (observedMs / 1000);
+      return Math.ceil(Math.max(minimum, missing / perSecond));
+    }
+
+    // Too few arrivals to judge: assume it goes like recent matches did
+    const waits = this.waits.get(key);
+    if (waits && waits.length > 0) {
+      const average = waits.reduce((sum, wait) => sum + wait, 0) / waits.length;
+      return Math.ceil(Math.max(minimum, average / 1000));
+    }
+
+    return Math.ceil(Math.max(minimum, this.fallbackSeconds));
+  }
+
+  /**
+   * Drop arrivals older than the rate window.
+   */
+  private prune(arrivals: number[], now: number): number[] {
+    return arrivals.filter((time) => now - time <= this.windowMs);
+  }
+}
@@ -3,9 +3,14 @@ import { ConnectionManager } from '../ConnectionManager';
 import { Matchmaker } from '../Matchmaker';
 import { RoomManager } from '../RoomManager';
 import { GameSync } from '../GameSync';
+import { LevelRecordService } from '../../services/LevelRecordService';
 import {
   EventNames,
   PlayerInputEvent,
+  PlayerAttackEvent,
+  LevelCompleteEvent,
+  SnapshotAckEvent,
+  ResumeSessionEvent,
   MatchmakingRequestEvent,
   ChatMessageEvent,
 } from './eventTypes';
@@ -20,6 +25,7 @@ export class EventHandler {
     private matchmaker: Matchmaker,
     private roomManager: RoomManager,
     private gameSync: GameSync,
+    private levelRecordService: LevelRecordService,
   ) {}
 
   /**
@@ -34,6 +40,11 @@ export class EventHandler {
       this.handleMatchmakingCancel(socket),
     );
 
+    // Session events
+    socket.on(EventNames.RESUME_SESSION, (data: ResumeSessionEvent) =>
+      this.handleResumeSession(socket, data),
+    );
+
     // Room events
     socket.on('join_room', (roomId: string) =>
       this.handleJoinRoom(socket, roomId),
@@ -46,6 +57,15 @@ export class EventHandler {
     socket.on(EventNames.PLAYER_INPUT, (data: PlayerInputEvent) =>
       this.handlePlayerInput(socket, data),
     );
+    socket.on(EventNames.SNAPSHOT_ACK, (data: SnapshotAckEvent) =>
+      this.handleSnapshotAck(socket, data),
+    );
+    socket.on(EventNames.SNAPSHOT_RESYNC, () =>
+      this.handleSnapshotResync(socket),
+    );
+    socket.on(EventNames.PLAYER_ATTACK, (data: PlayerAttackEvent) =>
+      this.handlePlayerAttack(socket, data),
+    );
     socket.on(EventNames.PLAYER_JUMP, () => this.handlePlayerJump(socket));
     socket.on(EventNames.PLAYER_SKILL, (skillId: string) =>
       this.handlePlayerSkill(socket, skillId),
@@ -53,6 +73,9 @@ export class EventHandler {
     socket.on(EventNames.PLAYER_COLLECT_ITEM, (itemId: string) =>
       this.handleCollectItem(socket, itemId),
     );
+    socket.on(EventNames.LEVEL_COMPLETE, (data: LevelCompleteEvent) =>
+      this.handleLevelComplete(socket, data),
+    );
 
     // Chat events
     socket.on(EventNames.CHAT_MESSAGE, (data: ChatMessageEvent) =>
@@ -85,6 +108,49 @@ export class EventHandler {
     }
   }
 
+  // ========== Session ==========
+
+  /**
+   * Put a reconnected player back into the match they dropped out of and
+   * send them the current state in full.
+   */
+  private handleResumeSession(socket: Socket, data: ResumeSessionEvent): void {
+    const resumed = this.connectionManager.resumeSession(
+      socket.id,
+      data?.resumeToken,
+    );
+    if (!resumed) {
+      socket.emit(EventNames.SESSION_RESUME_FAILED, {
+        message: 'Session cannot be resumed',
+      });
+      return;
+    }
+
+    const { session, previousSocketId } = resumed;
+    this.gameSync.removeClient(previousSocketId);
+
+    const roomId = session.roomId;
+    if (
+      !roomId ||
+      !this.roomManager.reconnectPlayer(roomId, session.playerId, socket.id)
+    ) {
+      // The room ended while the player was away
+      this.connectionManager.removeRoomAssignment(socket.id);
+      socket.emit(EventNames.SESSION_RESUMED, {
+        playerId: session.playerId,
+        roomId: null,
+      });
+      return;
+    }
+
+    socket.join(roomId);
+    socket.emit(EventNames.SESSION_RESUMED, {
+      playerId: session.playerId,
+      roomId,
+    });
+    this.gameSync.sendFullSnapshot(roomId, socket.id);
+  }
+
   // ========== Room ==========
 
   private handleJoinRoom(socket: Socket, roomId: string): void {
@@ -140,6 +206,43 @@ export class EventHandler {
     });
   }
 
+  private handleSnapshotAck(socket: Socket, data: SnapshotAckEvent): void {
+    const session = this.connectionManager.getSession(socket.id);
+    if (!session || !session.roomId || !data) return;
+
+    this.gameSync.acknowledgeSnapshot(socket.id, session.roomId, data.tick);
+  }
+
+  /**
+   * A client that could not apply a delta asks to start over from a full
+   * snapshot.
+   */
+  private handleSnapshotResync(socket: Socket): void {
+    const session = this.connectionManager.getSession(socket.id);
+    if (!session || !session.roomId) return;
+
+    this.gameSync.sendFullSnapshot(session.roomId, socket.id);
+  }
+
+  private handlePlayerAttack(socket: Socket, data: PlayerAttackEvent): void {
+    const session = this.connectionManager.getSession(socket.id);
+    if (!session || !session.roomId) return;
+
+    // Hits are decided by the server, rewound by the attacker's latency
+    this.gameSync.applyPlayerAttack(
+      session.roomId,
+      session.playerId,
+      data,
+      session.rtt,
+    );
+
+    // Let others play the attack animation
+    socket.to(session.roomId).emit(EventNames.PLAYER_ATTACK, {
+      ...data,
+      playerId: session.playerId,
+    });
+  }
+
   private handlePlayerJump(socket: Socket): void {
     const session = this.connectionManager.getSession(socket.id);
     if (!session || !session.roomId) return;
@@ -165,13 +268,67 @@ export class EventHandler {
     const session = this.connectionManager.getSession(socket.id);
     if (!session || !session.roomId) return;
 
-    // Update inventory, score, etc.
+    // Pickups are not simulated on the server, so they are only relayed and
+    // never counted towards achievements
     socket.to(session.roomId).emit(EventNames.PLAYER_COLLECT_ITEM, {
       playerId: session.playerId,
       itemId,
     });
   }
 
+  /**
+   * Report a level completion once the server has a record of it: the
+   * player must have submitted a valid run of the room's level since the
+   * room was created, and each completion counts once per room.
+   */
+  private async handleLevelComplete(
+    socket: Socket,
+    data: LevelCompleteEvent,
+  ): Promise<void> {
+    const session = this.connectionManager.getSession(socket.id);
+    if (!session || !session.roomId) return;
+    const { roomId, playerId } = session;
+
+    const room = this.roomManager.getRoom(roomId);
+    const levelId = data?.levelId;
+    if (
+      !room ||
+      !Number.isInteger(levelId) ||
+      levelId < 1 ||
+      (room.level !== undefined && levelId !== room.level)
+    ) {
+      logger.warn(`Invalid level completion from player ${playerId}`);
+      return;
+    }
+
+    try {
+      const recorded = await this.levelRecordService.hasRunSince(
+        playerId,
+        levelId,
+        room.createdAt,
+      );
+      if (!recorded) {
+        logger.warn(
+          `Unrecorded level ${levelId} completion from player ${playerId}`,
+        );
+        return;
+      }
+    } catch (error) {
+      logger.error('Failed to check level completion', error);
+      return;
+    }
+
+    if (!this.roomManager.claimLevelCompletion(roomId, playerId, levelId)) {
+      return;
+    }
+    this.gameSync.reportGameplayEvent({
+      roomId,
+      playerId,
+      type: 'level_complete',
+      amount: 1,
+    });
+  }
+
   // ========== Chat ==========
 
   private handleChatMessage(socket: Socket, data: ChatMessageEvent): void {
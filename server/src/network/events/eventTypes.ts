@@ -6,6 +6,9 @@ export const EventNames = {
   CONNECTION_ACK: 'connection_ack',
   PING: 'ping',
   PONG: 'pong',
+  RESUME_SESSION: 'resume_session',
+  SESSION_RESUMED: 'session_resumed',
+  SESSION_RESUME_FAILED: 'session_resume_failed',
 
   // Matchmaking
   MATCHMAKING_REQUEST: 'matchmaking_request',
@@ -22,16 +25,26 @@ export const EventNames = {
   ROOM_ENDED: 'room_ended',
   PLAYER_JOINED_ROOM: 'player_joined_room',
   PLAYER_LEFT_ROOM: 'player_left_room',
+  PLAYER_DISCONNECTED: 'player_disconnected',
+  PLAYER_RECONNECTED: 'player_reconnected',
 
   // Gameplay
   PLAYER_INPUT: 'player_input',
   GAME_STATE_UPDATE: 'game_state_update',
+  SNAPSHOT_ACK: 'snapshot_ack',
+  SNAPSHOT_RESYNC: 'snapshot_resync',
+  PLAYER_ATTACK: 'player_attack',
   PLAYER_JUMP: 'player_jump',
   PLAYER_SKILL: 'player_skill',
   PLAYER_COLLECT_ITEM: 'player_collect_item',
   PLAYER_DAMAGED: 'player_damaged',
   PLAYER_DIED: 'player_died',
   PLAYER_RESPAWN: 'player_respawn',
+  LEVEL_COMPLETE: 'level_complete',
+
+  // Progression
+  ACHIEVEMENT_UNLOCKED: 'achievement_unlocked',
+  LEVEL_UP: 'level_up',
 
   // Chat
   CHAT_MESSAGE: 'chat_message',
@@ -42,6 +55,14 @@ export const EventNames = {
   WARNING: 'warning',
 } as const;
 
+/**
+ * Payload sent by a reconnected client to take back its previous session.
+ */
+export interface ResumeSessionEvent {
+  /** Token from the previous connection's `connection_ack`. */
+  resumeToken: string;
+}
+
 /**
  * Payload for player input event.
  */
@@ -64,11 +85,81 @@ export interface PlayerInputEvent {
 export interface GameStateUpdateEvent {
   timestamp: number;
   roomId: string;
+  /** Simulation tick the state was taken at. */
+  tick: number;
+  /** Acknowledged tick the entities are relative to; absent when full. */
+  baselineTick?: number;
   entities: Record<string, any>;
   events: any[];
+  /** Last `PlayerInputEvent.sequence` processed for each player. */
+  lastProcessedInputs: Record<string, number>;
   compressed: boolean;
 }
 
+/**
+ * Payload sent by clients after applying a game state update.
+ */
+export interface SnapshotAckEvent {
+  tick: number;
+}
+
+/**
+ * Payload for a player attack. The server decides what it hit and for how
+ * much damage; the client only describes the attack itself.
+ */
+export interface PlayerAttackEvent {
+  kind: 'melee' | 'projectile';
+  /** Direction the attacker faces: 1 for right, -1 for left. */
+  facing?: 1 | -1;
+  /** Entity a projectile hit on the client. */
+  targetId?: string;
+  /** Where a projectile was fired from. */
+  origin?: { x: number; y: number };
+  /** Projectile velocity in pixels per second. */
+  velocity?: { x: number; y: number };
+  /** Time from firing to impact, in milliseconds. */
+  flightMs?: number;
+  timestamp: number;
+}
+
+/**
+ * Payload sent when a player reaches the end of a level.
+ */
+export interface LevelCompleteEvent {
+  levelId: number;
+}
+
+/**
+ * Payload pushed to a player who completed an achievement.
+ */
+export interface AchievementUnlockedEvent {
+  achievementId: string;
+  code: string;
+  name: string;
+  description: string | null;
+  tier: string;
+  rewardCoins: number;
+  rewardUnlockableId: string | null;
+}
+
+/**
+ * Payload pushed to a player who reached a new level.
+ */
+export interface LevelUpEvent {
+  level: number;
+  previousLevel: number;
+  experience: number;
+  /** Total experience needed for the next level; null at the max level. */
+  nextLevelXp: number | null;
+  /** Unlockables granted by the levels gained. */
+  unlocked: Array<{
+    id: string;
+    code: string | null;
+    name: string;
+    type: string;
+  }>;
+}
+
 /**
  * Payload for matchmaking request.
  */
@@ -77,6 +168,7 @@ export interface MatchmakingRequestEvent {
   region?: string;
   maxPlayers?: number;
   skillLevel?: number;
+  level?: number;
 }
 
 /**
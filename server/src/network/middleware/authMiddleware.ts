@@ -1,5 +1,6 @@
 import { Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
+import { AccessTokenClaims } from '../../services/AuthService';
 import { logger } from '../../utils/logger';
 
 /**
@@ -14,7 +15,7 @@ export function authenticateSocket(
 
   if (!token) {
     // Allow guest connections
-    socket.data.userId = `guest_${socket.id}`;
+    socket.data.playerId = `guest_${socket.id}`;
     socket.data.isGuest = true;
     return next();
   }
@@ -26,10 +27,14 @@ export function authenticateSocket(
       return next(new Error('Server configuration error'));
     }
 
-    const decoded = jwt.verify(token as string, secret) as { userId: string };
-    socket.data.userId = decoded.userId;
-    socket.data.isGuest = false;
-    logger.debug(`Authenticated user ${decoded.userId}`);
+    const decoded = jwt.verify(token as string, secret) as AccessTokenClaims;
+    if (!decoded.playerId) {
+      throw new Error('Token has no playerId claim');
+    }
+    socket.data.playerId = decoded.playerId;
+    // Guest accounts get tokens too; only the claim tells them apart
+    socket.data.isGuest = !!decoded.isGuest;
+    logger.debug(`Authenticated player ${decoded.playerId}`);
     next();
   } catch (error) {
     logger.warn(`Authentication failed: ${(error as Error).message}`);
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { AccessTokenClaims } from '../../services/AuthService';
+import { logger } from '../../utils/logger';
+
+/**
+ * Request that passed `authenticateHttp`.
+ */
+export interface AuthenticatedRequest extends Request {
+  auth: AccessTokenClaims;
+}
+
+/**
+ * Authentication middleware for Express routes.
+ * Verifies the bearer access token, the same JWT the socket layer accepts.
+ */
+export function authenticateHttp(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice(7) : null;
+  if (!token) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    logger.error('JWT_SECRET environment variable not set');
+    res.status(500).json({ error: 'Server configuration error' });
+    return;
+  }
+
+  try {
+    const decoded = jwt.verify(token, secret) as AccessTokenClaims;
+    if (!decoded.playerId) {
+      throw new Error('Token has no playerId claim');
+    }
+    (req as AuthenticatedRequest).auth = {
+      playerId: decoded.playerId,
+      role: decoded.role ?? 'player',
+    };
+    next();
+  } catch (error) {
+    logger.warn(`HTTP authentication failed: ${(error as Error).message}`);
+    res.status(401).json({ error: 'Invalid or expired token' });
+  }
+}
+
+/**
+ * Middleware to only let the player named by `:playerId` (or an admin)
+ * through. Must run after `authenticateHttp`.
+ */
+export function requireOwnerOrAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const { auth } = req as AuthenticatedRequest;
+  if (auth?.role === 'admin' || auth?.playerId === req.params.playerId) {
+    return next();
+  }
+  logger.warn(
+    `Player ${auth?.playerId} denied access to player ${req.params.playerId}`,
+  );
+  res.status(403).json({ error: 'Forbidden' });
+}
+
+/**
+ * Middleware to only let admins through. Must run after `authenticateHttp`.
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const { auth } = req as AuthenticatedRequest;
+  if (auth?.role === 'admin') {
+    return next();
+  }
+  logger.warn(`Player ${auth?.playerId} denied admin access to ${req.path}`);
+  res.status(403).json({ error: 'Admin access required' });
+}
@@ -47,6 +47,40 @@ export function rateLimit(
   };
 }
 
+/**
+ * Per-event rate limiting middleware.
+ * Drops a socket's events of one kind beyond maxEvents per window.
+ */
+export function throttleEvent(
+  event: string,
+  maxEvents: number,
+  windowMs: number,
+) {
+  return (socket: Socket, next: (err?: Error) => void) => {
+    const originalOn = socket.on.bind(socket);
+    let count = 0;
+    let resetTime = 0;
+
+    socket.on = (name: string, listener: (...args: any[]) => void) => {
+      if (name !== event) return originalOn(name, listener);
+      return originalOn(name, (...args: any[]) => {
+        const now = Date.now();
+        if (now >= resetTime) {
+          count = 0;
+          resetTime = now + windowMs;
+        }
+        if (++count > maxEvents) {
+          logger.warn(`Rate limit exceeded for ${event} from ${socket.id}`);
+          return;
+        }
+        listener(...args);
+      });
+    };
+
+    next();
+  };
+}
+
 /**
  * Input validation middleware for player_input events.
  */
@@ -6,6 +6,14 @@ import { PlayerUnlock } from './models/PlayerUnlock';
 import { Inventory } from './models/Inventory';
 import { Achievement } from './models/Achievement';
 import { AchievementProgress } from './models/AchievementProgress';
+import { PlayerRating } from './models/PlayerRating';
+import { RefreshToken } from './models/RefreshToken';
+import { Season } from './models/Season';
+import { SeasonStanding } from './models/SeasonStanding';
+import { LevelRecord } from './models/LevelRecord';
+import { SaveSlot } from './models/SaveSlot';
+import { CommunityLevel } from './models/CommunityLevel';
+import { CommunityLevelRating } from './models/CommunityLevelRating';
 
 // Validate required environment variables at startup
 const requiredEnvVars = ['DB_HOST', 'DB_USER', 'DB_PASSWORD', 'DB_NAME'];
@@ -34,6 +42,14 @@ export const AppDataSource = new DataSource({
     Inventory,
     Achievement,
     AchievementProgress,
+    PlayerRating,
+    RefreshToken,
+    Season,
+    SeasonStanding,
+    LevelRecord,
+    SaveSlot,
+    CommunityLevel,
+    CommunityLevelRating,
   ],
   migrations: ['infrastructure/database/migrations/*.ts'],
   subscribers: [],
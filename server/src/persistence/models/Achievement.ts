@@ -48,6 +48,9 @@ export class Achievement {
   @Column({ type: 'jsonb', nullable: true })
     metadata: Record<string, any> | null = null;
 
+  @Column({ name: 'retired_at', type: 'timestamp', nullable: true })
+    retiredAt: Date | null = null;
+
   @CreateDateColumn({ name: 'created_at' })
     createdAt!: Date;
 
@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+
+/**
+ * A level uploaded by a player: its Tiled map, the `LevelConfig` fields
+ * it is played with, and how other players have received it.
+ */
+@Entity('community_levels')
+@Index(['createdAt'])
+@Index(['downloads'])
+@Index(['averageRating'])
+export class CommunityLevel {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'author_id' })
+    authorId: string;
+
+  @Column({ length: 48 })
+    title: string;
+
+  @Column({ length: 500, default: '' })
+    description: string;
+
+  /** The Tiled JSON map, as validated on upload. */
+  @Column({ type: 'jsonb' })
+    map: Record<string, any>;
+
+  /** `LevelConfig` fields other than `key` and `tilemap`. */
+  @Column({ type: 'jsonb', default: {} })
+    config: Record<string, any>;
+
+  /** Width in tiles. */
+  @Column()
+    width: number;
+
+  /** Height in tiles. */
+  @Column()
+    height: number;
+
+  /** Sum of every rating, kept to update the average exactly. */
+  @Column({ name: 'rating_total', default: 0 })
+    ratingTotal: number;
+
+  @Column({ name: 'rating_count', default: 0 })
+    ratingCount: number;
+
+  /** Stored so levels can be sorted by it; 0 until rated. */
+  @Column({ name: 'average_rating', type: 'real', default: 0 })
+    averageRating: number;
+
+  @Column({ default: 0 })
+    downloads: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+    createdAt: Date;
+
+  @ManyToOne(() => PlayerProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'author_id' })
+    author: PlayerProfile;
+}
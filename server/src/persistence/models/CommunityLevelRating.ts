@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  UpdateDateColumn,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+import { CommunityLevel } from './CommunityLevel';
+
+/**
+ * A player's rating of a community level. Rating again replaces it.
+ */
+@Entity('community_level_ratings')
+@Index(['levelId', 'playerId'], { unique: true })
+export class CommunityLevelRating {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'level_id' })
+    levelId: string;
+
+  @Column({ name: 'player_id' })
+    playerId: string;
+
+  /** 1 to 5 stars. */
+  @Column({ type: 'smallint' })
+    rating: number;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+    updatedAt: Date;
+
+  @ManyToOne(() => CommunityLevel, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'level_id' })
+    level: CommunityLevel;
+
+  @ManyToOne(() => PlayerProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'player_id' })
+    profile: PlayerProfile;
+}
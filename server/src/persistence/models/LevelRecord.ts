@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+
+/**
+ * A player's best time and high score on one level. The two can come from
+ * different runs.
+ */
+@Entity('level_records')
+@Index(['playerId', 'levelNumber'], { unique: true })
+@Index(['levelNumber', 'bestTimeMs', 'bestTimeAt'])
+@Index(['levelNumber', 'highScore', 'highScoreAt'])
+export class LevelRecord {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'player_id' })
+    playerId: string;
+
+  @Column({ name: 'level_number' })
+    levelNumber: number;
+
+  @Column({ name: 'best_time_ms' })
+    bestTimeMs: number;
+
+  @Column({ name: 'best_time_at', type: 'timestamp' })
+    bestTimeAt: Date;
+
+  @Column({ name: 'high_score' })
+    highScore: number;
+
+  @Column({ name: 'high_score_at', type: 'timestamp' })
+    highScoreAt: Date;
+
+  @Column({ default: 0 })
+    runs: number;
+
+  @Column({ name: 'last_run_at', type: 'timestamp' })
+    lastRunAt: Date;
+
+  @Column({ name: 'last_run_metadata', type: 'jsonb', default: {} })
+    lastRunMetadata: Record<string, string | number | boolean>;
+
+  @ManyToOne(() => PlayerProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'player_id' })
+    profile: PlayerProfile;
+}
@@ -10,6 +10,13 @@ import { PlayerStats } from './PlayerStats';
 import { PlayerUnlock } from './PlayerUnlock';
 import { Inventory } from './Inventory';
 import { AchievementProgress } from './AchievementProgress';
+import { PlayerRating } from './PlayerRating';
+import { RefreshToken } from './RefreshToken';
+
+/**
+ * What a player may do through the API. Admins can change any player's data.
+ */
+export type PlayerRole = 'player' | 'admin';
 
 @Entity('player_profiles')
 export class PlayerProfile {
@@ -22,9 +29,33 @@ export class PlayerProfile {
   @Column({ unique: true, nullable: true })
     email!: string | null;
 
-  @Column({ name: 'password_hash', nullable: true })
+  // Only loaded on request, so profiles never leak it through the API
+  @Column({ name: 'password_hash', nullable: true, select: false })
     passwordHash!: string | null;
 
+  @Column({ name: 'failed_login_attempts', default: 0 })
+    failedLoginAttempts!: number;
+
+  @Column({ name: 'locked_until', type: 'timestamp', nullable: true })
+    lockedUntil!: Date | null;
+
+  // Anonymous profiles are identified by a device token instead of a password
+  @Column({ name: 'is_guest', default: false })
+    isGuest!: boolean;
+
+  @Column({ type: 'varchar', length: 20, default: 'player' })
+    role!: PlayerRole;
+
+  @Column({
+    name: 'device_token_hash',
+    type: 'varchar',
+    length: 64,
+    unique: true,
+    nullable: true,
+    select: false,
+  })
+    deviceTokenHash!: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
     createdAt!: Date;
 
@@ -52,4 +83,10 @@ export class PlayerProfile {
 
   @OneToMany(() => AchievementProgress, (progress) => progress.profile)
     achievements!: AchievementProgress[];
+
+  @OneToMany(() => PlayerRating, (rating) => rating.profile)
+    ratings!: PlayerRating[];
+
+  @OneToMany(() => RefreshToken, (token) => token.profile)
+    refreshTokens!: RefreshToken[];
 }
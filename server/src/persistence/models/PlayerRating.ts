@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+
+/**
+ * A player's Glicko-2 rating in one game mode.
+ */
+@Entity('player_ratings')
+@Index(['playerId', 'gameMode'], { unique: true })
+export class PlayerRating {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'player_id' })
+    playerId: string;
+
+  @Column({ name: 'game_mode', length: 50 })
+    gameMode: string;
+
+  @Column({ type: 'double precision', default: 1500 })
+    rating: number;
+
+  @Column({ type: 'double precision', default: 350 })
+    deviation: number;
+
+  @Column({ type: 'double precision', default: 0.06 })
+    volatility: number;
+
+  @Column({ name: 'games_played', default: 0 })
+    gamesPlayed: number;
+
+  @Column({ default: 0 })
+    wins: number;
+
+  @Column({ default: 0 })
+    losses: number;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+    updatedAt: Date;
+
+  @ManyToOne(() => PlayerProfile, (profile) => profile.ratings)
+  @JoinColumn({ name: 'player_id' })
+    profile: PlayerProfile;
+}
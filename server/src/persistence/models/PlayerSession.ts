@@ -7,4 +7,12 @@ export interface PlayerSession {
   connectedAt: Date;
   lastActivity: Date;
   roomId: string | null;
+  /** Encoding negotiated for `game_state_update` (see `negotiateSnapshotFormat`). */
+  snapshotFormat?: 'json' | 'binary';
+  /** Smoothed round-trip time in milliseconds, measured on ping/pong. */
+  rtt?: number;
+  /** Secret handed to the client to take this session back after a disconnect. */
+  resumeToken?: string;
+  /** When the socket dropped, while the session waits to be resumed. */
+  disconnectedAt?: Date;
 }
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+
+/**
+ * A refresh token issued to a player. Only a hash of the token is stored.
+ * Each refresh replaces the token with a new one in the same family, so a
+ * revoked token being presented again reveals that the family was stolen.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'player_id' })
+    playerId: string;
+
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', length: 64 })
+    tokenHash: string;
+
+  @Index()
+  @Column({ name: 'family_id', type: 'uuid' })
+    familyId: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+    expiresAt: Date;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+    revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+    createdAt: Date;
+
+  @ManyToOne(() => PlayerProfile, (profile) => profile.refreshTokens)
+  @JoinColumn({ name: 'player_id' })
+    profile: PlayerProfile;
+}
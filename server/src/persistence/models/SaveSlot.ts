@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  UpdateDateColumn,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+
+/**
+ * The cloud copy of one of a player's save slots. Deleting a slot keeps the
+ * row as a tombstone so other devices learn of the deletion.
+ */
+@Entity('save_slots')
+@Index(['playerId', 'slot'], { unique: true })
+export class SaveSlot {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'player_id' })
+    playerId: string;
+
+  /** `auto` for the autosave, `0`-`4` for the manual slots. */
+  @Column({ length: 8 })
+    slot: string;
+
+  /** The client's save data; null once deleted. */
+  @Column({ type: 'jsonb', nullable: true })
+    data: Record<string, any> | null;
+
+  /** Bumped on every write, so clients can tell whether they are behind. */
+  @Column()
+    revision: number;
+
+  /** When the client made the save. */
+  @Column({ name: 'saved_at', type: 'timestamp' })
+    savedAt: Date;
+
+  @Column({ default: false })
+    deleted: boolean;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+    updatedAt: Date;
+
+  @ManyToOne(() => PlayerProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'player_id' })
+    profile: PlayerProfile;
+}
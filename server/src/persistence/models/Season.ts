@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+
+/**
+ * A ranked season. Scores collect on the season's Redis board until it
+ * ends, when its final standings are archived and the next season starts.
+ */
+@Entity('seasons')
+export class Season {
+  @PrimaryGeneratedColumn()
+    id: number;
+
+  @Column({ name: 'starts_at', type: 'timestamp' })
+    startsAt: Date;
+
+  @Column({ name: 'ends_at', type: 'timestamp' })
+    endsAt: Date;
+
+  @Column({ name: 'archived_at', type: 'timestamp', nullable: true })
+    archivedAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at' })
+    createdAt: Date;
+}
@@ -0,0 +1,42 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { PlayerProfile } from './PlayerProfile';
+import { Season } from './Season';
+
+/**
+ * A player's final place in a finished season.
+ */
+@Entity('season_standings')
+@Index(['seasonId', 'playerId'], { unique: true })
+@Index(['seasonId', 'rank'])
+export class SeasonStanding {
+  @PrimaryGeneratedColumn('uuid')
+    id: string;
+
+  @Column({ name: 'season_id' })
+    seasonId: number;
+
+  @Index()
+  @Column({ name: 'player_id' })
+    playerId: string;
+
+  @Column()
+    rank: number;
+
+  @Column()
+    score: number;
+
+  @ManyToOne(() => Season, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'season_id' })
+    season: Season;
+
+  @ManyToOne(() => PlayerProfile, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'player_id' })
+    profile: PlayerProfile;
+}
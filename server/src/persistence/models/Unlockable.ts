@@ -20,6 +20,9 @@ export class Unlockable {
   @PrimaryGeneratedColumn('uuid')
     id: string;
 
+  @Column({ type: 'varchar', length: 100, unique: true, nullable: true })
+    code: string | null;
+
   @Column()
     name: string;
 
@@ -41,6 +44,9 @@ export class Unlockable {
   @Column({ type: 'jsonb', nullable: true })
     metadata: Record<string, any> | null;
 
+  @Column({ name: 'retired_at', type: 'timestamp', nullable: true })
+    retiredAt: Date | null;
+
   @CreateDateColumn({ name: 'created_at' })
     createdAt: Date;
 
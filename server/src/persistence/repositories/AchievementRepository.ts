@@ -14,6 +14,13 @@ export class AchievementRepository extends BaseRepository<Achievement> {
     );
   }
 
+  async findActive(): Promise<Achievement[]> {
+    return this.safeOperation(
+      this.find({ where: { retiredAt: IsNull() } }),
+      'Failed to find active achievements',
+    );
+  }
+
   async findByTier(tier: AchievementTier): Promise<Achievement[]> {
     return this.safeOperation(
       this.find({ where: { tier } }),
@@ -0,0 +1,85 @@
+import { DataSource, FindOptionsOrder, ILike } from 'typeorm';
+import { BaseRepository } from './BaseRepository';
+import { CommunityLevel } from '../models/CommunityLevel';
+
+export { CommunityLevel };
+
+/**
+ * How to order community levels when browsing.
+ */
+export type CommunityLevelOrder = 'newest' | 'top_rated' | 'popular';
+
+const ORDERS: Record<CommunityLevelOrder, FindOptionsOrder<CommunityLevel>> = {
+  newest: { createdAt: 'DESC' },
+  top_rated: {
+    averageRating: 'DESC',
+    ratingCount: 'DESC',
+    createdAt: 'DESC',
+  },
+  popular: { downloads: 'DESC', createdAt: 'DESC' },
+};
+
+export class CommunityLevelRepository extends BaseRepository<CommunityLevel> {
+  constructor(dataSource: DataSource) {
+    super(dataSource, CommunityLevel);
+  }
+
+  /**
+   * Finds a page of levels, without their maps.
+   * @param title - Text the title must contain, ignoring case.
+   * @returns The page and the number of matching levels.
+   */
+  async search(
+    title: string | undefined,
+    order: CommunityLevelOrder,
+    limit: number,
+    offset: number,
+  ): Promise<[CommunityLevel[], number]> {
+    return this.safeOperation(
+      this.findAndCount({
+        where: title ? { title: ILike(`%${escapeLike(title)}%`) } : {},
+        select: {
+          id: true,
+          authorId: true,
+          title: true,
+          description: true,
+          config: true,
+          width: true,
+          height: true,
+          ratingTotal: true,
+          ratingCount: true,
+          averageRating: true,
+          downloads: true,
+          createdAt: true,
+          author: { id: true, username: true },
+        },
+        order: ORDERS[order],
+        take: limit,
+        skip: offset,
+        relations: ['author'],
+      }),
+      `Failed to search community levels for "${title ?? ''}"`,
+    );
+  }
+
+  async findWithAuthor(id: string): Promise<CommunityLevel | null> {
+    return this.safeOperation(
+      this.findOne({ where: { id }, relations: ['author'] }),
+      `Failed to find community level ${id}`,
+    );
+  }
+
+  async incrementDownloads(id: string): Promise<void> {
+    await this.safeOperation(
+      this.increment({ id }, 'downloads', 1),
+      `Failed to count download of community level ${id}`,
+    );
+  }
+}
+
+/**
+ * Escapes the LIKE wildcards in text to match literally.
+ */
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
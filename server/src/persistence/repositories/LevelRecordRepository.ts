@@ -0,0 +1,66 @@
+import { DataSource, LessThan, MoreThan } from 'typeorm';
+import { BaseRepository } from './BaseRepository';
+import { LevelRecord } from '../models/LevelRecord';
+
+export { LevelRecord };
+
+export class LevelRecordRepository extends BaseRepository<LevelRecord> {
+  constructor(dataSource: DataSource) {
+    super(dataSource, LevelRecord);
+  }
+
+  async findByPlayerAndLevel(
+    playerId: string,
+    levelNumber: number,
+  ): Promise<LevelRecord | null> {
+    return this.safeOperation(
+      this.findOne({ where: { playerId, levelNumber } }),
+      `Failed to find level ${levelNumber} record for player ${playerId}`,
+    );
+  }
+
+  async findFastest(
+    levelNumber: number,
+    limit: number = 10,
+  ): Promise<LevelRecord[]> {
+    return this.safeOperation(
+      // Whoever set an equal time first stays ahead
+      this.find({
+        where: { levelNumber },
+        order: { bestTimeMs: 'ASC', bestTimeAt: 'ASC' },
+        take: limit,
+        relations: ['profile'],
+      }),
+      `Failed to find fastest times on level ${levelNumber}`,
+    );
+  }
+
+  async findHighestScoring(
+    levelNumber: number,
+    limit: number = 10,
+  ): Promise<LevelRecord[]> {
+    return this.safeOperation(
+      this.find({
+        where: { levelNumber },
+        order: { highScore: 'DESC', highScoreAt: 'ASC' },
+        take: limit,
+        relations: ['profile'],
+      }),
+      `Failed to find high scores on level ${levelNumber}`,
+    );
+  }
+
+  async countFasterThan(levelNumber: number, timeMs: number): Promise<number> {
+    return this.safeOperation(
+      this.count({ where: { levelNumber, bestTimeMs: LessThan(timeMs) } }),
+      `Failed to rank time on level ${levelNumber}`,
+    );
+  }
+
+  async countHigherThan(levelNumber: number, score: number): Promise<number> {
+    return this.safeOperation(
+      this.count({ where: { levelNumber, highScore: MoreThan(score) } }),
+      `Failed to rank score on level ${levelNumber}`,
+    );
+  }
+}
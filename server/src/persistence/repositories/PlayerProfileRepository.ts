@@ -14,6 +14,27 @@ export class PlayerProfileRepository extends BaseRepository<PlayerProfile> {
     );
   }
 
+  async findByUsernameWithPassword(
+    username: string,
+  ): Promise<PlayerProfile | null> {
+    return this.safeOperation(
+      this.createQueryBuilder('profile')
+        .addSelect('profile.passwordHash')
+        .where('profile.username = :username', { username })
+        .getOne(),
+      `Failed to find credentials for username: ${username}`,
+    );
+  }
+
+  async findGuestByDeviceTokenHash(
+    deviceTokenHash: string,
+  ): Promise<PlayerProfile | null> {
+    return this.safeOperation(
+      this.findOne({ where: { deviceTokenHash, isGuest: true } }),
+      'Failed to find guest profile by device token',
+    );
+  }
+
   async findByEmail(email: string): Promise<PlayerProfile | null> {
     return this.safeOperation(
       this.findOne({ where: { email } }),
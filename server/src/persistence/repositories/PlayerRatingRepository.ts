@@ -0,0 +1,44 @@
+import { DataSource, In, MoreThan } from 'typeorm';
+import { BaseRepository } from './BaseRepository';
+import { PlayerRating } from '../models/PlayerRating';
+
+export class PlayerRatingRepository extends BaseRepository<PlayerRating> {
+  constructor(dataSource: DataSource) {
+    super(dataSource, PlayerRating);
+  }
+
+  async findByPlayerAndMode(
+    playerId: string,
+    gameMode: string,
+  ): Promise<PlayerRating | null> {
+    return this.safeOperation(
+      this.findOne({ where: { playerId, gameMode } }),
+      `Failed to find rating for player ${playerId} in ${gameMode}`,
+    );
+  }
+
+  async findByPlayersAndMode(
+    playerIds: string[],
+    gameMode: string,
+  ): Promise<PlayerRating[]> {
+    return this.safeOperation(
+      this.find({ where: { playerId: In(playerIds), gameMode } }),
+      `Failed to find ratings in ${gameMode}`,
+    );
+  }
+
+  async findTopByRating(
+    gameMode: string,
+    limit: number = 10,
+  ): Promise<PlayerRating[]> {
+    return this.safeOperation(
+      this.find({
+        where: { gameMode, gamesPlayed: MoreThan(0) },
+        order: { rating: 'DESC' },
+        take: limit,
+        relations: ['profile'],
+      }),
+      `Failed to find top players by rating in ${gameMode}`,
+    );
+  }
+}
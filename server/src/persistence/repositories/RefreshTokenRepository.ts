@@ -0,0 +1,30 @@
+import { DataSource, IsNull } from 'typeorm';
+import { BaseRepository } from './BaseRepository';
+import { RefreshToken } from '../models/RefreshToken';
+
+export class RefreshTokenRepository extends BaseRepository<RefreshToken> {
+  constructor(dataSource: DataSource) {
+    super(dataSource, RefreshToken);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    return this.safeOperation(
+      this.findOne({ where: { tokenHash } }),
+      'Failed to find refresh token',
+    );
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.safeOperation(
+      this.update({ familyId, revokedAt: IsNull() }, { revokedAt: new Date() }),
+      `Failed to revoke refresh token family ${familyId}`,
+    );
+  }
+
+  async revokeAllForPlayer(playerId: string): Promise<void> {
+    await this.safeOperation(
+      this.update({ playerId, revokedAt: IsNull() }, { revokedAt: new Date() }),
+      `Failed to revoke refresh tokens for player ${playerId}`,
+    );
+  }
+}
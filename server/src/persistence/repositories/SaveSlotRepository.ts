@@ -0,0 +1,28 @@
+import { DataSource } from 'typeorm';
+import { BaseRepository } from './BaseRepository';
+import { SaveSlot } from '../models/SaveSlot';
+
+export { SaveSlot };
+
+export class SaveSlotRepository extends BaseRepository<SaveSlot> {
+  constructor(dataSource: DataSource) {
+    super(dataSource, SaveSlot);
+  }
+
+  async findByPlayer(playerId: string): Promise<SaveSlot[]> {
+    return this.safeOperation(
+      this.find({ where: { playerId }, order: { slot: 'ASC' } }),
+      `Failed to find save slots for player ${playerId}`,
+    );
+  }
+
+  async findByPlayerAndSlot(
+    playerId: string,
+    slot: string,
+  ): Promise<SaveSlot | null> {
+    return this.safeOperation(
+      this.findOne({ where: { playerId, slot } }),
+      `Failed to find save slot ${slot} for player ${playerId}`,
+    );
+  }
+}
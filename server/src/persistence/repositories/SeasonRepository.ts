@@ -0,0 +1,46 @@
+import { DataSource, IsNull } from 'typeorm';
+import { BaseRepository } from './BaseRepository';
+import { Season } from '../models/Season';
+import { SeasonStanding } from '../models/SeasonStanding';
+
+export { Season, SeasonStanding };
+
+export class SeasonRepository extends BaseRepository<Season> {
+  constructor(dataSource: DataSource) {
+    super(dataSource, Season);
+  }
+
+  async findCurrent(): Promise<Season | null> {
+    return this.safeOperation(
+      this.findOne({
+        where: { archivedAt: IsNull() },
+        order: { startsAt: 'DESC' },
+      }),
+      'Failed to find current season',
+    );
+  }
+
+  async findRecent(limit: number = 10): Promise<Season[]> {
+    return this.safeOperation(
+      this.find({ order: { startsAt: 'DESC' }, take: limit }),
+      'Failed to find recent seasons',
+    );
+  }
+
+  async findStandings(
+    seasonId: number,
+    limit: number = 10,
+    offset: number = 0,
+  ): Promise<SeasonStanding[]> {
+    return this.safeOperation(
+      this.manager.find(SeasonStanding, {
+        where: { seasonId },
+        order: { rank: 'ASC' },
+        skip: offset,
+        take: limit,
+        relations: ['profile'],
+      }),
+      `Failed to find standings for season ${seasonId}`,
+    );
+  }
+}
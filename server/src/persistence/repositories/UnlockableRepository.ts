@@ -1,4 +1,4 @@
-import { DataSource } from 'typeorm';
+import { Between, DataSource, IsNull } from 'typeorm';
 import { BaseRepository } from './BaseRepository';
 import { Unlockable, UnlockableType } from '../models/Unlockable';
 
@@ -9,6 +9,13 @@ export class UnlockableRepository extends BaseRepository<Unlockable> {
     super(dataSource, Unlockable);
   }
 
+  async findByCode(code: string): Promise<Unlockable | null> {
+    return this.safeOperation(
+      this.findOne({ where: { code } }),
+      `Failed to find unlockable by code: ${code}`,
+    );
+  }
+
   async findByType(type: UnlockableType): Promise<Unlockable[]> {
     return this.safeOperation(
       this.find({ where: { type } }),
@@ -27,11 +34,29 @@ export class UnlockableRepository extends BaseRepository<Unlockable> {
     maxLevel: number,
   ): Promise<Unlockable[]> {
     return this.safeOperation(
-      this.find({ where: { requiredLevel: maxLevel } }),
+      // Retired unlockables are no longer handed out
+      this.find({ where: { requiredLevel: maxLevel, retiredAt: IsNull() } }),
       'Failed to find unlockables by required level',
     );
   }
 
+  async findUnlockablesForLevels(
+    fromLevel: number,
+    toLevel: number,
+  ): Promise<Unlockable[]> {
+    return this.safeOperation(
+      // Ones that also need an achievement come with that achievement
+      this.find({
+        where: {
+          requiredLevel: Between(fromLevel, toLevel),
+          requiredAchievementId: IsNull(),
+          retiredAt: IsNull(),
+        },
+      }),
+      `Failed to find unlockables for levels ${fromLevel}-${toLevel}`,
+    );
+  }
+
   async findUnlockablesByAchievement(
     achievementId: string,
   ): Promise<Unlockable[]> {
@@ -0,0 +1,144 @@
+import { AchievementRepository } from '../persistence/repositories/AchievementRepository';
+import { Achievement } from '../persistence/models/Achievement';
+import { AchievementUnlockedEvent } from '../network/events/eventTypes';
+import {
+  GAMEPLAY_EVENT_TYPES,
+  GameplayEvent,
+  GameplayEventType,
+} from '../types/gameplay';
+import { ProgressionService } from './ProgressionService';
+import { logger } from '../utils/logger';
+
+/**
+ * How long loaded achievements are used before being read again, so
+ * catalogue changes made through the admin API are picked up.
+ */
+const RULES_TTL_MS = 60 * 1000;
+
+/**
+ * Rule engine that turns gameplay events into achievement progress.
+ * Each achievement names the event it counts in `metadata.event`, e.g.
+ * `{ "event": "kill" }`. Combo achievements track the longest combo, all
+ * others a running total of the event's amount.
+ */
+export class AchievementService {
+  private rules: Promise<Map<GameplayEventType, Achievement[]>> | null = null;
+  private rulesLoadedAt: number = 0;
+  private playerQueues: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Creates a new AchievementService instance.
+   * @param achievementRepo - Repository for achievement definitions.
+   * @param progressionService - Service that records progress and grants rewards.
+   */
+  constructor(
+    private achievementRepo: AchievementRepository,
+    private progressionService: ProgressionService,
+  ) {}
+
+  /**
+   * Counts a gameplay event towards every achievement that tracks it.
+   * Events for the same player are applied one after another so their
+   * progress updates never overwrite each other. Socket-only guests have no
+   * profile and are ignored.
+   * @param event - The gameplay event.
+   * @returns Promise resolving to the achievements the event completed.
+   */
+  async handleEvent(event: GameplayEvent): Promise<Achievement[]> {
+    const { playerId } = event;
+    if (playerId.startsWith('guest_') || !(event.amount > 0)) {
+      return [];
+    }
+
+    const previous = this.playerQueues.get(playerId) ?? Promise.resolve();
+    const result = previous.then(() => this.applyEvent(event));
+    const done = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    this.playerQueues.set(playerId, done);
+    done.then(() => {
+      if (this.playerQueues.get(playerId) === done) {
+        this.playerQueues.delete(playerId);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Forgets the loaded rules so the next event reads the achievements again.
+   */
+  invalidateRules(): void {
+    this.rules = null;
+  }
+
+  /**
+   * Builds the payload that tells a player they completed an achievement.
+   * @param achievement - The completed achievement.
+   */
+  toUnlockedEvent(achievement: Achievement): AchievementUnlockedEvent {
+    return {
+      achievementId: achievement.id,
+      code: achievement.code,
+      name: achievement.name,
+      description: achievement.description,
+      tier: achievement.tier,
+      rewardCoins: achievement.rewardCoins,
+      rewardUnlockableId: achievement.rewardUnlockableId,
+    };
+  }
+
+  /**
+   * Advances the achievements that track an event.
+   * @param event - The gameplay event.
+   */
+  private async applyEvent(event: GameplayEvent): Promise<Achievement[]> {
+    const rules = await this.getRules();
+    const achievements = rules.get(event.type);
+    if (!achievements || achievements.length === 0) {
+      return [];
+    }
+    return this.progressionService.advanceAchievements(
+      event.playerId,
+      achievements,
+      event.amount,
+      event.type === 'combo',
+    );
+  }
+
+  /**
+   * Loads the achievements, grouped by the event they track, at most once
+   * per `RULES_TTL_MS`. A failed load is retried on the next event.
+   */
+  private getRules(): Promise<Map<GameplayEventType, Achievement[]>> {
+    if (!this.rules || Date.now() - this.rulesLoadedAt > RULES_TTL_MS) {
+      this.rulesLoadedAt = Date.now();
+      this.rules = this.loadRules().catch((error) => {
+        this.rules = null;
+        throw error;
+      });
+    }
+    return this.rules;
+  }
+
+  /**
+   * Reads the achievements in use and groups them by the event they track.
+   */
+  private async loadRules(): Promise<Map<GameplayEventType, Achievement[]>> {
+    const achievements = await this.achievementRepo.findActive();
+    const rules = new Map<GameplayEventType, Achievement[]>();
+    for (const achievement of achievements) {
+      const type = achievement.metadata?.event;
+      if (!GAMEPLAY_EVENT_TYPES.includes(type)) {
+        logger.debug(
+          `Achievement ${achievement.code} tracks no gameplay event`,
+        );
+        continue;
+      }
+      const list = rules.get(type) ?? [];
+      list.push(achievement);
+      rules.set(type, list);
+    }
+    return rules;
+  }
+}
@@ -0,0 +1,501 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { DataSource, IsNull } from 'typeorm';
+import { PlayerProfileRepository } from '../persistence/repositories/PlayerProfileRepository';
+import { RefreshTokenRepository } from '../persistence/repositories/RefreshTokenRepository';
+import { PlayerProfile, PlayerRole } from '../persistence/models/PlayerProfile';
+import { PlayerStats } from '../persistence/models/PlayerStats';
+import { RefreshToken } from '../persistence/models/RefreshToken';
+import { isUniqueViolation } from '../utils/dbErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * Claims carried by an access token. Sockets and HTTP routes both identify
+ * the player by `playerId`.
+ */
+export interface AccessTokenClaims {
+  playerId: string;
+  /** Missing on tokens issued before roles existed; treat as 'player'. */
+  role?: PlayerRole;
+  /** Whether the token was issued to a guest account. */
+  isGuest?: boolean;
+}
+
+/**
+ * Tokens handed to a client after it signs in.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  /** Access token lifetime in seconds. */
+  expiresIn: number;
+  refreshToken: string;
+}
+
+/**
+ * Result of a successful registration, login or refresh.
+ */
+export interface AuthResult extends AuthTokens {
+  player: { id: string; username: string; isGuest: boolean };
+}
+
+/**
+ * Result of a guest sign-in. The device token is the guest's only
+ * credential, so the client must keep it to get back into the profile.
+ */
+export interface GuestAuthResult extends AuthResult {
+  deviceToken: string;
+}
+
+/**
+ * Tuning for the authentication service.
+ */
+export interface AuthConfig {
+  /** Secret used to sign access tokens; defaults to `JWT_SECRET`. */
+  jwtSecret?: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlMs: number;
+  /** Failed logins in a row that lock the account. */
+  maxFailedLogins: number;
+  lockoutMs: number;
+  bcryptRounds: number;
+}
+
+/**
+ * Defaults: 15-minute access tokens, 30-day refresh tokens, and a 15-minute
+ * lockout after 5 failed logins.
+ */
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  accessTokenTtlSeconds: 15 * 60,
+  refreshTokenTtlMs: 30 * 24 * 60 * 60 * 1000,
+  maxFailedLogins: 5,
+  lockoutMs: 15 * 60 * 1000,
+  bcryptRounds: 12,
+};
+
+/**
+ * An authentication failure the client should be told about.
+ */
+export class AuthError extends Error {
+  /**
+   * @param status - HTTP status to answer with.
+   * @param retryAfterSeconds - When a locked account can try again.
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfterSeconds?: number,
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Service for player accounts: registration, password login, anonymous
+ * guest profiles, and access/refresh token issuing.
+ * Refresh tokens are single use; every refresh rotates to a new token, and
+ * reusing an old one revokes every token descended from the same login.
+ */
+export class AuthService {
+  private config: AuthConfig;
+  /** Hash checked for unknown usernames; created on first use. */
+  private dummyPasswordHash?: Promise<string>;
+
+  /**
+   * Creates a new AuthService instance.
+   * @param dataSource - The TypeORM data source for database transactions.
+   * @param profileRepo - Repository for player profiles.
+   * @param refreshTokenRepo - Repository for issued refresh tokens.
+   * @param config - Overrides for the default token and lockout settings.
+   */
+  constructor(
+    private dataSource: DataSource,
+    private profileRepo: PlayerProfileRepository,
+    private refreshTokenRepo: RefreshTokenRepository,
+    config: Partial<AuthConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_AUTH_CONFIG, ...config };
+  }
+
+  /**
+   * Creates an account and signs it in.
+   * @param username - The unique display name.
+   * @param password - The plain-text password; only its hash is stored.
+   * @param email - Optional unique email address.
+   * @throws AuthError (409) if the username or email is taken.
+   */
+  async register(
+    username: string,
+    password: string,
+    email?: string | null,
+  ): Promise<AuthResult> {
+    if (await this.profileRepo.findByUsername(username)) {
+      throw new AuthError('Username already taken', 409);
+    }
+    if (email && (await this.profileRepo.findByEmail(email))) {
+      throw new AuthError('Email already registered', 409);
+    }
+
+    const passwordHash = await bcrypt.hash(password, this.config.bcryptRounds);
+    let profile: PlayerProfile;
+    try {
+      profile = await this.createProfile({
+        username,
+        email: email || null,
+        passwordHash,
+      });
+    } catch (error) {
+      this.rejectTakenIdentity(error);
+    }
+
+    logger.info(`Registered player ${profile.id} (${username})`);
+    return this.signIn(profile);
+  }
+
+  /**
+   * Signs in to an anonymous guest profile. A known device token returns
+   * to its profile; otherwise a new profile and device token are created.
+   * @param deviceToken - The token from an earlier guest sign-in, if any.
+   */
+  async signInGuest(deviceToken?: string): Promise<GuestAuthResult> {
+    if (deviceToken) {
+      const existing = await this.profileRepo.findGuestByDeviceTokenHash(
+        this.hashToken(deviceToken),
+      );
+      if (existing) {
+        await this.profileRepo.update(existing.id, { lastLogin: new Date() });
+        return { ...(await this.signIn(existing)), deviceToken };
+      }
+    }
+
+    const newDeviceToken = this.generateToken();
+    const profile = await this.createProfile({
+      username: `guest_${crypto.randomBytes(6).toString('hex')}`,
+      isGuest: true,
+      deviceTokenHash: this.hashToken(newDeviceToken),
+    });
+
+    logger.info(`Created guest player ${profile.id}`);
+    return { ...(await this.signIn(profile)), deviceToken: newDeviceToken };
+  }
+
+  /**
+   * Turns a guest profile into a registered account. The profile keeps its
+   * id, so stats, unlocks, inventory and achievements carry over. The device
+   * token stops working and the guest's sessions are signed out.
+   * @param deviceToken - The guest's device token.
+   * @throws AuthError (401) for unknown device tokens, (409) if the username or email is taken.
+   */
+  async upgradeGuest(
+    deviceToken: string,
+    username: string,
+    password: string,
+    email?: string | null,
+  ): Promise<AuthResult> {
+    const profile = await this.profileRepo.findGuestByDeviceTokenHash(
+      this.hashToken(deviceToken),
+    );
+    if (!profile) {
+      throw new AuthError('Invalid device token', 401);
+    }
+    if (await this.profileRepo.findByUsername(username)) {
+      throw new AuthError('Username already taken', 409);
+    }
+    if (email && (await this.profileRepo.findByEmail(email))) {
+      throw new AuthError('Email already registered', 409);
+    }
+
+    const passwordHash = await bcrypt.hash(password, this.config.bcryptRounds);
+    try {
+      await this.profileRepo.update(profile.id, {
+        username,
+        email: email || null,
+        passwordHash,
+        isGuest: false,
+        deviceTokenHash: null,
+        lastLogin: new Date(),
+      });
+    } catch (error) {
+      this.rejectTakenIdentity(error);
+    }
+    await this.refreshTokenRepo.revokeAllForPlayer(profile.id);
+
+    logger.info(`Upgraded guest ${profile.id} to account ${username}`);
+    return this.signIn({ ...profile, username, isGuest: false });
+  }
+
+  /**
+   * Signs in with a username and password.
+   * @throws AuthError (401) for wrong credentials, (423) while locked out.
+   */
+  async login(username: string, password: string): Promise<AuthResult> {
+    const profile = await this.profileRepo.findByUsernameWithPassword(username);
+    if (!profile || !profile.passwordHash) {
+      // Do the same bcrypt work as for a real account, so response times do
+      // not reveal which usernames exist
+      await bcrypt.compare(password, await this.getDummyPasswordHash());
+      throw new AuthError('Invalid username or password', 401);
+    }
+
+    const now = Date.now();
+    if (profile.lockedUntil && profile.lockedUntil.getTime() > now) {
+      throw new AuthError(
+        'Account temporarily locked',
+        423,
+        Math.ceil((profile.lockedUntil.getTime() - now) / 1000),
+      );
+    }
+
+    if (!(await bcrypt.compare(password, profile.passwordHash))) {
+      await this.recordFailedLogin(profile, now);
+      throw new AuthError('Invalid username or password', 401);
+    }
+
+    await this.profileRepo.update(profile.id, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      lastLogin: new Date(now),
+    });
+    return this.signIn(profile);
+  }
+
+  /**
+   * Trades a refresh token for a new access token and refresh token.
+   * @throws AuthError (401) if the token is unknown, expired or already used.
+   */
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const stored = await this.refreshTokenRepo.findByTokenHash(
+      this.hashToken(refreshToken),
+    );
+    if (!stored) {
+      throw new AuthError('Invalid refresh token', 401);
+    }
+    if (stored.revokedAt) {
+      await this.rejectReusedToken(stored);
+    }
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new AuthError('Refresh token expired', 401);
+    }
+
+    const profile = await this.profileRepo.findOne({
+      where: { id: stored.playerId },
+    });
+    if (!profile) {
+      throw new AuthError('Invalid refresh token', 401);
+    }
+
+    const next = this.createRefreshToken(profile.id, stored.familyId);
+    const rotated = await this.dataSource.transaction(async (manager) => {
+      // Of several refreshes racing with the same token, only the one that
+      // revokes it gets a new token
+      const { affected } = await manager.update(
+        RefreshToken,
+        { id: stored.id, revokedAt: IsNull() },
+        { revokedAt: new Date() },
+      );
+      if (!affected) return false;
+      await manager.save(next.record);
+      return true;
+    });
+    if (!rotated) {
+      await this.rejectReusedToken(stored);
+    }
+
+    return {
+      ...this.createAccessToken(profile),
+      refreshToken: next.token,
+      player: {
+        id: profile.id,
+        username: profile.username,
+        isGuest: !!profile.isGuest,
+      },
+    };
+  }
+
+  /**
+   * Answers a refresh token that was already rotated or logged out: someone
+   * else holds it, so every token rotated from the same login is revoked.
+   * @throws AuthError (401) always.
+   */
+  private async rejectReusedToken(stored: RefreshToken): Promise<never> {
+    await this.refreshTokenRepo.revokeFamily(stored.familyId);
+    logger.warn(
+      `Refresh token reused for player ${stored.playerId}; revoked its family`,
+    );
+    throw new AuthError('Invalid refresh token', 401);
+  }
+
+  /**
+   * Revokes a refresh token and every token rotated from the same login.
+   * Unknown tokens are ignored.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepo.findByTokenHash(
+      this.hashToken(refreshToken),
+    );
+    if (stored) {
+      await this.refreshTokenRepo.revokeFamily(stored.familyId);
+    }
+  }
+
+  /**
+   * Creates a profile and its stats together.
+   * @param fields - The profile's initial values.
+   */
+  private async createProfile(
+    fields: Partial<PlayerProfile>,
+  ): Promise<PlayerProfile> {
+    return this.dataSource.transaction(async (manager) => {
+      const created = await manager.save(
+        manager.create(PlayerProfile, { ...fields, lastLogin: new Date() }),
+      );
+      await manager.save(manager.create(PlayerStats, { playerId: created.id }));
+      return created;
+    });
+  }
+
+  /**
+   * Turns a unique violation from a request that raced another to the same
+   * username or email into the 409 the up-front checks would have given.
+   * @param error - Whatever saving the profile threw; rethrown if unrelated.
+   */
+  private rejectTakenIdentity(error: unknown): never {
+    if (!isUniqueViolation(error)) throw error;
+    throw error.detail?.includes('(email)')
+      ? new AuthError('Email already registered', 409)
+      : new AuthError('Username already taken', 409);
+  }
+
+  /**
+   * Issues tokens for a fresh login, starting a new refresh token family.
+   * @param profile - The player signing in.
+   */
+  private async signIn(
+    profile: Pick<PlayerProfile, 'id' | 'username' | 'isGuest' | 'role'>,
+  ): Promise<AuthResult> {
+    const { token, record } = this.createRefreshToken(
+      profile.id,
+      crypto.randomUUID(),
+    );
+    await this.refreshTokenRepo.save(record);
+    return {
+      ...this.createAccessToken(profile),
+      refreshToken: token,
+      player: {
+        id: profile.id,
+        username: profile.username,
+        isGuest: !!profile.isGuest,
+      },
+    };
+  }
+
+  /**
+   * Counts a failed login, locking the account once too many pile up. The
+   * row stays locked from read to write, so concurrent failures each count.
+   * @param profile - The player whose password was wrong.
+   * @param now - Current time in milliseconds.
+   */
+  private async recordFailedLogin(
+    profile: PlayerProfile,
+    now: number,
+  ): Promise<void> {
+    await this.dataSource.transaction(async (manager) => {
+      const current = await manager.findOne(PlayerProfile, {
+        where: { id: profile.id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!current) return;
+
+      const attempts = (current.failedLoginAttempts || 0) + 1;
+      if (attempts >= this.config.maxFailedLogins) {
+        await manager.update(PlayerProfile, profile.id, {
+          failedLoginAttempts: 0,
+          lockedUntil: new Date(now + this.config.lockoutMs),
+        });
+        logger.warn(
+          `Locked account ${profile.id} after ${attempts} failed logins`,
+        );
+        return;
+      }
+      await manager.update(PlayerProfile, profile.id, {
+        failedLoginAttempts: attempts,
+      });
+    });
+  }
+
+  /**
+   * Signs a short-lived access token.
+   * @param profile - The player the token identifies; its role decides what
+   * the player may do through the API.
+   * @throws Error if no signing secret is configured.
+   */
+  private createAccessToken(
+    profile: Pick<PlayerProfile, 'id' | 'isGuest' | 'role'>,
+  ): Pick<AuthTokens, 'accessToken' | 'expiresIn'> {
+    const secret = this.config.jwtSecret || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('JWT_SECRET environment variable not set');
+    }
+    const claims: AccessTokenClaims = {
+      playerId: profile.id,
+      role: profile.role ?? 'player',
+      isGuest: !!profile.isGuest,
+    };
+    return {
+      accessToken: jwt.sign(claims, secret, {
+        expiresIn: this.config.accessTokenTtlSeconds,
+      }),
+      expiresIn: this.config.accessTokenTtlSeconds,
+    };
+  }
+
+  /**
+   * Generates a random refresh token and the record that stores its hash.
+   * @param playerId - The player the token belongs to.
+   * @param familyId - The login the token descends from.
+   */
+  private createRefreshToken(
+    playerId: string,
+    familyId: string,
+  ): { token: string; record: RefreshToken } {
+    const token = this.generateToken();
+    const record = this.refreshTokenRepo.create({
+      playerId,
+      familyId,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(Date.now() + this.config.refreshTokenTtlMs),
+      revokedAt: null,
+    });
+    return { token, record };
+  }
+
+  /**
+   * A hash of a random password at the configured cost, for logins with an
+   * unknown username to compare against.
+   */
+  private getDummyPasswordHash(): Promise<string> {
+    if (!this.dummyPasswordHash) {
+      this.dummyPasswordHash = bcrypt.hash(
+        this.generateToken(),
+        this.config.bcryptRounds,
+      );
+    }
+    return this.dummyPasswordHash;
+  }
+
+  /**
+   * A random opaque token for refresh and device tokens.
+   */
+  private generateToken(): string {
+    return crypto.randomBytes(48).toString('base64url');
+  }
+
+  /**
+   * Refresh and device tokens are random, so a plain SHA-256 is enough to
+   * store them.
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,718 @@
+import fs from 'fs';
+import path from 'path';
+import { DataSource, EntityManager } from 'typeorm';
+import { AchievementRepository } from '../persistence/repositories/AchievementRepository';
+import { UnlockableRepository } from '../persistence/repositories/UnlockableRepository';
+import {
+  Achievement,
+  AchievementTier,
+} from '../persistence/models/Achievement';
+import { Unlockable, UnlockableType } from '../persistence/models/Unlockable';
+import { GAMEPLAY_EVENT_TYPES, GameplayEventType } from '../types/gameplay';
+import { logger } from '../utils/logger';
+import { getServerRoot } from '../utils/paths';
+
+/**
+ * An unlockable as written in the catalogue or sent to the admin API.
+ * References to other entries use their codes.
+ */
+export interface UnlockableDefinition {
+  code: string;
+  name: string;
+  description?: string | null;
+  type?: UnlockableType;
+  requiredLevel?: number;
+  /** Code of the achievement that unlocks it. */
+  requiredAchievement?: string | null;
+  isSecret?: boolean;
+  metadata?: Record<string, any> | null;
+  retired?: boolean;
+}
+
+/**
+ * An achievement as written in the catalogue or sent to the admin API.
+ */
+export interface AchievementDefinition {
+  code: string;
+  name: string;
+  description?: string | null;
+  tier?: AchievementTier;
+  /** Gameplay event the achievement counts; stored as `metadata.event`. */
+  event?: GameplayEventType | null;
+  requiredValue?: number;
+  rewardCoins?: number;
+  /** Code of the unlockable granted on completion. */
+  rewardUnlockable?: string | null;
+  metadata?: Record<string, any> | null;
+  retired?: boolean;
+}
+
+/**
+ * Contents of the catalogue file.
+ */
+export interface Catalogue {
+  unlockables: UnlockableDefinition[];
+  achievements: AchievementDefinition[];
+}
+
+/**
+ * Counts of catalogue entries written by a sync.
+ */
+export interface CatalogueSyncResult {
+  unlockables: number;
+  achievements: number;
+}
+
+/**
+ * A catalogue entry or request that cannot be applied.
+ */
+export class CatalogueError extends Error {
+  /**
+   * @param status - HTTP status to answer with.
+   * @param details - Every problem found, for designers fixing a file.
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'CatalogueError';
+  }
+}
+
+/**
+ * Default location of the catalogue file; override with `CATALOGUE_PATH`.
+ */
+export function getCataloguePath(): string {
+  return (
+    process.env.CATALOGUE_PATH ||
+    path.join(getServerRoot(), 'data/catalogue.json')
+  );
+}
+
+const CODE_PATTERN = /^[A-Za-z0-9_.-]{1,100}$/;
+
+const UNLOCKABLE_FIELDS = [
+  'code',
+  'name',
+  'description',
+  'type',
+  'requiredLevel',
+  'requiredAchievement',
+  'isSecret',
+  'metadata',
+  'retired',
+];
+
+const ACHIEVEMENT_FIELDS = [
+  'code',
+  'name',
+  'description',
+  'tier',
+  'event',
+  'requiredValue',
+  'rewardCoins',
+  'rewardUnlockable',
+  'metadata',
+  'retired',
+];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown, min: number): boolean =>
+  Number.isInteger(value) && (value as number) >= min;
+
+const isOptionalText = (value: unknown): boolean =>
+  value === null || (typeof value === 'string' && value.length <= 2000);
+
+const isOptionalCode = (value: unknown): boolean =>
+  value === null || (typeof value === 'string' && CODE_PATTERN.test(value));
+
+/**
+ * Checks the fields shared by both kinds of entry.
+ * With `partial`, only the fields present are checked and `code` may not
+ * be changed.
+ */
+function validateCommonFields(
+  value: Record<string, any>,
+  allowed: string[],
+  partial: boolean,
+): string[] {
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      errors.push(`unknown field "${key}"`);
+    }
+  }
+  if (partial) {
+    if ('code' in value) errors.push('code cannot be changed');
+  } else if (typeof value.code !== 'string' || !CODE_PATTERN.test(value.code)) {
+    errors.push('code must be 1-100 letters, digits, "_", "." or "-"');
+  }
+  if (
+    (!partial || 'name' in value) &&
+    (typeof value.name !== 'string' ||
+      value.name.trim() === '' ||
+      value.name.length > 255)
+  ) {
+    errors.push('name must be a non-empty string of at most 255 characters');
+  }
+  if ('description' in value && !isOptionalText(value.description)) {
+    errors.push('description must be a string or null');
+  }
+  if (
+    'metadata' in value &&
+    value.metadata !== null &&
+    !isPlainObject(value.metadata)
+  ) {
+    errors.push('metadata must be an object or null');
+  }
+  if ('retired' in value && typeof value.retired !== 'boolean') {
+    errors.push('retired must be true or false');
+  }
+  return errors;
+}
+
+/**
+ * Lists the problems with an unlockable definition.
+ * @param value - The definition to check.
+ * @param partial - Whether it is an update carrying only changed fields.
+ * @returns Every problem found; empty when the definition is valid.
+ */
+export function validateUnlockableDefinition(
+  value: unknown,
+  partial: boolean = false,
+): string[] {
+  if (!isPlainObject(value)) return ['unlockable must be an object'];
+  const errors = validateCommonFields(value, UNLOCKABLE_FIELDS, partial);
+  const types = Object.values(UnlockableType) as string[];
+  if ('type' in value && !types.includes(value.type)) {
+    errors.push(`type must be one of ${types.join(', ')}`);
+  }
+  if ('requiredLevel' in value && !isInteger(value.requiredLevel, 1)) {
+    errors.push('requiredLevel must be a whole number of at least 1');
+  }
+  if (
+    'requiredAchievement' in value &&
+    !isOptionalCode(value.requiredAchievement)
+  ) {
+    errors.push('requiredAchievement must be an achievement code or null');
+  }
+  if ('isSecret' in value && typeof value.isSecret !== 'boolean') {
+    errors.push('isSecret must be true or false');
+  }
+  return errors;
+}
+
+/**
+ * Lists the problems with an achievement definition.
+ * @param value - The definition to check.
+ * @param partial - Whether it is an update carrying only changed fields.
+ * @returns Every problem found; empty when the definition is valid.
+ */
+export function validateAchievementDefinition(
+  value: unknown,
+  partial: boolean = false,
+): string[] {
+  if (!isPlainObject(value)) return ['achievement must be an object'];
+  const errors = validateCommonFields(value, ACHIEVEMENT_FIELDS, partial);
+  const tiers = Object.values(AchievementTier) as string[];
+  if ('tier' in value && !tiers.includes(value.tier)) {
+    errors.push(`tier must be one of ${tiers.join(', ')}`);
+  }
+  // Counting an event nothing reports would make the achievement unearnable
+  if (
+    'event' in value &&
+    value.event !== null &&
+    !GAMEPLAY_EVENT_TYPES.includes(value.event)
+  ) {
+    errors.push(
+      `event must be one the server reports: ${GAMEPLAY_EVENT_TYPES.join(', ')}`,
+    );
+  }
+  if ('requiredValue' in value && !isInteger(value.requiredValue, 1)) {
+    errors.push('requiredValue must be a whole number of at least 1');
+  }
+  if ('rewardCoins' in value && !isInteger(value.rewardCoins, 0)) {
+    errors.push('rewardCoins must be a whole number of at least 0');
+  }
+  if ('rewardUnlockable' in value && !isOptionalCode(value.rewardUnlockable)) {
+    errors.push('rewardUnlockable must be an unlockable code or null');
+  }
+  return errors;
+}
+
+/**
+ * Fills in the fields a new or synced unlockable leaves out, so a catalogue
+ * entry always describes the whole row.
+ */
+function withUnlockableDefaults(
+  definition: UnlockableDefinition,
+): Required<UnlockableDefinition> {
+  return {
+    description: null,
+    type: UnlockableType.OTHER,
+    requiredLevel: 1,
+    requiredAchievement: null,
+    isSecret: false,
+    metadata: null,
+    retired: false,
+    ...definition,
+  };
+}
+
+/**
+ * Fills in the fields a new or synced achievement leaves out.
+ */
+function withAchievementDefaults(
+  definition: AchievementDefinition,
+): Required<AchievementDefinition> {
+  return {
+    description: null,
+    tier: AchievementTier.BRONZE,
+    event: null,
+    requiredValue: 1,
+    rewardCoins: 0,
+    rewardUnlockable: null,
+    metadata: null,
+    retired: false,
+    ...definition,
+  };
+}
+
+/**
+ * Checks a parsed catalogue file, collecting every problem before failing.
+ * @param data - The parsed JSON.
+ * @returns The catalogue, typed.
+ * @throws CatalogueError listing every problem found.
+ */
+export function parseCatalogue(data: unknown): Catalogue {
+  if (!isPlainObject(data)) {
+    throw new CatalogueError('Invalid catalogue', 400, [
+      'catalogue must be an object',
+    ]);
+  }
+  const unlockables = data.unlockables ?? [];
+  const achievements = data.achievements ?? [];
+  const errors: string[] = [];
+  for (const key of Object.keys(data)) {
+    if (key !== 'unlockables' && key !== 'achievements') {
+      errors.push(`unknown section "${key}"`);
+    }
+  }
+
+  const checkSection = (
+    name: string,
+    entries: unknown,
+    validate: (value: unknown) => string[],
+  ) => {
+    if (!Array.isArray(entries)) {
+      errors.push(`${name} must be a list`);
+      return;
+    }
+    const codes = new Set<string>();
+    entries.forEach((entry, index) => {
+      const label = `${name}[${index}]${entry?.code ? ` (${entry.code})` : ''}`;
+      validate(entry).forEach((error) => errors.push(`${label}: ${error}`));
+      if (typeof entry?.code === 'string') {
+        if (codes.has(entry.code)) {
+          errors.push(`${label}: duplicate code`);
+        }
+        codes.add(entry.code);
+      }
+    });
+  };
+  checkSection('unlockables', unlockables, (entry) =>
+    validateUnlockableDefinition(entry),
+  );
+  checkSection('achievements', achievements, (entry) =>
+    validateAchievementDefinition(entry),
+  );
+
+  if (errors.length > 0) {
+    throw new CatalogueError('Invalid catalogue', 400, errors);
+  }
+  return { unlockables, achievements };
+}
+
+/**
+ * Service for the achievement and unlockable catalogue.
+ * Entries are identified by their codes, both in the catalogue file synced
+ * on startup and in the admin API.
+ */
+export class CatalogueService {
+  /**
+   * Creates a new CatalogueService instance.
+   * @param dataSource - The TypeORM data source for database transactions.
+   * @param achievementRepo - Repository for achievements.
+   * @param unlockableRepo - Repository for unlockables.
+   */
+  constructor(
+    private dataSource: DataSource,
+    private achievementRepo: AchievementRepository,
+    private unlockableRepo: UnlockableRepository,
+  ) {}
+
+  /**
+   * Reads and validates a catalogue file.
+   * @param filePath - Path of the JSON file.
+   * @returns Promise resolving to the catalogue, or null if there is no file.
+   * @throws CatalogueError if the file is not valid JSON or not a valid catalogue.
+   */
+  async loadFile(filePath: string): Promise<Catalogue | null> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.warn(`No catalogue at ${filePath}`);
+        return null;
+      }
+      throw error;
+    }
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error: any) {
+      throw new CatalogueError('Invalid catalogue', 400, [
+        `${filePath} is not valid JSON: ${error.message}`,
+      ]);
+    }
+    return parseCatalogue(data);
+  }
+
+  /**
+   * Writes every catalogue entry to the database in one transaction.
+   * Entries are matched by code and overwritten with what the catalogue
+   * says, so syncing the same catalogue again changes nothing. Entries
+   * missing from the catalogue, e.g. ones added through the admin API, are
+   * left alone.
+   * @param catalogue - A validated catalogue.
+   * @returns Promise resolving to how many entries were synced.
+   * @throws CatalogueError if an entry refers to a code that does not exist.
+   */
+  async sync(catalogue: Catalogue): Promise<CatalogueSyncResult> {
+    await this.dataSource.transaction(async (manager) => {
+      // Unlockables first so achievements can reward them; their own
+      // achievement requirements are filled in once achievements exist
+      const unlockables: Unlockable[] = [];
+      for (const definition of catalogue.unlockables) {
+        const unlockable =
+          (await manager.findOne(Unlockable, {
+            where: { code: definition.code },
+          })) ?? manager.create(Unlockable, { code: definition.code });
+        this.assignUnlockable(
+          unlockable,
+          withUnlockableDefaults(definition),
+          unlockable.requiredAchievementId,
+        );
+        unlockables.push(await manager.save(unlockable));
+      }
+      for (const definition of catalogue.achievements) {
+        const achievement =
+          (await manager.findOne(Achievement, {
+            where: { code: definition.code },
+          })) ?? manager.create(Achievement, { code: definition.code });
+        await this.applyAchievement(
+          manager,
+          achievement,
+          withAchievementDefaults(definition),
+        );
+        await manager.save(achievement);
+      }
+      for (const [index, definition] of catalogue.unlockables.entries()) {
+        const unlockable = unlockables[index];
+        const requiredAchievementId = await this.resolveAchievementId(
+          manager,
+          definition.requiredAchievement ?? null,
+        );
+        if (unlockable.requiredAchievementId !== requiredAchievementId) {
+          unlockable.requiredAchievementId = requiredAchievementId;
+          await manager.save(unlockable);
+        }
+      }
+    });
+
+    const result = {
+      unlockables: catalogue.unlockables.length,
+      achievements: catalogue.achievements.length,
+    };
+    logger.info(
+      `Synced catalogue: ${result.unlockables} unlockables, ${result.achievements} achievements`,
+    );
+    return result;
+  }
+
+  /**
+   * Lists every achievement, retired ones included.
+   */
+  async listAchievements(): Promise<Achievement[]> {
+    return this.achievementRepo.find({ order: { code: 'ASC' } });
+  }
+
+  /**
+   * Lists every unlockable, secret and retired ones included.
+   */
+  async listUnlockables(): Promise<Unlockable[]> {
+    return this.unlockableRepo.find({ order: { code: 'ASC' } });
+  }
+
+  /**
+   * Adds an achievement.
+   * @param definition - A validated achievement definition.
+   * @throws CatalogueError if the code is taken or a reference is unknown.
+   */
+  async createAchievement(
+    definition: AchievementDefinition,
+  ): Promise<Achievement> {
+    if (await this.achievementRepo.findByCode(definition.code)) {
+      throw new CatalogueError(
+        `Achievement ${definition.code} already exists`,
+        409,
+      );
+    }
+    return this.dataSource.transaction(async (manager) => {
+      const achievement = manager.create(Achievement, {
+        code: definition.code,
+      });
+      await this.applyAchievement(
+        manager,
+        achievement,
+        withAchievementDefaults(definition),
+      );
+      return manager.save(achievement);
+    });
+  }
+
+  /**
+   * Changes some fields of an achievement.
+   * @param code - The achievement's code.
+   * @param changes - Validated fields to change.
+   * @throws CatalogueError if the achievement or a reference is unknown.
+   */
+  async updateAchievement(
+    code: string,
+    changes: Partial<AchievementDefinition>,
+  ): Promise<Achievement> {
+    const achievement = await this.getAchievement(code);
+    return this.dataSource.transaction(async (manager) => {
+      await this.applyAchievement(manager, achievement, changes);
+      return manager.save(achievement);
+    });
+  }
+
+  /**
+   * Retires an achievement: it stops counting progress but players keep it.
+   * @param code - The achievement's code.
+   * @throws CatalogueError if the achievement is unknown.
+   */
+  async retireAchievement(code: string): Promise<Achievement> {
+    return this.updateAchievement(code, { retired: true });
+  }
+
+  /**
+   * Adds an unlockable.
+   * @param definition - A validated unlockable definition.
+   * @throws CatalogueError if the code is taken or a reference is unknown.
+   */
+  async createUnlockable(
+    definition: UnlockableDefinition,
+  ): Promise<Unlockable> {
+    if (await this.unlockableRepo.findByCode(definition.code)) {
+      throw new CatalogueError(
+        `Unlockable ${definition.code} already exists`,
+        409,
+      );
+    }
+    return this.dataSource.transaction(async (manager) => {
+      const unlockable = manager.create(Unlockable, { code: definition.code });
+      await this.applyUnlockable(
+        manager,
+        unlockable,
+        withUnlockableDefaults(definition),
+      );
+      return manager.save(unlockable);
+    });
+  }
+
+  /**
+   * Changes some fields of an unlockable.
+   * @param code - The unlockable's code.
+   * @param changes - Validated fields to change.
+   * @throws CatalogueError if the unlockable or a reference is unknown.
+   */
+  async updateUnlockable(
+    code: string,
+    changes: Partial<UnlockableDefinition>,
+  ): Promise<Unlockable> {
+    const unlockable = await this.unlockableRepo.findByCode(code);
+    if (!unlockable) {
+      throw new CatalogueError(`Unlockable ${code} not found`, 404);
+    }
+    return this.dataSource.transaction(async (manager) => {
+      await this.applyUnlockable(manager, unlockable, changes);
+      return manager.save(unlockable);
+    });
+  }
+
+  /**
+   * Retires an unlockable: it is no longer handed out but players keep it.
+   * @param code - The unlockable's code.
+   * @throws CatalogueError if the unlockable is unknown.
+   */
+  async retireUnlockable(code: string): Promise<Unlockable> {
+    return this.updateUnlockable(code, { retired: true });
+  }
+
+  /**
+   * Finds an achievement by code.
+   * @throws CatalogueError if there is none.
+   */
+  private async getAchievement(code: string): Promise<Achievement> {
+    const achievement = await this.achievementRepo.findByCode(code);
+    if (!achievement) {
+      throw new CatalogueError(`Achievement ${code} not found`, 404);
+    }
+    return achievement;
+  }
+
+  /**
+   * Copies the given fields onto an achievement, resolving the reward code.
+   */
+  private async applyAchievement(
+    manager: EntityManager,
+    achievement: Achievement,
+    definition: Partial<AchievementDefinition>,
+  ): Promise<void> {
+    if ('name' in definition) achievement.name = definition.name;
+    if ('description' in definition) {
+      achievement.description = definition.description ?? null;
+    }
+    if ('tier' in definition) achievement.tier = definition.tier;
+    if ('requiredValue' in definition) {
+      achievement.requiredValue = definition.requiredValue;
+    }
+    if ('rewardCoins' in definition) {
+      achievement.rewardCoins = definition.rewardCoins;
+    }
+    if ('rewardUnlockable' in definition) {
+      achievement.rewardUnlockableId = await this.resolveUnlockableId(
+        manager,
+        definition.rewardUnlockable ?? null,
+      );
+    }
+    if ('metadata' in definition || 'event' in definition) {
+      const metadata = {
+        ...('metadata' in definition
+          ? definition.metadata
+          : achievement.metadata),
+      };
+      if ('event' in definition) {
+        if (definition.event) {
+          metadata.event = definition.event;
+        } else {
+          delete metadata.event;
+        }
+      }
+      achievement.metadata = Object.keys(metadata).length > 0 ? metadata : null;
+    }
+    if ('retired' in definition) {
+      achievement.retiredAt = this.retiredAt(
+        achievement.retiredAt,
+        definition.retired,
+      );
+    }
+  }
+
+  /**
+   * Copies the given fields onto an unlockable, resolving the achievement
+   * code it requires.
+   */
+  private async applyUnlockable(
+    manager: EntityManager,
+    unlockable: Unlockable,
+    definition: Partial<UnlockableDefinition>,
+  ): Promise<void> {
+    const requiredAchievementId =
+      'requiredAchievement' in definition
+        ? await this.resolveAchievementId(
+          manager,
+          definition.requiredAchievement ?? null,
+        )
+        : unlockable.requiredAchievementId;
+    this.assignUnlockable(unlockable, definition, requiredAchievementId);
+  }
+
+  /**
+   * Copies the given fields onto an unlockable.
+   */
+  private assignUnlockable(
+    unlockable: Unlockable,
+    definition: Partial<UnlockableDefinition>,
+    requiredAchievementId: string | null,
+  ): void {
+    if ('name' in definition) unlockable.name = definition.name;
+    if ('description' in definition) {
+      unlockable.description = definition.description ?? null;
+    }
+    if ('type' in definition) unlockable.type = definition.type;
+    if ('requiredLevel' in definition) {
+      unlockable.requiredLevel = definition.requiredLevel;
+    }
+    if ('isSecret' in definition) unlockable.isSecret = definition.isSecret;
+    if ('metadata' in definition) {
+      unlockable.metadata = definition.metadata ?? null;
+    }
+    if ('retired' in definition) {
+      unlockable.retiredAt = this.retiredAt(
+        unlockable.retiredAt,
+        definition.retired,
+      );
+    }
+    unlockable.requiredAchievementId = requiredAchievementId ?? null;
+  }
+
+  /**
+   * Keeps the original retirement time when an entry stays retired.
+   */
+  private retiredAt(current: Date | null, retired: boolean): Date | null {
+    if (!retired) return null;
+    return current ?? new Date();
+  }
+
+  /**
+   * Looks up the id of the unlockable with a code.
+   * @throws CatalogueError if there is none.
+   */
+  private async resolveUnlockableId(
+    manager: EntityManager,
+    code: string | null,
+  ): Promise<string | null> {
+    if (code === null) return null;
+    const unlockable = await manager.findOne(Unlockable, { where: { code } });
+    if (!unlockable) {
+      throw new CatalogueError(`Unknown unlockable ${code}`, 400);
+    }
+    return unlockable.id;
+  }
+
+  /**
+   * Looks up the id of the achievement with a code.
+   * @throws CatalogueError if there is none.
+   */
+  private async resolveAchievementId(
+    manager: EntityManager,
+    code: string | null,
+  ): Promise<string | null> {
+    if (code === null) return null;
+    const achievement = await manager.findOne(Achievement, {
+      where: { code },
+    });
+    if (!achievement) {
+      throw new CatalogueError(`Unknown achievement ${code}`, 400);
+    }
+    return achievement.id;
+  }
+}
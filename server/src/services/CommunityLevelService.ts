@@ -0,0 +1,587 @@
+import { DataSource } from 'typeorm';
+import {
+  CommunityLevel,
+  CommunityLevelOrder,
+  CommunityLevelRepository,
+} from '../persistence/repositories/CommunityLevelRepository';
+import { CommunityLevelRating } from '../persistence/models/CommunityLevelRating';
+import { LevelGeometry, TiledMapData } from '../simulation/LevelGeometry';
+import { Area, findPathToArea } from '../simulation/LevelReachability';
+import { getLevelThemes } from '../simulation/levels';
+import { logger } from '../utils/logger';
+
+export const COMMUNITY_LEVEL_ORDERS: readonly CommunityLevelOrder[] = [
+  'newest',
+  'top_rated',
+  'popular',
+];
+
+/**
+ * Tilesets the client has textures for, by name, with their tile size and
+ * number of tiles. Community maps can only use these.
+ */
+export const KNOWN_TILESETS: Record<
+  string,
+  { tileWidth: number; tileHeight: number; tileCount: number }
+> = {
+  platform: { tileWidth: 32, tileHeight: 32, tileCount: 1 },
+};
+
+/** Largest map accepted, in tiles. */
+export const MAX_LEVEL_WIDTH = 400;
+export const MAX_LEVEL_HEIGHT = 200;
+export const MAX_LEVEL_TILES = 40000;
+export const MAX_LEVEL_LAYERS = 16;
+export const MAX_LEVEL_OBJECTS = 1000;
+/** Largest map accepted, as serialized JSON. */
+export const MAX_LEVEL_BYTES = 512 * 1024;
+
+const TITLE_LENGTH = { min: 3, max: 48 };
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_REQUIRED_ITEMS = 20;
+const ITEM_ID_PATTERN = /^[a-z0-9_]{1,32}$/;
+/** Gid bits Tiled uses to flip and rotate tiles. */
+const GID_MASK = 0x1fffffff;
+
+/**
+ * `LevelConfig` fields a community level is played with. The client picks
+ * the `key` and `tilemap` itself.
+ */
+export interface CommunityLevelConfig {
+  playerStart?: { x: number; y: number };
+  targetScore?: number;
+  /** Time limit in seconds. */
+  timeLimit?: number;
+  requiredItems?: string[];
+  requiredEnemies?: number;
+  backgroundColor?: number;
+  theme?: string;
+}
+
+/**
+ * A level as uploaded by its author.
+ */
+export interface LevelUpload {
+  title: string;
+  description?: string;
+  config: CommunityLevelConfig;
+  /** Tiled JSON map with embedded tilesets. */
+  map: TiledMapData & Record<string, any>;
+}
+
+/**
+ * A community level as listed when browsing, without its map.
+ */
+export interface CommunityLevelSummary {
+  id: string;
+  title: string;
+  description: string;
+  authorId: string;
+  author: string;
+  /** Size in tiles. */
+  width: number;
+  height: number;
+  theme?: string;
+  /** Average rating out of 5; 0 until rated. */
+  rating: number;
+  ratingCount: number;
+  downloads: number;
+  /** Upload time in ms since the epoch. */
+  createdAt: number;
+}
+
+/**
+ * A community level with everything needed to play it.
+ */
+export interface CommunityLevelDownload extends CommunityLevelSummary {
+  config: CommunityLevelConfig;
+  map: Record<string, any>;
+}
+
+/**
+ * A page of levels from a search.
+ */
+export interface CommunityLevelPage {
+  levels: CommunityLevelSummary[];
+  /** Levels matching the search, on every page. */
+  total: number;
+}
+
+/**
+ * What to search for when browsing.
+ */
+export interface CommunityLevelSearch {
+  /** Text the title must contain. */
+  query?: string;
+  order: CommunityLevelOrder;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * A level's rating after a player rates it.
+ */
+export interface LevelRatingOutcome {
+  rating: number;
+  ratingCount: number;
+  yourRating: number;
+}
+
+/**
+ * A community level request that cannot be carried out.
+ */
+export class CommunityLevelError extends Error {
+  /**
+   * @param status - HTTP status to answer with.
+   * @param details - Every problem found with the request.
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'CommunityLevelError';
+  }
+}
+
+const UPLOAD_FIELDS = ['title', 'description', 'config', 'map'];
+const CONFIG_FIELDS = [
+  'playerStart',
+  'targetScore',
+  'timeLimit',
+  'requiredItems',
+  'requiredEnemies',
+  'backgroundColor',
+  'theme',
+];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isPlainObject(value) && Number.isFinite(value.x) && Number.isFinite(value.y);
+
+const isPositiveInteger = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Lists the problems with the shape of an upload. The map itself is
+ * checked by `checkLevelMap`.
+ * @param value - The request body to check.
+ * @returns Every problem found; empty when the upload is well formed.
+ */
+export function validateLevelUpload(value: unknown): string[] {
+  if (!isPlainObject(value)) return ['body must be an object'];
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!UPLOAD_FIELDS.includes(key)) {
+      errors.push(`unknown field "${key}"`);
+    }
+  }
+
+  const { title, description, config, map } = value;
+  if (
+    typeof title !== 'string' ||
+    title.trim().length < TITLE_LENGTH.min ||
+    title.trim().length > TITLE_LENGTH.max
+  ) {
+    errors.push(
+      `title must be ${TITLE_LENGTH.min} to ${TITLE_LENGTH.max} characters`,
+    );
+  }
+  if (
+    description !== undefined &&
+    (typeof description !== 'string' ||
+      description.length > MAX_DESCRIPTION_LENGTH)
+  ) {
+    errors.push(
+      `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+    );
+  }
+
+  if (!isPlainObject(config)) {
+    errors.push('config must be an object');
+  } else {
+    errors.push(...validateConfig(config));
+  }
+
+  if (!isPlainObject(map)) {
+    errors.push('map must be an object');
+  } else if (Buffer.byteLength(JSON.stringify(map)) > MAX_LEVEL_BYTES) {
+    errors.push(`map must be at most ${MAX_LEVEL_BYTES} bytes`);
+  }
+  return errors;
+}
+
+function validateConfig(config: Record<string, any>): string[] {
+  const errors: string[] = [];
+  for (const key of Object.keys(config)) {
+    if (!CONFIG_FIELDS.includes(key)) {
+      errors.push(`unknown field "config.${key}"`);
+    }
+  }
+  if ('playerStart' in config && !isPoint(config.playerStart)) {
+    errors.push('config.playerStart must have numeric x and y');
+  }
+  for (const key of ['targetScore', 'timeLimit', 'requiredEnemies']) {
+    if (key in config && !isPositiveInteger(config[key])) {
+      errors.push(`config.${key} must be a whole number of at least 1`);
+    }
+  }
+  if ('requiredItems' in config) {
+    const items = config.requiredItems;
+    if (
+      !Array.isArray(items) ||
+      items.length > MAX_REQUIRED_ITEMS ||
+      !items.every(
+        (item) => typeof item === 'string' && ITEM_ID_PATTERN.test(item),
+      )
+    ) {
+      errors.push(
+        `config.requiredItems must be at most ${MAX_REQUIRED_ITEMS} item ids`,
+      );
+    }
+  }
+  if (
+    'backgroundColor' in config &&
+    !(
+      Number.isInteger(config.backgroundColor) &&
+      config.backgroundColor >= 0 &&
+      config.backgroundColor <= 0xffffff
+    )
+  ) {
+    errors.push('config.backgroundColor must be an RGB colour');
+  }
+  // Themes come from the level manifest, so a new one needs no change here
+  const themes = getLevelThemes();
+  if ('theme' in config && !themes.includes(config.theme)) {
+    errors.push(`config.theme must be one of ${themes.join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Lists the reasons a well-formed upload's map cannot be played: it is too
+ * big, uses tilesets the client does not have, or its exit cannot be
+ * reached from the player spawn.
+ * @param map - The uploaded map.
+ * @param config - The uploaded config, for its `playerStart`.
+ */
+export function checkLevelMap(
+  map: Record<string, any>,
+  config: CommunityLevelConfig,
+): string[] {
+  const errors: string[] = [];
+  if (map.infinite === true) errors.push('map must not be infinite');
+  if (map.orientation !== undefined && map.orientation !== 'orthogonal') {
+    errors.push('map must be orthogonal');
+  }
+
+  const { width, height } = map;
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width < 1 ||
+    height < 1
+  ) {
+    errors.push('map width and height must be whole numbers of tiles');
+    return errors;
+  }
+  if (
+    width > MAX_LEVEL_WIDTH ||
+    height > MAX_LEVEL_HEIGHT ||
+    width * height > MAX_LEVEL_TILES
+  ) {
+    errors.push(
+      `map must be at most ${MAX_LEVEL_WIDTH}x${MAX_LEVEL_HEIGHT} and ${MAX_LEVEL_TILES} tiles`,
+    );
+  }
+  const tileWidth = map.tilewidth ?? map.tileWidth;
+  const tileHeight = map.tileheight ?? map.tileHeight;
+
+  // Gid ranges of the tilesets, as [first, last]
+  const gidRanges: Array<[number, number]> = [];
+  if (!Array.isArray(map.tilesets) || map.tilesets.length === 0) {
+    errors.push('map must have a tileset');
+  } else {
+    map.tilesets.forEach((tileset: unknown, index: number) => {
+      if (!isPlainObject(tileset)) {
+        errors.push(`tileset ${index} must be an object`);
+        return;
+      }
+      if ('source' in tileset) {
+        errors.push(`tileset ${index} must be embedded in the map`);
+        return;
+      }
+      const known = KNOWN_TILESETS[tileset.name];
+      if (!known) {
+        errors.push(`tileset "${tileset.name}" is not one the game has`);
+        return;
+      }
+      if (known.tileWidth !== tileWidth || known.tileHeight !== tileHeight) {
+        errors.push(
+          `map tiles must be ${known.tileWidth}x${known.tileHeight} to use tileset "${tileset.name}"`,
+        );
+      }
+      if (!isPositiveInteger(tileset.firstgid)) {
+        errors.push(`tileset "${tileset.name}" must have a firstgid`);
+        return;
+      }
+      gidRanges.push([
+        tileset.firstgid,
+        tileset.firstgid + known.tileCount - 1,
+      ]);
+    });
+  }
+
+  if (!Array.isArray(map.layers) || map.layers.length === 0) {
+    errors.push('map must have layers');
+    return errors;
+  }
+  if (map.layers.length > MAX_LEVEL_LAYERS) {
+    errors.push(`map may have at most ${MAX_LEVEL_LAYERS} layers`);
+  }
+  let objectCount = 0;
+  for (const layer of map.layers) {
+    if (!isPlainObject(layer) || typeof layer.name !== 'string') {
+      errors.push('layers must be objects with a name');
+      continue;
+    }
+    if (layer.type === 'tilelayer') {
+      errors.push(...checkTileLayer(layer, width * height, gidRanges));
+    } else if (layer.type === 'objectgroup') {
+      const objects = Array.isArray(layer.objects) ? layer.objects : [];
+      objectCount += objects.length;
+      if (!objects.every((obj: unknown) => isPoint(obj))) {
+        errors.push(`layer "${layer.name}" objects must have numeric x and y`);
+      }
+    } else {
+      errors.push(`layer "${layer.name}" must be a tile or object layer`);
+    }
+  }
+  if (objectCount > MAX_LEVEL_OBJECTS) {
+    errors.push(`map may have at most ${MAX_LEVEL_OBJECTS} objects`);
+  }
+
+  // Reachability is the slow check, so it only runs on an otherwise valid map
+  if (errors.length > 0) return errors;
+  return checkExitReachable(map as TiledMapData, config);
+}
+
+function checkTileLayer(
+  layer: Record<string, any>,
+  tileCount: number,
+  gidRanges: Array<[number, number]>,
+): string[] {
+  const { data } = layer;
+  if (!Array.isArray(data) || data.length !== tileCount) {
+    return [
+      `layer "${layer.name}" data must be an array of ${tileCount} tile ids`,
+    ];
+  }
+  const unknown = data.find((gid) => {
+    if (!Number.isInteger(gid) || gid < 0) return true;
+    const id = gid & GID_MASK;
+    return (
+      id !== 0 && !gidRanges.some(([first, last]) => id >= first && id <= last)
+    );
+  });
+  return unknown === undefined
+    ? []
+    : [`layer "${layer.name}" uses tile ${unknown}, which no tileset has`];
+}
+
+function checkExitReachable(
+  map: TiledMapData,
+  config: CommunityLevelConfig,
+): string[] {
+  const objects = (name: string) =>
+    map.layers
+      .filter(
+        (layer) =>
+          layer.type === 'objectgroup' && layer.name.toLowerCase() === name,
+      )
+      .flatMap((layer) => layer.objects ?? []);
+
+  // The client spawns at the centre of the spawn object
+  const spawn = objects('player').find((obj) => obj.type === 'spawn');
+  const start =
+    config.playerStart ??
+    (spawn && {
+      x: spawn.x + (spawn.width ?? 0) / 2,
+      y: spawn.y + (spawn.height ?? 0) / 2,
+    });
+  const exit = objects('exit')[0];
+  const errors: string[] = [];
+  if (!start) errors.push('map must have a player spawn');
+  if (!exit) errors.push('map must have an exit');
+  if (!start || !exit) return errors;
+
+  const area: Area = {
+    x: exit.x,
+    y: exit.y,
+    width: exit.width || 1,
+    height: exit.height || 1,
+  };
+  const result = findPathToArea(LevelGeometry.fromTiledJSON(map), start, area);
+  if (result.exhausted) {
+    return ['map is too large to check that the exit can be reached'];
+  }
+  return result.reachable
+    ? []
+    : ['the exit cannot be reached from the player spawn'];
+}
+
+/**
+ * Service for community levels: players upload levels they built, browse
+ * and rate other players' levels, and download them to play. Every upload
+ * is checked to be playable in the client first.
+ */
+export class CommunityLevelService {
+  /**
+   * Creates a new CommunityLevelService instance.
+   * @param dataSource - The TypeORM data source for database transactions.
+   * @param levelRepo - Repository for community levels.
+   */
+  constructor(
+    private dataSource: DataSource,
+    private levelRepo: CommunityLevelRepository,
+  ) {}
+
+  /**
+   * Publishes a level.
+   * @param authorId - The unique identifier of the uploading player.
+   * @param upload - The level, already checked with `validateLevelUpload`.
+   * @returns Promise resolving to the published level's summary.
+   * @throws CommunityLevelError if the map cannot be played.
+   */
+  async uploadLevel(
+    authorId: string,
+    upload: LevelUpload,
+  ): Promise<CommunityLevelSummary> {
+    const problems = checkLevelMap(upload.map, upload.config);
+    if (problems.length > 0) {
+      logger.warn(
+        `Rejected community level from ${authorId}: ${problems.join('; ')}`,
+      );
+      throw new CommunityLevelError('Unplayable level', 422, problems);
+    }
+
+    const level = await this.levelRepo.save(
+      this.levelRepo.create({
+        authorId,
+        title: upload.title.trim(),
+        description: upload.description ?? '',
+        map: upload.map,
+        config: upload.config,
+        width: upload.map.width,
+        height: upload.map.height,
+      }),
+    );
+    logger.info(`Published community level ${level.id} by ${authorId}`);
+    const published = await this.levelRepo.findWithAuthor(level.id);
+    return this.toSummary(published ?? level);
+  }
+
+  /**
+   * Finds a page of levels.
+   */
+  async searchLevels(
+    search: CommunityLevelSearch,
+  ): Promise<CommunityLevelPage> {
+    const [levels, total] = await this.levelRepo.search(
+      search.query?.trim() || undefined,
+      search.order,
+      search.limit,
+      search.offset,
+    );
+    return { levels: levels.map((level) => this.toSummary(level)), total };
+  }
+
+  /**
+   * Gets a level to play, counting the download.
+   * @param id - The level's id.
+   * @throws CommunityLevelError if there is no such level.
+   */
+  async downloadLevel(id: string): Promise<CommunityLevelDownload> {
+    const level = await this.levelRepo.findWithAuthor(id);
+    if (!level) {
+      throw new CommunityLevelError(`Level ${id} not found`, 404);
+    }
+    await this.levelRepo.incrementDownloads(id);
+    return {
+      ...this.toSummary(level),
+      downloads: level.downloads + 1,
+      config: level.config,
+      map: level.map,
+    };
+  }
+
+  /**
+   * Rates a level, replacing the player's earlier rating of it.
+   * @param playerId - The unique identifier of the rating player.
+   * @param levelId - The level's id.
+   * @param rating - 1 to 5 stars.
+   * @throws CommunityLevelError if there is no such level, or the player
+   * made it.
+   */
+  async rateLevel(
+    playerId: string,
+    levelId: string,
+    rating: number,
+  ): Promise<LevelRatingOutcome> {
+    return this.dataSource.transaction(async (manager) => {
+      const level = await manager.findOne(CommunityLevel, {
+        where: { id: levelId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!level) {
+        throw new CommunityLevelError(`Level ${levelId} not found`, 404);
+      }
+      if (level.authorId === playerId) {
+        throw new CommunityLevelError('You cannot rate your own level', 403);
+      }
+
+      const existing = await manager.findOne(CommunityLevelRating, {
+        where: { levelId, playerId },
+      });
+      if (existing) {
+        level.ratingTotal += rating - existing.rating;
+        existing.rating = rating;
+        await manager.save(existing);
+      } else {
+        level.ratingTotal += rating;
+        level.ratingCount += 1;
+        await manager.save(
+          manager.create(CommunityLevelRating, { levelId, playerId, rating }),
+        );
+      }
+      level.averageRating = level.ratingTotal / level.ratingCount;
+      await manager.save(level);
+
+      return {
+        rating: level.averageRating,
+        ratingCount: level.ratingCount,
+        yourRating: rating,
+      };
+    });
+  }
+
+  private toSummary(level: CommunityLevel): CommunityLevelSummary {
+    return {
+      id: level.id,
+      title: level.title,
+      description: level.description,
+      authorId: level.authorId,
+      author: level.author?.username || 'Unknown',
+      width: level.width,
+      height: level.height,
+      ...(level.config?.theme ? { theme: level.config.theme } : {}),
+      rating: level.averageRating,
+      ratingCount: level.ratingCount,
+      downloads: level.downloads,
+      createdAt: level.createdAt.getTime(),
+    };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Experience curve: the total experience needed to reach a level grows as
+ * `baseXp * (level - 1) ^ exponent`, so every level takes longer than the
+ * last. Level 1 needs no experience.
+ */
+
+/**
+ * Shape of the curve.
+ */
+export interface ExperienceCurve {
+  /** Experience needed for level 2. */
+  baseXp: number;
+  /** How steeply later levels get more expensive; 1 is linear. */
+  exponent: number;
+  /** Highest reachable level. */
+  maxLevel: number;
+}
+
+/**
+ * Where a player stands on the curve.
+ */
+export interface LevelProgress {
+  level: number;
+  experience: number;
+  /** Total experience at which the current level was reached. */
+  levelStartXp: number;
+  /** Total experience needed for the next level; null at the max level. */
+  nextLevelXp: number | null;
+}
+
+/**
+ * Default curve: 100 XP for level 2, 400 for level 3, 900 for level 4, ...
+ */
+export const DEFAULT_EXPERIENCE_CURVE: ExperienceCurve = {
+  baseXp: 100,
+  exponent: 2,
+  maxLevel: 100,
+};
+
+/**
+ * Total experience needed to reach a level.
+ */
+export function experienceForLevel(
+  level: number,
+  curve: ExperienceCurve = DEFAULT_EXPERIENCE_CURVE,
+): number {
+  if (level <= 1) return 0;
+  return Math.round(curve.baseXp * Math.pow(level - 1, curve.exponent));
+}
+
+/**
+ * Highest level a total amount of experience reaches.
+ */
+export function levelForExperience(
+  experience: number,
+  curve: ExperienceCurve = DEFAULT_EXPERIENCE_CURVE,
+): number {
+  if (experience <= 0) return 1;
+  // Invert the curve, then correct for rounding in either direction
+  let level =
+    Math.floor(Math.pow(experience / curve.baseXp, 1 / curve.exponent)) + 1;
+  level = Math.min(Math.max(level, 1), curve.maxLevel);
+  while (level > 1 && experienceForLevel(level, curve) > experience) {
+    level--;
+  }
+  while (
+    level < curve.maxLevel &&
+    experienceForLevel(level + 1, curve) <= experience
+  ) {
+    level++;
+  }
+  return level;
+}
+
+/**
+ * Describe a player's level and how far they are towards the next one.
+ */
+export function getLevelProgress(
+  experience: number,
+  curve: ExperienceCurve = DEFAULT_EXPERIENCE_CURVE,
+): LevelProgress {
+  const level = levelForExperience(experience, curve);
+  return {
+    level,
+    experience,
+    levelStartXp: experienceForLevel(level, curve),
+    nextLevelXp:
+      level < curve.maxLevel ? experienceForLevel(level + 1, curve) : null,
+  };
+}
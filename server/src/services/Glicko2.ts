@@ -0,0 +1,174 @@
+/**
+ * Glicko-2 rating maths (Glickman, "Example of the Glicko-2 system").
+ * Ratings are on the familiar Elo-like scale; each carries a deviation
+ * (how unsure we are of it) and a volatility (how erratic the player is).
+ */
+
+/**
+ * A player's rating on the public scale.
+ */
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+/**
+ * One game against one opponent: 1 for a win, 0.5 for a draw, 0 for a loss.
+ */
+export interface Glicko2Result {
+  opponent: Glicko2Rating;
+  score: number;
+}
+
+/**
+ * Rating given to players who have never played.
+ */
+export const DEFAULT_GLICKO2_RATING: Glicko2Rating = {
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06,
+};
+
+/** Converts between the public scale and the internal Glicko-2 scale. */
+const SCALE = 173.7178;
+
+/** Constrains volatility changes; 0.3 to 1.2 are sensible. */
+const DEFAULT_TAU = 0.5;
+
+/** Convergence tolerance of the volatility iteration. */
+const EPSILON = 0.000001;
+
+/**
+ * Rate a player after a rating period containing `results`. A player with no
+ * results keeps their rating but becomes less certain of it.
+ * @param tau System constant limiting how fast volatility changes.
+ */
+export function updateGlicko2(
+  player: Glicko2Rating,
+  results: Glicko2Result[],
+  tau: number = DEFAULT_TAU,
+): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  if (results.length === 0) {
+    return {
+      rating: player.rating,
+      deviation: capDeviation(Math.sqrt(phi * phi + sigma * sigma) * SCALE),
+      volatility: sigma,
+    };
+  }
+
+  let varianceInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const opponentMu = (opponent.rating - 1500) / SCALE;
+    const g = weight(opponent.deviation / SCALE);
+    const expected = 1 / (1 + Math.exp(-g * (mu - opponentMu)));
+    varianceInverse += g * g * expected * (1 - expected);
+    improvement += g * (score - expected);
+  }
+  const variance = 1 / varianceInverse;
+  const delta = variance * improvement;
+
+  const newSigma = updateVolatility(phi, sigma, variance, delta, tau);
+  const preRatingPhi = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi =
+    1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * SCALE + 1500,
+    deviation: capDeviation(newPhi * SCALE),
+    volatility: newSigma,
+  };
+}
+
+/**
+ * Results of a free-for-all match for one player, treating it as a game
+ * against every other player: better-placed players beat worse-placed ones
+ * and equal places draw.
+ * @param placements Rank of each player, 1 being the best.
+ */
+export function resultsFromPlacements(
+  playerId: string,
+  placements: Map<string, number>,
+  ratings: Map<string, Glicko2Rating>,
+): Glicko2Result[] {
+  const rank = placements.get(playerId);
+  if (rank === undefined) return [];
+
+  const results: Glicko2Result[] = [];
+  for (const [opponentId, opponentRank] of placements) {
+    if (opponentId === playerId) continue;
+    results.push({
+      opponent: ratings.get(opponentId) ?? DEFAULT_GLICKO2_RATING,
+      score: rank < opponentRank ? 1 : rank > opponentRank ? 0 : 0.5,
+    });
+  }
+  return results;
+}
+
+/**
+ * Reduces the impact of games against opponents with uncertain ratings.
+ */
+function weight(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+/**
+ * Find the new volatility with the Illinois algorithm (step 5 of the paper).
+ */
+function updateVolatility(
+  phi: number,
+  sigma: number,
+  variance: number,
+  delta: number,
+  tau: number,
+): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + variance + ex;
+    return (
+      (ex * (delta * delta - phi * phi - variance - ex)) /
+        (2 * denominator * denominator) -
+      (x - a) / (tau * tau)
+    );
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    upper = a - k * tau;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > EPSILON) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fCandidate = f(candidate);
+    if (fCandidate * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = candidate;
+    fUpper = fCandidate;
+  }
+  return Math.exp(lower / 2);
+}
+
+/**
+ * Deviation never grows beyond that of a brand new player.
+ */
+function capDeviation(deviation: number): number {
+  return Math.min(deviation, DEFAULT_GLICKO2_RATING.deviation);
+}
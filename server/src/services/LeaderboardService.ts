@@ -1,7 +1,14 @@
-import { DataSource } from 'typeorm';
+import { randomUUID } from 'crypto';
+import { DataSource, In } from 'typeorm';
 import { createClient, RedisClientType } from 'redis';
 import { PlayerStatsRepository } from '../persistence/repositories/PlayerStatsRepository';
 import { PlayerProfileRepository } from '../persistence/repositories/PlayerProfileRepository';
+import { PlayerRatingRepository } from '../persistence/repositories/PlayerRatingRepository';
+import {
+  Season,
+  SeasonRepository,
+  SeasonStanding,
+} from '../persistence/repositories/SeasonRepository';
 import { logger } from '../utils/logger';
 
 // Validate required environment variables at startup
@@ -11,27 +18,140 @@ if (!process.env.REDIS_URL) {
   );
 }
 
+export const LEADERBOARD_PERIODS = [
+  'daily',
+  'weekly',
+  'alltime',
+  'season',
+] as const;
+
+/**
+ * Time window a score board covers.
+ */
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+/**
+ * A player's place on a score board.
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  score: number;
+}
+
+/**
+ * Season and board settings.
+ */
+export interface LeaderboardConfig {
+  /** How long each season runs. */
+  seasonLengthDays: number;
+  /** How often the rollover job checks whether the season has ended. */
+  seasonCheckIntervalMs: number;
+  /** How long a daily board is kept after its day starts. */
+  dailyTtlSeconds: number;
+  /** How long a weekly board is kept after its week starts. */
+  weeklyTtlSeconds: number;
+}
+
+export const DEFAULT_LEADERBOARD_CONFIG: LeaderboardConfig = {
+  seasonLengthDays: 28,
+  seasonCheckIntervalMs: 60 * 60 * 1000, // hourly
+  dailyTtlSeconds: 2 * 24 * 60 * 60,
+  weeklyTtlSeconds: 14 * 24 * 60 * 60,
+};
+
+const BOARD_PREFIX = 'leaderboard:board';
+const CURRENT_SEASON_KEY = 'leaderboard:season:current';
+const ROLLOVER_LOCK_KEY = 'leaderboard:season:rollover_lock';
+const ROLLOVER_LOCK_SECONDS = 300;
+// Deletes the lock only while it still holds this server's token, so a
+// rollover that outlived its lock never frees another server's
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+const REBUILD_BATCH_SIZE = 1000;
+
+/**
+ * Day of a date in UTC, e.g. `2026-10-19`.
+ */
+export function dayStamp(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * ISO-8601 week of a date in UTC, e.g. `2026-W43`. Weeks start on Monday
+ * and belong to the year their Thursday falls in.
+ */
+export function weekStamp(date: Date): string {
+  const thursday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  thursday.setUTCDate(
+    thursday.getUTCDate() + 3 - ((thursday.getUTCDay() + 6) % 7),
+  );
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / 86400000 / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Redis key of the score board for a period.
+ * @param period - The board's time window.
+ * @param date - Any moment in the day or week wanted.
+ * @param seasonId - The season, for season boards.
+ */
+export function boardKey(
+  period: LeaderboardPeriod,
+  date: Date = new Date(),
+  seasonId?: number,
+): string {
+  switch (period) {
+  case 'daily':
+    return `${BOARD_PREFIX}:daily:${dayStamp(date)}`;
+  case 'weekly':
+    return `${BOARD_PREFIX}:weekly:${weekStamp(date)}`;
+  case 'season':
+    return `${BOARD_PREFIX}:season:${seasonId}`;
+  default:
+    return `${BOARD_PREFIX}:alltime`;
+  }
+}
+
 /**
  * Service for managing player leaderboards.
- * Uses Redis for caching and TypeORM for persistent storage.
- * Provides real-time leaderboard queries for scores, levels, and rankings.
+ * Score boards are Redis sorted sets updated as scores change: one all-time
+ * board, one per day, one per ISO week and one per season. Level and rating
+ * rankings come from TypeORM and are cached in Redis.
  */
 export class LeaderboardService {
   private redisClient: RedisClientType;
+  private config: LeaderboardConfig;
+  private seasonInterval: NodeJS.Timeout | null = null;
 
   /**
    * Creates a new LeaderboardService instance.
    * @param dataSource - The TypeORM data source for database queries.
    * @param statsRepo - Repository for player statistics.
    * @param profileRepo - Repository for player profiles.
+   * @param ratingRepo - Repository for player skill ratings.
+   * @param seasonRepo - Repository for seasons and their final standings.
    * @param redisUrl - Optional Redis URL override.
+   * @param config - Overrides for the default season and board settings.
    */
   constructor(
     private dataSource: DataSource,
     private statsRepo: PlayerStatsRepository,
     private profileRepo: PlayerProfileRepository,
+    private ratingRepo: PlayerRatingRepository,
+    private seasonRepo: SeasonRepository,
     redisUrl?: string,
+    config: Partial<LeaderboardConfig> = {},
   ) {
+    this.config = { ...DEFAULT_LEADERBOARD_CONFIG, ...config };
     this.redisClient = createClient({
       url: redisUrl || process.env.REDIS_URL,
     });
@@ -42,17 +162,66 @@ export class LeaderboardService {
   }
 
   /**
-   * Gets the top players by score.
+   * Gets the top players on a score board.
+   * @param period - The board's time window (default: all-time).
+   * @param limit - Maximum number of players to return (default: 10).
+   * @param seasonId - The season for season boards (default: the current one).
+   * @returns Promise resolving to the board's first entries.
+   */
+  async getTopPlayersByScore(
+    period: LeaderboardPeriod = 'alltime',
+    limit: number = 10,
+    seasonId?: number,
+  ): Promise<LeaderboardEntry[]> {
+    const key = await this.resolveBoardKey(period, seasonId);
+    if (!key) return [];
+    const members = await this.redisClient.zRangeWithScores(key, 0, limit - 1, {
+      REV: true,
+    });
+    return this.toEntries(key, members, 0);
+  }
+
+  /**
+   * Gets the players just above and below a player on a score board.
+   * @param playerId - The unique identifier of the player.
+   * @param period - The board's time window (default: all-time).
+   * @param radius - How many players to include on each side (default: 5).
+   * @param seasonId - The season for season boards (default: the current one).
+   * @returns Promise resolving to the entries around the player, or an
+   * empty array if the player is not on the board.
+   */
+  async getPlayersAroundPlayer(
+    playerId: string,
+    period: LeaderboardPeriod = 'alltime',
+    radius: number = 5,
+    seasonId?: number,
+  ): Promise<LeaderboardEntry[]> {
+    const key = await this.resolveBoardKey(period, seasonId);
+    if (!key) return [];
+    const position = await this.redisClient.zRevRank(key, playerId);
+    if (position === null) return [];
+    const start = Math.max(0, position - radius);
+    const members = await this.redisClient.zRangeWithScores(
+      key,
+      start,
+      position + radius,
+      { REV: true },
+    );
+    return this.toEntries(key, members, start);
+  }
+
+  /**
+   * Gets the top players by level.
    * Results are cached for 5 minutes to improve performance.
    * @param limit - Maximum number of players to return (default: 10).
    * @param useCache - Whether to use cached results (default: true).
-   * @returns Promise resolving to array of player leaderboard entries.
+   * @returns Promise resolving to array of player level entries.
    */
-  async getTopPlayersByScore(
+  async getTopPlayersByLevel(
     limit: number = 10,
     useCache: boolean = true,
   ): Promise<any[]> {
-    const cacheKey = `leaderboard:top_score:${limit}`;
+    const cacheKey = `leaderboard:top_level:${limit}`;
     if (useCache) {
       const cached = await this.redisClient.get(cacheKey);
       if (cached) {
@@ -67,22 +236,14 @@ export class LeaderboardService {
       }
     }
 
-    const stats = await this.statsRepo.findTopPlayersByScore(limit);
-    const result = await Promise.all(
-      stats.map(async (stat) => {
-        const profile = await this.profileRepo.findOne({
-          where: { id: stat.playerId },
-        });
-        return {
-          playerId: stat.playerId,
-          username: profile?.username || 'Unknown',
-          score: stat.score,
-          kills: stat.kills,
-          deaths: stat.deaths,
-          playTimeSeconds: stat.playTimeSeconds,
-        };
-      }),
-    );
+    const profiles = await this.profileRepo.findTopPlayersByLevel(limit);
+    const result = profiles.map((profile) => ({
+      playerId: profile.id,
+      username: profile.username,
+      level: profile.level,
+      experience: profile.experience,
+      coins: profile.coins,
+    }));
 
     if (useCache) {
       await this.redisClient.setEx(cacheKey, 300, JSON.stringify(result)); // 5 minutes TTL
@@ -91,17 +252,20 @@ export class LeaderboardService {
   }
 
   /**
-   * Gets the top players by level.
+   * Gets the top players by skill rating in a game mode.
+   * Only players who have finished a rated match are listed.
    * Results are cached for 5 minutes to improve performance.
+   * @param gameMode - The game mode to rank.
    * @param limit - Maximum number of players to return (default: 10).
    * @param useCache - Whether to use cached results (default: true).
-   * @returns Promise resolving to array of player level entries.
+   * @returns Promise resolving to array of player rating entries.
    */
-  async getTopPlayersByLevel(
+  async getTopPlayersByRating(
+    gameMode: string,
     limit: number = 10,
     useCache: boolean = true,
   ): Promise<any[]> {
-    const cacheKey = `leaderboard:top_level:${limit}`;
+    const cacheKey = `leaderboard:top_rating:${gameMode}:${limit}`;
     if (useCache) {
       const cached = await this.redisClient.get(cacheKey);
       if (cached) {
@@ -116,13 +280,16 @@ export class LeaderboardService {
       }
     }
 
-    const profiles = await this.profileRepo.findTopPlayersByLevel(limit);
-    const result = profiles.map((profile) => ({
-      playerId: profile.id,
-      username: profile.username,
-      level: profile.level,
-      experience: profile.experience,
-      coins: profile.coins,
+    const ratings = await this.ratingRepo.findTopByRating(gameMode, limit);
+    const result = ratings.map((rating) => ({
+      playerId: rating.playerId,
+      username: rating.profile?.username || 'Unknown',
+      gameMode: rating.gameMode,
+      rating: Math.round(rating.rating),
+      deviation: Math.round(rating.deviation),
+      gamesPlayed: rating.gamesPlayed,
+      wins: rating.wins,
+      losses: rating.losses,
     }));
 
     if (useCache) {
@@ -132,40 +299,321 @@ export class LeaderboardService {
   }
 
   /**
-   * Updates a player's score and invalidates related caches.
+   * Updates a player's score and adds the change to every current board.
    * @param playerId - The unique identifier of the player.
    * @param scoreDelta - The amount to add to the player's score (can be negative).
    */
   async updatePlayerScore(playerId: string, scoreDelta: number): Promise<void> {
     await this.statsRepo.updateScore(playerId, scoreDelta);
-    // Invalidate relevant caches
-    await this.redisClient.del('leaderboard:top_score:*');
+
+    const now = new Date();
+    const daily = boardKey('daily', now);
+    const weekly = boardKey('weekly', now);
+    const seasonId = await this.getCurrentSeasonId();
+    const transaction = this.redisClient
+      .multi()
+      .zIncrBy(boardKey('alltime'), scoreDelta, playerId)
+      .zIncrBy(daily, scoreDelta, playerId)
+      .expire(daily, this.config.dailyTtlSeconds)
+      .zIncrBy(weekly, scoreDelta, playerId)
+      .expire(weekly, this.config.weeklyTtlSeconds);
+    if (seasonId !== null) {
+      transaction.zIncrBy(
+        boardKey('season', now, seasonId),
+        scoreDelta,
+        playerId,
+      );
+    }
+    await transaction.exec();
   }
 
   /**
-   * Gets a player's rank based on their score.
+   * Gets a player's rank and score on a score board.
+   * Players with equal scores share a rank.
    * @param playerId - The unique identifier of the player.
-   * @returns Promise resolving to the player's rank (1-based), or -1 if not found.
+   * @param period - The board's time window (default: all-time).
+   * @param seasonId - The season for season boards (default: the current one).
+   * @returns Promise resolving to the player's rank (1-based) and score, or
+   * null if the player is not on the board.
    */
-  async getPlayerRankByScore(playerId: string): Promise<number> {
-    const stats = await this.statsRepo.findByPlayerId(playerId);
-    if (!stats) return -1;
-    const rank = await this.statsRepo
-      .createQueryBuilder('ps')
-      .where('ps.score > :score', { score: stats.score })
-      .getCount();
-    return rank + 1;
+  async getPlayerRankByScore(
+    playerId: string,
+    period: LeaderboardPeriod = 'alltime',
+    seasonId?: number,
+  ): Promise<{ rank: number; score: number } | null> {
+    const key = await this.resolveBoardKey(period, seasonId);
+    if (!key) return null;
+    const score = await this.redisClient.zScore(key, playerId);
+    if (score === null) return null;
+    return { rank: await this.rankOfScore(key, score), score };
   }
 
   /**
-   * Refreshes all leaderboard caches by clearing all cached entries.
+   * Gets the most recent seasons, the current one first.
+   * @param limit - Maximum number of seasons to return (default: 10).
+   */
+  async getSeasons(limit: number = 10): Promise<Season[]> {
+    return this.seasonRepo.findRecent(limit);
+  }
+
+  /**
+   * Gets the archived final standings of a finished season.
+   * @param seasonId - The season.
+   * @param limit - Maximum number of players to return (default: 10).
+   * @param offset - How many players to skip (default: 0).
+   */
+  async getSeasonStandings(
+    seasonId: number,
+    limit: number = 10,
+    offset: number = 0,
+  ): Promise<LeaderboardEntry[]> {
+    const standings = await this.seasonRepo.findStandings(
+      seasonId,
+      limit,
+      offset,
+    );
+    return standings.map((standing) => ({
+      rank: standing.rank,
+      playerId: standing.playerId,
+      username: standing.profile?.username || 'Unknown',
+      score: standing.score,
+    }));
+  }
+
+  /**
+   * Ends the current season if it is over: its board is archived as final
+   * standings and the next season starts. Starts the first season if there
+   * is none. A Redis lock keeps two servers from rolling over at once.
+   * @param now - The current time.
+   * @param force - End the current season even if it has time left.
+   * @returns Promise resolving to the season started, or null if nothing
+   * changed.
+   */
+  async rolloverSeason(
+    now: Date = new Date(),
+    force: boolean = false,
+  ): Promise<Season | null> {
+    const token = randomUUID();
+    const locked = await this.redisClient.set(ROLLOVER_LOCK_KEY, token, {
+      NX: true,
+      EX: ROLLOVER_LOCK_SECONDS,
+    });
+    if (!locked) {
+      logger.info('Season rollover already running elsewhere');
+      return null;
+    }
+
+    try {
+      // Read the season under the lock so it is never archived twice
+      const current = await this.seasonRepo.findCurrent();
+      if (current && !force && current.endsAt > now) return null;
+
+      // Scores added between reading the board and the next season
+      // starting are left out of the final standings
+      const members = current
+        ? await this.redisClient.zRangeWithScores(
+          boardKey('season', now, current.id),
+          0,
+          -1,
+          { REV: true },
+        )
+        : [];
+      const next = await this.dataSource.transaction(async (manager) => {
+        if (current) {
+          const standings = this.rankMembers(members, 0).map(
+            ({ rank, value, score }) =>
+              manager.create(SeasonStanding, {
+                seasonId: current.id,
+                playerId: value,
+                rank,
+                score,
+              }),
+          );
+          for (let i = 0; i < standings.length; i += REBUILD_BATCH_SIZE) {
+            await manager.save(standings.slice(i, i + REBUILD_BATCH_SIZE));
+          }
+          current.archivedAt = now;
+          await manager.save(current);
+        }
+        const endsAt = new Date(
+          now.getTime() + this.config.seasonLengthDays * 24 * 60 * 60 * 1000,
+        );
+        return manager.save(
+          manager.create(Season, { startsAt: now, endsAt, archivedAt: null }),
+        );
+      });
+
+      await this.redisClient.set(CURRENT_SEASON_KEY, String(next.id));
+      if (current) {
+        await this.redisClient.del(boardKey('season', now, current.id));
+        logger.info(
+          `Season ${current.id} archived with ${members.length} players; season ${next.id} started`,
+        );
+      } else {
+        logger.info(`Season ${next.id} started`);
+      }
+      return next;
+    } finally {
+      await this.redisClient.eval(RELEASE_LOCK_SCRIPT, {
+        keys: [ROLLOVER_LOCK_KEY],
+        arguments: [token],
+      });
+    }
+  }
+
+  /**
+   * Runs the season rollover now and then periodically.
+   */
+  startSeasonJob(): void {
+    if (this.seasonInterval) return;
+    const run = () =>
+      this.rolloverSeason().catch((error) =>
+        logger.error('Season rollover failed:', error),
+      );
+    run();
+    this.seasonInterval = setInterval(run, this.config.seasonCheckIntervalMs);
+  }
+
+  /**
+   * Stops the periodic season rollover.
+   */
+  stopSeasonJob(): void {
+    if (this.seasonInterval) {
+      clearInterval(this.seasonInterval);
+      this.seasonInterval = null;
+    }
+  }
+
+  /**
+   * Fills the all-time board from the database if it is missing, e.g. after
+   * Redis lost its data. Daily, weekly and season boards cannot be rebuilt.
+   */
+  async ensureAllTimeBoard(): Promise<void> {
+    if ((await this.redisClient.exists(boardKey('alltime'))) === 0) {
+      await this.rebuildAllTimeBoard();
+    }
+  }
+
+  /**
+   * Clears the cached level and rating rankings and rebuilds the all-time
+   * score board from the database.
    * Useful for forcing a fresh lookup after bulk updates.
    */
   async refreshAllLeaderboards(): Promise<void> {
-    const keys = await this.redisClient.keys('leaderboard:*');
+    const keys = await this.redisClient.keys('leaderboard:top_*');
     if (keys.length > 0) {
       await this.redisClient.del(keys);
     }
+    await this.rebuildAllTimeBoard();
     logger.info('Refreshed all leaderboard caches');
   }
+
+  /**
+   * Replaces the all-time board with the scores stored in the database.
+   */
+  private async rebuildAllTimeBoard(): Promise<void> {
+    const key = boardKey('alltime');
+    const staging = `${key}:rebuild`;
+    await this.redisClient.del(staging);
+    let count = 0;
+    for (let skip = 0; ; skip += REBUILD_BATCH_SIZE) {
+      const stats = await this.statsRepo.find({
+        select: { playerId: true, score: true },
+        order: { playerId: 'ASC' },
+        skip,
+        take: REBUILD_BATCH_SIZE,
+      });
+      if (stats.length === 0) break;
+      await this.redisClient.zAdd(
+        staging,
+        stats.map((stat) => ({ score: stat.score, value: stat.playerId })),
+      );
+      count += stats.length;
+      if (stats.length < REBUILD_BATCH_SIZE) break;
+    }
+    // Swap the finished board in so readers never see a partial one
+    if (count > 0) {
+      await this.redisClient.rename(staging, key);
+    } else {
+      await this.redisClient.del(key);
+    }
+    logger.info(`Rebuilt all-time leaderboard with ${count} players`);
+  }
+
+  /**
+   * Finds the board for a period, or null if it is a season board and no
+   * season has started.
+   */
+  private async resolveBoardKey(
+    period: LeaderboardPeriod,
+    seasonId?: number,
+  ): Promise<string | null> {
+    if (period !== 'season') return boardKey(period);
+    const id = seasonId ?? (await this.getCurrentSeasonId());
+    return id === null ? null : boardKey('season', new Date(), id);
+  }
+
+  /**
+   * Reads the current season from Redis, falling back to the database.
+   */
+  private async getCurrentSeasonId(): Promise<number | null> {
+    const cached = await this.redisClient.get(CURRENT_SEASON_KEY);
+    if (cached) return parseInt(cached);
+    const season = await this.seasonRepo.findCurrent();
+    if (!season) return null;
+    await this.redisClient.set(CURRENT_SEASON_KEY, String(season.id));
+    return season.id;
+  }
+
+  /**
+   * Rank of a score on a board: one more than the number of higher scores.
+   */
+  private async rankOfScore(key: string, score: number): Promise<number> {
+    return 1 + (await this.redisClient.zCount(key, `(${score}`, '+inf'));
+  }
+
+  /**
+   * Numbers a slice of a board taken from position `start`, with equal
+   * scores sharing a rank. Only the first rank needs to be known.
+   */
+  private rankMembers(
+    members: Array<{ value: string; score: number }>,
+    start: number,
+    firstRank: number = start + 1,
+  ): Array<{ rank: number; value: string; score: number }> {
+    let rank = firstRank;
+    return members.map((member, i) => {
+      if (i > 0 && member.score !== members[i - 1].score) {
+        rank = start + i + 1;
+      }
+      return { rank, ...member };
+    });
+  }
+
+  /**
+   * Turns a slice of a board into entries with ranks and usernames.
+   */
+  private async toEntries(
+    key: string,
+    members: Array<{ value: string; score: number }>,
+    start: number,
+  ): Promise<LeaderboardEntry[]> {
+    if (members.length === 0) return [];
+    const firstRank =
+      start === 0 ? 1 : await this.rankOfScore(key, members[0].score);
+    const profiles = await this.profileRepo.find({
+      where: { id: In(members.map((member) => member.value)) },
+    });
+    const usernames = new Map(
+      profiles.map((profile) => [profile.id, profile.username]),
+    );
+    return this.rankMembers(members, start, firstRank).map(
+      ({ rank, value, score }) => ({
+        rank,
+        playerId: value,
+        username: usernames.get(value) || 'Unknown',
+        score,
+      }),
+    );
+  }
 }
@@ -0,0 +1,405 @@
+import { DataSource } from 'typeorm';
+import {
+  LevelRecord,
+  LevelRecordRepository,
+} from '../persistence/repositories/LevelRecordRepository';
+import { ServerLevelConfig, getLevelConfigs } from '../simulation/levels';
+import { logger } from '../utils/logger';
+
+export const LEVEL_BOARDS = ['time', 'score'] as const;
+
+/**
+ * What a level leaderboard ranks by: fastest time or highest score.
+ */
+export type LevelBoard = (typeof LEVEL_BOARDS)[number];
+
+/**
+ * Bounds a legitimate run of a level stays within.
+ */
+export interface LevelLimits {
+  /** Fastest possible completion, with perfect play. */
+  minTimeMs: number;
+  /** Slowest completion; the level's time limit where it has one. */
+  maxTimeMs: number;
+  /** Most points the level holds. */
+  maxScore: number;
+  /** Most points a player can earn per second on average. */
+  maxScorePerSecond: number;
+}
+
+/** Limits for what a level in the manifest does not set. */
+const DEFAULT_MIN_TIME_MS = 10 * 1000;
+const DEFAULT_MAX_TIME_MS = 60 * 60 * 1000;
+const DEFAULT_MAX_SCORE = 10000;
+const MAX_SCORE_PER_SECOND = 100;
+
+/**
+ * Works out a level's limits from its manifest entry: `minTime`,
+ * `timeLimit` and `maxScore`, with defaults for those it leaves out.
+ * @param level - The level as read from the manifest.
+ */
+export function getLevelLimits(level: ServerLevelConfig): LevelLimits {
+  return {
+    minTimeMs:
+      level.minTime !== undefined ? level.minTime * 1000 : DEFAULT_MIN_TIME_MS,
+    maxTimeMs:
+      level.timeLimit !== undefined
+        ? level.timeLimit * 1000
+        : DEFAULT_MAX_TIME_MS,
+    maxScore: level.maxScore ?? DEFAULT_MAX_SCORE,
+    maxScorePerSecond: MAX_SCORE_PER_SECOND,
+  };
+}
+
+/**
+ * Limits for every level in the manifest; runs of other levels are refused.
+ * @param levels - The manifest's levels (default: the server's manifest).
+ */
+export function loadLevelLimits(
+  levels: Record<number, ServerLevelConfig> = getLevelConfigs(),
+): Record<number, LevelLimits> {
+  const limits: Record<number, LevelLimits> = {};
+  for (const level of Object.values(levels)) {
+    limits[level.number] = getLevelLimits(level);
+  }
+  return limits;
+}
+
+/**
+ * A completed run as submitted by the client.
+ */
+export interface LevelResultSubmission {
+  timeMs: number;
+  score: number;
+  /** Free-form details of the run, e.g. coins collected or the client version. */
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A player's place on a level's leaderboards.
+ */
+export interface LevelStanding {
+  levelNumber: number;
+  bestTimeMs: number;
+  timeRank: number;
+  highScore: number;
+  scoreRank: number;
+  runs: number;
+}
+
+/**
+ * Outcome of submitting a run.
+ */
+export interface LevelResultOutcome {
+  standing: LevelStanding;
+  newBestTime: boolean;
+  newHighScore: boolean;
+}
+
+/**
+ * A row of a level leaderboard.
+ */
+export interface LevelBoardEntry {
+  rank: number;
+  playerId: string;
+  username: string;
+  timeMs: number;
+  score: number;
+}
+
+/**
+ * A level result or request that cannot be accepted.
+ */
+export class LevelRecordError extends Error {
+  /**
+   * @param status - HTTP status to answer with.
+   * @param details - Every problem found with the submission.
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'LevelRecordError';
+  }
+}
+
+const RESULT_FIELDS = ['timeMs', 'score', 'metadata'];
+const METADATA_KEY_PATTERN = /^[A-Za-z0-9_]{1,32}$/;
+const MAX_METADATA_KEYS = 20;
+const MAX_METADATA_TEXT = 100;
+/** Allowance for clocks when comparing a run's time with the time between submissions. */
+const SUBMISSION_SLACK_MS = 2000;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMetadataValue = (value: unknown): boolean =>
+  typeof value === 'boolean' ||
+  (typeof value === 'number' && Number.isFinite(value)) ||
+  (typeof value === 'string' && value.length <= MAX_METADATA_TEXT);
+
+/**
+ * Lists the problems with the shape of a submitted run.
+ * @param value - The submission to check.
+ * @returns Every problem found; empty when the submission is well formed.
+ */
+export function validateLevelResult(value: unknown): string[] {
+  if (!isPlainObject(value)) return ['result must be an object'];
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!RESULT_FIELDS.includes(key)) {
+      errors.push(`unknown field "${key}"`);
+    }
+  }
+  if (!Number.isInteger(value.timeMs) || value.timeMs < 1) {
+    errors.push('timeMs must be a whole number of at least 1');
+  }
+  if (!Number.isInteger(value.score) || value.score < 0) {
+    errors.push('score must be a whole number of at least 0');
+  }
+  if ('metadata' in value) {
+    const { metadata } = value;
+    if (!isPlainObject(metadata)) {
+      errors.push('metadata must be an object');
+    } else {
+      const entries = Object.entries(metadata);
+      if (entries.length > MAX_METADATA_KEYS) {
+        errors.push(`metadata may have at most ${MAX_METADATA_KEYS} fields`);
+      }
+      for (const [key, item] of entries) {
+        if (!METADATA_KEY_PATTERN.test(key) || !isMetadataValue(item)) {
+          errors.push(
+            `metadata.${key} must be a boolean, number or short string`,
+          );
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Lists the reasons a well-formed run could not have happened.
+ * @param result - The submitted run.
+ * @param limits - The level's limits.
+ */
+export function checkPlausibility(
+  result: LevelResultSubmission,
+  limits: LevelLimits,
+): string[] {
+  const errors: string[] = [];
+  if (result.timeMs < limits.minTimeMs) {
+    errors.push(`timeMs is below the fastest possible ${limits.minTimeMs}`);
+  }
+  if (result.timeMs > limits.maxTimeMs) {
+    errors.push(`timeMs is above the level's limit of ${limits.maxTimeMs}`);
+  }
+  if (result.score > limits.maxScore) {
+    errors.push(`score is above the level's maximum of ${limits.maxScore}`);
+  }
+  if (result.score > (result.timeMs / 1000) * limits.maxScorePerSecond) {
+    errors.push('score was earned faster than the level allows');
+  }
+  return errors;
+}
+
+/**
+ * Service for per-level records: each player's best time and high score on
+ * every level, and the leaderboards ranking them.
+ */
+export class LevelRecordService {
+  /**
+   * Creates a new LevelRecordService instance.
+   * @param dataSource - The TypeORM data source for database transactions.
+   * @param recordRepo - Repository for level records.
+   * @param levelLimits - Plausibility limits by level number (default: from
+   * the level manifest).
+   */
+  constructor(
+    private dataSource: DataSource,
+    private recordRepo: LevelRecordRepository,
+    private levelLimits: Record<number, LevelLimits> = loadLevelLimits(),
+  ) {}
+
+  /**
+   * Records a completed run, keeping it if it beats the player's best time
+   * or high score on the level.
+   * @param playerId - The unique identifier of the player.
+   * @param levelNumber - The level completed.
+   * @param result - The run, already checked with `validateLevelResult`.
+   * @param now - When the run was submitted.
+   * @returns Promise resolving to the player's standing and what improved.
+   * @throws LevelRecordError if the level is unknown or the run implausible.
+   */
+  async submitResult(
+    playerId: string,
+    levelNumber: number,
+    result: LevelResultSubmission,
+    now: Date = new Date(),
+  ): Promise<LevelResultOutcome> {
+    const limits = this.getLimits(levelNumber);
+    const problems = checkPlausibility(result, limits);
+    if (problems.length > 0) {
+      logger.warn(
+        `Rejected level ${levelNumber} run from ${playerId}: ${problems.join('; ')}`,
+      );
+      throw new LevelRecordError('Implausible result', 422, problems);
+    }
+
+    const outcome = await this.dataSource.transaction(async (manager) => {
+      const existing = await manager.findOne(LevelRecord, {
+        where: { playerId, levelNumber },
+        lock: { mode: 'pessimistic_write' },
+      });
+      // A run cannot end sooner after the last one than it took to play
+      if (
+        existing &&
+        now.getTime() - existing.lastRunAt.getTime() + SUBMISSION_SLACK_MS <
+          result.timeMs
+      ) {
+        throw new LevelRecordError('Implausible result', 422, [
+          'run finished too soon after the previous one',
+        ]);
+      }
+
+      const record =
+        existing ??
+        manager.create(LevelRecord, {
+          playerId,
+          levelNumber,
+          bestTimeMs: result.timeMs,
+          bestTimeAt: now,
+          highScore: result.score,
+          highScoreAt: now,
+          runs: 0,
+        });
+      const newBestTime = !existing || result.timeMs < existing.bestTimeMs;
+      const newHighScore = !existing || result.score > existing.highScore;
+      if (newBestTime) {
+        record.bestTimeMs = result.timeMs;
+        record.bestTimeAt = now;
+      }
+      if (newHighScore) {
+        record.highScore = result.score;
+        record.highScoreAt = now;
+      }
+      record.runs += 1;
+      record.lastRunAt = now;
+      record.lastRunMetadata = result.metadata ?? {};
+      await manager.save(record);
+      return { record, newBestTime, newHighScore };
+    });
+
+    return {
+      standing: await this.toStanding(outcome.record),
+      newBestTime: outcome.newBestTime,
+      newHighScore: outcome.newHighScore,
+    };
+  }
+
+  /**
+   * Gets the top of a level's leaderboard. Equal times or scores share a
+   * rank.
+   * @param levelNumber - The level.
+   * @param board - Rank by fastest time or highest score.
+   * @param limit - Maximum number of players to return (default: 10).
+   * @throws LevelRecordError if the level is unknown.
+   */
+  async getLeaderboard(
+    levelNumber: number,
+    board: LevelBoard,
+    limit: number = 10,
+  ): Promise<LevelBoardEntry[]> {
+    this.getLimits(levelNumber);
+    const records =
+      board === 'time'
+        ? await this.recordRepo.findFastest(levelNumber, limit)
+        : await this.recordRepo.findHighestScoring(levelNumber, limit);
+    const value = (record: LevelRecord) =>
+      board === 'time' ? record.bestTimeMs : record.highScore;
+
+    let rank = 1;
+    return records.map((record, i) => {
+      if (i > 0 && value(record) !== value(records[i - 1])) rank = i + 1;
+      return {
+        rank,
+        playerId: record.playerId,
+        username: record.profile?.username || 'Unknown',
+        timeMs: record.bestTimeMs,
+        score: record.highScore,
+      };
+    });
+  }
+
+  /**
+   * Gets a player's standing on a level.
+   * @param playerId - The unique identifier of the player.
+   * @param levelNumber - The level.
+   * @returns Promise resolving to the standing, or null if the player has
+   * not completed the level.
+   * @throws LevelRecordError if the level is unknown.
+   */
+  async getStanding(
+    playerId: string,
+    levelNumber: number,
+  ): Promise<LevelStanding | null> {
+    this.getLimits(levelNumber);
+    const record = await this.recordRepo.findByPlayerAndLevel(
+      playerId,
+      levelNumber,
+    );
+    return record ? this.toStanding(record) : null;
+  }
+
+  /**
+   * Checks whether a player has a run of a level on record that was
+   * submitted, and so passed validation, no earlier than a given time.
+   * @param playerId - The unique identifier of the player.
+   * @param levelNumber - The level.
+   * @param since - The earliest submission that counts.
+   */
+  async hasRunSince(
+    playerId: string,
+    levelNumber: number,
+    since: Date,
+  ): Promise<boolean> {
+    if (!this.levelLimits[levelNumber]) return false;
+    const record = await this.recordRepo.findByPlayerAndLevel(
+      playerId,
+      levelNumber,
+    );
+    return !!record && record.lastRunAt.getTime() >= since.getTime();
+  }
+
+  /**
+   * Looks up a level's limits.
+   * @throws LevelRecordError if the level is unknown.
+   */
+  private getLimits(levelNumber: number): LevelLimits {
+    const limits = this.levelLimits[levelNumber];
+    if (!limits) {
+      throw new LevelRecordError(`Level ${levelNumber} not found`, 404);
+    }
+    return limits;
+  }
+
+  /**
+   * Ranks a record on both of its level's leaderboards.
+   */
+  private async toStanding(record: LevelRecord): Promise<LevelStanding> {
+    const [faster, higher] = await Promise.all([
+      this.recordRepo.countFasterThan(record.levelNumber, record.bestTimeMs),
+      this.recordRepo.countHigherThan(record.levelNumber, record.highScore),
+    ]);
+    return {
+      levelNumber: record.levelNumber,
+      bestTimeMs: record.bestTimeMs,
+      timeRank: faster + 1,
+      highScore: record.highScore,
+      scoreRank: higher + 1,
+      runs: record.runs,
+    };
+  }
+}
@@ -1,17 +1,62 @@
-import { DataSource } from 'typeorm';
+import { Between, DataSource, EntityManager, In, IsNull } from 'typeorm';
 import { PlayerProfileRepository } from '../persistence/repositories/PlayerProfileRepository';
 import { PlayerStatsRepository } from '../persistence/repositories/PlayerStatsRepository';
 import { PlayerUnlockRepository } from '../persistence/repositories/PlayerUnlockRepository';
 import { AchievementProgressRepository } from '../persistence/repositories/AchievementProgressRepository';
 import { UnlockableRepository } from '../persistence/repositories/UnlockableRepository';
 import { Achievement } from '../persistence/models/Achievement';
+import { AchievementProgress } from '../persistence/models/AchievementProgress';
+import { PlayerProfile } from '../persistence/models/PlayerProfile';
+import { PlayerUnlock } from '../persistence/models/PlayerUnlock';
+import { Unlockable } from '../persistence/models/Unlockable';
+import { LevelUpEvent } from '../network/events/eventTypes';
+import {
+  DEFAULT_EXPERIENCE_CURVE,
+  ExperienceCurve,
+  experienceForLevel,
+  levelForExperience,
+} from './ExperienceCurve';
 import { logger } from '../utils/logger';
 
+/**
+ * Experience curve and how much experience each activity is worth.
+ */
+export interface ExperienceConfig {
+  curve: ExperienceCurve;
+  /** For finishing a match, whatever the result. */
+  matchPlayedXp: number;
+  /** Extra for winning a match. */
+  matchWonXp: number;
+  /** For reaching the end of a level. */
+  levelCompleteXp: number;
+}
+
+export const DEFAULT_EXPERIENCE_CONFIG: ExperienceConfig = {
+  curve: DEFAULT_EXPERIENCE_CURVE,
+  matchPlayedXp: 50,
+  matchWonXp: 100,
+  levelCompleteXp: 100,
+};
+
+/**
+ * Outcome of awarding experience.
+ */
+export interface ExperienceResult {
+  playerId: string;
+  experience: number;
+  level: number;
+  previousLevel: number;
+  /** Unlockables granted by the levels gained. */
+  unlocked: Unlockable[];
+}
+
 /**
  * Service for managing player progression, stats, unlocks, and achievements.
  * Handles player leveling, stat tracking, unlockable content, and achievement progress.
  */
 export class ProgressionService {
+  private experienceConfig: ExperienceConfig;
+
   /**
    * Creates a new ProgressionService instance.
    * @param dataSource - The TypeORM data source for database transactions.
@@ -20,6 +65,7 @@ export class ProgressionService {
    * @param unlockRepo - Repository for player unlocks.
    * @param achievementProgressRepo - Repository for achievement progress.
    * @param unlockableRepo - Repository for unlockable content.
+   * @param experienceConfig - Overrides for the default experience curve and rewards.
    */
   constructor(
     private dataSource: DataSource,
@@ -28,7 +74,13 @@ export class ProgressionService {
     private unlockRepo: PlayerUnlockRepository,
     private achievementProgressRepo: AchievementProgressRepository,
     private unlockableRepo: UnlockableRepository,
-  ) {}
+    experienceConfig: Partial<ExperienceConfig> = {},
+  ) {
+    this.experienceConfig = {
+      ...DEFAULT_EXPERIENCE_CONFIG,
+      ...experienceConfig,
+    };
+  }
 
   /**
    * Initializes a new player's progression data.
@@ -127,7 +179,8 @@ export class ProgressionService {
   }
 
   /**
-   * Checks if a player has leveled up based on experience and grants appropriate unlocks.
+   * Checks if a player has leveled up based on experience and grants the
+   * unlockables of every level gained.
    * @param playerId - The unique identifier of the player.
    * @returns Promise resolving to true if player leveled up, false otherwise.
    */
@@ -135,13 +188,18 @@ export class ProgressionService {
     const profile = await this.profileRepo.findOne({ where: { id: playerId } });
     if (!profile) return false;
     const oldLevel = profile.level;
-    const newLevel = Math.floor(Math.sqrt(profile.experience / 100)) + 1;
+    const newLevel = levelForExperience(
+      profile.experience,
+      this.experienceConfig.curve,
+    );
     if (newLevel > oldLevel) {
       profile.level = newLevel;
       await this.profileRepo.save(profile);
-      // Grant unlockables that require this level
-      const unlockables =
-        await this.unlockableRepo.findUnlockablesByRequiredLevel(newLevel);
+      // Grant unlockables that require any of the levels gained
+      const unlockables = await this.unlockableRepo.findUnlockablesForLevels(
+        oldLevel + 1,
+        newLevel,
+      );
       for (const unlockable of unlockables) {
         await this.grantUnlock(playerId, unlockable.id);
       }
@@ -150,6 +208,160 @@ export class ProgressionService {
     return false;
   }
 
+  /**
+   * Adds experience to a player and levels them up as far as it reaches.
+   * The profile is locked for the update, and the unlockables of every level
+   * gained are granted in the same transaction.
+   * @param playerId - The unique identifier of the player.
+   * @param amount - The experience to add.
+   * @returns Promise resolving to the player's new experience and level.
+   * @throws Error if player profile doesn't exist.
+   */
+  async awardExperience(
+    playerId: string,
+    amount: number,
+  ): Promise<ExperienceResult> {
+    const result = await this.dataSource.transaction(async (manager) => {
+      const profile = await manager.findOne(PlayerProfile, {
+        where: { id: playerId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!profile) {
+        throw new Error(`Player profile ${playerId} not found`);
+      }
+      const previousLevel = profile.level;
+      profile.experience += Math.max(0, Math.round(amount));
+      // Levels are never taken away, even if the curve is made steeper
+      profile.level = Math.max(
+        previousLevel,
+        levelForExperience(profile.experience, this.experienceConfig.curve),
+      );
+      const unlocked =
+        profile.level > previousLevel
+          ? await this.grantLevelUnlocks(
+            manager,
+            playerId,
+            previousLevel + 1,
+            profile.level,
+          )
+          : [];
+      await manager.save(profile);
+      return {
+        playerId,
+        experience: profile.experience,
+        level: profile.level,
+        previousLevel,
+        unlocked,
+      };
+    });
+    if (result.level > result.previousLevel) {
+      logger.info(
+        `Player ${playerId} reached level ${result.level} (from ${result.previousLevel})`,
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Awards the experience for a finished match.
+   * @param playerId - The unique identifier of the player.
+   * @param won - Whether the player won the match.
+   */
+  async awardMatchExperience(
+    playerId: string,
+    won: boolean,
+  ): Promise<ExperienceResult> {
+    const { matchPlayedXp, matchWonXp } = this.experienceConfig;
+    return this.awardExperience(
+      playerId,
+      matchPlayedXp + (won ? matchWonXp : 0),
+    );
+  }
+
+  /**
+   * Awards the experience for reaching the end of a level.
+   * @param playerId - The unique identifier of the player.
+   */
+  async awardLevelCompleteExperience(
+    playerId: string,
+  ): Promise<ExperienceResult> {
+    return this.awardExperience(
+      playerId,
+      this.experienceConfig.levelCompleteXp,
+    );
+  }
+
+  /**
+   * Builds the payload that tells a player they levelled up.
+   * @param result - The experience award that raised their level.
+   */
+  toLevelUpEvent(result: ExperienceResult): LevelUpEvent {
+    const { curve } = this.experienceConfig;
+    return {
+      level: result.level,
+      previousLevel: result.previousLevel,
+      experience: result.experience,
+      nextLevelXp:
+        result.level < curve.maxLevel
+          ? experienceForLevel(result.level + 1, curve)
+          : null,
+      unlocked: result.unlocked.map((unlockable) => ({
+        id: unlockable.id,
+        code: unlockable.code,
+        name: unlockable.name,
+        type: unlockable.type,
+      })),
+    };
+  }
+
+  /**
+   * Grants the unlockables of a range of levels within a transaction.
+   * Retired unlockables, ones that also need an achievement, and ones the
+   * player already owns are skipped.
+   * @param manager - The transaction's entity manager.
+   * @param playerId - The unique identifier of the player.
+   * @param fromLevel - The first level gained.
+   * @param toLevel - The level reached.
+   * @returns Promise resolving to the unlockables granted.
+   */
+  private async grantLevelUnlocks(
+    manager: EntityManager,
+    playerId: string,
+    fromLevel: number,
+    toLevel: number,
+  ): Promise<Unlockable[]> {
+    const unlockables = await manager.find(Unlockable, {
+      where: {
+        requiredLevel: Between(fromLevel, toLevel),
+        requiredAchievementId: IsNull(),
+        retiredAt: IsNull(),
+      },
+    });
+    if (unlockables.length === 0) return [];
+
+    const owned = await manager.find(PlayerUnlock, {
+      where: {
+        playerId,
+        unlockableId: In(unlockables.map((unlockable) => unlockable.id)),
+      },
+    });
+    const ownedIds = new Set(owned.map((unlock) => unlock.unlockableId));
+    const granted = unlockables.filter(
+      (unlockable) => !ownedIds.has(unlockable.id),
+    );
+    for (const unlockable of granted) {
+      await manager.save(
+        manager.create(PlayerUnlock, {
+          playerId,
+          unlockableId: unlockable.id,
+          unlockedAt: new Date(),
+          notified: false,
+        }),
+      );
+    }
+    return granted;
+  }
+
   /**
    * Increments progress toward an achievement.
    * @param playerId - The unique identifier of the player.
@@ -175,6 +387,105 @@ export class ProgressionService {
     );
   }
 
+  /**
+   * Advances a player's progress on several achievements at once.
+   * Achievements that reach their required value are completed and their
+   * reward coins and unlockable granted in the same transaction, so a
+   * completion is never saved without its rewards. The profile is locked for
+   * the update, as in `awardExperience`, so concurrent updates for the same
+   * player wait for each other. Completed achievements are left untouched.
+   * @param playerId - The unique identifier of the player.
+   * @param achievements - The achievements to progress.
+   * @param amount - The amount to add, or the value reached when keepBest is set.
+   * @param keepBest - Whether progress is the best single value (e.g. longest combo) rather than a running total.
+   * @returns Promise resolving to the achievements completed by this update.
+   * @throws Error if player profile doesn't exist.
+   */
+  async advanceAchievements(
+    playerId: string,
+    achievements: Achievement[],
+    amount: number,
+    keepBest: boolean = false,
+  ): Promise<Achievement[]> {
+    return this.dataSource.transaction(async (manager) => {
+      const profile = await manager.findOne(PlayerProfile, {
+        where: { id: playerId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!profile) {
+        throw new Error(`Player profile ${playerId} not found`);
+      }
+      const completed: Achievement[] = [];
+      for (const achievement of achievements) {
+        const existing = await manager.findOne(AchievementProgress, {
+          where: { playerId, achievementId: achievement.id },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (existing?.completed) continue;
+
+        const progress =
+          existing ??
+          manager.create(AchievementProgress, {
+            playerId,
+            achievementId: achievement.id,
+            progress: 0,
+            completed: false,
+            completedAt: null,
+          });
+        progress.progress = keepBest
+          ? Math.max(progress.progress, amount)
+          : progress.progress + amount;
+
+        if (progress.progress >= achievement.requiredValue) {
+          progress.completed = true;
+          progress.completedAt = new Date();
+          await this.grantAchievementRewards(manager, playerId, achievement);
+          completed.push(achievement);
+        }
+        await manager.save(progress);
+      }
+      return completed;
+    });
+  }
+
+  /**
+   * Grants an achievement's reward coins and unlockable within a transaction.
+   * @param manager - The transaction's entity manager.
+   * @param playerId - The unique identifier of the player.
+   * @param achievement - The completed achievement.
+   */
+  private async grantAchievementRewards(
+    manager: EntityManager,
+    playerId: string,
+    achievement: Achievement,
+  ): Promise<void> {
+    if (achievement.rewardCoins > 0) {
+      await manager.increment(
+        PlayerProfile,
+        { id: playerId },
+        'coins',
+        achievement.rewardCoins,
+      );
+    }
+    const unlockableId = achievement.rewardUnlockableId;
+    if (unlockableId) {
+      const owned = await manager.findOne(PlayerUnlock, {
+        where: { playerId, unlockableId },
+      });
+      if (!owned) {
+        await manager.save(
+          manager.create(PlayerUnlock, {
+            playerId,
+            unlockableId,
+            unlockedAt: new Date(),
+            notified: false,
+          }),
+        );
+      }
+    }
+    logger.info(`Player ${playerId} completed achievement ${achievement.code}`);
+  }
+
   /**
    * Gets a comprehensive summary of a player's progression.
    * Includes profile, stats, unlocks, and achievements.
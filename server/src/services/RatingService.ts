@@ -0,0 +1,125 @@
+import { DataSource } from 'typeorm';
+import { PlayerRatingRepository } from '../persistence/repositories/PlayerRatingRepository';
+import { PlayerRating } from '../persistence/models/PlayerRating';
+import { MatchResult } from '../types/matchmaking';
+import {
+  DEFAULT_GLICKO2_RATING,
+  Glicko2Rating,
+  resultsFromPlacements,
+  updateGlicko2,
+} from './Glicko2';
+import { logger } from '../utils/logger';
+
+/**
+ * Service for per-mode player skill ratings.
+ * Ratings use Glicko-2 and are updated once per finished match.
+ */
+export class RatingService {
+  /**
+   * Creates a new RatingService instance.
+   * @param dataSource - The TypeORM data source for database transactions.
+   * @param ratingRepo - Repository for player ratings.
+   */
+  constructor(
+    private dataSource: DataSource,
+    private ratingRepo: PlayerRatingRepository,
+  ) {}
+
+  /**
+   * Gets a player's rating in a game mode.
+   * Players who have not played the mode get the default rating.
+   * @param playerId - The unique identifier of the player.
+   * @param gameMode - The game mode to look up.
+   * @returns Promise resolving to the player's rating.
+   */
+  async getRating(playerId: string, gameMode: string): Promise<Glicko2Rating> {
+    const record = await this.ratingRepo.findByPlayerAndMode(
+      playerId,
+      gameMode,
+    );
+    return record ? this.toGlicko2(record) : { ...DEFAULT_GLICKO2_RATING };
+  }
+
+  /**
+   * Updates ratings from a finished match.
+   * Each player is rated as having played every other player: a better rank
+   * wins, an equal rank draws. All updates use the pre-match ratings and are
+   * saved together. Guests are left out of the match entirely.
+   * @param result - The match outcome.
+   * @returns Promise resolving to the updated ratings, empty if the match was unrated.
+   */
+  async recordMatchResult(result: MatchResult): Promise<PlayerRating[]> {
+    const placements = new Map<string, number>();
+    for (const { playerId, rank } of result.standings) {
+      if (!playerId.startsWith('guest_')) {
+        placements.set(playerId, rank);
+      }
+    }
+    if (placements.size < 2) {
+      return [];
+    }
+
+    const playerIds = [...placements.keys()];
+    const existing = await this.ratingRepo.findByPlayersAndMode(
+      playerIds,
+      result.gameMode,
+    );
+    const records = new Map(
+      existing.map((record) => [record.playerId, record]),
+    );
+    const before = new Map<string, Glicko2Rating>();
+    for (const playerId of playerIds) {
+      const record = records.get(playerId);
+      before.set(
+        playerId,
+        record ? this.toGlicko2(record) : { ...DEFAULT_GLICKO2_RATING },
+      );
+    }
+
+    const updated = playerIds.map((playerId) => {
+      const record =
+        records.get(playerId) ??
+        this.ratingRepo.create({
+          playerId,
+          gameMode: result.gameMode,
+          gamesPlayed: 0,
+          wins: 0,
+          losses: 0,
+        });
+      const next = updateGlicko2(
+        before.get(playerId)!,
+        resultsFromPlacements(playerId, placements, before),
+      );
+      record.rating = next.rating;
+      record.deviation = next.deviation;
+      record.volatility = next.volatility;
+      record.gamesPlayed += 1;
+      if (placements.get(playerId) === 1) {
+        record.wins += 1;
+      } else {
+        record.losses += 1;
+      }
+      return record;
+    });
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.save(updated);
+    });
+    logger.info(
+      `Updated ${result.gameMode} ratings for ${updated.length} players after room ${result.roomId}`,
+    );
+    return updated;
+  }
+
+  /**
+   * Extracts the Glicko-2 values from a stored rating.
+   * @param record - The stored rating.
+   */
+  private toGlicko2(record: PlayerRating): Glicko2Rating {
+    return {
+      rating: record.rating,
+      deviation: record.deviation,
+      volatility: record.volatility,
+    };
+  }
+}
@@ -0,0 +1,263 @@
+import { DataSource } from 'typeorm';
+import {
+  SaveSlot,
+  SaveSlotRepository,
+} from '../persistence/repositories/SaveSlotRepository';
+import { isUniqueViolation } from '../utils/dbErrors';
+import { logger } from '../utils/logger';
+
+/**
+ * Slots a player can store: the client's autosave and its five manual slots.
+ */
+export const SAVE_SLOTS = ['auto', '0', '1', '2', '3', '4'] as const;
+
+export type SaveSlotName = (typeof SAVE_SLOTS)[number];
+
+/** Largest save accepted, as serialized JSON. */
+export const MAX_SAVE_BYTES = 64 * 1024;
+
+/**
+ * Where a stored slot stands, without its data.
+ */
+export interface SaveSlotSummary {
+  slot: string;
+  revision: number;
+  /** When the client made the save, in ms since the epoch. */
+  savedAt: number;
+  deleted: boolean;
+}
+
+/**
+ * A stored slot with its data.
+ */
+export interface StoredSave extends SaveSlotSummary {
+  data: Record<string, any>;
+}
+
+/**
+ * A save write as sent by the client.
+ */
+export interface SaveWrite {
+  data: Record<string, any>;
+  /** The revision the client last saw; 0 for a slot it has never stored. */
+  baseRevision: number;
+}
+
+/**
+ * A save request that cannot be carried out.
+ */
+export class SaveStorageError extends Error {
+  /**
+   * @param status - HTTP status to answer with.
+   * @param details - Every problem found with the request.
+   */
+  constructor(
+    message: string,
+    public status: number,
+    public details: string[] = [],
+  ) {
+    super(message);
+    this.name = 'SaveStorageError';
+  }
+}
+
+/**
+ * A write based on an out-of-date revision: another device changed the slot
+ * since the client last synced it.
+ */
+export class SaveConflictError extends SaveStorageError {
+  /**
+   * @param current - The slot as stored now.
+   */
+  constructor(public current: SaveSlotSummary) {
+    super('Save conflict', 409);
+    this.name = 'SaveConflictError';
+  }
+}
+
+const WRITE_FIELDS = ['data', 'baseRevision'];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists the problems with the shape of a save write.
+ * @param value - The request body to check.
+ * @returns Every problem found; empty when the write is well formed.
+ */
+export function validateSaveWrite(value: unknown): string[] {
+  if (!isPlainObject(value)) return ['body must be an object'];
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!WRITE_FIELDS.includes(key)) {
+      errors.push(`unknown field "${key}"`);
+    }
+  }
+  if (!Number.isInteger(value.baseRevision) || value.baseRevision < 0) {
+    errors.push('baseRevision must be a whole number of at least 0');
+  }
+  const { data } = value;
+  if (!isPlainObject(data)) {
+    errors.push('data must be an object');
+    return errors;
+  }
+  if (typeof data.version !== 'string') {
+    errors.push('data.version must be a string');
+  }
+  if (!Number.isInteger(data.timestamp) || data.timestamp <= 0) {
+    errors.push('data.timestamp must be a positive whole number');
+  }
+  if (!isPlainObject(data.player)) {
+    errors.push('data.player must be an object');
+  }
+  if (Buffer.byteLength(JSON.stringify(data)) > MAX_SAVE_BYTES) {
+    errors.push(`data must be at most ${MAX_SAVE_BYTES} bytes`);
+  }
+  return errors;
+}
+
+/**
+ * Service for cloud saves: keeps a copy of each of a player's save slots so
+ * progress follows them between devices. Every write names the revision it
+ * is based on, and writes based on an older revision are refused, so one
+ * device never silently overwrites another's progress.
+ */
+export class SaveStorageService {
+  /**
+   * Creates a new SaveStorageService instance.
+   * @param dataSource - The TypeORM data source for database transactions.
+   * @param saveSlotRepo - Repository for stored save slots.
+   */
+  constructor(
+    private dataSource: DataSource,
+    private saveSlotRepo: SaveSlotRepository,
+  ) {}
+
+  /**
+   * Lists the player's stored slots, including deleted ones.
+   * @param playerId - The unique identifier of the player.
+   */
+  async listSaves(playerId: string): Promise<SaveSlotSummary[]> {
+    const slots = await this.saveSlotRepo.findByPlayer(playerId);
+    return slots.map((slot) => this.toSummary(slot));
+  }
+
+  /**
+   * Gets a stored slot with its data.
+   * @param playerId - The unique identifier of the player.
+   * @param slot - The slot name.
+   * @throws SaveStorageError if the slot is empty or deleted.
+   */
+  async getSave(playerId: string, slot: SaveSlotName): Promise<StoredSave> {
+    const stored = await this.saveSlotRepo.findByPlayerAndSlot(playerId, slot);
+    if (!stored || stored.deleted || !stored.data) {
+      throw new SaveStorageError(`Save slot ${slot} is empty`, 404);
+    }
+    return { ...this.toSummary(stored), data: stored.data };
+  }
+
+  /**
+   * Stores a save in a slot.
+   * @param playerId - The unique identifier of the player.
+   * @param slot - The slot name.
+   * @param write - The save, already checked with `validateSaveWrite`.
+   * @returns Promise resolving to the slot's new summary.
+   * @throws SaveConflictError if the slot has moved past `baseRevision`,
+   * including when another device created it first.
+   */
+  async putSave(
+    playerId: string,
+    slot: SaveSlotName,
+    write: SaveWrite,
+  ): Promise<SaveSlotSummary> {
+    let saved: SaveSlot;
+    try {
+      saved = await this.dataSource.transaction(async (manager) => {
+        const existing = await manager.findOne(SaveSlot, {
+          where: { playerId, slot },
+          lock: { mode: 'pessimistic_write' },
+        });
+        this.checkRevision(slot, existing, write.baseRevision);
+
+        const record = existing ?? manager.create(SaveSlot, { playerId, slot });
+        record.data = write.data;
+        record.revision = (existing?.revision ?? 0) + 1;
+        record.savedAt = new Date(write.data.timestamp);
+        record.deleted = false;
+        return manager.save(record);
+      });
+    } catch (error) {
+      // An empty slot has no row to lock, so two first writes can both get
+      // here; the unique index lets only one of them in
+      if (!isUniqueViolation(error)) throw error;
+      const current = await this.saveSlotRepo.findByPlayerAndSlot(
+        playerId,
+        slot,
+      );
+      if (!current) throw error;
+      throw new SaveConflictError(this.toSummary(current));
+    }
+    logger.info(
+      `Stored save slot ${slot} for ${playerId} at revision ${saved.revision}`,
+    );
+    return this.toSummary(saved);
+  }
+
+  /**
+   * Deletes a stored slot, leaving a tombstone for other devices to sync.
+   * @param playerId - The unique identifier of the player.
+   * @param slot - The slot name.
+   * @param baseRevision - The revision the client last saw.
+   * @returns Promise resolving to the slot's new summary.
+   * @throws SaveStorageError if the slot is empty, or SaveConflictError if
+   * it has moved past `baseRevision`.
+   */
+  async deleteSave(
+    playerId: string,
+    slot: SaveSlotName,
+    baseRevision: number,
+  ): Promise<SaveSlotSummary> {
+    const deleted = await this.dataSource.transaction(async (manager) => {
+      const existing = await manager.findOne(SaveSlot, {
+        where: { playerId, slot },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!existing || existing.deleted) {
+        throw new SaveStorageError(`Save slot ${slot} is empty`, 404);
+      }
+      this.checkRevision(slot, existing, baseRevision);
+
+      existing.data = null;
+      existing.deleted = true;
+      existing.revision += 1;
+      return manager.save(existing);
+    });
+    return this.toSummary(deleted);
+  }
+
+  /**
+   * Refuses a write based on anything but the slot's current revision.
+   * @throws SaveConflictError if the revisions differ.
+   */
+  private checkRevision(
+    slot: SaveSlotName,
+    existing: SaveSlot | null,
+    baseRevision: number,
+  ): void {
+    if ((existing?.revision ?? 0) === baseRevision) return;
+    throw new SaveConflictError(
+      existing
+        ? this.toSummary(existing)
+        : { slot, revision: 0, savedAt: 0, deleted: true },
+    );
+  }
+
+  private toSummary(slot: SaveSlot): SaveSlotSummary {
+    return {
+      slot: slot.slot,
+      revision: slot.revision,
+      savedAt: slot.savedAt.getTime(),
+      deleted: slot.deleted,
+    };
+  }
+}
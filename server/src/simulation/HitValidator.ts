@@ -0,0 +1,191 @@
+import { HitBox } from './StateHistory';
+
+/**
+ * Tunable limits for server-side hit validation.
+ */
+export interface CombatConfig {
+  /** Reach of a melee swing, measured from the point in front of the attacker. */
+  meleeRange: number;
+  /** How far in front of the attacker's centre a swing is aimed. */
+  meleeOffset: number;
+  meleeDamage: number;
+  projectileDamage: number;
+  /** Collision radius of a projectile in pixels. */
+  projectileRadius: number;
+  /** Fastest projectile a client may claim, in pixels per second. */
+  maxProjectileSpeed: number;
+  /** Longest projectile flight a client may claim, in milliseconds. */
+  maxProjectileFlightMs: number;
+  /** How far a projectile may start from the attacker's centre. */
+  maxProjectileOriginDistance: number;
+  /** Minimum time between two attacks by the same player, in milliseconds. */
+  attackCooldownMs: number;
+  /** Render delay of remote entities on the client, in milliseconds. */
+  interpolationDelayMs: number;
+  /** Furthest the server will rewind for a single attack, in milliseconds. */
+  maxRewindMs: number;
+  /** Longest gap between hits that keeps a combo going, in milliseconds. */
+  comboWindowMs: number;
+}
+
+/**
+ * Defaults matching the client: melee reach from `GameScene.handlePlayerAttack`,
+ * projectile speed and lifetime from `PooledProjectile`, the
+ * `InterpolationService` delay and the combo decay time of `Player`.
+ */
+export const DEFAULT_COMBAT_CONFIG: CombatConfig = {
+  meleeRange: 80,
+  meleeOffset: 40,
+  meleeDamage: 10,
+  projectileDamage: 10,
+  projectileRadius: 8,
+  maxProjectileSpeed: 600,
+  maxProjectileFlightMs: 3000,
+  maxProjectileOriginDistance: 48,
+  attackCooldownMs: 200,
+  interpolationDelayMs: 100,
+  maxRewindMs: 400,
+  comboWindowMs: 2000,
+};
+
+/**
+ * A projectile hit claimed by a client.
+ */
+export interface ProjectileShot {
+  origin: { x: number; y: number };
+  /** Velocity in pixels per second. */
+  velocity: { x: number; y: number };
+  /** Time from firing to impact, in milliseconds. */
+  flightMs: number;
+}
+
+/**
+ * Geometric checks behind lag-compensated hit detection. All boxes passed in
+ * are expected to be already rewound to the time the attacker saw them.
+ */
+export class HitValidator {
+  private config: CombatConfig;
+
+  constructor(config: Partial<CombatConfig> = {}) {
+    this.config = { ...DEFAULT_COMBAT_CONFIG, ...config };
+  }
+
+  /**
+   * Get the active combat configuration.
+   */
+  public getConfig(): CombatConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * How far back to rewind for a client, given its round-trip time: half the
+   * RTT for the command to arrive plus the client's interpolation delay.
+   */
+  public getRewindMs(rtt: number = 0): number {
+    const oneWay = Number.isFinite(rtt) && rtt > 0 ? rtt / 2 : 0;
+    return Math.min(
+      oneWay + this.config.interpolationDelayMs,
+      this.config.maxRewindMs,
+    );
+  }
+
+  /**
+   * Whether a melee swing reaches the target: within range of the point in
+   * front of the attacker and on the side it is facing, the same rule the
+   * client uses.
+   */
+  public isMeleeHit(attacker: HitBox, facing: number, target: HitBox): boolean {
+    const direction = facing < 0 ? -1 : 1;
+    const dx = target.x - (attacker.x + this.config.meleeOffset * direction);
+    const dy = target.y - attacker.y;
+    return (
+      Math.sqrt(dx * dx + dy * dy) < this.config.meleeRange &&
+      Math.sign(dx) === direction
+    );
+  }
+
+  /**
+   * Whether a claimed projectile is physically possible for an attacker that
+   * was at `shooter` when it fired.
+   */
+  public isPlausibleShot(shot: ProjectileShot, shooter: HitBox): boolean {
+    const values = [
+      shot.origin.x,
+      shot.origin.y,
+      shot.velocity.x,
+      shot.velocity.y,
+      shot.flightMs,
+    ];
+    if (!values.every((value) => Number.isFinite(value))) return false;
+    if (
+      shot.flightMs < 0 ||
+      shot.flightMs > this.config.maxProjectileFlightMs
+    ) {
+      return false;
+    }
+    if (
+      Math.hypot(shot.velocity.x, shot.velocity.y) >
+      this.config.maxProjectileSpeed
+    ) {
+      return false;
+    }
+    return (
+      Math.hypot(shot.origin.x - shooter.x, shot.origin.y - shooter.y) <=
+      this.config.maxProjectileOriginDistance
+    );
+  }
+
+  /**
+   * Whether the projectile's path over its flight crosses the target's box.
+   */
+  public isProjectileHit(shot: ProjectileShot, target: HitBox): boolean {
+    const seconds = shot.flightMs / 1000;
+    const halfWidth = target.width / 2 + this.config.projectileRadius;
+    const halfHeight = target.height / 2 + this.config.projectileRadius;
+    return segmentIntersectsBox(
+      shot.origin.x,
+      shot.origin.y,
+      shot.velocity.x * seconds,
+      shot.velocity.y * seconds,
+      target.x - halfWidth,
+      target.y - halfHeight,
+      target.x + halfWidth,
+      target.y + halfHeight,
+    );
+  }
+}
+
+/**
+ * Slab test of the segment from (x, y) to (x + dx, y + dy) against a box.
+ */
+function segmentIntersectsBox(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+): boolean {
+  let tMin = 0;
+  let tMax = 1;
+  const axes: Array<[number, number, number, number]> = [
+    [x, dx, left, right],
+    [y, dy, top, bottom],
+  ];
+
+  for (const [start, delta, min, max] of axes) {
+    if (delta === 0) {
+      if (start < min || start > max) return false;
+      continue;
+    }
+    let t1 = (min - start) / delta;
+    let t2 = (max - start) / delta;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return false;
+  }
+  return true;
+}
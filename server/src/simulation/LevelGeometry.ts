@@ -0,0 +1,280 @@
+/**
+ * Custom property attached to a Tiled object.
+ */
+export interface TiledProperty {
+  name: string;
+  value: any;
+}
+
+/**
+ * A single object from a Tiled object layer.
+ */
+export interface TiledObject {
+  id?: number;
+  name?: string;
+  type?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  properties?: TiledProperty[];
+}
+
+/**
+ * A tile or object layer in Tiled JSON format.
+ */
+export interface TiledLayer {
+  name: string;
+  type: 'tilelayer' | 'objectgroup' | string;
+  width?: number;
+  height?: number;
+  data?: number[];
+  objects?: TiledObject[];
+}
+
+/**
+ * Subset of the Tiled map JSON used by the level files in
+ * `client/public/assets/tilemaps`. Both the camel-case keys written by our
+ * export script and Tiled's native lower-case keys are accepted.
+ */
+export interface TiledMapData {
+  width: number;
+  height: number;
+  tileWidth?: number;
+  tileHeight?: number;
+  tilewidth?: number;
+  tileheight?: number;
+  layers: TiledLayer[];
+}
+
+/**
+ * Axis-aligned one-way platform taken from the `platforms` object layer.
+ * Entities can jump through from below and land on the top edge.
+ */
+export interface OneWayPlatform {
+  id: number;
+  /** Left edge in pixels. */
+  x: number;
+  /** Top edge in pixels. */
+  y: number;
+  width: number;
+  height: number;
+  movement: 'static' | 'horizontal' | 'vertical';
+  /** Speed in pixels per second (moving platforms only). */
+  speed: number;
+  /** Distance travelled from the origin before reversing. */
+  travelDistance: number;
+  originX: number;
+  originY: number;
+  direction: number;
+  /** Displacement applied during the last `advancePlatforms` call. */
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Collision geometry for a level: a solid tile grid plus one-way platforms.
+ * Mirrors what the client builds from the same JSON in `TilemapLoader`.
+ */
+export class LevelGeometry {
+  public readonly tileWidth: number;
+  public readonly tileHeight: number;
+  public readonly widthInTiles: number;
+  public readonly heightInTiles: number;
+  public readonly platforms: OneWayPlatform[];
+  public readonly playerSpawn?: { x: number; y: number };
+  private solid: Uint8Array;
+
+  private constructor(
+    widthInTiles: number,
+    heightInTiles: number,
+    tileWidth: number,
+    tileHeight: number,
+    solid: Uint8Array,
+    platforms: OneWayPlatform[],
+    playerSpawn?: { x: number; y: number },
+  ) {
+    this.widthInTiles = widthInTiles;
+    this.heightInTiles = heightInTiles;
+    this.tileWidth = tileWidth;
+    this.tileHeight = tileHeight;
+    this.solid = solid;
+    this.platforms = platforms;
+    this.playerSpawn = playerSpawn;
+  }
+
+  /**
+   * Build geometry from parsed Tiled JSON.
+   * Every non-empty tile in a tile layer is treated as solid.
+   */
+  public static fromTiledJSON(data: TiledMapData): LevelGeometry {
+    const width = data.width;
+    const height = data.height;
+    const tileWidth = data.tileWidth ?? data.tilewidth ?? 32;
+    const tileHeight = data.tileHeight ?? data.tileheight ?? 32;
+    const solid = new Uint8Array(width * height);
+    const platforms: OneWayPlatform[] = [];
+    let playerSpawn: { x: number; y: number } | undefined;
+
+    for (const layer of data.layers) {
+      if (layer.type === 'tilelayer' && layer.data) {
+        layer.data.forEach((gid, index) => {
+          if (gid !== 0 && index < solid.length) {
+            solid[index] = 1;
+          }
+        });
+      } else if (layer.type === 'objectgroup' && layer.objects) {
+        const layerName = layer.name.toLowerCase();
+        if (layerName === 'platforms') {
+          layer.objects.forEach((obj, index) => {
+            platforms.push(LevelGeometry.createPlatform(obj, index));
+          });
+        } else if (layerName === 'player') {
+          const spawn = layer.objects.find((obj) => obj.type === 'spawn');
+          if (spawn) {
+            playerSpawn = { x: spawn.x, y: spawn.y };
+          }
+        }
+      }
+    }
+
+    return new LevelGeometry(
+      width,
+      height,
+      tileWidth,
+      tileHeight,
+      solid,
+      platforms,
+      playerSpawn,
+    );
+  }
+
+  private static createPlatform(
+    obj: TiledObject,
+    index: number,
+  ): OneWayPlatform {
+    const type = (obj.type || 'static').toLowerCase();
+    let movement: OneWayPlatform['movement'] = 'static';
+    if (type === 'moving' || type === 'moving_horizontal') {
+      movement = 'horizontal';
+    } else if (type === 'moving_vertical') {
+      movement = 'vertical';
+    }
+
+    return {
+      id: obj.id ?? index,
+      x: obj.x,
+      y: obj.y,
+      width: obj.width ?? 32,
+      height: obj.height ?? 32,
+      movement,
+      speed: Number(getProperty(obj, 'speed') ?? 100),
+      travelDistance: Number(getProperty(obj, 'moveDistance') ?? 200),
+      originX: obj.x,
+      originY: obj.y,
+      direction: 1,
+      dx: 0,
+      dy: 0,
+    };
+  }
+
+  /** Level width in pixels. */
+  public get widthPx(): number {
+    return this.widthInTiles * this.tileWidth;
+  }
+
+  /** Level height in pixels. */
+  public get heightPx(): number {
+    return this.heightInTiles * this.tileHeight;
+  }
+
+  /**
+   * Whether the tile at the given column/row is solid.
+   * Tiles outside the map are never solid; world bounds are handled separately.
+   */
+  public isSolidTile(col: number, row: number): boolean {
+    if (
+      col < 0 ||
+      row < 0 ||
+      col >= this.widthInTiles ||
+      row >= this.heightInTiles
+    ) {
+      return false;
+    }
+    return this.solid[row * this.widthInTiles + col] === 1;
+  }
+
+  /**
+   * Return the solid tile rectangles overlapping the given pixel rectangle.
+   */
+  public getSolidTilesInRect(
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+  ): Array<{ x: number; y: number; width: number; height: number }> {
+    const tiles: Array<{
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+    }> = [];
+    const startCol = Math.floor(left / this.tileWidth);
+    const endCol = Math.ceil(right / this.tileWidth) - 1;
+    const startRow = Math.floor(top / this.tileHeight);
+    const endRow = Math.ceil(bottom / this.tileHeight) - 1;
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        if (this.isSolidTile(col, row)) {
+          tiles.push({
+            x: col * this.tileWidth,
+            y: row * this.tileHeight,
+            width: this.tileWidth,
+            height: this.tileHeight,
+          });
+        }
+      }
+    }
+    return tiles;
+  }
+
+  /**
+   * Move oscillating platforms, using the same back-and-forth rule as the
+   * client `Platform.update`.
+   * @param deltaTime Step in seconds.
+   */
+  public advancePlatforms(deltaTime: number): void {
+    for (const platform of this.platforms) {
+      platform.dx = 0;
+      platform.dy = 0;
+      if (platform.movement === 'static') continue;
+
+      const step = platform.direction * platform.speed * deltaTime;
+      if (platform.movement === 'horizontal') {
+        platform.x += step;
+        platform.dx = step;
+        if (
+          Math.abs(platform.x - platform.originX) >= platform.travelDistance
+        ) {
+          platform.direction *= -1;
+        }
+      } else {
+        platform.y += step;
+        platform.dy = step;
+        if (
+          Math.abs(platform.y - platform.originY) >= platform.travelDistance
+        ) {
+          platform.direction *= -1;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Read a custom property from a Tiled object.
+ */
+function getProperty(obj: TiledObject, name: string): any {
+  return obj.properties?.find((prop) => prop.name === name)?.value;
+}
@@ -0,0 +1,201 @@
+import { LevelGeometry } from './LevelGeometry';
+import {
+  MovementInput,
+  PhysicsEntity,
+  PlatformerPhysics,
+} from './PlatformerPhysics';
+
+/**
+ * A rectangle in level pixels, measured from its top-left corner.
+ */
+export interface Area {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Limits on the reachability search.
+ */
+export interface ReachabilityOptions {
+  /** Simulation step in seconds. */
+  stepSeconds: number;
+  /** Longest a single jump or fall is followed before giving up on it. */
+  maxAirSeconds: number;
+  /** Most distinct landing spots explored before giving up. */
+  maxLandings: number;
+}
+
+export const DEFAULT_REACHABILITY_OPTIONS: ReachabilityOptions = {
+  stepSeconds: 1 / 30,
+  maxAirSeconds: 5,
+  maxLandings: 4000,
+};
+
+/**
+ * Whether a player can get from the start to the target, and how much of
+ * the level was explored finding out.
+ */
+export interface ReachabilityResult {
+  reachable: boolean;
+  /** Distinct landing spots explored. */
+  landings: number;
+  /** True when the search stopped at `maxLandings` without an answer. */
+  exhausted: boolean;
+}
+
+/**
+ * Moves tried from every landing: jumps from standing to a full run either
+ * way, and walking a tile left or right.
+ */
+const MOVES: MovementInput[] = [
+  ...[-1, -0.5, 0, 0.5, 1].map((moveX) => ({ moveX, jump: true })),
+  ...[-1, 1].map((moveX) => ({ moveX, jump: false })),
+];
+
+/**
+ * Search the spots a player can stand on, starting from `start`, by
+ * simulating walks and jumps with the server's platformer physics, and
+ * report whether any of them touches `target`.
+ *
+ * Moving platforms are treated as standing still at their starting
+ * position, and enemies and hazards are ignored, so a reachable target is
+ * reachable in principle rather than easy to reach.
+ * @param geometry Collision geometry of the level.
+ * @param start Body centre the player spawns at.
+ * @param target Area to reach, e.g. the level exit.
+ */
+export function findPathToArea(
+  geometry: LevelGeometry,
+  start: { x: number; y: number },
+  target: Area,
+  physics: PlatformerPhysics = new PlatformerPhysics(),
+  options: Partial<ReachabilityOptions> = {},
+): ReachabilityResult {
+  const search = new ReachabilitySearch(geometry, target, physics, {
+    ...DEFAULT_REACHABILITY_OPTIONS,
+    ...options,
+  });
+  return search.run(start);
+}
+
+type Outcome = { x: number; y: number } | 'target' | null;
+
+class ReachabilitySearch {
+  private halfWidth: number;
+  private halfHeight: number;
+
+  constructor(
+    private geometry: LevelGeometry,
+    private target: Area,
+    private physics: PlatformerPhysics,
+    private options: ReachabilityOptions,
+  ) {
+    const { bodyWidth, bodyHeight } = physics.getConfig();
+    this.halfWidth = bodyWidth / 2;
+    this.halfHeight = bodyHeight / 2;
+  }
+
+  run(start: { x: number; y: number }): ReachabilityResult {
+    const result = (
+      reachable: boolean,
+      landings: number,
+      exhausted = false,
+    ) => ({
+      reachable,
+      landings,
+      exhausted,
+    });
+
+    // Drop from the spawn point to the ground first
+    const first = this.simulate(start, { moveX: 0, jump: false }, false);
+    if (first === 'target') return result(true, 0);
+    if (!first) return result(false, 0);
+
+    const visited = new Set<string>([this.key(first)]);
+    const queue = [first];
+    while (queue.length > 0) {
+      const from = queue.shift()!;
+      for (const input of MOVES) {
+        const outcome = this.simulate(from, input, true);
+        if (outcome === 'target') return result(true, visited.size);
+        if (!outcome) continue;
+
+        const key = this.key(outcome);
+        if (visited.has(key)) continue;
+        if (visited.size >= this.options.maxLandings) {
+          return result(false, visited.size, true);
+        }
+        visited.add(key);
+        queue.push(outcome);
+      }
+    }
+    return result(false, visited.size);
+  }
+
+  /**
+   * Follow one move until the player lands somewhere new.
+   * @param onGround Whether the player starts on the ground.
+   * @returns Where the player lands, 'target' if they touch the target on
+   * the way, or null if the move goes nowhere or out of the level.
+   */
+  private simulate(
+    from: { x: number; y: number },
+    input: MovementInput,
+    onGround: boolean,
+  ): Outcome {
+    const entity: PhysicsEntity = {
+      position: { ...from },
+      velocity: { x: 0, y: 0 },
+      isOnGround: onGround,
+      affectedByGravity: true,
+    };
+    const { stepSeconds, maxAirSeconds } = this.options;
+    const walking = onGround && !input.jump;
+    this.physics.applyInput(entity, input);
+
+    let airborne = false;
+    for (let time = 0; time < maxAirSeconds; time += stepSeconds) {
+      const lastX = entity.position!.x;
+      // Keep holding the direction, as a player would
+      this.physics.applyInput(entity, { moveX: input.moveX, jump: false });
+      this.physics.step(entity, this.geometry, stepSeconds);
+      const position = entity.position!;
+
+      if (this.touchesTarget(position)) return 'target';
+      if (position.y - this.halfHeight > this.geometry.heightPx) return null;
+
+      if (!entity.isOnGround) {
+        airborne = true;
+        continue;
+      }
+      if (walking && !airborne) {
+        if (Math.abs(position.x - from.x) >= this.geometry.tileWidth) {
+          return { ...position };
+        }
+        // Walked into a wall
+        if (position.x === lastX) return null;
+        continue;
+      }
+      if (airborne || !onGround) return { ...position };
+    }
+    return null;
+  }
+
+  private touchesTarget(position: { x: number; y: number }): boolean {
+    const { target } = this;
+    return (
+      position.x + this.halfWidth > target.x &&
+      position.x - this.halfWidth < target.x + target.width &&
+      position.y + this.halfHeight > target.y &&
+      position.y - this.halfHeight < target.y + target.height
+    );
+  }
+
+  /** Landings on the same tile column and surface count as one. */
+  private key(position: { x: number; y: number }): string {
+    const column = Math.floor(position.x / this.geometry.tileWidth);
+    return `${column}:${Math.round(position.y)}`;
+  }
+}
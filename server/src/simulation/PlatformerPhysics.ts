@@ -0,0 +1,281 @@
+import { LevelGeometry, OneWayPlatform } from './LevelGeometry';
+
+/**
+ * Tunable constants for the server-side platformer simulation.
+ */
+export interface PhysicsConfig {
+  /** Downward acceleration in pixels per second squared. */
+  gravity: number;
+  /** Horizontal speed in pixels per second at full input. */
+  moveSpeed: number;
+  /** Initial upward velocity of a jump in pixels per second. */
+  jumpForce: number;
+  /** Default body width for entities that do not specify one. */
+  bodyWidth: number;
+  /** Default body height for entities that do not specify one. */
+  bodyHeight: number;
+}
+
+/**
+ * Defaults matching the client: world gravity from `PhysicsManager`/`GameScene`
+ * and the `Player` default move speed and jump force.
+ */
+export const DEFAULT_PHYSICS_CONFIG: PhysicsConfig = {
+  gravity: 300,
+  moveSpeed: 250,
+  jumpForce: 450,
+  bodyWidth: 32,
+  bodyHeight: 32,
+};
+
+/**
+ * Movement intent extracted from a player input event.
+ */
+export interface MovementInput {
+  /** Horizontal direction in the range [-1, 1]. */
+  moveX?: number;
+  jump: boolean;
+}
+
+/**
+ * Simulated entity state. Positions are body centres, matching Phaser sprites
+ * with the default origin.
+ */
+export interface PhysicsEntity {
+  position?: { x: number; y: number };
+  velocity?: { x: number; y: number };
+  width?: number;
+  height?: number;
+  isOnGround?: boolean;
+  affectedByGravity?: boolean;
+  /** Platform the entity is standing on, if any. */
+  groundPlatformId?: number;
+  [key: string]: any;
+}
+
+/** Tolerance used when testing whether a body was above a platform. */
+const EPSILON = 0.01;
+
+/**
+ * Deterministic arcade-style physics step used by `GameSync`.
+ * Resolves AABB collisions against solid tiles and one-way platforms
+ * one axis at a time, like Phaser's arcade tile collider.
+ */
+export class PlatformerPhysics {
+  private config: PhysicsConfig;
+
+  constructor(config: Partial<PhysicsConfig> = {}) {
+    this.config = { ...DEFAULT_PHYSICS_CONFIG, ...config };
+  }
+
+  /**
+   * Get the active physics configuration.
+   */
+  public getConfig(): PhysicsConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Convert a raw client input payload into a movement intent.
+   * Accepts both `{ moveX, jump }` and `{ left, right, jump }` shapes.
+   * @returns Null if the payload is malformed.
+   */
+  public static normalizeInput(raw: any): MovementInput | null {
+    if (!raw || typeof raw !== 'object') return null;
+
+    let moveX: number | undefined;
+    if (raw.moveX !== undefined) {
+      if (typeof raw.moveX !== 'number' || !Number.isFinite(raw.moveX)) {
+        return null;
+      }
+      moveX = Math.max(-1, Math.min(1, raw.moveX));
+    } else if (raw.left !== undefined || raw.right !== undefined) {
+      moveX = (raw.right ? 1 : 0) - (raw.left ? 1 : 0);
+    }
+
+    return { moveX, jump: raw.jump === true };
+  }
+
+  /**
+   * Apply a movement intent to an entity's velocity.
+   * Jumps are only honoured when the simulation has the entity on the ground.
+   */
+  public applyInput(entity: PhysicsEntity, input: MovementInput): void {
+    entity.velocity = entity.velocity || { x: 0, y: 0 };
+    if (input.moveX !== undefined) {
+      entity.velocity.x = input.moveX * this.config.moveSpeed;
+    }
+    if (input.jump && entity.isOnGround) {
+      entity.velocity.y = -this.config.jumpForce;
+      entity.isOnGround = false;
+      delete entity.groundPlatformId;
+    }
+  }
+
+  /**
+   * Advance one entity by `deltaTime` seconds.
+   * Platforms should already have been advanced for this step.
+   * @param geometry Level collision data; without it the entity moves freely.
+   */
+  public step(
+    entity: PhysicsEntity,
+    geometry: LevelGeometry | undefined,
+    deltaTime: number,
+  ): void {
+    if (!entity.position) return;
+    entity.velocity = entity.velocity || { x: 0, y: 0 };
+    const velocity = entity.velocity;
+    velocity.x = velocity.x || 0;
+    velocity.y = velocity.y || 0;
+
+    if (entity.affectedByGravity) {
+      velocity.y += this.config.gravity * deltaTime;
+    }
+
+    if (!geometry) {
+      entity.position.x += velocity.x * deltaTime;
+      entity.position.y += velocity.y * deltaTime;
+      return;
+    }
+
+    // Ride the platform we were standing on before moving ourselves
+    if (entity.isOnGround && entity.groundPlatformId !== undefined) {
+      const platform = geometry.platforms.find(
+        (p) => p.id === entity.groundPlatformId,
+      );
+      if (platform) {
+        entity.position.x += platform.dx;
+        entity.position.y += platform.dy;
+      }
+    }
+
+    entity.isOnGround = false;
+    delete entity.groundPlatformId;
+
+    // Sub-step so a fast body never moves more than half a tile at once
+    const maxDisplacement = Math.max(
+      Math.abs(velocity.x * deltaTime),
+      Math.abs(velocity.y * deltaTime),
+    );
+    const limit = Math.min(geometry.tileWidth, geometry.tileHeight) / 2;
+    const steps = Math.max(1, Math.ceil(maxDisplacement / limit));
+    const subDelta = deltaTime / steps;
+
+    for (let i = 0; i < steps; i++) {
+      this.moveX(entity, geometry, velocity.x * subDelta);
+      this.moveY(entity, geometry, velocity.y * subDelta);
+    }
+  }
+
+  private moveX(
+    entity: PhysicsEntity,
+    geometry: LevelGeometry,
+    dx: number,
+  ): void {
+    const position = entity.position!;
+    const halfWidth = (entity.width ?? this.config.bodyWidth) / 2;
+    const halfHeight = (entity.height ?? this.config.bodyHeight) / 2;
+
+    position.x += dx;
+
+    if (dx !== 0) {
+      const tiles = geometry.getSolidTilesInRect(
+        position.x - halfWidth,
+        position.y - halfHeight,
+        position.x + halfWidth,
+        position.y + halfHeight,
+      );
+      for (const tile of tiles) {
+        if (dx > 0) {
+          position.x = Math.min(position.x, tile.x - halfWidth);
+        } else {
+          position.x = Math.max(position.x, tile.x + tile.width + halfWidth);
+        }
+        entity.velocity!.x = 0;
+      }
+    }
+
+    // World bounds, as set by `PhysicsManager.setBounds` on the client
+    if (position.x < halfWidth) {
+      position.x = halfWidth;
+      entity.velocity!.x = 0;
+    } else if (position.x > geometry.widthPx - halfWidth) {
+      position.x = geometry.widthPx - halfWidth;
+      entity.velocity!.x = 0;
+    }
+  }
+
+  private moveY(
+    entity: PhysicsEntity,
+    geometry: LevelGeometry,
+    dy: number,
+  ): void {
+    const position = entity.position!;
+    const halfWidth = (entity.width ?? this.config.bodyWidth) / 2;
+    const halfHeight = (entity.height ?? this.config.bodyHeight) / 2;
+    const previousBottom = position.y + halfHeight;
+
+    position.y += dy;
+
+    if (dy !== 0) {
+      const tiles = geometry.getSolidTilesInRect(
+        position.x - halfWidth,
+        position.y - halfHeight,
+        position.x + halfWidth,
+        position.y + halfHeight,
+      );
+      for (const tile of tiles) {
+        if (dy > 0) {
+          position.y = Math.min(position.y, tile.y - halfHeight);
+          entity.isOnGround = true;
+        } else {
+          position.y = Math.max(position.y, tile.y + tile.height + halfHeight);
+        }
+        entity.velocity!.y = 0;
+      }
+    }
+
+    if (dy >= 0 && !entity.isOnGround) {
+      const platform = this.findLandingPlatform(
+        geometry.platforms,
+        position.x - halfWidth,
+        position.x + halfWidth,
+        previousBottom,
+        position.y + halfHeight,
+      );
+      if (platform) {
+        position.y = platform.y - halfHeight;
+        entity.velocity!.y = 0;
+        entity.isOnGround = true;
+        entity.groundPlatformId = platform.id;
+      }
+    }
+
+    if (position.y < halfHeight) {
+      position.y = halfHeight;
+      entity.velocity!.y = 0;
+    }
+  }
+
+  /**
+   * Find a one-way platform whose top edge the body crossed from above.
+   */
+  private findLandingPlatform(
+    platforms: OneWayPlatform[],
+    left: number,
+    right: number,
+    previousBottom: number,
+    bottom: number,
+  ): OneWayPlatform | undefined {
+    return platforms.find((platform) => {
+      if (right <= platform.x || left >= platform.x + platform.width) {
+        return false;
+      }
+      const previousTop = platform.y - platform.dy;
+      return (
+        previousBottom <= Math.max(platform.y, previousTop) + EPSILON &&
+        bottom >= platform.y
+      );
+    });
+  }
+}
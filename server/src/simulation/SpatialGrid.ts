@@ -0,0 +1,86 @@
+/**
+ * Uniform grid bucketing entity IDs by position, for fast "what is near
+ * this rectangle" queries over a room.
+ */
+export class SpatialGrid {
+  private cellSize: number;
+  private cells: Map<string, string[]> = new Map();
+
+  /**
+   * @param cellSize Width and height of a cell in pixels.
+   */
+  constructor(cellSize: number = 256) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Build a grid from a room's entities, keyed by their centre positions.
+   * Entities without a position are left out.
+   */
+  public static fromEntities(
+    entities: Record<string, any>,
+    cellSize?: number,
+  ): SpatialGrid {
+    const grid = new SpatialGrid(cellSize);
+    for (const [id, entity] of Object.entries(entities)) {
+      if (entity?.position) {
+        grid.insert(id, entity.position.x, entity.position.y);
+      }
+    }
+    return grid;
+  }
+
+  /**
+   * Add an entity at a point.
+   */
+  public insert(id: string, x: number, y: number): void {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    const key = this.getKey(this.toCell(x), this.toCell(y));
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(id);
+    } else {
+      this.cells.set(key, [id]);
+    }
+  }
+
+  /**
+   * IDs of the entities in every cell overlapping the rectangle. Results are
+   * cell-accurate, so entities slightly outside the rectangle may be included.
+   */
+  public queryRect(
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+  ): string[] {
+    const result: string[] = [];
+    const startCol = this.toCell(left);
+    const endCol = this.toCell(right);
+    const startRow = this.toCell(top);
+    const endRow = this.toCell(bottom);
+
+    for (let row = startRow; row <= endRow; row++) {
+      for (let col = startCol; col <= endCol; col++) {
+        const cell = this.cells.get(this.getKey(col, row));
+        if (cell) result.push(...cell);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Remove every entity.
+   */
+  public clear(): void {
+    this.cells.clear();
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private getKey(col: number, row: number): string {
+    return `${col},${row}`;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Collision box of an entity; `x`/`y` are the centre, like physics positions.
+ */
+export interface HitBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Hit boxes of every entity in a room at one simulation tick.
+ */
+export interface HistoryFrame {
+  tick: number;
+  timestamp: number;
+  entities: Record<string, HitBox>;
+}
+
+/** Body size assumed for entities that do not declare one. */
+const DEFAULT_BODY_SIZE = 32;
+
+/**
+ * Rolling record of where entities were over the last second or so, used to
+ * rewind a room to the moment a client saw it when validating hits.
+ */
+export class StateHistory {
+  private frames: HistoryFrame[] = [];
+  private maxAgeMs: number;
+
+  /**
+   * @param maxAgeMs How far back frames are kept, in milliseconds.
+   */
+  constructor(maxAgeMs: number = 1000) {
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  /**
+   * Store the hit boxes of a room's entities after a simulation tick.
+   * Entities without a position are not hittable and are skipped.
+   */
+  public record(
+    tick: number,
+    timestamp: number,
+    entities: Record<string, any>,
+  ): void {
+    const boxes: Record<string, HitBox> = {};
+    for (const [id, entity] of Object.entries(entities)) {
+      if (!entity?.position) continue;
+      boxes[id] = {
+        x: entity.position.x,
+        y: entity.position.y,
+        width: entity.width ?? DEFAULT_BODY_SIZE,
+        height: entity.height ?? DEFAULT_BODY_SIZE,
+      };
+    }
+    this.frames.push({ tick, timestamp, entities: boxes });
+
+    while (
+      this.frames.length > 1 &&
+      timestamp - this.frames[0].timestamp > this.maxAgeMs
+    ) {
+      this.frames.shift();
+    }
+  }
+
+  /**
+   * Hit boxes as they were at `timestamp`, interpolated between the two
+   * recorded ticks around it. Times outside the history clamp to the oldest
+   * or newest frame.
+   */
+  public getStateAt(timestamp: number): Record<string, HitBox> {
+    if (this.frames.length === 0) return {};
+
+    const first = this.frames[0];
+    const last = this.frames[this.frames.length - 1];
+    if (timestamp <= first.timestamp) return { ...first.entities };
+    if (timestamp >= last.timestamp) return { ...last.entities };
+
+    let index = this.frames.length - 1;
+    while (index > 0 && this.frames[index - 1].timestamp > timestamp) {
+      index--;
+    }
+    const from = this.frames[index - 1];
+    const to = this.frames[index];
+    const span = to.timestamp - from.timestamp;
+    const t = span > 0 ? (timestamp - from.timestamp) / span : 1;
+
+    const result: Record<string, HitBox> = {};
+    for (const [id, box] of Object.entries(from.entities)) {
+      const next = to.entities[id];
+      result[id] = next
+        ? {
+          x: box.x + (next.x - box.x) * t,
+          y: box.y + (next.y - box.y) * t,
+          width: next.width,
+          height: next.height,
+        }
+        : { ...box };
+    }
+    return result;
+  }
+
+  /**
+   * Time span currently covered, in milliseconds.
+   */
+  public getDuration(): number {
+    if (this.frames.length < 2) return 0;
+    return (
+      this.frames[this.frames.length - 1].timestamp - this.frames[0].timestamp
+    );
+  }
+
+  /**
+   * Drop all recorded frames.
+   */
+  public clear(): void {
+    this.frames = [];
+  }
+}
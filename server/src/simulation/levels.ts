@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import { LevelGeometry, TiledMapData } from './LevelGeometry';
+import { logger } from '../utils/logger';
+import { getServerRoot } from '../utils/paths';
+
+/**
+ * Server-side view of a level: where its Tiled JSON lives, where players
+ * spawn and the limits a run of it stays within. Read from the level
+ * manifest the client loads, `assets/data/levels.json`.
+ */
+export interface ServerLevelConfig {
+  number: number;
+  key: string;
+  /** Path of the Tiled JSON relative to the client's public directory. */
+  tilemap: string;
+  playerStart?: { x: number; y: number };
+  /** Time limit in seconds, if the level has one. */
+  timeLimit?: number;
+  /** Fastest possible completion in seconds. */
+  minTime?: number;
+  /** Most points the level holds. */
+  maxScore?: number;
+}
+
+export const DEFAULT_LEVEL = 1;
+
+/**
+ * Directory the `tilemap` paths are resolved against. Defaults to the client's
+ * public folder in this repository; override with `LEVEL_ASSETS_DIR` when the
+ * server is deployed without the client sources.
+ */
+export function getLevelAssetsDir(): string {
+  return (
+    process.env.LEVEL_ASSETS_DIR ||
+    path.resolve(getServerRoot(), '../client/public')
+  );
+}
+
+/**
+ * Where the level manifest is read from: `LEVEL_MANIFEST_PATH` if set,
+ * otherwise `assets/data/levels.json` in the level assets directory.
+ */
+export function getLevelManifestPath(): string {
+  return (
+    process.env.LEVEL_MANIFEST_PATH ||
+    path.join(getLevelAssetsDir(), 'assets/data/levels.json')
+  );
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isPoint = (value: unknown): boolean =>
+  isPlainObject(value) &&
+  typeof value.x === 'number' &&
+  typeof value.y === 'number';
+
+/**
+ * What the server reads from the level manifest.
+ */
+export interface ServerLevelManifest {
+  levels: Record<number, ServerLevelConfig>;
+  /** Ids of the themes levels can be drawn in. */
+  themes: string[];
+}
+
+/**
+ * Pick the levels and theme ids out of a parsed manifest. Levels missing
+ * what the server needs are skipped, as are repeated numbers; the client
+ * validates the rest.
+ * @param data - The parsed JSON.
+ * @returns The levels by number, the theme ids and the problems found.
+ */
+export function parseLevelManifest(
+  data: unknown,
+): ServerLevelManifest & { errors: string[] } {
+  const levels: Record<number, ServerLevelConfig> = {};
+  const errors: string[] = [];
+  if (!isPlainObject(data) || !Array.isArray(data.worlds)) {
+    return { levels, themes: [], errors: ['worlds must be a list'] };
+  }
+
+  const themes = isPlainObject(data.themes) ? Object.keys(data.themes) : [];
+
+  data.worlds.forEach((world: unknown, w: number) => {
+    const entries = isPlainObject(world) ? world.levels : undefined;
+    if (!Array.isArray(entries)) {
+      errors.push(`worlds.${w}.levels must be a list`);
+      return;
+    }
+    entries.forEach((entry: unknown, l: number) => {
+      const at = `worlds.${w}.levels.${l}`;
+      if (
+        !isPlainObject(entry) ||
+        !Number.isInteger(entry.number) ||
+        entry.number < 1 ||
+        typeof entry.key !== 'string' ||
+        typeof entry.tilemap !== 'string'
+      ) {
+        errors.push(`${at} needs a number, key and tilemap`);
+        return;
+      }
+      if (levels[entry.number]) {
+        errors.push(`${at}.number ${entry.number} is already used`);
+        return;
+      }
+      levels[entry.number] = {
+        number: entry.number,
+        key: entry.key,
+        tilemap: entry.tilemap,
+        ...(isPoint(entry.playerStart) && {
+          playerStart: { x: entry.playerStart.x, y: entry.playerStart.y },
+        }),
+        ...(isPositive(entry.timeLimit) && { timeLimit: entry.timeLimit }),
+        ...(isPositive(entry.minTime) && { minTime: entry.minTime }),
+        ...(isPositive(entry.maxScore) && { maxScore: entry.maxScore }),
+      };
+    });
+  });
+  return { levels, themes, errors };
+}
+
+let manifestCache: ServerLevelManifest | null = null;
+
+/**
+ * Read the level manifest once. A missing or unreadable manifest leaves no
+ * levels and no themes.
+ */
+function getLevelManifest(): ServerLevelManifest {
+  if (manifestCache) return manifestCache;
+
+  const filePath = getLevelManifestPath();
+  try {
+    const { levels, themes, errors } = parseLevelManifest(
+      JSON.parse(fs.readFileSync(filePath, 'utf-8')),
+    );
+    errors.forEach((error) =>
+      logger.warn(`Level manifest ${filePath}: ${error}`),
+    );
+    manifestCache = { levels, themes };
+  } catch (error) {
+    logger.error(`Failed to load level manifest from ${filePath}`, error);
+    manifestCache = { levels: {}, themes: [] };
+  }
+  return manifestCache;
+}
+
+/**
+ * Get every level in the manifest by number.
+ */
+export function getLevelConfigs(): Record<number, ServerLevelConfig> {
+  return getLevelManifest().levels;
+}
+
+/**
+ * Get the ids of the themes in the manifest, which are the ones the client
+ * can draw a level in.
+ */
+export function getLevelThemes(): string[] {
+  return getLevelManifest().themes;
+}
+
+/**
+ * Get a level from the manifest.
+ * @returns Undefined if the manifest has no such level.
+ */
+export function getLevelConfig(
+  levelNumber: number,
+): ServerLevelConfig | undefined {
+  return getLevelConfigs()[levelNumber];
+}
+
+const mapCache = new Map<number, TiledMapData>();
+
+/**
+ * Load fresh collision geometry for a level.
+ * The parsed JSON is cached, but each call returns a new `LevelGeometry`
+ * so moving platforms are simulated independently per room.
+ * @returns Null if the level is unknown or its file cannot be read.
+ */
+export function loadLevelGeometry(levelNumber: number): LevelGeometry | null {
+  const config = getLevelConfig(levelNumber);
+  if (!config) {
+    logger.warn(`Level ${levelNumber} not found`);
+    return null;
+  }
+
+  let data = mapCache.get(levelNumber);
+  if (!data) {
+    const filePath = path.join(getLevelAssetsDir(), config.tilemap);
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TiledMapData;
+      mapCache.set(levelNumber, data);
+    } catch (error) {
+      logger.error(
+        `Failed to load level ${levelNumber} from ${filePath}`,
+        error,
+      );
+      return null;
+    }
+  }
+
+  return LevelGeometry.fromTiledJSON(data);
+}
+
+/**
+ * Get the spawn point for a level, falling back to the map's spawn object.
+ */
+export function getPlayerStart(
+  levelNumber: number,
+  geometry?: LevelGeometry | null,
+): { x: number; y: number } {
+  const start =
+    getLevelConfig(levelNumber)?.playerStart ?? geometry?.playerSpawn;
+  return start ? { ...start } : { x: 100, y: 300 };
+}
+
+/**
+ * Drop the cached manifest and map data (e.g. after level files change on
+ * disk).
+ */
+export function clearLevelCache(): void {
+  manifestCache = null;
+  mapCache.clear();
+}
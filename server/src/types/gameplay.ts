@@ -0,0 +1,28 @@
+/**
+ * Kinds of gameplay events the server reports, and so the ones achievements
+ * can count. Only add a kind once something on the server reports it.
+ */
+export const GAMEPLAY_EVENT_TYPES = [
+  'kill',
+  'death',
+  'level_complete',
+  'combo',
+] as const;
+
+export type GameplayEventType = (typeof GAMEPLAY_EVENT_TYPES)[number];
+
+/**
+ * Something a player did during a match.
+ */
+export interface GameplayEvent {
+  roomId: string;
+  playerId: string;
+  type: GameplayEventType;
+  /** How much happened: hits in a combo; 1 otherwise. */
+  amount: number;
+}
+
+/**
+ * Receives gameplay events as they happen.
+ */
+export type GameplayEventHandler = (event: GameplayEvent) => void;
@@ -6,6 +6,8 @@ export interface MatchmakingPreferences {
   region?: string;
   maxPlayers?: number;
   skillLevel?: number;
+  /** Level to play; players are only matched with others asking for it. */
+  level?: number;
 }
 
 /**
@@ -31,3 +33,22 @@ export interface MatchmakingResult {
   }>;
   matchedAt: Date;
 }
+
+/**
+ * A player's finishing place in a match (1 is best; ties share a rank).
+ */
+export interface MatchStanding {
+  playerId: string;
+  rank: number;
+  /** Points scored in the match, when the room kept score. */
+  score?: number;
+}
+
+/**
+ * Outcome of a finished match, used to update ratings and stats.
+ */
+export interface MatchResult {
+  roomId: string;
+  gameMode: string;
+  standings: MatchStanding[];
+}
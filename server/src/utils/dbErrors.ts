@@ -0,0 +1,19 @@
+import { QueryFailedError } from 'typeorm';
+
+/** Postgres SQLSTATE for a unique constraint violation. */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Whether a query failed because a row with the same unique key already
+ * exists, as when two requests race to insert it. TypeORM copies the
+ * driver's `code` and `detail` onto the error.
+ * @param error - Whatever the query threw.
+ */
+export function isUniqueViolation(
+  error: unknown,
+): error is QueryFailedError & { code: string; detail?: string } {
+  return (
+    error instanceof QueryFailedError &&
+    (error as { code?: string }).code === UNIQUE_VIOLATION
+  );
+}
@@ -0,0 +1,22 @@
+import fs from 'fs';
+import path from 'path';
+
+let serverRoot: string | null = null;
+
+/**
+ * The server package's directory: the nearest one above this file with a
+ * package.json. Looked up rather than hard-coded, since compiled files sit
+ * deeper under `dist/` than their sources do under `src/`.
+ */
+export function getServerRoot(): string {
+  if (!serverRoot) {
+    let dir = __dirname;
+    while (!fs.existsSync(path.join(dir, 'package.json'))) {
+      const parent = path.dirname(dir);
+      if (parent === dir) return process.cwd();
+      dir = parent;
+    }
+    serverRoot = dir;
+  }
+  return serverRoot;
+}
@@ -1,3 +1,4 @@
+import path from 'path';
 import { Worker } from 'worker_threads';
 import { MatchmakingRequest } from '../types/matchmaking';
 import { logger } from '../utils/logger';
@@ -14,9 +15,8 @@ export class MatchmakingWorker {
     null;
 
   constructor() {
-    this.worker = new Worker('./dist/workers/matchmaking.worker.js', {
-      // Ensure the worker file is compiled (we assume dist exists)
-    });
+    // The compiled worker sits next to this file in dist/
+    this.worker = new Worker(path.join(__dirname, 'matchmaking.worker.js'));
     this.worker.on('message', this.handleWorkerMessage.bind(this));
     this.worker.on('error', this.handleWorkerError.bind(this));
     this.worker.on('exit', this.handleWorkerExit.bind(this));
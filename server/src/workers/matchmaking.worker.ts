@@ -1,48 +1,24 @@
 import { parentPort } from 'worker_threads';
 import { MatchmakingRequest } from '../types/matchmaking';
+import { SkillMatcher } from '../network/SkillMatcher';
 
 export interface MatchmakingResult {
   matchedRequests: MatchmakingRequest[];
   roomId?: string;
 }
 
-/**
- * Group requests by gameMode and region.
- */
-function groupByGameMode(
-  requests: MatchmakingRequest[],
-): Map<string, MatchmakingRequest[]> {
-  const map = new Map<string, MatchmakingRequest[]>();
-  for (const req of requests) {
-    const key = `${req.preferences.gameMode}_${req.preferences.region || 'any'}`;
-    if (!map.has(key)) {
-      map.set(key, []);
-    }
-    map.get(key)!.push(req);
-  }
-  return map;
-}
+const matcher = new SkillMatcher();
 
 /**
- * Process the queue and return matches.
+ * Process the queue and return matches of similarly rated players.
  */
-function processQueue(queue: MatchmakingRequest[]): MatchmakingResult[] {
+function processQueue(
+  queue: MatchmakingRequest[],
+  now: number = Date.now(),
+): MatchmakingResult[] {
   if (queue.length === 0) return [];
-
-  const groups = groupByGameMode(queue);
-  const results: MatchmakingResult[] = [];
-
-  for (const [, requests] of groups) {
-    const maxPlayers = 4; // default
-    if (requests.length >= maxPlayers) {
-      // Create a match with the first maxPlayers
-      const matchedRequests = requests.slice(0, maxPlayers);
-      results.push({ matchedRequests });
-      // Note: remaining requests stay in queue for next tick
-    }
-  }
-
-  return results;
+  // Remaining requests stay in queue for next tick, with wider windows
+  return matcher.findMatches(queue, now);
 }
 
 // If this script is run as a worker, listen for messages
@@ -0,0 +1,295 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+const mockCatalogueService = {
+  listAchievements: jest.fn(),
+  createAchievement: jest.fn(),
+  updateAchievement: jest.fn(),
+  retireAchievement: jest.fn(),
+  listUnlockables: jest.fn(),
+  createUnlockable: jest.fn(),
+  updateUnlockable: jest.fn(),
+  retireUnlockable: jest.fn(),
+  loadFile: jest.fn(),
+  sync: jest.fn(),
+};
+
+// Mock the database, repositories and service
+jest.mock('../../../src/persistence/database', () => ({
+  AppDataSource: {
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/persistence/repositories/AchievementRepository');
+jest.mock('../../../src/persistence/repositories/UnlockableRepository');
+jest.mock('../../../src/services/CatalogueService', () => ({
+  ...jest.requireActual('../../../src/services/CatalogueService'),
+  CatalogueService: jest.fn().mockImplementation(() => mockCatalogueService),
+}));
+
+import adminRouter from '../../../src/api/admin';
+import { CatalogueError } from '../../../src/services/CatalogueService';
+
+process.env.JWT_SECRET = 'test-secret';
+
+const tokenFor = (playerId: string, role: 'player' | 'admin' = 'player') =>
+  `Bearer ${jwt.sign({ playerId, role }, 'test-secret')}`;
+
+const playerAuth = tokenFor('player1');
+const adminAuth = tokenFor('admin1', 'admin');
+
+describe('Admin API Integration', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRouter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('authorization', () => {
+    it('should require a token', async () => {
+      const response = await request(app).get('/api/admin/achievements');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should turn away players', async () => {
+      const response = await request(app)
+        .get('/api/admin/achievements')
+        .set('Authorization', playerAuth);
+
+      expect(response.status).toBe(403);
+      expect(mockCatalogueService.listAchievements).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('achievements', () => {
+    it('should list achievements', async () => {
+      const achievements = [{ code: 'first_blood', retiredAt: null }];
+      mockCatalogueService.listAchievements.mockResolvedValue(achievements);
+
+      const response = await request(app)
+        .get('/api/admin/achievements')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(achievements);
+    });
+
+    it('should create an achievement', async () => {
+      const definition = {
+        code: 'first_blood',
+        name: 'First Blood',
+        event: 'kill',
+        rewardCoins: 10,
+      };
+      mockCatalogueService.createAchievement.mockResolvedValue({
+        id: 'ach-1',
+        ...definition,
+      });
+
+      const response = await request(app)
+        .post('/api/admin/achievements')
+        .set('Authorization', adminAuth)
+        .send(definition);
+
+      expect(response.status).toBe(201);
+      expect(mockCatalogueService.createAchievement).toHaveBeenCalledWith(
+        definition,
+      );
+    });
+
+    it('should list every problem with an invalid achievement', async () => {
+      const response = await request(app)
+        .post('/api/admin/achievements')
+        .set('Authorization', adminAuth)
+        .send({ code: 'x', requiredValue: 0, event: 'dance' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid achievement');
+      expect(response.body.details).toHaveLength(3);
+      expect(mockCatalogueService.createAchievement).not.toHaveBeenCalled();
+    });
+
+    it('should answer 409 when the code is taken', async () => {
+      mockCatalogueService.createAchievement.mockRejectedValue(
+        new CatalogueError('Achievement first_blood already exists', 409),
+      );
+
+      const response = await request(app)
+        .post('/api/admin/achievements')
+        .set('Authorization', adminAuth)
+        .send({ code: 'first_blood', name: 'First Blood' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should update some fields of an achievement', async () => {
+      mockCatalogueService.updateAchievement.mockResolvedValue({
+        code: 'first_blood',
+        rewardCoins: 20,
+      });
+
+      const response = await request(app)
+        .patch('/api/admin/achievements/first_blood')
+        .set('Authorization', adminAuth)
+        .send({ rewardCoins: 20 });
+
+      expect(response.status).toBe(200);
+      expect(mockCatalogueService.updateAchievement).toHaveBeenCalledWith(
+        'first_blood',
+        { rewardCoins: 20 },
+      );
+    });
+
+    it('should not allow changing the code', async () => {
+      const response = await request(app)
+        .patch('/api/admin/achievements/first_blood')
+        .set('Authorization', adminAuth)
+        .send({ code: 'second_blood' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual(['code cannot be changed']);
+    });
+
+    it('should answer 404 for unknown achievements', async () => {
+      mockCatalogueService.retireAchievement.mockRejectedValue(
+        new CatalogueError('Achievement nope not found', 404),
+      );
+
+      const response = await request(app)
+        .delete('/api/admin/achievements/nope')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should retire an achievement', async () => {
+      mockCatalogueService.retireAchievement.mockResolvedValue({
+        code: 'first_blood',
+        retiredAt: new Date().toISOString(),
+      });
+
+      const response = await request(app)
+        .delete('/api/admin/achievements/first_blood')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(200);
+      expect(mockCatalogueService.retireAchievement).toHaveBeenCalledWith(
+        'first_blood',
+      );
+    });
+
+    it('should reject malformed codes', async () => {
+      const response = await request(app)
+        .delete('/api/admin/achievements/bad code!')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('unlockables', () => {
+    it('should list unlockables including secret ones', async () => {
+      const unlockables = [{ code: 'emote_dance', isSecret: true }];
+      mockCatalogueService.listUnlockables.mockResolvedValue(unlockables);
+
+      const response = await request(app)
+        .get('/api/admin/unlockables')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(unlockables);
+    });
+
+    it('should create a secret unlockable', async () => {
+      const definition = {
+        code: 'emote_dance',
+        name: 'Dance',
+        type: 'emote',
+        isSecret: true,
+      };
+      mockCatalogueService.createUnlockable.mockResolvedValue(definition);
+
+      const response = await request(app)
+        .post('/api/admin/unlockables')
+        .set('Authorization', adminAuth)
+        .send(definition);
+
+      expect(response.status).toBe(201);
+      expect(mockCatalogueService.createUnlockable).toHaveBeenCalledWith(
+        definition,
+      );
+    });
+
+    it('should reject unknown types', async () => {
+      const response = await request(app)
+        .post('/api/admin/unlockables')
+        .set('Authorization', adminAuth)
+        .send({ code: 'hat', name: 'Hat', type: 'hat' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should update and retire unlockables', async () => {
+      mockCatalogueService.updateUnlockable.mockResolvedValue({});
+      mockCatalogueService.retireUnlockable.mockResolvedValue({});
+
+      const update = await request(app)
+        .patch('/api/admin/unlockables/emote_dance')
+        .set('Authorization', adminAuth)
+        .send({ isSecret: false });
+      const retire = await request(app)
+        .delete('/api/admin/unlockables/emote_dance')
+        .set('Authorization', adminAuth);
+
+      expect(update.status).toBe(200);
+      expect(retire.status).toBe(200);
+      expect(mockCatalogueService.updateUnlockable).toHaveBeenCalledWith(
+        'emote_dance',
+        { isSecret: false },
+      );
+    });
+  });
+
+  describe('POST /api/admin/catalogue/sync', () => {
+    it('should sync the catalogue file', async () => {
+      const catalogue = { unlockables: [], achievements: [] };
+      mockCatalogueService.loadFile.mockResolvedValue(catalogue);
+      mockCatalogueService.sync.mockResolvedValue({
+        unlockables: 0,
+        achievements: 0,
+      });
+
+      const response = await request(app)
+        .post('/api/admin/catalogue/sync')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(200);
+      expect(mockCatalogueService.sync).toHaveBeenCalledWith(catalogue);
+    });
+
+    it('should report an invalid catalogue file', async () => {
+      mockCatalogueService.loadFile.mockRejectedValue(
+        new CatalogueError('Invalid catalogue', 400, ['bad entry']),
+      );
+
+      const response = await request(app)
+        .post('/api/admin/catalogue/sync')
+        .set('Authorization', adminAuth);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({
+        error: 'Invalid catalogue',
+        details: ['bad entry'],
+      });
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import request from 'supertest';
+import express from 'express';
+
+const mockAuthService = {
+  register: jest.fn(),
+  login: jest.fn(),
+  refresh: jest.fn(),
+  logout: jest.fn(),
+  signInGuest: jest.fn(),
+  upgradeGuest: jest.fn(),
+};
+
+// Mock the database, repositories and service
+jest.mock('../../../src/persistence/database', () => ({
+  AppDataSource: {
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/persistence/repositories/PlayerProfileRepository');
+jest.mock('../../../src/persistence/repositories/RefreshTokenRepository');
+jest.mock('../../../src/services/AuthService', () => ({
+  ...jest.requireActual('../../../src/services/AuthService'),
+  AuthService: jest.fn().mockImplementation(() => mockAuthService),
+}));
+
+import authRouter from '../../../src/api/auth';
+import { AuthError } from '../../../src/services/AuthService';
+
+const authResult = {
+  accessToken: 'access',
+  expiresIn: 900,
+  refreshToken: 'refresh-token',
+  player: { id: 'player-1', username: 'alice', isGuest: false },
+};
+
+describe('Auth API Integration', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/auth', authRouter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('should create an account', async () => {
+      mockAuthService.register.mockResolvedValue(authResult);
+
+      const response = await request(app).post('/api/auth/register').send({
+        username: 'alice',
+        password: 'correct horse',
+        email: 'a@b.co',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(authResult);
+      expect(mockAuthService.register).toHaveBeenCalledWith(
+        'alice',
+        'correct horse',
+        'a@b.co',
+      );
+    });
+
+    it('should validate the username, password and email', async () => {
+      const invalid = [
+        { username: 'a!', password: 'correct horse' },
+        { username: 'guest_alice', password: 'correct horse' },
+        { username: 'alice', password: 'short' },
+        { username: 'alice', password: 'x'.repeat(73) },
+        { username: 'alice', password: 'correct horse', email: 'nope' },
+      ];
+
+      for (const body of invalid) {
+        const response = await request(app)
+          .post('/api/auth/register')
+          .send(body);
+        expect(response.status).toBe(400);
+      }
+      expect(mockAuthService.register).not.toHaveBeenCalled();
+    });
+
+    it('should report taken usernames', async () => {
+      mockAuthService.register.mockRejectedValue(
+        new AuthError('Username already taken', 409),
+      );
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'alice', password: 'correct horse' });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'Username already taken' });
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('should sign in', async () => {
+      mockAuthService.login.mockResolvedValue(authResult);
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice', password: 'correct horse' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(authResult);
+    });
+
+    it('should require credentials', async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should tell locked out players when to retry', async () => {
+      mockAuthService.login.mockRejectedValue(
+        new AuthError('Account temporarily locked', 423, 120),
+      );
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice', password: 'correct horse' });
+
+      expect(response.status).toBe(423);
+      expect(response.headers['retry-after']).toBe('120');
+    });
+
+    it('should hide unexpected errors', async () => {
+      mockAuthService.login.mockRejectedValue(new Error('db down'));
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice', password: 'correct horse' });
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual({ error: 'Internal server error' });
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should issue new tokens', async () => {
+      mockAuthService.refresh.mockResolvedValue(authResult);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'refresh-token' });
+
+      expect(response.status).toBe(200);
+      expect(mockAuthService.refresh).toHaveBeenCalledWith('refresh-token');
+    });
+
+    it('should reject invalid refresh tokens', async () => {
+      mockAuthService.refresh.mockRejectedValue(
+        new AuthError('Invalid refresh token', 401),
+      );
+
+      const missing = await request(app).post('/api/auth/refresh').send({});
+      const rejected = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'stale' });
+
+      expect(missing.status).toBe(400);
+      expect(rejected.status).toBe(401);
+    });
+  });
+
+  describe('POST /api/auth/guest', () => {
+    it('should sign in a new guest', async () => {
+      mockAuthService.signInGuest.mockResolvedValue({
+        ...authResult,
+        deviceToken: 'device-token',
+      });
+
+      const response = await request(app).post('/api/auth/guest').send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.deviceToken).toBe('device-token');
+      expect(mockAuthService.signInGuest).toHaveBeenCalledWith(undefined);
+    });
+
+    it('should pass on a returning device token', async () => {
+      mockAuthService.signInGuest.mockResolvedValue(authResult);
+
+      await request(app)
+        .post('/api/auth/guest')
+        .send({ deviceToken: 'device-token' });
+
+      expect(mockAuthService.signInGuest).toHaveBeenCalledWith('device-token');
+    });
+
+    it('should reject malformed device tokens', async () => {
+      const response = await request(app)
+        .post('/api/auth/guest')
+        .send({ deviceToken: 'not a token!' });
+
+      expect(response.status).toBe(400);
+      expect(mockAuthService.signInGuest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/auth/upgrade', () => {
+    it('should upgrade the guest profile', async () => {
+      mockAuthService.upgradeGuest.mockResolvedValue(authResult);
+
+      const response = await request(app).post('/api/auth/upgrade').send({
+        deviceToken: 'device-token',
+        username: 'alice',
+        password: 'correct horse',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(authResult);
+      expect(mockAuthService.upgradeGuest).toHaveBeenCalledWith(
+        'device-token',
+        'alice',
+        'correct horse',
+        undefined,
+      );
+    });
+
+    it('should require a device token and valid credentials', async () => {
+      const missingToken = await request(app)
+        .post('/api/auth/upgrade')
+        .send({ username: 'alice', password: 'correct horse' });
+      const badPassword = await request(app)
+        .post('/api/auth/upgrade')
+        .send({
+          deviceToken: 'device-token',
+          username: 'alice',
+          password: 'x',
+        });
+
+      expect(missingToken.status).toBe(400);
+      expect(badPassword.status).toBe(400);
+      expect(mockAuthService.upgradeGuest).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown device tokens', async () => {
+      mockAuthService.upgradeGuest.mockRejectedValue(
+        new AuthError('Invalid device token', 401),
+      );
+
+      const response = await request(app).post('/api/auth/upgrade').send({
+        deviceToken: 'device-token',
+        username: 'alice',
+        password: 'correct horse',
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'Invalid device token' });
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the refresh token', async () => {
+      mockAuthService.logout.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken: 'refresh-token' });
+
+      expect(response.status).toBe(204);
+      expect(mockAuthService.logout).toHaveBeenCalledWith('refresh-token');
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+const mockCommunityLevelService = {
+  searchLevels: jest.fn(),
+  uploadLevel: jest.fn(),
+  downloadLevel: jest.fn(),
+  rateLevel: jest.fn(),
+};
+
+// Mock the database, repository and service
+jest.mock('../../../src/persistence/database', () => ({
+  AppDataSource: {
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/persistence/repositories/CommunityLevelRepository');
+jest.mock('../../../src/services/CommunityLevelService', () => ({
+  ...jest.requireActual('../../../src/services/CommunityLevelService'),
+  CommunityLevelService: jest
+    .fn()
+    .mockImplementation(() => mockCommunityLevelService),
+}));
+
+import communityRouter from '../../../src/api/community';
+import { CommunityLevelError } from '../../../src/services/CommunityLevelService';
+
+process.env.JWT_SECRET = 'test-secret';
+
+const auth = `Bearer ${jwt.sign({ playerId: 'player1', role: 'player' }, 'test-secret')}`;
+const levelId = '3f1c2b7e-9a44-4c1d-8e2f-5b6a7c8d9e0f';
+
+describe('Community API Integration', () => {
+  let app: express.Application;
+
+  const summary = {
+    id: levelId,
+    title: 'Spike Gauntlet',
+    description: '',
+    authorId: 'player2',
+    author: 'maker',
+    width: 20,
+    height: 10,
+    rating: 4,
+    ratingCount: 2,
+    downloads: 7,
+    createdAt: 1760000000000,
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/community', communityRouter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/community/levels', () => {
+    it('should list the newest levels by default', async () => {
+      mockCommunityLevelService.searchLevels.mockResolvedValue({
+        levels: [summary],
+        total: 1,
+      });
+
+      const response = await request(app).get('/api/community/levels');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ levels: [summary], total: 1 });
+      expect(mockCommunityLevelService.searchLevels).toHaveBeenCalledWith({
+        query: undefined,
+        order: 'newest',
+        limit: 20,
+        offset: 0,
+      });
+    });
+
+    it('should pass on the search, sort and page', async () => {
+      mockCommunityLevelService.searchLevels.mockResolvedValue({
+        levels: [],
+        total: 0,
+      });
+
+      const response = await request(app).get(
+        '/api/community/levels?q=spike&sort=top_rated&limit=10&offset=30',
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockCommunityLevelService.searchLevels).toHaveBeenCalledWith({
+        query: 'spike',
+        order: 'top_rated',
+        limit: 10,
+        offset: 30,
+      });
+    });
+
+    it('should reject unknown sorts', async () => {
+      const response = await request(app).get(
+        '/api/community/levels?sort=oldest',
+      );
+
+      expect(response.status).toBe(400);
+      expect(mockCommunityLevelService.searchLevels).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/community/levels', () => {
+    const upload = {
+      title: 'Spike Gauntlet',
+      config: { targetScore: 100 },
+      map: { width: 20, height: 10, layers: [] },
+    };
+
+    it('should require a token', async () => {
+      const response = await request(app)
+        .post('/api/community/levels')
+        .send(upload);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should publish the level as the token's player", async () => {
+      mockCommunityLevelService.uploadLevel.mockResolvedValue(summary);
+
+      const response = await request(app)
+        .post('/api/community/levels')
+        .set('Authorization', auth)
+        .send(upload);
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(summary);
+      expect(mockCommunityLevelService.uploadLevel).toHaveBeenCalledWith(
+        'player1',
+        upload,
+      );
+    });
+
+    it('should reject malformed uploads', async () => {
+      const response = await request(app)
+        .post('/api/community/levels')
+        .set('Authorization', auth)
+        .send({ ...upload, title: 'x' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        'title must be 3 to 48 characters',
+      ]);
+      expect(mockCommunityLevelService.uploadLevel).not.toHaveBeenCalled();
+    });
+
+    it('should answer 422 with the reasons a level is unplayable', async () => {
+      mockCommunityLevelService.uploadLevel.mockRejectedValue(
+        new CommunityLevelError('Unplayable level', 422, [
+          'the exit cannot be reached from the player spawn',
+        ]),
+      );
+
+      const response = await request(app)
+        .post('/api/community/levels')
+        .set('Authorization', auth)
+        .send(upload);
+
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual({
+        error: 'Unplayable level',
+        details: ['the exit cannot be reached from the player spawn'],
+      });
+    });
+  });
+
+  describe('GET /api/community/levels/:id', () => {
+    it('should download the level', async () => {
+      const download = { ...summary, config: {}, map: { width: 20 } };
+      mockCommunityLevelService.downloadLevel.mockResolvedValue(download);
+
+      const response = await request(app).get(
+        `/api/community/levels/${levelId}`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(download);
+    });
+
+    it('should reject ids that are not uuids', async () => {
+      const response = await request(app).get('/api/community/levels/1');
+
+      expect(response.status).toBe(400);
+      expect(mockCommunityLevelService.downloadLevel).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for an unknown level', async () => {
+      mockCommunityLevelService.downloadLevel.mockRejectedValue(
+        new CommunityLevelError('Level not found', 404),
+      );
+
+      const response = await request(app).get(
+        `/api/community/levels/${levelId}`,
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Level not found' });
+    });
+
+    it('should answer 500 on unexpected errors', async () => {
+      mockCommunityLevelService.downloadLevel.mockRejectedValue(
+        new Error('db down'),
+      );
+
+      const response = await request(app).get(
+        `/api/community/levels/${levelId}`,
+      );
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('PUT /api/community/levels/:id/rating', () => {
+    it("should rate the level as the token's player", async () => {
+      const outcome = { rating: 4.5, ratingCount: 2, yourRating: 5 };
+      mockCommunityLevelService.rateLevel.mockResolvedValue(outcome);
+
+      const response = await request(app)
+        .put(`/api/community/levels/${levelId}/rating`)
+        .set('Authorization', auth)
+        .send({ rating: 5 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(outcome);
+      expect(mockCommunityLevelService.rateLevel).toHaveBeenCalledWith(
+        'player1',
+        levelId,
+        5,
+      );
+    });
+
+    it('should reject ratings outside 1 to 5 stars', async () => {
+      const response = await request(app)
+        .put(`/api/community/levels/${levelId}/rating`)
+        .set('Authorization', auth)
+        .send({ rating: 4.5 });
+
+      expect(response.status).toBe(400);
+      expect(mockCommunityLevelService.rateLevel).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,12 +1,20 @@
-// Mock the LeaderboardService's required environment variable before import
-jest.mock('../../../src/services/LeaderboardService', () => ({
-  LeaderboardService: jest.fn().mockImplementation(() => ({
-    getTopPlayersByScore: jest.fn(),
-    getTopPlayersByLevel: jest.fn(),
-    getPlayerRankByScore: jest.fn(),
-    refreshAllLeaderboards: jest.fn(),
-  })),
-}));
+const mockLeaderboardService = {
+  getTopPlayersByScore: jest.fn(),
+  getTopPlayersByLevel: jest.fn(),
+  getPlayerRankByScore: jest.fn(),
+  getPlayersAroundPlayer: jest.fn(),
+  getSeasons: jest.fn(),
+  getSeasonStandings: jest.fn(),
+  rolloverSeason: jest.fn(),
+  refreshAllLeaderboards: jest.fn(),
+};
+
+// Set the LeaderboardService's required environment variable before import
+jest.mock('../../../src/services/LeaderboardService', () => {
+  process.env.REDIS_URL = 'redis://localhost:6379';
+  return jest.requireActual('../../../src/services/LeaderboardService');
+});
+jest.mock('redis', () => ({ createClient: jest.fn() }));
 
 // Now we can test the router behavior by mocking at the right level
 import request from 'supertest';
@@ -21,6 +29,15 @@ jest.mock('../../../src/persistence/database', () => ({
 
 jest.mock('../../../src/persistence/repositories/PlayerStatsRepository');
 jest.mock('../../../src/persistence/repositories/PlayerProfileRepository');
+jest.mock('../../../src/persistence/repositories/PlayerRatingRepository');
+jest.mock('../../../src/persistence/repositories/SeasonRepository');
+
+import jwt from 'jsonwebtoken';
+import leaderboardRouter, {
+  setLeaderboardService,
+} from '../../../src/api/leaderboard';
+
+process.env.JWT_SECRET = 'test-secret';
 
 describe('Leaderboard API Integration', () => {
   let app: express.Application;
@@ -102,4 +119,121 @@ describe('Leaderboard API Integration', () => {
       expect(response.body).toEqual({ success: true });
     });
   });
+
+  describe('score boards', () => {
+    let boardApp: express.Application;
+
+    beforeEach(() => {
+      setLeaderboardService(mockLeaderboardService as any);
+      boardApp = express();
+      boardApp.use(express.json());
+      boardApp.use('/api/leaderboard', leaderboardRouter);
+    });
+
+    it('should list a weekly board', async () => {
+      mockLeaderboardService.getTopPlayersByScore.mockResolvedValue([]);
+
+      const response = await request(boardApp).get(
+        '/api/leaderboard/top/score?period=weekly&limit=5',
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockLeaderboardService.getTopPlayersByScore).toHaveBeenCalledWith(
+        'weekly',
+        5,
+        undefined,
+      );
+    });
+
+    it('should read a past season board', async () => {
+      mockLeaderboardService.getTopPlayersByScore.mockResolvedValue([]);
+
+      await request(boardApp).get(
+        '/api/leaderboard/top/score?period=season&season=3',
+      );
+
+      expect(mockLeaderboardService.getTopPlayersByScore).toHaveBeenCalledWith(
+        'season',
+        10,
+        3,
+      );
+    });
+
+    it('should reject unknown periods and stray seasons', async () => {
+      const period = await request(boardApp).get(
+        '/api/leaderboard/top/score?period=monthly',
+      );
+      const season = await request(boardApp).get(
+        '/api/leaderboard/top/score?season=3',
+      );
+
+      expect(period.status).toBe(400);
+      expect(season.status).toBe(400);
+      expect(
+        mockLeaderboardService.getTopPlayersByScore,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should list the players around a player', async () => {
+      const entries = [
+        { rank: 4, playerId: 'player1', username: 'One', score: 10 },
+      ];
+      mockLeaderboardService.getPlayersAroundPlayer.mockResolvedValue(entries);
+
+      const response = await request(boardApp).get(
+        '/api/leaderboard/around/player1?period=daily&radius=2',
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(entries);
+      expect(
+        mockLeaderboardService.getPlayersAroundPlayer,
+      ).toHaveBeenCalledWith('player1', 'daily', 2, undefined);
+    });
+
+    it('should answer 404 around players not on the board', async () => {
+      mockLeaderboardService.getPlayersAroundPlayer.mockResolvedValue([]);
+
+      const response = await request(boardApp).get(
+        '/api/leaderboard/around/player1',
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should list archived season standings', async () => {
+      mockLeaderboardService.getSeasonStandings.mockResolvedValue([]);
+
+      const response = await request(boardApp).get(
+        '/api/leaderboard/seasons/2/standings?limit=50&offset=100',
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockLeaderboardService.getSeasonStandings).toHaveBeenCalledWith(
+        2,
+        50,
+        100,
+      );
+    });
+
+    it('should only let admins end a season', async () => {
+      mockLeaderboardService.rolloverSeason.mockResolvedValue({ id: 4 });
+      const token = (role: string) =>
+        `Bearer ${jwt.sign({ playerId: 'admin1', role }, 'test-secret')}`;
+
+      const player = await request(boardApp)
+        .post('/api/leaderboard/seasons/rollover')
+        .set('Authorization', token('player'));
+      const admin = await request(boardApp)
+        .post('/api/leaderboard/seasons/rollover')
+        .set('Authorization', token('admin'));
+
+      expect(player.status).toBe(403);
+      expect(admin.status).toBe(200);
+      expect(mockLeaderboardService.rolloverSeason).toHaveBeenCalledWith(
+        expect.any(Date),
+        true,
+      );
+    });
+  });
 });
@@ -0,0 +1,189 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+const mockLevelRecordService = {
+  submitResult: jest.fn(),
+  getLeaderboard: jest.fn(),
+  getStanding: jest.fn(),
+};
+
+// Mock the database, repository and service
+jest.mock('../../../src/persistence/database', () => ({
+  AppDataSource: {
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/persistence/repositories/LevelRecordRepository');
+jest.mock('../../../src/services/LevelRecordService', () => ({
+  ...jest.requireActual('../../../src/services/LevelRecordService'),
+  LevelRecordService: jest
+    .fn()
+    .mockImplementation(() => mockLevelRecordService),
+}));
+
+import levelsRouter from '../../../src/api/levels';
+import { LevelRecordError } from '../../../src/services/LevelRecordService';
+
+process.env.JWT_SECRET = 'test-secret';
+
+const auth = `Bearer ${jwt.sign({ playerId: 'player1', role: 'player' }, 'test-secret')}`;
+
+describe('Levels API Integration', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/levels', levelsRouter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/levels/:level/results', () => {
+    const result = { timeMs: 42000, score: 350, metadata: { coins: 8 } };
+
+    it('should require a token', async () => {
+      const response = await request(app)
+        .post('/api/levels/1/results')
+        .send(result);
+
+      expect(response.status).toBe(401);
+    });
+
+    it("should record the run for the token's player", async () => {
+      const outcome = {
+        standing: { levelNumber: 1, timeRank: 1, scoreRank: 4 },
+        newBestTime: true,
+        newHighScore: false,
+      };
+      mockLevelRecordService.submitResult.mockResolvedValue(outcome);
+
+      const response = await request(app)
+        .post('/api/levels/1/results')
+        .set('Authorization', auth)
+        .send(result);
+
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual(outcome);
+      expect(mockLevelRecordService.submitResult).toHaveBeenCalledWith(
+        'player1',
+        1,
+        result,
+      );
+    });
+
+    it('should reject malformed results', async () => {
+      const response = await request(app)
+        .post('/api/levels/1/results')
+        .set('Authorization', auth)
+        .send({ timeMs: 'fast' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toHaveLength(2);
+      expect(mockLevelRecordService.submitResult).not.toHaveBeenCalled();
+    });
+
+    it('should explain implausible results', async () => {
+      mockLevelRecordService.submitResult.mockRejectedValue(
+        new LevelRecordError('Implausible result', 422, ['too fast']),
+      );
+
+      const response = await request(app)
+        .post('/api/levels/1/results')
+        .set('Authorization', auth)
+        .send(result);
+
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual({
+        error: 'Implausible result',
+        details: ['too fast'],
+      });
+    });
+
+    it('should reject malformed level numbers', async () => {
+      const response = await request(app)
+        .post('/api/levels/0/results')
+        .set('Authorization', auth)
+        .send(result);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/levels/:level/leaderboard', () => {
+    it('should list the fastest times by default', async () => {
+      mockLevelRecordService.getLeaderboard.mockResolvedValue([]);
+
+      const response = await request(app).get('/api/levels/2/leaderboard');
+
+      expect(response.status).toBe(200);
+      expect(mockLevelRecordService.getLeaderboard).toHaveBeenCalledWith(
+        2,
+        'time',
+        10,
+      );
+    });
+
+    it('should list high scores when asked', async () => {
+      mockLevelRecordService.getLeaderboard.mockResolvedValue([]);
+
+      await request(app).get('/api/levels/2/leaderboard?board=score&limit=3');
+
+      expect(mockLevelRecordService.getLeaderboard).toHaveBeenCalledWith(
+        2,
+        'score',
+        3,
+      );
+    });
+
+    it('should reject unknown boards', async () => {
+      const response = await request(app).get(
+        '/api/levels/2/leaderboard?board=deaths',
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should answer 404 for unknown levels', async () => {
+      mockLevelRecordService.getLeaderboard.mockRejectedValue(
+        new LevelRecordError('Level 9 not found', 404),
+      );
+
+      const response = await request(app).get('/api/levels/9/leaderboard');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/levels/:level/leaderboard/me', () => {
+    it("should return the player's standing", async () => {
+      const standing = { levelNumber: 1, bestTimeMs: 42000, timeRank: 2 };
+      mockLevelRecordService.getStanding.mockResolvedValue(standing);
+
+      const response = await request(app)
+        .get('/api/levels/1/leaderboard/me')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(standing);
+      expect(mockLevelRecordService.getStanding).toHaveBeenCalledWith(
+        'player1',
+        1,
+      );
+    });
+
+    it('should answer 404 before the level is completed', async () => {
+      mockLevelRecordService.getStanding.mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/levels/1/leaderboard/me')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import request from 'supertest';
 import express from 'express';
+import jwt from 'jsonwebtoken';
 import playersRouter from '../../../src/api/players';
 import { AppDataSource } from '../../../src/persistence/database';
 import { PlayerProfileRepository } from '../../../src/persistence/repositories/PlayerProfileRepository';
@@ -26,6 +27,14 @@ jest.mock(
 );
 jest.mock('../../../src/persistence/repositories/UnlockableRepository');
 
+process.env.JWT_SECRET = 'test-secret';
+
+const tokenFor = (playerId: string, role: 'player' | 'admin' = 'player') =>
+  `Bearer ${jwt.sign({ playerId, role }, 'test-secret')}`;
+
+const ownerAuth = tokenFor('player1');
+const adminAuth = tokenFor('admin1', 'admin');
+
 describe('Players API Integration', () => {
   let app: express.Application;
 
@@ -46,7 +55,9 @@ describe('Players API Integration', () => {
       >;
       mockProfileRepo.prototype.findOne.mockResolvedValue(null);
 
-      const response = await request(app).get('/api/players/player1/profile');
+      const response = await request(app)
+        .get('/api/players/player1/profile')
+        .set('Authorization', ownerAuth);
       expect(response.status).toBe(404);
       expect(response.body).toEqual({ error: 'Player not found' });
     });
@@ -58,7 +69,9 @@ describe('Players API Integration', () => {
       >;
       mockProfileRepo.prototype.findOne.mockResolvedValue(mockProfile as any);
 
-      const response = await request(app).get('/api/players/player1/profile');
+      const response = await request(app)
+        .get('/api/players/player1/profile')
+        .set('Authorization', ownerAuth);
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockProfile);
     });
@@ -71,7 +84,9 @@ describe('Players API Integration', () => {
       >;
       mockStatsRepo.prototype.findByPlayerId.mockResolvedValue(null);
 
-      const response = await request(app).get('/api/players/player1/stats');
+      const response = await request(app)
+        .get('/api/players/player1/stats')
+        .set('Authorization', ownerAuth);
       expect(response.status).toBe(404);
       expect(response.body).toEqual({ error: 'Stats not found' });
     });
@@ -85,7 +100,9 @@ describe('Players API Integration', () => {
         mockStats as any,
       );
 
-      const response = await request(app).get('/api/players/player1/stats');
+      const response = await request(app)
+        .get('/api/players/player1/stats')
+        .set('Authorization', ownerAuth);
       expect(response.status).toBe(200);
       expect(response.body).toEqual(mockStats);
     });
@@ -114,6 +131,7 @@ describe('Players API Integration', () => {
 
       const response = await request(app)
         .patch('/api/players/player1/stats')
+        .set('Authorization', adminAuth)
         .send({ kills: 3 });
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ success: true });
@@ -125,6 +143,7 @@ describe('Players API Integration', () => {
       );
       const response = await request(app)
         .patch('/api/players/player1/stats')
+        .set('Authorization', adminAuth)
         .send({ kills: 3 });
       expect(response.status).toBe(500);
       expect(response.body).toEqual({ error: 'Internal server error' });
@@ -141,6 +160,7 @@ describe('Players API Integration', () => {
 
       const response = await request(app)
         .post('/api/players/player1/unlocks')
+        .set('Authorization', adminAuth)
         .send({ unlockableId: 'unlock1' });
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ success: true });
@@ -149,6 +169,7 @@ describe('Players API Integration', () => {
     it('should return 400 if missing unlockableId', async () => {
       const response = await request(app)
         .post('/api/players/player1/unlocks')
+        .set('Authorization', adminAuth)
         .send({});
       expect(response.status).toBe(400);
       expect(response.body).toEqual({ error: 'Missing unlockableId' });
@@ -162,9 +183,73 @@ describe('Players API Integration', () => {
 
       const response = await request(app)
         .post('/api/players/player1/unlocks')
+        .set('Authorization', adminAuth)
         .send({ unlockableId: 'unlock1' });
       expect(response.status).toBe(500);
       expect(response.body).toEqual({ error: 'Failed to grant unlock' });
     });
   });
+
+  describe('authorization', () => {
+    it('should require a token', async () => {
+      const response = await request(app).get('/api/players/player1/profile');
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ error: 'Authentication required' });
+    });
+
+    it('should reject invalid tokens', async () => {
+      const response = await request(app)
+        .get('/api/players/player1/profile')
+        .set('Authorization', 'Bearer not-a-jwt');
+      expect(response.status).toBe(401);
+    });
+
+    it("should not let players read other players' data", async () => {
+      const response = await request(app)
+        .get('/api/players/player2/inventory')
+        .set('Authorization', ownerAuth);
+      expect(response.status).toBe(403);
+    });
+
+    it("should not let players delete other players' items", async () => {
+      const response = await request(app)
+        .delete('/api/players/player2/inventory')
+        .set('Authorization', ownerAuth)
+        .send({ itemId: 'sword' });
+      expect(response.status).toBe(403);
+    });
+
+    it('should not let players grant themselves unlocks or items', async () => {
+      const unlock = await request(app)
+        .post('/api/players/player1/unlocks')
+        .set('Authorization', ownerAuth)
+        .send({ unlockableId: 'unlock1' });
+      const item = await request(app)
+        .post('/api/players/player1/inventory')
+        .set('Authorization', ownerAuth)
+        .send({ itemId: 'sword' });
+      const stats = await request(app)
+        .patch('/api/players/player1/stats')
+        .set('Authorization', ownerAuth)
+        .send({ kills: 100 });
+
+      expect(unlock.status).toBe(403);
+      expect(item.status).toBe(403);
+      expect(stats.status).toBe(403);
+    });
+
+    it("should let admins read any player's data", async () => {
+      const mockProfileRepo = PlayerProfileRepository as jest.MockedClass<
+        typeof PlayerProfileRepository
+      >;
+      mockProfileRepo.prototype.findOne.mockResolvedValue({
+        id: 'player2',
+      } as any);
+
+      const response = await request(app)
+        .get('/api/players/player2/profile')
+        .set('Authorization', adminAuth);
+      expect(response.status).toBe(200);
+    });
+  });
 });
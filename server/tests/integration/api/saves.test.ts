@@ -0,0 +1,202 @@
+import request from 'supertest';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+
+const mockSaveStorageService = {
+  listSaves: jest.fn(),
+  getSave: jest.fn(),
+  putSave: jest.fn(),
+  deleteSave: jest.fn(),
+};
+
+// Mock the database, repository and service
+jest.mock('../../../src/persistence/database', () => ({
+  AppDataSource: {
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/persistence/repositories/SaveSlotRepository');
+jest.mock('../../../src/services/SaveStorageService', () => ({
+  ...jest.requireActual('../../../src/services/SaveStorageService'),
+  SaveStorageService: jest
+    .fn()
+    .mockImplementation(() => mockSaveStorageService),
+}));
+
+import savesRouter from '../../../src/api/saves';
+import {
+  SaveConflictError,
+  SaveStorageError,
+} from '../../../src/services/SaveStorageService';
+
+process.env.JWT_SECRET = 'test-secret';
+
+const auth = `Bearer ${jwt.sign({ playerId: 'player1', role: 'player' }, 'test-secret')}`;
+
+describe('Saves API Integration', () => {
+  let app: express.Application;
+
+  const data = {
+    version: '1.0.0',
+    timestamp: 1760000000000,
+    player: { currentLevel: 2 },
+    levels: {},
+  };
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use('/api/saves', savesRouter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should require a token', async () => {
+    const response = await request(app).get('/api/saves');
+
+    expect(response.status).toBe(401);
+  });
+
+  describe('GET /api/saves', () => {
+    it("should list the token's player's slots", async () => {
+      const summaries = [
+        { slot: 'auto', revision: 2, savedAt: 1, deleted: false },
+      ];
+      mockSaveStorageService.listSaves.mockResolvedValue(summaries);
+
+      const response = await request(app)
+        .get('/api/saves')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(summaries);
+      expect(mockSaveStorageService.listSaves).toHaveBeenCalledWith('player1');
+    });
+  });
+
+  describe('GET /api/saves/:slot', () => {
+    it('should return the stored save', async () => {
+      const save = { slot: '0', revision: 1, savedAt: 1, deleted: false, data };
+      mockSaveStorageService.getSave.mockResolvedValue(save);
+
+      const response = await request(app)
+        .get('/api/saves/0')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(save);
+    });
+
+    it('should reject unknown slots', async () => {
+      const response = await request(app)
+        .get('/api/saves/9')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(400);
+      expect(mockSaveStorageService.getSave).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for an empty slot', async () => {
+      mockSaveStorageService.getSave.mockRejectedValue(
+        new SaveStorageError('Save slot 3 is empty', 404),
+      );
+
+      const response = await request(app)
+        .get('/api/saves/3')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Save slot 3 is empty' });
+    });
+  });
+
+  describe('PUT /api/saves/:slot', () => {
+    it('should store the save', async () => {
+      const summary = { slot: 'auto', revision: 4, savedAt: 1, deleted: false };
+      mockSaveStorageService.putSave.mockResolvedValue(summary);
+
+      const response = await request(app)
+        .put('/api/saves/auto')
+        .set('Authorization', auth)
+        .send({ data, baseRevision: 3 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(summary);
+      expect(mockSaveStorageService.putSave).toHaveBeenCalledWith(
+        'player1',
+        'auto',
+        { data, baseRevision: 3 },
+      );
+    });
+
+    it('should reject malformed saves', async () => {
+      const response = await request(app)
+        .put('/api/saves/auto')
+        .set('Authorization', auth)
+        .send({ data: { player: {} } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toContain(
+        'baseRevision must be a whole number of at least 0',
+      );
+      expect(mockSaveStorageService.putSave).not.toHaveBeenCalled();
+    });
+
+    it('should answer a conflict with the slot as stored', async () => {
+      const current = { slot: 'auto', revision: 5, savedAt: 9, deleted: false };
+      mockSaveStorageService.putSave.mockRejectedValue(
+        new SaveConflictError(current),
+      );
+
+      const response = await request(app)
+        .put('/api/saves/auto')
+        .set('Authorization', auth)
+        .send({ data, baseRevision: 3 });
+
+      expect(response.status).toBe(409);
+      expect(response.body).toEqual({ error: 'Save conflict', current });
+    });
+
+    it('should answer 500 on unexpected errors', async () => {
+      mockSaveStorageService.putSave.mockRejectedValue(new Error('db down'));
+
+      const response = await request(app)
+        .put('/api/saves/auto')
+        .set('Authorization', auth)
+        .send({ data, baseRevision: 3 });
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('DELETE /api/saves/:slot', () => {
+    it('should delete the slot at the base revision', async () => {
+      const summary = { slot: '1', revision: 3, savedAt: 1, deleted: true };
+      mockSaveStorageService.deleteSave.mockResolvedValue(summary);
+
+      const response = await request(app)
+        .delete('/api/saves/1?baseRevision=2')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(summary);
+      expect(mockSaveStorageService.deleteSave).toHaveBeenCalledWith(
+        'player1',
+        '1',
+        2,
+      );
+    });
+
+    it('should require a base revision', async () => {
+      const response = await request(app)
+        .delete('/api/saves/1')
+        .set('Authorization', auth);
+
+      expect(response.status).toBe(400);
+      expect(mockSaveStorageService.deleteSave).not.toHaveBeenCalled();
+    });
+  });
+});
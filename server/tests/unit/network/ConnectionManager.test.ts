@@ -1,8 +1,12 @@
-import { ConnectionManager } from '../../../src/network/ConnectionManager';
+import {
+  BINARY_SNAPSHOT_ROOM,
+  ConnectionManager,
+} from '../../../src/network/ConnectionManager';
 import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { ProgressionService } from '../../../src/services/ProgressionService';
 import { logger } from '../../../src/utils/logger';
+import { SNAPSHOT_CODEC_VERSION } from '../../../../shared/protocol/snapshotCodec';
 
 // Mock dependencies
 jest.mock('../../../src/utils/logger', () => ({
@@ -109,6 +113,8 @@ describe('ConnectionManager', () => {
         sessionId: 'socket-123',
         playerId: mockPlayerId,
         serverTime: expect.any(Number),
+        snapshotFormat: 'json',
+        resumeToken: expect.any(String),
       });
     });
 
@@ -125,9 +131,43 @@ describe('ConnectionManager', () => {
         sessionId: 'socket-123',
         playerId: 'guest_socket-123',
         serverTime: expect.any(Number),
+        snapshotFormat: 'json',
+        resumeToken: expect.any(String),
       });
     });
 
+    it('should negotiate binary snapshots for clients that support the codec', () => {
+      mockSocket.handshake.auth = {};
+      mockSocket.handshake.query = {
+        snapshotCodec: String(SNAPSHOT_CODEC_VERSION),
+      };
+
+      const connectionHandler = eventHandlers.get('connection')!;
+      connectionHandler(mockSocket);
+
+      expect(connectionManager.getSession('socket-123')?.snapshotFormat).toBe(
+        'binary',
+      );
+      expect(mockSocket.join).toHaveBeenCalledWith(BINARY_SNAPSHOT_ROOM);
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        'connection_ack',
+        expect.objectContaining({ snapshotFormat: 'binary' }),
+      );
+    });
+
+    it('should fall back to JSON for an unknown codec version', () => {
+      mockSocket.handshake.auth = { snapshotCodec: 99 };
+      mockSocket.handshake.query = {};
+
+      const connectionHandler = eventHandlers.get('connection')!;
+      connectionHandler(mockSocket);
+
+      expect(connectionManager.getSession('socket-123')?.snapshotFormat).toBe(
+        'json',
+      );
+      expect(mockSocket.join).not.toHaveBeenCalled();
+    });
+
     it('should register disconnect event handler', () => {
       mockSocket.handshake.auth = {};
       mockSocket.handshake.query = {};
@@ -162,9 +202,13 @@ describe('ConnectionManager', () => {
       expect(connectionManager.getConnectedCount()).toBe(0);
     });
 
-    it('should notify room on disconnection', () => {
+    it('should hold the slot and notify room that the player left after the grace period', () => {
+      jest.useFakeTimers();
       const mockEmit = jest.fn();
       mockServer.to = jest.fn().mockReturnValue({ emit: mockEmit });
+      connectionManager = new ConnectionManager(mockServer, undefined, 5000);
+      const onExpired = jest.fn();
+      connectionManager.setLifecycleHandlers({ onExpired });
 
       mockSocket.handshake.auth = {};
       mockSocket.handshake.query = {};
@@ -177,10 +221,133 @@ describe('ConnectionManager', () => {
       disconnectHandler();
 
       expect(mockServer.to).toHaveBeenCalledWith('room-1');
+      expect(mockEmit).toHaveBeenCalledWith('player_disconnected', {
+        playerId: 'guest_socket-123',
+        socketId: 'socket-123',
+        gracePeriodMs: 5000,
+      });
+      expect(mockEmit).not.toHaveBeenCalledWith(
+        'player_left',
+        expect.anything(),
+      );
+
+      jest.advanceTimersByTime(5000);
+
       expect(mockEmit).toHaveBeenCalledWith('player_left', {
         playerId: 'guest_socket-123',
         socketId: 'socket-123',
       });
+      expect(onExpired).toHaveBeenCalledWith(
+        expect.objectContaining({
+          playerId: 'guest_socket-123',
+          roomId: 'room-1',
+        }),
+      );
+      jest.useRealTimers();
+    });
+  });
+
+  describe('resumeSession', () => {
+    let connectionHandler: Function;
+    let resumeToken: string;
+
+    const connect = (id: string, auth: any = {}) => {
+      (mockSocket as any).id = id;
+      mockSocket.handshake.auth = auth;
+      mockSocket.handshake.query = {};
+      mockSocket.emit.mockClear();
+      connectionHandler(mockSocket);
+      return mockSocket.emit.mock.calls.find(
+        ([event]) => event === 'connection_ack',
+      )![1];
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      connectionManager = new ConnectionManager(mockServer, undefined, 5000);
+      connectionHandler = eventHandlers.get('connection')!;
+      resumeToken = connect('socket-old').resumeToken;
+      connectionManager.assignRoom('socket-old', 'room-1');
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should issue a different resume token per connection', () => {
+      expect(resumeToken).toMatch(/^[0-9a-f]{32}$/);
+      expect(connect('socket-other').resumeToken).not.toBe(resumeToken);
+    });
+
+    it('should suspend sessions that drop out of a room', () => {
+      const onSuspended = jest.fn();
+      connectionManager.setLifecycleHandlers({ onSuspended });
+
+      eventHandlers.get('socket-old:disconnect')!();
+
+      expect(onSuspended).toHaveBeenCalledWith(
+        expect.objectContaining({
+          playerId: 'guest_socket-old',
+          roomId: 'room-1',
+          disconnectedAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it('should restore player and room on the new socket', () => {
+      const onExpired = jest.fn();
+      connectionManager.setLifecycleHandlers({ onExpired });
+      eventHandlers.get('socket-old:disconnect')!();
+      connect('socket-new');
+
+      const resumed = connectionManager.resumeSession(
+        'socket-new',
+        resumeToken,
+      );
+
+      expect(resumed?.previousSocketId).toBe('socket-old');
+      expect(connectionManager.getSession('socket-new')).toMatchObject({
+        playerId: 'guest_socket-old',
+        roomId: 'room-1',
+      });
+
+      jest.advanceTimersByTime(5000);
+      expect(onExpired).not.toHaveBeenCalled();
+    });
+
+    it('should only resume a session once', () => {
+      eventHandlers.get('socket-old:disconnect')!();
+      connect('socket-new');
+
+      expect(
+        connectionManager.resumeSession('socket-new', resumeToken),
+      ).not.toBeNull();
+      expect(
+        connectionManager.resumeSession('socket-new', resumeToken),
+      ).toBeNull();
+    });
+
+    it('should reject unknown and expired tokens', () => {
+      eventHandlers.get('socket-old:disconnect')!();
+      connect('socket-new');
+
+      expect(connectionManager.resumeSession('socket-new', 'bogus')).toBeNull();
+
+      jest.advanceTimersByTime(5000);
+      expect(
+        connectionManager.resumeSession('socket-new', resumeToken),
+      ).toBeNull();
+    });
+
+    it('should reject a socket authenticated as another player', () => {
+      process.env.JWT_SECRET = 'test-secret';
+      (jwt.verify as jest.Mock).mockReturnValue({ playerId: 'player-2' });
+      eventHandlers.get('socket-old:disconnect')!();
+      connect('socket-new', { token: 'other-token' });
+
+      expect(
+        connectionManager.resumeSession('socket-new', resumeToken),
+      ).toBeNull();
     });
   });
 
@@ -281,6 +448,19 @@ describe('ConnectionManager', () => {
       expect(logger.warn).toHaveBeenCalledWith('Invalid token: Invalid token');
     });
 
+    it('should treat tokens without a playerId claim as guests', () => {
+      process.env.JWT_SECRET = 'test-secret';
+      mockSocket.handshake.auth = { token: 'legacy-token' };
+      (jwt.verify as jest.Mock).mockReturnValue({ userId: 'player-1' });
+
+      const connectionHandler = eventHandlers.get('connection')!;
+      connectionHandler(mockSocket);
+
+      const session = connectionManager.getSession('socket-123');
+      expect(session?.playerId).toBe('guest_socket-123');
+      expect(logger.warn).toHaveBeenCalledWith('Token has no playerId claim');
+    });
+
     it('should read token from query when not in auth', () => {
       const mockPlayerId = 'player-from-query';
       process.env.JWT_SECRET = 'test-secret';
@@ -296,6 +476,8 @@ describe('ConnectionManager', () => {
         sessionId: 'socket-123',
         playerId: mockPlayerId,
         serverTime: expect.any(Number),
+        snapshotFormat: 'json',
+        resumeToken: expect.any(String),
       });
     });
   });
@@ -336,9 +518,39 @@ describe('ConnectionManager', () => {
       const pingHandler = eventHandlers.get('socket-123:ping')!;
       pingHandler();
 
-      expect(mockSocket.emit).toHaveBeenCalledWith('pong', {
-        serverTime: expect.any(Number),
-      });
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        'pong',
+        { serverTime: expect.any(Number) },
+        expect.any(Function),
+      );
+    });
+
+    it('should measure round-trip time from acknowledged pongs', () => {
+      mockSocket.handshake.auth = {};
+      mockSocket.handshake.query = {};
+      const connectionHandler = eventHandlers.get('connection')!;
+      connectionHandler(mockSocket);
+      const pingHandler = eventHandlers.get('socket-123:ping')!;
+      const nowSpy = jest.spyOn(Date, 'now');
+      const pongAck = () =>
+        (mockSocket.emit as jest.Mock).mock.calls
+          .filter((c: any[]) => c[0] === 'pong')
+          .pop()[2];
+
+      nowSpy.mockReturnValue(1000);
+      pingHandler();
+      nowSpy.mockReturnValue(1100);
+      pongAck()();
+      expect(connectionManager.getSession('socket-123')!.rtt).toBe(100);
+
+      // Later samples are smoothed
+      nowSpy.mockReturnValue(2000);
+      pingHandler();
+      nowSpy.mockReturnValue(2200);
+      pongAck()();
+      expect(connectionManager.getSession('socket-123')!.rtt).toBeCloseTo(120);
+
+      nowSpy.mockRestore();
     });
 
     it('should not emit pong for unknown session', () => {
@@ -361,6 +573,7 @@ describe('ConnectionManager', () => {
       expect(mockSocket.emit).not.toHaveBeenCalledWith(
         'pong',
         expect.any(Object),
+        expect.any(Function),
       );
     });
   });
@@ -1,5 +1,7 @@
 import { GameSync, GameStateSnapshot } from '../../../src/network/GameSync';
 import { RoomManager } from '../../../src/network/RoomManager';
+import { BINARY_SNAPSHOT_ROOM } from '../../../src/network/ConnectionManager';
+import { decodeSnapshot } from '../../../../shared/protocol/snapshotCodec';
 import { Server } from 'socket.io';
 
 // Mock dependencies
@@ -22,6 +24,11 @@ describe('GameSync', () => {
       to: jest.fn().mockReturnValue({
         emit: jest.fn(),
       }),
+      sockets: {
+        adapter: {
+          rooms: new Map([['test-room', new Set(['socket1'])]]),
+        },
+      },
     } as unknown as jest.Mocked<Server>;
 
     mockRoomManager = {
@@ -29,6 +36,7 @@ describe('GameSync', () => {
         { roomId: 'room1', players: ['player1', 'player2'] },
         { roomId: 'room2', players: ['player3'] },
       ]),
+      getRoom: jest.fn().mockReturnValue(undefined),
     } as unknown as jest.Mocked<RoomManager>;
 
     gameSync = new GameSync(mockIo, mockRoomManager, 20);
@@ -112,6 +120,78 @@ describe('GameSync', () => {
     });
   });
 
+  describe('room lifecycle', () => {
+    const room = (level?: number) =>
+      ({
+        roomId: 'test-room',
+        players: [{ playerId: 'player1', socketId: 'socket1' }],
+        gameMode: 'deathmatch',
+        maxPlayers: 4,
+        level,
+        isActive: true,
+      }) as any;
+
+    it('should queue input sent before the room first ticks', () => {
+      gameSync.addRoom(room());
+
+      gameSync.applyPlayerInput('test-room', 'player1', {
+        sequence: 1,
+        input: { moveX: 1, jump: false },
+      });
+
+      const state = gameSync.getRoomState('test-room')!;
+      expect(state.entities['player1']).toBeDefined();
+      expect(state.events).toHaveLength(1);
+    });
+
+    it('should spawn early players in the room level', () => {
+      gameSync.addRoom(room(2));
+
+      expect((gameSync as any).roomLevels.get('test-room')).toBe(2);
+    });
+
+    it('should keep the state of a room it already simulates', () => {
+      gameSync.resetRoomState('test-room');
+      const state = gameSync.getRoomState('test-room');
+
+      gameSync.addRoom(room());
+
+      expect(gameSync.getRoomState('test-room')).toBe(state);
+    });
+
+    it('should drop everything kept for a removed room', () => {
+      mockRoomManager.getActiveRooms.mockReturnValue([room(1)]);
+      gameSync.addRoom(room(1));
+      gameSync.applyPlayerInput('test-room', 'player1', {
+        sequence: 1,
+        input: { moveX: 1, jump: false },
+      });
+      gameSync.applyPlayerAttack('test-room', 'player1', {
+        kind: 'melee',
+        facing: 1,
+      });
+      (gameSync as any).tick();
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 1);
+
+      gameSync.removeRoom('test-room');
+
+      expect(gameSync.getRoomState('test-room')).toBeUndefined();
+      for (const map of [
+        'sentSnapshots',
+        'stateHistories',
+        'levelGeometries',
+        'roomLevels',
+        'combos',
+        'lastAttackTimes',
+        'lastSentTicks',
+        'outgoingEvents',
+      ]) {
+        expect((gameSync as any)[map].has('test-room')).toBe(false);
+      }
+      expect((gameSync as any).clientAcks.has('socket1')).toBe(false);
+    });
+  });
+
   describe('applyPlayerInput', () => {
     it('should apply valid player input', () => {
       gameSync.resetRoomState('test-room');
@@ -434,15 +514,20 @@ describe('GameSync', () => {
         velocity: { x: 10, y: 0 },
         isOnGround: true,
       };
+      state!.entities['crate1'] = {
+        position: { x: 300, y: 100 },
+      };
 
       // First delta - should be full
       const delta1 = (gameSync as any).computeDelta('test-room');
+      expect(delta1.full).toBe(true);
+      (gameSync as any).broadcastState('test-room');
 
       // Update entity
       state!.entities['player1'].position.x = 101;
 
-      // Second delta - should be delta
-      const delta2 = (gameSync as any).computeDelta('test-room');
+      // Second delta against the sent snapshot - should be delta
+      const delta2 = (gameSync as any).computeDelta('test-room', state!.tick);
 
       expect(delta2.full).toBe(false);
     });
@@ -595,6 +680,66 @@ describe('GameSync', () => {
     });
   });
 
+  describe('gameplay events', () => {
+    let handler: jest.Mock;
+    let state: any;
+
+    beforeEach(() => {
+      handler = jest.fn();
+      gameSync.setGameplayEventHandler(handler);
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room');
+      state.entities['player1'] = { type: 'player', health: 100 };
+      state.entities['player2'] = { type: 'player', health: 10 };
+    });
+
+    it('should report a kill for the attacker and a death for the victim', () => {
+      (gameSync as any).applyDamage(state, 'player2', 15, 'player1');
+
+      expect(handler).toHaveBeenCalledWith({
+        roomId: 'test-room',
+        playerId: 'player2',
+        type: 'death',
+        amount: 1,
+      });
+      expect(handler).toHaveBeenCalledWith({
+        roomId: 'test-room',
+        playerId: 'player1',
+        type: 'kill',
+        amount: 1,
+      });
+    });
+
+    it('should only report the blow that took the entity down', () => {
+      (gameSync as any).applyDamage(state, 'player2', 5, 'player1');
+      expect(handler).not.toHaveBeenCalled();
+
+      (gameSync as any).applyDamage(state, 'player2', 5, 'player1');
+      (gameSync as any).applyDamage(state, 'player2', 5, 'player1');
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not credit kills to non-player sources', () => {
+      state.entities['crate1'] = { type: 'crate' };
+
+      (gameSync as any).applyDamage(state, 'player2', 15, 'crate1');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].type).toBe('death');
+    });
+
+    it('should keep simulating when the handler throws', () => {
+      gameSync.setGameplayEventHandler(() => {
+        throw new Error('boom');
+      });
+
+      expect(() =>
+        (gameSync as any).applyDamage(state, 'player2', 15, 'player1'),
+      ).not.toThrow();
+    });
+  });
+
   describe('player input processing', () => {
     it('should process player input with moveX only', () => {
       gameSync.resetRoomState('test-room');
@@ -611,7 +756,7 @@ describe('GameSync', () => {
         input: { moveX: 1 },
       });
 
-      expect(state!.entities['player1'].velocity.x).toBe(200);
+      expect(state!.entities['player1'].velocity.x).toBe(250);
     });
 
     it('should not apply jump when not on ground', () => {
@@ -648,8 +793,862 @@ describe('GameSync', () => {
         input: { moveX: 0, jump: true },
       });
 
-      expect(state!.entities['player1'].velocity.y).toBe(-400);
+      expect(state!.entities['player1'].velocity.y).toBe(-450);
       expect(state!.entities['player1'].isOnGround).toBe(false);
     });
   });
+
+  describe('server-authoritative physics', () => {
+    const activeRoom = (level?: number) =>
+      ({
+        roomId: 'test-room',
+        players: [{ playerId: 'player1', socketId: 'socket1' }],
+        gameMode: 'deathmatch',
+        maxPlayers: 4,
+        level,
+        isActive: true,
+      }) as any;
+
+    it('should spawn a player entity at the level start on first input', () => {
+      gameSync.resetRoomState('test-room');
+      gameSync.applyPlayerInput('test-room', 'player1', {
+        sequence: 1,
+        input: { moveX: 1, jump: false },
+        timestamp: Date.now(),
+      });
+
+      const entity = gameSync.getRoomState('test-room')!.entities['player1'];
+      expect(entity.position).toEqual({ x: 100, y: 300 });
+      expect(entity.affectedByGravity).toBe(true);
+    });
+
+    it('should not copy client-supplied positions into the state', () => {
+      gameSync.resetRoomState('test-room');
+      gameSync.applyPlayerInput('test-room', 'player1', {
+        moveX: 0,
+        position: { x: 9999, y: -50 },
+      });
+
+      const entity = gameSync.getRoomState('test-room')!.entities['player1'];
+      expect(entity.position).toEqual({ x: 100, y: 300 });
+    });
+
+    it('should reject inputs with a non-numeric moveX', () => {
+      expect(
+        (gameSync as any).validateInput({ input: { moveX: 'fast' } }),
+      ).toBe(false);
+    });
+
+    it('should land players on level ground and set isOnGround', () => {
+      mockRoomManager.getActiveRooms.mockReturnValue([activeRoom(1)]);
+      gameSync.resetRoomState('test-room');
+      const state = gameSync.getRoomState('test-room')!;
+      state.entities['player1'] = {
+        position: { x: 100, y: 462 },
+        velocity: { x: 0, y: 200 },
+        affectedByGravity: true,
+      };
+
+      (gameSync as any).tick();
+
+      // Level 1 ground starts at row 15 (y = 480); body is 32px tall
+      expect(state.entities['player1'].position.y).toBe(464);
+      expect(state.entities['player1'].isOnGround).toBe(true);
+    });
+
+    it('should load the geometry for the room level', () => {
+      mockRoomManager.getActiveRooms.mockReturnValue([activeRoom(2)]);
+      gameSync.resetRoomState('test-room');
+      (gameSync as any).tick();
+
+      const geometry = (gameSync as any).levelGeometries.get('test-room');
+      expect(geometry.heightPx).toBe(80 * 32);
+    });
+  });
+
+  describe('input acknowledgement', () => {
+    const sendInput = (sequence: number, moveX = 1) =>
+      gameSync.applyPlayerInput('test-room', 'player1', {
+        sequence,
+        input: { moveX, jump: false },
+        timestamp: Date.now(),
+      });
+
+    beforeEach(() => {
+      mockRoomManager.getActiveRooms.mockReturnValue([
+        {
+          roomId: 'test-room',
+          players: [],
+          isActive: true,
+          snapshotRate: 60,
+        } as any,
+      ]);
+      gameSync.resetRoomState('test-room');
+    });
+
+    it('should include last processed sequences in every snapshot', () => {
+      sendInput(1);
+      sendInput(2);
+      (gameSync as any).tick();
+
+      const delta = (gameSync as any).computeDelta('test-room');
+      expect(delta.lastProcessedInputs).toEqual({ player1: 2 });
+    });
+
+    it('should not acknowledge inputs before they are processed', () => {
+      sendInput(1);
+      const delta = (gameSync as any).computeDelta('test-room');
+      expect(delta.lastProcessedInputs).toEqual({});
+    });
+
+    it('should include acknowledgements in delta snapshots', () => {
+      // An idle entity keeps the moving player below the full-snapshot threshold
+      gameSync.getRoomState('test-room')!.entities['crate1'] = {
+        position: { x: 300, y: 100 },
+      };
+      sendInput(1);
+      (gameSync as any).tick();
+      gameSync.acknowledgeSnapshot(
+        'socket1',
+        'test-room',
+        gameSync.getRoomState('test-room')!.tick,
+      );
+      sendInput(2);
+      (gameSync as any).tick();
+
+      const emit = (mockIo.to as jest.Mock).mock.results.at(-1)!.value.emit;
+      const delta = emit.mock.calls.at(-1)[1];
+      expect(delta.full).toBe(false);
+      expect(delta.lastProcessedInputs).toEqual({ player1: 2 });
+    });
+
+    it('should drop stale or duplicated inputs', () => {
+      sendInput(5);
+      (gameSync as any).tick();
+      sendInput(3, -1);
+
+      const state = gameSync.getRoomState('test-room')!;
+      expect(state.events).toHaveLength(0);
+      expect(state.lastProcessedInputs.player1).toBe(5);
+    });
+
+    it('should reset acknowledgements with the room state', () => {
+      sendInput(1);
+      (gameSync as any).tick();
+      gameSync.resetRoomState('test-room');
+      expect(gameSync.getRoomState('test-room')!.lastProcessedInputs).toEqual(
+        {},
+      );
+    });
+  });
+
+  describe('fixed timestep', () => {
+    const activeRoom = (snapshotRate?: number) =>
+      ({
+        roomId: 'test-room',
+        players: [],
+        isActive: true,
+        snapshotRate,
+      }) as any;
+
+    const emitCount = () => (mockIo.to as jest.Mock).mock.calls.length;
+
+    beforeEach(() => {
+      mockRoomManager.getActiveRooms.mockReturnValue([activeRoom()]);
+      gameSync.resetRoomState('test-room');
+      (mockIo.to as jest.Mock).mockClear();
+    });
+
+    it('should advance the simulation by a fixed step per tick', () => {
+      const state = gameSync.getRoomState('test-room')!;
+      state.entities['player1'] = {
+        position: { x: 100, y: 100 },
+        velocity: { x: 60, y: 0 },
+      };
+
+      (gameSync as any).tick();
+      (gameSync as any).tick();
+
+      expect(state.tick).toBe(2);
+      expect(state.entities['player1'].position.x).toBeCloseTo(102);
+    });
+
+    it('should run ticks from accumulated time and carry the remainder', () => {
+      const tickSpy = jest.spyOn(gameSync as any, 'tick');
+      (gameSync as any).lastUpdateTime = Date.now() - 40;
+
+      (gameSync as any).update();
+
+      expect(tickSpy).toHaveBeenCalledTimes(2);
+      expect((gameSync as any).accumulatedTime).toBeGreaterThanOrEqual(
+        40 - 2 * (1000 / 60),
+      );
+      expect((gameSync as any).accumulatedTime).toBeLessThan(1000 / 60);
+    });
+
+    it('should cap the catch-up after a long stall', () => {
+      const tickSpy = jest.spyOn(gameSync as any, 'tick');
+      (gameSync as any).lastUpdateTime = Date.now() - 10000;
+
+      (gameSync as any).update();
+
+      // 250 ms worth of ticks at most
+      expect(tickSpy.mock.calls.length).toBeLessThanOrEqual(15);
+      expect(tickSpy.mock.calls.length).toBeGreaterThanOrEqual(14);
+    });
+
+    it('should send snapshots at the default rate independent of ticks', () => {
+      for (let i = 0; i < 6; i++) {
+        (gameSync as any).tick();
+      }
+
+      // 60 Hz simulation, 20 Hz snapshots: ticks 1 and 4
+      expect(emitCount()).toBe(2);
+    });
+
+    it('should honour a per-room snapshot rate', () => {
+      mockRoomManager.getActiveRooms.mockReturnValue([activeRoom(10)]);
+      for (let i = 0; i < 12; i++) {
+        (gameSync as any).tick();
+      }
+
+      // Every 6 ticks: ticks 1 and 7
+      expect(emitCount()).toBe(2);
+    });
+
+    it('should include the tick number in snapshots', () => {
+      (gameSync as any).tick();
+      (gameSync as any).tick();
+
+      const delta = (gameSync as any).computeDelta('test-room');
+      expect(delta.tick).toBe(2);
+    });
+
+    it('should keep events from ticks between snapshots', () => {
+      const state = gameSync.getRoomState('test-room')!;
+      (gameSync as any).tick();
+      state.entities['faller'] = {
+        position: { x: 100, y: 2000 },
+        velocity: { x: 0, y: 0 },
+      };
+      // The client has to know about the entity to hear of its destruction
+      (gameSync as any).broadcastState('test-room');
+      (gameSync as any).tick();
+      (gameSync as any).tick();
+
+      const emit = (mockIo.to as jest.Mock).mock.results.at(-1)!.value.emit;
+      (gameSync as any).broadcastState('test-room');
+      expect(emit.mock.calls.at(-1)[1].events).toEqual([
+        expect.objectContaining({
+          type: 'entity_destroyed',
+          entityId: 'faller',
+          reason: 'out_of_bounds',
+        }),
+      ]);
+      (gameSync as any).broadcastState('test-room');
+      expect(emit.mock.calls.at(-1)[1].events).toEqual([]);
+    });
+  });
+
+  describe('binary snapshots', () => {
+    let binaryEmit: jest.Mock;
+    let jsonEmit: jest.Mock;
+
+    beforeEach(() => {
+      binaryEmit = jest.fn();
+      jsonEmit = jest.fn();
+      (mockIo as any).sockets = {
+        adapter: {
+          rooms: new Map([
+            ['test-room', new Set(['socket1', 'socket2'])],
+            [BINARY_SNAPSHOT_ROOM, new Set(['socket1', 'socket9'])],
+          ]),
+        },
+      };
+      (mockIo.to as jest.Mock).mockImplementation((target: string[]) => ({
+        emit: target.includes('socket1') ? binaryEmit : jsonEmit,
+      }));
+      gameSync.resetRoomState('test-room');
+      gameSync.getRoomState('test-room')!.entities['player1'] = {
+        type: 'player',
+        position: { x: 100, y: 300 },
+        velocity: { x: 0, y: 0 },
+      };
+    });
+
+    it('should send binary to negotiated sockets and JSON to the rest', () => {
+      (gameSync as any).broadcastState('test-room');
+
+      expect(mockIo.to).toHaveBeenCalledWith('socket1');
+      expect(mockIo.to).toHaveBeenCalledWith('socket2');
+
+      const encoded = binaryEmit.mock.calls[0][1];
+      expect(encoded).toBeInstanceOf(Uint8Array);
+      const decoded = decodeSnapshot(encoded);
+      expect(decoded.entities.player1.position).toEqual({ x: 100, y: 300 });
+      expect(jsonEmit.mock.calls[0][1].entities.player1.type).toBe('player');
+    });
+
+    it('should encode deltas against the acknowledged state', () => {
+      const state = gameSync.getRoomState('test-room')!;
+      state.entities['crate1'] = { position: { x: 300, y: 100 } };
+      (gameSync as any).broadcastState('test-room');
+      const baseline = decodeSnapshot(binaryEmit.mock.calls[0][1]).entities;
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', state.tick);
+
+      state.entities['player1'].position.x = 104;
+      (gameSync as any).broadcastState('test-room');
+
+      const decoded = decodeSnapshot(binaryEmit.mock.calls[1][1], (tick) =>
+        tick === state.tick ? baseline : undefined,
+      );
+      expect(decoded.full).toBe(false);
+      expect(decoded.baselineTick).toBe(state.tick);
+      expect(Object.keys(decoded.entities)).toEqual(['player1']);
+      expect(decoded.entities.player1).toEqual({
+        type: 'player',
+        position: { x: 104, y: 300 },
+        velocity: { x: 0, y: 0 },
+      });
+    });
+  });
+
+  describe('per-client baselines', () => {
+    const lastUpdateFor = (socketId: string) => {
+      const to = mockIo.to as jest.Mock;
+      let index = to.mock.calls.length - 1;
+      while (!to.mock.calls[index][0].includes(socketId)) index--;
+      return to.mock.results[index].value.emit.mock.calls[0][1];
+    };
+
+    let state: GameStateSnapshot;
+
+    beforeEach(() => {
+      (mockIo as any).sockets.adapter.rooms.set(
+        'test-room',
+        new Set(['socket1', 'socket2']),
+      );
+      (mockIo.to as jest.Mock).mockImplementation(() => ({ emit: jest.fn() }));
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room')!;
+      state.entities['player1'] = { position: { x: 100, y: 300 } };
+      state.entities['crate1'] = { position: { x: 300, y: 100 } };
+      state.entities['crate2'] = { position: { x: 400, y: 100 } };
+      state.entities['crate3'] = { position: { x: 500, y: 100 } };
+    });
+
+    it('should send full snapshots until a client acknowledges one', () => {
+      (gameSync as any).broadcastState('test-room');
+      state.tick = 3;
+      (gameSync as any).broadcastState('test-room');
+
+      expect(lastUpdateFor('socket1').full).toBe(true);
+    });
+
+    it('should compute deltas against each client baseline', () => {
+      (gameSync as any).broadcastState('test-room'); // tick 0
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 0);
+      gameSync.acknowledgeSnapshot('socket2', 'test-room', 0);
+
+      state.tick = 3;
+      state.entities['player1'].position.x = 110;
+      (gameSync as any).broadcastState('test-room');
+      // socket2 missed tick 3
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 3);
+
+      state.tick = 6;
+      state.entities['crate1'].position.x = 310;
+      (gameSync as any).broadcastState('test-room');
+
+      const first = lastUpdateFor('socket1');
+      expect(first.baselineTick).toBe(3);
+      expect(Object.keys(first.entities)).toEqual(['crate1']);
+
+      const second = lastUpdateFor('socket2');
+      expect(second.baselineTick).toBe(0);
+      expect(Object.keys(second.entities).sort()).toEqual([
+        'crate1',
+        'player1',
+      ]);
+    });
+
+    it('should report deletions relative to the client baseline', () => {
+      (gameSync as any).broadcastState('test-room');
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 0);
+      state.tick = 3;
+      delete state.entities['crate2'];
+      (gameSync as any).broadcastState('test-room');
+      state.tick = 6;
+      (gameSync as any).broadcastState('test-room');
+
+      expect(lastUpdateFor('socket1').deletedEntities).toEqual(['crate2']);
+    });
+
+    it('should fall back to a full snapshot when the baseline is too old', () => {
+      (gameSync as any).broadcastState('test-room');
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 0);
+
+      state.tick = 61;
+      (gameSync as any).broadcastState('test-room');
+
+      expect(lastUpdateFor('socket1').full).toBe(true);
+    });
+
+    it('should ignore acknowledgements that move backwards', () => {
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 6);
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 3);
+
+      expect((gameSync as any).clientAcks.get('socket1').tick).toBe(6);
+    });
+
+    it('should not use a baseline acknowledged in another room', () => {
+      (gameSync as any).broadcastState('test-room');
+      gameSync.acknowledgeSnapshot('socket1', 'other-room', 0);
+      state.tick = 3;
+      (gameSync as any).broadcastState('test-room');
+
+      expect(lastUpdateFor('socket1').full).toBe(true);
+    });
+
+    it('should forget baselines of removed clients and reset rooms', () => {
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 0);
+      gameSync.acknowledgeSnapshot('socket2', 'test-room', 0);
+
+      gameSync.removeClient('socket1');
+      gameSync.resetRoomState('test-room');
+
+      expect((gameSync as any).clientAcks.size).toBe(0);
+    });
+  });
+
+  describe('lag compensation', () => {
+    const NOW = 10000;
+    let nowSpy: jest.SpyInstance;
+    let state: GameStateSnapshot;
+
+    const player = (x: number) => ({
+      type: 'player',
+      position: { x, y: 100 },
+      velocity: { x: 0, y: 0 },
+      width: 32,
+      height: 32,
+      health: 100,
+    });
+
+    // player2 stands in front of player1 until 9850, then runs off
+    const recordHistory = () => {
+      const history = (gameSync as any).getStateHistory('test-room');
+      for (const [tick, time, x] of [
+        [1, 9800, 160],
+        [2, 9850, 160],
+        [3, 9900, 400],
+        [4, 10000, 400],
+      ]) {
+        history.record(tick, time, {
+          player1: player(100),
+          player2: player(x),
+        });
+      }
+    };
+
+    const resolveQueued = () => {
+      const events = [...state.events];
+      state.events = [];
+      events.forEach((event) =>
+        (gameSync as any).processGameEvent(state, event),
+      );
+    };
+
+    beforeEach(() => {
+      nowSpy = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room')!;
+      state.entities.player1 = player(100);
+      state.entities.player2 = player(400);
+      recordHistory();
+    });
+
+    afterEach(() => {
+      nowSpy.mockRestore();
+    });
+
+    it('should hit a target where the attacker saw it', () => {
+      gameSync.applyPlayerAttack(
+        'test-room',
+        'player1',
+        { kind: 'melee', facing: 1, timestamp: NOW },
+        100,
+      );
+      resolveQueued();
+
+      expect(state.entities.player2.health).toBe(90);
+      expect(state.events).toContainEqual(
+        expect.objectContaining({
+          type: 'entity_damaged',
+          entityId: 'player2',
+          sourceId: 'player1',
+          damage: 10,
+        }),
+      );
+    });
+
+    it('should miss when the target had already moved for the attacker', () => {
+      gameSync.applyPlayerAttack(
+        'test-room',
+        'player1',
+        { kind: 'melee', facing: 1, timestamp: NOW },
+        0,
+      );
+      resolveQueued();
+
+      expect(state.entities.player2.health).toBe(100);
+      expect(state.events).toHaveLength(0);
+    });
+
+    it('should not rewind past the limit however high the RTT', () => {
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room')!;
+      state.entities.player1 = player(100);
+      state.entities.player2 = player(400);
+      const history = (gameSync as any).getStateHistory('test-room');
+      history.record(1, 9500, { player1: player(100), player2: player(160) });
+      history.record(2, 9600, { player1: player(100), player2: player(400) });
+
+      gameSync.applyPlayerAttack(
+        'test-room',
+        'player1',
+        { kind: 'melee', facing: 1, timestamp: NOW },
+        5000,
+      );
+      resolveQueued();
+
+      expect(state.entities.player2.health).toBe(100);
+    });
+
+    it('should ignore the damage a client claims', () => {
+      gameSync.applyPlayerAttack(
+        'test-room',
+        'player1',
+        { kind: 'melee', facing: 1, timestamp: NOW, damage: 1000 },
+        100,
+      );
+      resolveQueued();
+
+      expect(state.entities.player2.health).toBe(90);
+    });
+
+    it('should validate projectile hits against the rewound target', () => {
+      const attack = {
+        kind: 'projectile',
+        targetId: 'player2',
+        origin: { x: 110, y: 100 },
+        velocity: { x: 300, y: 0 },
+        flightMs: 200,
+        timestamp: NOW,
+      };
+
+      gameSync.applyPlayerAttack('test-room', 'player1', attack, 100);
+      resolveQueued();
+      expect(state.entities.player2.health).toBe(90);
+
+      // A shot that never reaches the target does nothing
+      nowSpy.mockReturnValue(NOW + 1000);
+      gameSync.applyPlayerAttack(
+        'test-room',
+        'player1',
+        { ...attack, flightMs: 50 },
+        100,
+      );
+      resolveQueued();
+      expect(state.entities.player2.health).toBe(90);
+    });
+
+    it('should reject projectiles fired from far away', () => {
+      gameSync.applyPlayerAttack(
+        'test-room',
+        'player1',
+        {
+          kind: 'projectile',
+          targetId: 'player2',
+          origin: { x: 150, y: 100 },
+          velocity: { x: 300, y: 0 },
+          flightMs: 100,
+          timestamp: NOW,
+        },
+        100,
+      );
+      resolveQueued();
+
+      expect(state.entities.player2.health).toBe(100);
+    });
+
+    it('should rate-limit attacks from the same player', () => {
+      const attack = { kind: 'melee', facing: 1, timestamp: NOW };
+      gameSync.applyPlayerAttack('test-room', 'player1', attack, 100);
+      gameSync.applyPlayerAttack('test-room', 'player1', attack, 100);
+
+      expect(
+        state.events.filter((e: any) => e.type === 'player_attack'),
+      ).toHaveLength(1);
+    });
+
+    it('should drop malformed attacks', () => {
+      gameSync.applyPlayerAttack('test-room', 'player1', { kind: 'laser' });
+      gameSync.applyPlayerAttack('test-room', 'player1', {
+        kind: 'melee',
+        facing: 3,
+      });
+      gameSync.applyPlayerAttack('test-room', 'player1', {
+        kind: 'projectile',
+        targetId: 'player2',
+      });
+
+      expect(state.events).toHaveLength(0);
+    });
+
+    it('should report combos of validated hits only', () => {
+      const handler = jest.fn();
+      gameSync.setGameplayEventHandler(handler);
+      const attack = (timestamp: number, viewTime: number = 9850) =>
+        (gameSync as any).resolveAttack(state, {
+          type: 'player_attack',
+          playerId: 'player1',
+          attack: { kind: 'melee', facing: 1 },
+          viewTime,
+          timestamp,
+        });
+
+      attack(NOW);
+      attack(NOW + 1500);
+      attack(NOW + 2000, NOW); // misses: player2 had moved off
+      attack(NOW + 3000);
+      // Too long after the last hit: a new combo starts
+      attack(NOW + 6000);
+
+      expect(handler.mock.calls.map(([event]) => event)).toEqual([
+        { roomId: 'test-room', playerId: 'player1', type: 'combo', amount: 2 },
+        { roomId: 'test-room', playerId: 'player1', type: 'combo', amount: 3 },
+      ]);
+    });
+
+    it('should record entity positions every tick', () => {
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room')!;
+      state.entities.crate = { position: { x: 50, y: 60 } };
+
+      (gameSync as any).updateRoomState({ roomId: 'test-room' });
+
+      expect(
+        (gameSync as any).getStateHistory('test-room').getStateAt(NOW).crate,
+      ).toEqual({ x: 50, y: 60, width: 32, height: 32 });
+    });
+  });
+
+  describe('area of interest', () => {
+    const lastUpdateFor = (socketId: string) => {
+      const to = mockIo.to as jest.Mock;
+      let index = to.mock.calls.length - 1;
+      while (to.mock.calls[index][0] !== socketId) index--;
+      return to.mock.results[index].value.emit.mock.calls[0][1];
+    };
+
+    let state: GameStateSnapshot;
+
+    beforeEach(() => {
+      (mockIo as any).sockets.adapter.rooms.set(
+        'test-room',
+        new Set(['socket1', 'socket2', 'spectator']),
+      );
+      (mockIo.to as jest.Mock).mockImplementation(() => ({ emit: jest.fn() }));
+      (mockRoomManager.getRoom as jest.Mock).mockReturnValue({
+        roomId: 'test-room',
+        players: [
+          { playerId: 'player1', socketId: 'socket1' },
+          { playerId: 'player2', socketId: 'socket2' },
+        ],
+      });
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room')!;
+      // Level 2 is tall: player2 starts near the bottom
+      state.entities['player1'] = { position: { x: 100, y: 300 } };
+      state.entities['player2'] = { position: { x: 400, y: 2050 } };
+      state.entities['crate1'] = { position: { x: 300, y: 400 } };
+      state.entities['crate2'] = { position: { x: 500, y: 2000 } };
+    });
+
+    it('should only send entities near each player', () => {
+      (gameSync as any).broadcastState('test-room');
+
+      expect(Object.keys(lastUpdateFor('socket1').entities).sort()).toEqual([
+        'crate1',
+        'player1',
+      ]);
+      expect(Object.keys(lastUpdateFor('socket2').entities).sort()).toEqual([
+        'crate2',
+        'player2',
+      ]);
+    });
+
+    it('should send everything to clients without a player entity', () => {
+      (gameSync as any).broadcastState('test-room');
+
+      expect(Object.keys(lastUpdateFor('spectator').entities)).toHaveLength(4);
+    });
+
+    it('should notify clients of entities entering and leaving', () => {
+      // Static scenery keeps the update below the full-snapshot threshold
+      for (let i = 0; i < 4; i++) {
+        state.entities[`rock${i}`] = { position: { x: 150 + i * 10, y: 300 } };
+      }
+      (gameSync as any).broadcastState('test-room');
+      expect(lastUpdateFor('socket1').events).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: 'entity_entered',
+            entityId: 'crate1',
+          }),
+        ]),
+      );
+      gameSync.acknowledgeSnapshot('socket1', 'test-room', 0);
+
+      state.tick = 3;
+      state.entities['player2'].position = { x: 200, y: 500 };
+      state.entities['crate1'].position = { x: 3000, y: 400 };
+      (gameSync as any).broadcastState('test-room');
+
+      const update = lastUpdateFor('socket1');
+      expect(update.events).toEqual([
+        expect.objectContaining({
+          type: 'entity_entered',
+          entityId: 'player2',
+        }),
+        expect.objectContaining({ type: 'entity_left', entityId: 'crate1' }),
+      ]);
+      expect(update.deletedEntities).toEqual(['crate1']);
+      expect(update.entities.player2.position).toEqual({ x: 200, y: 500 });
+    });
+
+    it('should withhold events about entities a client cannot see', () => {
+      (gameSync as any).broadcastState('test-room');
+      (gameSync as any).applyDamage(state, 'player2', 10, 'crate2');
+      (gameSync as any).outgoingEvents.set('test-room', state.events);
+      state.tick = 3;
+      (gameSync as any).broadcastState('test-room');
+
+      const damaged = (update: any) =>
+        update.events.filter((e: any) => e.type === 'entity_damaged');
+      expect(damaged(lastUpdateFor('socket1'))).toHaveLength(0);
+      expect(damaged(lastUpdateFor('socket2'))).toHaveLength(1);
+    });
+
+    it('should compute deltas against what the client was sent', () => {
+      (gameSync as any).broadcastState('test-room');
+      gameSync.acknowledgeSnapshot('socket2', 'test-room', 0);
+      state.entities['crate3'] = { position: { x: 450, y: 1900 } };
+      state.entities['crate4'] = { position: { x: 460, y: 1900 } };
+      state.entities['crate5'] = { position: { x: 470, y: 1900 } };
+      state.tick = 3;
+      (gameSync as any).broadcastState('test-room');
+      gameSync.acknowledgeSnapshot('socket2', 'test-room', 3);
+
+      // crate1 moves far from player2, which never saw it
+      state.entities['crate1'].position.x = 320;
+      state.tick = 6;
+      (gameSync as any).broadcastState('test-room');
+
+      const update = lastUpdateFor('socket2');
+      expect(update.full).toBe(false);
+      expect(update.entities).toEqual({});
+      expect(update.deletedEntities).toEqual([]);
+    });
+  });
+
+  describe('reconnection', () => {
+    let state: GameStateSnapshot;
+
+    beforeEach(() => {
+      (mockIo.to as jest.Mock).mockImplementation(() => ({ emit: jest.fn() }));
+      (mockRoomManager.getRoom as jest.Mock).mockReturnValue({
+        roomId: 'test-room',
+        players: [{ playerId: 'player1', socketId: 'socket2' }],
+      });
+      gameSync.resetRoomState('test-room');
+      state = gameSync.getRoomState('test-room')!;
+      state.tick = 5;
+      state.entities['player1'] = {
+        position: { x: 100, y: 300 },
+        velocity: { x: 200, y: 0 },
+      };
+      state.entities['crate1'] = { position: { x: 300, y: 400 } };
+    });
+
+    it('should send a resumed client a full snapshot', () => {
+      gameSync.acknowledgeSnapshot('socket2', 'test-room', 2);
+
+      expect(gameSync.sendFullSnapshot('test-room', 'socket2')).toBe(true);
+
+      expect(mockIo.to).toHaveBeenCalledWith('socket2');
+      const emit = (mockIo.to as jest.Mock).mock.results[0].value.emit;
+      const [event, update] = emit.mock.calls[0];
+      expect(event).toBe('game_state_update');
+      expect(update.full).toBe(true);
+      expect(update.tick).toBe(5);
+      expect(Object.keys(update.entities).sort()).toEqual([
+        'crate1',
+        'player1',
+      ]);
+      expect(update.events).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            type: 'entity_entered',
+            entityId: 'crate1',
+          }),
+        ]),
+      );
+    });
+
+    it('should use the resumed snapshot as a baseline once acknowledged', () => {
+      gameSync.sendFullSnapshot('test-room', 'socket2');
+      gameSync.acknowledgeSnapshot('socket2', 'test-room', 5);
+      (mockIo as any).sockets.adapter.rooms.set(
+        'test-room',
+        new Set(['socket2']),
+      );
+
+      state.tick = 8;
+      (gameSync as any).broadcastState('test-room');
+
+      const emit = (mockIo.to as jest.Mock).mock.results[1].value.emit;
+      const update = emit.mock.calls[0][1];
+      expect(update.full).toBe(false);
+      expect(update.baselineTick).toBe(5);
+    });
+
+    it('should not send anything for rooms without state', () => {
+      expect(gameSync.sendFullSnapshot('no-room', 'socket2')).toBe(false);
+      expect(mockIo.to).not.toHaveBeenCalled();
+    });
+
+    it('should stop a suspended player where they are', () => {
+      gameSync.suspendPlayer('test-room', 'player1');
+
+      expect(state.entities['player1'].velocity.x).toBe(0);
+    });
+
+    it('should remove the entity of a player who never came back', () => {
+      state.lastProcessedInputs['player1'] = 12;
+
+      gameSync.removePlayerEntity('test-room', 'player1');
+
+      expect(state.entities['player1']).toBeUndefined();
+      expect(state.lastProcessedInputs['player1']).toBeUndefined();
+      expect((gameSync as any).outgoingEvents.get('test-room')).toEqual([
+        expect.objectContaining({
+          type: 'entity_destroyed',
+          entityId: 'player1',
+          reason: 'disconnected',
+        }),
+      ]);
+    });
+  });
 });
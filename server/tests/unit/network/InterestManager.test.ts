@@ -0,0 +1,111 @@
+import {
+  DEFAULT_INTEREST_CONFIG,
+  InterestManager,
+} from '../../../src/network/InterestManager';
+
+describe('InterestManager', () => {
+  let interest: InterestManager;
+  const entities: Record<string, any> = {
+    player1: { position: { x: 100, y: 300 } },
+    nearby: { position: { x: 700, y: 500 } },
+    margin: { position: { x: 100 + 512 + 200, y: 300 } },
+    far: { position: { x: 100, y: 2050 } },
+    scenery: { type: 'background' },
+  };
+
+  beforeEach(() => {
+    interest = new InterestManager();
+    interest.updateRoom('room-1', entities);
+  });
+
+  describe('getVisibleEntities', () => {
+    it('should include entities within the camera region and margin', () => {
+      const visible = interest.getVisibleEntities(
+        'room-1',
+        entities,
+        'player1',
+      );
+
+      expect([...visible].sort()).toEqual(['margin', 'nearby', 'player1']);
+    });
+
+    it('should respect a custom view size', () => {
+      const narrow = new InterestManager({ viewWidth: 400, margin: 0 });
+      narrow.updateRoom('room-1', entities);
+
+      expect([
+        ...narrow.getVisibleEntities('room-1', entities, 'player1'),
+      ]).toEqual(['player1']);
+      expect(narrow.getConfig().viewHeight).toBe(
+        DEFAULT_INTEREST_CONFIG.viewHeight,
+      );
+    });
+
+    it('should show the whole room to clients without an entity', () => {
+      expect(interest.getVisibleEntities('room-1', entities).size).toBe(5);
+      expect(
+        interest.getVisibleEntities('room-1', entities, 'spectator').size,
+      ).toBe(5);
+    });
+  });
+
+  describe('recordSent', () => {
+    it('should report entered and left entities between snapshots', () => {
+      const first = interest.recordSent(
+        'socket1',
+        'room-1',
+        0,
+        new Set(['player1', 'nearby']),
+        60,
+      );
+      expect(first).toEqual({ entered: ['player1', 'nearby'], left: [] });
+
+      const second = interest.recordSent(
+        'socket1',
+        'room-1',
+        3,
+        new Set(['player1', 'far']),
+        60,
+      );
+      expect(second).toEqual({ entered: ['far'], left: ['nearby'] });
+      expect(interest.getSentAt('socket1', 0)).toEqual(
+        new Set(['player1', 'nearby']),
+      );
+      expect(interest.getCurrent('socket1')).toEqual(
+        new Set(['player1', 'far']),
+      );
+    });
+
+    it('should discard history older than the maximum age', () => {
+      interest.recordSent('socket1', 'room-1', 0, new Set(['player1']), 10);
+      interest.recordSent('socket1', 'room-1', 11, new Set(['player1']), 10);
+
+      expect(interest.getSentAt('socket1', 0)).toBeUndefined();
+      expect(interest.getSentAt('socket1', 11)).toBeDefined();
+    });
+
+    it('should start over when a client changes room', () => {
+      interest.recordSent('socket1', 'room-1', 5, new Set(['player1']), 60);
+      const change = interest.recordSent(
+        'socket1',
+        'room-2',
+        1,
+        new Set(['player1']),
+        60,
+      );
+
+      expect(change.entered).toEqual(['player1']);
+      expect(interest.getSentAt('socket1', 5)).toBeUndefined();
+    });
+  });
+
+  it('should forget clients of a removed room', () => {
+    interest.recordSent('socket1', 'room-1', 0, new Set(['player1']), 60);
+    interest.recordSent('socket2', 'room-2', 0, new Set(['player1']), 60);
+
+    interest.removeRoom('room-1');
+
+    expect(interest.getCurrent('socket1')).toBeUndefined();
+    expect(interest.getCurrent('socket2')).toBeDefined();
+  });
+});
@@ -150,6 +150,112 @@ describe('Matchmaker', () => {
       const status = matchmaker.getQueueStatus('socket-123');
       expect(status?.preferences.region).toBe('us-east');
     });
+
+    it('should keep a level the server knows', () => {
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+
+      matchmaker.enqueuePlayer(mockSocket, { gameMode: 'FFA', level: 2 });
+
+      expect(matchmaker.getQueueStatus('socket-123')?.preferences.level).toBe(
+        2,
+      );
+    });
+
+    it('should drop a level the server does not know', () => {
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+
+      matchmaker.enqueuePlayer(mockSocket, { gameMode: 'FFA', level: 99 });
+
+      expect(
+        matchmaker.getQueueStatus('socket-123')?.preferences.level,
+      ).toBeUndefined();
+    });
+  });
+
+  describe('rating lookup', () => {
+    let mockRatingService: any;
+
+    const flushPromises = async () => {
+      await Promise.resolve();
+      await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      matchmaker.stop();
+      mockRatingService = {
+        getRating: jest
+          .fn()
+          .mockResolvedValue({ rating: 1725, deviation: 80, volatility: 0.06 }),
+      };
+      matchmaker = new Matchmaker(
+        mockServer,
+        mockConnectionManager,
+        mockRoomManager,
+        mockRatingService,
+      );
+    });
+
+    it('should match registered players on their stored rating', async () => {
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+
+      matchmaker.enqueuePlayer(mockSocket, {
+        gameMode: 'coop',
+        skillLevel: 3000,
+      });
+      expect(
+        matchmaker.getQueueStatus('socket-123')?.preferences.skillLevel,
+      ).toBeUndefined();
+      await flushPromises();
+
+      expect(mockRatingService.getRating).toHaveBeenCalledWith(
+        'player-456',
+        'coop',
+      );
+      expect(
+        matchmaker.getQueueStatus('socket-123')?.preferences.skillLevel,
+      ).toBe(1725);
+    });
+
+    it('should keep the claimed skill level of guests', async () => {
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'guest_socket-123'),
+      );
+
+      matchmaker.enqueuePlayer(mockSocket, {
+        gameMode: 'coop',
+        skillLevel: 1400,
+      });
+      await flushPromises();
+
+      expect(mockRatingService.getRating).not.toHaveBeenCalled();
+      expect(
+        matchmaker.getQueueStatus('socket-123')?.preferences.skillLevel,
+      ).toBe(1400);
+    });
+
+    it('should fall back to the default rating when the lookup fails', async () => {
+      mockRatingService.getRating.mockRejectedValue(new Error('db down'));
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+
+      matchmaker.enqueuePlayer(mockSocket, { gameMode: 'coop' });
+      await flushPromises();
+
+      expect(
+        matchmaker.getQueueStatus('socket-123')?.preferences.skillLevel,
+      ).toBeUndefined();
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to load rating for player-456:',
+        expect.any(Error),
+      );
+    });
   });
 
   describe('dequeuePlayer', () => {
@@ -217,33 +323,130 @@ describe('Matchmaker', () => {
   });
 
   describe('estimateWaitTime', () => {
-    it('should return estimated wait time', () => {
-      const waitTime = (matchmaker as any).estimateWaitTime();
-      expect(typeof waitTime).toBe('number');
-      expect(waitTime).toBeGreaterThanOrEqual(30);
+    const queuedWait = () =>
+      (mockSocket.emit as jest.Mock).mock.calls.find(
+        ([event]) => event === 'matchmaking_queued',
+      )[1].estimatedWait;
+
+    it('should fall back to a default without any history', () => {
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+      matchmaker.enqueuePlayer(mockSocket, { gameMode: 'FFA', maxPlayers: 4 });
+
+      expect(queuedWait()).toBe(30);
+    });
+
+    it('should be one matchmaking tick when a match is ready', () => {
+      for (let i = 0; i < 3; i++) {
+        (matchmaker as any).queue.push({
+          requestId: `req-${i}`,
+          playerId: `player-${i}`,
+          socketId: `socket-${i}`,
+          preferences: { gameMode: 'FFA', maxPlayers: 4 },
+          queuedAt: new Date(),
+        });
+      }
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+      matchmaker.enqueuePlayer(mockSocket, { gameMode: 'FFA', maxPlayers: 4 });
+
+      expect(queuedWait()).toBe(5);
+    });
+
+    it('should follow how fast players have been arriving', () => {
+      for (let i = 0; i < 3; i++) {
+        const socket = { ...mockSocket, id: `socket-${i}`, emit: jest.fn() };
+        mockConnectionManager.getSession.mockReturnValue(
+          createMockSession(`socket-${i}`, `player-${i}`),
+        );
+        matchmaker.enqueuePlayer(socket as any, {
+          gameMode: 'FFA',
+          maxPlayers: 8,
+        });
+        jest.advanceTimersByTime(4000);
+        matchmaker.dequeuePlayer(`socket-${i}`);
+      }
+      mockConnectionManager.getSession.mockReturnValue(
+        createMockSession('socket-123', 'player-456'),
+      );
+      matchmaker.enqueuePlayer(mockSocket, { gameMode: 'FFA', maxPlayers: 8 });
+
+      // 4 arrivals in 12 seconds, 7 more players needed
+      expect(queuedWait()).toBe(21);
     });
   });
 
-  describe('groupByGameMode', () => {
-    it('should group by gameMode and region', () => {
-      const mockRequests = [
-        { preferences: { gameMode: 'FFA', region: 'us' } },
-        { preferences: { gameMode: 'FFA', region: 'us' } },
-        { preferences: { gameMode: 'TEAM', region: 'eu' } },
-      ];
+  describe('fallbackProcessQueue', () => {
+    it('should match similarly rated players into a room', () => {
+      const skills = [1500, 1510, 1990, 1520, 1530];
+      skills.forEach((skillLevel, i) => {
+        (matchmaker as any).queue.push({
+          requestId: `req-${i}`,
+          playerId: `player-${i}`,
+          socketId: `socket-${i}`,
+          preferences: { gameMode: 'FFA', maxPlayers: 4, skillLevel },
+          queuedAt: new Date(),
+        });
+      });
 
-      const result = (matchmaker as any).groupByGameMode(mockRequests);
-      expect(result.get('FFA_us')).toHaveLength(2);
-      expect(result.get('TEAM_eu')).toHaveLength(1);
+      (matchmaker as any).fallbackProcessQueue();
+
+      expect(mockRoomManager.createRoom).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          gameMode: 'FFA',
+          maxPlayers: 4,
+          players: expect.not.arrayContaining([
+            { playerId: 'player-2', socketId: 'socket-2' },
+          ]),
+        }),
+      );
+      expect(matchmaker.getQueueLength()).toBe(1);
+      expect(matchmaker.getQueueStatus('socket-2')).toBeDefined();
     });
 
-    it('should default region to any', () => {
-      const mockRequests = [
-        { preferences: { gameMode: 'FFA' /* no region */ } },
-      ];
+    it('should create the room for the level its players asked for', () => {
+      for (let i = 0; i < 4; i++) {
+        (matchmaker as any).queue.push({
+          requestId: `req-${i}`,
+          playerId: `player-${i}`,
+          socketId: `socket-${i}`,
+          preferences: { gameMode: 'FFA', maxPlayers: 4, level: 3 },
+          queuedAt: new Date(),
+        });
+      }
+
+      (matchmaker as any).fallbackProcessQueue();
+
+      expect(mockRoomManager.createRoom).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ level: 3 }),
+      );
+      expect(mockServer.to('room').emit).toHaveBeenCalledWith(
+        'room_joined',
+        expect.objectContaining({ level: 3 }),
+      );
+    });
+
+    it('should create the room for the default level when none was asked for', () => {
+      for (let i = 0; i < 4; i++) {
+        (matchmaker as any).queue.push({
+          requestId: `req-${i}`,
+          playerId: `player-${i}`,
+          socketId: `socket-${i}`,
+          preferences: { gameMode: 'FFA', maxPlayers: 4 },
+          queuedAt: new Date(),
+        });
+      }
 
-      const result = (matchmaker as any).groupByGameMode(mockRequests);
-      expect(result.get('FFA_any')).toHaveLength(1);
+      (matchmaker as any).fallbackProcessQueue();
+
+      expect(mockRoomManager.createRoom).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ level: 1 }),
+      );
     });
   });
 });
@@ -97,6 +97,36 @@ describe('RoomManager', () => {
     });
   });
 
+  describe('claimLevelCompletion', () => {
+    beforeEach(() => {
+      roomManager.createRoom('room1', {
+        gameMode: 'coop',
+        players: [{ playerId: 'player1', socketId: 'socket1' }],
+      });
+    });
+
+    it('should accept each level once per player', () => {
+      expect(roomManager.claimLevelCompletion('room1', 'player1', 2)).toBe(
+        true,
+      );
+      expect(roomManager.claimLevelCompletion('room1', 'player1', 2)).toBe(
+        false,
+      );
+      expect(roomManager.claimLevelCompletion('room1', 'player1', 3)).toBe(
+        true,
+      );
+    });
+
+    it('should refuse players outside the room', () => {
+      expect(roomManager.claimLevelCompletion('room1', 'player2', 2)).toBe(
+        false,
+      );
+      expect(roomManager.claimLevelCompletion('room2', 'player1', 2)).toBe(
+        false,
+      );
+    });
+  });
+
   describe('addPlayer', () => {
     it('should add player to room', () => {
       roomManager.createRoom('room1', {
@@ -186,6 +216,56 @@ describe('RoomManager', () => {
     });
   });
 
+  describe('reconnection', () => {
+    beforeEach(() => {
+      roomManager.createRoom('room1', {
+        gameMode: 'deathmatch',
+        players: [{ playerId: 'player1', socketId: 'socket1' }],
+      });
+    });
+
+    it('should hold a disconnected player in the room', () => {
+      expect(roomManager.markDisconnected('room1', 'player1')).toBe(true);
+
+      const room = roomManager.getRoom('room1');
+      expect(room?.players).toHaveLength(1);
+      expect(room?.players[0].disconnectedAt).toBeInstanceOf(Date);
+    });
+
+    it('should give the held slot to the new socket', () => {
+      const emit = jest.fn();
+      mockIo.to.mockReturnValue({ emit });
+      roomManager.markDisconnected('room1', 'player1');
+
+      expect(roomManager.reconnectPlayer('room1', 'player1', 'socket2')).toBe(
+        true,
+      );
+
+      expect(roomManager.getRoom('room1')?.players).toEqual([
+        { playerId: 'player1', socketId: 'socket2' },
+      ]);
+      expect(mockConnectionManager.assignRoom).toHaveBeenCalledWith(
+        'socket2',
+        'room1',
+      );
+      expect(emit).toHaveBeenCalledWith('player_reconnected', {
+        playerId: 'player1',
+        socketId: 'socket2',
+        roomId: 'room1',
+      });
+    });
+
+    it('should not reconnect players without a slot', () => {
+      expect(roomManager.reconnectPlayer('room1', 'player2', 'socket2')).toBe(
+        false,
+      );
+      expect(roomManager.reconnectPlayer('missing', 'player1', 'socket2')).toBe(
+        false,
+      );
+      expect(roomManager.markDisconnected('missing', 'player1')).toBe(false);
+    });
+  });
+
   describe('pauseRoom', () => {
     it('should pause active room', () => {
       roomManager.createRoom('room1', {
@@ -257,6 +337,127 @@ describe('RoomManager', () => {
       const result = roomManager.endRoom('nonexistent');
       expect(result).toBe(false);
     });
+
+    it('should report given standings to the match end handler', () => {
+      const handler = jest.fn();
+      roomManager.setMatchEndHandler(handler);
+      roomManager.createRoom('room1', { gameMode: 'coop', players: [] });
+      const standings = [
+        { playerId: 'p1', rank: 1 },
+        { playerId: 'p2', rank: 2 },
+      ];
+
+      roomManager.endRoom('room1', standings);
+
+      expect(handler).toHaveBeenCalledWith({
+        roomId: 'room1',
+        gameMode: 'coop',
+        standings,
+      });
+    });
+
+    it('should rank players by score when no standings are given', () => {
+      const handler = jest.fn();
+      roomManager.setMatchEndHandler(handler);
+      roomManager.createRoom('room1', { gameMode: 'deathmatch', players: [] });
+      const player = {
+        position: { x: 0, y: 0 },
+        velocity: { x: 0, y: 0 },
+        health: 100,
+        isAlive: true,
+      };
+      roomManager.updateGameState('room1', {
+        players: [
+          { ...player, playerId: 'p1', score: 10 },
+          { ...player, playerId: 'p2', score: 30 },
+          { ...player, playerId: 'p3', score: 10 },
+        ],
+      });
+
+      roomManager.endRoom('room1');
+
+      expect(handler.mock.calls[0][0].standings).toEqual([
+        { playerId: 'p2', rank: 1, score: 30 },
+        { playerId: 'p1', rank: 2, score: 10 },
+        { playerId: 'p3', rank: 2, score: 10 },
+      ]);
+    });
+
+    it('should not report matches without standings', () => {
+      const handler = jest.fn();
+      roomManager.setMatchEndHandler(handler);
+      roomManager.createRoom('room1', { gameMode: 'deathmatch', players: [] });
+
+      roomManager.endRoom('room1');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should still end the room when the handler throws', () => {
+      roomManager.setMatchEndHandler(() => {
+        throw new Error('boom');
+      });
+      roomManager.createRoom('room1', { gameMode: 'coop', players: [] });
+
+      const result = roomManager.endRoom('room1', [
+        { playerId: 'p1', rank: 1 },
+      ]);
+
+      expect(result).toBe(true);
+      expect(roomManager.getRoom('room1')).toBeUndefined();
+    });
+  });
+
+  describe('lifecycle handlers', () => {
+    let handlers: { onCreated: jest.Mock; onRemoved: jest.Mock };
+
+    beforeEach(() => {
+      handlers = { onCreated: jest.fn(), onRemoved: jest.fn() };
+      roomManager.setLifecycleHandlers(handlers);
+    });
+
+    it('should report created rooms', () => {
+      const room = roomManager.createRoom('room1', {
+        gameMode: 'deathmatch',
+        level: 2,
+        players: [],
+      });
+
+      expect(handlers.onCreated).toHaveBeenCalledWith(room);
+    });
+
+    it('should report rooms that end', () => {
+      roomManager.createRoom('room1', { gameMode: 'coop', players: [] });
+
+      roomManager.endRoom('room1');
+
+      expect(handlers.onRemoved).toHaveBeenCalledWith('room1');
+    });
+
+    it('should report rooms that empty', () => {
+      roomManager.createRoom('room1', {
+        gameMode: 'deathmatch',
+        players: [{ playerId: 'player1', socketId: 'socket1' }],
+      });
+
+      roomManager.removePlayer('room1', 'player1');
+
+      expect(handlers.onRemoved).toHaveBeenCalledWith('room1');
+    });
+
+    it('should not report rooms that still have players', () => {
+      roomManager.createRoom('room1', {
+        gameMode: 'deathmatch',
+        players: [
+          { playerId: 'player1', socketId: 'socket1' },
+          { playerId: 'player2', socketId: 'socket2' },
+        ],
+      });
+
+      roomManager.removePlayer('room1', 'player1');
+
+      expect(handlers.onRemoved).not.toHaveBeenCalled();
+    });
   });
 
   describe('getActiveRooms', () => {
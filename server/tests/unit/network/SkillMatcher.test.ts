@@ -0,0 +1,151 @@
+import {
+  DEFAULT_SKILL_MATCH_CONFIG,
+  SkillMatcher,
+} from '../../../src/network/SkillMatcher';
+import { MatchmakingRequest } from '../../../src/types/matchmaking';
+
+describe('SkillMatcher', () => {
+  const NOW = 1_000_000;
+  let matcher: SkillMatcher;
+
+  const request = (
+    id: string,
+    skillLevel?: number,
+    waitedSeconds = 0,
+    gameMode = 'deathmatch',
+  ): MatchmakingRequest => ({
+    requestId: id,
+    playerId: `player-${id}`,
+    socketId: `socket-${id}`,
+    preferences: { gameMode, region: 'eu', skillLevel },
+    queuedAt: new Date(NOW - waitedSeconds * 1000),
+  });
+
+  const ids = (requests: MatchmakingRequest[]) =>
+    requests.map((r) => r.requestId).sort();
+
+  beforeEach(() => {
+    matcher = new SkillMatcher();
+  });
+
+  describe('getSkillWindow', () => {
+    it('should widen the longer a request waits, up to the maximum', () => {
+      expect(matcher.getSkillWindow(request('a', 1500), NOW)).toBe(100);
+      expect(matcher.getSkillWindow(request('a', 1500, 30), NOW)).toBe(400);
+      expect(matcher.getSkillWindow(request('a', 1500, 3600), NOW)).toBe(
+        DEFAULT_SKILL_MATCH_CONFIG.maxWindow,
+      );
+    });
+  });
+
+  describe('getPlayerCount', () => {
+    it("should use the mode's count over the requested one", () => {
+      const coop = request('a', 1500, 0, 'coop');
+      coop.preferences.maxPlayers = 8;
+      expect(matcher.getPlayerCount(coop)).toBe(2);
+    });
+
+    it('should use the requested count for other modes', () => {
+      const custom = request('a', 1500, 0, 'race');
+      custom.preferences.maxPlayers = 6;
+      expect(matcher.getPlayerCount(custom)).toBe(6);
+
+      custom.preferences.maxPlayers = 1;
+      expect(matcher.getPlayerCount(custom)).toBe(4);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should group the closest-rated players', () => {
+      const queue = [
+        request('a', 1500, 10),
+        request('b', 1900),
+        request('c', 1540),
+        request('d', 1460),
+        request('e', 1520),
+        request('f', 1300),
+      ];
+
+      const matches = matcher.findMatches(queue, NOW);
+
+      expect(matches).toHaveLength(1);
+      expect(ids(matches[0].matchedRequests)).toEqual(['a', 'c', 'd', 'e']);
+    });
+
+    it('should serve the longest-waiting request first', () => {
+      const queue = [
+        request('a', 1500),
+        request('b', 1500),
+        request('c', 1500),
+        request('d', 1500),
+        request('e', 1500, 20),
+      ];
+
+      const [match] = matcher.findMatches(queue, NOW);
+
+      expect(match.matchedRequests[0].requestId).toBe('e');
+    });
+
+    it('should require both players to accept the rating difference', () => {
+      // The veteran waiter would accept anyone, the newcomers would not
+      const queue = [
+        request('a', 1000, 120),
+        request('b', 1500),
+        request('c', 1500),
+        request('d', 1500),
+      ];
+
+      expect(matcher.findMatches(queue, NOW)).toEqual([]);
+    });
+
+    it('should treat requests without a skill level as average', () => {
+      const queue = ['a', 'b', 'c', 'd'].map((id) => request(id));
+      queue[0].preferences.skillLevel = 1550;
+
+      expect(matcher.findMatches(queue, NOW)).toHaveLength(1);
+    });
+
+    it('should form several matches from one pool', () => {
+      const queue = [
+        ...['a', 'b', 'c', 'd'].map((id) => request(id, 1200)),
+        ...['e', 'f', 'g', 'h'].map((id) => request(id, 2000)),
+      ];
+
+      const matches = matcher.findMatches(queue, NOW);
+
+      expect(matches.map((m) => ids(m.matchedRequests))).toEqual([
+        ['a', 'b', 'c', 'd'],
+        ['e', 'f', 'g', 'h'],
+      ]);
+    });
+  });
+
+  describe('getCompatible', () => {
+    it('should list the queued requests a request could be matched with', () => {
+      const newcomer = request('a', 1500);
+      const queue = [
+        newcomer,
+        request('b', 1550),
+        request('c', 1700),
+        request('d', 1500, 0, 'coop'),
+      ];
+
+      expect(ids(matcher.getCompatible(newcomer, queue, NOW))).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    it('should only match requests for the same level', () => {
+      const newcomer = request('a', 1500);
+      const queue = [newcomer, request('b', 1500), request('c', 1500)];
+      queue[1].preferences.level = 1;
+      queue[2].preferences.level = 2;
+
+      expect(ids(matcher.getCompatible(newcomer, queue, NOW))).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { WaitTimeEstimator } from '../../../src/network/WaitTimeEstimator';
+
+describe('WaitTimeEstimator', () => {
+  const TICK_MS = 5000;
+  const NOW = 1_000_000;
+  let estimator: WaitTimeEstimator;
+
+  beforeEach(() => {
+    estimator = new WaitTimeEstimator(60 * 1000, 3, 30);
+  });
+
+  it('should fall back to the default without history', () => {
+    expect(estimator.estimate('ffa', 3, TICK_MS, NOW)).toBe(30);
+  });
+
+  it('should take one tick when nobody is missing', () => {
+    expect(estimator.estimate('ffa', 0, TICK_MS, NOW)).toBe(5);
+  });
+
+  it('should divide the missing players by the arrival rate', () => {
+    for (let i = 0; i < 5; i++) {
+      estimator.recordArrival('ffa', NOW - 40000 + i * 10000);
+    }
+
+    // 5 arrivals over 40 seconds
+    expect(estimator.estimate('ffa', 3, TICK_MS, NOW)).toBe(24);
+  });
+
+  it('should forget arrivals outside the rate window', () => {
+    estimator.recordArrival('ffa', NOW - 120000);
+    estimator.recordArrival('ffa', NOW - 90000);
+
+    expect(estimator.estimate('ffa', 3, TICK_MS, NOW)).toBe(30);
+  });
+
+  it('should use recent match waits without an arrival rate', () => {
+    estimator.recordMatch('ffa', [10000, 20000]);
+    estimator.recordMatch('ffa', [40000, 50000]);
+
+    // Only the 3 most recent samples are kept
+    expect(estimator.estimate('ffa', 3, TICK_MS, NOW)).toBe(37);
+    expect(estimator.estimate('coop', 1, TICK_MS, NOW)).toBe(30);
+
+    estimator.recordMatch('coop', [12000, -5, NaN]);
+    expect(estimator.estimate('coop', 1, TICK_MS, NOW)).toBe(12);
+  });
+
+  it('should never estimate less than a tick', () => {
+    for (let i = 0; i < 50; i++) estimator.recordArrival('ffa', NOW - i * 100);
+
+    expect(estimator.estimate('ffa', 1, TICK_MS, NOW)).toBe(5);
+  });
+});
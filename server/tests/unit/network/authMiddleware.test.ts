@@ -41,7 +41,7 @@ describe('authMiddleware', () => {
     it('should allow guest connection when no token provided', () => {
       authenticateSocket(mockSocket as Socket, nextFn);
 
-      expect(mockSocket.data.userId).toBe('guest_socket-123');
+      expect(mockSocket.data.playerId).toBe('guest_socket-123');
       expect(mockSocket.data.isGuest).toBe(true);
       expect(nextFn).toHaveBeenCalledWith();
     });
@@ -51,7 +51,7 @@ describe('authMiddleware', () => {
 
       authenticateSocket(mockSocket as Socket, nextFn);
 
-      expect(mockSocket.data.userId).toBe('guest_socket-123');
+      expect(mockSocket.data.playerId).toBe('guest_socket-123');
       expect(mockSocket.data.isGuest).toBe(true);
     });
 
@@ -63,18 +63,55 @@ describe('authMiddleware', () => {
 
       // Mock jwt.verify to return a valid decoded token
       jest.spyOn(require('jsonwebtoken'), 'verify').mockImplementation(() => ({
-        userId: 'user-123',
+        playerId: 'user-123',
       }));
 
       authenticateSocket(mockSocket as Socket, nextFn);
 
-      expect(mockSocket.data.userId).toBe('user-123');
+      expect(mockSocket.data.playerId).toBe('user-123');
       expect(mockSocket.data.isGuest).toBe(false);
       expect(nextFn).toHaveBeenCalledWith();
 
       process.env.JWT_SECRET = originalEnv;
     });
 
+    it('should keep guest accounts flagged as guests', () => {
+      const originalEnv = process.env.JWT_SECRET;
+      process.env.JWT_SECRET = 'test-secret';
+
+      mockSocket.handshake.auth.token = 'guest-token';
+
+      jest.spyOn(require('jsonwebtoken'), 'verify').mockImplementation(() => ({
+        playerId: 'guest-123',
+        isGuest: true,
+      }));
+
+      authenticateSocket(mockSocket as Socket, nextFn);
+
+      expect(mockSocket.data.playerId).toBe('guest-123');
+      expect(mockSocket.data.isGuest).toBe(true);
+      expect(nextFn).toHaveBeenCalledWith();
+
+      process.env.JWT_SECRET = originalEnv;
+    });
+
+    it('should reject tokens without a playerId claim', () => {
+      const originalEnv = process.env.JWT_SECRET;
+      process.env.JWT_SECRET = 'test-secret';
+      mockSocket.handshake.auth.token = 'legacy-token';
+
+      jest.spyOn(require('jsonwebtoken'), 'verify').mockImplementation(() => ({
+        userId: 'user-123',
+      }));
+
+      authenticateSocket(mockSocket as Socket, nextFn);
+
+      expect(nextFn).toHaveBeenCalledWith(expect.any(Error));
+      expect(mockSocket.data.playerId).toBeUndefined();
+
+      process.env.JWT_SECRET = originalEnv;
+    });
+
     it('should return error when JWT_SECRET is not set', () => {
       delete process.env.JWT_SECRET;
       mockSocket.handshake.auth.token = 'some-token';
@@ -105,7 +142,7 @@ describe('authMiddleware', () => {
   describe('requireAuth', () => {
     it('should allow authenticated user', () => {
       mockSocket.data.isGuest = false;
-      mockSocket.data.userId = 'user-123';
+      mockSocket.data.playerId = 'user-123';
 
       requireAuth(mockSocket as Socket, nextFn);
 
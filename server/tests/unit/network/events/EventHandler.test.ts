@@ -17,12 +17,15 @@ describe('EventHandler', () => {
   let mockMatchmaker: any;
   let mockRoomManager: any;
   let mockGameSync: any;
+  let mockLevelRecordService: any;
   let mockSocket: any;
 
   beforeEach(() => {
     mockConnectionManager = {
       getSession: jest.fn(),
       getSessionByPlayerId: jest.fn(),
+      resumeSession: jest.fn(),
+      removeRoomAssignment: jest.fn(),
     };
     mockMatchmaker = {
       enqueuePlayer: jest.fn().mockReturnValue('request-123'),
@@ -32,9 +35,19 @@ describe('EventHandler', () => {
       getRoom: jest.fn(),
       addPlayer: jest.fn().mockReturnValue(true),
       removePlayer: jest.fn().mockReturnValue(true),
+      reconnectPlayer: jest.fn().mockReturnValue(true),
+      claimLevelCompletion: jest.fn().mockReturnValue(true),
     };
     mockGameSync = {
       applyPlayerInput: jest.fn(),
+      applyPlayerAttack: jest.fn(),
+      acknowledgeSnapshot: jest.fn(),
+      removeClient: jest.fn(),
+      sendFullSnapshot: jest.fn(),
+      reportGameplayEvent: jest.fn(),
+    };
+    mockLevelRecordService = {
+      hasRunSince: jest.fn().mockResolvedValue(true),
     };
 
     eventHandler = new EventHandler(
@@ -42,6 +55,7 @@ describe('EventHandler', () => {
       mockMatchmaker,
       mockRoomManager,
       mockGameSync,
+      mockLevelRecordService,
     );
 
     mockSocket = {
@@ -84,6 +98,10 @@ describe('EventHandler', () => {
         EventNames.MATCHMAKING_CANCEL,
         expect.any(Function),
       );
+      expect(mockSocket.on).toHaveBeenCalledWith(
+        EventNames.RESUME_SESSION,
+        expect.any(Function),
+      );
       expect(mockSocket.on).toHaveBeenCalledWith(
         'join_room',
         expect.any(Function),
@@ -169,6 +187,81 @@ describe('EventHandler', () => {
     });
   });
 
+  describe('handleResumeSession', () => {
+    const resumed = {
+      session: {
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: 'room-1',
+      },
+      previousSocketId: 'socket-old',
+    };
+
+    it('should put the player back in their room and send a full snapshot', () => {
+      mockConnectionManager.resumeSession.mockReturnValue(resumed);
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.RESUME_SESSION]({
+        resumeToken: 'token',
+      });
+
+      expect(mockConnectionManager.resumeSession).toHaveBeenCalledWith(
+        'socket-123',
+        'token',
+      );
+      expect(mockGameSync.removeClient).toHaveBeenCalledWith('socket-old');
+      expect(mockRoomManager.reconnectPlayer).toHaveBeenCalledWith(
+        'room-1',
+        'player-1',
+        'socket-123',
+      );
+      expect(mockSocket.join).toHaveBeenCalledWith('room-1');
+      expect(mockSocket.emit).toHaveBeenCalledWith(EventNames.SESSION_RESUMED, {
+        playerId: 'player-1',
+        roomId: 'room-1',
+      });
+      expect(mockGameSync.sendFullSnapshot).toHaveBeenCalledWith(
+        'room-1',
+        'socket-123',
+      );
+    });
+
+    it('should resume without a room when the room is gone', () => {
+      mockConnectionManager.resumeSession.mockReturnValue(resumed);
+      mockRoomManager.reconnectPlayer.mockReturnValue(false);
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.RESUME_SESSION]({
+        resumeToken: 'token',
+      });
+
+      expect(mockConnectionManager.removeRoomAssignment).toHaveBeenCalledWith(
+        'socket-123',
+      );
+      expect(mockSocket.join).not.toHaveBeenCalled();
+      expect(mockSocket.emit).toHaveBeenCalledWith(EventNames.SESSION_RESUMED, {
+        playerId: 'player-1',
+        roomId: null,
+      });
+      expect(mockGameSync.sendFullSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('should report sessions that cannot be resumed', () => {
+      mockConnectionManager.resumeSession.mockReturnValue(null);
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.RESUME_SESSION]({
+        resumeToken: 'expired',
+      });
+
+      expect(mockSocket.emit).toHaveBeenCalledWith(
+        EventNames.SESSION_RESUME_FAILED,
+        { message: 'Session cannot be resumed' },
+      );
+      expect(mockRoomManager.reconnectPlayer).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleJoinRoom', () => {
     it('should join room successfully when session and room exist', () => {
       mockConnectionManager.getSession.mockReturnValue({
@@ -341,6 +434,109 @@ describe('EventHandler', () => {
     });
   });
 
+  describe('handleSnapshotAck', () => {
+    it('should record the acknowledged tick for the socket', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: 'room-1',
+      });
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.SNAPSHOT_ACK]({ tick: 12 });
+
+      expect(mockGameSync.acknowledgeSnapshot).toHaveBeenCalledWith(
+        'socket-123',
+        'room-1',
+        12,
+      );
+    });
+
+    it('should ignore acknowledgements outside a room', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: null,
+      });
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.SNAPSHOT_ACK]({ tick: 12 });
+
+      expect(mockGameSync.acknowledgeSnapshot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSnapshotResync', () => {
+    it('should send the client a full snapshot of its room', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: 'room-1',
+      });
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.SNAPSHOT_RESYNC]();
+
+      expect(mockGameSync.sendFullSnapshot).toHaveBeenCalledWith(
+        'room-1',
+        'socket-123',
+      );
+    });
+
+    it('should ignore requests outside a room', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: null,
+      });
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.SNAPSHOT_RESYNC]();
+
+      expect(mockGameSync.sendFullSnapshot).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handlePlayerAttack', () => {
+    it('should pass the attack and measured RTT to GameSync', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: 'room-1',
+        rtt: 120,
+      });
+      const attack = { kind: 'melee', facing: 1, timestamp: 1000 };
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.PLAYER_ATTACK](attack);
+
+      expect(mockGameSync.applyPlayerAttack).toHaveBeenCalledWith(
+        'room-1',
+        'player-1',
+        attack,
+        120,
+      );
+      expect(mockSocket.to).toHaveBeenCalledWith('room-1');
+    });
+
+    it('should ignore attacks outside a room', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: null,
+      });
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.PLAYER_ATTACK]({
+        kind: 'melee',
+        facing: 1,
+        timestamp: 1000,
+      });
+
+      expect(mockGameSync.applyPlayerAttack).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handlePlayerJump', () => {
     it('should broadcast jump to room', () => {
       mockConnectionManager.getSession.mockReturnValue({
@@ -384,6 +580,87 @@ describe('EventHandler', () => {
 
       expect(mockSocket.to).toHaveBeenCalledWith('room-1');
     });
+
+    it('should not count client-reported pickups towards achievements', () => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: 'room-1',
+      });
+
+      eventHandler.registerSocket(mockSocket);
+      mockSocket._callbacks[EventNames.PLAYER_COLLECT_ITEM]('coin-7');
+
+      expect(mockGameSync.reportGameplayEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleLevelComplete', () => {
+    const createdAt = new Date('2026-10-19T12:00:00Z');
+
+    beforeEach(() => {
+      mockConnectionManager.getSession.mockReturnValue({
+        socketId: 'socket-123',
+        playerId: 'player-1',
+        roomId: 'room-1',
+      });
+      mockRoomManager.getRoom.mockReturnValue({
+        roomId: 'room-1',
+        level: 3,
+        createdAt,
+      });
+      eventHandler.registerSocket(mockSocket);
+    });
+
+    it('should report completions the server has a run on record for', async () => {
+      await mockSocket._callbacks[EventNames.LEVEL_COMPLETE]({ levelId: 3 });
+
+      expect(mockLevelRecordService.hasRunSince).toHaveBeenCalledWith(
+        'player-1',
+        3,
+        createdAt,
+      );
+      expect(mockRoomManager.claimLevelCompletion).toHaveBeenCalledWith(
+        'room-1',
+        'player-1',
+        3,
+      );
+      expect(mockGameSync.reportGameplayEvent).toHaveBeenCalledWith({
+        roomId: 'room-1',
+        playerId: 'player-1',
+        type: 'level_complete',
+        amount: 1,
+      });
+    });
+
+    it('should report repeated completions in a room only once', async () => {
+      mockRoomManager.claimLevelCompletion
+        .mockReturnValueOnce(true)
+        .mockReturnValue(false);
+
+      for (let i = 0; i < 3; i++) {
+        await mockSocket._callbacks[EventNames.LEVEL_COMPLETE]({ levelId: 3 });
+      }
+
+      expect(mockGameSync.reportGameplayEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore completions without a recorded run', async () => {
+      mockLevelRecordService.hasRunSince.mockResolvedValue(false);
+
+      await mockSocket._callbacks[EventNames.LEVEL_COMPLETE]({ levelId: 3 });
+
+      expect(mockRoomManager.claimLevelCompletion).not.toHaveBeenCalled();
+      expect(mockGameSync.reportGameplayEvent).not.toHaveBeenCalled();
+    });
+
+    it('should ignore invalid level ids and other levels than the room plays', async () => {
+      await mockSocket._callbacks[EventNames.LEVEL_COMPLETE]({ levelId: 'x' });
+      await mockSocket._callbacks[EventNames.LEVEL_COMPLETE]({ levelId: 2 });
+
+      expect(mockLevelRecordService.hasRunSince).not.toHaveBeenCalled();
+      expect(mockGameSync.reportGameplayEvent).not.toHaveBeenCalled();
+    });
   });
 
   describe('handleChatMessage', () => {
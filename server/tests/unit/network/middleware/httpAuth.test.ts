@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import {
+  authenticateHttp,
+  requireAdmin,
+  requireOwnerOrAdmin,
+} from '../../../../src/network/middleware/httpAuth';
+
+jest.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('httpAuth', () => {
+  let mockReq: any;
+  let mockRes: Partial<Response>;
+  let nextFn: NextFunction;
+  const originalSecret = process.env.JWT_SECRET;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    mockReq = { headers: {}, params: {}, path: '/refresh' };
+    mockRes = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFn = jest.fn();
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  describe('authenticateHttp', () => {
+    it('should attach the token claims to the request', () => {
+      mockReq.headers.authorization = `Bearer ${jwt.sign(
+        { playerId: 'player-1', role: 'admin' },
+        'test-secret',
+      )}`;
+
+      authenticateHttp(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(nextFn).toHaveBeenCalled();
+      expect(mockReq.auth).toEqual({ playerId: 'player-1', role: 'admin' });
+    });
+
+    it('should default tokens without a role to player', () => {
+      mockReq.headers.authorization = `Bearer ${jwt.sign(
+        { playerId: 'player-1' },
+        'test-secret',
+      )}`;
+
+      authenticateHttp(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockReq.auth.role).toBe('player');
+    });
+
+    it('should reject requests without a bearer token', () => {
+      mockReq.headers.authorization = 'Basic abc';
+
+      authenticateHttp(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(nextFn).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens signed with another secret', () => {
+      mockReq.headers.authorization = `Bearer ${jwt.sign(
+        { playerId: 'player-1' },
+        'other-secret',
+      )}`;
+
+      authenticateHttp(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'Invalid or expired token',
+      });
+    });
+
+    it('should reject tokens without a playerId claim', () => {
+      mockReq.headers.authorization = `Bearer ${jwt.sign(
+        { userId: 'player-1' },
+        'test-secret',
+      )}`;
+
+      authenticateHttp(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+    });
+
+    it('should fail closed when JWT_SECRET is not set', () => {
+      delete process.env.JWT_SECRET;
+      mockReq.headers.authorization = 'Bearer token';
+
+      authenticateHttp(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockRes.status).toHaveBeenCalledWith(500);
+      expect(nextFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireOwnerOrAdmin', () => {
+    it('should let players access their own data', () => {
+      mockReq.auth = { playerId: 'player-1', role: 'player' };
+      mockReq.params.playerId = 'player-1';
+
+      requireOwnerOrAdmin(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(nextFn).toHaveBeenCalled();
+    });
+
+    it("should let admins access anyone's data", () => {
+      mockReq.auth = { playerId: 'admin-1', role: 'admin' };
+      mockReq.params.playerId = 'player-1';
+
+      requireOwnerOrAdmin(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(nextFn).toHaveBeenCalled();
+    });
+
+    it("should refuse other players' data", () => {
+      mockReq.auth = { playerId: 'player-2', role: 'player' };
+      mockReq.params.playerId = 'player-1';
+
+      requireOwnerOrAdmin(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(nextFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireAdmin', () => {
+    it('should let admins through', () => {
+      mockReq.auth = { playerId: 'admin-1', role: 'admin' };
+
+      requireAdmin(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(nextFn).toHaveBeenCalled();
+    });
+
+    it('should refuse players', () => {
+      mockReq.auth = { playerId: 'player-1', role: 'player' };
+
+      requireAdmin(mockReq as Request, mockRes as Response, nextFn);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'Admin access required',
+      });
+    });
+  });
+});
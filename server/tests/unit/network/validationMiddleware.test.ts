@@ -1,6 +1,7 @@
 import { Socket } from 'socket.io';
 import {
   rateLimit,
+  throttleEvent,
   validatePlayerInput,
   requireRoom,
 } from '../../../src/network/middleware/validationMiddleware';
@@ -83,6 +84,39 @@ describe('validationMiddleware', () => {
     });
   });
 
+  describe('throttleEvent', () => {
+    it('should drop events beyond the limit until the window ends', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      throttleEvent('level_complete', 1, 5000)(mockSocket as Socket, nextFn);
+      const listener = jest.fn();
+      mockSocket.on('level_complete', listener);
+      const [wrapped] = mockSocket.getListeners('level_complete');
+
+      wrapped({ levelId: 1 });
+      wrapped({ levelId: 1 });
+      now.mockReturnValue(6000);
+      wrapped({ levelId: 2 });
+
+      expect(nextFn).toHaveBeenCalledWith();
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith({ levelId: 2 });
+      now.mockRestore();
+    });
+
+    it('should leave other events alone', () => {
+      throttleEvent('level_complete', 1, 5000)(mockSocket as Socket, nextFn);
+      const listener = jest.fn();
+      mockSocket.on('player_jump', listener);
+      const [registered] = mockSocket.getListeners('player_jump');
+
+      registered();
+      registered();
+
+      expect(registered).toBe(listener);
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('validatePlayerInput', () => {
     it('should call next without changes for non-player_input events', () => {
       validatePlayerInput(mockSocket as Socket, nextFn);
@@ -51,6 +51,20 @@ describe('AchievementRepository', () => {
     jest.clearAllMocks();
   });
 
+  describe('findActive', () => {
+    it('should leave out retired achievements', async () => {
+      const mockAchievements = [{ id: '1', retiredAt: null }];
+      mockBaseRepository.find.mockResolvedValue(mockAchievements);
+
+      const result = await repository.findActive();
+
+      expect(result).toEqual(mockAchievements);
+      expect(mockBaseRepository.find).toHaveBeenCalledWith({
+        where: { retiredAt: IsNull() },
+      });
+    });
+  });
+
   describe('findByCode', () => {
     it('should find achievement by code', async () => {
       const mockAchievement = {
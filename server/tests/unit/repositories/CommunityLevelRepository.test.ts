@@ -0,0 +1,129 @@
+import { DataSource } from 'typeorm';
+import { CommunityLevelRepository } from '../../../src/persistence/repositories/CommunityLevelRepository';
+
+// Mock the BaseRepository
+jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
+  return {
+    BaseRepository: class {
+      protected dataSource: DataSource;
+      protected target: any;
+
+      constructor(dataSource: DataSource, target: any) {
+        this.dataSource = dataSource;
+        this.target = target;
+      }
+
+      protected safeOperation = jest
+        .fn()
+        .mockImplementation(async (operation, errorMsg) => {
+          try {
+            return await operation;
+          } catch (error) {
+            throw new Error(errorMsg);
+          }
+        });
+
+      findOne = jest.fn();
+      find = jest.fn();
+      findAndCount = jest.fn();
+      increment = jest.fn();
+    },
+  };
+});
+
+describe('CommunityLevelRepository', () => {
+  let repository: CommunityLevelRepository;
+  let mockBaseRepository: any;
+
+  beforeEach(() => {
+    const mockDataSource = {
+      getRepository: jest.fn(),
+    } as unknown as DataSource;
+
+    repository = new CommunityLevelRepository(mockDataSource);
+    mockBaseRepository = repository as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('search', () => {
+    it('should find a page of levels without their maps', async () => {
+      const page = [[{ id: 'level-1' }], 1];
+      mockBaseRepository.findAndCount.mockResolvedValue(page);
+
+      const result = await repository.search(undefined, 'popular', 20, 40);
+
+      expect(result).toEqual(page);
+      const options = mockBaseRepository.findAndCount.mock.calls[0][0];
+      expect(options).toMatchObject({
+        where: {},
+        order: { downloads: 'DESC', createdAt: 'DESC' },
+        take: 20,
+        skip: 40,
+        relations: ['author'],
+      });
+      expect(options.select).not.toHaveProperty('map');
+      expect(options.select.author).toEqual({ id: true, username: true });
+    });
+
+    it('should match titles literally, ignoring case', async () => {
+      mockBaseRepository.findAndCount.mockResolvedValue([[], 0]);
+
+      await repository.search('100%_run', 'newest', 20, 0);
+
+      const { where, order } = mockBaseRepository.findAndCount.mock.calls[0][0];
+      expect(where.title).toMatchObject({
+        _type: 'ilike',
+        _value: '%100\\%\\_run%',
+      });
+      expect(order).toEqual({ createdAt: 'DESC' });
+    });
+
+    it('should throw error when query fails', async () => {
+      mockBaseRepository.findAndCount.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        repository.search('spikes', 'top_rated', 20, 0),
+      ).rejects.toThrow('Failed to search community levels for "spikes"');
+    });
+  });
+
+  describe('findWithAuthor', () => {
+    it('should find a level with its author', async () => {
+      const mockLevel = { id: 'level-1', author: { username: 'maker' } };
+      mockBaseRepository.findOne.mockResolvedValue(mockLevel);
+
+      const result = await repository.findWithAuthor('level-1');
+
+      expect(result).toEqual(mockLevel);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'level-1' },
+        relations: ['author'],
+      });
+    });
+  });
+
+  describe('incrementDownloads', () => {
+    it("should add one to the level's downloads", async () => {
+      mockBaseRepository.increment.mockResolvedValue({ affected: 1 });
+
+      await repository.incrementDownloads('level-1');
+
+      expect(mockBaseRepository.increment).toHaveBeenCalledWith(
+        { id: 'level-1' },
+        'downloads',
+        1,
+      );
+    });
+
+    it('should throw error when update fails', async () => {
+      mockBaseRepository.increment.mockRejectedValue(new Error('db down'));
+
+      await expect(repository.incrementDownloads('level-1')).rejects.toThrow(
+        'Failed to count download of community level level-1',
+      );
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { DataSource, LessThan, MoreThan } from 'typeorm';
+import { LevelRecordRepository } from '../../../src/persistence/repositories/LevelRecordRepository';
+
+// Mock the BaseRepository
+jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
+  return {
+    BaseRepository: class {
+      protected dataSource: DataSource;
+      protected target: any;
+
+      constructor(dataSource: DataSource, target: any) {
+        this.dataSource = dataSource;
+        this.target = target;
+      }
+
+      protected safeOperation = jest
+        .fn()
+        .mockImplementation(async (operation, errorMsg) => {
+          try {
+            return await operation;
+          } catch (error) {
+            throw new Error(errorMsg);
+          }
+        });
+
+      findOne = jest.fn();
+      find = jest.fn();
+      count = jest.fn();
+    },
+  };
+});
+
+describe('LevelRecordRepository', () => {
+  let repository: LevelRecordRepository;
+  let mockBaseRepository: any;
+
+  beforeEach(() => {
+    const mockDataSource = {
+      getRepository: jest.fn(),
+    } as unknown as DataSource;
+
+    repository = new LevelRecordRepository(mockDataSource);
+    mockBaseRepository = repository as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findByPlayerAndLevel', () => {
+    it("should find a player's record on a level", async () => {
+      const mockRecord = { playerId: 'player-1', levelNumber: 2 };
+      mockBaseRepository.findOne.mockResolvedValue(mockRecord);
+
+      const result = await repository.findByPlayerAndLevel('player-1', 2);
+
+      expect(result).toEqual(mockRecord);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { playerId: 'player-1', levelNumber: 2 },
+      });
+    });
+
+    it('should throw error when query fails', async () => {
+      mockBaseRepository.findOne.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        repository.findByPlayerAndLevel('player-1', 2),
+      ).rejects.toThrow('Failed to find level 2 record for player player-1');
+    });
+  });
+
+  describe('findFastest', () => {
+    it('should order by time, earliest first on ties', async () => {
+      mockBaseRepository.find.mockResolvedValue([]);
+
+      await repository.findFastest(1, 5);
+
+      expect(mockBaseRepository.find).toHaveBeenCalledWith({
+        where: { levelNumber: 1 },
+        order: { bestTimeMs: 'ASC', bestTimeAt: 'ASC' },
+        take: 5,
+        relations: ['profile'],
+      });
+    });
+  });
+
+  describe('findHighestScoring', () => {
+    it('should order by score, earliest first on ties', async () => {
+      mockBaseRepository.find.mockResolvedValue([]);
+
+      await repository.findHighestScoring(1);
+
+      expect(mockBaseRepository.find).toHaveBeenCalledWith({
+        where: { levelNumber: 1 },
+        order: { highScore: 'DESC', highScoreAt: 'ASC' },
+        take: 10,
+        relations: ['profile'],
+      });
+    });
+  });
+
+  describe('counting', () => {
+    it('should count strictly better records', async () => {
+      mockBaseRepository.count.mockResolvedValue(4);
+
+      await expect(repository.countFasterThan(1, 30000)).resolves.toBe(4);
+      await repository.countHigherThan(1, 500);
+
+      expect(mockBaseRepository.count).toHaveBeenCalledWith({
+        where: { levelNumber: 1, bestTimeMs: LessThan(30000) },
+      });
+      expect(mockBaseRepository.count).toHaveBeenCalledWith({
+        where: { levelNumber: 1, highScore: MoreThan(500) },
+      });
+    });
+  });
+});
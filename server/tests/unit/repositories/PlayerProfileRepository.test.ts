@@ -87,6 +87,43 @@ describe('PlayerProfileRepository', () => {
     });
   });
 
+  describe('findByUsernameWithPassword', () => {
+    it('should load the password hash along with the profile', async () => {
+      const mockProfile = { id: '1', username: 'alice', passwordHash: 'hash' };
+      const mockQueryBuilder = {
+        addSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getOne: jest.fn().mockResolvedValue(mockProfile),
+      };
+      mockBaseRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+      const result = await repository.findByUsernameWithPassword('alice');
+
+      expect(result).toEqual(mockProfile);
+      expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(
+        'profile.passwordHash',
+      );
+      expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+        'profile.username = :username',
+        { username: 'alice' },
+      );
+    });
+  });
+
+  describe('findGuestByDeviceTokenHash', () => {
+    it('should only find guest profiles', async () => {
+      const mockProfile = { id: '1', isGuest: true };
+      mockBaseRepository.findOne.mockResolvedValue(mockProfile);
+
+      const result = await repository.findGuestByDeviceTokenHash('hash');
+
+      expect(result).toEqual(mockProfile);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { deviceTokenHash: 'hash', isGuest: true },
+      });
+    });
+  });
+
   describe('findByEmail', () => {
     it('should find player profile by email', async () => {
       const mockProfile = { id: '1', email: 'test@example.com' };
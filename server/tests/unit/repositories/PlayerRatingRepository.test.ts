@@ -0,0 +1,113 @@
+import { DataSource, In, MoreThan } from 'typeorm';
+import { PlayerRatingRepository } from '../../../src/persistence/repositories/PlayerRatingRepository';
+
+// Mock the BaseRepository
+jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
+  return {
+    BaseRepository: class {
+      protected dataSource: DataSource;
+      protected target: any;
+
+      constructor(dataSource: DataSource, target: any) {
+        this.dataSource = dataSource;
+        this.target = target;
+      }
+
+      protected safeOperation = jest
+        .fn()
+        .mockImplementation(async (operation, errorMsg) => {
+          try {
+            return await operation;
+          } catch (error) {
+            throw new Error(errorMsg);
+          }
+        });
+
+      findOne = jest.fn();
+      find = jest.fn();
+    },
+  };
+});
+
+describe('PlayerRatingRepository', () => {
+  let repository: PlayerRatingRepository;
+  let mockBaseRepository: any;
+
+  beforeEach(() => {
+    const mockDataSource = {
+      getRepository: jest.fn(),
+    } as unknown as DataSource;
+
+    repository = new PlayerRatingRepository(mockDataSource);
+    mockBaseRepository = repository as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findByPlayerAndMode', () => {
+    it('should find the rating for a player in a game mode', async () => {
+      const mockRating = {
+        playerId: 'player-1',
+        gameMode: 'coop',
+        rating: 1600,
+      };
+      mockBaseRepository.findOne.mockResolvedValue(mockRating);
+
+      const result = await repository.findByPlayerAndMode('player-1', 'coop');
+
+      expect(result).toEqual(mockRating);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { playerId: 'player-1', gameMode: 'coop' },
+      });
+    });
+
+    it('should throw error when query fails', async () => {
+      mockBaseRepository.findOne.mockRejectedValue(new Error('db down'));
+
+      await expect(
+        repository.findByPlayerAndMode('player-1', 'coop'),
+      ).rejects.toThrow('Failed to find rating for player player-1 in coop');
+    });
+  });
+
+  describe('findByPlayersAndMode', () => {
+    it('should find ratings for several players at once', async () => {
+      mockBaseRepository.find.mockResolvedValue([]);
+
+      await repository.findByPlayersAndMode(['p1', 'p2'], 'platformer');
+
+      expect(mockBaseRepository.find).toHaveBeenCalledWith({
+        where: { playerId: In(['p1', 'p2']), gameMode: 'platformer' },
+      });
+    });
+  });
+
+  describe('findTopByRating', () => {
+    it('should return rated players ordered by rating', async () => {
+      const mockRatings = [{ rating: 1800 }, { rating: 1700 }];
+      mockBaseRepository.find.mockResolvedValue(mockRatings);
+
+      const result = await repository.findTopByRating('platformer', 5);
+
+      expect(result).toEqual(mockRatings);
+      expect(mockBaseRepository.find).toHaveBeenCalledWith({
+        where: { gameMode: 'platformer', gamesPlayed: MoreThan(0) },
+        order: { rating: 'DESC' },
+        take: 5,
+        relations: ['profile'],
+      });
+    });
+
+    it('should use default limit of 10', async () => {
+      mockBaseRepository.find.mockResolvedValue([]);
+
+      await repository.findTopByRating('platformer');
+
+      expect(mockBaseRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({ take: 10 }),
+      );
+    });
+  });
+});
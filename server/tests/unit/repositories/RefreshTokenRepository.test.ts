@@ -0,0 +1,96 @@
+import { DataSource, IsNull } from 'typeorm';
+import { RefreshTokenRepository } from '../../../src/persistence/repositories/RefreshTokenRepository';
+
+// Mock the BaseRepository
+jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
+  return {
+    BaseRepository: class {
+      protected dataSource: DataSource;
+      protected target: any;
+
+      constructor(dataSource: DataSource, target: any) {
+        this.dataSource = dataSource;
+        this.target = target;
+      }
+
+      protected safeOperation = jest
+        .fn()
+        .mockImplementation(async (operation, errorMsg) => {
+          try {
+            return await operation;
+          } catch (error) {
+            throw new Error(errorMsg);
+          }
+        });
+
+      findOne = jest.fn();
+      update = jest.fn();
+    },
+  };
+});
+
+describe('RefreshTokenRepository', () => {
+  let repository: RefreshTokenRepository;
+  let mockBaseRepository: any;
+
+  beforeEach(() => {
+    const mockDataSource = {
+      getRepository: jest.fn(),
+    } as unknown as DataSource;
+
+    repository = new RefreshTokenRepository(mockDataSource);
+    mockBaseRepository = repository as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findByTokenHash', () => {
+    it('should find a token by its hash', async () => {
+      const mockToken = { id: '1', tokenHash: 'abc' };
+      mockBaseRepository.findOne.mockResolvedValue(mockToken);
+
+      const result = await repository.findByTokenHash('abc');
+
+      expect(result).toEqual(mockToken);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { tokenHash: 'abc' },
+      });
+    });
+  });
+
+  describe('revokeFamily', () => {
+    it('should revoke every live token in the family', async () => {
+      mockBaseRepository.update.mockResolvedValue({ affected: 2 });
+
+      await repository.revokeFamily('family-1');
+
+      expect(mockBaseRepository.update).toHaveBeenCalledWith(
+        { familyId: 'family-1', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) },
+      );
+    });
+
+    it('should throw error when update fails', async () => {
+      mockBaseRepository.update.mockRejectedValue(new Error('db down'));
+
+      await expect(repository.revokeFamily('family-1')).rejects.toThrow(
+        'Failed to revoke refresh token family family-1',
+      );
+    });
+  });
+
+  describe('revokeAllForPlayer', () => {
+    it('should revoke every live token of the player', async () => {
+      mockBaseRepository.update.mockResolvedValue({ affected: 3 });
+
+      await repository.revokeAllForPlayer('player-1');
+
+      expect(mockBaseRepository.update).toHaveBeenCalledWith(
+        { playerId: 'player-1', revokedAt: IsNull() },
+        { revokedAt: expect.any(Date) },
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { DataSource } from 'typeorm';
+import { SaveSlotRepository } from '../../../src/persistence/repositories/SaveSlotRepository';
+
+// Mock the BaseRepository
+jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
+  return {
+    BaseRepository: class {
+      protected dataSource: DataSource;
+      protected target: any;
+
+      constructor(dataSource: DataSource, target: any) {
+        this.dataSource = dataSource;
+        this.target = target;
+      }
+
+      protected safeOperation = jest
+        .fn()
+        .mockImplementation(async (operation, errorMsg) => {
+          try {
+            return await operation;
+          } catch (error) {
+            throw new Error(errorMsg);
+          }
+        });
+
+      findOne = jest.fn();
+      find = jest.fn();
+    },
+  };
+});
+
+describe('SaveSlotRepository', () => {
+  let repository: SaveSlotRepository;
+  let mockBaseRepository: any;
+
+  beforeEach(() => {
+    const mockDataSource = {
+      getRepository: jest.fn(),
+    } as unknown as DataSource;
+
+    repository = new SaveSlotRepository(mockDataSource);
+    mockBaseRepository = repository as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findByPlayer', () => {
+    it("should find all of a player's slots", async () => {
+      const mockSlots = [{ slot: '0' }, { slot: 'auto' }];
+      mockBaseRepository.find.mockResolvedValue(mockSlots);
+
+      const result = await repository.findByPlayer('player-1');
+
+      expect(result).toEqual(mockSlots);
+      expect(mockBaseRepository.find).toHaveBeenCalledWith({
+        where: { playerId: 'player-1' },
+        order: { slot: 'ASC' },
+      });
+    });
+
+    it('should throw error when query fails', async () => {
+      mockBaseRepository.find.mockRejectedValue(new Error('db down'));
+
+      await expect(repository.findByPlayer('player-1')).rejects.toThrow(
+        'Failed to find save slots for player player-1',
+      );
+    });
+  });
+
+  describe('findByPlayerAndSlot', () => {
+    it("should find one of a player's slots", async () => {
+      const mockSlot = { playerId: 'player-1', slot: 'auto' };
+      mockBaseRepository.findOne.mockResolvedValue(mockSlot);
+
+      const result = await repository.findByPlayerAndSlot('player-1', 'auto');
+
+      expect(result).toEqual(mockSlot);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { playerId: 'player-1', slot: 'auto' },
+      });
+    });
+  });
+});
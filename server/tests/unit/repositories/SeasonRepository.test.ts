@@ -0,0 +1,92 @@
+import { DataSource, IsNull } from 'typeorm';
+import { SeasonRepository } from '../../../src/persistence/repositories/SeasonRepository';
+import { SeasonStanding } from '../../../src/persistence/models/SeasonStanding';
+
+// Mock the BaseRepository
+jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
+  return {
+    BaseRepository: class {
+      protected dataSource: DataSource;
+      protected target: any;
+
+      constructor(dataSource: DataSource, target: any) {
+        this.dataSource = dataSource;
+        this.target = target;
+      }
+
+      protected safeOperation = jest
+        .fn()
+        .mockImplementation(async (operation, errorMsg) => {
+          try {
+            return await operation;
+          } catch (error) {
+            throw new Error(errorMsg);
+          }
+        });
+
+      findOne = jest.fn();
+      find = jest.fn();
+      manager = { find: jest.fn() };
+    },
+  };
+});
+
+describe('SeasonRepository', () => {
+  let repository: SeasonRepository;
+  let mockBaseRepository: any;
+
+  beforeEach(() => {
+    const mockDataSource = {
+      getRepository: jest.fn(),
+    } as unknown as DataSource;
+
+    repository = new SeasonRepository(mockDataSource);
+    mockBaseRepository = repository as any;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findCurrent', () => {
+    it('should find the latest season not yet archived', async () => {
+      const mockSeason = { id: 3, archivedAt: null };
+      mockBaseRepository.findOne.mockResolvedValue(mockSeason);
+
+      const result = await repository.findCurrent();
+
+      expect(result).toEqual(mockSeason);
+      expect(mockBaseRepository.findOne).toHaveBeenCalledWith({
+        where: { archivedAt: IsNull() },
+        order: { startsAt: 'DESC' },
+      });
+    });
+
+    it('should throw error when query fails', async () => {
+      mockBaseRepository.findOne.mockRejectedValue(new Error('db down'));
+
+      await expect(repository.findCurrent()).rejects.toThrow(
+        'Failed to find current season',
+      );
+    });
+  });
+
+  describe('findStandings', () => {
+    it('should page through a season by rank', async () => {
+      mockBaseRepository.manager.find.mockResolvedValue([]);
+
+      await repository.findStandings(2, 50, 100);
+
+      expect(mockBaseRepository.manager.find).toHaveBeenCalledWith(
+        SeasonStanding,
+        {
+          where: { seasonId: 2 },
+          order: { rank: 'ASC' },
+          skip: 100,
+          take: 50,
+          relations: ['profile'],
+        },
+      );
+    });
+  });
+});
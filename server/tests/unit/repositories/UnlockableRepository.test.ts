@@ -1,4 +1,4 @@
-import { DataSource } from 'typeorm';
+import { Between, DataSource, IsNull } from 'typeorm';
 import {
   Unlockable,
   UnlockableType,
@@ -19,6 +19,7 @@ jest.mock('../../../src/persistence/repositories/BaseRepository', () => {
   return {
     BaseRepository: jest.fn().mockImplementation(() => ({
       find: jest.fn(),
+      findOne: jest.fn(),
       createQueryBuilder: jest.fn(),
     })),
   };
@@ -31,16 +32,19 @@ describe('UnlockableRepository', () => {
   let repository: UnlockableRepository;
   let mockDataSource: Partial<DataSource>;
   let mockFind: jest.Mock;
+  let mockFindOne: jest.Mock;
   let mockCreateQueryBuilder: jest.Mock;
 
   beforeEach(() => {
     jest.clearAllMocks();
 
     mockFind = jest.fn();
+    mockFindOne = jest.fn();
     mockCreateQueryBuilder = jest.fn();
 
     (BaseRepository as any).mockImplementation(function (this: any) {
       this.find = mockFind;
+      this.findOne = mockFindOne;
       this.createQueryBuilder = mockCreateQueryBuilder;
       this.safeOperation = jest.fn().mockImplementation(async (op) => await op);
     });
@@ -50,6 +54,20 @@ describe('UnlockableRepository', () => {
     repository = new UnlockableRepository(mockDataSource as DataSource);
   });
 
+  describe('findByCode', () => {
+    it('should find an unlockable by its catalogue code', async () => {
+      const mockUnlockable = { id: '1', code: 'golden_skin' };
+      mockFindOne.mockResolvedValue(mockUnlockable);
+
+      const result = await repository.findByCode('golden_skin');
+
+      expect(result).toEqual(mockUnlockable);
+      expect(mockFindOne).toHaveBeenCalledWith({
+        where: { code: 'golden_skin' },
+      });
+    });
+  });
+
   describe('findByType', () => {
     it('should return unlockables of a specific type', async () => {
       const mockUnlockables = [
@@ -110,7 +128,9 @@ describe('UnlockableRepository', () => {
 
       // Note: the repository query is { requiredLevel: maxLevel } which is an exact match, not <=
       // According to the source, it's an exact match, so we test accordingly
-      expect(mockFind).toHaveBeenCalledWith({ where: { requiredLevel: 10 } });
+      expect(mockFind).toHaveBeenCalledWith({
+        where: { requiredLevel: 10, retiredAt: IsNull() },
+      });
       expect(result).toEqual(mockUnlockables);
     });
 
@@ -123,6 +143,22 @@ describe('UnlockableRepository', () => {
     });
   });
 
+  describe('findUnlockablesForLevels', () => {
+    it('should find level-only unlockables in the range', async () => {
+      mockFind.mockResolvedValue([]);
+
+      await repository.findUnlockablesForLevels(2, 4);
+
+      expect(mockFind).toHaveBeenCalledWith({
+        where: {
+          requiredLevel: Between(2, 4),
+          requiredAchievementId: IsNull(),
+          retiredAt: IsNull(),
+        },
+      });
+    });
+  });
+
   describe('findUnlockablesByAchievement', () => {
     it('should return unlockables linked to an achievement', async () => {
       const mockUnlockables = [
@@ -0,0 +1,196 @@
+import { AchievementService } from '../../../src/services/AchievementService';
+import { GameplayEvent } from '../../../src/types/gameplay';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('AchievementService', () => {
+  let service: AchievementService;
+  let mockAchievementRepo: any;
+  let mockProgressionService: any;
+
+  const killer = {
+    id: 'ach-kill',
+    code: 'killer',
+    name: 'Killer',
+    description: 'Defeat 10 enemies',
+    tier: 'bronze',
+    requiredValue: 10,
+    rewardCoins: 25,
+    rewardUnlockableId: null,
+    metadata: { event: 'kill' },
+  };
+  const survivor = {
+    ...killer,
+    id: 'ach-death',
+    metadata: { event: 'death' },
+  };
+  const comboKing = {
+    ...killer,
+    id: 'ach-combo',
+    metadata: { event: 'combo' },
+  };
+  const untracked = { ...killer, id: 'ach-other', metadata: null };
+
+  const event = (overrides: Partial<GameplayEvent> = {}): GameplayEvent => ({
+    roomId: 'room-1',
+    playerId: 'player-1',
+    type: 'kill',
+    amount: 1,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockAchievementRepo = {
+      findActive: jest
+        .fn()
+        .mockResolvedValue([killer, survivor, comboKing, untracked]),
+    };
+    mockProgressionService = {
+      advanceAchievements: jest.fn().mockResolvedValue([]),
+    };
+    service = new AchievementService(
+      mockAchievementRepo,
+      mockProgressionService,
+    );
+  });
+
+  describe('handleEvent', () => {
+    it('should advance the achievements that track the event', async () => {
+      await service.handleEvent(event({ amount: 2 }));
+
+      expect(mockProgressionService.advanceAchievements).toHaveBeenCalledWith(
+        'player-1',
+        [killer],
+        2,
+        false,
+      );
+    });
+
+    it('should keep the best combo rather than a total', async () => {
+      await service.handleEvent(event({ type: 'combo', amount: 7 }));
+
+      expect(mockProgressionService.advanceAchievements).toHaveBeenCalledWith(
+        'player-1',
+        [comboKing],
+        7,
+        true,
+      );
+    });
+
+    it('should return the completed achievements', async () => {
+      mockProgressionService.advanceAchievements.mockResolvedValue([killer]);
+
+      await expect(service.handleEvent(event())).resolves.toEqual([killer]);
+    });
+
+    it('should skip events no achievement tracks', async () => {
+      const completed = await service.handleEvent(event({ type: 'level_complete' }));
+
+      expect(completed).toEqual([]);
+      expect(mockProgressionService.advanceAchievements).not.toHaveBeenCalled();
+    });
+
+    it('should ignore socket-only guests and empty events', async () => {
+      await service.handleEvent(event({ playerId: 'guest_abc' }));
+      await service.handleEvent(event({ amount: 0 }));
+
+      expect(mockAchievementRepo.findActive).not.toHaveBeenCalled();
+      expect(mockProgressionService.advanceAchievements).not.toHaveBeenCalled();
+    });
+
+    it('should load the achievements only once', async () => {
+      await service.handleEvent(event());
+      await service.handleEvent(event({ type: 'death' }));
+
+      expect(mockAchievementRepo.findActive).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reload the achievements after they are invalidated', async () => {
+      await service.handleEvent(event());
+      service.invalidateRules();
+      await service.handleEvent(event());
+
+      expect(mockAchievementRepo.findActive).toHaveBeenCalledTimes(2);
+    });
+
+    it('should read the achievements again once they are stale', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      await service.handleEvent(event());
+      now.mockReturnValue(61 * 1000);
+      await service.handleEvent(event());
+      now.mockRestore();
+
+      expect(mockAchievementRepo.findActive).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry loading after a failure', async () => {
+      mockAchievementRepo.findActive.mockRejectedValueOnce(
+        new Error('db down'),
+      );
+
+      await expect(service.handleEvent(event())).rejects.toThrow('db down');
+      await service.handleEvent(event());
+
+      expect(mockProgressionService.advanceAchievements).toHaveBeenCalledTimes(
+        1,
+      );
+    });
+
+    it("should apply a player's events one at a time", async () => {
+      const order: string[] = [];
+      let release!: () => void;
+      mockProgressionService.advanceAchievements
+        .mockImplementationOnce(async () => {
+          order.push('first started');
+          await new Promise<void>((resolve) => (release = resolve));
+          order.push('first done');
+          return [];
+        })
+        .mockImplementationOnce(async () => {
+          order.push('second started');
+          return [];
+        });
+
+      const first = service.handleEvent(event());
+      const second = service.handleEvent(event());
+      await new Promise((resolve) => setImmediate(resolve));
+      release();
+      await Promise.all([first, second]);
+
+      expect(order).toEqual(['first started', 'first done', 'second started']);
+    });
+
+    it('should keep going after a failed event', async () => {
+      mockProgressionService.advanceAchievements
+        .mockRejectedValueOnce(new Error('deadlock'))
+        .mockResolvedValueOnce([killer]);
+
+      const first = service.handleEvent(event());
+      const second = service.handleEvent(event());
+
+      await expect(first).rejects.toThrow('deadlock');
+      await expect(second).resolves.toEqual([killer]);
+    });
+  });
+
+  describe('toUnlockedEvent', () => {
+    it('should describe the achievement and its rewards', () => {
+      expect(service.toUnlockedEvent(killer as any)).toEqual({
+        achievementId: 'ach-kill',
+        code: 'killer',
+        name: 'Killer',
+        description: 'Defeat 10 enemies',
+        tier: 'bronze',
+        rewardCoins: 25,
+        rewardUnlockableId: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,535 @@
+import bcrypt from 'bcrypt';
+import jwt from 'jsonwebtoken';
+import { QueryFailedError } from 'typeorm';
+import { AuthError, AuthService } from '../../../src/services/AuthService';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+const SECRET = 'test-secret';
+
+// What a Postgres unique index rejects with when another request got there first
+const uniqueViolation = (column: string) =>
+  new QueryFailedError(
+    'INSERT',
+    [],
+    Object.assign(new Error('duplicate key value'), {
+      code: '23505',
+      detail: `Key (${column})=(alice) already exists.`,
+    }),
+  );
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let mockDataSource: any;
+  let mockManager: any;
+  let mockProfileRepo: any;
+  let mockRefreshTokenRepo: any;
+  let storedTokens: any[];
+
+  beforeEach(() => {
+    storedTokens = [];
+    mockManager = {
+      create: jest.fn().mockImplementation((_entity, data) => ({ ...data })),
+      findOne: jest.fn(),
+      save: jest.fn().mockImplementation(async (entity) => {
+        if (entity.tokenHash && !storedTokens.includes(entity)) {
+          entity.id = `token-${storedTokens.length + 1}`;
+          storedTokens.push(entity);
+        }
+        return entity.username ? { id: 'player-1', ...entity } : entity;
+      }),
+      // Revokes a stored token that is still unrevoked
+      update: jest.fn().mockImplementation(async (_entity, where, values) => {
+        const record = storedTokens.find(
+          (token) => token.id === where.id && !token.revokedAt,
+        );
+        if (record) Object.assign(record, values);
+        return { affected: record ? 1 : 0 };
+      }),
+    };
+    mockDataSource = {
+      transaction: jest.fn().mockImplementation(async (cb) => cb(mockManager)),
+    };
+    mockProfileRepo = {
+      findByUsername: jest.fn().mockResolvedValue(null),
+      findByEmail: jest.fn().mockResolvedValue(null),
+      findByUsernameWithPassword: jest.fn(),
+      findGuestByDeviceTokenHash: jest.fn().mockResolvedValue(null),
+      findOne: jest.fn(),
+      update: jest.fn(),
+    };
+    mockRefreshTokenRepo = {
+      create: jest.fn().mockImplementation((data) => ({ ...data })),
+      save: jest.fn().mockImplementation(async (record) => {
+        record.id = `token-${storedTokens.length + 1}`;
+        storedTokens.push(record);
+        return record;
+      }),
+      findByTokenHash: jest
+        .fn()
+        .mockImplementation(
+          async (hash) =>
+            storedTokens.find((record) => record.tokenHash === hash) ?? null,
+        ),
+      revokeAllForPlayer: jest.fn(),
+      revokeFamily: jest.fn().mockImplementation(async (familyId) => {
+        storedTokens
+          .filter((record) => record.familyId === familyId)
+          .forEach((record) => (record.revokedAt = new Date()));
+      }),
+    };
+
+    service = new AuthService(
+      mockDataSource,
+      mockProfileRepo,
+      mockRefreshTokenRepo,
+      { jwtSecret: SECRET, bcryptRounds: 4 },
+    );
+  });
+
+  describe('register', () => {
+    it('should store a password hash and sign the player in', async () => {
+      const result = await service.register('alice', 'correct horse', 'a@b.co');
+
+      const savedProfile = mockManager.save.mock.calls[0][0];
+      expect(savedProfile.username).toBe('alice');
+      expect(savedProfile.email).toBe('a@b.co');
+      expect(savedProfile.passwordHash).not.toBe('correct horse');
+      expect(
+        await bcrypt.compare('correct horse', savedProfile.passwordHash),
+      ).toBe(true);
+      expect(mockManager.save.mock.calls[1][0]).toEqual({
+        playerId: 'player-1',
+      });
+
+      expect(result.player).toEqual({
+        id: 'player-1',
+        username: 'alice',
+        isGuest: false,
+      });
+      expect(result.expiresIn).toBe(15 * 60);
+      expect(jwt.verify(result.accessToken, SECRET)).toMatchObject({
+        playerId: 'player-1',
+        isGuest: false,
+      });
+      expect(result.refreshToken).toEqual(expect.any(String));
+      expect(storedTokens[0].tokenHash).not.toBe(result.refreshToken);
+    });
+
+    it('should reject taken usernames', async () => {
+      mockProfileRepo.findByUsername.mockResolvedValue({ id: 'other' });
+
+      await expect(service.register('alice', 'password1')).rejects.toEqual(
+        new AuthError('Username already taken', 409),
+      );
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a username taken by a concurrent registration', async () => {
+      mockManager.save.mockRejectedValueOnce(uniqueViolation('username'));
+
+      await expect(service.register('alice', 'password1')).rejects.toEqual(
+        new AuthError('Username already taken', 409),
+      );
+      expect(mockRefreshTokenRepo.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an email taken by a concurrent registration', async () => {
+      mockManager.save.mockRejectedValueOnce(uniqueViolation('email'));
+
+      await expect(
+        service.register('alice', 'password1', 'a@b.co'),
+      ).rejects.toEqual(new AuthError('Email already registered', 409));
+    });
+
+    it('should pass on other database errors', async () => {
+      const error = new Error('connection lost');
+      mockManager.save.mockRejectedValueOnce(error);
+
+      await expect(service.register('alice', 'password1')).rejects.toBe(error);
+    });
+
+    it('should reject taken emails', async () => {
+      mockProfileRepo.findByEmail.mockResolvedValue({ id: 'other' });
+
+      await expect(
+        service.register('alice', 'password1', 'a@b.co'),
+      ).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('login', () => {
+    let profile: any;
+
+    beforeEach(async () => {
+      profile = {
+        id: 'player-1',
+        username: 'alice',
+        passwordHash: await bcrypt.hash('correct horse', 4),
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      };
+      mockProfileRepo.findByUsernameWithPassword.mockResolvedValue(profile);
+      mockManager.findOne.mockImplementation(async () => ({ ...profile }));
+    });
+
+    it('should put the role in the access token', async () => {
+      profile.role = 'admin';
+
+      const result = await service.login('alice', 'correct horse');
+
+      expect(jwt.verify(result.accessToken, SECRET)).toMatchObject({
+        playerId: 'player-1',
+        role: 'admin',
+      });
+    });
+
+    it('should sign in with the right password', async () => {
+      const result = await service.login('alice', 'correct horse');
+
+      expect(result.player.id).toBe('player-1');
+      expect(mockProfileRepo.update).toHaveBeenCalledWith('player-1', {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        lastLogin: expect.any(Date),
+      });
+    });
+
+    it('should reject unknown players and accounts without a password', async () => {
+      mockProfileRepo.findByUsernameWithPassword.mockResolvedValueOnce(null);
+      await expect(service.login('bob', 'whatever1')).rejects.toMatchObject({
+        status: 401,
+      });
+
+      mockProfileRepo.findByUsernameWithPassword.mockResolvedValueOnce({
+        ...profile,
+        passwordHash: null,
+      });
+      await expect(service.login('alice', 'whatever1')).rejects.toMatchObject({
+        status: 401,
+      });
+    });
+
+    it('should spend a password check on unknown players', async () => {
+      const compare = jest.spyOn(bcrypt, 'compare');
+      mockProfileRepo.findByUsernameWithPassword.mockResolvedValue(null);
+
+      await expect(service.login('bob', 'whatever1')).rejects.toMatchObject({
+        status: 401,
+      });
+      await expect(service.login('carol', 'whatever2')).rejects.toMatchObject({
+        status: 401,
+      });
+
+      // Against a hash at the configured cost, created once
+      expect(compare).toHaveBeenCalledTimes(2);
+      const [[, first], [, second]] = compare.mock.calls;
+      expect(first).toMatch(/^\$2[aby]\$04\$/);
+      expect(second).toBe(first);
+      compare.mockRestore();
+    });
+
+    it('should count failed attempts', async () => {
+      profile.failedLoginAttempts = 2;
+
+      await expect(service.login('alice', 'wrong pass')).rejects.toEqual(
+        new AuthError('Invalid username or password', 401),
+      );
+      expect(mockManager.findOne).toHaveBeenCalledWith(expect.anything(), {
+        where: { id: 'player-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockManager.update).toHaveBeenCalledWith(
+        expect.anything(),
+        'player-1',
+        { failedLoginAttempts: 3 },
+      );
+    });
+
+    it('should count from the stored attempts, not the ones read at login', async () => {
+      // Another failed login was counted after this one read the profile
+      mockManager.findOne.mockResolvedValue({
+        ...profile,
+        failedLoginAttempts: 4,
+      });
+
+      await expect(service.login('alice', 'wrong pass')).rejects.toMatchObject({
+        status: 401,
+      });
+
+      const update = mockManager.update.mock.calls[0][2];
+      expect(update.failedLoginAttempts).toBe(0);
+      expect(update.lockedUntil).toEqual(expect.any(Date));
+    });
+
+    it('should lock the account after too many failures', async () => {
+      profile.failedLoginAttempts = 4;
+
+      await expect(service.login('alice', 'wrong pass')).rejects.toMatchObject({
+        status: 401,
+      });
+
+      const update = mockManager.update.mock.calls[0][2];
+      expect(update.failedLoginAttempts).toBe(0);
+      expect(update.lockedUntil.getTime()).toBeGreaterThan(
+        Date.now() + 14 * 60 * 1000,
+      );
+    });
+
+    it('should refuse locked accounts even with the right password', async () => {
+      profile.lockedUntil = new Date(Date.now() + 60 * 1000);
+
+      const error = await service
+        .login('alice', 'correct horse')
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.status).toBe(423);
+      expect(error.retryAfterSeconds).toBe(60);
+      expect(mockProfileRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should let the lock expire', async () => {
+      profile.lockedUntil = new Date(Date.now() - 1000);
+
+      await expect(
+        service.login('alice', 'correct horse'),
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('refresh', () => {
+    beforeEach(() => {
+      mockProfileRepo.findOne.mockResolvedValue({
+        id: 'player-1',
+        username: 'alice',
+      });
+    });
+
+    it('should rotate the refresh token', async () => {
+      const first = await service.register('alice', 'correct horse');
+
+      const second = await service.refresh(first.refreshToken);
+
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(jwt.verify(second.accessToken, SECRET)).toMatchObject({
+        playerId: 'player-1',
+      });
+      expect(storedTokens).toHaveLength(2);
+      expect(storedTokens[0].revokedAt).toBeInstanceOf(Date);
+      expect(storedTokens[1].revokedAt).toBeNull();
+      expect(storedTokens[1].familyId).toBe(storedTokens[0].familyId);
+    });
+
+    it('should revoke the whole family when a used token comes back', async () => {
+      const first = await service.register('alice', 'correct horse');
+      const second = await service.refresh(first.refreshToken);
+
+      await expect(service.refresh(first.refreshToken)).rejects.toMatchObject({
+        status: 401,
+      });
+      expect(mockRefreshTokenRepo.revokeFamily).toHaveBeenCalledWith(
+        storedTokens[0].familyId,
+      );
+      await expect(service.refresh(second.refreshToken)).rejects.toMatchObject({
+        status: 401,
+      });
+    });
+
+    it('should let only one of two concurrent refreshes through', async () => {
+      const first = await service.register('alice', 'correct horse');
+
+      const results = await Promise.allSettled([
+        service.refresh(first.refreshToken),
+        service.refresh(first.refreshToken),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(
+        results.find((result) => result.status === 'rejected'),
+      ).toMatchObject({ reason: { status: 401 } });
+      // The loser counts as reuse, so the winner's new token is revoked too
+      expect(mockRefreshTokenRepo.revokeFamily).toHaveBeenCalledWith(
+        storedTokens[0].familyId,
+      );
+      expect(storedTokens).toHaveLength(2);
+      expect(storedTokens[1].revokedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject unknown and expired tokens', async () => {
+      await expect(service.refresh('unknown')).rejects.toMatchObject({
+        status: 401,
+      });
+
+      const first = await service.register('alice', 'correct horse');
+      storedTokens[0].expiresAt = new Date(Date.now() - 1);
+      await expect(service.refresh(first.refreshToken)).rejects.toEqual(
+        new AuthError('Refresh token expired', 401),
+      );
+    });
+  });
+
+  describe('signInGuest', () => {
+    it('should create an anonymous profile with a device token', async () => {
+      const result = await service.signInGuest();
+
+      const savedProfile = mockManager.save.mock.calls[0][0];
+      expect(savedProfile.username).toMatch(/^guest_[0-9a-f]{12}$/);
+      expect(savedProfile.isGuest).toBe(true);
+      expect(savedProfile.passwordHash).toBeUndefined();
+      expect(savedProfile.deviceTokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(savedProfile.deviceTokenHash).not.toBe(result.deviceToken);
+      expect(mockManager.save.mock.calls[1][0]).toEqual({
+        playerId: 'player-1',
+      });
+
+      expect(result.player.isGuest).toBe(true);
+      expect(result.deviceToken).toEqual(expect.any(String));
+      expect(jwt.verify(result.accessToken, SECRET)).toMatchObject({
+        playerId: 'player-1',
+        isGuest: true,
+      });
+    });
+
+    it('should return to the profile of a known device token', async () => {
+      const first = await service.signInGuest();
+      const deviceTokenHash = mockManager.save.mock.calls[0][0].deviceTokenHash;
+      mockProfileRepo.findGuestByDeviceTokenHash.mockResolvedValue({
+        id: 'player-1',
+        username: 'guest_abc',
+        isGuest: true,
+      });
+      mockManager.save.mockClear();
+
+      const second = await service.signInGuest(first.deviceToken);
+
+      expect(mockProfileRepo.findGuestByDeviceTokenHash).toHaveBeenCalledWith(
+        deviceTokenHash,
+      );
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(second.deviceToken).toBe(first.deviceToken);
+      expect(second.player).toEqual({
+        id: 'player-1',
+        username: 'guest_abc',
+        isGuest: true,
+      });
+    });
+
+    it('should start a new profile for unknown device tokens', async () => {
+      const result = await service.signInGuest('forgotten');
+
+      expect(mockDataSource.transaction).toHaveBeenCalled();
+      expect(result.deviceToken).not.toBe('forgotten');
+    });
+  });
+
+  describe('upgradeGuest', () => {
+    const guest = { id: 'player-1', username: 'guest_abc', isGuest: true };
+
+    it('should turn the guest profile into an account in place', async () => {
+      mockProfileRepo.findGuestByDeviceTokenHash.mockResolvedValue(guest);
+
+      const result = await service.upgradeGuest(
+        'device-token',
+        'alice',
+        'correct horse',
+        'a@b.co',
+      );
+
+      const [id, update] = mockProfileRepo.update.mock.calls[0];
+      expect(id).toBe('player-1');
+      expect(update).toMatchObject({
+        username: 'alice',
+        email: 'a@b.co',
+        isGuest: false,
+        deviceTokenHash: null,
+      });
+      expect(await bcrypt.compare('correct horse', update.passwordHash)).toBe(
+        true,
+      );
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+      expect(mockRefreshTokenRepo.revokeAllForPlayer).toHaveBeenCalledWith(
+        'player-1',
+      );
+      expect(result.player).toEqual({
+        id: 'player-1',
+        username: 'alice',
+        isGuest: false,
+      });
+      expect(jwt.verify(result.accessToken, SECRET)).toMatchObject({
+        isGuest: false,
+      });
+    });
+
+    it('should reject unknown device tokens', async () => {
+      await expect(
+        service.upgradeGuest('unknown', 'alice', 'correct horse'),
+      ).rejects.toEqual(new AuthError('Invalid device token', 401));
+      expect(mockProfileRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject taken usernames', async () => {
+      mockProfileRepo.findGuestByDeviceTokenHash.mockResolvedValue(guest);
+      mockProfileRepo.findByUsername.mockResolvedValue({ id: 'other' });
+
+      await expect(
+        service.upgradeGuest('device-token', 'alice', 'correct horse'),
+      ).rejects.toMatchObject({ status: 409 });
+      expect(mockProfileRepo.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a username taken by a concurrent request', async () => {
+      mockProfileRepo.findGuestByDeviceTokenHash.mockResolvedValue(guest);
+      mockProfileRepo.update.mockRejectedValue(uniqueViolation('username'));
+
+      await expect(
+        service.upgradeGuest('device-token', 'alice', 'correct horse'),
+      ).rejects.toEqual(new AuthError('Username already taken', 409));
+      expect(mockRefreshTokenRepo.revokeAllForPlayer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the token family', async () => {
+      const { refreshToken } = await service.register('alice', 'correct horse');
+
+      await service.logout(refreshToken);
+
+      expect(storedTokens[0].revokedAt).toBeInstanceOf(Date);
+      await expect(service.refresh(refreshToken)).rejects.toMatchObject({
+        status: 401,
+      });
+    });
+
+    it('should ignore unknown tokens', async () => {
+      await expect(service.logout('unknown')).resolves.toBeUndefined();
+      expect(mockRefreshTokenRepo.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should refuse to sign tokens without a secret', async () => {
+    const originalSecret = process.env.JWT_SECRET;
+    delete process.env.JWT_SECRET;
+    const unconfigured = new AuthService(
+      mockDataSource,
+      mockProfileRepo,
+      mockRefreshTokenRepo,
+      { bcryptRounds: 4 },
+    );
+
+    await expect(
+      unconfigured.register('alice', 'correct horse'),
+    ).rejects.toThrow('JWT_SECRET environment variable not set');
+
+    process.env.JWT_SECRET = originalSecret;
+  });
+});
@@ -0,0 +1,346 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Catalogue,
+  CatalogueError,
+  CatalogueService,
+  parseCatalogue,
+  validateAchievementDefinition,
+  validateUnlockableDefinition,
+} from '../../../src/services/CatalogueService';
+import { Achievement } from '../../../src/persistence/models/Achievement';
+import { Unlockable } from '../../../src/persistence/models/Unlockable';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+/**
+ * Entity manager keeping rows in memory, enough for the service's lookups.
+ */
+const createFakeManager = () => {
+  const rows: Record<string, any[]> = { Achievement: [], Unlockable: [] };
+  let nextId = 1;
+  const manager = {
+    rows,
+    findOne: jest.fn(async (entity: any, { where }: any) => {
+      return (
+        rows[entity.name].find((row) =>
+          Object.entries(where).every(([key, value]) => row[key] === value),
+        ) ?? null
+      );
+    }),
+    create: jest.fn((entity: any, data: any) =>
+      Object.assign(new entity(), data),
+    ),
+    save: jest.fn(async (row: any) => {
+      if (!row.id) {
+        row.id = `id-${nextId++}`;
+        rows[row.constructor.name].push(row);
+      }
+      return row;
+    }),
+  };
+  return manager;
+};
+
+describe('CatalogueService', () => {
+  let service: CatalogueService;
+  let mockDataSource: any;
+  let mockAchievementRepo: any;
+  let mockUnlockableRepo: any;
+  let manager: ReturnType<typeof createFakeManager>;
+
+  const catalogue: Catalogue = {
+    unlockables: [
+      { code: 'skin_gold', name: 'Gold', type: 'skin' as any },
+      {
+        code: 'title_boss',
+        name: 'Boss',
+        type: 'title' as any,
+        requiredAchievement: 'boss_hunter',
+        isSecret: true,
+      },
+    ],
+    achievements: [
+      {
+        code: 'boss_hunter',
+        name: 'Boss Hunter',
+        event: 'kill',
+        requiredValue: 5,
+        rewardCoins: 100,
+        rewardUnlockable: 'skin_gold',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    manager = createFakeManager();
+    mockDataSource = {
+      transaction: jest.fn(async (cb: any) => cb(manager)),
+    };
+    mockAchievementRepo = {
+      find: jest.fn(),
+      findByCode: jest.fn(async (code: string) =>
+        manager.findOne(Achievement, { where: { code } }),
+      ),
+    };
+    mockUnlockableRepo = {
+      find: jest.fn(),
+      findByCode: jest.fn(async (code: string) =>
+        manager.findOne(Unlockable, { where: { code } }),
+      ),
+    };
+    service = new CatalogueService(
+      mockDataSource,
+      mockAchievementRepo,
+      mockUnlockableRepo,
+    );
+  });
+
+  describe('validation', () => {
+    it('should accept a complete achievement', () => {
+      expect(
+        validateAchievementDefinition({
+          code: 'first_blood',
+          name: 'First Blood',
+          tier: 'bronze',
+          event: 'kill',
+          requiredValue: 1,
+          rewardCoins: 0,
+          rewardUnlockable: null,
+        }),
+      ).toEqual([]);
+    });
+
+    it('should reject events the server never reports', () => {
+      for (const event of ['coin', 'boss_kill']) {
+        expect(
+          validateAchievementDefinition({ code: 'x', name: 'X', event }),
+        ).toEqual([
+          'event must be one the server reports: kill, death, level_complete, combo',
+        ]);
+      }
+    });
+
+    it('should report every problem with an entry', () => {
+      const errors = validateUnlockableDefinition({
+        code: 'bad code',
+        name: '',
+        type: 'hat',
+        requiredLevel: 0,
+        isSecret: 'yes',
+        colour: 'red',
+      });
+
+      expect(errors).toHaveLength(6);
+      expect(errors).toContain('unknown field "colour"');
+    });
+
+    it('should only check the fields present in an update', () => {
+      expect(validateAchievementDefinition({ rewardCoins: 5 }, true)).toEqual(
+        [],
+      );
+      expect(validateAchievementDefinition({ code: 'x' }, true)).toEqual([
+        'code cannot be changed',
+      ]);
+    });
+  });
+
+  describe('parseCatalogue', () => {
+    it('should accept the catalogue shipped with the server', () => {
+      const file = path.resolve(__dirname, '../../../data/catalogue.json');
+      const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+
+      expect(() => parseCatalogue(data)).not.toThrow();
+    });
+
+    it('should treat missing sections as empty', () => {
+      expect(parseCatalogue({})).toEqual({ unlockables: [], achievements: [] });
+    });
+
+    it('should list problems with the entry they belong to', () => {
+      try {
+        parseCatalogue({
+          achievements: [
+            { code: 'a', name: 'A' },
+            { code: 'a', name: 'A again', tier: 'wood' },
+          ],
+          quests: [],
+        });
+        fail('expected an error');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(CatalogueError);
+        expect(error.details).toEqual([
+          'unknown section "quests"',
+          'achievements[1] (a): tier must be one of bronze, silver, gold, platinum, legendary',
+          'achievements[1] (a): duplicate code',
+        ]);
+      }
+    });
+  });
+
+  describe('loadFile', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalogue-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return null when there is no file', async () => {
+      await expect(
+        service.loadFile(path.join(dir, 'missing.json')),
+      ).resolves.toBeNull();
+    });
+
+    it('should reject files that are not JSON', async () => {
+      const file = path.join(dir, 'catalogue.json');
+      fs.writeFileSync(file, '{ "achievements": [');
+
+      await expect(service.loadFile(file)).rejects.toBeInstanceOf(
+        CatalogueError,
+      );
+    });
+
+    it('should parse a valid file', async () => {
+      const file = path.join(dir, 'catalogue.json');
+      fs.writeFileSync(file, JSON.stringify(catalogue));
+
+      await expect(service.loadFile(file)).resolves.toEqual(catalogue);
+    });
+  });
+
+  describe('sync', () => {
+    it('should create every entry and link them by code', async () => {
+      await service.sync(catalogue);
+
+      const [gold, title] = manager.rows.Unlockable;
+      const [hunter] = manager.rows.Achievement;
+      expect(hunter).toMatchObject({
+        code: 'boss_hunter',
+        tier: 'bronze',
+        requiredValue: 5,
+        rewardCoins: 100,
+        rewardUnlockableId: gold.id,
+        metadata: { event: 'kill' },
+        retiredAt: null,
+      });
+      expect(title).toMatchObject({
+        isSecret: true,
+        requiredAchievementId: hunter.id,
+      });
+    });
+
+    it('should change nothing when synced twice', async () => {
+      await service.sync(catalogue);
+      const snapshot = JSON.stringify(manager.rows);
+      manager.save.mockClear();
+
+      await service.sync(catalogue);
+
+      expect(JSON.stringify(manager.rows)).toBe(snapshot);
+      // One save per entry; the requirement pass has nothing to change
+      expect(manager.save).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reset file entries to what the file says', async () => {
+      await service.sync(catalogue);
+      manager.rows.Achievement[0].rewardCoins = 1;
+      manager.rows.Achievement[0].tier = 'gold';
+
+      await service.sync(catalogue);
+
+      expect(manager.rows.Achievement[0]).toMatchObject({
+        rewardCoins: 100,
+        tier: 'bronze',
+      });
+    });
+
+    it('should fail on references to unknown codes', async () => {
+      await expect(
+        service.sync({
+          unlockables: [],
+          achievements: [
+            { code: 'a', name: 'A', rewardUnlockable: 'does_not_exist' },
+          ],
+        }),
+      ).rejects.toThrow('Unknown unlockable does_not_exist');
+    });
+  });
+
+  describe('admin operations', () => {
+    beforeEach(async () => {
+      await service.sync(catalogue);
+    });
+
+    it('should refuse to create an achievement with a taken code', async () => {
+      await expect(
+        service.createAchievement({ code: 'boss_hunter', name: 'Again' }),
+      ).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should create an achievement with defaults', async () => {
+      const achievement = await service.createAchievement({
+        code: 'first_blood',
+        name: 'First Blood',
+        event: 'kill',
+      });
+
+      expect(achievement).toMatchObject({
+        tier: 'bronze',
+        requiredValue: 1,
+        rewardCoins: 0,
+        metadata: { event: 'kill' },
+      });
+    });
+
+    it('should keep other metadata when changing the event', async () => {
+      manager.rows.Achievement[0].metadata = { event: 'kill', icon: 'x' };
+
+      const achievement = await service.updateAchievement('boss_hunter', {
+        event: 'combo',
+      });
+
+      expect(achievement.metadata).toEqual({ event: 'combo', icon: 'x' });
+    });
+
+    it('should answer 404 for unknown entries', async () => {
+      await expect(
+        service.updateAchievement('missing', { rewardCoins: 1 }),
+      ).rejects.toMatchObject({ status: 404 });
+      await expect(service.retireUnlockable('missing')).rejects.toMatchObject({
+        status: 404,
+      });
+    });
+
+    it('should keep the first retirement time', async () => {
+      const first = await service.retireAchievement('boss_hunter');
+      const retiredAt = first.retiredAt;
+
+      const again = await service.retireAchievement('boss_hunter');
+
+      expect(retiredAt).toBeInstanceOf(Date);
+      expect(again.retiredAt).toBe(retiredAt);
+    });
+
+    it('should bring retired entries back', async () => {
+      await service.retireUnlockable('skin_gold');
+
+      const unlockable = await service.updateUnlockable('skin_gold', {
+        retired: false,
+      });
+
+      expect(unlockable.retiredAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,452 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CommunityLevelError,
+  CommunityLevelService,
+  MAX_LEVEL_BYTES,
+  MAX_LEVEL_WIDTH,
+  checkLevelMap,
+  validateLevelUpload,
+} from '../../../src/services/CommunityLevelService';
+import { CommunityLevel } from '../../../src/persistence/models/CommunityLevel';
+import { CommunityLevelRating } from '../../../src/persistence/models/CommunityLevelRating';
+import { clearLevelCache } from '../../../src/simulation/levels';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+/**
+ * A 20x10 map with a floor, a player spawn on the left and an exit on the
+ * right, as the level editor exports it.
+ */
+const createMap = (overrides: Record<string, any> = {}) => {
+  const width = 20;
+  const height = 10;
+  const data = new Array(width * height).fill(0).fill(1, (height - 1) * width);
+  return {
+    type: 'map',
+    orientation: 'orthogonal',
+    infinite: false,
+    width,
+    height,
+    tilewidth: 32,
+    tileheight: 32,
+    tilesets: [
+      { firstgid: 1, name: 'platform', image: '../sprites/platform.svg' },
+    ],
+    layers: [
+      { id: 1, name: 'ground', type: 'tilelayer', width, height, data },
+      {
+        id: 2,
+        name: 'player',
+        type: 'objectgroup',
+        objects: [
+          { id: 1, type: 'spawn', x: 32, y: 256, width: 32, height: 32 },
+        ],
+      },
+      {
+        id: 3,
+        name: 'exit',
+        type: 'objectgroup',
+        objects: [
+          { id: 2, type: 'level_exit', x: 544, y: 224, width: 64, height: 64 },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+};
+
+describe('CommunityLevelService', () => {
+  let service: CommunityLevelService;
+  let mockDataSource: any;
+  let mockLevelRepo: any;
+  let manager: any;
+  let storedLevel: CommunityLevel | null;
+  let storedRating: CommunityLevelRating | null;
+
+  const level = (overrides: Partial<CommunityLevel> = {}): CommunityLevel =>
+    Object.assign(new CommunityLevel(), {
+      id: 'level-1',
+      authorId: 'author-1',
+      author: { username: 'maker' },
+      title: 'Spike Gauntlet',
+      description: 'Mind the spikes',
+      map: createMap(),
+      config: { theme: 'cave', targetScore: 100 },
+      width: 20,
+      height: 10,
+      ratingTotal: 0,
+      ratingCount: 0,
+      averageRating: 0,
+      downloads: 4,
+      createdAt: new Date(1000),
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    storedLevel = null;
+    storedRating = null;
+    manager = {
+      findOne: jest.fn(async (entity: any) =>
+        entity === CommunityLevel ? storedLevel : storedRating,
+      ),
+      create: jest.fn((entity: any, data: any) =>
+        Object.assign(new entity(), data),
+      ),
+      save: jest.fn(async (record: any) => record),
+    };
+    mockDataSource = {
+      transaction: jest.fn(async (cb: any) => cb(manager)),
+    };
+    mockLevelRepo = {
+      create: jest.fn((data: any) => Object.assign(new CommunityLevel(), data)),
+      save: jest.fn(async (record: CommunityLevel) =>
+        Object.assign(record, {
+          id: 'level-1',
+          ratingTotal: 0,
+          ratingCount: 0,
+          averageRating: 0,
+          downloads: 0,
+          createdAt: new Date(2000),
+        }),
+      ),
+      findWithAuthor: jest.fn(),
+      search: jest.fn(),
+      incrementDownloads: jest.fn(),
+    };
+    service = new CommunityLevelService(mockDataSource, mockLevelRepo);
+  });
+
+  describe('validateLevelUpload', () => {
+    it('should accept a well-formed upload', () => {
+      expect(
+        validateLevelUpload({
+          title: 'Spike Gauntlet',
+          description: 'Mind the spikes',
+          config: {
+            playerStart: { x: 48, y: 272 },
+            targetScore: 100,
+            timeLimit: 90,
+            requiredItems: ['key'],
+            backgroundColor: 0x0d0d1a,
+            theme: 'cave',
+          },
+          map: createMap(),
+        }),
+      ).toEqual([]);
+    });
+
+    it('should report every problem with an upload', () => {
+      expect(
+        validateLevelUpload({
+          title: 'Hi',
+          description: 7,
+          config: {
+            key: 'level1',
+            playerStart: { x: 'left' },
+            timeLimit: 0,
+            requiredItems: ['Key!'],
+            backgroundColor: 0x1000000,
+            theme: 'space',
+          },
+          map: [],
+          author: 'someone',
+        }),
+      ).toEqual([
+        'unknown field "author"',
+        'title must be 3 to 48 characters',
+        'description must be at most 500 characters',
+        'unknown field "config.key"',
+        'config.playerStart must have numeric x and y',
+        'config.timeLimit must be a whole number of at least 1',
+        'config.requiredItems must be at most 20 item ids',
+        'config.backgroundColor must be an RGB colour',
+        'config.theme must be one of forest, cave, sky',
+        'map must be an object',
+      ]);
+    });
+
+    it('should accept themes added only to the level manifest', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'levels-'));
+      const file = path.join(dir, 'levels.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          themes: {
+            forest: { name: 'Forest' },
+            lava: { name: 'Lava' },
+          },
+          worlds: [],
+        }),
+      );
+      process.env.LEVEL_MANIFEST_PATH = file;
+      clearLevelCache();
+
+      try {
+        const upload = (theme: string) => ({
+          title: 'Hot Floor',
+          config: { theme },
+          map: createMap(),
+        });
+        expect(validateLevelUpload(upload('lava'))).toEqual([]);
+        expect(validateLevelUpload(upload('cave'))).toEqual([
+          'config.theme must be one of forest, lava',
+        ]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.LEVEL_MANIFEST_PATH;
+        clearLevelCache();
+      }
+    });
+
+    it('should refuse oversized maps', () => {
+      const map = createMap({ padding: 'x'.repeat(MAX_LEVEL_BYTES) });
+
+      expect(validateLevelUpload({ title: 'Big', config: {}, map })).toEqual([
+        `map must be at most ${MAX_LEVEL_BYTES} bytes`,
+      ]);
+    });
+
+    it('should refuse a body that is not an object', () => {
+      expect(validateLevelUpload('level')).toEqual(['body must be an object']);
+    });
+  });
+
+  describe('checkLevelMap', () => {
+    it('should accept a playable map', () => {
+      expect(checkLevelMap(createMap(), {})).toEqual([]);
+    });
+
+    it('should refuse maps over the size limits', () => {
+      expect(
+        checkLevelMap(createMap({ width: MAX_LEVEL_WIDTH + 1 }), {}),
+      ).toContain('map must be at most 400x200 and 40000 tiles');
+    });
+
+    it('should refuse external and unknown tilesets', () => {
+      const map = createMap({
+        tilesets: [
+          { firstgid: 1, source: 'platform-tileset.json' },
+          { firstgid: 2, name: 'lava_tiles', image: 'lava.png' },
+        ],
+      });
+
+      expect(checkLevelMap(map, {})).toEqual([
+        'tileset 0 must be embedded in the map',
+        'tileset "lava_tiles" is not one the game has',
+        'layer "ground" uses tile 1, which no tileset has',
+      ]);
+    });
+
+    it('should refuse tile data of the wrong size', () => {
+      const map = createMap();
+      map.layers[0]!.data = [0, 1];
+
+      expect(checkLevelMap(map, {})).toEqual([
+        'layer "ground" data must be an array of 200 tile ids',
+      ]);
+    });
+
+    it('should need a spawn and an exit', () => {
+      const map = createMap();
+      map.layers = [map.layers[0]!];
+
+      expect(checkLevelMap(map, {})).toEqual([
+        'map must have a player spawn',
+        'map must have an exit',
+      ]);
+    });
+
+    it('should refuse a map whose exit cannot be reached', () => {
+      const map = createMap();
+      // Wall off the exit with a column of tiles up to the ceiling
+      for (let row = 0; row < 9; row++) {
+        map.layers[0]!.data![row * 20 + 12] = 1;
+      }
+
+      expect(checkLevelMap(map, {})).toEqual([
+        'the exit cannot be reached from the player spawn',
+      ]);
+    });
+
+    it('should spawn at the configured start over the spawn object', () => {
+      const map = createMap();
+      // Start boxed in on top of a pillar, away from the spawn object
+      for (let row = 0; row < 9; row++) {
+        map.layers[0]!.data![row * 20 + 8] = row >= 6 ? 1 : 0;
+        map.layers[0]!.data![row * 20 + 6] = 1;
+        map.layers[0]!.data![row * 20 + 10] = 1;
+      }
+      for (const col of [7, 8, 9]) map.layers[0]!.data![col] = 1;
+
+      expect(checkLevelMap(map, {})).toEqual([
+        'the exit cannot be reached from the player spawn',
+      ]);
+      expect(checkLevelMap(map, { playerStart: { x: 272, y: 100 } })).toEqual([
+        'the exit cannot be reached from the player spawn',
+      ]);
+    });
+  });
+
+  describe('uploadLevel', () => {
+    it('should publish a playable level', async () => {
+      mockLevelRepo.findWithAuthor.mockImplementation(async () =>
+        level({ createdAt: new Date(2000), downloads: 0 }),
+      );
+
+      const summary = await service.uploadLevel('author-1', {
+        title: '  Spike Gauntlet ',
+        config: { theme: 'cave', targetScore: 100 },
+        map: createMap(),
+      });
+
+      expect(mockLevelRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          authorId: 'author-1',
+          title: 'Spike Gauntlet',
+          description: '',
+          width: 20,
+          height: 10,
+        }),
+      );
+      expect(summary).toEqual({
+        id: 'level-1',
+        title: 'Spike Gauntlet',
+        description: 'Mind the spikes',
+        authorId: 'author-1',
+        author: 'maker',
+        width: 20,
+        height: 10,
+        theme: 'cave',
+        rating: 0,
+        ratingCount: 0,
+        downloads: 0,
+        createdAt: 2000,
+      });
+    });
+
+    it('should refuse an unplayable level', async () => {
+      const map = createMap();
+      map.layers = [map.layers[0]!];
+
+      const error = await service
+        .uploadLevel('author-1', { title: 'Nowhere', config: {}, map })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CommunityLevelError);
+      expect(error.status).toBe(422);
+      expect(error.details).toContain('map must have an exit');
+      expect(mockLevelRepo.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchLevels', () => {
+    it('should summarise a page of levels', async () => {
+      mockLevelRepo.search.mockResolvedValue([
+        [level({ averageRating: 4.5, ratingCount: 2 })],
+        11,
+      ]);
+
+      const page = await service.searchLevels({
+        query: ' spike ',
+        order: 'top_rated',
+        limit: 10,
+        offset: 10,
+      });
+
+      expect(mockLevelRepo.search).toHaveBeenCalledWith(
+        'spike',
+        'top_rated',
+        10,
+        10,
+      );
+      expect(page.total).toBe(11);
+      expect(page.levels[0]).toMatchObject({
+        id: 'level-1',
+        author: 'maker',
+        rating: 4.5,
+        ratingCount: 2,
+      });
+      expect(page.levels[0]).not.toHaveProperty('map');
+    });
+  });
+
+  describe('downloadLevel', () => {
+    it('should return the map and config and count the download', async () => {
+      mockLevelRepo.findWithAuthor.mockResolvedValue(level());
+
+      const download = await service.downloadLevel('level-1');
+
+      expect(download).toMatchObject({
+        id: 'level-1',
+        downloads: 5,
+        config: { theme: 'cave', targetScore: 100 },
+        map: createMap(),
+      });
+      expect(mockLevelRepo.incrementDownloads).toHaveBeenCalledWith('level-1');
+    });
+
+    it('should answer 404 for an unknown level', async () => {
+      mockLevelRepo.findWithAuthor.mockResolvedValue(null);
+
+      await expect(service.downloadLevel('missing')).rejects.toMatchObject({
+        status: 404,
+      });
+    });
+  });
+
+  describe('rateLevel', () => {
+    it("should add a player's first rating", async () => {
+      storedLevel = level({ ratingTotal: 8, ratingCount: 2, averageRating: 4 });
+
+      const outcome = await service.rateLevel('player-1', 'level-1', 5);
+
+      expect(outcome).toEqual({
+        rating: 13 / 3,
+        ratingCount: 3,
+        yourRating: 5,
+      });
+      expect(manager.create).toHaveBeenCalledWith(CommunityLevelRating, {
+        levelId: 'level-1',
+        playerId: 'player-1',
+        rating: 5,
+      });
+      expect(manager.findOne).toHaveBeenCalledWith(CommunityLevel, {
+        where: { id: 'level-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+    });
+
+    it("should replace a player's earlier rating", async () => {
+      storedLevel = level({ ratingTotal: 8, ratingCount: 2, averageRating: 4 });
+      storedRating = Object.assign(new CommunityLevelRating(), { rating: 5 });
+
+      const outcome = await service.rateLevel('player-1', 'level-1', 1);
+
+      expect(outcome).toEqual({ rating: 2, ratingCount: 2, yourRating: 1 });
+      expect(storedRating.rating).toBe(1);
+    });
+
+    it("should refuse ratings of the player's own level", async () => {
+      storedLevel = level();
+
+      await expect(
+        service.rateLevel('author-1', 'level-1', 5),
+      ).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should answer 404 for an unknown level', async () => {
+      await expect(
+        service.rateLevel('player-1', 'missing', 5),
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  DEFAULT_EXPERIENCE_CURVE,
+  experienceForLevel,
+  getLevelProgress,
+  levelForExperience,
+} from '../../../src/services/ExperienceCurve';
+
+describe('ExperienceCurve', () => {
+  describe('experienceForLevel', () => {
+    it('should need nothing for level 1', () => {
+      expect(experienceForLevel(1)).toBe(0);
+      expect(experienceForLevel(0)).toBe(0);
+    });
+
+    it('should grow with the square of the level by default', () => {
+      expect(experienceForLevel(2)).toBe(100);
+      expect(experienceForLevel(3)).toBe(400);
+      expect(experienceForLevel(10)).toBe(8100);
+    });
+  });
+
+  describe('levelForExperience', () => {
+    it('should reach a level exactly at its threshold', () => {
+      expect(levelForExperience(99)).toBe(1);
+      expect(levelForExperience(100)).toBe(2);
+      expect(levelForExperience(399)).toBe(2);
+      expect(levelForExperience(400)).toBe(3);
+    });
+
+    it('should invert experienceForLevel along a non-integer curve', () => {
+      const curve = { baseXp: 75, exponent: 1.5, maxLevel: 60 };
+      for (let level = 1; level <= curve.maxLevel; level++) {
+        const threshold = experienceForLevel(level, curve);
+        expect(levelForExperience(threshold, curve)).toBe(level);
+        if (level > 1) {
+          expect(levelForExperience(threshold - 1, curve)).toBe(level - 1);
+        }
+      }
+    });
+
+    it('should stop at the max level', () => {
+      expect(levelForExperience(Number.MAX_SAFE_INTEGER)).toBe(
+        DEFAULT_EXPERIENCE_CURVE.maxLevel,
+      );
+    });
+  });
+
+  describe('getLevelProgress', () => {
+    it('should report the current and next thresholds', () => {
+      expect(getLevelProgress(250)).toEqual({
+        level: 2,
+        experience: 250,
+        levelStartXp: 100,
+        nextLevelXp: 400,
+      });
+    });
+
+    it('should have no next threshold at the max level', () => {
+      const curve = { baseXp: 10, exponent: 1, maxLevel: 3 };
+
+      expect(getLevelProgress(500, curve).nextLevelXp).toBeNull();
+    });
+  });
+});
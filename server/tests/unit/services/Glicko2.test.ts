@@ -0,0 +1,87 @@
+import {
+  DEFAULT_GLICKO2_RATING,
+  resultsFromPlacements,
+  updateGlicko2,
+} from '../../../src/services/Glicko2';
+
+describe('Glicko2', () => {
+  describe('updateGlicko2', () => {
+    it("should reproduce Glickman's worked example", () => {
+      const updated = updateGlicko2(
+        { rating: 1500, deviation: 200, volatility: 0.06 },
+        [
+          {
+            opponent: { rating: 1400, deviation: 30, volatility: 0.06 },
+            score: 1,
+          },
+          {
+            opponent: { rating: 1550, deviation: 100, volatility: 0.06 },
+            score: 0,
+          },
+          {
+            opponent: { rating: 1700, deviation: 300, volatility: 0.06 },
+            score: 0,
+          },
+        ],
+      );
+
+      expect(updated.rating).toBeCloseTo(1464.06, 1);
+      expect(updated.deviation).toBeCloseTo(151.52, 1);
+      expect(updated.volatility).toBeCloseTo(0.05999, 4);
+    });
+
+    it('should only widen the deviation of players without games', () => {
+      const player = { rating: 1620, deviation: 80, volatility: 0.06 };
+
+      const updated = updateGlicko2(player, []);
+
+      expect(updated.rating).toBe(1620);
+      expect(updated.deviation).toBeGreaterThan(80);
+      expect(updated.volatility).toBe(0.06);
+    });
+
+    it('should never raise the deviation above the default', () => {
+      const updated = updateGlicko2(DEFAULT_GLICKO2_RATING, []);
+
+      expect(updated.deviation).toBe(DEFAULT_GLICKO2_RATING.deviation);
+    });
+
+    it('should move more for an upset than for an expected win', () => {
+      const weak = { rating: 1300, deviation: 100, volatility: 0.06 };
+      const strong = { rating: 1700, deviation: 100, volatility: 0.06 };
+
+      const upset = updateGlicko2(weak, [{ opponent: strong, score: 1 }]);
+      const expected = updateGlicko2(strong, [{ opponent: weak, score: 1 }]);
+
+      expect(upset.rating - weak.rating).toBeGreaterThan(
+        expected.rating - strong.rating,
+      );
+    });
+  });
+
+  describe('resultsFromPlacements', () => {
+    it('should score each opponent by relative rank', () => {
+      const placements = new Map([
+        ['a', 1],
+        ['b', 2],
+        ['c', 2],
+        ['d', 4],
+      ]);
+      const ratings = new Map([
+        ['a', { ...DEFAULT_GLICKO2_RATING, rating: 1800 }],
+      ]);
+
+      const results = resultsFromPlacements('b', placements, ratings);
+
+      expect(results.map((result) => result.score)).toEqual([0, 0.5, 1]);
+      expect(results[0].opponent.rating).toBe(1800);
+      expect(results[1].opponent).toEqual(DEFAULT_GLICKO2_RATING);
+    });
+
+    it('should return no results for a player who did not take part', () => {
+      expect(
+        resultsFromPlacements('z', new Map([['a', 1]]), new Map()),
+      ).toEqual([]);
+    });
+  });
+});
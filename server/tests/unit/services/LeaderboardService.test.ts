@@ -2,14 +2,114 @@
 process.env.REDIS_URL = 'redis://localhost:6379';
 process.env.NODE_ENV = 'test';
 
+// In-memory stand-in for the Redis commands the service uses
+const mockStore = {
+  strings: new Map<string, string>(),
+  sortedSets: new Map<string, Map<string, number>>(),
+};
+
+const mockSortedSet = (key: string) => {
+  if (!mockStore.sortedSets.has(key)) {
+    mockStore.sortedSets.set(key, new Map());
+  }
+  return mockStore.sortedSets.get(key)!;
+};
+
+// Highest score first; Redis breaks ties in reverse member order
+const mockDescending = (key: string) =>
+  [...(mockStore.sortedSets.get(key) ?? new Map())]
+    .map(([value, score]) => ({ value, score }))
+    .sort((a, b) => b.score - a.score || b.value.localeCompare(a.value));
+
+const mockCommands = {
+  get: async (key: string) => mockStore.strings.get(key) ?? null,
+  set: async (key: string, value: string, options?: { NX?: boolean }) => {
+    if (options?.NX && mockStore.strings.has(key)) return null;
+    mockStore.strings.set(key, value);
+    return 'OK';
+  },
+  del: async (keys: string | string[]) => {
+    for (const key of ([] as string[]).concat(keys)) {
+      mockStore.strings.delete(key);
+      mockStore.sortedSets.delete(key);
+    }
+    return 1;
+  },
+  exists: async (key: string) =>
+    mockStore.sortedSets.has(key) || mockStore.strings.has(key) ? 1 : 0,
+  rename: async (from: string, to: string) => {
+    mockStore.sortedSets.set(to, mockSortedSet(from));
+    mockStore.sortedSets.delete(from);
+    return 'OK';
+  },
+  expire: async () => true,
+  // Only the lock release script is run
+  eval: async (
+    _script: string,
+    { keys, arguments: args }: { keys: string[]; arguments: string[] },
+  ) => {
+    if (mockStore.strings.get(keys[0]!) !== args[0]) return 0;
+    mockStore.strings.delete(keys[0]!);
+    return 1;
+  },
+  zIncrBy: async (key: string, increment: number, member: string) => {
+    const set = mockSortedSet(key);
+    set.set(member, (set.get(member) ?? 0) + increment);
+    return set.get(member);
+  },
+  zAdd: async (key: string, members: { score: number; value: string }[]) => {
+    for (const { score, value } of members)
+      mockSortedSet(key).set(value, score);
+    return members.length;
+  },
+  zScore: async (key: string, member: string) =>
+    mockStore.sortedSets.get(key)?.get(member) ?? null,
+  zRevRank: async (key: string, member: string) => {
+    const index = mockDescending(key).findIndex((m) => m.value === member);
+    return index === -1 ? null : index;
+  },
+  zCount: async (key: string, min: string) => {
+    const above = parseFloat(min.slice(1));
+    return mockDescending(key).filter((m) => m.score > above).length;
+  },
+  zRangeWithScores: async (key: string, start: number, stop: number) => {
+    const members = mockDescending(key);
+    return members.slice(start, stop === -1 ? undefined : stop + 1);
+  },
+};
+
 // Create mock redis client that can be accessed in tests
-const mockRedisClient = {
+const mockRedisClient: Record<string, jest.Mock> = {
   on: jest.fn(),
   connect: jest.fn().mockResolvedValue(undefined),
-  get: jest.fn(),
   setEx: jest.fn().mockResolvedValue('OK'),
-  del: jest.fn().mockResolvedValue(1),
   keys: jest.fn().mockResolvedValue([]),
+  multi: jest.fn(),
+  ...Object.fromEntries(
+    Object.keys(mockCommands).map((name) => [name, jest.fn()]),
+  ),
+};
+
+// Restore the in-memory behaviour, undoing per-test overrides
+const mockResetRedis = () => {
+  mockStore.strings.clear();
+  mockStore.sortedSets.clear();
+  for (const [name, command] of Object.entries(mockCommands)) {
+    mockRedisClient[name].mockReset().mockImplementation(command as any);
+  }
+  mockRedisClient.multi.mockImplementation(() => {
+    const queued: Array<() => Promise<unknown>> = [];
+    const transaction: any = {
+      exec: async () => Promise.all(queued.map((run) => run())),
+    };
+    for (const name of ['zIncrBy', 'expire']) {
+      transaction[name] = (...args: any[]) => {
+        queued.push(() => mockRedisClient[name](...args));
+        return transaction;
+      };
+    }
+    return transaction;
+  });
 };
 
 // Mock redis
@@ -52,21 +152,43 @@ jest.mock(
   }),
 );
 
-import { LeaderboardService } from '../../../src/services/LeaderboardService';
+import {
+  LeaderboardService,
+  boardKey,
+  weekStamp,
+} from '../../../src/services/LeaderboardService';
+import { Season } from '../../../src/persistence/models/Season';
+import { SeasonStanding } from '../../../src/persistence/models/SeasonStanding';
 
 describe('LeaderboardService', () => {
   let leaderboardService: LeaderboardService;
   let mockDataSource: any;
   let mockStatsRepo: any;
   let mockProfileRepo: any;
+  let mockRatingRepo: any;
+  let mockSeasonRepo: any;
+  let mockManager: any;
 
   beforeEach(() => {
     // Reset all mocks
     jest.clearAllMocks();
-
-    mockDataSource = {};
+    mockResetRedis();
+
+    mockManager = {
+      create: jest.fn((entity: any, data: any) =>
+        Object.assign(new entity(), data),
+      ),
+      save: jest.fn(async (rows: any) => {
+        if (rows instanceof Season && !rows.id) rows.id = 2;
+        return rows;
+      }),
+    };
+    mockDataSource = {
+      transaction: jest.fn(async (cb: any) => cb(mockManager)),
+    };
 
     mockStatsRepo = {
+      find: jest.fn().mockResolvedValue([]),
       findTopPlayersByScore: jest.fn(),
       updateScore: jest.fn(),
       findByPlayerId: jest.fn(),
@@ -77,14 +199,29 @@ describe('LeaderboardService', () => {
     };
 
     mockProfileRepo = {
+      find: jest.fn(async ({ where }: any) =>
+        where.id.value.map((id: string) => ({ id, username: `name-${id}` })),
+      ),
       findOne: jest.fn(),
       findTopPlayersByLevel: jest.fn(),
     };
 
+    mockRatingRepo = {
+      findTopByRating: jest.fn(),
+    };
+
+    mockSeasonRepo = {
+      findCurrent: jest.fn().mockResolvedValue(null),
+      findRecent: jest.fn(),
+      findStandings: jest.fn(),
+    };
+
     leaderboardService = new LeaderboardService(
       mockDataSource as any,
       mockStatsRepo as any,
       mockProfileRepo as any,
+      mockRatingRepo as any,
+      mockSeasonRepo as any,
       'redis://localhost:6379',
     );
   });
@@ -118,121 +255,174 @@ describe('LeaderboardService', () => {
     });
   });
 
+  describe('boardKey', () => {
+    it('should name boards by day, ISO week and season', () => {
+      const date = new Date('2026-10-19T23:30:00Z');
+
+      expect(boardKey('daily', date)).toBe(
+        'leaderboard:board:daily:2026-10-19',
+      );
+      expect(boardKey('weekly', date)).toBe(
+        'leaderboard:board:weekly:2026-W43',
+      );
+      expect(boardKey('season', date, 3)).toBe('leaderboard:board:season:3');
+      expect(boardKey('alltime', date)).toBe('leaderboard:board:alltime');
+    });
+
+    it('should put early January days in the previous ISO year', () => {
+      expect(weekStamp(new Date('2027-01-01T00:00:00Z'))).toBe('2026-W53');
+      expect(weekStamp(new Date('2026-01-01T00:00:00Z'))).toBe('2026-W01');
+    });
+  });
+
   describe('getTopPlayersByScore', () => {
-    it('should return cached results when available', async () => {
-      const cachedData = [
-        { playerId: 'player1', username: 'Player1', score: 1000 },
-        { playerId: 'player2', username: 'Player2', score: 900 },
-      ];
-      mockRedisClient.get.mockResolvedValue(JSON.stringify(cachedData));
+    beforeEach(async () => {
+      await mockCommands.zAdd(boardKey('alltime'), [
+        { value: 'p1', score: 300 },
+        { value: 'p2', score: 500 },
+        { value: 'p3', score: 500 },
+        { value: 'p4', score: 100 },
+      ]);
+    });
 
-      const result = await leaderboardService.getTopPlayersByScore(10, true);
+    it('should list the highest scores with usernames', async () => {
+      const result = await leaderboardService.getTopPlayersByScore(
+        'alltime',
+        3,
+      );
 
-      expect(mockRedisClient.get).toHaveBeenCalledWith(
-        'leaderboard:top_score:10',
+      expect(result).toEqual([
+        { rank: 1, playerId: 'p3', username: 'name-p3', score: 500 },
+        { rank: 1, playerId: 'p2', username: 'name-p2', score: 500 },
+        { rank: 3, playerId: 'p1', username: 'name-p1', score: 300 },
+      ]);
+    });
+
+    it('should show "Unknown" when profile is not found', async () => {
+      mockProfileRepo.find.mockResolvedValue([]);
+
+      const result = await leaderboardService.getTopPlayersByScore(
+        'alltime',
+        1,
       );
-      expect(result).toEqual(cachedData);
-      expect(mockStatsRepo.findTopPlayersByScore).not.toHaveBeenCalled();
+
+      expect(result[0].username).toBe('Unknown');
     });
 
-    it('should fetch from database when cache is empty', async () => {
-      mockRedisClient.get.mockResolvedValue(null);
+    it('should return nothing for season boards before any season', async () => {
+      const result = await leaderboardService.getTopPlayersByScore('season');
 
-      mockStatsRepo.findTopPlayersByScore.mockResolvedValue([
-        {
-          playerId: 'player1',
-          score: 1000,
-          kills: 10,
-          deaths: 2,
-          playTimeSeconds: 3600,
-        },
-        {
-          playerId: 'player2',
-          score: 900,
-          kills: 8,
-          deaths: 3,
-          playTimeSeconds: 3000,
-        },
-      ]);
+      expect(result).toEqual([]);
+      expect(mockRedisClient.zRangeWithScores).not.toHaveBeenCalled();
+    });
+  });
 
-      mockProfileRepo.findOne
-        .mockResolvedValueOnce({ id: 'player1', username: 'Player1' })
-        .mockResolvedValueOnce({ id: 'player2', username: 'Player2' });
+  describe('getPlayersAroundPlayer', () => {
+    beforeEach(async () => {
+      await mockCommands.zAdd(
+        boardKey('alltime'),
+        [900, 800, 700, 700, 600, 500].map((score, i) => ({
+          value: `p${i + 1}`,
+          score,
+        })),
+      );
+    });
 
-      const result = await leaderboardService.getTopPlayersByScore(10, true);
+    it('should list the players on either side', async () => {
+      const result = await leaderboardService.getPlayersAroundPlayer(
+        'p5',
+        'alltime',
+        1,
+      );
 
-      expect(result).toHaveLength(2);
-      expect(result[0].username).toBe('Player1');
-      expect(result[1].username).toBe('Player2');
-      expect(mockRedisClient.setEx).toHaveBeenCalled();
+      expect(result.map((entry) => [entry.playerId, entry.rank])).toEqual([
+        ['p3', 3],
+        ['p5', 5],
+        ['p6', 6],
+      ]);
     });
 
-    it('should refetch from database when cache data is corrupted', async () => {
-      // Return invalid JSON to trigger parse error
-      mockRedisClient.get.mockResolvedValue('invalid-json{');
+    it('should give a window starting on a tie the tied rank', async () => {
+      const result = await leaderboardService.getPlayersAroundPlayer(
+        'p5',
+        'alltime',
+        2,
+      );
 
-      mockStatsRepo.findTopPlayersByScore.mockResolvedValue([
-        {
-          playerId: 'player1',
-          score: 1000,
-          kills: 10,
-          deaths: 2,
-          playTimeSeconds: 3600,
-        },
+      // p4 and p3 share third place; p3 sorts above p4 in Redis
+      expect(result.map((entry) => [entry.playerId, entry.rank])).toEqual([
+        ['p4', 3],
+        ['p3', 3],
+        ['p5', 5],
+        ['p6', 6],
       ]);
+    });
 
-      mockProfileRepo.findOne.mockResolvedValue({
-        id: 'player1',
-        username: 'Player1',
-      });
+    it('should return nothing for players not on the board', async () => {
+      await expect(
+        leaderboardService.getPlayersAroundPlayer('nobody'),
+      ).resolves.toEqual([]);
+    });
+  });
 
-      const result = await leaderboardService.getTopPlayersByScore(10, true);
+  describe('getTopPlayersByRating', () => {
+    it('should return cached results when available', async () => {
+      const cachedData = [{ playerId: 'player1', rating: 1800 }];
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(cachedData));
 
-      expect(result).toHaveLength(1);
-      expect(mockStatsRepo.findTopPlayersByScore).toHaveBeenCalled();
+      const result = await leaderboardService.getTopPlayersByRating('coop', 5);
+
+      expect(mockRedisClient.get).toHaveBeenCalledWith(
+        'leaderboard:top_rating:coop:5',
+      );
+      expect(result).toEqual(cachedData);
+      expect(mockRatingRepo.findTopByRating).not.toHaveBeenCalled();
     });
 
-    it('should show "Unknown" when profile is not found', async () => {
+    it('should fetch from database and cache results', async () => {
       mockRedisClient.get.mockResolvedValue(null);
-
-      mockStatsRepo.findTopPlayersByScore.mockResolvedValue([
+      mockRatingRepo.findTopByRating.mockResolvedValue([
         {
-          playerId: 'missingPlayer',
-          score: 500,
-          kills: 5,
-          deaths: 5,
-          playTimeSeconds: 1800,
+          playerId: 'player1',
+          gameMode: 'coop',
+          rating: 1812.4,
+          deviation: 61.7,
+          gamesPlayed: 12,
+          wins: 9,
+          losses: 3,
+          profile: { username: 'Player1' },
         },
       ]);
 
-      mockProfileRepo.findOne.mockResolvedValue(null); // No profile
-
-      const result = await leaderboardService.getTopPlayersByScore(10, true);
-
-      expect(result).toHaveLength(1);
-      expect(result[0].username).toBe('Unknown');
-    });
+      const result = await leaderboardService.getTopPlayersByRating('coop', 5);
 
-    it('should bypass cache when useCache is false', async () => {
-      mockStatsRepo.findTopPlayersByScore.mockResolvedValue([
+      expect(mockRatingRepo.findTopByRating).toHaveBeenCalledWith('coop', 5);
+      expect(result).toEqual([
         {
           playerId: 'player1',
-          score: 1000,
-          kills: 10,
-          deaths: 2,
-          playTimeSeconds: 3600,
+          username: 'Player1',
+          gameMode: 'coop',
+          rating: 1812,
+          deviation: 62,
+          gamesPlayed: 12,
+          wins: 9,
+          losses: 3,
         },
       ]);
+      expect(mockRedisClient.setEx).toHaveBeenCalledWith(
+        'leaderboard:top_rating:coop:5',
+        300,
+        JSON.stringify(result),
+      );
+    });
 
-      mockProfileRepo.findOne.mockResolvedValue({
-        id: 'player1',
-        username: 'Player1',
-      });
+    it('should skip the cache when asked to', async () => {
+      mockRatingRepo.findTopByRating.mockResolvedValue([]);
 
-      const result = await leaderboardService.getTopPlayersByScore(10, false);
+      await leaderboardService.getTopPlayersByRating('coop', 10, false);
 
       expect(mockRedisClient.get).not.toHaveBeenCalled();
-      expect(mockStatsRepo.findTopPlayersByScore).toHaveBeenCalled();
+      expect(mockRedisClient.setEx).not.toHaveBeenCalled();
     });
   });
 
@@ -300,65 +490,228 @@ describe('LeaderboardService', () => {
   });
 
   describe('updatePlayerScore', () => {
-    it('should update player score and invalidate cache', async () => {
-      mockStatsRepo.updateScore.mockResolvedValue(true);
+    it('should add the score to every current board', async () => {
+      mockSeasonRepo.findCurrent.mockResolvedValue({ id: 7 });
+      const now = new Date();
 
       await leaderboardService.updatePlayerScore('player1', 100);
+      await leaderboardService.updatePlayerScore('player1', -30);
 
       expect(mockStatsRepo.updateScore).toHaveBeenCalledWith('player1', 100);
-      expect(mockRedisClient.del).toHaveBeenCalled();
+      for (const key of [
+        boardKey('alltime'),
+        boardKey('daily', now),
+        boardKey('weekly', now),
+        boardKey('season', now, 7),
+      ]) {
+        await expect(mockCommands.zScore(key, 'player1')).resolves.toBe(70);
+      }
+      expect(mockRedisClient.expire).toHaveBeenCalledWith(
+        boardKey('daily', now),
+        2 * 24 * 60 * 60,
+      );
+      // The current season is looked up once, then read from Redis
+      expect(mockSeasonRepo.findCurrent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the season board when no season is running', async () => {
+      await leaderboardService.updatePlayerScore('player1', 100);
+
+      expect(mockStore.sortedSets.has(boardKey('alltime'))).toBe(true);
+      expect(
+        [...mockStore.sortedSets.keys()].some((key) => key.includes('season')),
+      ).toBe(false);
     });
   });
 
   describe('getPlayerRankByScore', () => {
-    it('should return player rank when player exists', async () => {
-      mockStatsRepo.findByPlayerId.mockResolvedValue({
-        playerId: 'player1',
-        score: 1000,
+    it('should return player rank and score when player exists', async () => {
+      await mockCommands.zAdd(boardKey('alltime'), [
+        { value: 'player1', score: 1000 },
+        { value: 'player2', score: 1000 },
+        { value: 'player3', score: 2000 },
+      ]);
+
+      const rank = await leaderboardService.getPlayerRankByScore('player1');
+
+      expect(rank).toEqual({ rank: 2, score: 1000 });
+    });
+
+    it('should return null when player not found', async () => {
+      const rank = await leaderboardService.getPlayerRankByScore('unknown');
+
+      expect(rank).toBeNull();
+    });
+  });
+
+  describe('rolloverSeason', () => {
+    const now = new Date('2026-11-01T00:00:00Z');
+    let current: Season;
+
+    beforeEach(async () => {
+      current = Object.assign(new Season(), {
+        id: 1,
+        startsAt: new Date('2026-10-04T00:00:00Z'),
+        endsAt: new Date('2026-11-01T00:00:00Z'),
+        archivedAt: null,
       });
-      mockStatsRepo.createQueryBuilder.mockReturnValue({
-        where: jest.fn().mockReturnThis(),
-        getCount: jest.fn().mockResolvedValue(5),
+      mockSeasonRepo.findCurrent.mockResolvedValue(current);
+      await mockCommands.zAdd(boardKey('season', now, 1), [
+        { value: 'p1', score: 50 },
+        { value: 'p2', score: 80 },
+      ]);
+    });
+
+    it('should leave a season with time left alone', async () => {
+      const result = await leaderboardService.rolloverSeason(
+        new Date('2026-10-20T00:00:00Z'),
+      );
+
+      expect(result).toBeNull();
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+      // The lock is released again
+      expect(mockStore.strings.size).toBe(0);
+    });
+
+    it('should archive the final standings and start the next season', async () => {
+      const next = await leaderboardService.rolloverSeason(now);
+
+      const standings = mockManager.save.mock.calls[0][0];
+      expect(standings).toEqual([
+        expect.objectContaining({ seasonId: 1, playerId: 'p2', rank: 1 }),
+        expect.objectContaining({ seasonId: 1, playerId: 'p1', rank: 2 }),
+      ]);
+      expect(standings[0]).toBeInstanceOf(SeasonStanding);
+      expect(current.archivedAt).toBe(now);
+      expect(next).toMatchObject({
+        id: 2,
+        startsAt: now,
+        endsAt: new Date('2026-11-29T00:00:00Z'),
       });
+      expect(mockStore.sortedSets.has(boardKey('season', now, 1))).toBe(false);
+      expect(mockStore.strings.get('leaderboard:season:current')).toBe('2');
+    });
 
-      const rank = await leaderboardService.getPlayerRankByScore('player1');
+    it('should start the first season when there is none', async () => {
+      mockSeasonRepo.findCurrent.mockResolvedValue(null);
+
+      const next = await leaderboardService.rolloverSeason(now);
 
-      expect(rank).toBe(6); // 5 players with higher score + 1
+      expect(next?.id).toBe(2);
+      expect(mockManager.save).toHaveBeenCalledTimes(1);
     });
 
-    it('should return -1 when player not found', async () => {
-      mockStatsRepo.findByPlayerId.mockResolvedValue(null);
+    it('should do nothing while another server holds the lock', async () => {
+      mockStore.strings.set('leaderboard:season:rollover_lock', '1');
 
-      const rank = await leaderboardService.getPlayerRankByScore('unknown');
+      const result = await leaderboardService.rolloverSeason(now, true);
+
+      expect(result).toBeNull();
+      expect(mockSeasonRepo.findCurrent).not.toHaveBeenCalled();
+      expect(mockStore.strings.has('leaderboard:season:rollover_lock')).toBe(
+        true,
+      );
+    });
+
+    it('should not release a lock another server took over', async () => {
+      // The lock expired mid-rollover and another server holds it now
+      mockSeasonRepo.findCurrent.mockImplementation(async () => {
+        mockStore.strings.set('leaderboard:season:rollover_lock', 'other');
+        return current;
+      });
+
+      await leaderboardService.rolloverSeason(now);
+
+      expect(mockStore.strings.get('leaderboard:season:rollover_lock')).toBe(
+        'other',
+      );
+    });
+
+    it('should hold the lock with a token of its own', async () => {
+      await leaderboardService.rolloverSeason(now);
+
+      const token = mockRedisClient.set.mock.calls.find(
+        ([key]) => key === 'leaderboard:season:rollover_lock',
+      )![1];
+      expect(token).not.toBe('1');
+      expect(mockRedisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('redis.call("del", KEYS[1])'),
+        { keys: ['leaderboard:season:rollover_lock'], arguments: [token] },
+      );
+    });
+  });
 
-      expect(rank).toBe(-1);
+  describe('getSeasonStandings', () => {
+    it('should list archived standings with usernames', async () => {
+      mockSeasonRepo.findStandings.mockResolvedValue([
+        {
+          seasonId: 1,
+          playerId: 'p2',
+          rank: 1,
+          score: 80,
+          profile: { username: 'Two' },
+        },
+      ]);
+
+      const result = await leaderboardService.getSeasonStandings(1, 10, 0);
+
+      expect(mockSeasonRepo.findStandings).toHaveBeenCalledWith(1, 10, 0);
+      expect(result).toEqual([
+        { rank: 1, playerId: 'p2', username: 'Two', score: 80 },
+      ]);
     });
   });
 
   describe('refreshAllLeaderboards', () => {
-    it('should clear all leaderboard caches', async () => {
+    it('should clear cached rankings but keep the score boards', async () => {
       mockRedisClient.keys.mockResolvedValue([
-        'leaderboard:top_score:10',
         'leaderboard:top_level:10',
+        'leaderboard:top_rating:coop:10',
       ]);
 
       await leaderboardService.refreshAllLeaderboards();
 
-      expect(mockRedisClient.keys).toHaveBeenCalledWith('leaderboard:*');
+      expect(mockRedisClient.keys).toHaveBeenCalledWith('leaderboard:top_*');
       // Redis del accepts an array of keys and deletes them in a single call
-      expect(mockRedisClient.del).toHaveBeenCalledTimes(1);
       expect(mockRedisClient.del).toHaveBeenCalledWith([
-        'leaderboard:top_score:10',
         'leaderboard:top_level:10',
+        'leaderboard:top_rating:coop:10',
       ]);
     });
 
-    it('should handle empty cache', async () => {
-      mockRedisClient.keys.mockResolvedValue([]);
+    it('should rebuild the all-time board from the database', async () => {
+      await mockCommands.zAdd(boardKey('alltime'), [
+        { value: 'stale', score: 1 },
+      ]);
+      mockStatsRepo.find.mockResolvedValueOnce([
+        { playerId: 'p1', score: 40 },
+        { playerId: 'p2', score: 60 },
+      ]);
 
-      await expect(
-        leaderboardService.refreshAllLeaderboards(),
-      ).resolves.not.toThrow();
+      await leaderboardService.refreshAllLeaderboards();
+
+      expect(
+        await mockCommands.zRangeWithScores(boardKey('alltime'), 0, -1),
+      ).toEqual([
+        { value: 'p2', score: 60 },
+        { value: 'p1', score: 40 },
+      ]);
+    });
+  });
+
+  describe('ensureAllTimeBoard', () => {
+    it('should leave an existing board alone', async () => {
+      await mockCommands.zAdd(boardKey('alltime'), [{ value: 'p1', score: 1 }]);
+
+      await leaderboardService.ensureAllTimeBoard();
+
+      expect(mockStatsRepo.find).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild a missing board', async () => {
+      await leaderboardService.ensureAllTimeBoard();
+
+      expect(mockStatsRepo.find).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,392 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  LevelRecordError,
+  LevelRecordService,
+  checkPlausibility,
+  loadLevelLimits,
+  validateLevelResult,
+} from '../../../src/services/LevelRecordService';
+import { LevelRecord } from '../../../src/persistence/models/LevelRecord';
+import { clearLevelCache } from '../../../src/simulation/levels';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('LevelRecordService', () => {
+  let service: LevelRecordService;
+  let mockDataSource: any;
+  let mockRecordRepo: any;
+  let manager: any;
+  let stored: LevelRecord | null;
+
+  const limits = {
+    1: {
+      minTimeMs: 10000,
+      maxTimeMs: 120000,
+      maxScore: 1000,
+      maxScorePerSecond: 50,
+    },
+  };
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  beforeEach(() => {
+    stored = null;
+    manager = {
+      findOne: jest.fn(async () => stored),
+      create: jest.fn((entity: any, data: any) =>
+        Object.assign(new entity(), data),
+      ),
+      save: jest.fn(async (record: LevelRecord) => {
+        stored = record;
+        return record;
+      }),
+    };
+    mockDataSource = {
+      transaction: jest.fn(async (cb: any) => cb(manager)),
+    };
+    mockRecordRepo = {
+      findByPlayerAndLevel: jest.fn(),
+      findFastest: jest.fn(),
+      findHighestScoring: jest.fn(),
+      countFasterThan: jest.fn().mockResolvedValue(2),
+      countHigherThan: jest.fn().mockResolvedValue(0),
+    };
+    service = new LevelRecordService(mockDataSource, mockRecordRepo, limits);
+  });
+
+  describe('loadLevelLimits', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'levels-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+      delete process.env.LEVEL_MANIFEST_PATH;
+      clearLevelCache();
+    });
+
+    it("should read the limits of the client's levels from the manifest", () => {
+      expect(loadLevelLimits()).toEqual({
+        1: {
+          minTimeMs: 15000,
+          maxTimeMs: 60 * 60 * 1000,
+          maxScore: 5000,
+          maxScorePerSecond: 100,
+        },
+        2: {
+          minTimeMs: 20000,
+          maxTimeMs: 180 * 1000,
+          maxScore: 8000,
+          maxScorePerSecond: 100,
+        },
+        3: {
+          minTimeMs: 25000,
+          maxTimeMs: 240 * 1000,
+          maxScore: 10000,
+          maxScorePerSecond: 100,
+        },
+      });
+    });
+
+    it('should accept runs of a level added only to the manifest', async () => {
+      const file = path.join(dir, 'levels.json');
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          worlds: [
+            {
+              id: 'bonus',
+              name: 'Bonus',
+              levels: [
+                {
+                  number: 4,
+                  key: 'level4',
+                  name: 'Bonus Stage',
+                  tilemap: 'assets/tilemaps/level4.json',
+                  theme: 'forest',
+                  timeLimit: 90,
+                },
+              ],
+            },
+          ],
+        }),
+      );
+      process.env.LEVEL_MANIFEST_PATH = file;
+      clearLevelCache();
+      service = new LevelRecordService(mockDataSource, mockRecordRepo);
+
+      const outcome = await service.submitResult(
+        'player1',
+        4,
+        { timeMs: 30000, score: 400 },
+        now,
+      );
+
+      expect(outcome.standing.levelNumber).toBe(4);
+      await expect(
+        service.submitResult('player1', 1, { timeMs: 30000, score: 400 }, now),
+      ).rejects.toMatchObject({ status: 404 });
+      await expect(
+        service.submitResult('player1', 4, { timeMs: 95000, score: 0 }, now),
+      ).rejects.toMatchObject({ status: 422 });
+    });
+  });
+
+  describe('validateLevelResult', () => {
+    it('should accept a complete result', () => {
+      expect(
+        validateLevelResult({
+          timeMs: 45000,
+          score: 300,
+          metadata: { coins: 12, timeAttack: true, client: '1.2.0' },
+        }),
+      ).toEqual([]);
+    });
+
+    it('should report every problem with a result', () => {
+      const errors = validateLevelResult({
+        timeMs: 4.5,
+        score: -1,
+        metadata: { 'bad key': 1, nested: { a: 1 } },
+        replay: 'x',
+      });
+
+      expect(errors).toEqual([
+        'unknown field "replay"',
+        'timeMs must be a whole number of at least 1',
+        'score must be a whole number of at least 0',
+        'metadata.bad key must be a boolean, number or short string',
+        'metadata.nested must be a boolean, number or short string',
+      ]);
+    });
+  });
+
+  describe('checkPlausibility', () => {
+    it('should accept a run within the limits', () => {
+      expect(
+        checkPlausibility({ timeMs: 20000, score: 900 }, limits[1]),
+      ).toEqual([]);
+    });
+
+    it('should refuse runs that are too fast or score too much', () => {
+      expect(
+        checkPlausibility({ timeMs: 5000, score: 2000 }, limits[1]),
+      ).toHaveLength(3);
+    });
+
+    it('should refuse runs slower than the time limit', () => {
+      expect(
+        checkPlausibility({ timeMs: 130000, score: 0 }, limits[1]),
+      ).toEqual(["timeMs is above the level's limit of 120000"]);
+    });
+  });
+
+  describe('submitResult', () => {
+    it('should create a record for a first completion', async () => {
+      const outcome = await service.submitResult(
+        'player1',
+        1,
+        { timeMs: 30000, score: 400, metadata: { coins: 3 } },
+        now,
+      );
+
+      expect(stored).toMatchObject({
+        playerId: 'player1',
+        levelNumber: 1,
+        bestTimeMs: 30000,
+        highScore: 400,
+        runs: 1,
+        lastRunAt: now,
+        lastRunMetadata: { coins: 3 },
+      });
+      expect(outcome).toEqual({
+        standing: {
+          levelNumber: 1,
+          bestTimeMs: 30000,
+          timeRank: 3,
+          highScore: 400,
+          scoreRank: 1,
+          runs: 1,
+        },
+        newBestTime: true,
+        newHighScore: true,
+      });
+    });
+
+    it('should keep the best time and score from different runs', async () => {
+      const earlier = new Date(now.getTime() - 10 * 60 * 1000);
+      await service.submitResult(
+        'player1',
+        1,
+        { timeMs: 30000, score: 400 },
+        earlier,
+      );
+
+      const outcome = await service.submitResult(
+        'player1',
+        1,
+        { timeMs: 40000, score: 600 },
+        now,
+      );
+
+      expect(outcome.newBestTime).toBe(false);
+      expect(outcome.newHighScore).toBe(true);
+      expect(stored).toMatchObject({
+        bestTimeMs: 30000,
+        bestTimeAt: earlier,
+        highScore: 600,
+        highScoreAt: now,
+        runs: 2,
+      });
+    });
+
+    it('should lock the record while updating it', async () => {
+      await service.submitResult(
+        'player1',
+        1,
+        { timeMs: 30000, score: 1 },
+        now,
+      );
+
+      expect(manager.findOne).toHaveBeenCalledWith(LevelRecord, {
+        where: { playerId: 'player1', levelNumber: 1 },
+        lock: { mode: 'pessimistic_write' },
+      });
+    });
+
+    it('should refuse a run finished sooner than it took to play', async () => {
+      await service.submitResult(
+        'player1',
+        1,
+        { timeMs: 30000, score: 400 },
+        now,
+      );
+
+      await expect(
+        service.submitResult(
+          'player1',
+          1,
+          { timeMs: 30000, score: 400 },
+          new Date(now.getTime() + 5000),
+        ),
+      ).rejects.toMatchObject({
+        status: 422,
+        details: ['run finished too soon after the previous one'],
+      });
+      expect(stored?.runs).toBe(1);
+    });
+
+    it('should refuse implausible runs without touching the database', async () => {
+      await expect(
+        service.submitResult('player1', 1, { timeMs: 1000, score: 0 }, now),
+      ).rejects.toBeInstanceOf(LevelRecordError);
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should answer 404 for unknown levels', async () => {
+      await expect(
+        service.submitResult('player1', 99, { timeMs: 30000, score: 0 }, now),
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should rank the fastest times with ties sharing a rank', async () => {
+      mockRecordRepo.findFastest.mockResolvedValue([
+        {
+          playerId: 'a',
+          bestTimeMs: 20000,
+          highScore: 10,
+          profile: { username: 'A' },
+        },
+        {
+          playerId: 'b',
+          bestTimeMs: 20000,
+          highScore: 50,
+          profile: { username: 'B' },
+        },
+        { playerId: 'c', bestTimeMs: 25000, highScore: 90, profile: null },
+      ]);
+
+      const entries = await service.getLeaderboard(1, 'time', 3);
+
+      expect(mockRecordRepo.findFastest).toHaveBeenCalledWith(1, 3);
+      expect(entries).toEqual([
+        { rank: 1, playerId: 'a', username: 'A', timeMs: 20000, score: 10 },
+        { rank: 1, playerId: 'b', username: 'B', timeMs: 20000, score: 50 },
+        {
+          rank: 3,
+          playerId: 'c',
+          username: 'Unknown',
+          timeMs: 25000,
+          score: 90,
+        },
+      ]);
+    });
+
+    it('should rank by score on the score board', async () => {
+      mockRecordRepo.findHighestScoring.mockResolvedValue([
+        { playerId: 'c', bestTimeMs: 25000, highScore: 90 },
+        { playerId: 'b', bestTimeMs: 20000, highScore: 50 },
+      ]);
+
+      const entries = await service.getLeaderboard(1, 'score');
+
+      expect(entries.map((entry) => entry.rank)).toEqual([1, 2]);
+    });
+  });
+
+  describe('getStanding', () => {
+    it('should return null before the level is completed', async () => {
+      mockRecordRepo.findByPlayerAndLevel.mockResolvedValue(null);
+
+      await expect(service.getStanding('player1', 1)).resolves.toBeNull();
+    });
+  });
+
+  describe('hasRunSince', () => {
+    const since = new Date('2026-10-19T11:00:00Z');
+
+    it('should accept a run submitted after the given time', async () => {
+      mockRecordRepo.findByPlayerAndLevel.mockResolvedValue({
+        lastRunAt: now,
+      });
+
+      await expect(service.hasRunSince('player1', 1, since)).resolves.toBe(
+        true,
+      );
+      expect(mockRecordRepo.findByPlayerAndLevel).toHaveBeenCalledWith(
+        'player1',
+        1,
+      );
+    });
+
+    it('should refuse older runs, missing runs and unknown levels', async () => {
+      mockRecordRepo.findByPlayerAndLevel.mockResolvedValueOnce({
+        lastRunAt: new Date('2026-10-19T10:00:00Z'),
+      });
+      mockRecordRepo.findByPlayerAndLevel.mockResolvedValueOnce(null);
+
+      await expect(service.hasRunSince('player1', 1, since)).resolves.toBe(
+        false,
+      );
+      await expect(service.hasRunSince('player1', 1, since)).resolves.toBe(
+        false,
+      );
+      await expect(service.hasRunSince('player1', 9, since)).resolves.toBe(
+        false,
+      );
+      expect(mockRecordRepo.findByPlayerAndLevel).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -5,6 +5,8 @@ import { PlayerStatsRepository } from '../../../src/persistence/repositories/Pla
 import { PlayerUnlockRepository } from '../../../src/persistence/repositories/PlayerUnlockRepository';
 import { AchievementProgressRepository } from '../../../src/persistence/repositories/AchievementProgressRepository';
 import { UnlockableRepository } from '../../../src/persistence/repositories/UnlockableRepository';
+import { AchievementProgress } from '../../../src/persistence/models/AchievementProgress';
+import { PlayerProfile } from '../../../src/persistence/models/PlayerProfile';
 
 // Mock the logger to avoid side effects
 jest.mock('../../../src/utils/logger', () => ({
@@ -46,6 +48,7 @@ describe('ProgressionService', () => {
     };
     mockUnlockableRepo = {
       findUnlockablesByRequiredLevel: jest.fn(),
+      findUnlockablesForLevels: jest.fn(),
       manager: {
         findOne: jest.fn(),
       },
@@ -243,7 +246,7 @@ describe('ProgressionService', () => {
     it('should level up when experience threshold crossed', async () => {
       const mockProfile = { id: 'player1', level: 1, experience: 500 };
       mockProfileRepo.findOne.mockResolvedValue(mockProfile);
-      mockUnlockableRepo.findUnlockablesByRequiredLevel.mockResolvedValue([
+      mockUnlockableRepo.findUnlockablesForLevels.mockResolvedValue([
         { id: 'unlock1' },
         { id: 'unlock2' },
       ]);
@@ -253,6 +256,11 @@ describe('ProgressionService', () => {
       expect(result).toBe(true);
       expect(mockProfile.level).toBe(3); // sqrt(500/100) = sqrt(5) ≈ 2.236, floor = 2, +1 = 3
       expect(mockProfileRepo.save).toHaveBeenCalledWith(mockProfile);
+      // Levels 2 and 3 were both gained
+      expect(mockUnlockableRepo.findUnlockablesForLevels).toHaveBeenCalledWith(
+        2,
+        3,
+      );
       expect(mockUnlockRepo.unlock).toHaveBeenCalledTimes(2);
     });
 
@@ -266,6 +274,121 @@ describe('ProgressionService', () => {
     });
   });
 
+  describe('awardExperience', () => {
+    let manager: any;
+    let profile: any;
+
+    beforeEach(() => {
+      profile = { id: 'player1', level: 1, experience: 0 };
+      manager = {
+        findOne: jest.fn().mockResolvedValue(profile),
+        find: jest.fn().mockResolvedValue([]),
+        create: jest.fn((_entity: any, data: any) => data),
+        save: jest.fn(async (row: any) => row),
+      };
+      mockDataSource.transaction.mockImplementation(async (cb: any) =>
+        cb(manager),
+      );
+    });
+
+    it('should throw error if player profile not found', async () => {
+      manager.findOne.mockResolvedValue(null);
+
+      await expect(service.awardExperience('player1', 50)).rejects.toThrow(
+        'Player profile player1 not found',
+      );
+    });
+
+    it('should add experience without levelling below the next threshold', async () => {
+      const result = await service.awardExperience('player1', 99);
+
+      expect(result).toMatchObject({
+        experience: 99,
+        level: 1,
+        previousLevel: 1,
+        unlocked: [],
+      });
+      expect(manager.find).not.toHaveBeenCalled();
+      expect(manager.save).toHaveBeenCalledWith(profile);
+    });
+
+    it('should grant the unlockables of every level gained', async () => {
+      const unlockables = [
+        { id: 'u2', requiredLevel: 2 },
+        { id: 'u3', requiredLevel: 3 },
+      ];
+      manager.find
+        .mockResolvedValueOnce(unlockables)
+        .mockResolvedValueOnce([{ unlockableId: 'u2' }]);
+
+      const result = await service.awardExperience('player1', 450);
+
+      expect(result.level).toBe(3);
+      expect(profile.level).toBe(3);
+      // u2 was already owned
+      expect(result.unlocked).toEqual([unlockables[1]]);
+      expect(manager.create).toHaveBeenCalledTimes(1);
+      expect(manager.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ playerId: 'player1', unlockableId: 'u3' }),
+      );
+    });
+
+    it('should never lower a level', async () => {
+      profile.level = 5;
+
+      const result = await service.awardExperience('player1', 10);
+
+      expect(result.level).toBe(5);
+    });
+
+    it('should follow a configured curve', async () => {
+      service = new ProgressionService(
+        mockDataSource,
+        mockProfileRepo,
+        mockStatsRepo,
+        mockUnlockRepo,
+        mockAchievementProgressRepo,
+        mockUnlockableRepo,
+        { curve: { baseXp: 10, exponent: 1, maxLevel: 5 } },
+      );
+
+      const result = await service.awardExperience('player1', 1000);
+
+      expect(result.level).toBe(5);
+    });
+
+    it('should award more experience for a win', async () => {
+      const lost = await service.awardMatchExperience('player1', false);
+      const won = await service.awardMatchExperience('player1', true);
+
+      expect(lost.experience).toBe(50);
+      expect(won.experience - lost.experience).toBe(150);
+    });
+  });
+
+  describe('toLevelUpEvent', () => {
+    it('should describe the new level and what it unlocked', () => {
+      const event = service.toLevelUpEvent({
+        playerId: 'player1',
+        experience: 450,
+        level: 3,
+        previousLevel: 1,
+        unlocked: [
+          { id: 'u3', code: 'skin_red', name: 'Red', type: 'skin' } as any,
+        ],
+      });
+
+      expect(event).toEqual({
+        level: 3,
+        previousLevel: 1,
+        experience: 450,
+        nextLevelXp: 900,
+        unlocked: [{ id: 'u3', code: 'skin_red', name: 'Red', type: 'skin' }],
+      });
+    });
+  });
+
   describe('incrementAchievementProgress', () => {
     it('should do nothing if achievement not found', async () => {
       mockUnlockableRepo.manager.findOne.mockResolvedValue(null);
@@ -287,6 +410,147 @@ describe('ProgressionService', () => {
     });
   });
 
+  describe('advanceAchievements', () => {
+    let mockManager: any;
+    const killAchievement = {
+      id: 'ach-1',
+      code: 'first_blood',
+      requiredValue: 3,
+      rewardCoins: 50,
+      rewardUnlockableId: 'skin-1',
+    } as any;
+
+    // Answers lookups by entity name; the profile always exists
+    const findOneReturning = (rows: Record<string, any> = {}) =>
+      jest.fn(async (entity: any) =>
+        entity.name === 'PlayerProfile'
+          ? { id: 'player1' }
+          : (rows[entity.name] ?? null),
+      );
+
+    beforeEach(() => {
+      mockManager = {
+        findOne: findOneReturning(),
+        create: jest.fn((_entity: any, data: any) => ({ ...data })),
+        save: jest.fn(),
+        increment: jest.fn(),
+      };
+      mockDataSource.transaction.mockImplementation(async (cb: any) =>
+        cb(mockManager),
+      );
+    });
+
+    it('should start progress for a new achievement', async () => {
+      const completed = await service.advanceAchievements(
+        'player1',
+        [killAchievement],
+        1,
+      );
+
+      expect(completed).toEqual([]);
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          playerId: 'player1',
+          achievementId: 'ach-1',
+          progress: 1,
+          completed: false,
+        }),
+      );
+      expect(mockManager.increment).not.toHaveBeenCalled();
+    });
+
+    it('should complete the achievement and grant its rewards', async () => {
+      const progress = { progress: 2, completed: false, completedAt: null };
+      mockManager.findOne = findOneReturning({ AchievementProgress: progress });
+
+      const completed = await service.advanceAchievements(
+        'player1',
+        [killAchievement],
+        1,
+      );
+
+      expect(completed).toEqual([killAchievement]);
+      expect(progress.completed).toBe(true);
+      expect(progress.completedAt).toBeInstanceOf(Date);
+      expect(mockManager.increment).toHaveBeenCalledWith(
+        expect.anything(),
+        { id: 'player1' },
+        'coins',
+        50,
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          playerId: 'player1',
+          unlockableId: 'skin-1',
+        }),
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(progress);
+    });
+
+    it('should not grant an unlockable the player already owns', async () => {
+      const progress = { progress: 2, completed: false };
+      mockManager.findOne = findOneReturning({
+        AchievementProgress: progress,
+        PlayerUnlock: { unlockableId: 'skin-1' },
+      });
+
+      await service.advanceAchievements('player1', [killAchievement], 1);
+
+      expect(mockManager.save).toHaveBeenCalledTimes(1);
+      expect(mockManager.save).toHaveBeenCalledWith(progress);
+    });
+
+    it('should leave completed achievements alone', async () => {
+      mockManager.findOne = findOneReturning({
+        AchievementProgress: { progress: 3, completed: true },
+      });
+
+      const completed = await service.advanceAchievements(
+        'player1',
+        [killAchievement],
+        5,
+      );
+
+      expect(completed).toEqual([]);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep the best value instead of adding when asked', async () => {
+      const progress = { progress: 8, completed: false };
+      mockManager.findOne = findOneReturning({ AchievementProgress: progress });
+      const combo = { ...killAchievement, requiredValue: 10 };
+
+      await service.advanceAchievements('player1', [combo], 5, true);
+      expect(progress.progress).toBe(8);
+
+      await service.advanceAchievements('player1', [combo], 10, true);
+      expect(progress.progress).toBe(10);
+      expect(progress.completed).toBe(true);
+    });
+
+    it('should lock the profile and progress rows for the update', async () => {
+      await service.advanceAchievements('player1', [killAchievement], 1);
+
+      expect(mockManager.findOne).toHaveBeenCalledWith(PlayerProfile, {
+        where: { id: 'player1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockManager.findOne).toHaveBeenCalledWith(AchievementProgress, {
+        where: { playerId: 'player1', achievementId: 'ach-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+    });
+
+    it('should fail without a profile', async () => {
+      mockManager.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.advanceAchievements('player1', [killAchievement], 1),
+      ).rejects.toThrow('Player profile player1 not found');
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getPlayerSummary', () => {
     it('should return summary data', async () => {
       const mockProfile = { id: 'player1', level: 5 };
@@ -0,0 +1,151 @@
+import { RatingService } from '../../../src/services/RatingService';
+import { DEFAULT_GLICKO2_RATING } from '../../../src/services/Glicko2';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+  },
+}));
+
+describe('RatingService', () => {
+  let service: RatingService;
+  let mockDataSource: any;
+  let mockManager: any;
+  let mockRatingRepo: any;
+
+  beforeEach(() => {
+    mockManager = { save: jest.fn() };
+    mockDataSource = {
+      transaction: jest.fn().mockImplementation(async (cb) => cb(mockManager)),
+    };
+    mockRatingRepo = {
+      findByPlayerAndMode: jest.fn(),
+      findByPlayersAndMode: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockImplementation((data) => ({
+        rating: 1500,
+        deviation: 350,
+        volatility: 0.06,
+        ...data,
+      })),
+    };
+
+    service = new RatingService(mockDataSource, mockRatingRepo);
+  });
+
+  describe('getRating', () => {
+    it('should return the stored rating', async () => {
+      mockRatingRepo.findByPlayerAndMode.mockResolvedValue({
+        rating: 1710,
+        deviation: 90,
+        volatility: 0.059,
+      });
+
+      const rating = await service.getRating('player1', 'coop');
+
+      expect(mockRatingRepo.findByPlayerAndMode).toHaveBeenCalledWith(
+        'player1',
+        'coop',
+      );
+      expect(rating).toEqual({
+        rating: 1710,
+        deviation: 90,
+        volatility: 0.059,
+      });
+    });
+
+    it('should return the default rating for unrated players', async () => {
+      mockRatingRepo.findByPlayerAndMode.mockResolvedValue(null);
+
+      const rating = await service.getRating('player1', 'coop');
+
+      expect(rating).toEqual(DEFAULT_GLICKO2_RATING);
+    });
+  });
+
+  describe('recordMatchResult', () => {
+    it('should rate every registered player and save them together', async () => {
+      mockRatingRepo.findByPlayersAndMode.mockResolvedValue([
+        {
+          playerId: 'p2',
+          gameMode: 'deathmatch',
+          rating: 1600,
+          deviation: 100,
+          volatility: 0.06,
+          gamesPlayed: 5,
+          wins: 3,
+          losses: 2,
+        },
+      ]);
+
+      const updated = await service.recordMatchResult({
+        roomId: 'room1',
+        gameMode: 'deathmatch',
+        standings: [
+          { playerId: 'p1', rank: 1 },
+          { playerId: 'p2', rank: 2 },
+        ],
+      });
+
+      expect(mockRatingRepo.findByPlayersAndMode).toHaveBeenCalledWith(
+        ['p1', 'p2'],
+        'deathmatch',
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(updated);
+      const [winner, loser] = updated;
+      expect(winner).toMatchObject({ playerId: 'p1', gamesPlayed: 1, wins: 1 });
+      expect(winner.rating).toBeGreaterThan(1500);
+      expect(winner.deviation).toBeLessThan(350);
+      expect(loser).toMatchObject({
+        playerId: 'p2',
+        gamesPlayed: 6,
+        losses: 3,
+      });
+      expect(loser.rating).toBeLessThan(1600);
+    });
+
+    it('should rate everyone from their pre-match ratings', async () => {
+      const updated = await service.recordMatchResult({
+        roomId: 'room1',
+        gameMode: 'coop',
+        standings: [
+          { playerId: 'p1', rank: 1 },
+          { playerId: 'p2', rank: 2 },
+        ],
+      });
+
+      // Symmetric result: equal gains and losses around the shared start
+      expect(updated[0].rating - 1500).toBeCloseTo(1500 - updated[1].rating, 6);
+    });
+
+    it('should count shared first place as a win with no rating change', async () => {
+      const updated = await service.recordMatchResult({
+        roomId: 'room1',
+        gameMode: 'coop',
+        standings: [
+          { playerId: 'p1', rank: 1 },
+          { playerId: 'p2', rank: 1 },
+        ],
+      });
+
+      expect(updated.every((record) => record.wins === 1)).toBe(true);
+      expect(updated[0].rating).toBeCloseTo(1500, 6);
+    });
+
+    it('should leave guests out of rated matches', async () => {
+      const updated = await service.recordMatchResult({
+        roomId: 'room1',
+        gameMode: 'coop',
+        standings: [
+          { playerId: 'p1', rank: 1 },
+          { playerId: 'guest_abc', rank: 2 },
+        ],
+      });
+
+      expect(updated).toEqual([]);
+      expect(mockRatingRepo.findByPlayersAndMode).not.toHaveBeenCalled();
+      expect(mockDataSource.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
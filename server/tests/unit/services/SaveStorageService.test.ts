@@ -0,0 +1,281 @@
+import { QueryFailedError } from 'typeorm';
+import {
+  MAX_SAVE_BYTES,
+  SaveConflictError,
+  SaveStorageError,
+  SaveStorageService,
+  validateSaveWrite,
+} from '../../../src/services/SaveStorageService';
+import { SaveSlot } from '../../../src/persistence/models/SaveSlot';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+describe('SaveStorageService', () => {
+  let service: SaveStorageService;
+  let mockDataSource: any;
+  let mockSaveSlotRepo: any;
+  let manager: any;
+  let stored: SaveSlot | null;
+
+  const saveData = (timestamp: number) => ({
+    version: '1.0.0',
+    timestamp,
+    player: { currentLevel: 2, unlockedLevels: [1, 2] },
+    levels: {},
+  });
+
+  const storedSlot = (overrides: Partial<SaveSlot> = {}): SaveSlot =>
+    Object.assign(new SaveSlot(), {
+      playerId: 'player-1',
+      slot: '0',
+      data: saveData(1000),
+      revision: 3,
+      savedAt: new Date(1000),
+      deleted: false,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    stored = null;
+    manager = {
+      findOne: jest.fn(async () => stored),
+      create: jest.fn((entity: any, data: any) =>
+        Object.assign(new entity(), data),
+      ),
+      save: jest.fn(async (record: SaveSlot) => {
+        stored = record;
+        return record;
+      }),
+    };
+    mockDataSource = {
+      transaction: jest.fn(async (cb: any) => cb(manager)),
+    };
+    mockSaveSlotRepo = {
+      findByPlayer: jest.fn(),
+      findByPlayerAndSlot: jest.fn(),
+    };
+    service = new SaveStorageService(mockDataSource, mockSaveSlotRepo);
+  });
+
+  describe('validateSaveWrite', () => {
+    it('should accept a well-formed write', () => {
+      expect(
+        validateSaveWrite({ data: saveData(1000), baseRevision: 0 }),
+      ).toEqual([]);
+    });
+
+    it('should report every problem with a write', () => {
+      expect(
+        validateSaveWrite({
+          data: { version: 1, timestamp: -5, player: [] },
+          baseRevision: 1.5,
+          force: true,
+        }),
+      ).toEqual([
+        'unknown field "force"',
+        'baseRevision must be a whole number of at least 0',
+        'data.version must be a string',
+        'data.timestamp must be a positive whole number',
+        'data.player must be an object',
+      ]);
+    });
+
+    it('should refuse oversized saves', () => {
+      const data = { ...saveData(1000), padding: 'x'.repeat(MAX_SAVE_BYTES) };
+
+      expect(validateSaveWrite({ data, baseRevision: 0 })).toEqual([
+        `data must be at most ${MAX_SAVE_BYTES} bytes`,
+      ]);
+    });
+
+    it('should refuse a body that is not an object', () => {
+      expect(validateSaveWrite(null)).toEqual(['body must be an object']);
+    });
+  });
+
+  describe('listSaves', () => {
+    it('should summarise every slot without its data', async () => {
+      mockSaveSlotRepo.findByPlayer.mockResolvedValue([
+        storedSlot(),
+        storedSlot({
+          slot: 'auto',
+          data: null,
+          deleted: true,
+          revision: 7,
+          savedAt: new Date(500),
+        }),
+      ]);
+
+      await expect(service.listSaves('player-1')).resolves.toEqual([
+        { slot: '0', revision: 3, savedAt: 1000, deleted: false },
+        { slot: 'auto', revision: 7, savedAt: 500, deleted: true },
+      ]);
+    });
+  });
+
+  describe('getSave', () => {
+    it('should return the slot with its data', async () => {
+      mockSaveSlotRepo.findByPlayerAndSlot.mockResolvedValue(storedSlot());
+
+      await expect(service.getSave('player-1', '0')).resolves.toEqual({
+        slot: '0',
+        revision: 3,
+        savedAt: 1000,
+        deleted: false,
+        data: saveData(1000),
+      });
+    });
+
+    it('should treat a deleted slot as empty', async () => {
+      mockSaveSlotRepo.findByPlayerAndSlot.mockResolvedValue(
+        storedSlot({ data: null, deleted: true }),
+      );
+
+      await expect(service.getSave('player-1', '0')).rejects.toMatchObject({
+        status: 404,
+      });
+    });
+  });
+
+  describe('putSave', () => {
+    it('should store the first save of a slot at revision 1', async () => {
+      const summary = await service.putSave('player-1', 'auto', {
+        data: saveData(2000),
+        baseRevision: 0,
+      });
+
+      expect(summary).toEqual({
+        slot: 'auto',
+        revision: 1,
+        savedAt: 2000,
+        deleted: false,
+      });
+      expect(stored!.data).toEqual(saveData(2000));
+      expect(manager.findOne).toHaveBeenCalledWith(SaveSlot, {
+        where: { playerId: 'player-1', slot: 'auto' },
+        lock: { mode: 'pessimistic_write' },
+      });
+    });
+
+    it('should replace a slot written at the base revision', async () => {
+      stored = storedSlot();
+
+      const summary = await service.putSave('player-1', '0', {
+        data: saveData(2000),
+        baseRevision: 3,
+      });
+
+      expect(summary.revision).toBe(4);
+      expect(stored!.data).toEqual(saveData(2000));
+    });
+
+    it('should revive a deleted slot', async () => {
+      stored = storedSlot({ data: null, deleted: true, revision: 4 });
+
+      const summary = await service.putSave('player-1', '0', {
+        data: saveData(2000),
+        baseRevision: 4,
+      });
+
+      expect(summary).toMatchObject({ revision: 5, deleted: false });
+    });
+
+    it('should refuse a write based on an older revision', async () => {
+      stored = storedSlot();
+
+      const error = await service
+        .putSave('player-1', '0', { data: saveData(2000), baseRevision: 2 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SaveConflictError);
+      expect(error.status).toBe(409);
+      expect(error.current).toEqual({
+        slot: '0',
+        revision: 3,
+        savedAt: 1000,
+        deleted: false,
+      });
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a first write that another device beat to the slot', async () => {
+      manager.save.mockRejectedValue(
+        new QueryFailedError(
+          'INSERT',
+          [],
+          Object.assign(new Error('duplicate key value'), { code: '23505' }),
+        ),
+      );
+      mockSaveSlotRepo.findByPlayerAndSlot.mockResolvedValue(
+        storedSlot({ slot: 'auto', revision: 1, savedAt: new Date(1500) }),
+      );
+
+      const error = await service
+        .putSave('player-1', 'auto', { data: saveData(2000), baseRevision: 0 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SaveConflictError);
+      expect(error.current).toEqual({
+        slot: 'auto',
+        revision: 1,
+        savedAt: 1500,
+        deleted: false,
+      });
+    });
+
+    it('should refuse a write expecting a slot the server does not have', async () => {
+      const error = await service
+        .putSave('player-1', '2', { data: saveData(2000), baseRevision: 5 })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SaveConflictError);
+      expect(error.current).toEqual({
+        slot: '2',
+        revision: 0,
+        savedAt: 0,
+        deleted: true,
+      });
+    });
+  });
+
+  describe('deleteSave', () => {
+    it('should leave a tombstone at the next revision', async () => {
+      stored = storedSlot();
+
+      const summary = await service.deleteSave('player-1', '0', 3);
+
+      expect(summary).toEqual({
+        slot: '0',
+        revision: 4,
+        savedAt: 1000,
+        deleted: true,
+      });
+      expect(stored!.data).toBeNull();
+    });
+
+    it('should refuse to delete a slot changed since the base revision', async () => {
+      stored = storedSlot();
+
+      await expect(service.deleteSave('player-1', '0', 1)).rejects.toThrow(
+        SaveConflictError,
+      );
+      expect(manager.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete an empty slot', async () => {
+      const error = await service
+        .deleteSave('player-1', '0', 0)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(SaveStorageError);
+      expect(error.status).toBe(404);
+    });
+  });
+});
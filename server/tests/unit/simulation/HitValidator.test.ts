@@ -0,0 +1,95 @@
+import {
+  DEFAULT_COMBAT_CONFIG,
+  HitValidator,
+  ProjectileShot,
+} from '../../../src/simulation/HitValidator';
+
+describe('HitValidator', () => {
+  const box = (x: number, y = 100) => ({ x, y, width: 32, height: 32 });
+  let validator: HitValidator;
+
+  beforeEach(() => {
+    validator = new HitValidator();
+  });
+
+  describe('getRewindMs', () => {
+    it('should rewind half the RTT plus the interpolation delay', () => {
+      expect(validator.getRewindMs(100)).toBe(
+        50 + DEFAULT_COMBAT_CONFIG.interpolationDelayMs,
+      );
+    });
+
+    it('should fall back to the interpolation delay without a measurement', () => {
+      expect(validator.getRewindMs()).toBe(
+        DEFAULT_COMBAT_CONFIG.interpolationDelayMs,
+      );
+      expect(validator.getRewindMs(NaN)).toBe(
+        DEFAULT_COMBAT_CONFIG.interpolationDelayMs,
+      );
+    });
+
+    it('should never rewind further than the configured limit', () => {
+      expect(validator.getRewindMs(10000)).toBe(
+        DEFAULT_COMBAT_CONFIG.maxRewindMs,
+      );
+    });
+  });
+
+  describe('isMeleeHit', () => {
+    it('should hit targets in reach on the facing side', () => {
+      expect(validator.isMeleeHit(box(100), 1, box(160))).toBe(true);
+      expect(validator.isMeleeHit(box(100), -1, box(40))).toBe(true);
+    });
+
+    it('should miss targets behind the attacker or out of reach', () => {
+      expect(validator.isMeleeHit(box(100), 1, box(60))).toBe(false);
+      expect(validator.isMeleeHit(box(100), 1, box(230))).toBe(false);
+      expect(validator.isMeleeHit(box(100), 1, box(160, 300))).toBe(false);
+    });
+  });
+
+  describe('projectiles', () => {
+    const shot = (overrides: Partial<ProjectileShot> = {}): ProjectileShot => ({
+      origin: { x: 100, y: 100 },
+      velocity: { x: 300, y: 0 },
+      flightMs: 1000,
+      ...overrides,
+    });
+
+    it('should hit a target on the projectile path', () => {
+      expect(validator.isProjectileHit(shot(), box(300))).toBe(true);
+    });
+
+    it('should miss targets beyond the flight or off the path', () => {
+      expect(validator.isProjectileHit(shot(), box(500))).toBe(false);
+      expect(validator.isProjectileHit(shot(), box(300, 200))).toBe(false);
+      expect(validator.isProjectileHit(shot(), box(40))).toBe(false);
+    });
+
+    it('should accept shots fired from near the attacker', () => {
+      expect(validator.isPlausibleShot(shot(), box(110))).toBe(true);
+    });
+
+    it('should reject impossible shots', () => {
+      expect(validator.isPlausibleShot(shot(), box(400))).toBe(false);
+      expect(
+        validator.isPlausibleShot(
+          shot({ velocity: { x: 5000, y: 0 } }),
+          box(100),
+        ),
+      ).toBe(false);
+      expect(validator.isPlausibleShot(shot({ flightMs: -5 }), box(100))).toBe(
+        false,
+      );
+      expect(
+        validator.isPlausibleShot(shot({ flightMs: 60000 }), box(100)),
+      ).toBe(false);
+      expect(
+        validator.isPlausibleShot(
+          shot({ origin: { x: NaN, y: 100 } }),
+          box(100),
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  LevelGeometry,
+  TiledMapData,
+} from '../../../src/simulation/LevelGeometry';
+import {
+  clearLevelCache,
+  getLevelConfigs,
+  getLevelThemes,
+  getPlayerStart,
+  loadLevelGeometry,
+  parseLevelManifest,
+} from '../../../src/simulation/levels';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+/**
+ * 4x3 map with a solid bottom row.
+ */
+const createMap = (overrides: Partial<TiledMapData> = {}): TiledMapData => ({
+  width: 4,
+  height: 3,
+  tileWidth: 32,
+  tileHeight: 32,
+  layers: [
+    {
+      name: 'ground',
+      type: 'tilelayer',
+      data: [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1],
+    },
+    {
+      name: 'platforms',
+      type: 'objectgroup',
+      objects: [
+        { id: 1, x: 0, y: 40, width: 64, height: 16, type: 'static' },
+        {
+          id: 2,
+          x: 64,
+          y: 20,
+          width: 32,
+          height: 16,
+          type: 'moving_horizontal',
+          properties: [
+            { name: 'moveDistance', value: 10 },
+            { name: 'speed', value: 20 },
+          ],
+        },
+        {
+          id: 3,
+          x: 0,
+          y: 10,
+          width: 32,
+          height: 16,
+          type: 'moving_vertical',
+        },
+      ],
+    },
+    {
+      name: 'player',
+      type: 'objectgroup',
+      objects: [{ id: 4, x: 16, y: 16, type: 'spawn' }],
+    },
+  ],
+  ...overrides,
+});
+
+describe('LevelGeometry', () => {
+  describe('fromTiledJSON', () => {
+    it('should read dimensions from camel-case keys', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      expect(geometry.widthPx).toBe(128);
+      expect(geometry.heightPx).toBe(96);
+    });
+
+    it('should accept native Tiled lower-case tile size keys', () => {
+      const map = createMap({ tileWidth: undefined, tileHeight: undefined });
+      map.tilewidth = 16;
+      map.tileheight = 16;
+      const geometry = LevelGeometry.fromTiledJSON(map);
+      expect(geometry.tileWidth).toBe(16);
+      expect(geometry.heightPx).toBe(48);
+    });
+
+    it('should mark non-empty tiles as solid', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      expect(geometry.isSolidTile(0, 2)).toBe(true);
+      expect(geometry.isSolidTile(0, 1)).toBe(false);
+    });
+
+    it('should treat tiles outside the map as empty', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      expect(geometry.isSolidTile(-1, 2)).toBe(false);
+      expect(geometry.isSolidTile(4, 2)).toBe(false);
+      expect(geometry.isSolidTile(0, 3)).toBe(false);
+    });
+
+    it('should map platform types to movement modes', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      expect(geometry.platforms.map((p) => p.movement)).toEqual([
+        'static',
+        'horizontal',
+        'vertical',
+      ]);
+      expect(geometry.platforms[1].speed).toBe(20);
+      expect(geometry.platforms[1].travelDistance).toBe(10);
+      expect(geometry.platforms[2].speed).toBe(100);
+    });
+
+    it('should read the player spawn object', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      expect(geometry.playerSpawn).toEqual({ x: 16, y: 16 });
+    });
+  });
+
+  describe('getSolidTilesInRect', () => {
+    it('should return overlapping solid tiles', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      const tiles = geometry.getSolidTilesInRect(10, 60, 40, 70);
+      expect(tiles).toEqual([
+        { x: 0, y: 64, width: 32, height: 32 },
+        { x: 32, y: 64, width: 32, height: 32 },
+      ]);
+    });
+
+    it('should not include tiles that only touch the rectangle edge', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      expect(geometry.getSolidTilesInRect(0, 32, 32, 64)).toEqual([]);
+    });
+  });
+
+  describe('advancePlatforms', () => {
+    it('should move platforms and record their displacement', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      geometry.advancePlatforms(0.25);
+
+      expect(geometry.platforms[0].dx).toBe(0);
+      expect(geometry.platforms[1].x).toBe(69);
+      expect(geometry.platforms[1].dx).toBe(5);
+      expect(geometry.platforms[2].dy).toBe(25);
+    });
+
+    it('should reverse once the travel distance is reached', () => {
+      const geometry = LevelGeometry.fromTiledJSON(createMap());
+      geometry.advancePlatforms(0.5);
+      geometry.advancePlatforms(0.25);
+
+      expect(geometry.platforms[1].x).toBe(69);
+      expect(geometry.platforms[1].dx).toBe(-5);
+    });
+  });
+});
+
+describe('levels', () => {
+  afterEach(() => {
+    clearLevelCache();
+    delete process.env.LEVEL_ASSETS_DIR;
+    delete process.env.LEVEL_MANIFEST_PATH;
+  });
+
+  it('should read the levels from the client manifest', () => {
+    expect(Object.keys(getLevelConfigs())).toEqual(['1', '2', '3']);
+    expect(getLevelConfigs()[3]).toMatchObject({
+      key: 'level3',
+      tilemap: 'assets/tilemaps/level3.json',
+      timeLimit: 240,
+    });
+  });
+
+  it('should read the theme ids from the client manifest', () => {
+    expect(getLevelThemes()).toEqual(['forest', 'cave', 'sky']);
+    expect(parseLevelManifest({ worlds: [] }).themes).toEqual([]);
+  });
+
+  it('should skip manifest levels the server cannot use', () => {
+    const level = { number: 1, key: 'level1', tilemap: 'a.json' };
+
+    const { levels, errors } = parseLevelManifest({
+      worlds: [
+        { levels: [level, { ...level, playerStart: { x: 'left' } }] },
+        { levels: [{ number: 0, key: 'k', tilemap: 'b.json' }] },
+        { id: 'empty' },
+      ],
+    });
+
+    expect(levels).toEqual({ 1: level });
+    expect(errors).toEqual([
+      'worlds.0.levels.1.number 1 is already used',
+      'worlds.1.levels.0 needs a number, key and tilemap',
+      'worlds.2.levels must be a list',
+    ]);
+    expect(parseLevelManifest([]).errors).toEqual(['worlds must be a list']);
+  });
+
+  it('should have no levels without a manifest', () => {
+    process.env.LEVEL_MANIFEST_PATH = '/nonexistent/levels.json';
+
+    expect(getLevelConfigs()).toEqual({});
+    expect(getLevelThemes()).toEqual([]);
+    expect(loadLevelGeometry(1)).toBeNull();
+  });
+
+  it('should load the client level files', () => {
+    const geometry = loadLevelGeometry(1);
+    expect(geometry).not.toBeNull();
+    expect(geometry!.widthInTiles).toBe(40);
+    expect(geometry!.isSolidTile(0, 15)).toBe(true);
+  });
+
+  it('should return independent geometry per call', () => {
+    const first = loadLevelGeometry(1)!;
+    const second = loadLevelGeometry(1)!;
+    first.advancePlatforms(1);
+    expect(second.platforms[0].x).toBe(200);
+  });
+
+  it('should return null for unknown levels', () => {
+    expect(loadLevelGeometry(99)).toBeNull();
+  });
+
+  it('should return null when the level file is missing', () => {
+    process.env.LEVEL_ASSETS_DIR = '/nonexistent';
+    expect(loadLevelGeometry(2)).toBeNull();
+  });
+
+  it('should prefer the configured player start', () => {
+    expect(getPlayerStart(2)).toEqual({ x: 400, y: 2050 });
+  });
+
+  it('should fall back to the map spawn point', () => {
+    const geometry = LevelGeometry.fromTiledJSON(createMap());
+    expect(getPlayerStart(99, geometry)).toEqual({ x: 16, y: 16 });
+  });
+});
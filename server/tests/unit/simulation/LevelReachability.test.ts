@@ -0,0 +1,136 @@
+import {
+  LevelGeometry,
+  TiledObject,
+} from '../../../src/simulation/LevelGeometry';
+import { findPathToArea } from '../../../src/simulation/LevelReachability';
+
+const TILE = 32;
+
+/**
+ * Build geometry from rows of `#` (solid) and `.` (empty).
+ */
+const geometryFrom = (
+  rows: string[],
+  platforms: TiledObject[] = [],
+): LevelGeometry =>
+  LevelGeometry.fromTiledJSON({
+    width: rows[0]!.length,
+    height: rows.length,
+    tilewidth: TILE,
+    tileheight: TILE,
+    layers: [
+      {
+        name: 'ground',
+        type: 'tilelayer',
+        data: rows.flatMap((row) =>
+          [...row].map((cell) => (cell === '#' ? 1 : 0)),
+        ),
+      },
+      { name: 'platforms', type: 'objectgroup', objects: platforms },
+    ],
+  });
+
+/** A row of `width` cells with solid cells at the given columns. */
+const row = (width: number, solid: (col: number) => boolean = () => false) =>
+  Array.from({ length: width }, (_, col) => (solid(col) ? '#' : '.')).join('');
+
+const tileArea = (col: number, rowIndex: number) => ({
+  x: col * TILE,
+  y: rowIndex * TILE,
+  width: TILE,
+  height: TILE,
+});
+
+const start = { x: 48, y: 0 };
+
+describe('findPathToArea', () => {
+  it('should walk along a floor to the target', () => {
+    const rows = [...Array(9).fill(row(30)), row(30, () => true)];
+
+    const result = findPathToArea(geometryFrom(rows), start, tileArea(28, 8));
+
+    expect(result.reachable).toBe(true);
+    expect(result.exhausted).toBe(false);
+  });
+
+  it('should jump up steps', () => {
+    const rows = [
+      ...Array(6).fill(row(20)),
+      row(20, (col) => col >= 15),
+      row(20, (col) => col >= 10),
+      row(20, (col) => col >= 5),
+      row(20, () => true),
+    ];
+
+    const result = findPathToArea(geometryFrom(rows), start, tileArea(18, 5));
+
+    expect(result.reachable).toBe(true);
+  });
+
+  it('should not get past a wall taller than a jump', () => {
+    const rows = [
+      ...Array(4).fill(row(20)),
+      ...Array(13).fill(row(20, (col) => col === 10)),
+      row(20, () => true),
+    ];
+
+    const result = findPathToArea(geometryFrom(rows), start, tileArea(15, 16));
+
+    expect(result.reachable).toBe(false);
+    expect(result.landings).toBeGreaterThan(1);
+  });
+
+  it('should climb one-way platforms to a high ledge', () => {
+    const rows = [
+      ...Array(6).fill(row(30)),
+      row(30, (col) => col >= 25),
+      ...Array(12).fill(row(30, (col) => col >= 25)),
+      row(30, () => true),
+    ];
+    const platforms = [
+      { id: 1, x: 12 * TILE, y: 14 * TILE, width: 96, height: 16 },
+      { id: 2, x: 18 * TILE, y: 9 * TILE, width: 96, height: 16 },
+    ];
+
+    expect(
+      findPathToArea(geometryFrom(rows), start, tileArea(27, 5)).reachable,
+    ).toBe(false);
+    expect(
+      findPathToArea(geometryFrom(rows, platforms), start, tileArea(27, 5))
+        .reachable,
+    ).toBe(true);
+  });
+
+  it('should not cross a pit wider than a jump', () => {
+    const rows = [
+      ...Array(9).fill(row(50)),
+      row(50, (col) => col < 5 || col > 40),
+    ];
+
+    const result = findPathToArea(geometryFrom(rows), start, tileArea(45, 8));
+
+    expect(result.reachable).toBe(false);
+  });
+
+  it('should give up after too many landings', () => {
+    const rows = [...Array(9).fill(row(30)), row(30, () => true)];
+
+    const result = findPathToArea(
+      geometryFrom(rows),
+      start,
+      tileArea(28, 8),
+      undefined,
+      { maxLandings: 2 },
+    );
+
+    expect(result).toEqual({ reachable: false, landings: 2, exhausted: true });
+  });
+
+  it('should not find anything without ground under the spawn', () => {
+    const rows = Array(10).fill(row(10));
+
+    const result = findPathToArea(geometryFrom(rows), start, tileArea(8, 8));
+
+    expect(result).toEqual({ reachable: false, landings: 0, exhausted: false });
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  DEFAULT_PHYSICS_CONFIG,
+  PhysicsEntity,
+  PlatformerPhysics,
+} from '../../../src/simulation/PlatformerPhysics';
+import {
+  LevelGeometry,
+  TiledMapData,
+} from '../../../src/simulation/LevelGeometry';
+
+/**
+ * 10x6 map: solid floor on row 5, a solid wall at column 6 on row 4,
+ * a ceiling tile at column 8 on row 1 and a one-way platform spanning
+ * x 64-160 at y 96.
+ */
+const createGeometry = (platformType = 'static'): LevelGeometry => {
+  const width = 10;
+  const height = 6;
+  const data = new Array(width * height).fill(0);
+  for (let col = 0; col < width; col++) {
+    data[5 * width + col] = 1;
+  }
+  data[4 * width + 6] = 1;
+  data[1 * width + 8] = 1;
+
+  const map: TiledMapData = {
+    width,
+    height,
+    tileWidth: 32,
+    tileHeight: 32,
+    layers: [
+      { name: 'ground', type: 'tilelayer', data },
+      {
+        name: 'platforms',
+        type: 'objectgroup',
+        objects: [
+          {
+            id: 7,
+            x: 64,
+            y: 96,
+            width: 96,
+            height: 16,
+            type: platformType,
+            properties: [
+              { name: 'speed', value: 40 },
+              { name: 'moveDistance', value: 100 },
+            ],
+          },
+        ],
+      },
+    ],
+  };
+  return LevelGeometry.fromTiledJSON(map);
+};
+
+const createEntity = (
+  x: number,
+  y: number,
+  velocity = { x: 0, y: 0 },
+): PhysicsEntity => ({
+  position: { x, y },
+  velocity: { ...velocity },
+  affectedByGravity: true,
+});
+
+describe('PlatformerPhysics', () => {
+  let physics: PlatformerPhysics;
+
+  beforeEach(() => {
+    physics = new PlatformerPhysics();
+  });
+
+  describe('config', () => {
+    it('should default to the client gravity and player constants', () => {
+      expect(physics.getConfig()).toEqual(DEFAULT_PHYSICS_CONFIG);
+      expect(DEFAULT_PHYSICS_CONFIG.gravity).toBe(300);
+      expect(DEFAULT_PHYSICS_CONFIG.moveSpeed).toBe(250);
+      expect(DEFAULT_PHYSICS_CONFIG.jumpForce).toBe(450);
+    });
+
+    it('should accept overrides', () => {
+      const custom = new PlatformerPhysics({ gravity: 600 });
+      expect(custom.getConfig().gravity).toBe(600);
+      expect(custom.getConfig().moveSpeed).toBe(250);
+    });
+  });
+
+  describe('normalizeInput', () => {
+    it('should read moveX and jump', () => {
+      expect(
+        PlatformerPhysics.normalizeInput({ moveX: -1, jump: true }),
+      ).toEqual({ moveX: -1, jump: true });
+    });
+
+    it('should clamp moveX to [-1, 1]', () => {
+      expect(PlatformerPhysics.normalizeInput({ moveX: 5 })!.moveX).toBe(1);
+      expect(PlatformerPhysics.normalizeInput({ moveX: -3 })!.moveX).toBe(-1);
+    });
+
+    it('should derive moveX from left/right flags', () => {
+      expect(
+        PlatformerPhysics.normalizeInput({ left: true, right: false })!.moveX,
+      ).toBe(-1);
+      expect(
+        PlatformerPhysics.normalizeInput({ left: true, right: true })!.moveX,
+      ).toBe(0);
+    });
+
+    it('should leave moveX undefined when no direction is given', () => {
+      expect(PlatformerPhysics.normalizeInput({ jump: true })!.moveX).toBe(
+        undefined,
+      );
+    });
+
+    it('should reject malformed payloads', () => {
+      expect(PlatformerPhysics.normalizeInput(null)).toBeNull();
+      expect(PlatformerPhysics.normalizeInput('left')).toBeNull();
+      expect(PlatformerPhysics.normalizeInput({ moveX: NaN })).toBeNull();
+      expect(PlatformerPhysics.normalizeInput({ moveX: '1' })).toBeNull();
+    });
+  });
+
+  describe('applyInput', () => {
+    it('should set horizontal velocity from moveX', () => {
+      const entity = createEntity(0, 0);
+      physics.applyInput(entity, { moveX: -1, jump: false });
+      expect(entity.velocity!.x).toBe(-250);
+    });
+
+    it('should only jump when on the ground', () => {
+      const entity = createEntity(0, 0);
+      physics.applyInput(entity, { jump: true });
+      expect(entity.velocity!.y).toBe(0);
+
+      entity.isOnGround = true;
+      entity.groundPlatformId = 7;
+      physics.applyInput(entity, { jump: true });
+      expect(entity.velocity!.y).toBe(-450);
+      expect(entity.isOnGround).toBe(false);
+      expect(entity.groundPlatformId).toBeUndefined();
+    });
+  });
+
+  describe('step', () => {
+    it('should ignore entities without a position', () => {
+      const entity: PhysicsEntity = { velocity: { x: 10, y: 0 } };
+      expect(() => physics.step(entity, createGeometry(), 0.1)).not.toThrow();
+    });
+
+    it('should integrate freely without geometry', () => {
+      const entity = createEntity(0, 0, { x: 100, y: 0 });
+      physics.step(entity, undefined, 0.5);
+      expect(entity.velocity!.y).toBe(150);
+      expect(entity.position).toEqual({ x: 50, y: 75 });
+    });
+
+    it('should land on solid tiles', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(16, 140, { x: 0, y: 100 });
+      physics.step(entity, geometry, 0.1);
+
+      expect(entity.position!.y).toBe(144);
+      expect(entity.velocity!.y).toBe(0);
+      expect(entity.isOnGround).toBe(true);
+    });
+
+    it('should stay grounded when resting on the floor', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(16, 144);
+      for (let i = 0; i < 10; i++) {
+        physics.step(entity, geometry, 1 / 60);
+      }
+      expect(entity.position!.y).toBe(144);
+      expect(entity.isOnGround).toBe(true);
+    });
+
+    it('should stop against solid walls', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(170, 144, { x: 250, y: 0 });
+      physics.step(entity, geometry, 0.1);
+
+      // Wall tile occupies x 192-224 on row 4
+      expect(entity.position!.x).toBe(176);
+      expect(entity.velocity!.x).toBe(0);
+    });
+
+    it('should not tunnel through the floor at high speed', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(16, 20, { x: 0, y: 2000 });
+      physics.step(entity, geometry, 0.1);
+      expect(entity.position!.y).toBe(144);
+    });
+
+    it('should land on one-way platforms from above', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(100, 70, { x: 0, y: 100 });
+      physics.step(entity, geometry, 0.1);
+
+      expect(entity.position!.y).toBe(80);
+      expect(entity.isOnGround).toBe(true);
+      expect(entity.groundPlatformId).toBe(7);
+    });
+
+    it('should pass through one-way platforms from below', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(100, 120, { x: 0, y: -450 });
+      physics.step(entity, geometry, 0.1);
+
+      expect(entity.position!.y).toBeLessThan(80);
+      expect(entity.isOnGround).toBe(false);
+    });
+
+    it('should carry entities standing on moving platforms', () => {
+      const geometry = createGeometry('moving_horizontal');
+      const entity = createEntity(100, 80);
+      physics.step(entity, geometry, 0.01);
+      expect(entity.groundPlatformId).toBe(7);
+
+      geometry.advancePlatforms(0.5);
+      physics.step(entity, geometry, 0.5);
+      expect(entity.position!.x).toBe(120);
+      expect(entity.isOnGround).toBe(true);
+    });
+
+    it('should clamp to the world bounds horizontally', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(20, 144, { x: -250, y: 0 });
+      physics.step(entity, geometry, 0.1);
+      expect(entity.position!.x).toBe(16);
+    });
+
+    it('should stop at ceilings when jumping into solid tiles', () => {
+      const geometry = createGeometry();
+      const entity = createEntity(272, 100, { x: 0, y: -450 });
+      physics.step(entity, geometry, 0.1);
+
+      // Ceiling tile bottom is at y 64
+      expect(entity.position!.y).toBe(80);
+      expect(entity.velocity!.y).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { SpatialGrid } from '../../../src/simulation/SpatialGrid';
+
+describe('SpatialGrid', () => {
+  it('should return entities in cells overlapping the rectangle', () => {
+    const grid = new SpatialGrid(100);
+    grid.insert('near', 50, 50);
+    grid.insert('edge', 199, 150);
+    grid.insert('far', 550, 50);
+
+    expect(grid.queryRect(0, 0, 120, 120).sort()).toEqual(['edge', 'near']);
+    expect(grid.queryRect(500, 0, 600, 100)).toEqual(['far']);
+  });
+
+  it('should handle negative coordinates', () => {
+    const grid = new SpatialGrid(100);
+    grid.insert('left', -50, -50);
+
+    expect(grid.queryRect(-10, -10, 10, 10)).toEqual(['left']);
+    expect(grid.queryRect(10, 10, 90, 90)).toEqual([]);
+  });
+
+  it('should index entities by position', () => {
+    const grid = SpatialGrid.fromEntities(
+      {
+        player1: { position: { x: 10, y: 10 } },
+        marker: { type: 'spawn' },
+        broken: { position: { x: NaN, y: 0 } },
+      },
+      64,
+    );
+
+    expect(grid.queryRect(-1000, -1000, 1000, 1000)).toEqual(['player1']);
+  });
+
+  it('should forget entities on clear', () => {
+    const grid = new SpatialGrid();
+    grid.insert('player1', 10, 10);
+    grid.clear();
+
+    expect(grid.queryRect(0, 0, 100, 100)).toEqual([]);
+  });
+});
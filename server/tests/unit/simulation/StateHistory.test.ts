@@ -0,0 +1,75 @@
+import { StateHistory } from '../../../src/simulation/StateHistory';
+
+describe('StateHistory', () => {
+  const entity = (x: number, y = 100) => ({
+    position: { x, y },
+    width: 32,
+    height: 32,
+  });
+
+  it('should return nothing before any frame is recorded', () => {
+    expect(new StateHistory().getStateAt(1000)).toEqual({});
+  });
+
+  it('should interpolate positions between recorded ticks', () => {
+    const history = new StateHistory();
+    history.record(1, 1000, { player1: entity(100) });
+    history.record(2, 1020, { player1: entity(120, 110) });
+
+    expect(history.getStateAt(1005).player1).toEqual({
+      x: 105,
+      y: 102.5,
+      width: 32,
+      height: 32,
+    });
+  });
+
+  it('should clamp to the oldest and newest frames', () => {
+    const history = new StateHistory();
+    history.record(1, 1000, { player1: entity(100) });
+    history.record(2, 1020, { player1: entity(120) });
+
+    expect(history.getStateAt(500).player1.x).toBe(100);
+    expect(history.getStateAt(5000).player1.x).toBe(120);
+  });
+
+  it('should only return entities that existed at the requested time', () => {
+    const history = new StateHistory();
+    history.record(1, 1000, { player1: entity(100) });
+    history.record(2, 1020, { player1: entity(120), player2: entity(300) });
+
+    const state = history.getStateAt(1010);
+    expect(state.player1.x).toBe(110);
+    expect(state.player2).toBeUndefined();
+  });
+
+  it('should skip entities without a position and default body size', () => {
+    const history = new StateHistory();
+    history.record(1, 1000, {
+      player1: { position: { x: 10, y: 20 } },
+      marker: { type: 'spawn' },
+    });
+
+    expect(history.getStateAt(1000)).toEqual({
+      player1: { x: 10, y: 20, width: 32, height: 32 },
+    });
+  });
+
+  it('should drop frames older than the maximum age', () => {
+    const history = new StateHistory(100);
+    for (let tick = 0; tick <= 20; tick++) {
+      history.record(tick, 1000 + tick * 20, { player1: entity(tick) });
+    }
+
+    expect(history.getDuration()).toBeLessThanOrEqual(100);
+    expect(history.getStateAt(0).player1.x).toBe(15);
+  });
+
+  it('should forget everything on clear', () => {
+    const history = new StateHistory();
+    history.record(1, 1000, { player1: entity(100) });
+    history.clear();
+
+    expect(history.getStateAt(1000)).toEqual({});
+  });
+});
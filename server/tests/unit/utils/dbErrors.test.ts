@@ -0,0 +1,25 @@
+import { QueryFailedError } from 'typeorm';
+import { isUniqueViolation } from '../../../src/utils/dbErrors';
+
+const queryError = (code: string) =>
+  new QueryFailedError(
+    'INSERT',
+    [],
+    Object.assign(new Error('query failed'), { code }),
+  );
+
+describe('isUniqueViolation', () => {
+  it('should match unique constraint violations', () => {
+    expect(isUniqueViolation(queryError('23505'))).toBe(true);
+  });
+
+  it('should not match other query failures', () => {
+    expect(isUniqueViolation(queryError('23503'))).toBe(false);
+  });
+
+  it('should not match errors that did not come from a query', () => {
+    const error = Object.assign(new Error('duplicate'), { code: '23505' });
+    expect(isUniqueViolation(error)).toBe(false);
+    expect(isUniqueViolation(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  FIELD_POSITION,
+  FIELD_VELOCITY,
+  MissingBaselineError,
+  SnapshotPayload,
+  decodeSnapshot,
+  encodeSnapshot,
+  getDirtyMask,
+  isBinarySnapshot,
+} from '../../../../shared/protocol/snapshotCodec';
+
+describe('snapshotCodec', () => {
+  const player = () => ({
+    type: 'player',
+    position: { x: 100.5, y: 464 },
+    velocity: { x: 250, y: -450 },
+    width: 32,
+    height: 32,
+    isOnGround: false,
+    affectedByGravity: true,
+    lastUpdated: 1700000000000,
+  });
+
+  const snapshot = (overrides: Partial<SnapshotPayload> = {}) =>
+    ({
+      timestamp: 1700000000123,
+      roomId: 'room-1',
+      tick: 42,
+      entities: { player1: player() },
+      deletedEntities: [],
+      events: [],
+      lastProcessedInputs: { player1: 7 },
+      full: true,
+      ...overrides,
+    }) as SnapshotPayload;
+
+  describe('full snapshots', () => {
+    it('should round-trip header, entities, acks and events', () => {
+      const events = [{ type: 'entity_destroyed', entityId: 'e1' }];
+      const decoded = decodeSnapshot(encodeSnapshot(snapshot({ events })));
+
+      expect(decoded.timestamp).toBe(1700000000123);
+      expect(decoded.roomId).toBe('room-1');
+      expect(decoded.tick).toBe(42);
+      expect(decoded.full).toBe(true);
+      expect(decoded.lastProcessedInputs).toEqual({ player1: 7 });
+      expect(decoded.events).toEqual(events);
+      expect(decoded.entities.player1).toEqual({
+        type: 'player',
+        position: { x: 100.5, y: 464 },
+        velocity: { x: 250, y: -450 },
+        width: 32,
+        height: 32,
+        isOnGround: false,
+        affectedByGravity: true,
+      });
+    });
+
+    it('should quantize positions and velocities', () => {
+      const entities = {
+        player1: {
+          position: { x: 10.01, y: -3.3 },
+          velocity: { x: 0.1, y: 99999 },
+        },
+      };
+      const decoded = decodeSnapshot(encodeSnapshot(snapshot({ entities })));
+
+      expect(decoded.entities.player1.position).toEqual({
+        x: 10,
+        y: -3.3125,
+      });
+      // Velocities saturate at the 16-bit limit
+      expect(decoded.entities.player1.velocity).toEqual({
+        x: 0,
+        y: 32767 / 4,
+      });
+    });
+
+    it('should carry unknown fields and non-ASCII strings', () => {
+      const entities = {
+        'enemy-ü': { type: 'slime', groundPlatformId: 3, tags: ['boss'] },
+      };
+      const decoded = decodeSnapshot(encodeSnapshot(snapshot({ entities })));
+
+      expect(decoded.entities['enemy-ü']).toEqual(entities['enemy-ü']);
+    });
+
+    it('should be smaller than the JSON encoding', () => {
+      const entities: Record<string, any> = {};
+      for (let i = 0; i < 8; i++) {
+        entities[`guest_socket-${i}`] = player();
+      }
+      const data = snapshot({ entities });
+
+      expect(encodeSnapshot(data).byteLength).toBeLessThan(
+        JSON.stringify(data).length / 2,
+      );
+    });
+  });
+
+  describe('delta snapshots', () => {
+    it('should only write fields that changed since the baseline', () => {
+      const baseline = { player1: player() };
+      const moved = { ...player(), position: { x: 120, y: 464 } };
+
+      expect(getDirtyMask(baseline.player1, moved)).toBe(FIELD_POSITION);
+
+      const full = encodeSnapshot(snapshot());
+      const delta = encodeSnapshot(
+        snapshot({ entities: { player1: moved }, full: false }),
+        baseline,
+      );
+      expect(delta.byteLength).toBeLessThan(full.byteLength);
+    });
+
+    it('should rebuild whole entities from the decoder baseline', () => {
+      const baseline = {
+        player1: decodeSnapshot(encodeSnapshot(snapshot())).entities.player1,
+      };
+      const current = { ...player(), velocity: { x: 0, y: 0 } };
+      const decoded = decodeSnapshot(
+        encodeSnapshot(
+          snapshot({ entities: { player1: current }, full: false }),
+          { player1: player() },
+        ),
+        () => baseline,
+      );
+
+      expect(decoded.entities.player1).toEqual({
+        ...baseline.player1,
+        velocity: { x: 0, y: 0 },
+      });
+      // The baseline itself is left untouched
+      expect(baseline.player1.velocity).toEqual({ x: 250, y: -450 });
+    });
+
+    it('should remove fields that no longer exist', () => {
+      const previous = { ...player(), health: 10, groundPlatformId: 2 };
+      const current = player();
+
+      const decoded = decodeSnapshot(
+        encodeSnapshot(
+          snapshot({ entities: { player1: current }, full: false }),
+          { player1: previous },
+        ),
+        () => ({ player1: previous }),
+      );
+
+      expect(decoded.entities.player1.health).toBeUndefined();
+      expect(decoded.entities.player1.groundPlatformId).toBeUndefined();
+    });
+
+    it('should ignore sub-quantum jitter and server bookkeeping', () => {
+      const previous = player();
+      const current = {
+        ...player(),
+        position: { x: 100.51, y: 464 },
+        lastUpdated: previous.lastUpdated + 50,
+      };
+
+      expect(getDirtyMask(previous, current)).toBe(0);
+      expect(
+        getDirtyMask(previous, { ...current, velocity: { x: 0, y: -450 } }),
+      ).toBe(FIELD_VELOCITY);
+    });
+
+    it('should encode deleted entities', () => {
+      const decoded = decodeSnapshot(
+        encodeSnapshot(
+          snapshot({ entities: {}, deletedEntities: ['player1'], full: false }),
+        ),
+        () => ({ player1: player() }),
+      );
+      expect(decoded.deletedEntities).toEqual(['player1']);
+    });
+
+    it('should refuse a delta whose baseline is unknown', () => {
+      const encoded = encodeSnapshot(
+        snapshot({ tick: 45, baselineTick: 40, full: false }),
+        { player1: player() },
+      );
+
+      expect(() => decodeSnapshot(encoded)).toThrow(MissingBaselineError);
+      expect(() => decodeSnapshot(encoded, () => undefined)).toThrow(
+        'Missing snapshot baseline for tick 40',
+      );
+    });
+
+    it('should resolve the baseline by the tick it was encoded against', () => {
+      const requested: number[] = [];
+      const decoded = decodeSnapshot(
+        encodeSnapshot(snapshot({ tick: 45, baselineTick: 40, full: false }), {
+          player1: player(),
+        }),
+        (tick) => {
+          requested.push(tick);
+          return { player1: player() };
+        },
+      );
+
+      expect(requested).toEqual([40]);
+      expect(decoded.baselineTick).toBe(40);
+      expect(decoded.tick).toBe(45);
+      expect(decodeSnapshot(encodeSnapshot(snapshot())).baselineTick).toBe(
+        undefined,
+      );
+    });
+  });
+
+  it('should reject snapshots from another codec version', () => {
+    const encoded = encodeSnapshot(snapshot());
+    encoded[0] = 99;
+    expect(() => decodeSnapshot(encoded)).toThrow(
+      'Unsupported snapshot codec version 99',
+    );
+  });
+
+  it('should recognise binary payloads', () => {
+    expect(isBinarySnapshot(new ArrayBuffer(4))).toBe(true);
+    expect(isBinarySnapshot(Buffer.from([1]))).toBe(true);
+    expect(isBinarySnapshot({ entities: {} })).toBe(false);
+  });
+});
@@ -92,9 +92,9 @@ describe('matchmaking.worker', () => {
     it('should preserve request properties in matched groups', () => {
       const requests = [
         createRequest('req1', 'deathmatch', 'us-east', { skillLevel: 1500 }),
-        createRequest('req2', 'deathmatch', 'us-east', { skillLevel: 1600 }),
-        createRequest('req3', 'deathmatch', 'us-east', { skillLevel: 1700 }),
-        createRequest('req4', 'deathmatch', 'us-east', { skillLevel: 1800 }),
+        createRequest('req2', 'deathmatch', 'us-east', { skillLevel: 1520 }),
+        createRequest('req3', 'deathmatch', 'us-east', { skillLevel: 1540 }),
+        createRequest('req4', 'deathmatch', 'us-east', { skillLevel: 1560 }),
       ];
       const result = processQueue(requests);
 
@@ -112,6 +112,37 @@ describe('matchmaking.worker', () => {
       expect(result).toEqual([]);
     });
 
+    it('should not match players far apart in skill who just queued', () => {
+      const requests = [
+        createRequest('req1', 'deathmatch', 'us-east', { skillLevel: 1000 }),
+        createRequest('req2', 'deathmatch', 'us-east', { skillLevel: 1400 }),
+        createRequest('req3', 'deathmatch', 'us-east', { skillLevel: 1800 }),
+        createRequest('req4', 'deathmatch', 'us-east', { skillLevel: 2200 }),
+      ];
+
+      expect(processQueue(requests)).toEqual([]);
+    });
+
+    it('should match them once they have waited long enough', () => {
+      const requests = [
+        createRequest('req1', 'deathmatch', 'us-east', { skillLevel: 1300 }),
+        createRequest('req2', 'deathmatch', 'us-east', { skillLevel: 1400 }),
+        createRequest('req3', 'deathmatch', 'us-east', { skillLevel: 1600 }),
+        createRequest('req4', 'deathmatch', 'us-east', { skillLevel: 1700 }),
+      ];
+      const later = requests[0].queuedAt.getTime() + 60 * 1000;
+
+      expect(processQueue(requests, later)).toHaveLength(1);
+    });
+
+    it("should use the game mode's player count", () => {
+      const requests = createRequests(2, 'coop', 'us-east');
+      const result = processQueue(requests);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].matchedRequests).toHaveLength(2);
+    });
+
     it('should handle very large queue with many groups', () => {
       const requests = [];
       for (let i = 0; i < 10; i++) {
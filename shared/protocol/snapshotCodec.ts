@@ -0,0 +1,662 @@
+/**
+ * Binary encoding for `game_state_update` snapshots.
+ *
+ * Layout (little-endian):
+ *   header   u8 version, u8 flags, u32 tick, [u32 baselineTick],
+ *            f64 timestamp, str roomId
+ *   strings  u16 count, str[]     entity ids and entity types
+ *   entities u16 count, { u16 id, u16 mask, fields... }[]
+ *   deleted  u16 count, u16 id[]
+ *   acks     u16 count, { u16 id, u32 sequence }[]
+ *   events   u32 length, JSON bytes
+ *
+ * Each entity carries a mask: the low byte flags the fields written after it,
+ * the high byte flags fields that were removed. Delta snapshots only write the
+ * fields that differ from the baseline, the snapshot at `baselineTick` that
+ * the receiver acknowledged; full snapshots carry no baseline tick.
+ *
+ * Used by both the server and the client, so a layout change reaches both.
+ */
+
+/** Bumped whenever the wire layout changes. */
+export const SNAPSHOT_CODEC_VERSION = 2;
+
+/** Position precision: 1/16 pixel. */
+const POSITION_SCALE = 16;
+/** Velocity precision: 1/4 pixel per second, stored in 16 bits. */
+const VELOCITY_SCALE = 4;
+
+const FLAG_FULL = 1;
+
+export const FIELD_TYPE = 1 << 0;
+export const FIELD_POSITION = 1 << 1;
+export const FIELD_VELOCITY = 1 << 2;
+export const FIELD_SIZE = 1 << 3;
+export const FIELD_ON_GROUND = 1 << 4;
+export const FIELD_GRAVITY = 1 << 5;
+export const FIELD_HEALTH = 1 << 6;
+export const FIELD_EXTRA = 1 << 7;
+
+/** Fields with dedicated encodings; anything else travels as JSON. */
+const KNOWN_FIELDS = new Set([
+  'type',
+  'position',
+  'velocity',
+  'width',
+  'height',
+  'isOnGround',
+  'affectedByGravity',
+  'health',
+]);
+
+/** Server bookkeeping that is never replicated to clients. */
+const LOCAL_FIELDS = new Set(['lastUpdated']);
+
+/**
+ * Snapshot contents, matching the server's `DeltaSnapshot`.
+ */
+export interface SnapshotPayload {
+  timestamp: number;
+  roomId: string;
+  tick: number;
+  /** Tick of the snapshot a delta was computed against. */
+  baselineTick?: number;
+  entities: Record<string, any>;
+  deletedEntities: string[];
+  events: any[];
+  lastProcessedInputs: Record<string, number>;
+  full: boolean;
+}
+
+/**
+ * Whether a received `game_state_update` payload is binary.
+ */
+export function isBinarySnapshot(data: unknown): boolean {
+  return data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+}
+
+/**
+ * Compute which replicated fields of an entity changed since `previous`.
+ * Values are compared at wire precision, so sub-quantum jitter is ignored.
+ * @returns Dirty fields in the low byte, removed fields in the high byte.
+ */
+export function getDirtyMask(previous: any, current: any): number {
+  if (!previous) return fieldsPresent(current);
+
+  let dirty = 0;
+  let removed = 0;
+  const check = (field: number, prev: unknown, cur: unknown) => {
+    if (cur === undefined) {
+      if (prev !== undefined) removed |= field;
+    } else if (prev === undefined || prev !== cur) {
+      dirty |= field;
+    }
+  };
+
+  check(FIELD_TYPE, getType(previous), getType(current));
+  check(
+    FIELD_POSITION,
+    quantizeVector(previous.position, POSITION_SCALE),
+    quantizeVector(current.position, POSITION_SCALE),
+  );
+  check(
+    FIELD_VELOCITY,
+    quantizeVector(previous.velocity, VELOCITY_SCALE),
+    quantizeVector(current.velocity, VELOCITY_SCALE),
+  );
+  check(
+    FIELD_SIZE,
+    sizeKey(previous.width, previous.height),
+    sizeKey(current.width, current.height),
+  );
+  check(FIELD_ON_GROUND, previous.isOnGround, current.isOnGround);
+  check(FIELD_GRAVITY, previous.affectedByGravity, current.affectedByGravity);
+  check(FIELD_HEALTH, previous.health, current.health);
+  check(
+    FIELD_EXTRA,
+    extrasKey(getExtras(previous)),
+    extrasKey(getExtras(current)),
+  );
+
+  return dirty | (removed << 8);
+}
+
+/**
+ * Copy an entity deeply enough to serve as a diff baseline.
+ */
+export function cloneEntity(entity: any): any {
+  const copy = { ...entity };
+  if (entity.position) copy.position = { ...entity.position };
+  if (entity.velocity) copy.velocity = { ...entity.velocity };
+  return copy;
+}
+
+/**
+ * Encode a snapshot.
+ * @param baseline Entity states the receiver already has. Delta snapshots
+ * only write fields that differ from it; full snapshots ignore it.
+ */
+export function encodeSnapshot(
+  snapshot: SnapshotPayload,
+  baseline: Record<string, any> = {},
+): Uint8Array {
+  const writer = new ByteWriter();
+  const strings = new StringTable();
+  const entityIds = Object.keys(snapshot.entities);
+
+  // Intern every string first so the table can precede the entities
+  entityIds.forEach((id) => {
+    strings.add(id);
+    const type = getType(snapshot.entities[id]);
+    if (type !== undefined) strings.add(type);
+  });
+  snapshot.deletedEntities.forEach((id) => strings.add(id));
+  Object.keys(snapshot.lastProcessedInputs).forEach((id) => strings.add(id));
+
+  writer.u8(SNAPSHOT_CODEC_VERSION);
+  writer.u8(snapshot.full ? FLAG_FULL : 0);
+  writer.u32(snapshot.tick);
+  if (!snapshot.full) {
+    writer.u32(snapshot.baselineTick ?? 0);
+  }
+  writer.f64(snapshot.timestamp);
+  writer.str(snapshot.roomId);
+
+  writer.u16(strings.values.length);
+  strings.values.forEach((value) => writer.str(value));
+
+  writer.u16(entityIds.length);
+  for (const id of entityIds) {
+    const entity = snapshot.entities[id];
+    const mask = getDirtyMask(snapshot.full ? undefined : baseline[id], entity);
+    writer.u16(strings.indexOf(id));
+    writer.u16(mask);
+    writeFields(writer, strings, entity, mask & 0xff);
+  }
+
+  writer.u16(snapshot.deletedEntities.length);
+  snapshot.deletedEntities.forEach((id) => writer.u16(strings.indexOf(id)));
+
+  const acks = Object.entries(snapshot.lastProcessedInputs);
+  writer.u16(acks.length);
+  for (const [id, sequence] of acks) {
+    writer.u16(strings.indexOf(id));
+    writer.u32(sequence);
+  }
+
+  writer.bytes(utf8Encode(JSON.stringify(snapshot.events)), true);
+
+  return writer.finish();
+}
+
+/**
+ * Thrown when a delta snapshot is based on a tick the receiver no longer has.
+ * The delta cannot be applied; the receiver needs a full snapshot instead.
+ */
+export class MissingBaselineError extends Error {
+  /**
+   * @param baselineTick Tick the delta was encoded against.
+   */
+  constructor(public baselineTick: number) {
+    super(`Missing snapshot baseline for tick ${baselineTick}`);
+    this.name = 'MissingBaselineError';
+  }
+}
+
+/**
+ * Decode a snapshot produced by `encodeSnapshot`.
+ * @param getBaseline Looks up the entity states of an earlier snapshot by
+ * tick. Entities in a delta are rebuilt on top of that baseline, so callers
+ * always get whole entities.
+ * @throws MissingBaselineError If a delta's baseline cannot be found.
+ */
+export function decodeSnapshot(
+  data: ArrayBuffer | ArrayBufferView,
+  getBaseline: (tick: number) => Record<string, any> | undefined = () =>
+    undefined,
+): SnapshotPayload {
+  const reader = new ByteReader(data);
+
+  const version = reader.u8();
+  if (version !== SNAPSHOT_CODEC_VERSION) {
+    throw new Error(`Unsupported snapshot codec version ${version}`);
+  }
+  const full = (reader.u8() & FLAG_FULL) !== 0;
+  const tick = reader.u32();
+  const baselineTick = full ? undefined : reader.u32();
+  const timestamp = reader.f64();
+  const roomId = reader.str();
+  const baseline = baselineTick === undefined ? {} : getBaseline(baselineTick);
+  if (!baseline) {
+    throw new MissingBaselineError(baselineTick!);
+  }
+
+  const strings: string[] = [];
+  const stringCount = reader.u16();
+  for (let i = 0; i < stringCount; i++) {
+    strings.push(reader.str());
+  }
+
+  const entities: Record<string, any> = {};
+  const entityCount = reader.u16();
+  for (let i = 0; i < entityCount; i++) {
+    const id = strings[reader.u16()];
+    const mask = reader.u16();
+    const base = !full && baseline[id] ? cloneEntity(baseline[id]) : {};
+    entities[id] = readFields(reader, strings, base, mask);
+  }
+
+  const deletedEntities: string[] = [];
+  const deletedCount = reader.u16();
+  for (let i = 0; i < deletedCount; i++) {
+    deletedEntities.push(strings[reader.u16()]);
+  }
+
+  const lastProcessedInputs: Record<string, number> = {};
+  const ackCount = reader.u16();
+  for (let i = 0; i < ackCount; i++) {
+    const id = strings[reader.u16()];
+    lastProcessedInputs[id] = reader.u32();
+  }
+
+  const events = JSON.parse(utf8Decode(reader.bytes(true)));
+
+  return {
+    timestamp,
+    roomId,
+    tick,
+    ...(baselineTick === undefined ? {} : { baselineTick }),
+    entities,
+    deletedEntities,
+    events,
+    lastProcessedInputs,
+    full,
+  };
+}
+
+function writeFields(
+  writer: ByteWriter,
+  strings: StringTable,
+  entity: any,
+  dirty: number,
+): void {
+  if (dirty & FIELD_TYPE) {
+    writer.u16(strings.indexOf(entity.type));
+  }
+  if (dirty & FIELD_POSITION) {
+    writer.i32(quantize(entity.position.x, POSITION_SCALE));
+    writer.i32(quantize(entity.position.y, POSITION_SCALE));
+  }
+  if (dirty & FIELD_VELOCITY) {
+    writer.i16(clampI16(quantize(entity.velocity.x, VELOCITY_SCALE)));
+    writer.i16(clampI16(quantize(entity.velocity.y, VELOCITY_SCALE)));
+  }
+  if (dirty & FIELD_SIZE) {
+    writer.u16(entity.width ?? 0);
+    writer.u16(entity.height ?? 0);
+  }
+  if (dirty & (FIELD_ON_GROUND | FIELD_GRAVITY)) {
+    writer.u8((entity.isOnGround ? 1 : 0) | (entity.affectedByGravity ? 2 : 0));
+  }
+  if (dirty & FIELD_HEALTH) {
+    writer.f32(entity.health);
+  }
+  if (dirty & FIELD_EXTRA) {
+    writer.bytes(utf8Encode(JSON.stringify(getExtras(entity))), false);
+  }
+}
+
+function readFields(
+  reader: ByteReader,
+  strings: string[],
+  entity: any,
+  mask: number,
+): any {
+  const dirty = mask & 0xff;
+  const removed = mask >> 8;
+
+  if (dirty & FIELD_TYPE) {
+    entity.type = strings[reader.u16()];
+  }
+  if (dirty & FIELD_POSITION) {
+    entity.position = {
+      x: reader.i32() / POSITION_SCALE,
+      y: reader.i32() / POSITION_SCALE,
+    };
+  }
+  if (dirty & FIELD_VELOCITY) {
+    entity.velocity = {
+      x: reader.i16() / VELOCITY_SCALE,
+      y: reader.i16() / VELOCITY_SCALE,
+    };
+  }
+  if (dirty & FIELD_SIZE) {
+    entity.width = reader.u16();
+    entity.height = reader.u16();
+  }
+  if (dirty & (FIELD_ON_GROUND | FIELD_GRAVITY)) {
+    const flags = reader.u8();
+    if (dirty & FIELD_ON_GROUND) entity.isOnGround = (flags & 1) !== 0;
+    if (dirty & FIELD_GRAVITY) entity.affectedByGravity = (flags & 2) !== 0;
+  }
+  if (dirty & FIELD_HEALTH) {
+    entity.health = reader.f32();
+  }
+  if (dirty & FIELD_EXTRA) {
+    for (const key of Object.keys(getExtras(entity))) {
+      delete entity[key];
+    }
+    Object.assign(entity, JSON.parse(utf8Decode(reader.bytes(false))));
+  }
+
+  if (removed & FIELD_TYPE) delete entity.type;
+  if (removed & FIELD_POSITION) delete entity.position;
+  if (removed & FIELD_VELOCITY) delete entity.velocity;
+  if (removed & FIELD_SIZE) {
+    delete entity.width;
+    delete entity.height;
+  }
+  if (removed & FIELD_ON_GROUND) delete entity.isOnGround;
+  if (removed & FIELD_GRAVITY) delete entity.affectedByGravity;
+  if (removed & FIELD_HEALTH) delete entity.health;
+  if (removed & FIELD_EXTRA) {
+    for (const key of Object.keys(getExtras(entity))) {
+      delete entity[key];
+    }
+  }
+
+  return entity;
+}
+
+function fieldsPresent(entity: any): number {
+  let mask = 0;
+  if (getType(entity) !== undefined) mask |= FIELD_TYPE;
+  if (entity.position) mask |= FIELD_POSITION;
+  if (entity.velocity) mask |= FIELD_VELOCITY;
+  if (entity.width !== undefined || entity.height !== undefined) {
+    mask |= FIELD_SIZE;
+  }
+  if (entity.isOnGround !== undefined) mask |= FIELD_ON_GROUND;
+  if (entity.affectedByGravity !== undefined) mask |= FIELD_GRAVITY;
+  if (entity.health !== undefined) mask |= FIELD_HEALTH;
+  if (Object.keys(getExtras(entity)).length > 0) mask |= FIELD_EXTRA;
+  return mask;
+}
+
+/**
+ * Entity types go through the string table; other values ride in the extras.
+ */
+function getType(entity: any): string | undefined {
+  return typeof entity.type === 'string' ? entity.type : undefined;
+}
+
+function getExtras(entity: any): Record<string, any> {
+  const extras: Record<string, any> = {};
+  for (const [key, value] of Object.entries(entity)) {
+    const known =
+      KNOWN_FIELDS.has(key) &&
+      (key !== 'type' || getType(entity) !== undefined);
+    if (!known && !LOCAL_FIELDS.has(key) && value !== undefined) {
+      extras[key] = value;
+    }
+  }
+  return extras;
+}
+
+function extrasKey(extras: Record<string, any>): string | undefined {
+  return Object.keys(extras).length > 0 ? JSON.stringify(extras) : undefined;
+}
+
+function sizeKey(width?: number, height?: number): string | undefined {
+  if (width === undefined && height === undefined) return undefined;
+  return `${width ?? 0}x${height ?? 0}`;
+}
+
+function quantizeVector(
+  vector: { x: number; y: number } | undefined,
+  scale: number,
+): string | undefined {
+  if (!vector) return undefined;
+  return `${quantize(vector.x, scale)},${quantize(vector.y, scale)}`;
+}
+
+function quantize(value: number, scale: number): number {
+  return Math.round((value || 0) * scale);
+}
+
+function clampI16(value: number): number {
+  return Math.max(-32768, Math.min(32767, value));
+}
+
+/**
+ * Interns strings so each id or type is written once per snapshot.
+ */
+class StringTable {
+  public readonly values: string[] = [];
+  private indices: Map<string, number> = new Map();
+
+  public add(value: string): void {
+    if (!this.indices.has(value)) {
+      this.indices.set(value, this.values.length);
+      this.values.push(value);
+    }
+  }
+
+  public indexOf(value: string): number {
+    const index = this.indices.get(value);
+    if (index === undefined) {
+      throw new Error(`String not interned: ${value}`);
+    }
+    return index;
+  }
+}
+
+/**
+ * Growable little-endian byte buffer.
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  public u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  public u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  public i16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  public u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  public i32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  public f32(value: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  public f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  public str(value: string): void {
+    this.bytes(utf8Encode(value), false);
+  }
+
+  /**
+   * Write length-prefixed bytes (u16 length, or u32 when `long`).
+   */
+  public bytes(value: Uint8Array, long: boolean): void {
+    if (long) {
+      this.u32(value.length);
+    } else {
+      this.u16(value.length);
+    }
+    this.reserve(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  public finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  private reserve(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) length *= 2;
+    const next = new Uint8Array(length);
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+/**
+ * Sequential little-endian reader over a received buffer.
+ */
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(data: ArrayBuffer | ArrayBufferView) {
+    this.view = ArrayBuffer.isView(data)
+      ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+      : new DataView(data);
+  }
+
+  public u8(): number {
+    const value = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  public u16(): number {
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  public i16(): number {
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  public u32(): number {
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  public i32(): number {
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  public f32(): number {
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  public f64(): number {
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  public str(): string {
+    return utf8Decode(this.bytes(false));
+  }
+
+  public bytes(long: boolean): Uint8Array {
+    const length = long ? this.u32() : this.u16();
+    const start = this.view.byteOffset + this.offset;
+    this.offset += length;
+    return new Uint8Array(this.view.buffer, start, length);
+  }
+}
+
+/*
+ * Minimal UTF-8 helpers: `TextEncoder` is missing from some runtimes we test
+ * in (jsdom), and the codec has to behave the same everywhere.
+ */
+function utf8Encode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f),
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function utf8Decode(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code =
+        ((byte & 0x0f) << 12) |
+        ((bytes[i + 1] & 0x3f) << 6) |
+        (bytes[i + 2] & 0x3f);
+      i += 3;
+    } else {
+      code =
+        ((byte & 0x07) << 18) |
+        ((bytes[i + 1] & 0x3f) << 12) |
+        ((bytes[i + 2] & 0x3f) << 6) |
+        (bytes[i + 3] & 0x3f);
+      i += 4;
+    }
+    result += String.fromCodePoint(code);
+  }
+  return result;
+}
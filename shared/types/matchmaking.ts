@@ -31,3 +31,22 @@ export interface MatchmakingResult {
   }>;
   matchedAt: Date;
 }
+
+/**
+ * A player's finishing place in a match (1 is best; ties share a rank).
+ */
+export interface MatchStanding {
+  playerId: string;
+  rank: number;
+  /** Points scored in the match, when the room kept score. */
+  score?: number;
+}
+
+/**
+ * Outcome of a finished match, used to update ratings and stats.
+ */
+export interface MatchResult {
+  roomId: string;
+  gameMode: string;
+  standings: MatchStanding[];
+}